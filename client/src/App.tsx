@@ -23,6 +23,7 @@ function Router() {
     <Switch>
       <Route path="/login" component={Login} />
       <Route path="/" component={user ? Home : Login} />
+      <Route path="/leads/:id" component={user ? Home : Login} />
       <Route component={NotFound} />
     </Switch>
   );
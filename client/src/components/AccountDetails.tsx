@@ -0,0 +1,307 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { useCurrencySettings } from "@/hooks/useCurrencySettings";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { findStage, stageBadgeClass, stageLabel } from "@/lib/stages";
+import { formatMoney } from "@/lib/currency";
+import { Building2, Globe, MapPin, Users, Briefcase, MessageSquare, Plus, Edit, Trash2, Save, X } from "lucide-react";
+import type { AccountDetail, Contact, InsertContact, Lead } from "@shared/schema";
+
+interface AccountDetailsProps {
+  accountId: number;
+  onClose: () => void;
+  onEdit: () => void;
+  onOpenLead: (lead: Lead) => void;
+}
+
+type ContactDraft = { name: string; title: string; email: string; phone: string };
+
+const emptyContact: ContactDraft = { name: "", title: "", email: "", phone: "" };
+
+const draftFrom = (contact: Contact): ContactDraft => ({
+  name: contact.name,
+  title: contact.title || "",
+  email: contact.email || "",
+  phone: contact.phone || "",
+});
+
+export default function AccountDetails({ accountId, onClose, onEdit, onOpenLead }: AccountDetailsProps) {
+  const { user } = useAuth();
+  const canEdit = user?.role === "admin" || user?.role === "agent";
+  // Contact being edited: its id, "new" for one being added, or null
+  const [editingContact, setEditingContact] = useState<number | "new" | null>(null);
+  const [contactDraft, setContactDraft] = useState<ContactDraft>(emptyContact);
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { allStages } = usePipelineStages();
+  const { baseCurrency } = useCurrencySettings();
+
+  const { data: account, isLoading } = useQuery<AccountDetail>({
+    queryKey: ["/api/accounts", accountId],
+  });
+
+  const saveContactMutation = useMutation({
+    mutationFn: async (draft: ContactDraft) => {
+      const data: InsertContact = {
+        name: draft.name.trim(),
+        title: draft.title.trim() || null,
+        email: draft.email.trim() || null,
+        phone: draft.phone.trim() || null,
+      };
+      return editingContact === "new"
+        ? await apiRequest("POST", `/api/accounts/${accountId}/contacts`, data)
+        : await apiRequest("PUT", `/api/contacts/${editingContact}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      setEditingContact(null);
+      toast({ title: "Success", description: "Contact saved" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to save contact") });
+    },
+  });
+
+  const deleteContactMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/contacts/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      toast({ title: "Success", description: "Contact deleted" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to delete contact") });
+    },
+  });
+
+  const startEditing = (id: number | "new", draft: ContactDraft) => {
+    setEditingContact(id);
+    setContactDraft(draft);
+  };
+
+  const contactEditor = (
+    <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2 p-3 bg-slate-800/50 border border-slate-700/30 rounded-lg">
+      <Input
+        value={contactDraft.name}
+        onChange={(e) => setContactDraft({ ...contactDraft, name: e.target.value })}
+        placeholder="Name"
+        className="bg-slate-900 border-slate-700 text-white"
+        data-testid="input-contact-name"
+      />
+      <Input
+        value={contactDraft.title}
+        onChange={(e) => setContactDraft({ ...contactDraft, title: e.target.value })}
+        placeholder="Job title"
+        className="bg-slate-900 border-slate-700 text-white"
+      />
+      <Input
+        type="email"
+        value={contactDraft.email}
+        onChange={(e) => setContactDraft({ ...contactDraft, email: e.target.value })}
+        placeholder="Email"
+        className="bg-slate-900 border-slate-700 text-white"
+      />
+      <Input
+        value={contactDraft.phone}
+        onChange={(e) => setContactDraft({ ...contactDraft, phone: e.target.value })}
+        placeholder="Phone"
+        className="bg-slate-900 border-slate-700 text-white"
+      />
+      <div className="flex gap-1">
+        <Button
+          size="sm"
+          onClick={() => saveContactMutation.mutate(contactDraft)}
+          disabled={!contactDraft.name.trim() || saveContactMutation.isPending}
+          className="bg-indigo-600 hover:bg-indigo-700"
+          title="Save"
+          data-testid="button-save-contact"
+        >
+          <Save className="h-4 w-4" />
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => setEditingContact(null)} className="border-slate-600 text-slate-300" title="Cancel">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto bg-slate-900 border-slate-700 w-[95vw] mx-auto">
+        <DialogHeader>
+          <DialogTitle className="text-slate-100 text-lg flex items-center gap-2">
+            <Building2 className="h-5 w-5 text-indigo-400" />
+            {account?.name ?? "Account"}
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading || !account ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500 mx-auto mb-4"></div>
+            <p className="text-slate-400">Loading account...</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+              <div className="space-y-1 text-sm text-slate-300">
+                {account.domain && (
+                  <p className="flex items-center gap-2"><Globe className="h-4 w-4 text-slate-400" />{account.domain}</p>
+                )}
+                {(account.industry || account.size) && (
+                  <p className="flex items-center gap-2">
+                    <Briefcase className="h-4 w-4 text-slate-400" />
+                    {[account.industry, account.size && `${account.size} employees`].filter(Boolean).join(" · ")}
+                  </p>
+                )}
+                {account.address && (
+                  <p className="flex items-center gap-2 whitespace-pre-line"><MapPin className="h-4 w-4 text-slate-400" />{account.address}</p>
+                )}
+                <p className="text-slate-400">Owner: {account.ownerName ?? "Unassigned"}</p>
+              </div>
+              {canEdit && (
+                <Button variant="outline" onClick={onEdit} className="border-slate-600 text-slate-300 hover:bg-slate-700/50" data-testid="button-edit-account">
+                  <Edit className="h-4 w-4 mr-2" />
+                  Edit Account
+                </Button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <Card className="bg-slate-800/30 border-slate-700/50">
+                <CardContent className="p-3">
+                  <p className="text-xs text-slate-400">Deals</p>
+                  <p className="text-lg font-semibold text-white">{account.leadCount}</p>
+                </CardContent>
+              </Card>
+              <Card className="bg-slate-800/30 border-slate-700/50">
+                <CardContent className="p-3">
+                  <p className="text-xs text-slate-400">Open pipeline</p>
+                  <p className="text-lg font-semibold text-white">{formatMoney(account.openValue, baseCurrency)}</p>
+                </CardContent>
+              </Card>
+              <Card className="bg-slate-800/30 border-slate-700/50">
+                <CardContent className="p-3">
+                  <p className="text-xs text-slate-400">Total won</p>
+                  <p className="text-lg font-semibold text-green-400" data-testid="text-account-won-value">{formatMoney(account.wonValue, baseCurrency)}</p>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Contacts */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="text-slate-200 font-medium flex items-center gap-2">
+                  <Users className="h-4 w-4 text-slate-400" />
+                  Contacts ({account.contacts.length})
+                </h3>
+                {canEdit && editingContact === null && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => startEditing("new", emptyContact)}
+                    className="border-slate-600 text-slate-300 hover:bg-slate-700/50"
+                    data-testid="button-add-contact"
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Contact
+                  </Button>
+                )}
+              </div>
+              {editingContact === "new" && contactEditor}
+              {account.contacts.map(contact => editingContact === contact.id ? (
+                <div key={contact.id}>{contactEditor}</div>
+              ) : (
+                <div key={contact.id} className="flex flex-wrap items-center gap-3 p-3 bg-slate-800/30 border border-slate-700/30 rounded-lg text-sm" data-testid={`contact-${contact.id}`}>
+                  <div className="flex-1 min-w-[160px]">
+                    <p className="text-white font-medium">{contact.name}</p>
+                    {contact.title && <p className="text-xs text-slate-400">{contact.title}</p>}
+                  </div>
+                  <span className="text-slate-300">{contact.email || "—"}</span>
+                  <span className="text-slate-300">{contact.phone || "—"}</span>
+                  {canEdit && (
+                    <div className="flex gap-1">
+                      <Button size="sm" variant="ghost" onClick={() => startEditing(contact.id, draftFrom(contact))} className="text-slate-300" title="Edit">
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => {
+                          if (confirm(`Delete ${contact.name}? Deals with them as primary contact keep the account.`)) deleteContactMutation.mutate(contact.id);
+                        }}
+                        className="text-red-400"
+                        title="Delete"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+              {account.contacts.length === 0 && editingContact !== "new" && (
+                <p className="text-sm text-slate-400">No contacts yet.</p>
+              )}
+            </div>
+
+            {/* Deals */}
+            <div className="space-y-2">
+              <h3 className="text-slate-200 font-medium flex items-center gap-2">
+                <Briefcase className="h-4 w-4 text-slate-400" />
+                Deals ({account.leads.length})
+              </h3>
+              {account.leads.map(lead => (
+                <button
+                  key={lead.id}
+                  type="button"
+                  onClick={() => onOpenLead(lead)}
+                  className="w-full flex flex-wrap items-center gap-3 p-3 bg-slate-800/30 border border-slate-700/30 rounded-lg text-sm text-left hover:bg-slate-700/30"
+                  data-testid={`account-lead-${lead.id}`}
+                >
+                  <span className="flex-1 min-w-[160px] text-white font-medium">{lead.name}</span>
+                  <Badge className={`${stageBadgeClass(findStage(allStages, lead.status, lead.pipelineId))} border text-xs`}>
+                    {stageLabel(allStages, lead.status, lead.pipelineId)}
+                  </Badge>
+                  <span className="text-slate-300 w-24 text-right">{lead.value != null ? formatMoney(lead.value, lead.currency) : "—"}</span>
+                </button>
+              ))}
+              {account.leads.length === 0 && <p className="text-sm text-slate-400">No deals with this account.</p>}
+            </div>
+
+            {/* Interactions */}
+            <div className="space-y-2">
+              <h3 className="text-slate-200 font-medium flex items-center gap-2">
+                <MessageSquare className="h-4 w-4 text-slate-400" />
+                Recent Interactions
+              </h3>
+              {account.interactions.map(interaction => (
+                <div key={interaction.id} className="p-3 bg-slate-800/30 border border-slate-700/30 rounded-lg text-sm">
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400 mb-1">
+                    <Badge variant="outline" className="border-slate-600 text-slate-300 capitalize">{interaction.type}</Badge>
+                    <span>{interaction.leadName}</span>
+                    <span>·</span>
+                    <span>{interaction.userName ?? "Unknown user"}</span>
+                    <span>·</span>
+                    <span>{new Date(interaction.createdAt).toLocaleString()}</span>
+                  </div>
+                  <p className="text-slate-200 whitespace-pre-wrap">{interaction.text}</p>
+                </div>
+              ))}
+              {account.interactions.length === 0 && <p className="text-sm text-slate-400">No interactions logged yet.</p>}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { ACCOUNT_SIZES } from "@shared/schema";
+import type { Account, InsertAccount, AccountSize } from "@shared/schema";
+
+interface AccountFormProps {
+  account?: Account | null;
+  onClose: () => void;
+}
+
+export default function AccountForm({ account, onClose }: AccountFormProps) {
+  const [formData, setFormData] = useState<InsertAccount>({
+    name: account?.name || "",
+    domain: account?.domain || "",
+    industry: account?.industry || "",
+    size: account?.size ?? null,
+    address: account?.address || "",
+    ownerId: account?.ownerId ?? null,
+  });
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: users = [] } = useQuery<any[]>({
+    queryKey: ["/api/users"],
+  });
+  const owners = users.filter((user: any) => user.role !== "engineer" && user.isActive);
+
+  const mutation = useMutation({
+    mutationFn: async (data: InsertAccount) => {
+      return account
+        ? await apiRequest("PUT", `/api/accounts/${account.id}`, data)
+        : await apiRequest("POST", "/api/accounts", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      toast({
+        title: "Success",
+        description: account ? "Account updated successfully" : "Account created successfully",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: apiErrorMessage(error, `Failed to ${account ? "update" : "create"} account`),
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    mutation.mutate({
+      ...formData,
+      industry: formData.industry?.trim() || null,
+      address: formData.address?.trim() || null,
+    });
+  };
+
+  const handleChange = (field: keyof InsertAccount, value: any) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[600px] bg-slate-800 border-slate-700 max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-slate-100">
+            {account ? "Edit Account" : "New Account"}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="account-name" className="text-slate-300 text-sm">Company Name *</Label>
+              <Input
+                id="account-name"
+                value={formData.name}
+                onChange={(e) => handleChange("name", e.target.value)}
+                className="mt-1 bg-slate-700 border-slate-600 text-slate-100"
+                required
+                data-testid="input-account-name"
+              />
+            </div>
+            <div>
+              <Label htmlFor="account-domain" className="text-slate-300 text-sm">Domain</Label>
+              <Input
+                id="account-domain"
+                value={formData.domain || ""}
+                onChange={(e) => handleChange("domain", e.target.value)}
+                placeholder="acme.com"
+                className="mt-1 bg-slate-700 border-slate-600 text-slate-100 placeholder:text-slate-400"
+                data-testid="input-account-domain"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="account-industry" className="text-slate-300 text-sm">Industry</Label>
+              <Input
+                id="account-industry"
+                value={formData.industry || ""}
+                onChange={(e) => handleChange("industry", e.target.value)}
+                className="mt-1 bg-slate-700 border-slate-600 text-slate-100"
+                data-testid="input-account-industry"
+              />
+            </div>
+            <div>
+              <Label className="text-slate-300 text-sm">Company Size</Label>
+              <Select
+                value={formData.size ?? "unknown"}
+                onValueChange={(value) => handleChange("size", value === "unknown" ? null : value as AccountSize)}
+              >
+                <SelectTrigger className="mt-1 bg-slate-700 border-slate-600 text-slate-100" data-testid="select-account-size">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  <SelectItem value="unknown">Unknown</SelectItem>
+                  {ACCOUNT_SIZES.map(size => (
+                    <SelectItem key={size} value={size}>{size} employees</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-slate-300 text-sm">Owner</Label>
+              <Select
+                value={formData.ownerId ? String(formData.ownerId) : "none"}
+                onValueChange={(value) => handleChange("ownerId", value === "none" ? null : parseInt(value))}
+              >
+                <SelectTrigger className="mt-1 bg-slate-700 border-slate-600 text-slate-100" data-testid="select-account-owner">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  <SelectItem value="none">No owner</SelectItem>
+                  {owners.map((user: any) => (
+                    <SelectItem key={user.id} value={String(user.id)}>{user.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="account-address" className="text-slate-300 text-sm">Address</Label>
+            <Textarea
+              id="account-address"
+              value={formData.address || ""}
+              onChange={(e) => handleChange("address", e.target.value)}
+              rows={2}
+              className="mt-1 bg-slate-700 border-slate-600 text-slate-100"
+              data-testid="input-account-address"
+            />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={onClose} className="border-slate-600 text-slate-300">
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={mutation.isPending}
+              className="bg-indigo-600 hover:bg-indigo-700"
+              data-testid="button-save-account"
+            >
+              {mutation.isPending ? "Saving..." : account ? "Save Account" : "Create Account"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useCurrencySettings } from "@/hooks/useCurrencySettings";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { formatMoney } from "@/lib/currency";
+import { Plus, Search, Building2, Trash2 } from "lucide-react";
+import AccountForm from "./AccountForm";
+import AccountDetails from "./AccountDetails";
+import LeadDetails from "./LeadDetails";
+import type { Account, AccountWithStats, Lead } from "@shared/schema";
+
+const gridTemplateColumns = "2fr 1fr 1fr 1fr 0.6fr 1fr 1fr 0.4fr";
+
+export default function AccountsTable() {
+  const [search, setSearch] = useState("");
+  const [showForm, setShowForm] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+  const [viewingAccountId, setViewingAccountId] = useState<number | null>(null);
+  // A deal opened from the account; closing it goes back to the account
+  const [viewingLead, setViewingLead] = useState<Lead | null>(null);
+
+  const { user } = useAuth();
+  const canEdit = user?.role === "admin" || user?.role === "agent";
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  // Account totals are reported in the base currency
+  const { baseCurrency } = useCurrencySettings();
+
+  const { data: accounts = [], isLoading } = useQuery<AccountWithStats[]>({
+    queryKey: ["/api/accounts"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/accounts/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      toast({ title: "Success", description: "Account deleted" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to delete account") });
+    },
+  });
+
+  const term = search.trim().toLowerCase();
+  const visibleAccounts = term
+    ? accounts.filter(account => account.name.toLowerCase().includes(term) || account.domain?.includes(term))
+    : accounts;
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-slate-700 rounded w-1/4 mb-4"></div>
+          <div className="h-32 bg-slate-800/30 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h2 className="text-lg sm:text-xl font-bold text-white">Accounts</h2>
+          <p className="text-slate-400 mt-1">
+            {visibleAccounts.length} of {accounts.length} accounts
+          </p>
+        </div>
+        {canEdit && (
+          <Button
+            onClick={() => {
+              setEditingAccount(null);
+              setShowForm(true);
+            }}
+            className="bg-indigo-600 hover:bg-indigo-700 px-4 py-2"
+            data-testid="button-add-account"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Account
+          </Button>
+        )}
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-3 h-4 w-4 text-slate-400" />
+        <Input
+          placeholder="Search accounts by name or domain..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="pl-10 bg-slate-800/50 border-slate-700 text-white placeholder:text-slate-400"
+          data-testid="input-search-accounts"
+        />
+      </div>
+
+      <div className="bg-slate-800/30 rounded-lg border border-slate-700/50 overflow-hidden">
+        <div className="hidden lg:block bg-slate-700/30 px-4 py-3 border-b border-slate-600/50">
+          <div className="grid gap-2 text-xs font-medium text-slate-400 uppercase tracking-wider" style={{ gridTemplateColumns }}>
+            <div>Account</div>
+            <div>Industry</div>
+            <div>Size</div>
+            <div>Owner</div>
+            <div>Deals</div>
+            <div>Open Pipeline</div>
+            <div>Won</div>
+            <div></div>
+          </div>
+        </div>
+
+        <div className="divide-y divide-slate-700/50">
+          {visibleAccounts.map(account => (
+            <div
+              key={account.id}
+              onClick={() => setViewingAccountId(account.id)}
+              className="p-4 hover:bg-slate-700/20 transition-colors cursor-pointer"
+              data-testid={`row-account-${account.id}`}
+            >
+              {/* Mobile Card Layout */}
+              <div className="lg:hidden grid grid-cols-2 gap-2 items-center text-sm">
+                <div className="col-span-2 flex items-center gap-2">
+                  <Building2 className="h-4 w-4 text-indigo-400" />
+                  <span className="text-white font-medium">{account.name}</span>
+                  {account.domain && <span className="text-slate-400 text-xs">{account.domain}</span>}
+                </div>
+                <div className="text-slate-400">{account.leadCount} deals · {account.contactCount} contacts</div>
+                <div className="text-right text-green-400">{formatMoney(account.wonValue, baseCurrency)} won</div>
+              </div>
+              <div className="hidden lg:grid gap-2 items-center text-sm" style={{ gridTemplateColumns }}>
+                <div className="flex items-center gap-2 min-w-0">
+                  <Building2 className="h-4 w-4 text-indigo-400 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-white font-medium truncate">{account.name}</p>
+                    <p className="text-xs text-slate-400 truncate">
+                      {[account.domain, `${account.contactCount} contact${account.contactCount === 1 ? "" : "s"}`].filter(Boolean).join(" · ")}
+                    </p>
+                  </div>
+                </div>
+                <div className="text-slate-300 truncate">{account.industry || "—"}</div>
+                <div className="text-slate-300">{account.size || "—"}</div>
+                <div className="text-slate-300 truncate">{account.ownerName || "—"}</div>
+                <div className="text-slate-300">{account.leadCount}</div>
+                <div className="text-slate-300">{formatMoney(account.openValue, baseCurrency)}</div>
+                <div className="text-green-400">{formatMoney(account.wonValue, baseCurrency)}</div>
+                <div className="text-right">
+                  {user?.role === "admin" && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        if (confirm(`Delete ${account.name} and its contacts? Its deals are kept without an account.`)) {
+                          deleteMutation.mutate(account.id);
+                        }
+                      }}
+                      className="text-red-400 hover:bg-red-600/20"
+                      title="Delete account"
+                      data-testid={`button-delete-account-${account.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+          {visibleAccounts.length === 0 && (
+            <div className="p-8 text-center text-slate-400">
+              {accounts.length === 0 ? "No accounts yet. Leads are grouped into accounts by company and email domain." : "No accounts match your search."}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {showForm && (
+        <AccountForm
+          account={editingAccount}
+          onClose={() => {
+            setShowForm(false);
+            setEditingAccount(null);
+          }}
+        />
+      )}
+
+      {viewingAccountId !== null && !showForm && !viewingLead && (
+        <AccountDetails
+          accountId={viewingAccountId}
+          onClose={() => setViewingAccountId(null)}
+          onEdit={() => {
+            setEditingAccount(accounts.find(account => account.id === viewingAccountId) ?? null);
+            setShowForm(true);
+          }}
+          onOpenLead={setViewingLead}
+        />
+      )}
+
+      {viewingLead && (
+        <LeadDetails
+          lead={viewingLead}
+          onClose={() => setViewingLead(null)}
+        />
+      )}
+    </div>
+  );
+}
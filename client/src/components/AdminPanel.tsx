@@ -8,6 +8,14 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import WebhookForm from "./WebhookForm";
 import UserForm from "./UserForm";
+import PipelineStageSettings from "./PipelineStageSettings";
+import CloseReasonSettings from "./CloseReasonSettings";
+import CustomFieldSettings from "./CustomFieldSettings";
+import ScoringRuleSettings from "./ScoringRuleSettings";
+import TagSettings from "./TagSettings";
+import CurrencySettings from "./CurrencySettings";
+import QuoteTemplateSettings from "./QuoteTemplateSettings";
+import InvoiceSettings from "./InvoiceSettings";
 import { 
   Users, 
   Webhook, 
@@ -30,9 +38,16 @@ import {
   Search,
   RotateCcw,
   Check,
-  Filter
+  Filter,
+  Kanban,
+  ListPlus,
+  Gauge,
+  Tags,
+  Coins,
+  FileText,
+  Receipt
 } from "lucide-react";
-import type { User, Webhook as WebhookType, Product, Lead } from "@shared/schema";
+import type { User, Webhook as WebhookType, Product } from "@shared/schema";
 
 export default function AdminPanel() {
   const [activeTab, setActiveTab] = useState("users");
@@ -61,8 +76,8 @@ export default function AdminPanel() {
     queryKey: ["/api/products"],
   });
 
-  const { data: leads = [] } = useQuery<Lead[]>({
-    queryKey: ["/api/leads"],
+  const { data: analytics } = useQuery<{ totalLeads: number }>({
+    queryKey: ["/api/analytics"],
   });
 
 
@@ -274,6 +289,62 @@ export default function AdminPanel() {
             <span className="hidden xs:inline">Agents</span>
             <span className="text-xs">({users.length})</span>
           </Button>
+          <Button
+            onClick={() => setActiveTab("pipeline")}
+            className={`flex items-center justify-center space-x-1 sm:space-x-2 flex-1 sm:flex-initial text-sm ${activeTab === "pipeline" ? "bg-indigo-600" : "bg-slate-700"}`}
+            data-testid="tab-pipeline"
+          >
+            <Kanban className="h-4 w-4" />
+            <span className="hidden xs:inline">Pipeline</span>
+          </Button>
+          <Button
+            onClick={() => setActiveTab("fields")}
+            className={`flex items-center justify-center space-x-1 sm:space-x-2 flex-1 sm:flex-initial text-sm ${activeTab === "fields" ? "bg-indigo-600" : "bg-slate-700"}`}
+            data-testid="tab-custom-fields"
+          >
+            <ListPlus className="h-4 w-4" />
+            <span className="hidden xs:inline">Fields</span>
+          </Button>
+          <Button
+            onClick={() => setActiveTab("tags")}
+            className={`flex items-center justify-center space-x-1 sm:space-x-2 flex-1 sm:flex-initial text-sm ${activeTab === "tags" ? "bg-indigo-600" : "bg-slate-700"}`}
+            data-testid="tab-tags"
+          >
+            <Tags className="h-4 w-4" />
+            <span className="hidden xs:inline">Tags</span>
+          </Button>
+          <Button
+            onClick={() => setActiveTab("currency")}
+            className={`flex items-center justify-center space-x-1 sm:space-x-2 flex-1 sm:flex-initial text-sm ${activeTab === "currency" ? "bg-indigo-600" : "bg-slate-700"}`}
+            data-testid="tab-currency"
+          >
+            <Coins className="h-4 w-4" />
+            <span className="hidden xs:inline">Currency</span>
+          </Button>
+          <Button
+            onClick={() => setActiveTab("quotes")}
+            className={`flex items-center justify-center space-x-1 sm:space-x-2 flex-1 sm:flex-initial text-sm ${activeTab === "quotes" ? "bg-indigo-600" : "bg-slate-700"}`}
+            data-testid="tab-quotes"
+          >
+            <FileText className="h-4 w-4" />
+            <span className="hidden xs:inline">Quotes</span>
+          </Button>
+          <Button
+            onClick={() => setActiveTab("invoices")}
+            className={`flex items-center justify-center space-x-1 sm:space-x-2 flex-1 sm:flex-initial text-sm ${activeTab === "invoices" ? "bg-indigo-600" : "bg-slate-700"}`}
+            data-testid="tab-invoices"
+          >
+            <Receipt className="h-4 w-4" />
+            <span className="hidden xs:inline">Invoices</span>
+          </Button>
+          <Button
+            onClick={() => setActiveTab("scoring")}
+            className={`flex items-center justify-center space-x-1 sm:space-x-2 flex-1 sm:flex-initial text-sm ${activeTab === "scoring" ? "bg-indigo-600" : "bg-slate-700"}`}
+            data-testid="tab-scoring"
+          >
+            <Gauge className="h-4 w-4" />
+            <span className="hidden xs:inline">Scoring</span>
+          </Button>
           <Button
             onClick={() => setActiveTab("webhooks")}
             className={`flex items-center justify-center space-x-1 sm:space-x-2 flex-1 sm:flex-initial text-sm ${activeTab === "webhooks" ? "bg-indigo-600" : "bg-slate-700"}`}
@@ -499,6 +570,25 @@ export default function AdminPanel() {
           </div>
         )}
 
+        {activeTab === "pipeline" && (
+          <div className="space-y-8">
+            <PipelineStageSettings />
+            <CloseReasonSettings />
+          </div>
+        )}
+
+        {activeTab === "fields" && <CustomFieldSettings />}
+
+        {activeTab === "tags" && <TagSettings />}
+
+        {activeTab === "currency" && <CurrencySettings />}
+
+        {activeTab === "quotes" && <QuoteTemplateSettings />}
+
+        {activeTab === "invoices" && <InvoiceSettings />}
+
+        {activeTab === "scoring" && <ScoringRuleSettings />}
+
         {activeTab === "webhooks" && (
           <div className="space-y-4 sm:space-y-6">
             <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3 sm:gap-0">
@@ -934,7 +1024,7 @@ export default function AdminPanel() {
                 </div>
                 <div>
                   <p className="text-slate-400">Leads:</p>
-                  <p className="text-white font-medium" data-testid="stat-leads">{leads.length}</p>
+                  <p className="text-white font-medium" data-testid="stat-leads">{analytics?.totalLeads ?? 0}</p>
                 </div>
                 <div>
                   <p className="text-slate-400">Webhooks:</p>
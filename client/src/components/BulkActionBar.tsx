@@ -0,0 +1,248 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { useCloseReasons } from "@/hooks/useCloseReasons";
+import { X } from "lucide-react";
+import type { BulkLeadAction, BulkLeadResult, Product } from "@shared/schema";
+
+type BulkActionKind = BulkLeadAction["action"];
+
+const actionLabels: Record<BulkActionKind, string> = {
+  status: "Change status",
+  priority: "Change priority",
+  addTags: "Add tags",
+  removeTags: "Remove tags",
+  addProducts: "Add product",
+  removeProducts: "Remove product",
+  followUpDate: "Set follow-up date",
+  export: "Export to CSV",
+  delete: "Move to trash",
+};
+
+interface BulkActionBarProps {
+  selectedIds: number[];
+  onClear: () => void;
+  // Called with the leads the action succeeded for, so only failed leads stay selected
+  onDone: (succeededIds: number[]) => void;
+}
+
+const controlClass = "h-9 bg-slate-800/50 border-slate-700 text-white text-sm";
+
+// Actions for the leads ticked in the table; the server reports each lead's outcome separately
+export default function BulkActionBar({ selectedIds, onClear, onDone }: BulkActionBarProps) {
+  const [action, setAction] = useState<BulkActionKind | "">("");
+  const [status, setStatus] = useState("");
+  const [closeReasonId, setCloseReasonId] = useState<number | null>(null);
+  const [priority, setPriority] = useState<"low" | "medium" | "high">("medium");
+  const [tagText, setTagText] = useState("");
+  const [productId, setProductId] = useState("");
+  const [followUpDate, setFollowUpDate] = useState("");
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { allStages } = usePipelineStages();
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+  // Stage keys repeat across pipelines; the closing type is taken from the first pipeline that has the key
+  const stageOptions = allStages.filter((stage, index) => allStages.findIndex(s => s.key === stage.key) === index);
+  const closingType = stageOptions.find(stage => stage.key === status)?.type;
+  const { closeReasons } = useCloseReasons(closingType === "won" || closingType === "lost" ? closingType : undefined);
+  const needsCloseReason = closingType === "won" || closingType === "lost";
+  const tags = tagText.split(",").map(tag => tag.trim()).filter(Boolean);
+
+  const buildAction = (): BulkLeadAction | null => {
+    const leadIds = selectedIds;
+    switch (action) {
+      case "status":
+        if (!status || (needsCloseReason && !closeReasonId)) return null;
+        return { action, leadIds, status, ...(needsCloseReason && { closeReasonId }) };
+      case "priority":
+        return { action, leadIds, priority };
+      case "addTags":
+      case "removeTags":
+        return tags.length > 0 ? { action, leadIds, tags } : null;
+      case "addProducts":
+      case "removeProducts":
+        return productId ? { action, leadIds, productIds: [parseInt(productId)] } : null;
+      case "followUpDate":
+        return { action, leadIds, followUpDate: followUpDate ? new Date(followUpDate) : null };
+      case "delete":
+      case "export":
+        return { action, leadIds };
+      default:
+        return null;
+    }
+  };
+  const pending = buildAction();
+
+  const bulkMutation = useMutation({
+    mutationFn: async (bulk: BulkLeadAction) => {
+      const response = await apiRequest("POST", "/api/leads/bulk", bulk);
+      if (bulk.action === "export") {
+        const blob = await response.blob();
+        const downloadUrl = window.URL.createObjectURL(blob);
+        const link = document.createElement("a");
+        link.href = downloadUrl;
+        link.download = `leads-selected-${new Date().toISOString().split("T")[0]}.csv`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        window.URL.revokeObjectURL(downloadUrl);
+        return null;
+      }
+      return await response.json() as { message: string; results: BulkLeadResult[] };
+    },
+    onSuccess: (result) => {
+      if (!result) {
+        toast({ title: "Success", description: `Exported ${selectedIds.length} selected leads` });
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+      const failed = result.results.filter(r => !r.success);
+      toast({
+        variant: failed.length > 0 ? "destructive" : "default",
+        title: failed.length > 0 ? `${failed.length} leads not changed` : "Success",
+        description: failed.length > 0
+          ? `${result.message}. ${Array.from(new Set(failed.map(r => r.error))).join("; ")}`
+          : result.message,
+      });
+      onDone(result.results.filter(r => r.success).map(r => r.leadId));
+      setAction("");
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to update the selected leads"),
+      });
+    },
+  });
+
+  const apply = () => {
+    if (!pending) return;
+    if (pending.action === "delete" && !confirm(`Move ${selectedIds.length} leads to the trash? They can be restored from the Trash tab.`)) {
+      return;
+    }
+    bulkMutation.mutate(pending);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 bg-indigo-500/10 border border-indigo-500/30 rounded-lg px-4 py-3" data-testid="bulk-action-bar">
+      <span className="text-sm text-indigo-200 mr-2">{selectedIds.length} selected</span>
+
+      <Select value={action} onValueChange={(value) => setAction(value as BulkActionKind)}>
+        <SelectTrigger className={`${controlClass} w-48`} data-testid="select-bulk-action">
+          <SelectValue placeholder="Choose an action" />
+        </SelectTrigger>
+        <SelectContent className="bg-slate-800 border-slate-700">
+          {(Object.keys(actionLabels) as BulkActionKind[]).map(kind => (
+            <SelectItem key={kind} value={kind}>{actionLabels[kind]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {action === "status" && (
+        <>
+          <Select value={status} onValueChange={(value) => { setStatus(value); setCloseReasonId(null); }}>
+            <SelectTrigger className={`${controlClass} w-40`} data-testid="select-bulk-status">
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-700">
+              {stageOptions.map(stage => (
+                <SelectItem key={stage.key} value={stage.key}>{stage.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {needsCloseReason && (
+            <Select value={closeReasonId ? String(closeReasonId) : undefined} onValueChange={(id) => setCloseReasonId(parseInt(id))}>
+              <SelectTrigger className={`${controlClass} w-48`} data-testid="select-bulk-close-reason">
+                <SelectValue placeholder={closingType === "won" ? "Why were they won?" : "Why were they lost?"} />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-800 border-slate-700">
+                {closeReasons.map(reason => (
+                  <SelectItem key={reason.id} value={String(reason.id)}>{reason.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </>
+      )}
+
+      {action === "priority" && (
+        <Select value={priority} onValueChange={(value) => setPriority(value as typeof priority)}>
+          <SelectTrigger className={`${controlClass} w-32`} data-testid="select-bulk-priority">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-slate-800 border-slate-700">
+            <SelectItem value="high">High</SelectItem>
+            <SelectItem value="medium">Medium</SelectItem>
+            <SelectItem value="low">Low</SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+
+      {(action === "addTags" || action === "removeTags") && (
+        <Input
+          value={tagText}
+          onChange={(e) => setTagText(e.target.value)}
+          placeholder="tag, another tag"
+          className={`${controlClass} w-56 placeholder:text-slate-500`}
+          data-testid="input-bulk-tags"
+        />
+      )}
+
+      {(action === "addProducts" || action === "removeProducts") && (
+        <Select value={productId} onValueChange={setProductId}>
+          <SelectTrigger className={`${controlClass} w-48`} data-testid="select-bulk-product">
+            <SelectValue placeholder="Product" />
+          </SelectTrigger>
+          <SelectContent className="bg-slate-800 border-slate-700">
+            {products.map(product => (
+              <SelectItem key={product.id} value={String(product.id)}>{product.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {action === "followUpDate" && (
+        <Input
+          type="date"
+          value={followUpDate}
+          onChange={(e) => setFollowUpDate(e.target.value)}
+          className={`${controlClass} w-40`}
+          title="Leave empty to clear the follow-up date"
+          data-testid="input-bulk-follow-up"
+        />
+      )}
+
+      {action && (
+        <Button
+          onClick={apply}
+          disabled={!pending || bulkMutation.isPending}
+          className={action === "delete" ? "h-9 bg-red-600 hover:bg-red-700" : "h-9 bg-indigo-600 hover:bg-indigo-700"}
+          data-testid="button-apply-bulk-action"
+        >
+          {bulkMutation.isPending ? "Applying..." : "Apply"}
+        </Button>
+      )}
+
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onClear}
+        className="ml-auto text-slate-400 hover:text-slate-200 hover:bg-slate-700/50"
+        data-testid="button-clear-selection"
+      >
+        <X className="h-4 w-4 mr-1" />
+        Clear selection
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { Copy, RefreshCw } from "lucide-react";
+
+// The user's calendar subscription URL, for follow-ups, meetings and tasks in their calendar app
+export default function CalendarFeed() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<{ url: string | null }>({
+    queryKey: ["/api/calendar/feed"],
+  });
+  const url = data?.url ?? null;
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/calendar/feed");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar/feed"] });
+      toast({ title: "Success", description: url ? "Calendar URL replaced; the old one no longer works" : "Calendar URL created" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to update calendar URL") });
+    },
+  });
+
+  const handleCopy = async () => {
+    if (!url) return;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Success", description: "Calendar URL copied" });
+    } catch {
+      toast({ variant: "destructive", title: "Error", description: "Couldn't copy the URL; select and copy it instead" });
+    }
+  };
+
+  if (isLoading) {
+    return <div className="h-10 bg-slate-700/30 rounded animate-pulse"></div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-slate-400">
+        Subscribe to this URL in Google Calendar, Outlook or Apple Calendar to see your follow-ups, scheduled meetings
+        and task due dates. Anyone with the URL can read the calendar, so keep it private.
+      </p>
+      {url ? (
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input
+            value={url}
+            readOnly
+            onFocus={(e) => e.target.select()}
+            className="bg-slate-800/70 border-slate-600 text-slate-200 font-mono text-xs"
+            data-testid="input-calendar-url"
+          />
+          <Button variant="outline" onClick={handleCopy} className="border-slate-600 text-slate-300 hover:bg-slate-700" data-testid="button-copy-calendar-url">
+            <Copy className="h-4 w-4 mr-2" />
+            Copy
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => {
+              if (confirm("Replace the calendar URL? Calendars subscribed to the current one will stop updating.")) resetMutation.mutate();
+            }}
+            disabled={resetMutation.isPending}
+            className="border-slate-600 text-slate-300 hover:bg-slate-700"
+            data-testid="button-reset-calendar-url"
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Reset
+          </Button>
+        </div>
+      ) : (
+        <Button
+          onClick={() => resetMutation.mutate()}
+          disabled={resetMutation.isPending}
+          className="bg-indigo-600 hover:bg-indigo-700"
+          data-testid="button-create-calendar-url"
+        >
+          {resetMutation.isPending ? "Creating..." : "Create calendar URL"}
+        </Button>
+      )}
+    </div>
+  );
+}
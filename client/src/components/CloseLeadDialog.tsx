@@ -0,0 +1,48 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import CloseReasonFields, { emptyCloseDetails, type CloseDetails } from "./CloseReasonFields";
+import type { PipelineStage } from "@shared/schema";
+
+interface CloseLeadDialogProps {
+  leadName: string;
+  stage: PipelineStage;
+  isPending?: boolean;
+  onConfirm: (details: CloseDetails) => void;
+  onClose: () => void;
+}
+
+// Asks why a lead was won or lost before it is moved into a closed stage
+export default function CloseLeadDialog({ leadName, stage, isPending, onConfirm, onClose }: CloseLeadDialogProps) {
+  const [details, setDetails] = useState<CloseDetails>(emptyCloseDetails);
+  const type = stage.type === "won" ? "won" : "lost";
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="bg-slate-900 border-slate-700 text-white">
+        <DialogHeader>
+          <DialogTitle>Move {leadName} to {stage.name}</DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Record why this deal was {type}. Reasons are reported on the dashboard.
+          </DialogDescription>
+        </DialogHeader>
+
+        <CloseReasonFields type={type} value={details} onChange={setDetails} />
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose} className="border-slate-600 text-slate-300">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onConfirm(details)}
+            disabled={!details.closeReasonId || isPending}
+            className="bg-indigo-600 hover:bg-indigo-700"
+            data-testid="button-confirm-close-lead"
+          >
+            {isPending ? "Saving..." : `Mark as ${type}`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
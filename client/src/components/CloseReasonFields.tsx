@@ -0,0 +1,83 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCloseReasons } from "@/hooks/useCloseReasons";
+import type { CloseReasonType } from "@shared/schema";
+
+export interface CloseDetails {
+  closeReasonId: number | null;
+  closeCompetitor: string;
+  closeNote: string;
+}
+
+export const emptyCloseDetails: CloseDetails = { closeReasonId: null, closeCompetitor: "", closeNote: "" };
+
+export function closeDetailsPayload(details: CloseDetails) {
+  return {
+    closeReasonId: details.closeReasonId,
+    closeCompetitor: details.closeCompetitor.trim() || null,
+    closeNote: details.closeNote.trim() || null,
+  };
+}
+
+interface CloseReasonFieldsProps {
+  type: CloseReasonType;
+  value: CloseDetails;
+  onChange: (value: CloseDetails) => void;
+}
+
+const inputClass = "mt-1 bg-slate-700 border-slate-600 text-slate-100 placeholder:text-slate-400";
+
+// Why a lead was won or lost; the server requires a reason whenever a lead enters a closed stage
+export default function CloseReasonFields({ type, value, onChange }: CloseReasonFieldsProps) {
+  const { closeReasons, getReason } = useCloseReasons(type);
+  // A lead closed with a since-deactivated reason keeps showing it
+  const current = getReason(value.closeReasonId);
+  const selected = current?.type === type ? current : undefined;
+  const options = selected && !selected.isActive ? [...closeReasons, selected] : closeReasons;
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label className="text-slate-300 text-sm">{type === "won" ? "Why was it won?" : "Why was it lost?"} *</Label>
+        <Select
+          value={selected ? String(selected.id) : undefined}
+          onValueChange={(id) => onChange({ ...value, closeReasonId: parseInt(id) })}
+        >
+          <SelectTrigger className="mt-1 bg-slate-700 border-slate-600 text-slate-100" data-testid="select-close-reason">
+            <SelectValue placeholder="Select a reason" />
+          </SelectTrigger>
+          <SelectContent className="bg-slate-800 border-slate-700">
+            {options.map((reason) => (
+              <SelectItem key={reason.id} value={String(reason.id)}>{reason.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {type === "lost" && (
+        <div>
+          <Label className="text-slate-300 text-sm">Lost to competitor</Label>
+          <Input
+            value={value.closeCompetitor}
+            onChange={(e) => onChange({ ...value, closeCompetitor: e.target.value })}
+            placeholder="Optional"
+            className={inputClass}
+            data-testid="input-close-competitor"
+          />
+        </div>
+      )}
+      <div>
+        <Label className="text-slate-300 text-sm">Note</Label>
+        <Textarea
+          value={value.closeNote}
+          onChange={(e) => onChange({ ...value, closeNote: e.target.value })}
+          placeholder="Optional details"
+          rows={2}
+          className={inputClass}
+          data-testid="input-close-note"
+        />
+      </div>
+    </div>
+  );
+}
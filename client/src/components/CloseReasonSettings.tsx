@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { useCloseReasons } from "@/hooks/useCloseReasons";
+import { Plus, Trash2, Save, Flag } from "lucide-react";
+import { CLOSE_REASON_TYPES } from "@shared/schema";
+import type { CloseReason, CloseReasonType } from "@shared/schema";
+
+const reasonTypeTitles: Record<CloseReasonType, string> = {
+  won: "Won reasons",
+  lost: "Lost reasons",
+};
+
+export default function CloseReasonSettings() {
+  const { allReasons, isLoading } = useCloseReasons();
+  const [labels, setLabels] = useState<Record<number, string>>({});
+  const [newLabels, setNewLabels] = useState<Record<CloseReasonType, string>>({ won: "", lost: "" });
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const createMutation = useMutation({
+    mutationFn: async ({ type, label }: { type: CloseReasonType; label: string }) => {
+      return await apiRequest("POST", "/api/close-reasons", { type, label });
+    },
+    onSuccess: (_, { type }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/close-reasons"] });
+      setNewLabels(prev => ({ ...prev, [type]: "" }));
+      toast({ title: "Success", description: "Reason added" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to add reason") });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: Partial<Pick<CloseReason, "label" | "isActive">> }) => {
+      return await apiRequest("PUT", `/api/close-reasons/${id}`, data);
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/close-reasons"] });
+      setLabels(prev => {
+        const { [id]: _saved, ...rest } = prev;
+        return rest;
+      });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to update reason") });
+    },
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (reasonIds: number[]) => {
+      await apiRequest("POST", "/api/close-reasons/reorder", { reasonIds });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/close-reasons"] });
+    },
+    onError: () => {
+      toast({ variant: "destructive", title: "Error", description: "Failed to reorder reasons" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/close-reasons/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/close-reasons"] });
+      toast({ title: "Success", description: "Reason deleted" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to delete reason") });
+    },
+  });
+
+  const handleReorder = (reasons: CloseReason[], reasonId: number, direction: "up" | "down") => {
+    const ordered = [...reasons];
+    const currentIndex = ordered.findIndex(r => r.id === reasonId);
+    const newIndex = direction === "up" ? currentIndex - 1 : currentIndex + 1;
+    if (currentIndex === -1 || newIndex < 0 || newIndex >= ordered.length) return;
+
+    [ordered[currentIndex], ordered[newIndex]] = [ordered[newIndex], ordered[currentIndex]];
+    reorderMutation.mutate(ordered.map(r => r.id));
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div>
+        <h3 className="text-lg sm:text-xl font-semibold text-white">Won &amp; Lost Reasons</h3>
+        <p className="text-slate-400 text-sm sm:text-base">
+          Moving a lead into a won or lost stage asks for one of these reasons. Reasons already recorded on leads can be deactivated but not deleted.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500 mx-auto mb-4"></div>
+          <p className="text-slate-400">Loading reasons...</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {CLOSE_REASON_TYPES.map((type) => {
+            const reasons = allReasons.filter(reason => reason.type === type);
+            return (
+              <div key={type} className="space-y-3">
+                <h4 className="text-slate-300 font-medium">{reasonTypeTitles[type]}</h4>
+                {reasons.map((reason, index) => {
+                  const label = labels[reason.id] ?? reason.label;
+                  const isDirty = labels[reason.id] !== undefined && labels[reason.id] !== reason.label;
+                  return (
+                    <div
+                      key={reason.id}
+                      className="flex items-center gap-2 p-3 bg-slate-800/50 border border-slate-700/30 rounded-lg"
+                      data-testid={`close-reason-${reason.id}`}
+                    >
+                      <div className="flex flex-col">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleReorder(reasons, reason.id, "up")}
+                          disabled={index === 0 || reorderMutation.isPending}
+                          className="p-1 h-5 w-6 text-xs text-slate-400 hover:text-slate-300"
+                          title="Move up"
+                        >
+                          ↑
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleReorder(reasons, reason.id, "down")}
+                          disabled={index === reasons.length - 1 || reorderMutation.isPending}
+                          className="p-1 h-5 w-6 text-xs text-slate-400 hover:text-slate-300"
+                          title="Move down"
+                        >
+                          ↓
+                        </Button>
+                      </div>
+                      <Input
+                        value={label}
+                        onChange={(e) => setLabels(prev => ({ ...prev, [reason.id]: e.target.value }))}
+                        className={`bg-slate-900 border-slate-700 flex-1 ${reason.isActive ? "text-white" : "text-slate-500"}`}
+                        data-testid={`input-close-reason-${reason.id}`}
+                      />
+                      <Switch
+                        checked={reason.isActive}
+                        onCheckedChange={(isActive) => updateMutation.mutate({ id: reason.id, data: { isActive } })}
+                        title={reason.isActive ? "Offered when closing leads" : "No longer offered"}
+                      />
+                      <Button
+                        size="sm"
+                        onClick={() => updateMutation.mutate({ id: reason.id, data: { label: label.trim() } })}
+                        disabled={!isDirty || !label.trim() || updateMutation.isPending}
+                        className="bg-indigo-600 hover:bg-indigo-700"
+                      >
+                        <Save className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => {
+                          if (confirm(`Delete the "${reason.label}" reason?`)) deleteMutation.mutate(reason.id);
+                        }}
+                        disabled={deleteMutation.isPending}
+                        className="border-red-600/50 text-red-400 hover:bg-red-600/20"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  );
+                })}
+
+                <div className="flex items-center gap-2 p-3 border border-dashed border-slate-700 rounded-lg">
+                  <Flag className="h-4 w-4 text-slate-400" />
+                  <Input
+                    value={newLabels[type]}
+                    onChange={(e) => setNewLabels(prev => ({ ...prev, [type]: e.target.value }))}
+                    placeholder={type === "won" ? "e.g. Fast onboarding" : "e.g. Timing"}
+                    className="bg-slate-900 border-slate-700 text-white flex-1"
+                    data-testid={`input-new-${type}-reason`}
+                  />
+                  <Button
+                    size="sm"
+                    onClick={() => createMutation.mutate({ type, label: newLabels[type].trim() })}
+                    disabled={!newLabels[type].trim() || createMutation.isPending}
+                    className="bg-indigo-600 hover:bg-indigo-700"
+                    data-testid={`button-add-${type}-reason`}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrencySettings } from "@/hooks/useCurrencySettings";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { Plus, Trash2, Save } from "lucide-react";
+import { COMMON_CURRENCIES } from "@shared/schema";
+import type { CurrencySettings as CurrencySettingsType } from "@shared/schema";
+
+// Rates are edited as text so a half-typed number doesn't jump around
+type RateDraft = { code: string; rate: string };
+
+const toDrafts = (settings: CurrencySettingsType): RateDraft[] =>
+  Object.entries(settings.rates).map(([code, rate]) => ({ code, rate: String(rate) }));
+
+export default function CurrencySettings() {
+  const { settings, isLoading } = useCurrencySettings();
+  const [draft, setDraft] = useState<{ baseCurrency: string; rates: RateDraft[] } | null>(null);
+  const [newRate, setNewRate] = useState<RateDraft>({ code: "", rate: "" });
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const baseCurrency = draft?.baseCurrency ?? settings.baseCurrency;
+  const rates = draft?.rates ?? toDrafts(settings);
+  const edit = (changes: Partial<{ baseCurrency: string; rates: RateDraft[] }>) =>
+    setDraft({ baseCurrency, rates, ...changes });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        baseCurrency,
+        rates: Object.fromEntries(rates.map(({ code, rate }) => [code, parseFloat(rate)])),
+      };
+      return await apiRequest("PUT", "/api/currency/settings", payload);
+    },
+    onSuccess: () => {
+      // Pipeline and account totals are reported in the base currency
+      queryClient.invalidateQueries({ queryKey: ["/api/currency/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      setDraft(null);
+      toast({ title: "Success", description: "Currency settings saved" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to save currency settings") });
+    },
+  });
+
+  const newCode = newRate.code.trim().toUpperCase();
+  const canAddRate = /^[A-Z]{3}$/.test(newCode) && newCode !== baseCurrency
+    && !rates.some(rate => rate.code === newCode) && parseFloat(newRate.rate) > 0;
+  const ratesValid = rates.every(rate => parseFloat(rate.rate) > 0);
+  const baseOptions = COMMON_CURRENCIES.includes(baseCurrency) ? COMMON_CURRENCIES : [baseCurrency, ...COMMON_CURRENCIES];
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500 mx-auto mb-4"></div>
+        <p className="text-slate-400">Loading currency settings...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+        <div>
+          <h3 className="text-lg sm:text-xl font-semibold text-white">Currency</h3>
+          <p className="text-slate-400 text-sm sm:text-base">
+            Pipeline, revenue and account totals are reported in the base currency. Deals in a currency without a rate are counted at face value.
+          </p>
+        </div>
+        <Button
+          onClick={() => saveMutation.mutate()}
+          disabled={!draft || !ratesValid || saveMutation.isPending}
+          className="bg-indigo-600 hover:bg-indigo-700"
+          data-testid="button-save-currency-settings"
+        >
+          <Save className="h-4 w-4 mr-2" />
+          {saveMutation.isPending ? "Saving..." : "Save"}
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Label className="text-slate-300">Base currency</Label>
+        <Select
+          value={baseCurrency}
+          onValueChange={(code) => edit({ baseCurrency: code, rates: rates.filter(rate => rate.code !== code) })}
+        >
+          <SelectTrigger className="w-32 bg-slate-900 border-slate-700 text-white" data-testid="select-base-currency">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-slate-800 border-slate-700">
+            {baseOptions.map(code => (
+              <SelectItem key={code} value={code}>{code}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {draft && draft.baseCurrency !== settings.baseCurrency && rates.length > 0 && (
+        <p className="text-sm text-amber-400">Check the rates below: each one is the value of one unit in {baseCurrency}.</p>
+      )}
+
+      <div className="space-y-3">
+        <h4 className="text-slate-300 font-medium">Exchange rates</h4>
+        {rates.map(rate => (
+          <div
+            key={rate.code}
+            className="flex flex-wrap items-center gap-2 p-3 bg-slate-800/50 border border-slate-700/30 rounded-lg"
+            data-testid={`currency-rate-${rate.code}`}
+          >
+            <span className="text-white font-medium w-24">1 {rate.code} =</span>
+            <Input
+              type="number"
+              min={0}
+              step="any"
+              value={rate.rate}
+              onChange={(e) => edit({ rates: rates.map(r => r.code === rate.code ? { ...r, rate: e.target.value } : r) })}
+              className="bg-slate-900 border-slate-700 text-white w-36"
+              data-testid={`input-currency-rate-${rate.code}`}
+            />
+            <span className="text-slate-400 flex-1">{baseCurrency}</span>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => edit({ rates: rates.filter(r => r.code !== rate.code) })}
+              className="border-red-600/50 text-red-400 hover:bg-red-600/20"
+              title="Remove rate"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        {rates.length === 0 && <p className="text-sm text-slate-400">No exchange rates yet.</p>}
+
+        <div className="flex flex-wrap items-center gap-2 p-3 border border-dashed border-slate-700 rounded-lg">
+          <span className="text-slate-400">1</span>
+          <Input
+            value={newRate.code}
+            onChange={(e) => setNewRate({ ...newRate, code: e.target.value })}
+            placeholder="EUR"
+            maxLength={3}
+            list="currency-codes"
+            className="bg-slate-900 border-slate-700 text-white w-24 uppercase"
+            data-testid="input-new-currency-code"
+          />
+          <datalist id="currency-codes">
+            {COMMON_CURRENCIES.filter(code => code !== baseCurrency).map(code => <option key={code} value={code} />)}
+          </datalist>
+          <span className="text-slate-400">=</span>
+          <Input
+            type="number"
+            min={0}
+            step="any"
+            value={newRate.rate}
+            onChange={(e) => setNewRate({ ...newRate, rate: e.target.value })}
+            placeholder="1.08"
+            className="bg-slate-900 border-slate-700 text-white w-36"
+            data-testid="input-new-currency-rate"
+          />
+          <span className="text-slate-400 flex-1">{baseCurrency}</span>
+          <Button
+            size="sm"
+            onClick={() => {
+              edit({ rates: [...rates, { code: newCode, rate: newRate.rate }] });
+              setNewRate({ code: "", rate: "" });
+            }}
+            disabled={!canAddRate}
+            className="bg-indigo-600 hover:bg-indigo-700"
+            data-testid="button-add-currency-rate"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
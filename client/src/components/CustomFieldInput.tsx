@@ -0,0 +1,111 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { CustomField, CustomFieldValue } from "@shared/schema";
+
+interface CustomFieldInputProps {
+  field: CustomField;
+  value: CustomFieldValue | undefined;
+  onChange: (value: CustomFieldValue) => void;
+}
+
+const inputClass = "mt-1 bg-slate-700 border-slate-600 text-slate-100 placeholder:text-slate-400";
+
+// Form control for one admin-defined lead field; the server validates the value on save
+export default function CustomFieldInput({ field, value, onChange }: CustomFieldInputProps) {
+  const id = `custom-field-${field.key}`;
+  const label = (
+    <Label htmlFor={id} className="text-slate-300 text-sm">
+      {field.label}{field.required && " *"}
+    </Label>
+  );
+
+  switch (field.type) {
+    case "boolean":
+      return (
+        <div>
+          {label}
+          <div className="mt-2 flex items-center gap-2">
+            <Switch id={id} checked={value === true} onCheckedChange={(checked) => onChange(checked)} data-testid={`input-${id}`} />
+            <span className="text-sm text-slate-400">{value === true ? "Yes" : "No"}</span>
+          </div>
+        </div>
+      );
+    case "select":
+      return (
+        <div>
+          {label}
+          <Select value={typeof value === "string" && value ? value : "none"} onValueChange={(v) => onChange(v === "none" ? null : v)}>
+            <SelectTrigger id={id} className="mt-1 bg-slate-700 border-slate-600 text-slate-100" data-testid={`select-${id}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-700">
+              <SelectItem value="none">Not set</SelectItem>
+              {(field.options || []).map((option) => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      );
+    case "multiselect": {
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <div>
+          {label}
+          <div className="mt-2 flex flex-wrap gap-x-4 gap-y-2">
+            {(field.options || []).map((option) => (
+              <label key={option} className="flex items-center gap-2 text-sm text-slate-200 cursor-pointer">
+                <Checkbox
+                  checked={selected.includes(option)}
+                  onCheckedChange={(checked) =>
+                    onChange(checked ? [...selected, option] : selected.filter(o => o !== option))
+                  }
+                  data-testid={`checkbox-${id}-${option}`}
+                />
+                {option}
+              </label>
+            ))}
+          </div>
+        </div>
+      );
+    }
+    case "number":
+      return (
+        <div>
+          {label}
+          <Input
+            id={id}
+            type="number"
+            step="any"
+            value={typeof value === "number" ? value : ""}
+            onChange={(e) => {
+              const number = parseFloat(e.target.value);
+              onChange(isNaN(number) ? null : number);
+            }}
+            className={inputClass}
+            required={field.required}
+            data-testid={`input-${id}`}
+          />
+        </div>
+      );
+    default:
+      return (
+        <div>
+          {label}
+          <Input
+            id={id}
+            type={field.type === "date" ? "date" : field.type === "url" ? "url" : "text"}
+            value={typeof value === "string" ? value : ""}
+            onChange={(e) => onChange(e.target.value || null)}
+            placeholder={field.type === "url" ? "https://" : undefined}
+            className={inputClass}
+            required={field.required}
+            data-testid={`input-${id}`}
+          />
+        </div>
+      );
+  }
+}
@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { customFieldTypeLabels } from "@/lib/customFields";
+import { Plus, Trash2, Save, ListPlus } from "lucide-react";
+import { CUSTOM_FIELD_TYPES } from "@shared/schema";
+import type { CustomField, CustomFieldType } from "@shared/schema";
+
+// Options are edited as comma-separated text
+interface FieldDraft {
+  label: string;
+  type: CustomFieldType;
+  options: string;
+  required: boolean;
+}
+
+const emptyDraft: FieldDraft = { label: "", type: "text", options: "", required: false };
+
+function hasOptions(type: CustomFieldType) {
+  return type === "select" || type === "multiselect";
+}
+
+function toPayload(draft: FieldDraft) {
+  return {
+    label: draft.label.trim(),
+    type: draft.type,
+    required: draft.required,
+    options: hasOptions(draft.type) ? draft.options.split(",").map(o => o.trim()).filter(Boolean) : null,
+  };
+}
+
+function FieldInputs({ draft, onChange, typeLocked }: { draft: FieldDraft; onChange: (draft: FieldDraft) => void; typeLocked?: boolean }) {
+  return (
+    <>
+      <Input
+        value={draft.label}
+        onChange={(e) => onChange({ ...draft, label: e.target.value })}
+        placeholder="Field label"
+        className="bg-slate-900 border-slate-700 text-white flex-1 min-w-[140px]"
+        data-testid="input-field-label"
+      />
+      {typeLocked ? (
+        <Badge variant="secondary" className="bg-slate-700 text-slate-300" title="The type can't be changed once leads may hold values">
+          {customFieldTypeLabels[draft.type]}
+        </Badge>
+      ) : (
+        <Select value={draft.type} onValueChange={(value) => onChange({ ...draft, type: value as CustomFieldType })}>
+          <SelectTrigger className="w-36 bg-slate-900 border-slate-700 text-white" data-testid="select-field-type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-slate-800 border-slate-700">
+            {CUSTOM_FIELD_TYPES.map((type) => (
+              <SelectItem key={type} value={type}>{customFieldTypeLabels[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {hasOptions(draft.type) && (
+        <Input
+          value={draft.options}
+          onChange={(e) => onChange({ ...draft, options: e.target.value })}
+          placeholder="Options, comma separated"
+          className="bg-slate-900 border-slate-700 text-white flex-1 min-w-[180px]"
+          data-testid="input-field-options"
+        />
+      )}
+      <label className="flex items-center gap-2 text-sm text-slate-300">
+        <Switch checked={draft.required} onCheckedChange={(required) => onChange({ ...draft, required })} data-testid="switch-field-required" />
+        Required
+      </label>
+    </>
+  );
+}
+
+export default function CustomFieldSettings() {
+  const { customFields, isLoading } = useCustomFields();
+  const [drafts, setDrafts] = useState<Record<number, FieldDraft>>({});
+  const [newField, setNewField] = useState<FieldDraft>(emptyDraft);
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const createMutation = useMutation({
+    mutationFn: async (draft: FieldDraft) => {
+      return await apiRequest("POST", "/api/custom-fields", toPayload(draft));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/custom-fields"] });
+      setNewField(emptyDraft);
+      toast({ title: "Success", description: "Field added" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to add field") });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, draft }: { id: number; draft: FieldDraft }) => {
+      const { type, ...payload } = toPayload(draft);
+      return await apiRequest("PUT", `/api/custom-fields/${id}`, payload);
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/custom-fields"] });
+      setDrafts(prev => {
+        const { [id]: _saved, ...rest } = prev;
+        return rest;
+      });
+      toast({ title: "Success", description: "Field updated" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to update field") });
+    },
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (fieldIds: number[]) => {
+      await apiRequest("POST", "/api/custom-fields/reorder", { fieldIds });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/custom-fields"] });
+    },
+    onError: () => {
+      toast({ variant: "destructive", title: "Error", description: "Failed to reorder fields" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/custom-fields/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/custom-fields"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      toast({ title: "Success", description: "Field deleted" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to delete field") });
+    },
+  });
+
+  const handleReorder = (fieldId: number, direction: "up" | "down") => {
+    const ordered = [...customFields];
+    const currentIndex = ordered.findIndex(f => f.id === fieldId);
+    const newIndex = direction === "up" ? currentIndex - 1 : currentIndex + 1;
+    if (currentIndex === -1 || newIndex < 0 || newIndex >= ordered.length) return;
+
+    [ordered[currentIndex], ordered[newIndex]] = [ordered[newIndex], ordered[currentIndex]];
+    reorderMutation.mutate(ordered.map(f => f.id));
+  };
+
+  const draftFor = (field: CustomField): FieldDraft =>
+    drafts[field.id] || { label: field.label, type: field.type, options: (field.options || []).join(", "), required: field.required };
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div>
+        <h3 className="text-lg sm:text-xl font-semibold text-white">Custom Fields</h3>
+        <p className="text-slate-400 text-sm sm:text-base">
+          Extra lead fields shown on the lead form and details, filterable in the leads list and included in CSV exports as cf.&lt;key&gt; columns.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500 mx-auto mb-4"></div>
+          <p className="text-slate-400">Loading fields...</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {customFields.map((field, index) => {
+            const draft = draftFor(field);
+            const isDirty = Boolean(drafts[field.id]);
+            return (
+              <div
+                key={field.id}
+                className="flex flex-wrap items-center gap-2 p-3 bg-slate-800/50 border border-slate-700/30 rounded-lg"
+                data-testid={`field-item-${field.key}`}
+              >
+                <div className="flex flex-col">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleReorder(field.id, "up")}
+                    disabled={index === 0 || reorderMutation.isPending}
+                    className="p-1 h-5 w-6 text-xs text-slate-400 hover:text-slate-300"
+                    title="Move up"
+                  >
+                    ↑
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleReorder(field.id, "down")}
+                    disabled={index === customFields.length - 1 || reorderMutation.isPending}
+                    className="p-1 h-5 w-6 text-xs text-slate-400 hover:text-slate-300"
+                    title="Move down"
+                  >
+                    ↓
+                  </Button>
+                </div>
+                <FieldInputs draft={draft} onChange={(next) => setDrafts(prev => ({ ...prev, [field.id]: next }))} typeLocked />
+                <code className="text-xs text-slate-500" title="CSV column and filter key">cf.{field.key}</code>
+                <Button
+                  size="sm"
+                  onClick={() => updateMutation.mutate({ id: field.id, draft })}
+                  disabled={!isDirty || !draft.label.trim() || updateMutation.isPending}
+                  className="bg-indigo-600 hover:bg-indigo-700"
+                  data-testid={`button-save-field-${field.key}`}
+                >
+                  <Save className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    if (confirm(`Delete the "${field.label}" field? Its values are removed from every lead.`)) deleteMutation.mutate(field.id);
+                  }}
+                  disabled={deleteMutation.isPending}
+                  className="border-red-600/50 text-red-400 hover:bg-red-600/20"
+                  data-testid={`button-delete-field-${field.key}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+
+          <div className="flex flex-wrap items-center gap-2 p-3 border border-dashed border-slate-700 rounded-lg">
+            <ListPlus className="h-4 w-4 text-slate-400" />
+            <FieldInputs draft={newField} onChange={setNewField} />
+            <Button
+              size="sm"
+              onClick={() => createMutation.mutate(newField)}
+              disabled={!newField.label.trim() || createMutation.isPending}
+              className="bg-indigo-600 hover:bg-indigo-700"
+              data-testid="button-add-field"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Field
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
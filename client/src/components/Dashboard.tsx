@@ -13,16 +13,59 @@ import {
   Upload,
   Download,
   Plus,
-  Clock
+  Clock,
+  Timer,
+  ThumbsDown,
+  CalendarClock
 } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { StageAnalytics, LossReasonAnalytics, DueFollowUp } from "@shared/schema";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { useLeadCounts } from "@/hooks/useLeads";
+import { stageLabel } from "@/lib/stages";
+import { formatMoney } from "@/lib/currency";
+import FollowUpActions from "./FollowUpActions";
 
+const stageRanges = [
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+  { value: "365", label: "Last 12 months" },
+  { value: "all", label: "All time" },
+];
+
+// Money amounts are in the base currency; leads in unconvertedCurrencies have no exchange rate yet
 interface AnalyticsData {
+  currency: string;
+  unconvertedCurrencies: string[];
   totalLeads: number;
   conversionRate: number;
   pipelineValue: number;
+  weightedPipelineValue: number;
   activeProjects: number;
+  overdueFollowUps: number;
   leadsByStatus: { status: string; count: number }[];
   revenueByMonth: { month: string; revenue: number }[];
+  lossReasons: LossReasonAnalytics;
+}
+
+const leadSources = [
+  { source: "Website", color: "bg-blue-500" },
+  { source: "Referral", color: "bg-green-500" },
+  { source: "Cold Call", color: "bg-orange-500" },
+  { source: "Advertisement", color: "bg-red-500" },
+];
+
+const lossDimensions = [
+  { value: "byProduct", label: "By product" },
+  { value: "bySource", label: "By source" },
+  { value: "byAgent", label: "By agent" },
+] as const;
+
+type LossDimension = typeof lossDimensions[number]["value"];
+
+// Start of a "last N days" range as an ISO string, or null for all time
+function rangeStart(range: string): string | null {
+  return range === "all" ? null : new Date(Date.now() - Number(range) * 24 * 60 * 60 * 1000).toISOString();
 }
 
 export default function Dashboard() {
@@ -30,17 +73,53 @@ export default function Dashboard() {
     queryKey: ["/api/analytics"],
   });
 
-  // Get lead sources from API - moved to top for hooks order
-  const { data: leads, isLoading: leadsLoading } = useQuery({
-    queryKey: ["/api/leads"],
-  });
-
   // Get recent activities from interactions API - moved to top for hooks order
   const { data: interactions, isLoading: interactionsLoading } = useQuery({
     queryKey: ["/api/interactions"],
   });
 
-  const isLoading = analyticsLoading || leadsLoading || interactionsLoading;
+  const { stages } = usePipelineStages();
+  const leadSourceCounts = useLeadCounts(leadSources.map(({ source }) => ({ source })));
+
+  // The current user's follow-ups that have come due
+  const { data: followUps = [] } = useQuery<DueFollowUp[]>({
+    queryKey: ["/api/follow-ups"],
+  });
+
+  const [stageRange, setStageRange] = useState("90");
+  const { data: stageAnalytics } = useQuery<StageAnalytics>({
+    queryKey: ["/api/analytics", "stages", stageRange],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      const from = rangeStart(stageRange);
+      if (from) params.set("from", from);
+      const response = await fetch(`/api/analytics/stages?${params.toString()}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("Failed to fetch stage analytics");
+      }
+      return response.json();
+    },
+  });
+
+  const [lossRange, setLossRange] = useState("90");
+  const [lossDimension, setLossDimension] = useState<LossDimension>("byProduct");
+  const { data: lossAnalytics } = useQuery<AnalyticsData>({
+    queryKey: ["/api/analytics", "losses", lossRange],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      const from = rangeStart(lossRange);
+      if (from) params.set("from", from);
+      const response = await fetch(`/api/analytics?${params.toString()}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("Failed to fetch loss analytics");
+      }
+      return response.json();
+    },
+  });
+  const losses = lossAnalytics?.lossReasons;
+  const money = (amount: number) => formatMoney(amount, analytics?.currency ?? "USD");
+
+  const isLoading = analyticsLoading || interactionsLoading;
 
   if (isLoading) {
     return (
@@ -62,7 +141,7 @@ export default function Dashboard() {
     {
       title: "Active Pipeline",
       value: analytics?.totalLeads || 1,
-      subtitle: `$${analytics?.pipelineValue?.toLocaleString() || '0'} value`,
+      subtitle: `${money(analytics?.pipelineValue ?? 0)} value · ${money(analytics?.weightedPipelineValue ?? 0)} weighted`,
       icon: TrendingUp,
       color: "from-blue-600 to-blue-800",
       bgColor: "bg-slate-800/50"
@@ -94,32 +173,28 @@ export default function Dashboard() {
     }
   ];
 
-  const leadsByStatus = analytics?.leadsByStatus || [];
-
-  // Create lead sources from actual data
-  const leadSourcesData = (leads as any[])?.reduce((acc: any, lead: any) => {
-    const source = lead.source || 'Other';
-    acc[source] = (acc[source] || 0) + 1;
-    return acc;
-  }, {}) || {};
+  // Distribution follows the pipeline order; statuses of deleted stages go last
+  const stageOrder = stages.map(stage => stage.key);
+  const stageRank = (status: string) => stageOrder.includes(status) ? stageOrder.indexOf(status) : stageOrder.length;
+  const leadsByStatus = [...(analytics?.leadsByStatus || [])].sort((a, b) => stageRank(a.status) - stageRank(b.status));
 
-  const leadSources = [
-    { source: "Website", count: leadSourcesData["Website"] || 0, color: "bg-blue-500" },
-    { source: "Referral", count: leadSourcesData["Referral"] || 0, color: "bg-green-500" },
-    { source: "Cold Call", count: leadSourcesData["Cold Call"] || 0, color: "bg-orange-500" },
-    { source: "Advertisement", count: leadSourcesData["Advertisement"] || 0, color: "bg-red-500" },
-    { source: "Other", count: leadSourcesData["Other"] || 0, color: "bg-gray-500" }
+  // Leads from any other source, or none, count as Other
+  const namedSourceCount = leadSourceCounts.reduce((sum, count) => sum + count, 0);
+  const leadSourceRows = [
+    ...leadSources.map((source, index) => ({ ...source, count: leadSourceCounts[index] })),
+    { source: "Other", count: Math.max((analytics?.totalLeads || 0) - namedSourceCount, 0), color: "bg-gray-500" }
   ];
 
   // Calculate quick action stats from analytics and leads data
-  const newLeadsCount = analytics?.leadsByStatus?.find(status => status.status === 'new')?.count || 0;
+  const openStatuses = stages.filter(stage => stage.type === 'open').map(stage => stage.key);
+  const newLeadsCount = analytics?.leadsByStatus?.find(status => status.status === openStatuses[0])?.count || 0;
   const pipelineCount = analytics?.leadsByStatus?.filter(status => 
-    !['won', 'lost'].includes(status.status)
+    openStatuses.includes(status.status)
   )?.reduce((sum, status) => sum + status.count, 0) || 0;
   
   const quickActionStats = [
     { label: "Hot Leads", count: analytics?.leadsByStatus?.find(s => s.status === 'proposal')?.count || 0, color: "bg-red-600/20 text-red-400" },
-    { label: "Overdue", count: 0, color: "bg-yellow-600/20 text-yellow-400" }, // This would need follow-up date logic
+    { label: "Overdue", count: analytics?.overdueFollowUps || 0, color: "bg-yellow-600/20 text-yellow-400" },
     { label: "New", count: newLeadsCount, color: "bg-blue-600/20 text-blue-400" },
     { label: "Pipeline", count: pipelineCount, color: "bg-green-600/20 text-green-400" }
   ];
@@ -172,6 +247,11 @@ export default function Dashboard() {
           );
         })}
       </div>
+      {analytics && analytics.unconvertedCurrencies.length > 0 && (
+        <p className="text-xs text-amber-400" data-testid="text-unconverted-currencies">
+          No exchange rate for {analytics.unconvertedCurrencies.join(", ")}; those deals are counted at face value in {analytics.currency}.
+        </p>
+      )}
       {/* Main Content Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
         {/* Lead Status Distribution */}
@@ -189,7 +269,7 @@ export default function Dashboard() {
                 return (
                   <div key={index} className="space-y-2">
                     <div className="flex items-center justify-between text-sm">
-                      <span className="text-slate-300">{item.status}</span>
+                      <span className="text-slate-300">{stageLabel(stages, item.status)}</span>
                       <span className="text-slate-400">{item.count}</span>
                     </div>
                     <div className="h-2 bg-slate-700 rounded-full">
@@ -224,7 +304,7 @@ export default function Dashboard() {
             </div>
             
             <div className="space-y-3">
-              {leadSources.map((source, index) => (
+              {leadSourceRows.map((source, index) => (
                 <div key={index} className="flex items-center gap-3">
                   <div className={`w-3 h-3 ${source.color} rounded-sm`}></div>
                   <span className="text-sm text-slate-300 flex-1">{source.source}</span>
@@ -291,6 +371,189 @@ export default function Dashboard() {
           </CardContent>
         </Card>
       </div>
+
+      {/* Follow-ups */}
+      {followUps.length > 0 && (
+        <Card className="bg-slate-800/30 border-slate-700/50 backdrop-blur-sm">
+          <CardContent className="p-6">
+            <div className="flex items-center gap-2 mb-4">
+              <CalendarClock className="h-5 w-5 text-yellow-400" />
+              <h3 className="text-lg font-semibold text-white">My Follow-ups</h3>
+              <span className="text-sm text-slate-400">{followUps.length} due</span>
+            </div>
+            <div className="space-y-2">
+              {followUps.map(followUp => (
+                <div
+                  key={followUp.id}
+                  className="flex flex-wrap items-center gap-2 text-sm p-2 bg-slate-700/30 rounded-lg border border-slate-600/50"
+                  data-testid={`follow-up-${followUp.id}`}
+                >
+                  <div className="min-w-0 flex-1">
+                    <p className="text-white font-medium truncate">{followUp.name}</p>
+                    {followUp.company && <p className="text-xs text-slate-400 truncate">{followUp.company}</p>}
+                  </div>
+                  <span className={followUp.state === "overdue" ? "text-red-400" : "text-yellow-400"}>
+                    {followUp.state === "overdue" ? "Overdue since" : "Due"} {new Date(followUp.followUpDate).toLocaleDateString()}
+                  </span>
+                  <FollowUpActions leadId={followUp.id} />
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Stage Performance */}
+      <Card className="bg-slate-800/30 border-slate-700/50 backdrop-blur-sm">
+        <CardContent className="p-6">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-6">
+            <div className="flex items-center gap-2">
+              <Timer className="h-5 w-5 text-amber-400" />
+              <h3 className="text-lg font-semibold text-white">Stage Performance</h3>
+            </div>
+            <Select value={stageRange} onValueChange={setStageRange}>
+              <SelectTrigger className="w-full sm:w-40 bg-slate-800/50 border-slate-700 text-white" data-testid="select-stage-range">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-800 border-slate-700">
+                {stageRanges.map(range => (
+                  <SelectItem key={range.value} value={range.value}>{range.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {!stageAnalytics?.stages.length ? (
+            <p className="text-sm text-slate-400">No stage changes recorded in this period.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm" data-testid="table-stage-performance">
+                <thead>
+                  <tr className="text-left text-xs text-slate-400 uppercase tracking-wider border-b border-slate-700/50">
+                    <th className="py-2 pr-4 font-medium">Stage</th>
+                    <th className="py-2 pr-4 font-medium">Avg. time in stage</th>
+                    <th className="py-2 pr-4 font-medium">Entered</th>
+                    <th className="py-2 pr-4 font-medium">Still there</th>
+                    <th className="py-2 font-medium">Moved on to</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-700/30">
+                  {stageAnalytics.stages.map(stage => {
+                    const nextStages = stageAnalytics.transitions
+                      .filter(transition => transition.fromStatus === stage.status)
+                      .slice(0, 3);
+                    return (
+                      <tr key={stage.status} data-testid={`row-stage-${stage.status}`}>
+                        <td className="py-2 pr-4 text-slate-200">{stageLabel(stages, stage.status)}</td>
+                        <td className="py-2 pr-4 text-slate-300">
+                          {stage.avgDwellDays === null ? "—" : `${stage.avgDwellDays} days`}
+                        </td>
+                        <td className="py-2 pr-4 text-slate-400">{stage.entered}</td>
+                        <td className="py-2 pr-4 text-slate-400">{stage.current}</td>
+                        <td className="py-2 text-slate-400">
+                          {nextStages.length === 0
+                            ? "—"
+                            : nextStages.map(transition => `${stageLabel(stages, transition.toStatus)} ${Math.round(transition.rate * 100)}%`).join(" · ")}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Loss Reasons */}
+      <Card className="bg-slate-800/30 border-slate-700/50 backdrop-blur-sm">
+        <CardContent className="p-6">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-6">
+            <div className="flex items-center gap-2">
+              <ThumbsDown className="h-5 w-5 text-red-400" />
+              <h3 className="text-lg font-semibold text-white">Why Deals Are Lost</h3>
+            </div>
+            <div className="flex gap-2">
+              <Select value={lossDimension} onValueChange={(value) => setLossDimension(value as LossDimension)}>
+                <SelectTrigger className="w-full sm:w-36 bg-slate-800/50 border-slate-700 text-white" data-testid="select-loss-dimension">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {lossDimensions.map(dimension => (
+                    <SelectItem key={dimension.value} value={dimension.value}>{dimension.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={lossRange} onValueChange={setLossRange}>
+                <SelectTrigger className="w-full sm:w-40 bg-slate-800/50 border-slate-700 text-white" data-testid="select-loss-range">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {stageRanges.map(range => (
+                    <SelectItem key={range.value} value={range.value}>{range.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {!losses?.total ? (
+            <p className="text-sm text-slate-400">No deals were lost in this period.</p>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="space-y-4">
+                <p className="text-sm text-slate-400">
+                  {losses.total} lost · {money(losses.value)} in deal value
+                </p>
+                {losses.byReason.map(row => (
+                  <div key={row.reasonId ?? "none"} className="space-y-2">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-slate-300">{row.reason ?? "No reason recorded"}</span>
+                      <span className="text-slate-400">{row.count}</span>
+                    </div>
+                    <div className="h-2 bg-slate-700 rounded-full">
+                      <div
+                        className="h-2 bg-red-500 rounded-full transition-all duration-500"
+                        style={{ width: `${(row.count / losses.total) * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+                {losses.byCompetitor.length > 0 && (
+                  <p className="text-sm text-slate-400">
+                    Lost to: {losses.byCompetitor.slice(0, 5).map(row => `${row.competitor} (${row.count})`).join(", ")}
+                  </p>
+                )}
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm" data-testid="table-loss-reasons">
+                  <thead>
+                    <tr className="text-left text-xs text-slate-400 uppercase tracking-wider border-b border-slate-700/50">
+                      <th className="py-2 pr-4 font-medium">{lossDimensions.find(d => d.value === lossDimension)?.label.replace("By ", "")}</th>
+                      <th className="py-2 pr-4 font-medium">Reason</th>
+                      <th className="py-2 pr-4 font-medium">Lost</th>
+                      <th className="py-2 font-medium">Value</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-700/30">
+                    {losses[lossDimension].slice(0, 10).map((row, index) => (
+                      <tr key={index}>
+                        <td className="py-2 pr-4 text-slate-200">
+                          {"product" in row ? row.product : "source" in row ? row.source || "Unknown" : row.agent || "Unassigned"}
+                        </td>
+                        <td className="py-2 pr-4 text-slate-300">{row.reason ?? "No reason recorded"}</td>
+                        <td className="py-2 pr-4 text-slate-400">{row.count}</td>
+                        <td className="py-2 text-slate-400">{money(row.value)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
\ No newline at end of file
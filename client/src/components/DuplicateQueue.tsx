@@ -0,0 +1,358 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Copy, GitMerge, X, Mail, Phone, Building } from "lucide-react";
+import { MERGEABLE_LEAD_FIELDS } from "@shared/schema";
+import type { DuplicatePair, LeadWithProducts, MergeableLeadField, LeadMergeSelections } from "@shared/schema";
+
+const fieldLabels: Record<MergeableLeadField, string> = {
+  name: "Name",
+  email: "Email",
+  phone: "Phone",
+  company: "Company",
+  status: "Status",
+  source: "Source",
+  value: "Value",
+  assignedTo: "Assigned Agent",
+  assignedEngineer: "Assigned Engineer",
+  notes: "Notes",
+  priority: "Priority",
+  score: "Score",
+  engineeringProgress: "Engineering Progress",
+  engineeringNotes: "Engineering Notes",
+  tags: "Tags",
+  followUpDate: "Follow-up Date",
+  lastContactedAt: "Last Contacted",
+};
+
+// Fields the server combines from both leads when no side is picked
+const combinableFields: MergeableLeadField[] = ["tags", "notes", "engineeringNotes"];
+
+type FieldChoice = "survivor" | "merged" | "combine";
+
+function formatValue(field: MergeableLeadField, value: unknown, users: any[]): string {
+  if (value === null || value === undefined || value === "" || (Array.isArray(value) && value.length === 0)) {
+    return "—";
+  }
+  if (Array.isArray(value)) return value.join(", ");
+  if (field === "followUpDate" || field === "lastContactedAt") {
+    return new Date(value as string).toLocaleDateString();
+  }
+  if (field === "assignedTo" || field === "assignedEngineer") {
+    return users.find((u: any) => u.id === value)?.name || `User #${value}`;
+  }
+  if (field === "value") return `$${Number(value).toLocaleString()}`;
+  return String(value);
+}
+
+function isBlank(value: unknown) {
+  return value === null || value === undefined || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+function defaultChoices(survivor: LeadWithProducts, merged: LeadWithProducts): Record<MergeableLeadField, FieldChoice> {
+  const choices = {} as Record<MergeableLeadField, FieldChoice>;
+  for (const field of MERGEABLE_LEAD_FIELDS) {
+    choices[field] = combinableFields.includes(field)
+      ? "combine"
+      : isBlank(survivor[field]) && !isBlank(merged[field]) ? "merged" : "survivor";
+  }
+  return choices;
+}
+
+interface MergeDialogProps {
+  pair: DuplicatePair;
+  users: any[];
+  onClose: () => void;
+}
+
+function MergeDialog({ pair, users, onClose }: MergeDialogProps) {
+  const [survivorId, setSurvivorId] = useState(pair.leads[0].id);
+  const survivor = pair.leads.find(lead => lead.id === survivorId)!;
+  const merged = pair.leads.find(lead => lead.id !== survivorId)!;
+  const [choices, setChoices] = useState(() => defaultChoices(survivor, merged));
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const differingFields = MERGEABLE_LEAD_FIELDS.filter(field =>
+    formatValue(field, survivor[field], users) !== formatValue(field, merged[field], users)
+  );
+
+  const handleSurvivorChange = (id: number) => {
+    const nextSurvivor = pair.leads.find(lead => lead.id === id)!;
+    const nextMerged = pair.leads.find(lead => lead.id !== id)!;
+    setSurvivorId(id);
+    setChoices(defaultChoices(nextSurvivor, nextMerged));
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: async () => {
+      const fields: LeadMergeSelections = {};
+      for (const field of differingFields) {
+        const choice = choices[field];
+        if (choice !== "combine") fields[field] = choice;
+      }
+      const response = await apiRequest("POST", "/api/leads/merge", {
+        survivorId: survivor.id,
+        mergedId: merged.id,
+        fields,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads/duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+      toast({
+        title: "Success",
+        description: `Merged "${merged.name}" into "${survivor.name}"`,
+      });
+      onClose();
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to merge leads",
+      });
+    },
+  });
+
+  const renderChoice = (field: MergeableLeadField, choice: FieldChoice, label: string) => (
+    <button
+      type="button"
+      onClick={() => setChoices(prev => ({ ...prev, [field]: choice }))}
+      className={`text-left text-sm rounded px-2 py-1.5 border transition-colors break-words ${
+        choices[field] === choice
+          ? "border-indigo-500 bg-indigo-500/20 text-white"
+          : "border-slate-700 text-slate-400 hover:border-slate-500"
+      }`}
+      data-testid={`merge-choice-${field}-${choice}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto bg-slate-800 border-slate-700 w-[95vw] mx-auto">
+        <DialogHeader>
+          <DialogTitle className="text-slate-100">Merge Leads</DialogTitle>
+          <DialogDescription className="text-slate-400">
+            The kept lead receives the other lead's interactions, attachments and products. The other lead is deleted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <p className="text-sm text-slate-300 mb-2">Lead to keep</p>
+            <div className="grid grid-cols-2 gap-2">
+              {pair.leads.map(lead => (
+                <button
+                  key={lead.id}
+                  type="button"
+                  onClick={() => handleSurvivorChange(lead.id)}
+                  className={`text-left rounded-lg border p-3 ${
+                    lead.id === survivorId
+                      ? "border-indigo-500 bg-indigo-500/10"
+                      : "border-slate-700 hover:border-slate-500"
+                  }`}
+                  data-testid={`merge-survivor-${lead.id}`}
+                >
+                  <p className="text-sm font-medium text-white">{lead.name}</p>
+                  <p className="text-xs text-slate-400">
+                    #{lead.id} · created {new Date(lead.createdAt).toLocaleDateString()}
+                  </p>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {differingFields.length > 0 ? (
+            <div>
+              <p className="text-sm text-slate-300 mb-2">Pick the value to keep for each field that differs</p>
+              <div className="space-y-2">
+                {differingFields.map(field => (
+                  <div key={field} className="grid grid-cols-12 gap-2 items-start">
+                    <span className="col-span-3 text-xs text-slate-400 pt-2">{fieldLabels[field]}</span>
+                    <div className={`col-span-9 grid gap-2 ${combinableFields.includes(field) ? "grid-cols-3" : "grid-cols-2"}`}>
+                      {renderChoice(field, "survivor", formatValue(field, survivor[field], users))}
+                      {renderChoice(field, "merged", formatValue(field, merged[field], users))}
+                      {combinableFields.includes(field) && renderChoice(field, "combine", "Combine both")}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-slate-400">Both leads have identical details.</p>
+          )}
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={onClose} className="border-slate-600 text-slate-300 hover:bg-slate-700/50">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => mergeMutation.mutate()}
+              disabled={mergeMutation.isPending}
+              className="bg-indigo-600 hover:bg-indigo-700"
+              data-testid="button-confirm-merge"
+            >
+              <GitMerge className="h-4 w-4 mr-2" />
+              {mergeMutation.isPending ? "Merging..." : "Merge"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function DuplicateQueue() {
+  const [mergingPair, setMergingPair] = useState<DuplicatePair | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: pairs = [], isLoading } = useQuery<DuplicatePair[]>({
+    queryKey: ["/api/leads/duplicates"],
+  });
+
+  const { data: users = [] } = useQuery<any[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async (pair: DuplicatePair) => {
+      await apiRequest("POST", "/api/leads/duplicates/dismiss", {
+        leadId: pair.leads[0].id,
+        otherLeadId: pair.leads[1].id,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads/duplicates"] });
+      toast({
+        title: "Success",
+        description: "Marked as not a duplicate",
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to dismiss duplicate",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-slate-700 rounded w-1/4 mb-4"></div>
+          <div className="h-32 bg-slate-800/30 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  const renderLead = (lead: LeadWithProducts) => (
+    <div className="flex-1 min-w-0 space-y-1">
+      <p className="text-sm font-medium text-white truncate">{lead.name}</p>
+      {lead.company && (
+        <p className="flex items-center gap-1 text-xs text-slate-400 truncate">
+          <Building className="h-3 w-3" /> {lead.company}
+        </p>
+      )}
+      {lead.email && (
+        <p className="flex items-center gap-1 text-xs text-blue-400 truncate">
+          <Mail className="h-3 w-3 text-slate-400" /> {lead.email}
+        </p>
+      )}
+      {lead.phone && (
+        <p className="flex items-center gap-1 text-xs text-slate-300 truncate">
+          <Phone className="h-3 w-3 text-slate-400" /> {lead.phone}
+        </p>
+      )}
+      <p className="text-xs text-slate-500">
+        #{lead.id} · {lead.status} · created {new Date(lead.createdAt).toLocaleDateString()}
+      </p>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg sm:text-xl font-bold text-white">Suspected Duplicates</h2>
+        <p className="text-slate-400 mt-1">
+          {pairs.length} {pairs.length === 1 ? "pair" : "pairs"} matched by email, phone or similar name and company
+        </p>
+      </div>
+
+      {pairs.length === 0 ? (
+        <div className="bg-slate-800/30 rounded-lg border border-slate-700/50 p-8 text-center text-slate-400">
+          <Copy className="h-8 w-8 mx-auto mb-2 text-slate-500" />
+          No suspected duplicates
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {pairs.map(pair => (
+            <div
+              key={`${pair.leads[0].id}-${pair.leads[1].id}`}
+              className="bg-slate-800/30 rounded-lg border border-slate-700/50 p-4"
+              data-testid={`duplicate-pair-${pair.leads[0].id}-${pair.leads[1].id}`}
+            >
+              <div className="flex flex-wrap items-center gap-2 mb-3">
+                <Badge className="bg-amber-500/20 text-amber-400 border-amber-400/30 border text-xs">
+                  {Math.round(pair.score * 100)}% match
+                </Badge>
+                {pair.reasons.map(reason => (
+                  <Badge key={reason} className="bg-slate-500/20 text-slate-300 border-slate-500/30 border text-xs">
+                    same {reason}
+                  </Badge>
+                ))}
+              </div>
+              <div className="flex flex-col sm:flex-row gap-4">
+                {renderLead(pair.leads[0])}
+                {renderLead(pair.leads[1])}
+                <div className="flex sm:flex-col gap-2 sm:justify-center">
+                  <Button
+                    size="sm"
+                    onClick={() => setMergingPair(pair)}
+                    className="bg-indigo-600 hover:bg-indigo-700"
+                    data-testid={`button-merge-${pair.leads[0].id}-${pair.leads[1].id}`}
+                  >
+                    <GitMerge className="h-4 w-4 mr-1" />
+                    Merge
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => dismissMutation.mutate(pair)}
+                    disabled={dismissMutation.isPending}
+                    className="border-slate-600 text-slate-300 hover:bg-slate-700/50"
+                    data-testid={`button-dismiss-${pair.leads[0].id}-${pair.leads[1].id}`}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Not a duplicate
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {mergingPair && (
+        <MergeDialog
+          pair={mergingPair}
+          users={users}
+          onClose={() => setMergingPair(null)}
+        />
+      )}
+    </div>
+  );
+}
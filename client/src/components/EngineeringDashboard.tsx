@@ -33,6 +33,8 @@ import {
   FileText,
   X
 } from "lucide-react";
+import { useInfiniteLeads } from "@/hooks/useLeads";
+import LeadTasks from "./LeadTasks";
 import type { Lead, LeadAttachment } from "@shared/schema";
 
 export default function EngineeringDashboard() {
@@ -46,10 +48,6 @@ export default function EngineeringDashboard() {
   const { user } = useAuth();
   const { toast } = useToast();
 
-  const { data: leads = [], isLoading } = useQuery<Lead[]>({
-    queryKey: ["/api/leads"],
-  });
-
   // Fetch attachments for selected project
   const { data: attachments = [], isLoading: attachmentsLoading } = useQuery<LeadAttachment[]>({
     queryKey: [`/api/leads/${selectedProject?.id}/attachments`],
@@ -59,10 +57,14 @@ export default function EngineeringDashboard() {
   // Get the actual user ID (handle nested user object)
   const userId = (user as any)?.user?.id || user?.id;
   
-  // Filter leads for engineer's projects only
-  const engineerProjects = leads.filter((lead: Lead) => {
-    return lead.assignedEngineer === userId; // Show all leads assigned to this engineer
-  });
+  // Only leads assigned to this engineer are fetched
+  const {
+    leads: engineerProjects,
+    isLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage
+  } = useInfiniteLeads({ assignedEngineer: userId, limit: 100 }, !!userId);
 
   const pendingProjects = engineerProjects.filter(lead => (lead.engineeringProgress || 0) === 0);
   const activeProjects = engineerProjects.filter(lead => (lead.engineeringProgress || 0) > 0 && (lead.engineeringProgress || 0) < 100);
@@ -348,6 +350,17 @@ export default function EngineeringDashboard() {
               ))
             );
             })()}
+            {hasNextPage && (
+              <Button
+                variant="outline"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+                className="w-full border-slate-600 text-slate-300 hover:bg-slate-700/50"
+                data-testid="button-load-more-projects"
+              >
+                {isFetchingNextPage ? "Loading..." : "Load more projects"}
+              </Button>
+            )}
           </div>
         </div>
 
@@ -654,6 +667,9 @@ export default function EngineeringDashboard() {
                 </CardContent>
               </Card>
 
+              {/* Tasks */}
+              <LeadTasks leadId={selectedProject.id} />
+
               {/* Technical Implementation Notes */}
               <Card className="bg-slate-800/30 border-slate-700/50">
                 <CardContent className="p-4">
@@ -0,0 +1,94 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuItem,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { AlarmClock, Check } from "lucide-react";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const snoozeOptions = [
+  { label: "1 day", days: 1 },
+  { label: "3 days", days: 3 },
+  { label: "1 week", days: 7 },
+  { label: "2 weeks", days: 14 },
+];
+
+interface FollowUpActionsProps {
+  leadId: number;
+}
+
+// Snooze and complete buttons for a lead's follow-up
+export default function FollowUpActions({ leadId }: FollowUpActionsProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // The lead, the follow-up list and the overdue count all change
+  const onSuccess = (description: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/follow-ups"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+    toast({ title: "Success", description });
+  };
+
+  const snoozeMutation = useMutation({
+    mutationFn: async (days: number) => {
+      return await apiRequest("POST", `/api/leads/${leadId}/follow-up/snooze`, { until: new Date(Date.now() + days * DAY_MS).toISOString() });
+    },
+    onSuccess: onSuccess("Follow-up snoozed"),
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to snooze follow-up") });
+    },
+  });
+
+  const completeMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/leads/${leadId}/follow-up/complete`);
+    },
+    onSuccess: onSuccess("Follow-up completed"),
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to complete follow-up") });
+    },
+  });
+
+  return (
+    <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={snoozeMutation.isPending}
+            className="h-8 text-slate-300 hover:bg-slate-700"
+            title="Snooze"
+            data-testid={`button-snooze-follow-up-${leadId}`}
+          >
+            <AlarmClock className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="bg-slate-800 border-slate-700 text-slate-200">
+          {snoozeOptions.map(option => (
+            <DropdownMenuItem key={option.days} onSelect={() => snoozeMutation.mutate(option.days)}>
+              Snooze {option.label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={() => completeMutation.mutate()}
+        disabled={completeMutation.isPending}
+        className="h-8 text-green-400 hover:bg-green-600/20"
+        title="Complete"
+        data-testid={`button-complete-follow-up-${leadId}`}
+      >
+        <Check className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
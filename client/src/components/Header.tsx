@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
@@ -6,9 +6,11 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { useToast } from "@/hooks/use-toast";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
-import { Bell, LogOut, User, X, CheckCheck, AlertTriangle, Info, Calendar, Edit3, Mail, Phone, MapPin, Building, UserCircle } from "lucide-react";
+import { Bell, LogOut, User, X, Info, Calendar, CalendarDays, Edit3, Mail, Phone, MapPin, Building, UserCircle } from "lucide-react";
+import CalendarFeed from "./CalendarFeed";
+import NotificationBell from "./NotificationBell";
+import NotificationPreferences from "./NotificationPreferences";
 
 // Storage Usage Component
 function StorageUsageDisplay() {
@@ -58,92 +60,7 @@ import siwatLogoPath from "@assets/siwath_logo_withoutbackground_1755357359703.p
 
 export default function Header() {
   const { user, logout } = useAuth();
-  const { toast } = useToast();
-  const [showNotifications, setShowNotifications] = useState(false);
   const [showProfile, setShowProfile] = useState(false);
-  // Initialize notifications from localStorage or use defaults
-  const [notifications, setNotifications] = useState(() => {
-    try {
-      const saved = localStorage.getItem('notifications');
-      if (saved) {
-        return JSON.parse(saved);
-      }
-    } catch (error) {
-      console.error('Error loading notifications from localStorage:', error);
-    }
-    
-    // Default notifications - only shown on first visit
-    return [
-      {
-        id: 1,
-        type: 'lead',
-        title: 'New Lead Assigned',
-        message: 'Michael Johnson from TechStartup Inc has been assigned to you',
-        time: '2 minutes ago',
-        read: false
-      },
-      {
-        id: 2,
-        type: 'webhook',
-        title: 'Webhook Test Successful',
-        message: 'n8n webhook test completed successfully',
-        time: '5 minutes ago',
-        read: false
-      },
-      {
-        id: 3,
-        type: 'system',
-        title: 'Database Backup Complete',
-        message: 'Automatic backup completed successfully',
-        time: '1 hour ago',
-        read: false
-      }
-    ];
-  });
-
-  // Save notifications to localStorage whenever they change
-  useEffect(() => {
-    try {
-      localStorage.setItem('notifications', JSON.stringify(notifications));
-    } catch (error) {
-      console.error('Error saving notifications to localStorage:', error);
-    }
-  }, [notifications]);
-
-  const handleNotifications = () => {
-    setShowNotifications(true);
-  };
-
-  const clearAllNotifications = () => {
-    setNotifications([]);
-    toast({
-      title: "Notifications Cleared",
-      description: "All notifications have been cleared",
-    });
-  };
-
-  const markAsRead = (id: number) => {
-    setNotifications((prev: any[]) => 
-      prev.map((notif: any) => 
-        notif.id === id ? { ...notif, read: true } : notif
-      )
-    );
-  };
-
-  const removeNotification = (id: number) => {
-    setNotifications((prev: any[]) => prev.filter((notif: any) => notif.id !== id));
-  };
-
-  const getNotificationIcon = (type: string) => {
-    switch (type) {
-      case 'lead': return <User className="h-4 w-4 text-blue-400" />;
-      case 'webhook': return <AlertTriangle className="h-4 w-4 text-orange-400" />;
-      case 'system': return <Info className="h-4 w-4 text-green-400" />;
-      default: return <Bell className="h-4 w-4 text-slate-400" />;
-    }
-  };
-
-  const unreadCount = notifications.filter((n: any) => !n.read).length;
 
   const handleProfileClick = () => {
     setShowProfile(true);
@@ -182,6 +99,8 @@ export default function Header() {
 
           {/* User Menu */}
           <div className="flex items-center space-x-2 sm:space-x-4">
+            <NotificationBell />
+
             {/* User Profile */}
             <div className="flex items-center space-x-1 sm:space-x-3 bg-slate-800/30 px-2 sm:px-3 py-2 rounded-xl">
               <div 
@@ -222,94 +141,6 @@ export default function Header() {
         </div>
       </div>
       
-      {/* Notifications Modal */}
-      <Dialog open={showNotifications} onOpenChange={setShowNotifications}>
-        <DialogContent className="bg-slate-900 border-slate-700 text-slate-100 max-w-lg">
-          <DialogHeader>
-            <DialogTitle className="flex items-center justify-between">
-              <span>Notifications</span>
-              {notifications.length > 0 && (
-                <Button
-                  onClick={clearAllNotifications}
-                  variant="ghost"
-                  size="sm"
-                  className="text-slate-400 hover:text-slate-300"
-                  data-testid="button-clear-all-notifications"
-                >
-                  <CheckCheck className="h-4 w-4 mr-1" />
-                  Clear All
-                </Button>
-              )}
-            </DialogTitle>
-          </DialogHeader>
-
-          <div className="space-y-3 max-h-96 overflow-y-auto">
-            {notifications.length === 0 ? (
-              <div className="text-center py-8">
-                <Bell className="h-8 w-8 text-slate-400 mx-auto mb-2" />
-                <p className="text-slate-400">No notifications</p>
-              </div>
-            ) : (
-              notifications.map((notification: any) => (
-                <div
-                  key={notification.id}
-                  className={`p-3 rounded-lg border transition-colors ${
-                    notification.read 
-                      ? 'bg-slate-800/30 border-slate-700/50 text-slate-300' 
-                      : 'bg-slate-800/50 border-slate-600/50 text-slate-100'
-                  }`}
-                  data-testid={`notification-${notification.id}`}
-                >
-                  <div className="flex items-start gap-3">
-                    <div className="flex-shrink-0 mt-1">
-                      {getNotificationIcon(notification.type)}
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center justify-between mb-1">
-                        <h4 className={`text-sm font-medium ${
-                          notification.read ? 'text-slate-300' : 'text-white'
-                        }`}>
-                          {notification.title}
-                        </h4>
-                        <div className="flex items-center gap-1">
-                          {!notification.read && (
-                            <Button
-                              onClick={() => markAsRead(notification.id)}
-                              variant="ghost"
-                              size="sm"
-                              className="p-1 hover:bg-slate-600"
-                              data-testid={`button-mark-read-${notification.id}`}
-                            >
-                              <CheckCheck className="h-3 w-3 text-green-400" />
-                            </Button>
-                          )}
-                          <Button
-                            onClick={() => removeNotification(notification.id)}
-                            variant="ghost"
-                            size="sm"
-                            className="p-1 hover:bg-slate-600 text-red-400"
-                            data-testid={`button-remove-notification-${notification.id}`}
-                          >
-                            <X className="h-3 w-3" />
-                          </Button>
-                        </div>
-                      </div>
-                      <p className="text-xs text-slate-400 mb-2">
-                        {notification.message}
-                      </p>
-                      <div className="flex items-center gap-1 text-xs text-slate-500">
-                        <Calendar className="h-3 w-3" />
-                        <span>{notification.time}</span>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              ))
-            )}
-          </div>
-        </DialogContent>
-      </Dialog>
-
       {/* User Profile Modal */}
       <Dialog open={showProfile} onOpenChange={setShowProfile}>
         <DialogContent className="bg-slate-900 border-slate-700 text-slate-100 max-w-4xl max-h-[95vh] overflow-hidden flex flex-col">
@@ -460,6 +291,32 @@ export default function Header() {
               </CardContent>
             </Card>
 
+            {/* Calendar Feed */}
+            <Card className="bg-slate-800/30 border-slate-700/50">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-white">
+                  <CalendarDays className="h-5 w-5 text-indigo-400" />
+                  Calendar Feed
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <CalendarFeed />
+              </CardContent>
+            </Card>
+
+            {/* Notification Preferences */}
+            <Card className="bg-slate-800/30 border-slate-700/50">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-white">
+                  <Bell className="h-5 w-5 text-yellow-400" />
+                  Notifications
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <NotificationPreferences />
+              </CardContent>
+            </Card>
+
             {/* Account Stats */}
             <Card className="bg-slate-800/30 border-slate-700/50">
               <CardHeader>
@@ -0,0 +1,498 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { formatMoney } from "@/lib/currency";
+import { Plus, Trash2, Save, Send, Download } from "lucide-react";
+import { invoiceBalance, invoiceTotals } from "@shared/schema";
+import type { InvoiceDetail, InvoiceStatus } from "@shared/schema";
+
+export const invoiceStatusLabels: Record<InvoiceStatus, string> = {
+  draft: "Draft",
+  issued: "Issued",
+  paid: "Paid",
+  overdue: "Overdue",
+};
+
+const statusBadgeClass: Record<InvoiceStatus, string> = {
+  draft: "bg-slate-500/20 text-slate-300 border-slate-400/30",
+  issued: "bg-blue-500/20 text-blue-300 border-blue-400/30",
+  paid: "bg-emerald-500/20 text-emerald-300 border-emerald-400/30",
+  overdue: "bg-red-500/20 text-red-300 border-red-400/30",
+};
+
+export function InvoiceStatusBadge({ status }: { status: InvoiceStatus }) {
+  return <Badge className={`${statusBadgeClass[status]} border text-xs px-2 py-0.5`}>{invoiceStatusLabels[status]}</Badge>;
+}
+
+// Numbers are edited as text so a half-typed amount doesn't jump around
+type LineDraft = { productId: number | null; description: string; quantity: string; unitPrice: string; discount: string };
+type InvoiceDraft = {
+  customerName: string;
+  customerCompany: string;
+  customerEmail: string;
+  taxRate: string;
+  dueDate: string;
+  notes: string;
+  lines: LineDraft[];
+};
+
+const toDateInput = (date: Date | string | null) => (date ? new Date(date).toISOString().split("T")[0] : "");
+
+const toDraft = (invoice: InvoiceDetail): InvoiceDraft => ({
+  customerName: invoice.customerName,
+  customerCompany: invoice.customerCompany ?? "",
+  customerEmail: invoice.customerEmail ?? "",
+  taxRate: String(invoice.taxRate),
+  dueDate: toDateInput(invoice.dueDate),
+  notes: invoice.notes ?? "",
+  lines: invoice.lines.map(line => ({
+    productId: line.productId,
+    description: line.description,
+    quantity: String(line.quantity),
+    unitPrice: String(line.unitPrice),
+    discount: line.discount ? String(line.discount) : "",
+  })),
+});
+
+const parseLine = (line: LineDraft) => ({
+  productId: line.productId,
+  description: line.description.trim(),
+  quantity: parseFloat(line.quantity) || 0,
+  unitPrice: parseFloat(line.unitPrice) || 0,
+  discount: parseFloat(line.discount) || 0,
+});
+
+interface InvoiceDetailsProps {
+  invoiceId: number;
+  onClose: () => void;
+}
+
+export default function InvoiceDetails({ invoiceId, onClose }: InvoiceDetailsProps) {
+  const [draft, setDraft] = useState<InvoiceDraft | null>(null);
+  const [payment, setPayment] = useState({ amount: "", paidAt: toDateInput(new Date()), method: "", reference: "" });
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: invoice, isLoading } = useQuery<InvoiceDetail>({
+    queryKey: ["/api/invoices", invoiceId],
+  });
+
+  // The invoice list, this invoice and the lead's invoice card all show the status and totals
+  const invalidateInvoices = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+  };
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, fallback) });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: InvoiceDraft) => {
+      return await apiRequest("PUT", `/api/invoices/${invoiceId}`, {
+        customerName: values.customerName.trim(),
+        customerCompany: values.customerCompany.trim() || null,
+        customerEmail: values.customerEmail.trim() || null,
+        taxRate: parseFloat(values.taxRate) || 0,
+        dueDate: values.dueDate || null,
+        notes: values.notes.trim() || null,
+        lines: values.lines.map(parseLine),
+      });
+    },
+    onSuccess: () => {
+      invalidateInvoices();
+      setDraft(null);
+      toast({ title: "Success", description: "Invoice saved" });
+    },
+    onError: onError("Failed to save invoice"),
+  });
+
+  const issueMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/invoices/${invoiceId}/issue`, {});
+    },
+    onSuccess: () => {
+      invalidateInvoices();
+      toast({ title: "Success", description: "Invoice issued" });
+    },
+    onError: onError("Failed to issue invoice"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/invoices/${invoiceId}`);
+    },
+    onSuccess: () => {
+      invalidateInvoices();
+      toast({ title: "Success", description: "Invoice deleted" });
+      onClose();
+    },
+    onError: onError("Failed to delete invoice"),
+  });
+
+  const paymentMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/invoices/${invoiceId}/payments`, {
+        amount: parseFloat(payment.amount),
+        paidAt: payment.paidAt || undefined,
+        method: payment.method.trim() || null,
+        reference: payment.reference.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      invalidateInvoices();
+      setPayment({ amount: "", paidAt: toDateInput(new Date()), method: "", reference: "" });
+      toast({ title: "Success", description: "Payment recorded" });
+    },
+    onError: onError("Failed to record payment"),
+  });
+
+  const deletePaymentMutation = useMutation({
+    mutationFn: async (paymentId: number) => {
+      await apiRequest("DELETE", `/api/invoice-payments/${paymentId}`);
+    },
+    onSuccess: () => {
+      invalidateInvoices();
+      toast({ title: "Success", description: "Payment removed" });
+    },
+    onError: onError("Failed to remove payment"),
+  });
+
+  if (isLoading || !invoice) {
+    return (
+      <Dialog open={true} onOpenChange={(open) => { if (!open) onClose(); }}>
+        <DialogContent className="bg-slate-900 border-slate-700 text-white max-w-3xl">
+          <div className="h-32 bg-slate-700/30 rounded animate-pulse"></div>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
+  const isDraft = invoice.status === "draft";
+  const values = draft ?? toDraft(invoice);
+  const edit = (changes: Partial<InvoiceDraft>) => setDraft({ ...values, ...changes });
+  const editLine = (index: number, changes: Partial<LineDraft>) =>
+    edit({ lines: values.lines.map((line, i) => (i === index ? { ...line, ...changes } : line)) });
+
+  const money = (amount: number) => formatMoney(amount, invoice.currency);
+  const totals = invoiceTotals(values.lines.map(parseLine), parseFloat(values.taxRate) || 0);
+  const balance = invoiceBalance(invoice);
+  const linesValid = values.lines.length > 0 && values.lines.every(line => line.description.trim() && parseFloat(line.quantity) > 0);
+  const paymentAmount = parseFloat(payment.amount);
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="bg-slate-900 border-slate-700 text-white max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Invoice {invoice.reference}
+            <InvoiceStatusBadge status={invoice.status} />
+          </DialogTitle>
+          <DialogDescription className="text-slate-400">
+            {isDraft
+              ? "Drafts can be edited. Issuing fixes the lines and starts the payment terms."
+              : [
+                  invoice.issuedAt && `Issued ${new Date(invoice.issuedAt).toLocaleDateString()}`,
+                  invoice.dueDate && `due ${new Date(invoice.dueDate).toLocaleDateString()}`,
+                  invoice.paidAt && `paid ${new Date(invoice.paidAt).toLocaleDateString()}`,
+                ].filter(Boolean).join(", ")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div>
+            <Label className="text-slate-300">Customer *</Label>
+            <Input
+              value={values.customerName}
+              onChange={(e) => edit({ customerName: e.target.value })}
+              disabled={!isDraft}
+              className="mt-1 bg-slate-800 border-slate-700 text-white"
+              data-testid="input-invoice-customer-name"
+            />
+          </div>
+          <div>
+            <Label className="text-slate-300">Company</Label>
+            <Input
+              value={values.customerCompany}
+              onChange={(e) => edit({ customerCompany: e.target.value })}
+              disabled={!isDraft}
+              className="mt-1 bg-slate-800 border-slate-700 text-white"
+            />
+          </div>
+          <div>
+            <Label className="text-slate-300">Email</Label>
+            <Input
+              type="email"
+              value={values.customerEmail}
+              onChange={(e) => edit({ customerEmail: e.target.value })}
+              disabled={!isDraft}
+              className="mt-1 bg-slate-800 border-slate-700 text-white"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="hidden sm:grid grid-cols-[3fr_1fr_1fr_1fr_1fr_auto] gap-2 text-xs font-medium text-slate-400 uppercase tracking-wider">
+            <div>Description</div>
+            <div>Qty</div>
+            <div>Unit price</div>
+            <div>Discount</div>
+            <div className="text-right">Amount</div>
+            <div className="w-9"></div>
+          </div>
+          {values.lines.map((line, index) => (
+            <div key={index} className="grid grid-cols-2 sm:grid-cols-[3fr_1fr_1fr_1fr_1fr_auto] gap-2 items-center" data-testid={`invoice-line-${index}`}>
+              <Input
+                value={line.description}
+                onChange={(e) => editLine(index, { description: e.target.value })}
+                disabled={!isDraft}
+                className="col-span-2 sm:col-span-1 bg-slate-800 border-slate-700 text-white"
+              />
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                value={line.quantity}
+                onChange={(e) => editLine(index, { quantity: e.target.value })}
+                disabled={!isDraft}
+                className="bg-slate-800 border-slate-700 text-white"
+              />
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                value={line.unitPrice}
+                onChange={(e) => editLine(index, { unitPrice: e.target.value })}
+                disabled={!isDraft}
+                className="bg-slate-800 border-slate-700 text-white"
+              />
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                value={line.discount}
+                onChange={(e) => editLine(index, { discount: e.target.value })}
+                disabled={!isDraft}
+                placeholder="0"
+                className="bg-slate-800 border-slate-700 text-white"
+              />
+              <div className="text-right text-slate-200">{money(invoiceTotals([parseLine(line)], 0).subtotal)}</div>
+              {isDraft ? (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => edit({ lines: values.lines.filter((_, i) => i !== index) })}
+                  disabled={values.lines.length === 1}
+                  className="h-9 w-9 p-0 text-red-400 hover:bg-red-600/20"
+                  title="Remove line"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              ) : <div className="w-9"></div>}
+            </div>
+          ))}
+          {isDraft && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => edit({ lines: [...values.lines, { productId: null, description: "", quantity: "1", unitPrice: "0", discount: "" }] })}
+              className="border-slate-600 text-slate-300 hover:bg-slate-700/50"
+              data-testid="button-add-invoice-line"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add line
+            </Button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label className="text-slate-300">Tax rate (%)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="any"
+                  value={values.taxRate}
+                  onChange={(e) => edit({ taxRate: e.target.value })}
+                  disabled={!isDraft}
+                  className="mt-1 bg-slate-800 border-slate-700 text-white"
+                  data-testid="input-invoice-tax-rate"
+                />
+              </div>
+              <div>
+                <Label className="text-slate-300">Due date</Label>
+                <Input
+                  type="date"
+                  value={values.dueDate}
+                  onChange={(e) => edit({ dueDate: e.target.value })}
+                  disabled={!isDraft}
+                  className="mt-1 bg-slate-800 border-slate-700 text-white"
+                  data-testid="input-invoice-due-date"
+                />
+              </div>
+            </div>
+            {isDraft && !values.dueDate && (
+              <p className="text-xs text-slate-400">Left empty, the due date follows the payment terms when the invoice is issued.</p>
+            )}
+            <div>
+              <Label className="text-slate-300">Notes</Label>
+              <Textarea
+                value={values.notes}
+                onChange={(e) => edit({ notes: e.target.value })}
+                disabled={!isDraft}
+                rows={3}
+                placeholder="Payment instructions, purchase order number..."
+                className="mt-1 bg-slate-800 border-slate-700 text-white"
+              />
+            </div>
+          </div>
+          <div className="text-sm space-y-1 sm:text-right">
+            <p className="text-slate-400">Subtotal <span className="text-slate-200 ml-2">{money(totals.subtotal)}</span></p>
+            <p className="text-slate-400">Tax <span className="text-slate-200 ml-2">{money(totals.taxAmount)}</span></p>
+            <p className="text-white font-medium">Total <span className="ml-2">{money(totals.total)}</span></p>
+            {!isDraft && (
+              <>
+                <p className="text-slate-400">Paid <span className="text-green-400 ml-2">{money(invoice.amountPaid)}</span></p>
+                <p className="text-white font-medium">Balance due <span className={`ml-2 ${balance > 0 ? "text-amber-400" : "text-green-400"}`}>{money(balance)}</span></p>
+              </>
+            )}
+          </div>
+        </div>
+
+        {!isDraft && (
+          <div className="space-y-2">
+            <h4 className="text-slate-300 font-medium">Payments</h4>
+            {invoice.payments.length === 0 && <p className="text-sm text-slate-400">No payments recorded yet.</p>}
+            {invoice.payments.map(paid => (
+              <div
+                key={paid.id}
+                className="flex flex-wrap items-center gap-2 text-sm p-2 bg-slate-800/50 border border-slate-700/30 rounded-lg"
+                data-testid={`invoice-payment-${paid.id}`}
+              >
+                <span className="text-green-400 font-medium">{money(paid.amount)}</span>
+                <span className="text-slate-300">{new Date(paid.paidAt).toLocaleDateString()}</span>
+                <span className="text-slate-400 flex-1 truncate">
+                  {[paid.method, paid.reference, paid.recordedByName && `recorded by ${paid.recordedByName}`].filter(Boolean).join(" · ")}
+                </span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => {
+                    if (confirm("Remove this payment?")) deletePaymentMutation.mutate(paid.id);
+                  }}
+                  disabled={deletePaymentMutation.isPending}
+                  className="h-8 text-red-400 hover:bg-red-600/20"
+                  title="Remove payment"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {balance > 0 && (
+              <div className="flex flex-wrap items-center gap-2 p-3 border border-dashed border-slate-700 rounded-lg">
+                <Input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={payment.amount}
+                  onChange={(e) => setPayment({ ...payment, amount: e.target.value })}
+                  placeholder={String(balance)}
+                  className="bg-slate-800 border-slate-700 text-white w-32"
+                  data-testid="input-payment-amount"
+                />
+                <Input
+                  type="date"
+                  value={payment.paidAt}
+                  onChange={(e) => setPayment({ ...payment, paidAt: e.target.value })}
+                  className="bg-slate-800 border-slate-700 text-white w-40"
+                />
+                <Input
+                  value={payment.method}
+                  onChange={(e) => setPayment({ ...payment, method: e.target.value })}
+                  placeholder="Method"
+                  className="bg-slate-800 border-slate-700 text-white w-32"
+                />
+                <Input
+                  value={payment.reference}
+                  onChange={(e) => setPayment({ ...payment, reference: e.target.value })}
+                  placeholder="Reference"
+                  className="bg-slate-800 border-slate-700 text-white flex-1 min-w-[8rem]"
+                />
+                <Button
+                  size="sm"
+                  onClick={() => paymentMutation.mutate()}
+                  disabled={!(paymentAmount > 0 && paymentAmount <= balance) || paymentMutation.isPending}
+                  className="bg-indigo-600 hover:bg-indigo-700"
+                  data-testid="button-record-payment"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Record payment
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-2">
+          {isDraft && (
+            <Button
+              variant="outline"
+              onClick={() => {
+                if (confirm(`Delete draft invoice ${invoice.reference}?`)) deleteMutation.mutate();
+              }}
+              disabled={deleteMutation.isPending}
+              className="border-red-600/50 text-red-400 hover:bg-red-600/20 sm:mr-auto"
+              data-testid="button-delete-invoice"
+            >
+              <Trash2 className="h-4 w-4 mr-1" />
+              Delete
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            onClick={() => window.open(`/api/invoices/${invoice.id}/pdf`, "_blank")}
+            className="border-slate-600 text-slate-300 hover:bg-slate-700/50"
+            data-testid="button-invoice-pdf"
+          >
+            <Download className="h-4 w-4 mr-1" />
+            PDF
+          </Button>
+          {isDraft && (
+            <>
+              <Button
+                onClick={() => saveMutation.mutate(values)}
+                disabled={!draft || !values.customerName.trim() || !linesValid || saveMutation.isPending}
+                className="bg-indigo-600 hover:bg-indigo-700"
+                data-testid="button-save-invoice"
+              >
+                <Save className="h-4 w-4 mr-1" />
+                {saveMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+              <Button
+                onClick={() => issueMutation.mutate()}
+                disabled={!!draft || issueMutation.isPending}
+                title={draft ? "Save your changes first" : undefined}
+                className="bg-emerald-600 hover:bg-emerald-700"
+                data-testid="button-issue-invoice"
+              >
+                <Send className="h-4 w-4 mr-1" />
+                {issueMutation.isPending ? "Issuing..." : "Issue"}
+              </Button>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { Save } from "lucide-react";
+import { invoiceReference } from "@shared/schema";
+import type { InvoiceSettings as InvoiceSettingsType } from "@shared/schema";
+
+// Numbers are edited as text so a half-typed value doesn't jump around
+type SettingsDraft = { prefix: string; startingNumber: string; paymentTermsDays: string; defaultTaxRate: string };
+
+const toDraft = (settings: InvoiceSettingsType): SettingsDraft => ({
+  prefix: settings.prefix,
+  startingNumber: String(settings.startingNumber),
+  paymentTermsDays: String(settings.paymentTermsDays),
+  defaultTaxRate: String(settings.defaultTaxRate),
+});
+
+export default function InvoiceSettings() {
+  const [draft, setDraft] = useState<SettingsDraft | null>(null);
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: settings, isLoading } = useQuery<InvoiceSettingsType>({
+    queryKey: ["/api/invoices/settings"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: SettingsDraft) => {
+      return await apiRequest("PUT", "/api/invoices/settings", {
+        prefix: values.prefix.trim(),
+        startingNumber: parseInt(values.startingNumber),
+        paymentTermsDays: parseInt(values.paymentTermsDays),
+        defaultTaxRate: parseFloat(values.defaultTaxRate),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices/settings"] });
+      setDraft(null);
+      toast({ title: "Success", description: "Invoice settings saved" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to save invoice settings") });
+    },
+  });
+
+  if (isLoading || !settings) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500 mx-auto mb-4"></div>
+        <p className="text-slate-400">Loading invoice settings...</p>
+      </div>
+    );
+  }
+
+  const values = draft ?? toDraft(settings);
+  const edit = (changes: Partial<SettingsDraft>) => setDraft({ ...values, ...changes });
+
+  const startingNumber = parseInt(values.startingNumber);
+  const paymentTermsDays = parseInt(values.paymentTermsDays);
+  const defaultTaxRate = parseFloat(values.defaultTaxRate);
+  const valid = startingNumber >= 1 && paymentTermsDays >= 0 && paymentTermsDays <= 365
+    && defaultTaxRate >= 0 && defaultTaxRate <= 100;
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+        <div>
+          <h3 className="text-lg sm:text-xl font-semibold text-white">Invoices</h3>
+          <p className="text-slate-400 text-sm sm:text-base">
+            Numbering and defaults for new invoices. Invoices already created keep their number, tax rate and due date.
+          </p>
+        </div>
+        <Button
+          onClick={() => saveMutation.mutate(values)}
+          disabled={!draft || !valid || saveMutation.isPending}
+          className="bg-indigo-600 hover:bg-indigo-700"
+          data-testid="button-save-invoice-settings"
+        >
+          <Save className="h-4 w-4 mr-2" />
+          {saveMutation.isPending ? "Saving..." : "Save"}
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 max-w-2xl">
+        <div>
+          <Label className="text-slate-300">Number prefix</Label>
+          <Input
+            value={values.prefix}
+            onChange={(e) => edit({ prefix: e.target.value })}
+            maxLength={20}
+            className="mt-1 bg-slate-900 border-slate-700 text-white"
+            data-testid="input-invoice-prefix"
+          />
+        </div>
+        <div>
+          <Label className="text-slate-300">Starting number</Label>
+          <Input
+            type="number"
+            min={1}
+            step={1}
+            value={values.startingNumber}
+            onChange={(e) => edit({ startingNumber: e.target.value })}
+            className="mt-1 bg-slate-900 border-slate-700 text-white"
+            data-testid="input-invoice-starting-number"
+          />
+          <p className="text-xs text-slate-400 mt-1">Numbering continues from the last invoice if that is higher.</p>
+        </div>
+        <div>
+          <Label className="text-slate-300">Payment terms (days)</Label>
+          <Input
+            type="number"
+            min={0}
+            max={365}
+            step={1}
+            value={values.paymentTermsDays}
+            onChange={(e) => edit({ paymentTermsDays: e.target.value })}
+            className="mt-1 bg-slate-900 border-slate-700 text-white"
+            data-testid="input-invoice-payment-terms"
+          />
+        </div>
+        <div>
+          <Label className="text-slate-300">Default tax rate (%)</Label>
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            step="any"
+            value={values.defaultTaxRate}
+            onChange={(e) => edit({ defaultTaxRate: e.target.value })}
+            className="mt-1 bg-slate-900 border-slate-700 text-white"
+            data-testid="input-invoice-default-tax-rate"
+          />
+        </div>
+      </div>
+
+      {startingNumber >= 1 && (
+        <p className="text-sm text-slate-400">
+          Invoices will be numbered like <span className="text-white font-medium">{invoiceReference(values.prefix.trim(), startingNumber)}</span>.
+        </p>
+      )}
+    </div>
+  );
+}
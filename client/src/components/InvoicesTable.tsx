@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { formatMoney } from "@/lib/currency";
+import { Search, Download, Receipt } from "lucide-react";
+import InvoiceDetails, { InvoiceStatusBadge, invoiceStatusLabels } from "./InvoiceDetails";
+import { INVOICE_STATUSES, invoiceBalance } from "@shared/schema";
+import type { Invoice, InvoiceStatus } from "@shared/schema";
+
+const gridTemplateColumns = "1fr 2fr 0.8fr 1fr 1fr 1fr 1fr";
+
+export default function InvoicesTable() {
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState<InvoiceStatus | "all">("all");
+  const [viewingInvoiceId, setViewingInvoiceId] = useState<number | null>(null);
+
+  const { toast } = useToast();
+
+  // Admins get every invoice, agents those for their own deals
+  const { data: invoices = [], isLoading } = useQuery<Invoice[]>({
+    queryKey: ["/api/invoices"],
+  });
+
+  const term = search.trim().toLowerCase();
+  const visibleInvoices = invoices.filter(invoice =>
+    (status === "all" || invoice.status === status)
+    && (!term || [invoice.reference, invoice.customerName, invoice.customerCompany].some(text => text?.toLowerCase().includes(term))));
+
+  const handleExport = async () => {
+    try {
+      const response = await fetch(`/api/invoices/export${status !== "all" ? `?status=${status}` : ""}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("Failed to export invoices");
+      }
+
+      const blob = await response.blob();
+      const downloadUrl = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = downloadUrl;
+      link.download = `invoices-export-${new Date().toISOString().split("T")[0]}.csv`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(downloadUrl);
+    } catch (error) {
+      toast({ variant: "destructive", title: "Error", description: "Failed to export invoices" });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-slate-700 rounded w-1/4 mb-4"></div>
+          <div className="h-32 bg-slate-800/30 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h2 className="text-lg sm:text-xl font-bold text-white">Invoices</h2>
+          <p className="text-slate-400 mt-1">
+            {visibleInvoices.length} of {invoices.length} invoices. New invoices are created from won deals.
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={handleExport}
+          className="border-slate-600 text-slate-300 hover:bg-slate-700/50"
+          data-testid="button-export-invoices"
+        >
+          <Download className="h-4 w-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-3 h-4 w-4 text-slate-400" />
+          <Input
+            placeholder="Search by number or customer..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-10 bg-slate-800/50 border-slate-700 text-white placeholder:text-slate-400"
+            data-testid="input-search-invoices"
+          />
+        </div>
+        <Select value={status} onValueChange={(value) => setStatus(value as InvoiceStatus | "all")}>
+          <SelectTrigger className="sm:w-44 bg-slate-800/50 border-slate-700 text-white" data-testid="select-invoice-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-slate-800 border-slate-700">
+            <SelectItem value="all">All statuses</SelectItem>
+            {INVOICE_STATUSES.map(value => (
+              <SelectItem key={value} value={value}>{invoiceStatusLabels[value]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="bg-slate-800/30 rounded-lg border border-slate-700/50 overflow-hidden">
+        <div className="hidden lg:block bg-slate-700/30 px-4 py-3 border-b border-slate-600/50">
+          <div className="grid gap-2 text-xs font-medium text-slate-400 uppercase tracking-wider" style={{ gridTemplateColumns }}>
+            <div>Number</div>
+            <div>Customer</div>
+            <div>Status</div>
+            <div>Issued</div>
+            <div>Due</div>
+            <div>Total</div>
+            <div>Balance</div>
+          </div>
+        </div>
+
+        <div className="divide-y divide-slate-700/50">
+          {visibleInvoices.map(invoice => (
+            <div
+              key={invoice.id}
+              onClick={() => setViewingInvoiceId(invoice.id)}
+              className="p-4 hover:bg-slate-700/20 transition-colors cursor-pointer"
+              data-testid={`row-invoice-${invoice.id}`}
+            >
+              {/* Mobile Card Layout */}
+              <div className="lg:hidden grid grid-cols-2 gap-2 items-center text-sm">
+                <div className="col-span-2 flex items-center gap-2">
+                  <Receipt className="h-4 w-4 text-indigo-400" />
+                  <span className="text-white font-medium">{invoice.reference}</span>
+                  <InvoiceStatusBadge status={invoice.status} />
+                </div>
+                <div className="text-slate-300 truncate">{invoice.customerCompany || invoice.customerName}</div>
+                <div className="text-right text-slate-200">{formatMoney(invoice.total, invoice.currency)}</div>
+              </div>
+              <div className="hidden lg:grid gap-2 items-center text-sm" style={{ gridTemplateColumns }}>
+                <div className="flex items-center gap-2 text-white font-medium">
+                  <Receipt className="h-4 w-4 text-indigo-400 flex-shrink-0" />
+                  {invoice.reference}
+                </div>
+                <div className="min-w-0">
+                  <p className="text-white truncate">{invoice.customerName}</p>
+                  {invoice.customerCompany && <p className="text-xs text-slate-400 truncate">{invoice.customerCompany}</p>}
+                </div>
+                <div><InvoiceStatusBadge status={invoice.status} /></div>
+                <div className="text-slate-300">{invoice.issuedAt ? new Date(invoice.issuedAt).toLocaleDateString() : "—"}</div>
+                <div className={invoice.status === "overdue" ? "text-red-400" : "text-slate-300"}>
+                  {invoice.dueDate ? new Date(invoice.dueDate).toLocaleDateString() : "—"}
+                </div>
+                <div className="text-slate-200">{formatMoney(invoice.total, invoice.currency)}</div>
+                <div className={invoiceBalance(invoice) > 0 ? "text-amber-400" : "text-green-400"}>
+                  {formatMoney(invoiceBalance(invoice), invoice.currency)}
+                </div>
+              </div>
+            </div>
+          ))}
+          {visibleInvoices.length === 0 && (
+            <div className="p-8 text-center text-slate-400">
+              {invoices.length === 0 ? "No invoices yet. Open a won deal to invoice it." : "No invoices match the filters."}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {viewingInvoiceId !== null && (
+        <InvoiceDetails invoiceId={viewingInvoiceId} onClose={() => setViewingInvoiceId(null)} />
+      )}
+    </div>
+  );
+}
@@ -3,52 +3,59 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
 import { Plus, MoreVertical, Paperclip, MessageSquare, Calendar, File, CheckCircle, Phone } from "lucide-react";
 import { DragDropContext, Droppable, Draggable, DropResult } from "react-beautiful-dnd";
-import type { Lead } from "@shared/schema";
+import type { Lead, PipelineStage } from "@shared/schema";
 import LeadDetails from "./LeadDetails";
-
-const statusConfig = {
-  new: { label: "New", color: "bg-slate-500", count: 0 },
-  contacted: { label: "Contacted", color: "bg-blue-500", count: 0 },
-  qualified: { label: "Qualified", color: "bg-emerald-500", count: 0 },
-  proposal: { label: "Proposal", color: "bg-amber-500", count: 0 },
-  negotiation: { label: "Negotiation", color: "bg-orange-500", count: 0 },
-  won: { label: "Won", color: "bg-green-500", count: 0 },
-  lost: { label: "Lost", color: "bg-red-500", count: 0 },
-};
+import CloseLeadDialog from "./CloseLeadDialog";
+import { closeDetailsPayload, type CloseDetails } from "./CloseReasonFields";
+import { useInfiniteLeads } from "@/hooks/useLeads";
+import { usePipelines, usePipelineStages, usePipelineAnalytics } from "@/hooks/usePipelineStages";
+import { stageDotClass } from "@/lib/stages";
+import { formatMoney } from "@/lib/currency";
 
 export default function KanbanBoard() {
   const [selectedLead, setSelectedLead] = useState<Lead | null>(null);
+  // Drops onto a won or lost column wait here until a close reason is chosen
+  const [pendingClose, setPendingClose] = useState<{ lead: Lead; stage: PipelineStage } | null>(null);
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
-  const { data: leads = [], isLoading } = useQuery<Lead[]>({
-    queryKey: ["/api/leads"],
-  });
+  const { pipelines, isLoading: pipelinesLoading } = usePipelines();
+  const [selectedPipelineId, setSelectedPipelineId] = useState<number | null>(null);
+  const pipelineId = selectedPipelineId ?? pipelines[0]?.id;
+
+  const { stages, isLoading: stagesLoading } = usePipelineStages(pipelineId);
+  const { leads, total, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteLeads({ limit: 100, pipelineId }, !!pipelineId);
+
+  // Column counts come from analytics so they stay accurate while pages are still loading
+  const { data: analytics } = usePipelineAnalytics(pipelineId);
 
   const { data: users = [] } = useQuery<any[]>({
     queryKey: ["/api/users"],
   });
 
   const updateLeadMutation = useMutation({
-    mutationFn: async ({ id, status }: { id: number; status: string }) => {
-      return await apiRequest("PUT", `/api/leads/${id}`, { status });
+    mutationFn: async ({ id, status, closeDetails }: { id: number; status: string; closeDetails?: CloseDetails }) => {
+      return await apiRequest("PUT", `/api/leads/${id}`, { status, ...(closeDetails && closeDetailsPayload(closeDetails)) });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+      setPendingClose(null);
       toast({
         title: "Success",
         description: "Lead status updated",
       });
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         variant: "destructive",
         title: "Error",
-        description: "Failed to update lead status",
+        description: apiErrorMessage(error, "Failed to update lead status"),
       });
     },
   });
@@ -70,6 +77,13 @@ export default function KanbanBoard() {
     const leadId = parseInt(draggableId);
     const newStatus = destination.droppableId;
 
+    const stage = stages.find(s => s.key === newStatus);
+    const lead = leads.find(l => l.id === leadId);
+    if (stage && lead && stage.type !== "open") {
+      setPendingClose({ lead, stage });
+      return;
+    }
+
     updateLeadMutation.mutate({ id: leadId, status: newStatus });
   };
 
@@ -85,7 +99,7 @@ export default function KanbanBoard() {
     return colors[assignedTo % colors.length];
   };
 
-  if (isLoading) {
+  if (isLoading || stagesLoading || pipelinesLoading) {
     return (
       <div className="space-y-6">
         <div className="animate-pulse">
@@ -108,6 +122,18 @@ export default function KanbanBoard() {
           <h2 className="text-xl sm:text-2xl font-bold">Sales Pipeline</h2>
           <p className="text-slate-400 mt-1 text-sm sm:text-base">Visual pipeline management with drag & drop</p>
         </div>
+        {pipelines.length > 1 && (
+          <Select value={pipelineId ? String(pipelineId) : undefined} onValueChange={(value) => setSelectedPipelineId(parseInt(value))}>
+            <SelectTrigger className="w-full sm:w-56 bg-slate-800/50 border-slate-700 text-white" data-testid="select-kanban-pipeline">
+              <SelectValue placeholder="Select pipeline" />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-700">
+              {pipelines.map((pipeline) => (
+                <SelectItem key={pipeline.id} value={String(pipeline.id)}>{pipeline.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
         <Button className="flex items-center justify-center space-x-2 bg-gradient-to-r from-indigo-500 to-purple-600 hover:from-indigo-600 hover:to-purple-700 w-full sm:w-auto">
           <Plus className="h-4 w-4" />
           <span>Add Lead</span>
@@ -117,8 +143,10 @@ export default function KanbanBoard() {
       {/* Kanban Board */}
       <DragDropContext onDragEnd={onDragEnd}>
         <div className="flex space-x-3 sm:space-x-6 overflow-x-auto pb-4">
-          {Object.entries(statusConfig).map(([status, config]) => {
+          {stages.map((stage) => {
+            const status = stage.key;
             const statusLeads = groupedLeads[status] || [];
+            const statusCount = analytics?.leadsByStatus?.find(s => s.status === status)?.count ?? statusLeads.length;
             
             return (
               <div key={status} className="flex-shrink-0 w-72 sm:w-80">
@@ -127,10 +155,10 @@ export default function KanbanBoard() {
                     {/* Column Header */}
                     <div className="flex items-center justify-between mb-3 sm:mb-4">
                       <div className="flex items-center space-x-2">
-                        <div className={`w-3 h-3 ${config.color} rounded-full`}></div>
-                        <h3 className="font-semibold">{config.label}</h3>
+                        <div className={`w-3 h-3 ${stageDotClass(stage)} rounded-full`}></div>
+                        <h3 className="font-semibold">{stage.name}</h3>
                         <Badge variant="secondary" className="bg-slate-600 text-slate-300">
-                          {statusLeads.length}
+                          {statusCount}
                         </Badge>
                       </div>
                       <Button variant="ghost" size="sm" className="p-1">
@@ -173,7 +201,7 @@ export default function KanbanBoard() {
                                   <div className="flex items-start justify-between mb-2 gap-2">
                                     <h4 className="font-medium text-xs sm:text-sm line-clamp-1 flex-1 min-w-0 break-words">{lead.company || lead.name}</h4>
                                     <span className="text-xs text-slate-400 flex-shrink-0 whitespace-nowrap">
-                                      {lead.value ? `$${lead.value.toLocaleString()}` : "—"}
+                                      {lead.value ? formatMoney(lead.value, lead.currency) : "—"}
                                     </span>
                                   </div>
 
@@ -195,7 +223,7 @@ export default function KanbanBoard() {
                                       {status === "contacted" && <Phone className="h-3 w-3 text-green-500" />}
                                       {status === "qualified" && <Calendar className="h-3 w-3 text-amber-500" />}
                                       {status === "proposal" && <File className="h-3 w-3 text-amber-500" />}
-                                      {status === "won" && <CheckCircle className="h-3 w-3 text-emerald-500" />}
+                                      {stage.type === "won" && <CheckCircle className="h-3 w-3 text-emerald-500" />}
                                       <Paperclip className="h-3 w-3 text-slate-500" />
                                       <MessageSquare className="h-3 w-3 text-slate-500" />
                                     </div>
@@ -215,7 +243,31 @@ export default function KanbanBoard() {
           })}
         </div>
       </DragDropContext>
+
+      {hasNextPage && (
+        <div className="flex justify-center">
+          <Button
+            variant="outline"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+            className="border-slate-600 text-slate-300 hover:bg-slate-700/50"
+            data-testid="button-load-more-leads"
+          >
+            {isFetchingNextPage ? "Loading..." : `Load more (${leads.length} of ${total})`}
+          </Button>
+        </div>
+      )}
       
+      {pendingClose && (
+        <CloseLeadDialog
+          leadName={pendingClose.lead.company || pendingClose.lead.name}
+          stage={pendingClose.stage}
+          isPending={updateLeadMutation.isPending}
+          onConfirm={(closeDetails) => updateLeadMutation.mutate({ id: pendingClose.lead.id, status: pendingClose.stage.key, closeDetails })}
+          onClose={() => setPendingClose(null)}
+        />
+      )}
+
       {/* Lead Details Modal */}
       {selectedLead && (
         <LeadDetails 
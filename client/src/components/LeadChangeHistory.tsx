@@ -0,0 +1,204 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { usePipelines, usePipelineStages } from "@/hooks/usePipelineStages";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { useCloseReasons } from "@/hooks/useCloseReasons";
+import { formatCustomFieldValue } from "@/lib/customFields";
+import { stageLabel } from "@/lib/stages";
+import { formatMoney } from "@/lib/currency";
+import { ListChecks } from "lucide-react";
+import { lineItemTotal } from "@shared/schema";
+import type { Lead, Product, LineItemInput, LeadFieldChangeWithUser, LeadChangeAction, CustomFieldValue, AccountWithStats } from "@shared/schema";
+
+const fieldLabels: Record<string, string> = {
+  name: "Name",
+  email: "Email",
+  phone: "Phone",
+  company: "Company",
+  accountId: "Account",
+  primaryContactId: "Primary Contact",
+  pipelineId: "Pipeline",
+  status: "Stage",
+  source: "Source",
+  value: "Deal Value",
+  currency: "Currency",
+  valueFromLineItems: "Value From Line Items",
+  assignedTo: "Assigned Agent",
+  assignedEngineer: "Assigned Engineer",
+  notes: "Notes",
+  priority: "Priority",
+  score: "Score",
+  engineeringProgress: "Engineering Progress",
+  engineeringNotes: "Engineering Notes",
+  tags: "Tags",
+  followUpDate: "Follow-up Date",
+  lastContactedAt: "Last Contacted",
+  closeReasonId: "Close Reason",
+  closeCompetitor: "Lost To",
+  closeNote: "Close Note",
+  products: "Interested Products",
+  lineItems: "Line Items",
+};
+
+const actionLabels: Record<LeadChangeAction, string> = {
+  create: "Created",
+  update: "Updated",
+  assign: "Assigned",
+  merge: "Merged",
+};
+
+// Changes written together share a timestamp, actor and source
+interface ChangeGroup {
+  key: string;
+  action: LeadChangeAction;
+  changedAt: string;
+  changedByName: string | null;
+  source: string;
+  changes: LeadFieldChangeWithUser[];
+}
+
+function groupChanges(changes: LeadFieldChangeWithUser[]): ChangeGroup[] {
+  const groups: ChangeGroup[] = [];
+  for (const change of changes) {
+    const changedAt = String(change.changedAt);
+    const key = `${changedAt}:${change.action}:${change.changedById}:${change.source}`;
+    const last = groups[groups.length - 1];
+    if (last?.key === key) {
+      last.changes.push(change);
+    } else {
+      groups.push({ key, action: change.action, changedAt, changedByName: change.changedByName, source: change.source, changes: [change] });
+    }
+  }
+  return groups;
+}
+
+interface LeadChangeHistoryProps {
+  lead: Lead;
+}
+
+export default function LeadChangeHistory({ lead }: LeadChangeHistoryProps) {
+  const { data: changes = [], isLoading } = useQuery<LeadFieldChangeWithUser[]>({
+    queryKey: ["/api/leads", lead.id, "changes"],
+  });
+
+  const { data: users = [] } = useQuery<any[]>({
+    queryKey: ["/api/users"],
+  });
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+  const { data: accounts = [] } = useQuery<AccountWithStats[]>({
+    queryKey: ["/api/accounts"],
+  });
+  const { pipelines } = usePipelines();
+  const { allStages } = usePipelineStages();
+  const { customFields } = useCustomFields();
+  const { getReason } = useCloseReasons();
+
+  const fieldLabel = (field: string) => {
+    if (field.startsWith("customFields.")) {
+      const key = field.slice("customFields.".length);
+      return customFields.find(f => f.key === key)?.label ?? key;
+    }
+    return fieldLabels[field] ?? field;
+  };
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === null || value === undefined) return "—";
+    if (field.startsWith("customFields.")) {
+      const customField = customFields.find(f => `customFields.${f.key}` === field);
+      if (customField) return formatCustomFieldValue(customField, value as CustomFieldValue);
+    }
+    switch (field) {
+      case "assignedTo":
+      case "assignedEngineer":
+        return users.find((u: any) => u.id === value)?.name ?? `User #${value}`;
+      case "pipelineId":
+        return pipelines.find(p => p.id === value)?.name ?? `Pipeline #${value}`;
+      case "status":
+        return stageLabel(allStages, String(value));
+      case "accountId":
+        return accounts.find(account => account.id === value)?.name ?? `Account #${value}`;
+      case "primaryContactId":
+        return `Contact #${value}`;
+      case "closeReasonId":
+        return getReason(value as number)?.label ?? `Reason #${value}`;
+      case "products":
+        return (value as number[]).map(id => products.find(p => p.id === id)?.name ?? `Product #${id}`).join(", ");
+      case "lineItems": {
+        const items = value as LineItemInput[];
+        if (items.length === 0) return "None";
+        return items.map(item => {
+          const name = products.find(p => p.id === item.productId)?.name ?? `Product #${item.productId}`;
+          return `${item.quantity} × ${name} (${formatMoney(lineItemTotal({ ...item, unitPrice: item.unitPrice ?? null }), lead.currency)}${item.billingType === "monthly" ? "/mo" : ""})`;
+        }).join(", ");
+      }
+      case "valueFromLineItems":
+        return value ? "Yes" : "No";
+      case "value":
+        return formatMoney(Number(value), lead.currency);
+      case "followUpDate":
+      case "lastContactedAt":
+        return new Date(value as string).toLocaleDateString();
+    }
+    if (Array.isArray(value)) return value.join(", ");
+    return String(value);
+  };
+
+  const groups = groupChanges(changes);
+
+  return (
+    <Card className="bg-slate-800/30 border-slate-700/50">
+      <CardContent className="p-4">
+        <div className="flex items-center gap-2 mb-4">
+          <ListChecks className="h-4 w-4 text-slate-400" />
+          <h3 className="font-medium text-white">Change History</h3>
+          <span className="text-xs text-slate-400 ml-auto">
+            {changes.length} field change{changes.length !== 1 ? "s" : ""}
+          </span>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-500 mx-auto"></div>
+            <p className="text-slate-400 mt-2">Loading history...</p>
+          </div>
+        ) : groups.length === 0 ? (
+          <p className="text-sm text-slate-400">No changes recorded yet.</p>
+        ) : (
+          <ol className="space-y-4" data-testid="list-lead-changes">
+            {groups.map(group => (
+              <li key={group.key} className="border-l-2 border-slate-600 pl-3" data-testid={`change-group-${group.changes[0].id}`}>
+                <div className="flex flex-wrap items-center gap-2 mb-1">
+                  <Badge className="bg-indigo-500/20 text-indigo-300 border-indigo-400/30 border text-xs px-2 py-0.5">
+                    {actionLabels[group.action]}
+                  </Badge>
+                  <span className="text-xs text-slate-500">
+                    {new Date(group.changedAt).toLocaleString()}
+                    {group.changedByName ? ` by ${group.changedByName}` : group.source === "automation" ? " automatically" : ""}
+                    {` via ${group.source}`}
+                  </span>
+                </div>
+                <ul className="space-y-1">
+                  {group.changes.map(change => (
+                    <li key={change.id} className="text-sm text-slate-300">
+                      <span className="text-slate-400">{fieldLabel(change.field)}:</span>{" "}
+                      {group.action !== "create" && (
+                        <>
+                          <span className="text-slate-500 line-through">{formatValue(change.field, change.oldValue)}</span>
+                          {" → "}
+                        </>
+                      )}
+                      <span className="text-slate-100">{formatValue(change.field, change.newValue)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -10,11 +10,26 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { usePipelines, usePipelineStages } from "@/hooks/usePipelineStages";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { useCloseReasons } from "@/hooks/useCloseReasons";
+import { useLeadViewers } from "@/hooks/useRealtime";
+import MovePipelineDialog from "./MovePipelineDialog";
+import LeadChangeHistory from "./LeadChangeHistory";
+import LeadLineItems from "./LeadLineItems";
+import LeadQuotes from "./LeadQuotes";
+import LeadInvoices from "./LeadInvoices";
+import FollowUpActions from "./FollowUpActions";
+import LeadTasks from "./LeadTasks";
+import { formatCustomFieldValue, isBlankCustomFieldValue } from "@/lib/customFields";
+import { stageBadgeClass, stageLabel, isWonStatus } from "@/lib/stages";
+import { formatMoney } from "@/lib/currency";
 import { 
   X, 
   MessageSquare, 
   Phone, 
   Calendar, 
+  CalendarPlus,
   FileText,
   Mail,
   Users,
@@ -23,17 +38,42 @@ import {
   History,
   Search,
   Star,
-  Package,
-  Upload
+  Upload,
+  Clock,
+  ListChecks,
+  Building2,
+  Eye
 } from "lucide-react";
-import type { Lead, Interaction, Product, LeadAttachment } from "@shared/schema";
+import { followUpState } from "@shared/schema";
+import type { Lead, Interaction, Product, LeadAttachment, LeadStatusChangeWithUser, ScoreContribution, AccountWithStats, Contact } from "@shared/schema";
+
+const followUpClass = {
+  upcoming: "text-slate-300",
+  due: "text-amber-400",
+  overdue: "text-red-400",
+};
+
+// Human-readable time spent in a stage, e.g. "3d 4h" or "25m"
+function formatDwell(ms: number) {
+  const minutes = Math.floor(ms / 60000);
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+  if (days > 0) return `${days}d ${hours % 24}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${Math.max(minutes, 0)}m`;
+}
 
 interface LeadDetailsProps {
   lead: Lead;
   onClose: () => void;
 }
 
-export default function LeadDetails({ lead, onClose }: LeadDetailsProps) {
+export default function LeadDetails({ lead: openedLead, onClose }: LeadDetailsProps) {
+  // Refetched when the lead changes, here or in another tab or browser
+  const { data: lead = openedLead } = useQuery<Lead>({
+    queryKey: ["/api/leads", openedLead.id],
+  });
+  const viewers = useLeadViewers(openedLead.id);
   const [showAddInteraction, setShowAddInteraction] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [typeFilter, setTypeFilter] = useState("all");
@@ -41,12 +81,18 @@ export default function LeadDetails({ lead, onClose }: LeadDetailsProps) {
   const [selectedQuickAction, setSelectedQuickAction] = useState<string | null>(null);
   const [fileDescription, setFileDescription] = useState("");
   const [newInteraction, setNewInteraction] = useState({
-    type: "note" as const,
-    text: ""
+    type: "note" as Interaction["type"],
+    text: "",
+    scheduledAt: ""
   });
 
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { stages, getStage } = usePipelineStages(lead.pipelineId);
+  const { pipelines } = usePipelines();
+  const { customFields } = useCustomFields();
+  const [showMovePipeline, setShowMovePipeline] = useState(false);
+  const [activityTab, setActivityTab] = useState<"interactions" | "history">("interactions");
 
   const { data: interactions = [], isLoading } = useQuery<Interaction[]>({
     queryKey: [`/api/leads/${lead.id}/interactions`],
@@ -64,6 +110,17 @@ export default function LeadDetails({ lead, onClose }: LeadDetailsProps) {
     queryKey: ["/api/products"],
   });
 
+  const { data: accounts = [] } = useQuery<AccountWithStats[]>({
+    queryKey: ["/api/accounts"],
+    enabled: !!lead.accountId,
+  });
+  const { data: accountContacts = [] } = useQuery<Contact[]>({
+    queryKey: ["/api/accounts", lead.accountId, "contacts"],
+    enabled: !!lead.accountId,
+  });
+  const account = accounts.find(a => a.id === lead.accountId);
+  const primaryContact = accountContacts.find(contact => contact.id === lead.primaryContactId);
+
   const { data: attachments = [], isLoading: attachmentsLoading } = useQuery<LeadAttachment[]>({
     queryKey: [`/api/leads/${lead.id}/attachments`],
     retry: 2,
@@ -73,17 +130,35 @@ export default function LeadDetails({ lead, onClose }: LeadDetailsProps) {
     }
   });
 
+  const { data: statusHistory = [] } = useQuery<LeadStatusChangeWithUser[]>({
+    queryKey: ["/api/leads", lead.id, "status-history"],
+  });
+
+  // Interactions change the score too, so it is fetched rather than read from the lead passed in
+  const { data: leadScore } = useQuery<{ score: number | null; breakdown: ScoreContribution[] | null }>({
+    queryKey: ["/api/leads", lead.id, "score"],
+  });
+  const score = leadScore?.score ?? lead.score ?? 0;
+
+  const { getReason } = useCloseReasons();
+  const closeReason = getReason(lead.closeReasonId);
+
   const { data: storageInfo } = useQuery<{storageUsed: number; storageLimit: number; storageAvailable: number}>({
     queryKey: ["/api/user/storage"],
   });
 
   const addInteractionMutation = useMutation({
     mutationFn: async (data: typeof newInteraction) => {
-      return await apiRequest("POST", `/api/leads/${lead.id}/interactions`, data);
+      return await apiRequest("POST", `/api/leads/${lead.id}/interactions`, {
+        ...data,
+        // Only meetings are scheduled
+        scheduledAt: data.type === "meeting" && data.scheduledAt ? new Date(data.scheduledAt).toISOString() : null,
+      });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/leads/${lead.id}/interactions`] });
-      setNewInteraction({ type: "note", text: "" });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      setNewInteraction({ type: "note", text: "", scheduledAt: "" });
       setShowAddInteraction(false);
       toast({
         title: "Success",
@@ -148,6 +223,7 @@ export default function LeadDetails({ lead, onClose }: LeadDetailsProps) {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/leads/${lead.id}/interactions`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
       setQuickNote("");
       toast({
         title: "Success",
@@ -156,18 +232,7 @@ export default function LeadDetails({ lead, onClose }: LeadDetailsProps) {
     }
   });
 
-  const getStatusColor = (status: string) => {
-    const colors = {
-      new: "bg-slate-500/20 text-slate-400 border-slate-500/30",
-      contacted: "bg-blue-500/20 text-blue-400 border-blue-500/30",
-      qualified: "bg-emerald-500/20 text-emerald-400 border-emerald-500/30",
-      proposal: "bg-amber-500/20 text-amber-400 border-amber-500/30",
-      negotiation: "bg-orange-500/20 text-orange-400 border-orange-500/30",
-      won: "bg-green-500/20 text-green-400 border-green-500/30",
-      lost: "bg-red-500/20 text-red-400 border-red-500/30",
-    };
-    return colors[status as keyof typeof colors] || colors.new;
-  };
+  const getStatusColor = (status: string) => stageBadgeClass(getStage(status));
 
   const getPriorityColor = (priority: string) => {
     const colors = {
@@ -285,7 +350,7 @@ export default function LeadDetails({ lead, onClose }: LeadDetailsProps) {
     
     // Set default interaction type and open dialog for links
     if (type === 'links') {
-      setNewInteraction({ type: 'links', text: '' });
+      setNewInteraction({ type: 'links', text: '', scheduledAt: '' });
       setShowAddInteraction(true);
     }
   };
@@ -332,6 +397,12 @@ export default function LeadDetails({ lead, onClose }: LeadDetailsProps) {
           <DialogTitle className="text-xl font-semibold text-left">
             {lead.company || lead.name}
           </DialogTitle>
+          {viewers.length > 0 && (
+            <p className="flex items-center gap-1.5 text-xs text-emerald-400 text-left" data-testid="text-lead-viewers">
+              <Eye className="h-3.5 w-3.5" />
+              Also viewing: {viewers.map(viewer => viewer.name).join(", ")}
+            </p>
+          )}
           <DialogDescription className="sr-only">
             View and manage lead interactions, notes, and contact information
           </DialogDescription>
@@ -373,6 +444,19 @@ export default function LeadDetails({ lead, onClose }: LeadDetailsProps) {
                   </div>
                 </div>
               )}
+
+              {account && (
+                <div className="flex items-center gap-3">
+                  <Building2 className="h-4 w-4 text-slate-400 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <span className="text-slate-400 text-sm block">Account:</span>
+                    <span className="text-slate-300 text-sm" data-testid="text-lead-account">
+                      {account.name}
+                      {primaryContact && ` · ${primaryContact.name}${primaryContact.title ? ` (${primaryContact.title})` : ""}`}
+                    </span>
+                  </div>
+                </div>
+              )}
             </div>
           </div>
 
@@ -382,7 +466,7 @@ export default function LeadDetails({ lead, onClose }: LeadDetailsProps) {
               <div className="space-y-1">
                 <span className="text-slate-400 text-xs uppercase tracking-wider">Status: </span>
                 <Badge className={`${getStatusColor(lead.status)} border text-xs px-2 py-1 w-fit`}>
-                  {lead.status === 'won' && (lead.engineeringProgress || 0) > 0 ? 'In Development' : lead.status}
+                  {isWonStatus(stages, lead.status) && (lead.engineeringProgress || 0) > 0 ? 'In Development' : stageLabel(stages, lead.status)}
                 </Badge>
               </div>
               <div className="space-y-1">
@@ -395,13 +479,43 @@ export default function LeadDetails({ lead, onClose }: LeadDetailsProps) {
                 <span className="text-slate-400 text-xs uppercase tracking-wider">Score: </span>
                 <div className="flex items-center gap-1">
                   <Badge className="bg-yellow-500/20 text-yellow-400 border-yellow-400/30 text-xs px-2 py-1">
-                    {lead.score || 55}
+                    {score}
                   </Badge>
                   <Star className="h-3 w-3 text-yellow-400 fill-current" />
                 </div>
               </div>
             </div>
+
+            {leadScore?.breakdown && leadScore.breakdown.length > 0 && (
+              <div className="mb-4 space-y-1" data-testid="score-breakdown">
+                <span className="text-slate-400 text-xs uppercase tracking-wider block">Score breakdown</span>
+                {leadScore.breakdown.map((contribution) => (
+                  <div key={contribution.ruleId} className="flex items-center justify-between gap-3 text-sm">
+                    <span className="text-slate-300 truncate">
+                      {contribution.name}
+                      <span className="text-slate-500 text-xs"> · {contribution.detail}</span>
+                    </span>
+                    <span className={`font-medium ${contribution.points < 0 ? "text-red-400" : "text-green-400"}`}>
+                      {contribution.points > 0 ? "+" : ""}{contribution.points}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
             
+            {(closeReason || lead.closedAt) && (
+              <div className="mb-4 space-y-1" data-testid="close-details">
+                <span className="text-slate-400 text-xs uppercase tracking-wider block">
+                  {closeReason ? (closeReason.type === "won" ? "Won" : "Lost") : "Closed"}{lead.closedAt && ` on ${new Date(lead.closedAt).toLocaleDateString()}`}
+                </span>
+                <p className="text-slate-300 text-sm">
+                  {closeReason?.label ?? "No reason recorded"}
+                  {lead.closeCompetitor && <span className="text-slate-400"> · lost to {lead.closeCompetitor}</span>}
+                </p>
+                {lead.closeNote && <p className="text-slate-400 text-sm whitespace-pre-wrap">{lead.closeNote}</p>}
+              </div>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="space-y-1">
                 <span className="text-slate-400 text-xs uppercase tracking-wider">Source: </span>
@@ -409,8 +523,40 @@ export default function LeadDetails({ lead, onClose }: LeadDetailsProps) {
               </div>
               <div className="space-y-1">
                 <span className="text-slate-400 text-xs uppercase tracking-wider">Deal Value: </span>
-                <span className="text-green-400 font-medium text-sm">${lead.value?.toLocaleString() || '45,000'}</span>
+                <span className="text-green-400 font-medium text-sm">{formatMoney(lead.value ?? 0, lead.currency)}</span>
               </div>
+              {lead.followUpDate && (
+                <div className="flex items-center gap-2">
+                  <span className="text-slate-400 text-xs uppercase tracking-wider">Follow-up: </span>
+                  <span className={`text-sm ${followUpClass[followUpState(lead.followUpDate) ?? "upcoming"]}`}>
+                    {new Date(lead.followUpDate).toLocaleDateString()}
+                  </span>
+                  <a
+                    href={`/api/leads/${lead.id}/follow-up.ics`}
+                    title="Add to calendar"
+                    className="text-slate-400 hover:text-white"
+                    data-testid="link-follow-up-ics"
+                  >
+                    <CalendarPlus className="h-4 w-4" />
+                  </a>
+                  <FollowUpActions leadId={lead.id} />
+                </div>
+              )}
+              {pipelines.length > 1 && (
+                <div className="space-y-1">
+                  <span className="text-slate-400 text-xs uppercase tracking-wider">Pipeline: </span>
+                  <span className="text-slate-300 text-sm">{pipelines.find(p => p.id === lead.pipelineId)?.name || '—'}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setShowMovePipeline(true)}
+                    className="ml-2 h-6 px-2 text-xs text-indigo-400 hover:text-indigo-300"
+                    data-testid="button-move-pipeline"
+                  >
+                    Move
+                  </Button>
+                </div>
+              )}
             </div>
           </div>
 
@@ -428,6 +574,31 @@ export default function LeadDetails({ lead, onClose }: LeadDetailsProps) {
             </div>
           </div>
 
+          {/* Custom Fields */}
+          {customFields.length > 0 && (
+            <div className="bg-slate-800/30 border border-slate-700/50 rounded-lg p-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {customFields.map((field) => {
+                  const value = lead.customFields?.[field.key];
+                  return (
+                    <div key={field.id} className="space-y-1" data-testid={`custom-field-${field.key}`}>
+                      <span className="text-slate-400 text-xs uppercase tracking-wider block">{field.label}</span>
+                      {isBlankCustomFieldValue(value) ? (
+                        <span className="text-slate-500 text-sm block">—</span>
+                      ) : field.type === "url" ? (
+                        <a href={String(value)} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300 text-sm truncate block">
+                          {String(value)}
+                        </a>
+                      ) : (
+                        <span className="text-slate-300 text-sm block">{formatCustomFieldValue(field, value)}</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {/* Engineering Progress */}
           {lead.assignedEngineer && (
             <div className="bg-slate-800/30 border border-slate-700/50 rounded-lg p-4">
@@ -465,7 +636,7 @@ export default function LeadDetails({ lead, onClose }: LeadDetailsProps) {
                   high-priority
                 </Badge>
               )}
-              {lead.status === 'won' && (
+              {isWonStatus(stages, lead.status) && (
                 <Badge className="bg-purple-500/20 text-purple-400 border-purple-400/30 text-xs">
                   video-production
                 </Badge>
@@ -493,125 +664,187 @@ export default function LeadDetails({ lead, onClose }: LeadDetailsProps) {
             </div>
           )}
 
-          {/* Product Interest */}
+          {/* Stage Timeline */}
           <Card className="bg-slate-800/30 border-slate-700/50">
             <CardContent className="p-4">
               <div className="flex items-center gap-2 mb-4">
-                <Package className="h-4 w-4 text-slate-400" />
-                <h3 className="font-medium text-white">Product Interest</h3>
-              </div>
-              <div className="space-y-3">
-                <div className="flex items-center justify-between p-3 bg-slate-700/30 rounded-lg border border-slate-600/50">
-                  <div>
-                    <h4 className="text-white font-medium">AI Avatar Creation</h4>
-                    <p className="text-slate-400 text-sm">${lead.value ? Math.floor(lead.value * 0.6).toLocaleString() : '27,000'}</p>
-                  </div>
-                  <Badge className="bg-indigo-500/20 text-indigo-400 border-indigo-400/30">
-                    Interested
-                  </Badge>
-                </div>
-                {lead.status === 'won' && (
-                  <div className="flex items-center justify-between p-3 bg-slate-700/30 rounded-lg border border-slate-600/50">
-                    <div>
-                      <h4 className="text-white font-medium">AI Generated Video Ad</h4>
-                      <p className="text-slate-400 text-sm">${lead.value ? Math.floor(lead.value * 0.4).toLocaleString() : '18,000'}</p>
-                    </div>
-                    <Badge className="bg-green-500/20 text-green-400 border-green-400/30">
-                      In Progress
-                    </Badge>
-                  </div>
-                )}
+                <Clock className="h-4 w-4 text-slate-400" />
+                <h3 className="font-medium text-white">Stage Timeline</h3>
               </div>
+              {statusHistory.length === 0 ? (
+                <p className="text-sm text-slate-400">
+                  In {stageLabel(stages, lead.status)} since {new Date(lead.createdAt).toLocaleDateString()}. No stage changes recorded yet.
+                </p>
+              ) : (
+                <ol className="space-y-3" data-testid="list-stage-timeline">
+                  {statusHistory.map((change, index) => {
+                    const next = statusHistory[index + 1];
+                    const enteredAt = new Date(change.changedAt);
+                    const leftAt = next ? new Date(next.changedAt) : new Date();
+                    return (
+                      <li key={change.id} className="flex items-start gap-3" data-testid={`stage-entry-${change.id}`}>
+                        <div className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${next ? "bg-slate-500" : "bg-indigo-400"}`} />
+                        <div className="flex-1 min-w-0">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <Badge className={`${getStatusColor(change.toStatus)} text-xs px-2 py-0.5 border`}>
+                              {stageLabel(stages, change.toStatus)}
+                            </Badge>
+                            <span className="text-xs text-slate-300">
+                              {formatDwell(leftAt.getTime() - enteredAt.getTime())}{next ? "" : " so far"}
+                            </span>
+                          </div>
+                          <p className="text-xs text-slate-500 mt-1">
+                            {change.fromStatus ? `From ${stageLabel(stages, change.fromStatus)}` : "Created"} on {enteredAt.toLocaleString()}
+                            {change.changedByName && ` by ${change.changedByName}`}
+                            {` via ${change.source}`}
+                          </p>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ol>
+              )}
             </CardContent>
           </Card>
 
-          {/* Interaction History */}
-          <Card className="bg-slate-800/30 border-slate-700/50">
-            <CardContent className="p-4">
-              <div className="flex items-center gap-2 mb-4">
-                <History className="h-4 w-4 text-slate-400" />
-                <h3 className="font-medium text-white">Interaction History</h3>
-                <span className="text-xs text-slate-400 ml-auto">
-                  {filteredInteractions.length} of {interactions.length} record{interactions.length !== 1 ? 's' : ''}
-                </span>
-              </div>
+          {/* Line Items */}
+          <LeadLineItems lead={lead} />
 
-              {/* Search and Filter */}
-              <div className="flex gap-3 mb-4">
-                <div className="relative flex-1">
-                  <Search className="absolute left-3 top-3 h-4 w-4 text-slate-400" />
-                  <Input
-                    placeholder="Search interactions or team member..."
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    className="pl-10 bg-slate-800/50 border-slate-700"
-                    data-testid="input-search-interactions"
-                  />
+          {/* Quotes */}
+          <LeadQuotes lead={lead} />
+
+          {/* Invoices */}
+          <LeadInvoices lead={lead} />
+
+          {/* Tasks */}
+          <LeadTasks leadId={lead.id} />
+
+          {/* Interaction History and field-level Change History */}
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              onClick={() => setActivityTab("interactions")}
+              className={activityTab === "interactions" ? "bg-indigo-600" : "bg-slate-700"}
+              data-testid="tab-lead-interactions"
+            >
+              <History className="h-4 w-4 mr-1" />
+              Interactions
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => setActivityTab("history")}
+              className={activityTab === "history" ? "bg-indigo-600" : "bg-slate-700"}
+              data-testid="tab-lead-history"
+            >
+              <ListChecks className="h-4 w-4 mr-1" />
+              History
+            </Button>
+          </div>
+
+          {activityTab === "history" ? (
+            <LeadChangeHistory lead={lead} />
+          ) : (
+            <Card className="bg-slate-800/30 border-slate-700/50">
+              <CardContent className="p-4">
+                <div className="flex items-center gap-2 mb-4">
+                  <History className="h-4 w-4 text-slate-400" />
+                  <h3 className="font-medium text-white">Interaction History</h3>
+                  <span className="text-xs text-slate-400 ml-auto">
+                    {filteredInteractions.length} of {interactions.length} record{interactions.length !== 1 ? 's' : ''}
+                  </span>
                 </div>
-                <Select value={typeFilter} onValueChange={setTypeFilter}>
-                  <SelectTrigger className="w-32 bg-slate-800/50 border-slate-700" data-testid="select-interaction-filter">
-                    <SelectValue placeholder="All Types" />
-                  </SelectTrigger>
-                  <SelectContent className="bg-slate-800 border-slate-700">
-                    <SelectItem value="all">All Types</SelectItem>
-                    <SelectItem value="note">Note</SelectItem>
-                    <SelectItem value="call">Call</SelectItem>
-                    <SelectItem value="email">Email</SelectItem>
-                    <SelectItem value="meeting">Meeting</SelectItem>
-                    <SelectItem value="team">Team</SelectItem>
-                    <SelectItem value="urgent">Urgent</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
 
-              {/* Interactions List */}
-              <div className="space-y-3 mb-6">
-                {isLoading ? (
-                  <div className="text-center py-8">
-                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-500 mx-auto"></div>
-                    <p className="text-slate-400 mt-2">Loading interactions...</p>
+                {/* Search and Filter */}
+                <div className="flex gap-3 mb-4">
+                  <div className="relative flex-1">
+                    <Search className="absolute left-3 top-3 h-4 w-4 text-slate-400" />
+                    <Input
+                      placeholder="Search interactions or team member..."
+                      value={searchQuery}
+                      onChange={(e) => setSearchQuery(e.target.value)}
+                      className="pl-10 bg-slate-800/50 border-slate-700"
+                      data-testid="input-search-interactions"
+                    />
                   </div>
-                ) : filteredInteractions.length === 0 ? (
-                  <div className="text-center py-8">
-                    <MessageSquare className="h-8 w-8 text-slate-400 mx-auto mb-2" />
-                    <p className="text-slate-400">{searchQuery || typeFilter !== "all" ? "No matching interactions" : "No interactions yet"}</p>
-                    <p className="text-sm text-slate-500">Add an interaction to get started</p>
-                  </div>
-                ) : (
-                  filteredInteractions.map((interaction: Interaction) => (
-                    <div
-                      key={interaction.id}
-                      className={`rounded-lg p-4 border-l-4 ${getInteractionColor(interaction.type)} hover:bg-slate-700/20 transition-colors`}
-                      data-testid={`interaction-${interaction.id}`}
-                    >
-                      <div className="flex items-start gap-3">
-                        <div className={`w-10 h-10 ${getInteractionIconBg(interaction.type)} rounded-full flex items-center justify-center flex-shrink-0 text-white`}>
-                          {getInteractionIcon(interaction.type)}
-                        </div>
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-start justify-between mb-2">
-                            <div>
-                              <h4 className="text-white font-medium capitalize mb-1">
-                                {interaction.type === 'urgent' ? 'Urgent Alert' : interaction.type}
-                              </h4>
-                              <p className="text-xs text-slate-400">
-                                by {getInteractionUserName(interaction.userId)}
-                              </p>
-                            </div>
-                            <div className="text-xs text-slate-400 text-right">
-                              <div>{new Date(interaction.createdAt).toLocaleDateString()}</div>
-                              <div>{new Date(interaction.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</div>
+                  <Select value={typeFilter} onValueChange={setTypeFilter}>
+                    <SelectTrigger className="w-32 bg-slate-800/50 border-slate-700" data-testid="select-interaction-filter">
+                      <SelectValue placeholder="All Types" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-800 border-slate-700">
+                      <SelectItem value="all">All Types</SelectItem>
+                      <SelectItem value="note">Note</SelectItem>
+                      <SelectItem value="call">Call</SelectItem>
+                      <SelectItem value="email">Email</SelectItem>
+                      <SelectItem value="meeting">Meeting</SelectItem>
+                      <SelectItem value="team">Team</SelectItem>
+                      <SelectItem value="urgent">Urgent</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {/* Interactions List */}
+                <div className="space-y-3 mb-6">
+                  {isLoading ? (
+                    <div className="text-center py-8">
+                      <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-500 mx-auto"></div>
+                      <p className="text-slate-400 mt-2">Loading interactions...</p>
+                    </div>
+                  ) : filteredInteractions.length === 0 ? (
+                    <div className="text-center py-8">
+                      <MessageSquare className="h-8 w-8 text-slate-400 mx-auto mb-2" />
+                      <p className="text-slate-400">{searchQuery || typeFilter !== "all" ? "No matching interactions" : "No interactions yet"}</p>
+                      <p className="text-sm text-slate-500">Add an interaction to get started</p>
+                    </div>
+                  ) : (
+                    filteredInteractions.map((interaction: Interaction) => (
+                      <div
+                        key={interaction.id}
+                        className={`rounded-lg p-4 border-l-4 ${getInteractionColor(interaction.type)} hover:bg-slate-700/20 transition-colors`}
+                        data-testid={`interaction-${interaction.id}`}
+                      >
+                        <div className="flex items-start gap-3">
+                          <div className={`w-10 h-10 ${getInteractionIconBg(interaction.type)} rounded-full flex items-center justify-center flex-shrink-0 text-white`}>
+                            {getInteractionIcon(interaction.type)}
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-start justify-between mb-2">
+                              <div>
+                                <h4 className="text-white font-medium capitalize mb-1">
+                                  {interaction.type === 'urgent' ? 'Urgent Alert' : interaction.type}
+                                </h4>
+                                <p className="text-xs text-slate-400">
+                                  by {getInteractionUserName(interaction.userId)}
+                                </p>
+                              </div>
+                              <div className="text-xs text-slate-400 text-right">
+                                <div>{new Date(interaction.createdAt).toLocaleDateString()}</div>
+                                <div>{new Date(interaction.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</div>
+                              </div>
                             </div>
+                            <p className="text-sm text-slate-200">{interaction.text}</p>
+                            {interaction.type === 'meeting' && interaction.scheduledAt && (
+                              <div className="flex items-center gap-2 mt-2 text-xs text-slate-300">
+                                <Calendar className="h-3 w-3" />
+                                Scheduled for {new Date(interaction.scheduledAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                                <a
+                                  href={`/api/interactions/${interaction.id}/meeting.ics`}
+                                  className="flex items-center gap-1 text-indigo-400 hover:text-indigo-300"
+                                  data-testid={`link-meeting-ics-${interaction.id}`}
+                                >
+                                  <CalendarPlus className="h-3 w-3" />
+                                  Add to calendar
+                                </a>
+                              </div>
+                            )}
                           </div>
-                          <p className="text-sm text-slate-200">{interaction.text}</p>
                         </div>
                       </div>
-                    </div>
-                  ))
-                )}
-              </div>
-            </CardContent>
-          </Card>
+                    ))
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
 
           {/* Quick Actions */}
           <div className="space-y-4">
@@ -904,6 +1137,19 @@ export default function LeadDetails({ lead, onClose }: LeadDetailsProps) {
                   </Select>
                 </div>
 
+                {newInteraction.type === "meeting" && (
+                  <div>
+                    <label className="block text-sm text-slate-400 mb-2">Scheduled for</label>
+                    <Input
+                      type="datetime-local"
+                      value={newInteraction.scheduledAt}
+                      onChange={(e) => setNewInteraction({...newInteraction, scheduledAt: e.target.value})}
+                      className="bg-slate-800/50 border-slate-700"
+                      data-testid="input-meeting-scheduled-at"
+                    />
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm text-slate-400 mb-2">Details</label>
                   <Textarea
@@ -938,6 +1184,13 @@ export default function LeadDetails({ lead, onClose }: LeadDetailsProps) {
           </div>
         )}
       </DialogContent>
+      {showMovePipeline && (
+        <MovePipelineDialog
+          leads={[lead]}
+          onClose={() => setShowMovePipeline(false)}
+          onMoved={onClose}
+        />
+      )}
     </Dialog>
   );
 }
\ No newline at end of file
@@ -0,0 +1,267 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { leadFilterKinds, conditionKind, emptyLeadFilterGroup, type LeadFilterKind } from "@/lib/leadFilters";
+import { Plus, X, FolderPlus } from "lucide-react";
+import { isLeadFilterGroup } from "@shared/schema";
+import type { LeadFilterCondition, LeadFilterGroup, Product } from "@shared/schema";
+
+// The builder nests groups two levels deep; the API accepts deeper queries
+const MAX_UI_DEPTH = 2;
+
+const priorityOptions = [
+  { value: "high", label: "High" },
+  { value: "medium", label: "Medium" },
+  { value: "low", label: "Low" },
+];
+
+interface Option {
+  value: string;
+  label: string;
+}
+
+// Chosen values as removable badges plus a select for adding another
+function MultiValuePicker({ options, values, onChange, placeholder }: { options: Option[]; values: string[]; onChange: (values: string[]) => void; placeholder: string }) {
+  const remaining = options.filter(option => !values.includes(option.value));
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {values.map(value => (
+        <Badge key={value} className="bg-indigo-500/20 text-indigo-300 border-indigo-400/30 border text-xs px-2 py-0.5">
+          {options.find(option => option.value === value)?.label ?? value}
+          <button type="button" onClick={() => onChange(values.filter(v => v !== value))} className="ml-1 hover:text-white">
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+      {remaining.length > 0 && (
+        <Select value="" onValueChange={(value) => onChange([...values, value])}>
+          <SelectTrigger className="h-8 w-40 bg-slate-800/50 border-slate-700 text-white text-xs">
+            <SelectValue placeholder={placeholder} />
+          </SelectTrigger>
+          <SelectContent className="bg-slate-800 border-slate-700">
+            {remaining.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
+
+// Free-text values typed as a comma-separated list
+function TextListInput({ values, onChange, placeholder }: { values: string[]; onChange: (values: string[]) => void; placeholder: string }) {
+  const [text, setText] = useState(values.join(", "));
+  return (
+    <Input
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(e.target.value.split(",").map(value => value.trim()).filter(Boolean));
+      }}
+      placeholder={placeholder}
+      className="h-8 w-56 bg-slate-800/50 border-slate-700 text-white text-xs placeholder:text-slate-500"
+    />
+  );
+}
+
+const inputClass = "h-8 w-28 bg-slate-800/50 border-slate-700 text-white text-xs placeholder:text-slate-500";
+const dateInputClass = "h-8 w-36 bg-slate-800/50 border-slate-700 text-white text-xs";
+
+function ConditionEditor({ condition, onChange }: { condition: LeadFilterCondition; onChange: (condition: LeadFilterCondition) => void }) {
+  const { data: users = [] } = useQuery<any[]>({
+    queryKey: ["/api/users"],
+  });
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+  const { stages } = usePipelineStages();
+
+  const matchSelect = (match: "any" | "all", onMatchChange: (match: "any" | "all") => void) => (
+    <Select value={match} onValueChange={(value) => onMatchChange(value as "any" | "all")}>
+      <SelectTrigger className="h-8 w-24 bg-slate-800/50 border-slate-700 text-white text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="bg-slate-800 border-slate-700">
+        <SelectItem value="any">any of</SelectItem>
+        <SelectItem value="all">all of</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+
+  switch (condition.type) {
+    case "range": {
+      const toNumber = (value: string) => value === "" ? undefined : Number(value);
+      return (
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+          <Input type="number" value={condition.min ?? ""} onChange={(e) => onChange({ ...condition, min: toNumber(e.target.value) })} placeholder="Min" className={inputClass} />
+          to
+          <Input type="number" value={condition.max ?? ""} onChange={(e) => onChange({ ...condition, max: toNumber(e.target.value) })} placeholder="Max" className={inputClass} />
+        </div>
+      );
+    }
+    case "dateRange":
+      return (
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+          <Input type="date" value={condition.from ?? ""} onChange={(e) => onChange({ ...condition, from: e.target.value || undefined })} className={dateInputClass} />
+          to
+          <Input type="date" value={condition.to ?? ""} onChange={(e) => onChange({ ...condition, to: e.target.value || undefined })} className={dateInputClass} />
+        </div>
+      );
+    case "tags":
+      return (
+        <div className="flex items-center gap-2">
+          {matchSelect(condition.match, (match) => onChange({ ...condition, match }))}
+          <TextListInput values={condition.tags} onChange={(tags) => onChange({ ...condition, tags })} placeholder="tag, another tag" />
+        </div>
+      );
+    case "products":
+      return (
+        <div className="flex items-center gap-2">
+          {matchSelect(condition.match, (match) => onChange({ ...condition, match }))}
+          <MultiValuePicker
+            options={products.map(product => ({ value: String(product.id), label: product.name }))}
+            values={condition.productIds.map(String)}
+            onChange={(values) => onChange({ ...condition, productIds: values.map(Number) })}
+            placeholder="Add product"
+          />
+        </div>
+      );
+    case "user": {
+      const role = condition.field === "assignedEngineer" ? "engineer" : "agent";
+      const options = [
+        { value: "none", label: "Unassigned" },
+        ...users.filter((u: any) => u.role === role || (role === "agent" && u.role === "admin"))
+          .map((u: any) => ({ value: String(u.id), label: u.name })),
+      ];
+      return (
+        <MultiValuePicker
+          options={options}
+          values={condition.userIds.map(id => id === null ? "none" : String(id))}
+          onChange={(values) => onChange({ ...condition, userIds: values.map(value => value === "none" ? null : Number(value)) })}
+          placeholder="Add person"
+        />
+      );
+    }
+    case "choice":
+      if (condition.field === "source") {
+        return <TextListInput values={condition.values} onChange={(values) => onChange({ ...condition, values })} placeholder="website, referral" />;
+      }
+      return (
+        <MultiValuePicker
+          options={condition.field === "priority"
+            ? priorityOptions
+            : stages.filter((stage, index) => stages.findIndex(s => s.key === stage.key) === index).map(stage => ({ value: stage.key, label: stage.name }))}
+          values={condition.values}
+          onChange={(values) => onChange({ ...condition, values })}
+          placeholder={condition.field === "priority" ? "Add priority" : "Add status"}
+        />
+      );
+    case "noInteractionsSince":
+      return (
+        <Input type="date" value={condition.since} onChange={(e) => onChange({ ...condition, since: e.target.value })} className={dateInputClass} />
+      );
+  }
+}
+
+interface LeadFilterBuilderProps {
+  group: LeadFilterGroup;
+  onChange: (group: LeadFilterGroup) => void;
+  onRemove?: () => void;
+  depth?: number;
+}
+
+// Edits a filter query: conditions and nested groups, each group matching all or any of its entries
+export default function LeadFilterBuilder({ group, onChange, onRemove, depth = 0 }: LeadFilterBuilderProps) {
+  const updateEntry = (index: number, entry: LeadFilterCondition | LeadFilterGroup) =>
+    onChange({ ...group, conditions: group.conditions.map((existing, i) => i === index ? entry : existing) });
+  const removeEntry = (index: number) =>
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+  const addCondition = (kind: LeadFilterKind) => {
+    const condition = leadFilterKinds.find(option => option.kind === kind)!.create();
+    onChange({ ...group, conditions: [...group.conditions, condition] });
+  };
+
+  return (
+    <div className={depth > 0 ? "border border-slate-700/70 rounded-lg p-3 space-y-2 bg-slate-900/30" : "space-y-2"}>
+      <div className="flex items-center gap-2 text-sm text-slate-400">
+        Match
+        <Select value={group.combinator} onValueChange={(value) => onChange({ ...group, combinator: value as "and" | "or" })}>
+          <SelectTrigger className="h-8 w-20 bg-slate-800/50 border-slate-700 text-white text-xs" data-testid={`select-filter-combinator-${depth}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-slate-800 border-slate-700">
+            <SelectItem value="and">all</SelectItem>
+            <SelectItem value="or">any</SelectItem>
+          </SelectContent>
+        </Select>
+        of these conditions
+        {onRemove && (
+          <Button variant="ghost" size="sm" onClick={onRemove} className="ml-auto p-1 h-7 w-7 text-slate-400 hover:text-red-400" title="Remove group">
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {group.conditions.map((entry, index) => isLeadFilterGroup(entry) ? (
+        <LeadFilterBuilder
+          key={index}
+          group={entry}
+          onChange={(nested) => updateEntry(index, nested)}
+          onRemove={() => removeEntry(index)}
+          depth={depth + 1}
+        />
+      ) : (
+        <div key={index} className="flex flex-wrap items-center gap-2" data-testid={`filter-condition-${depth}-${index}`}>
+          <Select
+            value={conditionKind(entry)}
+            onValueChange={(kind) => updateEntry(index, leadFilterKinds.find(option => option.kind === kind)!.create())}
+          >
+            <SelectTrigger className="h-8 w-48 bg-slate-800/50 border-slate-700 text-white text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-700">
+              {leadFilterKinds.map(option => (
+                <SelectItem key={option.kind} value={option.kind}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <ConditionEditor condition={entry} onChange={(condition) => updateEntry(index, condition)} />
+          <Button variant="ghost" size="sm" onClick={() => removeEntry(index)} className="p-1 h-7 w-7 text-slate-400 hover:text-red-400" title="Remove condition">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2">
+        <Select value="" onValueChange={(kind) => addCondition(kind as LeadFilterKind)}>
+          <SelectTrigger className="h-8 w-44 bg-slate-800/50 border-slate-700 text-slate-300 text-xs" data-testid={`select-add-filter-${depth}`}>
+            <Plus className="h-3 w-3 mr-1" />
+            <SelectValue placeholder="Add condition" />
+          </SelectTrigger>
+          <SelectContent className="bg-slate-800 border-slate-700">
+            {leadFilterKinds.map(option => (
+              <SelectItem key={option.kind} value={option.kind}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {depth < MAX_UI_DEPTH && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ ...group, conditions: [...group.conditions, { ...emptyLeadFilterGroup(), combinator: group.combinator === "and" ? "or" : "and" }] })}
+            className="h-8 text-xs text-slate-400 hover:text-slate-200 hover:bg-slate-700/50"
+            data-testid={`button-add-filter-group-${depth}`}
+          >
+            <FolderPlus className="h-3 w-3 mr-1" />
+            Add group
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
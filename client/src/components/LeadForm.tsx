@@ -8,9 +8,18 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Checkbox } from "@/components/ui/checkbox";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { X, Calendar } from "lucide-react";
-import type { Lead, InsertLead, Product } from "@shared/schema";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { usePipelines, usePipelineStages } from "@/hooks/usePipelineStages";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { useCurrencySettings } from "@/hooks/useCurrencySettings";
+import { formatProductPrice } from "@/lib/currency";
+import CustomFieldInput from "@/components/CustomFieldInput";
+import TagInput from "@/components/TagInput";
+import CloseReasonFields, { closeDetailsPayload, type CloseDetails } from "@/components/CloseReasonFields";
+import { stageDotClass } from "@/lib/stages";
+import { X, Calendar, AlertTriangle } from "lucide-react";
+import { COMMON_CURRENCIES } from "@shared/schema";
+import type { Lead, InsertLead, Product, DuplicateCandidate, CustomFieldValue, AccountWithStats, Contact } from "@shared/schema";
 
 interface LeadFormProps {
   lead?: Lead | null;
@@ -23,13 +32,15 @@ export default function LeadForm({ lead, onClose }: LeadFormProps) {
     email: lead?.email || "",
     phone: lead?.phone || "",
     company: lead?.company || "",
-    status: lead?.status || "new",
+    status: lead?.status || "",
     source: lead?.source || "",
     value: lead?.value || undefined,
+    currency: lead?.currency,
     assignedTo: lead?.assignedTo || undefined,
     notes: lead?.notes || "",
     priority: lead?.priority || "medium",
     tags: lead?.tags || [],
+    customFields: lead?.customFields || {},
     followUpDate: lead?.followUpDate ? (
       lead.followUpDate instanceof Date 
         ? lead.followUpDate.toISOString().split('T')[0]
@@ -38,6 +49,19 @@ export default function LeadForm({ lead, onClose }: LeadFormProps) {
   });
   
   const [selectedProducts, setSelectedProducts] = useState<number[]>([]);
+  const { baseCurrency } = useCurrencySettings();
+  // New leads are in the base currency until another is picked
+  const currency = formData.currency ?? baseCurrency;
+  const currencyOptions = COMMON_CURRENCIES.includes(currency) ? COMMON_CURRENCIES : [currency, ...COMMON_CURRENCIES];
+  // Undefined leaves a new lead to be matched to an account by its company and email domain
+  const [accountId, setAccountId] = useState<number | null | undefined>(lead ? lead.accountId : undefined);
+  const [primaryContactId, setPrimaryContactId] = useState<number | null>(lead?.primaryContactId ?? null);
+  const { customFields } = useCustomFields();
+  const [closeDetails, setCloseDetails] = useState<CloseDetails>({
+    closeReasonId: lead?.closeReasonId ?? null,
+    closeCompetitor: lead?.closeCompetitor || "",
+    closeNote: lead?.closeNote || "",
+  });
 
   const queryClient = useQueryClient();
   const { toast } = useToast();
@@ -49,6 +73,15 @@ export default function LeadForm({ lead, onClose }: LeadFormProps) {
   const { data: products = [] } = useQuery<Product[]>({
     queryKey: ["/api/products"],
   });
+
+  const { data: accounts = [] } = useQuery<AccountWithStats[]>({
+    queryKey: ["/api/accounts"],
+  });
+
+  const { data: accountContacts = [] } = useQuery<Contact[]>({
+    queryKey: ["/api/accounts", accountId, "contacts"],
+    enabled: !!accountId,
+  });
   
   // Load existing lead products when editing
   const { data: leadWithProducts } = useQuery<Lead & { products: Product[] }>({
@@ -63,17 +96,59 @@ export default function LeadForm({ lead, onClose }: LeadFormProps) {
     }
   }, [leadWithProducts]);
 
+  // Existing leads change pipeline from the lead details; new ones follow an explicit choice,
+  // then the default pipeline of the first selected product, then the default pipeline
+  const { pipelines } = usePipelines();
+  const [pipelineChoice, setPipelineChoice] = useState<number | null>(null);
+  const productPipelineId = products
+    .filter(product => selectedProducts.includes(product.id) && product.defaultPipelineId)
+    .sort((a, b) => (a.displayOrder || 0) - (b.displayOrder || 0))[0]?.defaultPipelineId;
+  const pipelineId = lead ? lead.pipelineId : pipelineChoice ?? productPipelineId ?? pipelines[0]?.id;
+  const { stages } = usePipelineStages(pipelineId);
+  const selectedStage = stages.find(stage => stage.key === formData.status);
+  const closeType = selectedStage?.type === "won" || selectedStage?.type === "lost" ? selectedStage.type : null;
+
+  // New leads start in the first open stage of their pipeline
+  useEffect(() => {
+    if (!lead && stages.length > 0 && !stages.some(stage => stage.key === formData.status)) {
+      const firstOpen = stages.find(stage => stage.type === "open") || stages[0];
+      setFormData(prev => ({ ...prev, status: firstOpen.key }));
+    }
+  }, [lead, stages, formData.status]);
+
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Suspected duplicates found for a new lead; submitting again while they are shown creates it anyway
+  const [duplicateCandidates, setDuplicateCandidates] = useState<DuplicateCandidate[]>([]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
     
     try {
+      if (!lead && duplicateCandidates.length === 0) {
+        const response = await apiRequest("POST", "/api/leads/duplicates/check", {
+          name: formData.name,
+          email: formData.email,
+          phone: formData.phone,
+          company: formData.company,
+        });
+        const candidates: DuplicateCandidate[] = await response.json();
+        if (candidates.length > 0) {
+          setDuplicateCandidates(candidates);
+          return;
+        }
+      }
+
+      // Won and lost leads say why; leads closed before reasons were recorded can be edited without one
+      const sendCloseDetails = closeType && (closeDetails.closeReasonId || formData.status !== lead?.status);
+
       // First create or update the lead
       const submitData = {
         ...formData,
+        ...(sendCloseDetails && closeDetailsPayload(closeDetails)),
         productIds: selectedProducts,
+        ...(!lead && { pipelineId }),
+        ...(accountId !== undefined && { accountId, primaryContactId: accountId ? primaryContactId : null }),
         followUpDate: formData.followUpDate ? new Date(formData.followUpDate) : undefined,
         tags: formData.tags || [],
         // Ensure value is within valid range or null
@@ -88,6 +163,9 @@ export default function LeadForm({ lead, onClose }: LeadFormProps) {
       const leadId = result?.id || lead?.id;
       
       queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads/duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
       toast({
         title: "Success",
         description: lead ? "Lead updated successfully" : "Lead created successfully",
@@ -98,7 +176,7 @@ export default function LeadForm({ lead, onClose }: LeadFormProps) {
       toast({
         variant: "destructive",
         title: "Error",
-        description: `Failed to ${lead ? "update" : "create"} lead`,
+        description: apiErrorMessage(error, `Failed to ${lead ? "update" : "create"} lead`),
       });
     } finally {
       setIsSubmitting(false);
@@ -107,13 +185,16 @@ export default function LeadForm({ lead, onClose }: LeadFormProps) {
 
   const handleChange = (field: keyof (Omit<InsertLead, 'followUpDate'> & { followUpDate?: string }), value: any) => {
     setFormData(prev => ({ ...prev, [field]: value }));
+    // Identity changes need a fresh duplicate check
+    if (field === "name" || field === "email" || field === "phone" || field === "company") {
+      setDuplicateCandidates([]);
+    }
   };
   
-  const handleTagsChange = (value: string) => {
-    const tags = value.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
-    setFormData(prev => ({ ...prev, tags }));
+  const handleCustomFieldChange = (key: string, value: CustomFieldValue) => {
+    setFormData(prev => ({ ...prev, customFields: { ...prev.customFields, [key]: value } }));
   };
-  
+
   const handleProductToggle = (productId: number, checked: boolean) => {
     setSelectedProducts(prev => {
       if (checked) {
@@ -176,6 +257,67 @@ export default function LeadForm({ lead, onClose }: LeadFormProps) {
             </div>
           </div>
 
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label className="text-slate-300 text-sm">Account</Label>
+              <Select
+                value={accountId === undefined ? "auto" : accountId === null ? "none" : String(accountId)}
+                onValueChange={(value) => {
+                  setAccountId(value === "auto" ? undefined : value === "none" ? null : parseInt(value));
+                  setPrimaryContactId(null);
+                }}
+              >
+                <SelectTrigger className="mt-1 bg-slate-700 border-slate-600 text-slate-100" data-testid="select-account">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {!lead && <SelectItem value="auto">Match automatically</SelectItem>}
+                  <SelectItem value="none">No account</SelectItem>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={String(account.id)}>{account.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label className="text-slate-300 text-sm">Primary Contact</Label>
+              <Select
+                value={primaryContactId ? String(primaryContactId) : "none"}
+                onValueChange={(value) => setPrimaryContactId(value === "none" ? null : parseInt(value))}
+                disabled={!accountId}
+              >
+                <SelectTrigger className="mt-1 bg-slate-700 border-slate-600 text-slate-100" data-testid="select-primary-contact">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  <SelectItem value="none">{accountId ? "No primary contact" : "Choose an account first"}</SelectItem>
+                  {accountContacts.map((contact) => (
+                    <SelectItem key={contact.id} value={String(contact.id)}>
+                      {contact.name}{contact.title ? ` · ${contact.title}` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {!lead && pipelines.length > 1 && (
+            <div>
+              <Label htmlFor="pipeline" className="text-slate-300 text-sm">Pipeline</Label>
+              <Select value={pipelineId ? String(pipelineId) : undefined} onValueChange={(value) => setPipelineChoice(parseInt(value))}>
+                <SelectTrigger className="mt-1 bg-slate-700 border-slate-600 text-slate-100" data-testid="select-pipeline">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {pipelines.map((pipeline) => (
+                    <SelectItem key={pipeline.id} value={String(pipeline.id)}>{pipeline.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {/* Second row: Status, Priority, Source */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div>
@@ -185,13 +327,14 @@ export default function LeadForm({ lead, onClose }: LeadFormProps) {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent className="bg-slate-800 border-slate-700">
-                  <SelectItem value="new">New</SelectItem>
-                  <SelectItem value="contacted">Contacted</SelectItem>
-                  <SelectItem value="qualified">Qualified</SelectItem>
-                  <SelectItem value="proposal">Proposal</SelectItem>
-                  <SelectItem value="negotiation">Negotiation</SelectItem>
-                  <SelectItem value="won">Won</SelectItem>
-                  <SelectItem value="lost">Lost</SelectItem>
+                  {stages.map((stage) => (
+                    <SelectItem key={stage.key} value={stage.key}>
+                      <span className="flex items-center gap-2">
+                        <span className={`w-2 h-2 rounded-full ${stageDotClass(stage)}`}></span>
+                        {stage.name}
+                      </span>
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -229,6 +372,12 @@ export default function LeadForm({ lead, onClose }: LeadFormProps) {
             </div>
           </div>
 
+          {closeType && (
+            <div className="p-4 bg-slate-700/30 border border-slate-600 rounded-lg" data-testid="close-reason-section">
+              <CloseReasonFields type={closeType} value={closeDetails} onChange={setCloseDetails} />
+            </div>
+          )}
+
           {/* Interested Products Section */}
           <div className="space-y-3">
             <div className="flex items-center space-x-2">
@@ -259,7 +408,7 @@ export default function LeadForm({ lead, onClose }: LeadFormProps) {
                         >
                           {product.name}
                         </Label>
-                        <p className="text-xs text-slate-400 mt-1">{product.price}</p>
+                        <p className="text-xs text-slate-400 mt-1">{formatProductPrice(product)}</p>
                         {product.priority && (
                           <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium mt-1 ${
                             product.priority === 'High' ? 'bg-red-900/50 text-red-300' :
@@ -280,21 +429,37 @@ export default function LeadForm({ lead, onClose }: LeadFormProps) {
           {/* Deal Value and Follow-up Date */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
-              <Label htmlFor="value" className="text-slate-300 text-sm">Deal Value ($)</Label>
-              <Input
-                id="value"
-                type="number"
-                step="0.01"
-                value={formData.value || ""}
-                onChange={(e) => {
-                  const val = parseFloat(e.target.value);
-                  // Limit to valid range for PostgreSQL real type
-                  handleChange("value", (!isNaN(val) && val <= 8388607) ? val : undefined);
-                }}
-                placeholder="0.00"
-                className="mt-1 bg-slate-700 border-slate-600 text-slate-100 placeholder:text-slate-400"
-                data-testid="input-value"
-              />
+              <Label htmlFor="value" className="text-slate-300 text-sm">Deal Value</Label>
+              <div className="flex gap-2 mt-1">
+                <Input
+                  id="value"
+                  type="number"
+                  step="0.01"
+                  value={formData.value || ""}
+                  onChange={(e) => {
+                    const val = parseFloat(e.target.value);
+                    // Limit to valid range for PostgreSQL real type
+                    handleChange("value", (!isNaN(val) && val <= 8388607) ? val : undefined);
+                  }}
+                  placeholder="0.00"
+                  disabled={lead?.valueFromLineItems}
+                  className="bg-slate-700 border-slate-600 text-slate-100 placeholder:text-slate-400"
+                  data-testid="input-value"
+                />
+                <Select value={currency} onValueChange={(value) => handleChange("currency", value)}>
+                  <SelectTrigger className="w-24 bg-slate-700 border-slate-600 text-slate-100" data-testid="select-lead-currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-800 border-slate-700">
+                    {currencyOptions.map(code => (
+                      <SelectItem key={code} value={code}>{code}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {lead?.valueFromLineItems && (
+                <p className="text-xs text-slate-400 mt-1">Calculated from the deal's line items</p>
+              )}
             </div>
 
             <div>
@@ -311,17 +476,31 @@ export default function LeadForm({ lead, onClose }: LeadFormProps) {
             </div>
           </div>
 
+          {/* Custom Fields */}
+          {customFields.length > 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {customFields.map((field) => (
+                <CustomFieldInput
+                  key={field.id}
+                  field={field}
+                  value={formData.customFields?.[field.key]}
+                  onChange={(value) => handleCustomFieldChange(field.key, value)}
+                />
+              ))}
+            </div>
+          )}
+
           {/* Tags */}
           <div>
-            <Label htmlFor="tags" className="text-slate-300 text-sm">Tags</Label>
-            <Input
-              id="tags"
-              value={(formData.tags || []).join(', ')}
-              onChange={(e) => handleTagsChange(e.target.value)}
-              placeholder="comma, separated, tags"
-              className="mt-1 bg-slate-700 border-slate-600 text-slate-100 placeholder:text-slate-400"
-              data-testid="input-tags"
-            />
+            <Label className="text-slate-300 text-sm">Tags</Label>
+            <div className="mt-1">
+              <TagInput
+                value={formData.tags || []}
+                onChange={(tags) => handleChange("tags", tags)}
+                className="bg-slate-700 border-slate-600"
+                data-testid="input-tags"
+              />
+            </div>
           </div>
 
           {/* Notes */}
@@ -338,6 +517,29 @@ export default function LeadForm({ lead, onClose }: LeadFormProps) {
             />
           </div>
 
+          {/* Duplicate Warning */}
+          {duplicateCandidates.length > 0 && (
+            <div className="rounded-lg border border-amber-500/30 bg-amber-500/10 p-4" data-testid="duplicate-warning">
+              <div className="flex items-center gap-2 text-amber-400 text-sm font-medium mb-2">
+                <AlertTriangle className="h-4 w-4" />
+                This lead may already exist
+              </div>
+              <ul className="space-y-1">
+                {duplicateCandidates.map(({ lead: duplicate, reasons }) => (
+                  <li key={duplicate.id} className="text-sm text-slate-300" data-testid={`duplicate-candidate-${duplicate.id}`}>
+                    {duplicate.name}
+                    {duplicate.company && <span className="text-slate-400"> · {duplicate.company}</span>}
+                    {duplicate.email && <span className="text-slate-400"> · {duplicate.email}</span>}
+                    <span className="text-xs text-amber-400/80"> (matching {reasons.join(", ")})</span>
+                  </li>
+                ))}
+              </ul>
+              <p className="text-xs text-slate-400 mt-2">
+                Submit again to create it anyway. Duplicates can be merged later from the Duplicates tab.
+              </p>
+            </div>
+          )}
+
           {/* Submit Button */}
           <div className="flex justify-end pt-4">
             <Button
@@ -346,7 +548,7 @@ export default function LeadForm({ lead, onClose }: LeadFormProps) {
               className="bg-indigo-600 hover:bg-indigo-700 text-white px-8 py-2"
               data-testid="button-submit"
             >
-              {isSubmitting ? "Submitting..." : "Submit"}
+              {isSubmitting ? "Submitting..." : duplicateCandidates.length > 0 ? "Create Anyway" : "Submit"}
             </Button>
           </div>
         </form>
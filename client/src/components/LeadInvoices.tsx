@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { formatMoney } from "@/lib/currency";
+import { isWonStatus } from "@/lib/stages";
+import InvoiceDetails, { InvoiceStatusBadge } from "./InvoiceDetails";
+import { Receipt, Plus } from "lucide-react";
+import { invoiceBalance } from "@shared/schema";
+import type { Invoice, InvoiceDetail, Lead } from "@shared/schema";
+
+interface LeadInvoicesProps {
+  lead: Lead;
+}
+
+export default function LeadInvoices({ lead }: LeadInvoicesProps) {
+  const [viewingInvoiceId, setViewingInvoiceId] = useState<number | null>(null);
+
+  const { user } = useAuth();
+  // Invoices are for admins and the agent on the deal, not engineers
+  const canView = user?.role === "admin" || user?.role === "agent";
+  const canEdit = user?.role === "admin" || lead.assignedTo === user?.id;
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { allStages } = usePipelineStages();
+  const leadIsWon = isWonStatus(allStages, lead.status, lead.pipelineId);
+
+  const { data: invoices = [], isLoading } = useQuery<Invoice[]>({
+    queryKey: ["/api/leads", lead.id, "invoices"],
+    enabled: canView,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/leads/${lead.id}/invoices`);
+      return await response.json() as InvoiceDetail;
+    },
+    onSuccess: (invoice) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads", lead.id, "invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      // Opened straight away so the draft can be checked before it is issued
+      setViewingInvoiceId(invoice.id);
+      toast({ title: "Success", description: `Draft invoice ${invoice.reference} created` });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to create invoice") });
+    },
+  });
+
+  // Nothing to show on open deals that were never invoiced
+  if (!canView || (!leadIsWon && invoices.length === 0)) return null;
+
+  return (
+    <Card className="bg-slate-800/30 border-slate-700/50">
+      <CardContent className="p-4">
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <Receipt className="h-4 w-4 text-slate-400" />
+          <h3 className="font-medium text-white">Invoices</h3>
+          {canEdit && leadIsWon && (
+            <Button
+              size="sm"
+              onClick={() => createMutation.mutate()}
+              disabled={createMutation.isPending}
+              className="ml-auto bg-indigo-600 hover:bg-indigo-700"
+              data-testid="button-create-invoice"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              {createMutation.isPending ? "Creating..." : "New Invoice"}
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="h-16 bg-slate-700/30 rounded animate-pulse"></div>
+        ) : invoices.length === 0 ? (
+          <p className="text-sm text-slate-400">No invoices yet. Invoices are drafted from the line items above.</p>
+        ) : (
+          <div className="space-y-2">
+            {invoices.map(invoice => (
+              <div
+                key={invoice.id}
+                onClick={() => setViewingInvoiceId(invoice.id)}
+                className="flex flex-wrap items-center gap-2 text-sm p-2 bg-slate-700/30 rounded-lg border border-slate-600/50 cursor-pointer hover:bg-slate-700/50"
+                data-testid={`lead-invoice-${invoice.id}`}
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="text-white font-medium">{invoice.reference}</p>
+                  <p className="text-xs text-slate-400">
+                    {invoice.dueDate ? `Due ${new Date(invoice.dueDate).toLocaleDateString()}` : `Created ${new Date(invoice.createdAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <span className="text-green-400">{formatMoney(invoice.total, invoice.currency)}</span>
+                {invoice.status !== "draft" && invoiceBalance(invoice) > 0 && (
+                  <span className="text-xs text-amber-400">{formatMoney(invoiceBalance(invoice), invoice.currency)} due</span>
+                )}
+                <InvoiceStatusBadge status={invoice.status} />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {viewingInvoiceId !== null && (
+        <InvoiceDetails invoiceId={viewingInvoiceId} onClose={() => setViewingInvoiceId(null)} />
+      )}
+    </Card>
+  );
+}
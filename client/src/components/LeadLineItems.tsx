@@ -0,0 +1,288 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useCurrencySettings } from "@/hooks/useCurrencySettings";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { formatMoney, formatProductPrice } from "@/lib/currency";
+import { Package, Pencil, Trash2 } from "lucide-react";
+import { lineItemTotal, lineItemTotals, productPriceDefaults, MONTHLY_LINE_ITEM_TERM_MONTHS } from "@shared/schema";
+import type { Lead, LeadLineItem, LineItemBillingType, LineItemDiscountType, Product } from "@shared/schema";
+
+interface LineItemsResponse {
+  items: LeadLineItem[];
+  oneTime: number;
+  monthly: number;
+  value: number;
+  valueFromLineItems: boolean;
+}
+
+// A line being edited; the unit price stays empty for products without one
+interface DraftLine {
+  productId: number;
+  quantity: number;
+  unitPrice: number | null;
+  discount: number;
+  discountType: LineItemDiscountType;
+  billingType: LineItemBillingType;
+}
+
+const billingLabels: Record<LineItemBillingType, string> = {
+  one_time: "One-time",
+  monthly: "Monthly",
+};
+
+const gridTemplateColumns = "2fr 0.7fr 1fr 1.3fr 1fr 1fr 0.4fr";
+
+interface LeadLineItemsProps {
+  lead: Lead;
+}
+
+export default function LeadLineItems({ lead }: LeadLineItemsProps) {
+  const [draft, setDraft] = useState<DraftLine[] | null>(null);
+  const [valueFromLineItems, setValueFromLineItems] = useState(false);
+
+  const { user } = useAuth();
+  const canEdit = user?.role === "admin" || user?.role === "engineer" || lead.assignedTo === user?.id;
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { settings: currencySettings } = useCurrencySettings();
+  // Line item prices are in the lead's currency
+  const money = (amount: number) => formatMoney(amount, lead.currency);
+
+  const { data, isLoading } = useQuery<LineItemsResponse>({
+    queryKey: ["/api/leads", lead.id, "line-items"],
+  });
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PUT", `/api/leads/${lead.id}/line-items`, { items: draft, valueFromLineItems });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      toast({ title: "Success", description: "Line items saved" });
+      setDraft(null);
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to save line items") });
+    },
+  });
+
+  const startEditing = () => {
+    setDraft((data?.items ?? []).map(({ productId, quantity, unitPrice, discount, discountType, billingType }) => ({
+      productId, quantity, unitPrice, discount, discountType, billingType,
+    })));
+    setValueFromLineItems(data?.valueFromLineItems ?? lead.valueFromLineItems);
+  };
+
+  const updateLine = (productId: number, changes: Partial<DraftLine>) => {
+    setDraft(lines => lines && lines.map(line => line.productId === productId ? { ...line, ...changes } : line));
+  };
+
+  const addProduct = (productId: number) => {
+    const product = products.find(p => p.id === productId);
+    if (!product) return;
+    setDraft(lines => lines && [...lines, { productId, quantity: 1, discount: 0, discountType: "percent", ...productPriceDefaults(product, lead.currency, currencySettings) }]);
+  };
+
+  const productName = (productId: number) => products.find(p => p.id === productId)?.name ?? `Product #${productId}`;
+
+  const lines = draft ?? data?.items ?? [];
+  const totals = draft ? lineItemTotals(draft) : data ?? lineItemTotals([]);
+  const valueSynced = draft ? valueFromLineItems : data?.valueFromLineItems ?? lead.valueFromLineItems;
+  const addableProducts = products.filter(product => product.isActive && !lines.some(line => line.productId === product.id));
+
+  return (
+    <Card className="bg-slate-800/30 border-slate-700/50">
+      <CardContent className="p-4">
+        <div className="flex items-center gap-2 mb-4">
+          <Package className="h-4 w-4 text-slate-400" />
+          <h3 className="font-medium text-white">Line Items</h3>
+          {canEdit && !draft && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={startEditing}
+              disabled={isLoading}
+              className="ml-auto text-slate-300 hover:bg-slate-700"
+              data-testid="button-edit-line-items"
+            >
+              <Pencil className="h-4 w-4 mr-1" />
+              Edit
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="h-16 bg-slate-700/30 rounded animate-pulse"></div>
+        ) : lines.length === 0 && !draft ? (
+          <p className="text-sm text-slate-400">No products on this deal yet.</p>
+        ) : (
+          <div className="space-y-2">
+            <div className="hidden md:grid gap-2 text-xs font-medium text-slate-400 uppercase tracking-wider" style={{ gridTemplateColumns }}>
+              <div>Product</div>
+              <div>Qty</div>
+              <div>Unit Price</div>
+              <div>Discount</div>
+              <div>Billing</div>
+              <div className="text-right">Total</div>
+              <div></div>
+            </div>
+
+            {draft ? draft.map(line => (
+              <div key={line.productId} className="grid gap-2 items-center" style={{ gridTemplateColumns }} data-testid={`line-item-${line.productId}`}>
+                <div className="text-white text-sm truncate">{productName(line.productId)}</div>
+                <Input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={line.quantity}
+                  onChange={(e) => updateLine(line.productId, { quantity: parseFloat(e.target.value) || 0 })}
+                  className="h-8 bg-slate-700 border-slate-600 text-slate-100"
+                  data-testid={`input-line-quantity-${line.productId}`}
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={line.unitPrice ?? ""}
+                  placeholder="No price"
+                  onChange={(e) => updateLine(line.productId, { unitPrice: e.target.value === "" ? null : parseFloat(e.target.value) })}
+                  className="h-8 bg-slate-700 border-slate-600 text-slate-100 placeholder:text-slate-500"
+                  data-testid={`input-line-price-${line.productId}`}
+                />
+                <div className="flex gap-1">
+                  <Input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={line.discount}
+                    onChange={(e) => updateLine(line.productId, { discount: parseFloat(e.target.value) || 0 })}
+                    className="h-8 bg-slate-700 border-slate-600 text-slate-100"
+                    data-testid={`input-line-discount-${line.productId}`}
+                  />
+                  <Select value={line.discountType} onValueChange={(value) => updateLine(line.productId, { discountType: value as LineItemDiscountType })}>
+                    <SelectTrigger className="h-8 w-20 bg-slate-700 border-slate-600 text-slate-100">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-800 border-slate-700">
+                      <SelectItem value="percent">%</SelectItem>
+                      <SelectItem value="amount">{lead.currency}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Select value={line.billingType} onValueChange={(value) => updateLine(line.productId, { billingType: value as LineItemBillingType })}>
+                  <SelectTrigger className="h-8 bg-slate-700 border-slate-600 text-slate-100" data-testid={`select-line-billing-${line.productId}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-800 border-slate-700">
+                    {Object.entries(billingLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="text-right text-sm text-green-400">{money(lineItemTotal(line))}</div>
+                <div className="text-right">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setDraft(lines => lines && lines.filter(l => l.productId !== line.productId))}
+                    className="h-8 text-red-400 hover:bg-red-600/20"
+                    title="Remove line"
+                    data-testid={`button-remove-line-${line.productId}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )) : data!.items.map(item => (
+              <div key={item.productId} className="grid gap-2 items-center text-sm p-2 bg-slate-700/30 rounded-lg border border-slate-600/50" style={{ gridTemplateColumns }} data-testid={`line-item-${item.productId}`}>
+                <div className="text-white font-medium truncate">{item.product.name}</div>
+                <div className="text-slate-300">{item.quantity}</div>
+                <div className="text-slate-300">{item.unitPrice === null ? "—" : money(item.unitPrice)}</div>
+                <div className="text-slate-300">
+                  {item.discount ? (item.discountType === "percent" ? `${item.discount}%` : money(item.discount)) : "—"}
+                </div>
+                <div className="text-slate-300">{billingLabels[item.billingType]}</div>
+                <div className="text-right text-green-400">{money(item.total)}</div>
+                <div></div>
+              </div>
+            ))}
+
+            {draft && addableProducts.length > 0 && (
+              <Select value="" onValueChange={(value) => addProduct(parseInt(value))}>
+                <SelectTrigger className="h-8 bg-slate-700 border-slate-600 text-slate-300" data-testid="select-add-line-product">
+                  <SelectValue placeholder="Add a product..." />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {addableProducts.map(product => (
+                    <SelectItem key={product.id} value={String(product.id)}>{product.name} · {formatProductPrice(product)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        )}
+
+        {(lines.length > 0 || draft) && (
+          <div className="mt-4 pt-3 border-t border-slate-700/50 space-y-1 text-sm">
+            <div className="flex justify-between text-slate-300">
+              <span>One-time</span>
+              <span>{money(totals.oneTime)}</span>
+            </div>
+            <div className="flex justify-between text-slate-300">
+              <span>Monthly</span>
+              <span>{money(totals.monthly)}/mo</span>
+            </div>
+            <div className="flex justify-between text-white font-medium">
+              <span>Deal value ({MONTHLY_LINE_ITEM_TERM_MONTHS} months of monthly charges)</span>
+              <span className="text-green-400" data-testid="text-line-items-value">{money(totals.value)}</span>
+            </div>
+            {!draft && valueSynced && (
+              <p className="text-xs text-slate-400">The lead's deal value is calculated from these line items.</p>
+            )}
+          </div>
+        )}
+
+        {draft && (
+          <div className="mt-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <Switch
+                id={`value-from-line-items-${lead.id}`}
+                checked={valueFromLineItems}
+                onCheckedChange={setValueFromLineItems}
+                data-testid="switch-value-from-line-items"
+              />
+              <Label htmlFor={`value-from-line-items-${lead.id}`} className="text-slate-300 text-sm">
+                Calculate deal value from line items
+              </Label>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setDraft(null)} className="border-slate-600 text-slate-300">
+                Cancel
+              </Button>
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending}
+                className="bg-indigo-600 hover:bg-indigo-700"
+                data-testid="button-save-line-items"
+              >
+                {saveMutation.isPending ? "Saving..." : "Save Line Items"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,304 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { formatMoney } from "@/lib/currency";
+import { isWonStatus } from "@/lib/stages";
+import CloseReasonFields, { emptyCloseDetails, type CloseDetails } from "./CloseReasonFields";
+import { FileText, Plus, Eye, Download, RefreshCw } from "lucide-react";
+import { QUOTE_STATUSES, quoteReference } from "@shared/schema";
+import type { Lead, QuoteStatus, QuoteTemplate, QuoteWithDetails } from "@shared/schema";
+
+const statusLabels: Record<QuoteStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  accepted: "Accepted",
+  rejected: "Rejected",
+};
+
+const statusBadgeClass: Record<QuoteStatus, string> = {
+  draft: "bg-slate-500/20 text-slate-300 border-slate-400/30",
+  sent: "bg-blue-500/20 text-blue-300 border-blue-400/30",
+  accepted: "bg-emerald-500/20 text-emerald-300 border-emerald-400/30",
+  rejected: "bg-red-500/20 text-red-300 border-red-400/30",
+};
+
+interface LeadQuotesProps {
+  lead: Lead;
+}
+
+export default function LeadQuotes({ lead }: LeadQuotesProps) {
+  const [templateId, setTemplateId] = useState<number | null>(null);
+  const [previewing, setPreviewing] = useState<QuoteWithDetails | null>(null);
+  const [accepting, setAccepting] = useState<QuoteWithDetails | null>(null);
+  const [markWon, setMarkWon] = useState(true);
+  const [closeDetails, setCloseDetails] = useState<CloseDetails>(emptyCloseDetails);
+
+  const { user } = useAuth();
+  const canEdit = user?.role === "admin" || user?.role === "engineer" || lead.assignedTo === user?.id;
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { allStages } = usePipelineStages();
+  const leadIsWon = isWonStatus(allStages, lead.status, lead.pipelineId);
+
+  const { data: quotes = [], isLoading } = useQuery<QuoteWithDetails[]>({
+    queryKey: ["/api/leads", lead.id, "quotes"],
+  });
+  const { data: templates = [] } = useQuery<QuoteTemplate[]>({
+    queryKey: ["/api/quote-templates"],
+  });
+
+  // New quote versions are saved as attachments, and accepting can close the lead
+  const invalidateQuotes = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/leads/${lead.id}/attachments`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user/storage"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/leads/${lead.id}/quotes`, templateId ? { templateId } : {});
+    },
+    onSuccess: () => {
+      invalidateQuotes();
+      toast({ title: "Success", description: "Quote created" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to create quote") });
+    },
+  });
+
+  const reviseMutation = useMutation({
+    mutationFn: async (quoteId: number) => {
+      return await apiRequest("POST", `/api/quotes/${quoteId}/revise`, templateId ? { templateId } : {});
+    },
+    onSuccess: () => {
+      invalidateQuotes();
+      toast({ title: "Success", description: "New quote version created" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to revise quote") });
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ quoteId, status, won }: { quoteId: number; status: QuoteStatus; won?: boolean }) => {
+      return await apiRequest("PUT", `/api/quotes/${quoteId}/status`, {
+        status,
+        ...(won && { markWon: true, closeReasonId: closeDetails.closeReasonId, closeNote: closeDetails.closeNote.trim() || null }),
+      });
+    },
+    onSuccess: (_, { won }) => {
+      invalidateQuotes();
+      if (won) queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      setAccepting(null);
+      toast({ title: "Success", description: won ? "Quote accepted and lead marked as won" : "Quote updated" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to update quote") });
+    },
+  });
+
+  const changeStatus = (quote: QuoteWithDetails, status: QuoteStatus) => {
+    if (status === "accepted") {
+      setMarkWon(!leadIsWon);
+      setCloseDetails(emptyCloseDetails);
+      setAccepting(quote);
+      return;
+    }
+    statusMutation.mutate({ quoteId: quote.id, status });
+  };
+
+  // Only the latest version of a quote is revised
+  const isLatestVersion = (quote: QuoteWithDetails) =>
+    !quotes.some(other => other.number === quote.number && other.version > quote.version);
+
+  return (
+    <Card className="bg-slate-800/30 border-slate-700/50">
+      <CardContent className="p-4">
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <FileText className="h-4 w-4 text-slate-400" />
+          <h3 className="font-medium text-white">Quotes</h3>
+          {canEdit && (
+            <div className="ml-auto flex items-center gap-2">
+              {templates.length > 1 && (
+                <Select
+                  value={templateId ? String(templateId) : undefined}
+                  onValueChange={(id) => setTemplateId(parseInt(id))}
+                >
+                  <SelectTrigger className="h-8 w-44 bg-slate-700 border-slate-600 text-slate-100" data-testid="select-quote-template">
+                    <SelectValue placeholder="Default template" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-800 border-slate-700">
+                    {templates.map(template => (
+                      <SelectItem key={template.id} value={String(template.id)}>
+                        {template.name}{template.isDefault ? " (default)" : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button
+                size="sm"
+                onClick={() => createMutation.mutate()}
+                disabled={createMutation.isPending}
+                className="bg-indigo-600 hover:bg-indigo-700"
+                data-testid="button-create-quote"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                {createMutation.isPending ? "Creating..." : "New Quote"}
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="h-16 bg-slate-700/30 rounded animate-pulse"></div>
+        ) : quotes.length === 0 ? (
+          <p className="text-sm text-slate-400">No quotes yet. Quotes are generated from the line items above.</p>
+        ) : (
+          <div className="space-y-2">
+            {quotes.map(quote => (
+              <div
+                key={quote.id}
+                className="flex flex-wrap items-center gap-2 text-sm p-2 bg-slate-700/30 rounded-lg border border-slate-600/50"
+                data-testid={`quote-${quote.id}`}
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="text-white font-medium">
+                    {quoteReference(quote.number)} <span className="text-slate-400 font-normal">v{quote.version}</span>
+                  </p>
+                  <p className="text-xs text-slate-400">
+                    {new Date(quote.createdAt).toLocaleDateString()}
+                    {quote.createdByName && ` by ${quote.createdByName}`}
+                  </p>
+                </div>
+                <span className="text-green-400">{formatMoney(quote.total, quote.currency)}</span>
+                {canEdit ? (
+                  <Select value={quote.status} onValueChange={(status) => changeStatus(quote, status as QuoteStatus)}>
+                    <SelectTrigger className="h-8 w-32 bg-slate-700 border-slate-600 text-slate-100" data-testid={`select-quote-status-${quote.id}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-800 border-slate-700">
+                      {QUOTE_STATUSES.map(status => (
+                        <SelectItem key={status} value={status}>{statusLabels[status]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Badge className={`${statusBadgeClass[quote.status]} border text-xs px-2 py-0.5`}>{statusLabels[quote.status]}</Badge>
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setPreviewing(quote)}
+                  className="h-8 text-slate-300 hover:bg-slate-700"
+                  title="Preview"
+                  data-testid={`button-preview-quote-${quote.id}`}
+                >
+                  <Eye className="h-4 w-4" />
+                </Button>
+                {quote.attachmentId && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => window.open(`/api/attachments/${quote.attachmentId}/download`, "_blank")}
+                    className="h-8 text-slate-300 hover:bg-slate-700"
+                    title={quote.fileName ?? "Download PDF"}
+                    data-testid={`button-download-quote-${quote.id}`}
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+                )}
+                {canEdit && isLatestVersion(quote) && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => reviseMutation.mutate(quote.id)}
+                    disabled={reviseMutation.isPending}
+                    className="h-8 text-slate-300 hover:bg-slate-700"
+                    title="New version from the current line items"
+                    data-testid={`button-revise-quote-${quote.id}`}
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {previewing && (
+        <Dialog open={true} onOpenChange={(open) => { if (!open) setPreviewing(null); }}>
+          <DialogContent className="bg-slate-900 border-slate-700 text-white max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>{quoteReference(previewing.number)} v{previewing.version}</DialogTitle>
+              <DialogDescription className="text-slate-400">
+                The quote as generated. Download the PDF to send it.
+              </DialogDescription>
+            </DialogHeader>
+            {/* Sandboxed so template markup can't run scripts in the app */}
+            <iframe
+              srcDoc={previewing.html}
+              sandbox=""
+              title="Quote preview"
+              className="w-full h-[60vh] bg-white rounded"
+            />
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {accepting && (
+        <Dialog open={true} onOpenChange={(open) => { if (!open) setAccepting(null); }}>
+          <DialogContent className="bg-slate-900 border-slate-700 text-white">
+            <DialogHeader>
+              <DialogTitle>Accept {quoteReference(accepting.number)} v{accepting.version}</DialogTitle>
+              <DialogDescription className="text-slate-400">
+                Mark the quote as accepted by {lead.name}.
+              </DialogDescription>
+            </DialogHeader>
+
+            {!leadIsWon && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id={`quote-mark-won-${accepting.id}`}
+                  checked={markWon}
+                  onCheckedChange={(checked) => setMarkWon(checked === true)}
+                  data-testid="checkbox-quote-mark-won"
+                />
+                <Label htmlFor={`quote-mark-won-${accepting.id}`} className="text-slate-300 text-sm">
+                  Also mark the lead as won
+                </Label>
+              </div>
+            )}
+            {markWon && !leadIsWon && <CloseReasonFields type="won" value={closeDetails} onChange={setCloseDetails} />}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setAccepting(null)} className="border-slate-600 text-slate-300">
+                Cancel
+              </Button>
+              <Button
+                onClick={() => statusMutation.mutate({ quoteId: accepting.id, status: "accepted", won: markWon && !leadIsWon })}
+                disabled={(markWon && !leadIsWon && !closeDetails.closeReasonId) || statusMutation.isPending}
+                className="bg-indigo-600 hover:bg-indigo-700"
+                data-testid="button-confirm-accept-quote"
+              >
+                {statusMutation.isPending ? "Saving..." : "Accept Quote"}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+    </Card>
+  );
+}
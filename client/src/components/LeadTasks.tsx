@@ -0,0 +1,50 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import TaskForm from "./TaskForm";
+import TaskList from "./TaskList";
+import { ListTodo, Plus } from "lucide-react";
+import type { TaskWithDetails } from "@shared/schema";
+
+interface LeadTasksProps {
+  leadId: number;
+}
+
+export default function LeadTasks({ leadId }: LeadTasksProps) {
+  const [showForm, setShowForm] = useState(false);
+
+  const { data: tasks = [], isLoading } = useQuery<TaskWithDetails[]>({
+    queryKey: ["/api/leads", leadId, "tasks"],
+  });
+  const openCount = tasks.filter(task => !task.completedAt).length;
+
+  return (
+    <Card className="bg-slate-800/30 border-slate-700/50">
+      <CardContent className="p-4">
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <ListTodo className="h-4 w-4 text-slate-400" />
+          <h3 className="font-medium text-white">Tasks</h3>
+          {openCount > 0 && <span className="text-xs text-slate-400">{openCount} open</span>}
+          <Button
+            size="sm"
+            onClick={() => setShowForm(true)}
+            className="ml-auto bg-indigo-600 hover:bg-indigo-700"
+            data-testid="button-add-lead-task"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Task
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="h-16 bg-slate-700/30 rounded animate-pulse"></div>
+        ) : (
+          <TaskList tasks={tasks} emptyMessage="No tasks for this lead yet." />
+        )}
+      </CardContent>
+
+      {showForm && <TaskForm leadId={leadId} onClose={() => setShowForm(false)} />}
+    </Card>
+  );
+}
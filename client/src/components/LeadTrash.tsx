@@ -0,0 +1,156 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { Trash2, RotateCcw, Building, Mail } from "lucide-react";
+import type { LeadTrashPage, LeadWithProducts } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysUntilPurge(deletedAt: string | Date, retentionDays: number) {
+  const purgeAt = new Date(deletedAt).getTime() + retentionDays * DAY_MS;
+  return Math.max(0, Math.ceil((purgeAt - Date.now()) / DAY_MS));
+}
+
+export default function LeadTrash() {
+  const { user } = useAuth();
+  const isAdmin = user?.role === "admin";
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<LeadTrashPage>({
+    queryKey: ["/api/leads/trash"],
+  });
+  const trashed = data?.leads ?? [];
+  const retentionDays = data?.retentionDays ?? 0;
+
+  const { data: users = [] } = useQuery<any[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest("POST", `/api/leads/${id}/restore`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+      toast({ title: "Success", description: "Lead restored" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to restore lead") });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/leads/trash/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads/trash"] });
+      toast({ title: "Success", description: "Lead deleted permanently" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to delete lead") });
+    },
+  });
+
+  const deletedByName = (lead: LeadWithProducts) =>
+    users.find((u: any) => u.id === lead.deletedById)?.name;
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-slate-700 rounded w-1/4 mb-4"></div>
+          <div className="h-32 bg-slate-800/30 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg sm:text-xl font-bold text-white">Trash</h2>
+        <p className="text-slate-400 mt-1">
+          Deleted leads keep their products, interactions and files and can be restored for {retentionDays} days, after which they are deleted permanently.
+          {data && data.total > trashed.length && ` Showing the ${trashed.length} most recently deleted of ${data.total}.`}
+        </p>
+      </div>
+
+      {trashed.length === 0 ? (
+        <div className="bg-slate-800/30 rounded-lg border border-slate-700/50 p-8 text-center text-slate-400">
+          <Trash2 className="h-8 w-8 mx-auto mb-2 text-slate-500" />
+          The trash is empty
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {trashed.map(lead => {
+            const daysLeft = daysUntilPurge(lead.deletedAt!, retentionDays);
+            const deletedBy = deletedByName(lead);
+            return (
+              <div
+                key={lead.id}
+                className="flex flex-col sm:flex-row sm:items-center gap-3 bg-slate-800/30 rounded-lg border border-slate-700/50 p-4"
+                data-testid={`trashed-lead-${lead.id}`}
+              >
+                <div className="flex-1 min-w-0 space-y-1">
+                  <p className="text-sm font-medium text-white truncate">{lead.name}</p>
+                  {lead.company && (
+                    <p className="flex items-center gap-1 text-xs text-slate-400 truncate">
+                      <Building className="h-3 w-3" /> {lead.company}
+                    </p>
+                  )}
+                  {lead.email && (
+                    <p className="flex items-center gap-1 text-xs text-blue-400 truncate">
+                      <Mail className="h-3 w-3 text-slate-400" /> {lead.email}
+                    </p>
+                  )}
+                  <p className="text-xs text-slate-500">
+                    #{lead.id} · {lead.status} · deleted {new Date(lead.deletedAt!).toLocaleDateString()}
+                    {deletedBy && ` by ${deletedBy}`}
+                  </p>
+                </div>
+                <Badge className="bg-red-500/20 text-red-400 border-red-400/30 border text-xs w-fit">
+                  {daysLeft === 0 ? "Purged today" : `${daysLeft} ${daysLeft === 1 ? "day" : "days"} left`}
+                </Badge>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => restoreMutation.mutate(lead.id)}
+                    disabled={restoreMutation.isPending}
+                    className="bg-indigo-600 hover:bg-indigo-700"
+                    data-testid={`button-restore-${lead.id}`}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Restore
+                  </Button>
+                  {isAdmin && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => {
+                        if (confirm(`Delete "${lead.name}" permanently? Its interactions and files are deleted too.`)) {
+                          purgeMutation.mutate(lead.id);
+                        }
+                      }}
+                      disabled={purgeMutation.isPending}
+                      className="border-red-600/50 text-red-400 hover:bg-red-600/20"
+                      data-testid={`button-purge-${lead.id}`}
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Delete forever
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
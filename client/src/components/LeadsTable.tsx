@@ -1,9 +1,16 @@
-import { useState } from "react";
+import { Fragment, useCallback, useEffect, useRef, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuCheckboxItem,
+  DropdownMenuLabel,
+} from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { 
@@ -16,31 +23,206 @@ import {
   Phone,
   AlertTriangle,
   Download,
-  Upload
+  Upload,
+  ArrowUp,
+  ArrowDown,
+  ChevronLeft,
+  ChevronRight,
+  Columns3,
+  SlidersHorizontal
 } from "lucide-react";
 import LeadForm from "./LeadForm";
 import LeadDetails from "./LeadDetails";
-import type { Lead } from "@shared/schema";
+import SavedViewBar, { type LeadTableState } from "./SavedViewBar";
+import LeadFilterBuilder from "./LeadFilterBuilder";
+import BulkActionBar from "./BulkActionBar";
+import { useLeadsPage, useLeadSearch } from "@/hooks/useLeads";
+import { usePipelines, usePipelineStages } from "@/hooks/usePipelineStages";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { useSavedViews } from "@/hooks/useSavedViews";
+import { useAuth } from "@/hooks/useAuth";
+import { stageBadgeClass, stageLabel, isWonStatus } from "@/lib/stages";
+import { formatMoney } from "@/lib/currency";
+import { emptyLeadFilterGroup, compactLeadFilterGroup, countLeadFilterConditions } from "@/lib/leadFilters";
+import { SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_END, LEAD_TABLE_COLUMNS, DEFAULT_LEAD_TABLE_COLUMNS } from "@shared/schema";
+import type { FollowUpState, Lead, LeadFilterGroup, LeadSearchMatch, LeadTableColumn, SavedView } from "@shared/schema";
+
+const PAGE_SIZE = 25;
+const SEARCH_DEBOUNCE_MS = 300;
+const DEFAULT_SORT = { sortBy: "createdAt", sortOrder: "desc" as const };
+const NO_CONTACT_DAY_OPTIONS = [7, 14, 30, 60, 90];
+
+const emptyFilters = {
+  search: "",
+  pipelineId: "all",
+  status: "all",
+  priority: "all",
+  mine: false,
+  noContactDays: "all",
+  followUp: "all",
+  customFieldKey: "all",
+  customFieldValue: ""
+};
+
+// Optional desktop columns: header, sort column and share of the row width
+const columnSettings: Record<LeadTableColumn, { label: string; sortBy?: string; width: number }> = {
+  contact: { label: "Contact", sortBy: "email", width: 2 },
+  status: { label: "Status", sortBy: "status", width: 1 },
+  priority: { label: "Priority", sortBy: "priority", width: 1 },
+  products: { label: "Products", width: 1 },
+  value: { label: "Value", sortBy: "value", width: 1 },
+  followUpDate: { label: "Follow-up", sortBy: "followUpDate", width: 1 },
+  lastContactedAt: { label: "Last Contact", sortBy: "lastContactedAt", width: 1 },
+  score: { label: "Score", sortBy: "score", width: 1 },
+  assignedTo: { label: "Assigned", sortBy: "assignedTo", width: 1 },
+};
+
+const matchSourceLabels: Record<LeadSearchMatch["source"], string> = {
+  lead: "Lead",
+  tags: "Tags",
+  interaction: "Interaction",
+  attachment: "Attachment",
+};
+
+// Snippets mark hits with control characters rather than HTML, so they are split into <mark> nodes here
+function renderSnippet(snippet: string) {
+  return snippet.split(SEARCH_HIGHLIGHT_START).map((part, index) => {
+    if (index === 0) return <Fragment key={index}>{part}</Fragment>;
+    const [hit, rest = ""] = part.split(SEARCH_HIGHLIGHT_END);
+    return (
+      <Fragment key={index}>
+        <mark className="bg-amber-400/30 text-amber-200 rounded px-0.5">{hit}</mark>
+        {rest}
+      </Fragment>
+    );
+  });
+}
 
 export default function LeadsTable() {
   const [showLeadForm, setShowLeadForm] = useState(false);
   const [editingLead, setEditingLead] = useState<Lead | null>(null);
   const [viewingLead, setViewingLead] = useState<Lead | null>(null);
-  const [filters, setFilters] = useState({
-    search: "",
-    status: "all",
-    priority: "all"
-  });
+  const [filters, setFilters] = useState(emptyFilters);
+  const [advancedFilter, setAdvancedFilter] = useState<LeadFilterGroup>(emptyLeadFilterGroup);
+  const [showAdvancedFilter, setShowAdvancedFilter] = useState(false);
+  const [sort, setSort] = useState<{ sortBy: string; sortOrder: "asc" | "desc" }>(DEFAULT_SORT);
+  const [columns, setColumns] = useState<LeadTableColumn[]>(DEFAULT_LEAD_TABLE_COLUMNS);
+  const [activeViewId, setActiveViewId] = useState<number | null>(null);
+  const [page, setPage] = useState(0);
+  // Ticked leads stay selected across pages and filter changes until an action or "Clear selection"
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(filters.search.trim());
+      setPage(0);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [filters.search]);
+
+  const updateFilters = (newFilters: typeof filters) => {
+    setFilters(newFilters);
+    setPage(0);
+  };
+
+  const updateAdvancedFilter = (group: LeadFilterGroup) => {
+    setAdvancedFilter(group);
+    setPage(0);
+  };
+
+  const handleSort = (column: string) => {
+    setSort(prev => ({
+      sortBy: column,
+      sortOrder: prev.sortBy === column && prev.sortOrder === "asc" ? "desc" : "asc"
+    }));
+    setPage(0);
+  };
+
+  // Opening a view replaces the filters, sort and columns; "All leads" (null) resets them
+  const applyView = useCallback((view: SavedView | null) => {
+    const [customField] = Object.entries(view?.filters.customFields ?? {});
+    const search = view?.filters.search ?? "";
+    setFilters({
+      search,
+      pipelineId: view?.filters.pipelineId ? String(view.filters.pipelineId) : "all",
+      status: view?.filters.status ?? "all",
+      priority: view?.filters.priority ?? "all",
+      mine: view?.filters.mine ?? false,
+      noContactDays: view?.filters.noContactDays ? String(view.filters.noContactDays) : "all",
+      followUp: view?.filters.followUp ?? "all",
+      customFieldKey: customField?.[0] ?? "all",
+      customFieldValue: customField?.[1] ?? ""
+    });
+    setDebouncedSearch(search);
+    setAdvancedFilter(view?.filters.query ?? emptyLeadFilterGroup());
+    setShowAdvancedFilter(countLeadFilterConditions(view?.filters.query) > 0);
+    setSort(view ? { sortBy: view.sortBy, sortOrder: view.sortOrder } : DEFAULT_SORT);
+    setColumns(view?.columns ?? DEFAULT_LEAD_TABLE_COLUMNS);
+    setActiveViewId(view?.id ?? null);
+    setPage(0);
+  }, []);
+
+  // The first default view published for the user's role opens with the table
+  const { user } = useAuth();
+  const { views: savedViews, isLoading: isLoadingViews } = useSavedViews();
+  const appliedDefaultView = useRef(false);
+  useEffect(() => {
+    if (isLoadingViews || appliedDefaultView.current) return;
+    appliedDefaultView.current = true;
+    const defaultView = savedViews.find(view => view.isDefault && view.sharedWithRole === user?.role);
+    if (defaultView) applyView(defaultView);
+  }, [isLoadingViews, savedViews, user?.role, applyView]);
 
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { pipelines } = usePipelines();
+  const selectedPipelineId = filters.pipelineId === "all" ? undefined : parseInt(filters.pipelineId);
+  const { stages, allStages, getStage } = usePipelineStages(selectedPipelineId);
+  const { customFields } = useCustomFields();
+  const filterField = customFields.find(field => field.key === filters.customFieldKey);
+  const customFieldFilter = filterField && filters.customFieldValue.trim()
+    ? { [filterField.key]: filters.customFieldValue.trim() }
+    : undefined;
+  // Across all pipelines the status filter offers each stage key once
+  const statusOptions = stages.filter((stage, index) => stages.findIndex(s => s.key === stage.key) === index);
+  const noContactDays = filters.noContactDays === "all" ? undefined : parseInt(filters.noContactDays);
+  const followUp = filters.followUp === "all" ? undefined : filters.followUp as FollowUpState;
+  const filterQuery = compactLeadFilterGroup(advancedFilter);
+  const advancedFilterCount = countLeadFilterConditions(filterQuery);
+
+  const tableState: LeadTableState = {
+    filters: {
+      ...(filters.search.trim() && { search: filters.search.trim() }),
+      ...(selectedPipelineId && { pipelineId: selectedPipelineId }),
+      ...(filters.status !== "all" && { status: filters.status }),
+      ...(filters.priority !== "all" && { priority: filters.priority as "low" | "medium" | "high" }),
+      ...(filters.mine && { mine: true }),
+      ...(noContactDays && { noContactDays }),
+      ...(followUp && { followUp }),
+      ...(customFieldFilter && { customFields: customFieldFilter }),
+      ...(filterQuery && { query: filterQuery }),
+    },
+    ...sort,
+    columns,
+  };
+  const visibleColumns = LEAD_TABLE_COLUMNS.filter(column => columns.includes(column));
+  const gridTemplateColumns = [1, 2, ...visibleColumns.map(column => columnSettings[column].width), 1]
+    .map(width => `minmax(0, ${width}fr)`)
+    .join(" ");
 
   const handleExportCSV = async () => {
     try {
       const params = new URLSearchParams();
       if (filters.search) params.set('search', filters.search);
+      if (filters.pipelineId !== 'all') params.set('pipelineId', filters.pipelineId);
       if (filters.status && filters.status !== 'all') params.set('status', filters.status);
       if (filters.priority && filters.priority !== 'all') params.set('priority', filters.priority);
+      if (filters.mine) params.set('mine', 'true');
+      if (noContactDays) params.set('noContactDays', String(noContactDays));
+      if (followUp) params.set('followUp', followUp);
+      if (filterQuery) params.set('filter', JSON.stringify(filterQuery));
+      Object.entries(customFieldFilter ?? {}).forEach(([key, value]) => params.set(`cf.${key}`, value));
       
       const url = `/api/leads/export/csv${params.toString() ? `?${params.toString()}` : ''}`;
       const response = await fetch(url, { credentials: 'include' });
@@ -92,10 +274,13 @@ export default function LeadsTable() {
       }
       
       queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads/duplicates"] });
       
+      const duplicateCount = result.results.duplicates?.length || 0;
       toast({
         title: "Import Complete",
-        description: `${result.results.successful} leads imported successfully. ${result.results.failed} failed.`,
+        description: `${result.results.successful} leads imported successfully. ${result.results.failed} failed.` +
+          (duplicateCount > 0 ? ` ${duplicateCount} look like duplicates; review them in the Duplicates tab.` : ""),
       });
       
       if (result.results.errors.length > 0) {
@@ -115,24 +300,52 @@ export default function LeadsTable() {
     });
   };
 
-  const { data: leads = [], isLoading } = useQuery<Lead[]>({
-    queryKey: ["/api/leads", filters],
-    queryFn: async () => {
-      const params = new URLSearchParams();
-      if (filters.search) params.set('search', filters.search);
-      if (filters.status && filters.status !== 'all') params.set('status', filters.status);
-      if (filters.priority && filters.priority !== 'all') params.set('priority', filters.priority);
-      
-      const url = `/api/leads${params.toString() ? `?${params.toString()}` : ''}`;
-      const response = await fetch(url, { credentials: 'include' });
-      
-      if (!response.ok) {
-        throw new Error('Failed to fetch leads');
-      }
-      
-      return response.json();
-    },
+  // A non-empty search box switches the table to ranked full-text results
+  const isSearching = debouncedSearch.length > 0;
+  const { data: leadPage, isLoading: isLoadingLeads } = useLeadsPage({
+    pipelineId: filters.pipelineId,
+    status: filters.status,
+    priority: filters.priority,
+    mine: filters.mine || undefined,
+    noContactDays,
+    followUp,
+    customFields: customFieldFilter,
+    filter: filterQuery,
+    ...sort,
+    limit: PAGE_SIZE,
+    offset: page * PAGE_SIZE
+  }, !isSearching);
+  const { data: searchPage, isLoading: isLoadingSearch } = useLeadSearch(debouncedSearch, {
+    pipelineId: filters.pipelineId,
+    status: filters.status,
+    priority: filters.priority,
+    mine: filters.mine || undefined,
+    noContactDays,
+    followUp,
+    customFields: customFieldFilter,
+    filter: filterQuery,
+    limit: PAGE_SIZE,
+    offset: page * PAGE_SIZE
   });
+  const isLoading = isSearching ? isLoadingSearch && !searchPage : isLoadingLeads;
+  const leads = isSearching
+    ? searchPage?.results.map(result => result.lead) ?? []
+    : leadPage?.leads ?? [];
+  const total = (isSearching ? searchPage?.total : leadPage?.total) ?? 0;
+  const matchesByLead = new Map<number, LeadSearchMatch[]>(
+    isSearching ? searchPage?.results.map(result => [result.lead.id, result.matches]) ?? [] : []
+  );
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const allOnPageSelected = leads.length > 0 && leads.every(lead => selectedIds.includes(lead.id));
+
+  const toggleSelected = (id: number, checked: boolean) =>
+    setSelectedIds(prev => checked ? [...prev, id] : prev.filter(selected => selected !== id));
+  const togglePageSelected = (checked: boolean) => {
+    const pageIds = leads.map(lead => lead.id);
+    setSelectedIds(prev => checked
+      ? [...prev, ...pageIds.filter(id => !prev.includes(id))]
+      : prev.filter(id => !pageIds.includes(id)));
+  };
 
   const { data: users = [] } = useQuery<any[]>({
     queryKey: ["/api/users"],
@@ -144,9 +357,10 @@ export default function LeadsTable() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
       toast({
         title: "Success",
-        description: "Lead deleted successfully",
+        description: "Lead moved to the trash",
       });
     },
     onError: () => {
@@ -168,23 +382,12 @@ export default function LeadsTable() {
   };
 
   const handleDelete = (id: number) => {
-    if (confirm("Are you sure you want to delete this lead?")) {
+    if (confirm("Move this lead to the trash? It can be restored from the Trash tab.")) {
       deleteMutation.mutate(id);
     }
   };
 
-  const getStatusBadge = (status: string) => {
-    const statusColors = {
-      new: "bg-slate-500/20 text-slate-400 border-slate-500/30",
-      contacted: "bg-blue-500/20 text-blue-400 border-blue-500/30",
-      qualified: "bg-emerald-500/20 text-emerald-400 border-emerald-500/30",
-      proposal: "bg-amber-500/20 text-amber-400 border-amber-500/30",
-      negotiation: "bg-orange-500/20 text-orange-400 border-orange-500/30",
-      won: "bg-green-500/20 text-green-400 border-green-500/30",
-      lost: "bg-red-500/20 text-red-400 border-red-500/30",
-    };
-    return statusColors[status as keyof typeof statusColors] || statusColors.new;
-  };
+  const getStatusBadge = (lead: Lead) => stageBadgeClass(getStage(lead.status, lead.pipelineId));
 
   const getAssigneeName = (assignedTo: number | null) => {
     if (!assignedTo) return "Unassigned";
@@ -201,6 +404,121 @@ export default function LeadsTable() {
     }
   };
 
+  const renderSortHeader = (column: string, label: string) => (
+    <button
+      type="button"
+      onClick={() => handleSort(column)}
+      className="flex items-center gap-1 uppercase tracking-wider hover:text-slate-200"
+      data-testid={`sort-${column}`}
+    >
+      {label}
+      {sort.sortBy === column && (sort.sortOrder === "asc"
+        ? <ArrowUp className="h-3 w-3" />
+        : <ArrowDown className="h-3 w-3" />)}
+    </button>
+  );
+
+  // Desktop cell for one of the optional columns
+  const renderColumnCell = (lead: Lead, column: LeadTableColumn) => {
+    switch (column) {
+      case "contact":
+        return (
+          <div className="text-xs text-slate-300 space-y-1">
+            <div className="flex items-center gap-1">
+              <Mail className="h-3 w-3 text-slate-400" />
+              <span className="text-blue-400">{lead.email}</span>
+            </div>
+            {lead.phone && (
+              <div className="flex items-center gap-1">
+                <Phone className="h-3 w-3 text-slate-400" />
+                <span>{lead.phone}</span>
+              </div>
+            )}
+          </div>
+        );
+      case "status":
+        if (isWonStatus(allStages, lead.status, lead.pipelineId) && (lead.engineeringProgress || 0) > 0) {
+          return (
+            <Badge className="bg-blue-500/20 text-blue-400 border-blue-400/30 text-xs px-2 py-1">
+              In Development
+            </Badge>
+          );
+        }
+        if (isWonStatus(allStages, lead.status, lead.pipelineId)) {
+          return (
+            <Badge className="bg-purple-500/20 text-purple-400 border-purple-400/30 text-xs px-2 py-1">
+              Design Phase
+            </Badge>
+          );
+        }
+        return (
+          <Badge className={`${getStatusBadge(lead)} text-xs px-2 py-1 border`}>
+            {stageLabel(allStages, lead.status, lead.pipelineId)}
+          </Badge>
+        );
+      case "priority":
+        return (
+          <div className="flex items-center gap-1">
+            {lead.priority === 'high' && <AlertTriangle className="h-3 w-3 text-red-400" />}
+            <Badge className={`${getPriorityColor(lead.priority || 'medium')} text-xs px-2 py-1 border`}>
+              {lead.priority === 'high' ? 'Hot' : lead.priority || 'medium'}
+            </Badge>
+          </div>
+        );
+      case "products":
+        return (
+          <div className="truncate">
+            {(lead as any).products && (lead as any).products.length > 0 ? (
+              <Badge className="bg-blue-500/20 text-blue-400 border-blue-400/30 text-xs px-1 py-0.5">
+                {(lead as any).products[0].name}
+              </Badge>
+            ) : (
+              <span className="text-xs text-slate-500">None</span>
+            )}
+          </div>
+        );
+      case "value":
+        return (
+          <span className="text-sm font-medium text-green-400 truncate block">
+            {formatMoney(lead.value ?? 0, lead.currency)}
+          </span>
+        );
+      case "followUpDate":
+        return (
+          <span className="text-xs text-slate-500 truncate block">
+            {lead.followUpDate
+              ? new Date(lead.followUpDate).toLocaleDateString()
+              : "Not set"}
+          </span>
+        );
+      case "lastContactedAt":
+        return (
+          <span className="text-xs text-slate-500 truncate block">
+            {lead.lastContactedAt ? new Date(lead.lastContactedAt).toLocaleDateString() : "Never"}
+          </span>
+        );
+      case "score":
+        return <span className="text-sm text-slate-300">{lead.score ?? 0}</span>;
+      case "assignedTo":
+        return <span className="text-xs text-slate-400 truncate block">{getAssigneeName(lead.assignedTo)}</span>;
+    }
+  };
+
+  const renderMatches = (leadId: number) => {
+    const matches = matchesByLead.get(leadId);
+    if (!matches?.length) return null;
+    return (
+      <div className="mt-2 space-y-1" data-testid={`search-matches-${leadId}`}>
+        {matches.map((match, index) => (
+          <p key={`${match.source}-${match.sourceId ?? index}`} className="text-xs text-slate-400 line-clamp-2">
+            <span className="text-slate-500 mr-1">{matchSourceLabels[match.source]}:</span>
+            {renderSnippet(match.snippet)}
+          </p>
+        ))}
+      </div>
+    );
+  };
+
   if (isLoading) {
     return (
       <div className="space-y-6">
@@ -218,7 +536,9 @@ export default function LeadsTable() {
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
         <div>
           <h2 className="text-lg sm:text-xl font-bold text-white">Lead Management</h2>
-          <p className="text-slate-400 mt-1">{leads.length} of {leads.length} leads</p>
+          <p className="text-slate-400 mt-1">
+            {leads.length} of {total} leads{isSearching && " · ranked by relevance"}
+          </p>
         </div>
         <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2 sm:gap-3">
           {/* Add Lead Button - Priority on mobile */}
@@ -235,6 +555,34 @@ export default function LeadsTable() {
           </Button>
           
           <div className="flex gap-2">
+            {/* Optional desktop columns; saved with views */}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="outline"
+                  className="hidden lg:inline-flex border-slate-600 text-slate-300 hover:bg-slate-700/50 px-4 py-2 text-sm"
+                  data-testid="button-columns"
+                >
+                  <Columns3 className="h-4 w-4 mr-2" />
+                  Columns
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="bg-slate-800 border-slate-700 text-slate-200">
+                <DropdownMenuLabel className="text-xs text-slate-400">Visible columns</DropdownMenuLabel>
+                {LEAD_TABLE_COLUMNS.map(column => (
+                  <DropdownMenuCheckboxItem
+                    key={column}
+                    checked={columns.includes(column)}
+                    onCheckedChange={(checked) => setColumns(prev => checked ? [...prev, column] : prev.filter(c => c !== column))}
+                    onSelect={(e) => e.preventDefault()}
+                    data-testid={`toggle-column-${column}`}
+                  >
+                    {columnSettings[column].label}
+                  </DropdownMenuCheckboxItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+
             {/* Export CSV Button */}
             <Button
               onClick={handleExportCSV}
@@ -266,6 +614,8 @@ export default function LeadsTable() {
         </div>
       </div>
 
+      <SavedViewBar activeViewId={activeViewId} current={tableState} onApply={applyView} />
+
       {/* Filters */}
       <div className="flex flex-col sm:flex-row sm:items-center gap-3 sm:gap-4">
         <div className="flex-1 order-1 sm:order-none">
@@ -281,24 +631,37 @@ export default function LeadsTable() {
           </div>
         </div>
         <div className="flex gap-2 sm:gap-0 order-2 sm:order-none">
+          {pipelines.length > 1 && (
+            <div className="flex-1 sm:w-40 sm:mr-4">
+              {/* Stage keys differ between pipelines, so switching pipeline clears the status filter */}
+              <Select value={filters.pipelineId} onValueChange={(value) => updateFilters({ ...filters, pipelineId: value, status: "all" })}>
+                <SelectTrigger className="bg-slate-800/50 border-slate-700 text-white" data-testid="select-pipeline">
+                  <SelectValue placeholder="All Pipelines" />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  <SelectItem value="all">All Pipelines</SelectItem>
+                  {pipelines.map((pipeline) => (
+                    <SelectItem key={pipeline.id} value={String(pipeline.id)}>{pipeline.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
           <div className="flex-1 sm:w-32">
-            <Select value={filters.status} onValueChange={(value) => setFilters({ ...filters, status: value })}>
+            <Select value={filters.status} onValueChange={(value) => updateFilters({ ...filters, status: value })}>
               <SelectTrigger className="bg-slate-800/50 border-slate-700 text-white" data-testid="select-status">
                 <SelectValue placeholder="All Status" />
               </SelectTrigger>
               <SelectContent className="bg-slate-800 border-slate-700">
                 <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="new">New</SelectItem>
-                <SelectItem value="contacted">Contacted</SelectItem>
-                <SelectItem value="qualified">Qualified</SelectItem>
-                <SelectItem value="proposal">Proposal</SelectItem>
-                <SelectItem value="won">Won</SelectItem>
-                <SelectItem value="lost">Lost</SelectItem>
+                {statusOptions.map((stage) => (
+                  <SelectItem key={stage.key} value={stage.key}>{stage.name}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
           <div className="flex-1 sm:w-32 sm:ml-4">
-            <Select value={filters.priority} onValueChange={(value) => setFilters({ ...filters, priority: value })}>
+            <Select value={filters.priority} onValueChange={(value) => updateFilters({ ...filters, priority: value })}>
               <SelectTrigger className="bg-slate-800/50 border-slate-700 text-white">
                 <SelectValue placeholder="All Priority" />
               </SelectTrigger>
@@ -313,21 +676,157 @@ export default function LeadsTable() {
         </div>
       </div>
 
+      {/* Ownership and follow-up filters; custom field filter: choice fields pick a value, the rest match typed text */}
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <div className="sm:w-40">
+          <Select
+            value={filters.mine ? "mine" : "all"}
+            onValueChange={(value) => updateFilters({ ...filters, mine: value === "mine" })}
+          >
+            <SelectTrigger className="bg-slate-800/50 border-slate-700 text-white" data-testid="select-mine">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-700">
+              <SelectItem value="all">Everyone's leads</SelectItem>
+              <SelectItem value="mine">My leads</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="sm:w-48">
+          <Select
+            value={filters.noContactDays}
+            onValueChange={(value) => updateFilters({ ...filters, noContactDays: value })}
+          >
+            <SelectTrigger className="bg-slate-800/50 border-slate-700 text-white" data-testid="select-no-contact-days">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-700">
+              <SelectItem value="all">Any last contact</SelectItem>
+              {NO_CONTACT_DAY_OPTIONS.map(days => (
+                <SelectItem key={days} value={String(days)}>No contact in {days} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="sm:w-44">
+          <Select
+            value={filters.followUp}
+            onValueChange={(value) => updateFilters({ ...filters, followUp: value })}
+          >
+            <SelectTrigger className="bg-slate-800/50 border-slate-700 text-white" data-testid="select-follow-up">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-700">
+              <SelectItem value="all">Any follow-up</SelectItem>
+              <SelectItem value="due">Follow-up due</SelectItem>
+              <SelectItem value="overdue">Follow-up overdue</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {customFields.length > 0 && (
+          <div className="sm:w-48">
+            <Select
+              value={filters.customFieldKey}
+              onValueChange={(value) => updateFilters({ ...filters, customFieldKey: value, customFieldValue: "" })}
+            >
+              <SelectTrigger className="bg-slate-800/50 border-slate-700 text-white" data-testid="select-custom-field-filter">
+                <SelectValue placeholder="Filter by field" />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-800 border-slate-700">
+                <SelectItem value="all">Filter by field</SelectItem>
+                {customFields.map((field) => (
+                  <SelectItem key={field.key} value={field.key}>{field.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {filterField && (filterField.type === "select" || filterField.type === "multiselect" || filterField.type === "boolean") ? (
+          <div className="sm:w-48">
+            <Select
+              value={filters.customFieldValue || "any"}
+              onValueChange={(value) => updateFilters({ ...filters, customFieldValue: value === "any" ? "" : value })}
+            >
+              <SelectTrigger className="bg-slate-800/50 border-slate-700 text-white" data-testid="select-custom-field-value">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-800 border-slate-700">
+                <SelectItem value="any">Any</SelectItem>
+                {(filterField.type === "boolean" ? ["true", "false"] : filterField.options || []).map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option === "true" && filterField.type === "boolean" ? "Yes" : option === "false" && filterField.type === "boolean" ? "No" : option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ) : filterField && (
+          <Input
+            type={filterField.type === "number" ? "number" : filterField.type === "date" ? "date" : "text"}
+            value={filters.customFieldValue}
+            onChange={(e) => updateFilters({ ...filters, customFieldValue: e.target.value })}
+            placeholder={filterField.type === "text" || filterField.type === "url" ? "Contains..." : "Equals..."}
+            className="sm:w-48 bg-slate-800/50 border-slate-700 text-white placeholder:text-slate-400"
+            data-testid="input-custom-field-value"
+          />
+        )}
+        <Button
+          variant="outline"
+          onClick={() => setShowAdvancedFilter(show => !show)}
+          className={`sm:ml-auto border-slate-600 hover:bg-slate-700/50 ${advancedFilterCount > 0 ? "text-indigo-300 border-indigo-500/50" : "text-slate-300"}`}
+          data-testid="button-advanced-filters"
+        >
+          <SlidersHorizontal className="h-4 w-4 mr-2" />
+          Advanced filters{advancedFilterCount > 0 && ` (${advancedFilterCount})`}
+        </Button>
+      </div>
+
+      {/* Ranges, dates, tags, products and nested AND/OR groups on top of the filters above */}
+      {showAdvancedFilter && (
+        <div className="bg-slate-800/30 rounded-lg border border-slate-700/50 p-4 space-y-3" data-testid="panel-advanced-filters">
+          <LeadFilterBuilder group={advancedFilter} onChange={updateAdvancedFilter} />
+          {advancedFilterCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => updateAdvancedFilter(emptyLeadFilterGroup())}
+              className="text-xs text-slate-400 hover:text-slate-200 hover:bg-slate-700/50"
+            >
+              Clear advanced filters
+            </Button>
+          )}
+        </div>
+      )}
+
+      {selectedIds.length > 0 && (
+        <BulkActionBar
+          selectedIds={selectedIds}
+          onClear={() => setSelectedIds([])}
+          onDone={(succeededIds) => setSelectedIds(prev => prev.filter(id => !succeededIds.includes(id)))}
+        />
+      )}
+
       {/* Desktop Table / Mobile Cards */}
       <div className="bg-slate-800/30 rounded-lg border border-slate-700/50 overflow-hidden">
         {/* Table Header - Hidden on mobile */}
         <div className="hidden lg:block bg-slate-700/30 px-4 py-3 border-b border-slate-600/50">
-          <div className="grid grid-cols-12 gap-1 text-xs font-medium text-slate-400 uppercase tracking-wider">
-            <div className="col-span-1"></div>
-            <div className="col-span-2">Lead</div>
-            <div className="col-span-2">Contact</div>
-            <div className="col-span-1">Status</div>
-            <div className="col-span-1">Priority</div>
-            <div className="col-span-1">Products</div>
-            <div className="col-span-1">Value</div>
-            <div className="col-span-1">Follow-up</div>
-            <div className="col-span-1">Assigned</div>
-            <div className="col-span-1">Actions</div>
+          <div className="grid gap-1 text-xs font-medium text-slate-400 uppercase tracking-wider" style={{ gridTemplateColumns }}>
+            <div>
+              <input
+                type="checkbox"
+                checked={allOnPageSelected}
+                onChange={(e) => togglePageSelected(e.target.checked)}
+                className="w-4 h-4 text-indigo-600 bg-slate-700 border-slate-600 rounded focus:ring-indigo-500"
+                title="Select all leads on this page"
+                data-testid="checkbox-select-page"
+              />
+            </div>
+            <div>{renderSortHeader("name", "Lead")}</div>
+            {visibleColumns.map(column => {
+              const { label, sortBy } = columnSettings[column];
+              return <div key={column}>{sortBy ? renderSortHeader(sortBy, label) : label}</div>;
+            })}
+            <div>Actions</div>
           </div>
         </div>
 
@@ -339,6 +838,13 @@ export default function LeadsTable() {
               <div className="lg:hidden space-y-4">
                 {/* Lead Header */}
                 <div className="flex items-center space-x-3 mb-4">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(lead.id)}
+                    onChange={(e) => toggleSelected(lead.id, e.target.checked)}
+                    className="w-4 h-4 text-indigo-600 bg-slate-700 border-slate-600 rounded focus:ring-indigo-500 flex-shrink-0"
+                    data-testid={`checkbox-lead-mobile-${lead.id}`}
+                  />
                   <div className="w-12 h-12 bg-slate-600 rounded-full flex items-center justify-center flex-shrink-0">
                     <span className="text-white font-medium">
                       {lead.name.split(' ').map(n => n[0]).join('').toUpperCase()}
@@ -393,20 +899,22 @@ export default function LeadsTable() {
                   )}
                 </div>
 
+                {renderMatches(lead.id)}
+
                 {/* Status and Priority Row */}
                 <div className="flex items-center justify-between gap-4">
                   <div className="flex items-center gap-3">
-                    {lead.status === 'won' && (lead.engineeringProgress || 0) > 0 ? (
+                    {isWonStatus(allStages, lead.status, lead.pipelineId) && (lead.engineeringProgress || 0) > 0 ? (
                       <Badge className="bg-blue-500/20 text-blue-400 border-blue-400/30 text-sm px-3 py-1">
                         In Development
                       </Badge>
-                    ) : lead.status === 'won' ? (
+                    ) : isWonStatus(allStages, lead.status, lead.pipelineId) ? (
                       <Badge className="bg-purple-500/20 text-purple-400 border-purple-400/30 text-sm px-3 py-1">
                         Design Phase
                       </Badge>
                     ) : (
-                      <Badge className={`${getStatusBadge(lead.status)} text-sm px-3 py-1 border`}>
-                        {lead.status}
+                      <Badge className={`${getStatusBadge(lead)} text-sm px-3 py-1 border`}>
+                        {stageLabel(allStages, lead.status, lead.pipelineId)}
                       </Badge>
                     )}
                   </div>
@@ -423,7 +931,7 @@ export default function LeadsTable() {
                   <div className="text-sm text-slate-300">
                     <span className="text-slate-400">Value: </span>
                     <span className="text-green-400 font-semibold">
-                      ${lead.value ? lead.value.toLocaleString() : '0'}
+                      {formatMoney(lead.value ?? 0, lead.currency)}
                     </span>
                   </div>
                   <div className="text-sm">
@@ -445,14 +953,20 @@ export default function LeadsTable() {
               </div>
 
               {/* Desktop Table Layout */}
-              <div className="hidden lg:grid grid-cols-12 gap-1 items-center">
+              <div className="hidden lg:grid gap-1 items-center" style={{ gridTemplateColumns }}>
                 {/* Desktop: Checkbox */}
-                <div className="col-span-1">
-                  <input type="checkbox" className="w-4 h-4 text-indigo-600 bg-slate-700 border-slate-600 rounded focus:ring-indigo-500" />
+                <div>
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(lead.id)}
+                    onChange={(e) => toggleSelected(lead.id, e.target.checked)}
+                    className="w-4 h-4 text-indigo-600 bg-slate-700 border-slate-600 rounded focus:ring-indigo-500"
+                    data-testid={`checkbox-lead-${lead.id}`}
+                  />
                 </div>
                 
                 {/* Desktop: Lead */}
-                <div className="col-span-2">
+                <div>
                   <div className="flex items-center space-x-3">
                     <div className="w-10 h-10 bg-slate-600 rounded-full flex items-center justify-center flex-shrink-0">
                       <span className="text-white font-medium text-sm">
@@ -468,85 +982,12 @@ export default function LeadsTable() {
                   </div>
                 </div>
 
-                {/* Desktop: Contact */}
-                <div className="col-span-2">
-                  <div className="text-xs text-slate-300 space-y-1">
-                    <div className="flex items-center gap-1">
-                      <Mail className="h-3 w-3 text-slate-400" />
-                      <span className="text-blue-400">{lead.email}</span>
-                    </div>
-                    {lead.phone && (
-                      <div className="flex items-center gap-1">
-                        <Phone className="h-3 w-3 text-slate-400" />
-                        <span>{lead.phone}</span>
-                      </div>
-                    )}
-                  </div>
-                </div>
-                
-                {/* Status */}
-                <div className="col-span-1">
-                  {lead.status === 'won' && (lead.engineeringProgress || 0) > 0 ? (
-                    <Badge className="bg-blue-500/20 text-blue-400 border-blue-400/30 text-xs px-2 py-1">
-                      In Development
-                    </Badge>
-                  ) : lead.status === 'won' ? (
-                    <Badge className="bg-purple-500/20 text-purple-400 border-purple-400/30 text-xs px-2 py-1">
-                      Design Phase
-                    </Badge>
-                  ) : (
-                    <Badge className={`${getStatusBadge(lead.status)} text-xs px-2 py-1 border`}>
-                      {lead.status}
-                    </Badge>
-                  )}
-                </div>
-                
-                {/* Priority */}
-                <div className="col-span-1">
-                  <div className="flex items-center gap-1">
-                    {lead.priority === 'high' && <AlertTriangle className="h-3 w-3 text-red-400" />}
-                    <Badge className={`${getPriorityColor(lead.priority || 'medium')} text-xs px-2 py-1 border`}>
-                      {lead.priority === 'high' ? 'Hot' : lead.priority || 'medium'}
-                    </Badge>
-                  </div>
-                </div>
-                
-                {/* Products */}
-                <div className="col-span-1">
-                  <div className="truncate">
-                    {(lead as any).products && (lead as any).products.length > 0 ? (
-                      <Badge className="bg-blue-500/20 text-blue-400 border-blue-400/30 text-xs px-1 py-0.5">
-                        {(lead as any).products[0].name}
-                      </Badge>
-                    ) : (
-                      <span className="text-xs text-slate-500">None</span>
-                    )}
-                  </div>
-                </div>
-                
-                {/* Value */}
-                <div className="col-span-1">
-                  <span className="text-sm font-medium text-green-400 truncate block">
-                    ${lead.value ? lead.value.toLocaleString() : '0'}
-                  </span>
-                </div>
-                
-                {/* Follow-up */}
-                <div className="col-span-1">
-                  <span className="text-xs text-slate-500 truncate block">
-                    {lead.followUpDate 
-                      ? new Date(lead.followUpDate).toLocaleDateString() 
-                      : "Not set"}
-                  </span>
-                </div>
-                
-                {/* Assigned */}
-                <div className="col-span-1">
-                  <span className="text-xs text-slate-400 truncate block">{getAssigneeName(lead.assignedTo)}</span>
-                </div>
+                {visibleColumns.map(column => (
+                  <div key={column}>{renderColumnCell(lead, column)}</div>
+                ))}
                 
                 {/* Actions */}
-                <div className="col-span-1">
+                <div>
                   <div className="flex items-center justify-start space-x-1">
                     <Button
                       variant="ghost"
@@ -578,11 +1019,44 @@ export default function LeadsTable() {
                   </div>
                 </div>
               </div>
+              <div className="hidden lg:block lg:pl-[8.33%]">
+                {renderMatches(lead.id)}
+              </div>
             </div>
           ))}
         </div>
       </div>
 
+      {/* Pagination */}
+      <div className="flex items-center justify-between text-sm text-slate-400">
+        <span data-testid="text-pagination">
+          {total === 0 ? 0 : page * PAGE_SIZE + 1}–{page * PAGE_SIZE + leads.length} of {total}
+        </span>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(p => Math.max(0, p - 1))}
+            disabled={page === 0}
+            className="border-slate-600 text-slate-300 hover:bg-slate-700/50"
+            data-testid="button-prev-page"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span>Page {page + 1} of {pageCount}</span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(p => Math.min(pageCount - 1, p + 1))}
+            disabled={page >= pageCount - 1}
+            className="border-slate-600 text-slate-300 hover:bg-slate-700/50"
+            data-testid="button-next-page"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
       {/* Lead Form Modal */}
       {showLeadForm && (
         <LeadForm
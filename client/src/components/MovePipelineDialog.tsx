@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { usePipelines, usePipelineStages } from "@/hooks/usePipelineStages";
+import { stageLabel } from "@/lib/stages";
+import type { Lead } from "@shared/schema";
+
+interface MovePipelineDialogProps {
+  leads: Pick<Lead, "id" | "status" | "pipelineId">[];
+  onClose: () => void;
+  onMoved?: () => void;
+}
+
+// Moves leads to another pipeline, asking which target stage each of their current stages maps to
+export default function MovePipelineDialog({ leads, onClose, onMoved }: MovePipelineDialogProps) {
+  const { pipelines } = usePipelines();
+  const { allStages } = usePipelineStages();
+  const sourcePipelineIds = new Set(leads.map(lead => lead.pipelineId));
+  const targets = pipelines.filter(pipeline => !(sourcePipelineIds.size === 1 && sourcePipelineIds.has(pipeline.id)));
+
+  const [pipelineId, setPipelineId] = useState<number | null>(null);
+  const [stageMapping, setStageMapping] = useState<Record<string, string>>({});
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const targetStages = allStages.filter(stage => stage.pipelineId === pipelineId);
+  const sourceStatuses = Array.from(new Set(leads.map(lead => lead.status)));
+
+  // Same key in the target pipeline, else its first open stage (what the server does for unmapped stages)
+  const defaultTarget = (status: string) =>
+    targetStages.find(stage => stage.key === status)?.key
+      ?? (targetStages.find(stage => stage.type === "open") || targetStages[0])?.key
+      ?? "";
+
+  const moveMutation = useMutation({
+    mutationFn: async () => {
+      const mapping = Object.fromEntries(sourceStatuses.map(status => [status, stageMapping[status] || defaultTarget(status)]));
+      return await apiRequest("POST", "/api/leads/move-pipeline", {
+        leadIds: leads.map(lead => lead.id),
+        pipelineId,
+        stageMapping: mapping,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+      toast({
+        title: "Success",
+        description: `${leads.length === 1 ? "Lead" : `${leads.length} leads`} moved to ${pipelines.find(p => p.id === pipelineId)?.name}`,
+      });
+      onMoved?.();
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to move leads"),
+      });
+    },
+  });
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="bg-slate-900 border-slate-700 text-white">
+        <DialogHeader>
+          <DialogTitle>Move to another pipeline</DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Choose the pipeline and the stage each lead should land in. Stage changes are recorded in the lead's history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label className="text-slate-300 text-sm">Pipeline</Label>
+            <Select
+              value={pipelineId ? String(pipelineId) : undefined}
+              onValueChange={(value) => {
+                setPipelineId(parseInt(value));
+                setStageMapping({});
+              }}
+            >
+              <SelectTrigger className="bg-slate-800 border-slate-700 text-white" data-testid="select-target-pipeline">
+                <SelectValue placeholder="Select a pipeline" />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-800 border-slate-700">
+                {targets.map((pipeline) => (
+                  <SelectItem key={pipeline.id} value={String(pipeline.id)}>{pipeline.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {pipelineId && sourceStatuses.map((status) => (
+            <div key={status} className="grid grid-cols-2 items-center gap-3">
+              <span className="text-sm text-slate-300">
+                {stageLabel(allStages, status, leads.find(lead => lead.status === status)?.pipelineId)} →
+              </span>
+              <Select
+                value={stageMapping[status] || defaultTarget(status)}
+                onValueChange={(value) => setStageMapping(prev => ({ ...prev, [status]: value }))}
+              >
+                <SelectTrigger className="bg-slate-800 border-slate-700 text-white" data-testid={`select-stage-mapping-${status}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {targetStages.map((stage) => (
+                    <SelectItem key={stage.key} value={stage.key}>{stage.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose} className="border-slate-600 text-slate-300">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => moveMutation.mutate()}
+            disabled={!pipelineId || moveMutation.isPending}
+            className="bg-indigo-600 hover:bg-indigo-700"
+            data-testid="button-confirm-move-pipeline"
+          >
+            {moveMutation.isPending ? "Moving..." : "Move"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
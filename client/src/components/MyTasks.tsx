@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import TaskForm from "./TaskForm";
+import TaskList from "./TaskList";
+import { Plus } from "lucide-react";
+import type { TaskWithDetails } from "@shared/schema";
+
+type TaskView = "open" | "completed" | "all";
+
+export default function MyTasks() {
+  const [view, setView] = useState<TaskView>("open");
+  const [showForm, setShowForm] = useState(false);
+
+  const { data: tasks = [], isLoading } = useQuery<TaskWithDetails[]>({
+    queryKey: ["/api/tasks", "mine", view],
+    queryFn: async () => {
+      const params = new URLSearchParams({ mine: "true" });
+      if (view !== "all") params.set("completed", String(view === "completed"));
+      const response = await fetch(`/api/tasks?${params.toString()}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("Failed to fetch tasks");
+      }
+      return response.json();
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-slate-700 rounded w-1/4 mb-4"></div>
+          <div className="h-32 bg-slate-800/30 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h2 className="text-lg sm:text-xl font-bold text-white">My Tasks</h2>
+          <p className="text-slate-400 mt-1">To-dos assigned to you, soonest due first.</p>
+        </div>
+        <div className="flex gap-3">
+          <Select value={view} onValueChange={(value) => setView(value as TaskView)}>
+            <SelectTrigger className="w-36 bg-slate-800/50 border-slate-700 text-white" data-testid="select-task-view">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-700">
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="completed">Completed</SelectItem>
+              <SelectItem value="all">All tasks</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => setShowForm(true)}
+            className="bg-indigo-600 hover:bg-indigo-700"
+            data-testid="button-add-task"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Task
+          </Button>
+        </div>
+      </div>
+
+      <div className="bg-slate-800/30 rounded-lg border border-slate-700/50 p-4">
+        <TaskList
+          tasks={tasks}
+          showLead
+          emptyMessage={view === "completed" ? "No completed tasks yet." : "Nothing to do. Tasks assigned to you will show up here."}
+        />
+      </div>
+
+      {showForm && <TaskForm onClose={() => setShowForm(false)} />}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { Bell, CheckCheck, Mail, MailOpen, UserPlus, Wrench, AlertTriangle, AlarmClock } from "lucide-react";
+import type { Notification, NotificationEvent } from "@shared/schema";
+
+// New notifications are picked up on this interval
+const POLL_INTERVAL_MS = 60 * 1000;
+
+const eventIcon: Record<NotificationEvent, JSX.Element> = {
+  lead_assigned: <UserPlus className="h-4 w-4 text-blue-400" />,
+  engineer_assigned: <Wrench className="h-4 w-4 text-green-400" />,
+  urgent_interaction: <AlertTriangle className="h-4 w-4 text-red-400" />,
+  follow_up_overdue: <AlarmClock className="h-4 w-4 text-orange-400" />,
+};
+
+export default function NotificationBell() {
+  const [open, setOpen] = useState(false);
+  const [, setLocation] = useLocation();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data } = useQuery<{ notifications: Notification[]; unreadCount: number }>({
+    queryKey: ["/api/notifications"],
+    refetchInterval: POLL_INTERVAL_MS,
+  });
+  const notifications = data?.notifications ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const readMutation = useMutation({
+    mutationFn: async ({ id, read }: { id: number; read: boolean }) => {
+      return await apiRequest("POST", `/api/notifications/${id}/${read ? "read" : "unread"}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to update notification") });
+    },
+  });
+
+  const readAllMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/notifications/read-all");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to mark notifications read") });
+    },
+  });
+
+  // Opening a notification reads it and shows its lead
+  const handleOpen = (notification: Notification) => {
+    if (!notification.readAt) readMutation.mutate({ id: notification.id, read: true });
+    if (notification.leadId !== null) {
+      setOpen(false);
+      setLocation(`/leads/${notification.leadId}`);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="relative p-2 hover:bg-slate-700/50"
+          title="Notifications"
+          data-testid="button-notifications"
+        >
+          <Bell className="h-4 w-4 sm:h-5 sm:w-5 text-slate-300" />
+          {unreadCount > 0 && (
+            <span
+              className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold flex items-center justify-center"
+              data-testid="text-unread-notifications"
+            >
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 sm:w-96 p-0 bg-slate-900 border-slate-700 text-slate-100">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-700">
+          <h3 className="font-medium text-white">Notifications</h3>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => readAllMutation.mutate()}
+              disabled={readAllMutation.isPending}
+              className="h-7 text-slate-400 hover:text-slate-200"
+              data-testid="button-mark-all-notifications-read"
+            >
+              <CheckCheck className="h-4 w-4 mr-1" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.length === 0 ? (
+            <div className="text-center py-8">
+              <Bell className="h-8 w-8 text-slate-500 mx-auto mb-2" />
+              <p className="text-sm text-slate-400">No notifications</p>
+            </div>
+          ) : (
+            notifications.map(notification => (
+              <div
+                key={notification.id}
+                className={`flex items-start gap-3 px-4 py-3 border-b border-slate-800 last:border-0 ${
+                  notification.readAt ? "" : "bg-slate-800/50"
+                } ${notification.leadId !== null ? "cursor-pointer hover:bg-slate-800" : ""}`}
+                onClick={() => handleOpen(notification)}
+                data-testid={`notification-${notification.id}`}
+              >
+                <div className="flex-shrink-0 mt-0.5">{eventIcon[notification.event]}</div>
+                <div className="flex-1 min-w-0">
+                  <p className={`text-sm font-medium ${notification.readAt ? "text-slate-300" : "text-white"}`}>{notification.title}</p>
+                  <p className="text-xs text-slate-400 mt-0.5 break-words">{notification.message}</p>
+                  <p className="text-xs text-slate-500 mt-1">
+                    {new Date(notification.createdAt).toLocaleString([], { dateStyle: "medium", timeStyle: "short" })}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    readMutation.mutate({ id: notification.id, read: !notification.readAt });
+                  }}
+                  className="h-7 w-7 p-0 text-slate-400 hover:text-white"
+                  title={notification.readAt ? "Mark as unread" : "Mark as read"}
+                  data-testid={`button-toggle-read-notification-${notification.id}`}
+                >
+                  {notification.readAt ? <Mail className="h-3.5 w-3.5" /> : <MailOpen className="h-3.5 w-3.5" />}
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
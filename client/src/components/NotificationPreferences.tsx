@@ -0,0 +1,59 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { NOTIFICATION_EVENTS, type NotificationEvent, type NotificationPreferences as Preferences } from "@shared/schema";
+
+const eventLabels: Record<NotificationEvent, { label: string; description: string }> = {
+  lead_assigned: { label: "Lead assigned", description: "Someone assigns a lead to you" },
+  engineer_assigned: { label: "Engineer assigned", description: "You become the engineer on a lead" },
+  urgent_interaction: { label: "Urgent interactions", description: "An urgent interaction is logged on one of your leads" },
+  follow_up_overdue: { label: "Overdue follow-ups", description: "A follow-up on one of your leads goes overdue" },
+};
+
+// Which events the current user gets notified about
+export default function NotificationPreferences() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: preferences, isLoading } = useQuery<Preferences>({
+    queryKey: ["/api/notifications/preferences"],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (changes: Partial<Preferences>) => {
+      return await apiRequest("PUT", "/api/notifications/preferences", changes);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications/preferences"] });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to update notification preferences") });
+    },
+  });
+
+  if (isLoading || !preferences) {
+    return <div className="h-24 bg-slate-700/30 rounded animate-pulse"></div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {NOTIFICATION_EVENTS.map(event => (
+        <div key={event} className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor={`notification-${event}`} className="text-slate-200">{eventLabels[event].label}</Label>
+            <p className="text-xs text-slate-400">{eventLabels[event].description}</p>
+          </div>
+          <Switch
+            id={`notification-${event}`}
+            checked={preferences[event]}
+            onCheckedChange={(checked) => updateMutation.mutate({ [event]: checked })}
+            disabled={updateMutation.isPending}
+            data-testid={`switch-notification-${event}`}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,432 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { usePipelines, usePipelineStages, usePipelineAnalytics } from "@/hooks/usePipelineStages";
+import { stageDotClass } from "@/lib/stages";
+import { Plus, Trash2, Save, Kanban, Pencil } from "lucide-react";
+import { STAGE_COLORS, STAGE_TYPES } from "@shared/schema";
+import type { PipelineStage, StageColor, StageType } from "@shared/schema";
+
+type StageDraft = Pick<PipelineStage, "name" | "color" | "type" | "winProbability">;
+
+const stageTypeLabels: Record<StageType, string> = {
+  open: "Open",
+  won: "Won",
+  lost: "Lost",
+};
+
+function StageFields({ draft, onChange }: { draft: StageDraft; onChange: (draft: StageDraft) => void }) {
+  return (
+    <>
+      <Input
+        value={draft.name}
+        onChange={(e) => onChange({ ...draft, name: e.target.value })}
+        placeholder="Stage name"
+        className="bg-slate-900 border-slate-700 text-white flex-1 min-w-[140px]"
+        data-testid="input-stage-name"
+      />
+      <Select value={draft.color} onValueChange={(value) => onChange({ ...draft, color: value as StageColor })}>
+        <SelectTrigger className="w-32 bg-slate-900 border-slate-700 text-white" data-testid="select-stage-color">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-slate-800 border-slate-700">
+          {STAGE_COLORS.map((color) => (
+            <SelectItem key={color} value={color}>
+              <span className="flex items-center gap-2 capitalize">
+                <span className={`w-3 h-3 rounded-full ${stageDotClass({ color })}`}></span>
+                {color}
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={draft.type} onValueChange={(value) => onChange({ ...draft, type: value as StageType })}>
+        <SelectTrigger className="w-28 bg-slate-900 border-slate-700 text-white" data-testid="select-stage-type">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-slate-800 border-slate-700">
+          {STAGE_TYPES.map((type) => (
+            <SelectItem key={type} value={type}>{stageTypeLabels[type]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="flex items-center gap-1">
+        <Input
+          type="number"
+          min={0}
+          max={100}
+          value={draft.winProbability}
+          onChange={(e) => onChange({ ...draft, winProbability: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) })}
+          className="w-20 bg-slate-900 border-slate-700 text-white"
+          title="Default win probability"
+          data-testid="input-stage-probability"
+        />
+        <span className="text-slate-400 text-sm">%</span>
+      </div>
+    </>
+  );
+}
+
+export default function PipelineStageSettings() {
+  const { pipelines } = usePipelines();
+  const [selectedPipelineId, setSelectedPipelineId] = useState<number | null>(null);
+  const pipelineId = selectedPipelineId ?? pipelines[0]?.id;
+  const pipeline = pipelines.find(p => p.id === pipelineId);
+  const [pipelineName, setPipelineName] = useState<string | null>(null);
+  const [newPipelineName, setNewPipelineName] = useState("");
+
+  const { stages, isLoading } = usePipelineStages(pipelineId);
+  const [drafts, setDrafts] = useState<Record<number, StageDraft>>({});
+  const [newStage, setNewStage] = useState<StageDraft>({ name: "", color: "indigo", type: "open", winProbability: 50 });
+  const [deletingStage, setDeletingStage] = useState<PipelineStage | null>(null);
+  const [moveTo, setMoveTo] = useState("");
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // Lead counts per stage tell the admin whether deleting a stage needs a destination
+  const { data: analytics } = usePipelineAnalytics(pipelineId);
+  const leadCount = (key: string) => analytics?.leadsByStatus?.find(s => s.status === key)?.count || 0;
+
+  const invalidateStages = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/pipeline-stages"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+  };
+
+  const createPipelineMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest("POST", "/api/pipelines", { name });
+      return await response.json();
+    },
+    onSuccess: (created: { id: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pipelines"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pipeline-stages"] });
+      setSelectedPipelineId(created.id);
+      setNewPipelineName("");
+      toast({ title: "Success", description: "Pipeline created with the standard stages" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to create pipeline") });
+    },
+  });
+
+  const renamePipelineMutation = useMutation({
+    mutationFn: async (name: string) => {
+      return await apiRequest("PUT", `/api/pipelines/${pipelineId}`, { name });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pipelines"] });
+      setPipelineName(null);
+      toast({ title: "Success", description: "Pipeline renamed" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to rename pipeline") });
+    },
+  });
+
+  const deletePipelineMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/pipelines/${pipelineId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pipelines"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pipeline-stages"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      setSelectedPipelineId(null);
+      toast({ title: "Success", description: "Pipeline deleted" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to delete pipeline") });
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (stage: StageDraft) => {
+      return await apiRequest("POST", "/api/pipeline-stages", { ...stage, pipelineId });
+    },
+    onSuccess: () => {
+      invalidateStages();
+      setNewStage({ name: "", color: "indigo", type: "open", winProbability: 50 });
+      toast({ title: "Success", description: "Stage added" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to add stage") });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, stage }: { id: number; stage: StageDraft }) => {
+      return await apiRequest("PUT", `/api/pipeline-stages/${id}`, stage);
+    },
+    onSuccess: (_, { id }) => {
+      invalidateStages();
+      setDrafts(prev => {
+        const { [id]: _saved, ...rest } = prev;
+        return rest;
+      });
+      toast({ title: "Success", description: "Stage updated" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to update stage") });
+    },
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (stageIds: number[]) => {
+      await apiRequest("POST", "/api/pipeline-stages/reorder", { stageIds });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pipeline-stages"] });
+    },
+    onError: () => {
+      toast({ variant: "destructive", title: "Error", description: "Failed to reorder stages" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async ({ id, moveTo }: { id: number; moveTo?: string }) => {
+      await apiRequest("DELETE", `/api/pipeline-stages/${id}${moveTo ? `?moveTo=${encodeURIComponent(moveTo)}` : ""}`);
+    },
+    onSuccess: () => {
+      invalidateStages();
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      setDeletingStage(null);
+      setMoveTo("");
+      toast({ title: "Success", description: "Stage deleted" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to delete stage") });
+    },
+  });
+
+  const handleReorder = (stageId: number, direction: "up" | "down") => {
+    const ordered = [...stages];
+    const currentIndex = ordered.findIndex(s => s.id === stageId);
+    const newIndex = direction === "up" ? currentIndex - 1 : currentIndex + 1;
+    if (currentIndex === -1 || newIndex < 0 || newIndex >= ordered.length) return;
+
+    [ordered[currentIndex], ordered[newIndex]] = [ordered[newIndex], ordered[currentIndex]];
+    reorderMutation.mutate(ordered.map(s => s.id));
+  };
+
+  const draftFor = (stage: PipelineStage): StageDraft =>
+    drafts[stage.id] || { name: stage.name, color: stage.color, type: stage.type, winProbability: stage.winProbability };
+
+  const deletingCount = deletingStage ? leadCount(deletingStage.key) : 0;
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div>
+        <h3 className="text-lg sm:text-xl font-semibold text-white">Pipelines</h3>
+        <p className="text-slate-400 text-sm sm:text-base">
+          Each pipeline has its own stages. Rename, reorder and colour the stages leads move through. Won and lost stages close a deal; win probabilities weight the pipeline value.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={pipelineId ? String(pipelineId) : undefined}
+          onValueChange={(value) => {
+            setSelectedPipelineId(parseInt(value));
+            setPipelineName(null);
+            setDrafts({});
+          }}
+        >
+          <SelectTrigger className="w-56 bg-slate-900 border-slate-700 text-white" data-testid="select-settings-pipeline">
+            <SelectValue placeholder="Select pipeline" />
+          </SelectTrigger>
+          <SelectContent className="bg-slate-800 border-slate-700">
+            {pipelines.map((p) => (
+              <SelectItem key={p.id} value={String(p.id)}>{p.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {pipeline && pipelineName === null && (
+          <Button size="sm" variant="ghost" onClick={() => setPipelineName(pipeline.name)} className="text-slate-400" title="Rename pipeline">
+            <Pencil className="h-4 w-4" />
+          </Button>
+        )}
+        {pipelineName !== null && (
+          <>
+            <Input
+              value={pipelineName}
+              onChange={(e) => setPipelineName(e.target.value)}
+              className="w-56 bg-slate-900 border-slate-700 text-white"
+              data-testid="input-pipeline-name"
+            />
+            <Button
+              size="sm"
+              onClick={() => renamePipelineMutation.mutate(pipelineName.trim())}
+              disabled={!pipelineName.trim() || renamePipelineMutation.isPending}
+              className="bg-indigo-600 hover:bg-indigo-700"
+            >
+              <Save className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+        {pipelines.length > 1 && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => {
+              if (confirm(`Delete the "${pipeline?.name}" pipeline and its stages?`)) deletePipelineMutation.mutate();
+            }}
+            disabled={deletePipelineMutation.isPending}
+            className="border-red-600/50 text-red-400 hover:bg-red-600/20"
+            data-testid="button-delete-pipeline"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+        <div className="flex items-center gap-2 sm:ml-auto">
+          <Input
+            value={newPipelineName}
+            onChange={(e) => setNewPipelineName(e.target.value)}
+            placeholder="New pipeline name"
+            className="w-48 bg-slate-900 border-slate-700 text-white"
+            data-testid="input-new-pipeline"
+          />
+          <Button
+            size="sm"
+            onClick={() => createPipelineMutation.mutate(newPipelineName.trim())}
+            disabled={!newPipelineName.trim() || createPipelineMutation.isPending}
+            className="bg-indigo-600 hover:bg-indigo-700"
+            data-testid="button-add-pipeline"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Pipeline
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500 mx-auto mb-4"></div>
+          <p className="text-slate-400">Loading stages...</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {stages.map((stage, index) => {
+            const draft = draftFor(stage);
+            const isDirty = Boolean(drafts[stage.id]);
+            return (
+              <div
+                key={stage.id}
+                className="flex flex-wrap items-center gap-2 p-3 bg-slate-800/50 border border-slate-700/30 rounded-lg"
+                data-testid={`stage-item-${stage.key}`}
+              >
+                <div className="flex flex-col">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleReorder(stage.id, "up")}
+                    disabled={index === 0 || reorderMutation.isPending}
+                    className="p-1 h-5 w-6 text-xs text-slate-400 hover:text-slate-300"
+                    title="Move up"
+                  >
+                    ↑
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleReorder(stage.id, "down")}
+                    disabled={index === stages.length - 1 || reorderMutation.isPending}
+                    className="p-1 h-5 w-6 text-xs text-slate-400 hover:text-slate-300"
+                    title="Move down"
+                  >
+                    ↓
+                  </Button>
+                </div>
+                <StageFields draft={draft} onChange={(next) => setDrafts(prev => ({ ...prev, [stage.id]: next }))} />
+                <Badge variant="secondary" className="bg-slate-600 text-slate-300" title="Leads in this stage">
+                  {leadCount(stage.key)}
+                </Badge>
+                <Button
+                  size="sm"
+                  onClick={() => updateMutation.mutate({ id: stage.id, stage: draft })}
+                  disabled={!isDirty || !draft.name.trim() || updateMutation.isPending}
+                  className="bg-indigo-600 hover:bg-indigo-700"
+                  data-testid={`button-save-stage-${stage.key}`}
+                >
+                  <Save className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setDeletingStage(stage)}
+                  className="border-red-600/50 text-red-400 hover:bg-red-600/20"
+                  data-testid={`button-delete-stage-${stage.key}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+
+          <div className="flex flex-wrap items-center gap-2 p-3 border border-dashed border-slate-700 rounded-lg">
+            <Kanban className="h-4 w-4 text-slate-400" />
+            <StageFields draft={newStage} onChange={setNewStage} />
+            <Button
+              size="sm"
+              onClick={() => createMutation.mutate({ ...newStage, name: newStage.name.trim() })}
+              disabled={!newStage.name.trim() || createMutation.isPending}
+              className="bg-indigo-600 hover:bg-indigo-700"
+              data-testid="button-add-stage"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Stage
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={!!deletingStage} onOpenChange={(open) => { if (!open) { setDeletingStage(null); setMoveTo(""); } }}>
+        <DialogContent className="bg-slate-900 border-slate-700 text-white">
+          <DialogHeader>
+            <DialogTitle>Delete "{deletingStage?.name}"?</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              {deletingCount > 0
+                ? `${deletingCount} lead(s) are in this stage. Choose where to move them; the move is recorded in each lead's stage history.`
+                : "No leads are in this stage."}
+            </DialogDescription>
+          </DialogHeader>
+          {deletingCount > 0 && (
+            <div className="space-y-2">
+              <Label className="text-slate-300 text-sm">Move leads to</Label>
+              <Select value={moveTo} onValueChange={setMoveTo}>
+                <SelectTrigger className="bg-slate-800 border-slate-700 text-white" data-testid="select-move-leads-to">
+                  <SelectValue placeholder="Select a stage" />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {stages.filter(s => s.id !== deletingStage?.id).map((s) => (
+                    <SelectItem key={s.key} value={s.key}>{s.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => { setDeletingStage(null); setMoveTo(""); }} className="border-slate-600 text-slate-300">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => deletingStage && deleteMutation.mutate({ id: deletingStage.id, moveTo: moveTo || undefined })}
+              disabled={(deletingCount > 0 && !moveTo) || deleteMutation.isPending}
+              className="bg-red-600 hover:bg-red-700"
+              data-testid="button-confirm-delete-stage"
+            >
+              Delete Stage
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -3,10 +3,15 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { useTags } from "@/hooks/useTags";
+import { useCurrencySettings } from "@/hooks/useCurrencySettings";
 import { apiRequest } from "@/lib/queryClient";
+import { tagBadgeClass } from "@/lib/tags";
+import { formatProductPrice, pricingModelLabels } from "@/lib/currency";
 import { 
   Plus, 
   Edit, 
@@ -26,6 +31,7 @@ import {
   Trash2
 } from "lucide-react";
 import ProductForm from "./ProductForm";
+import { convertAmount } from "@shared/schema";
 import type { Product } from "@shared/schema";
 import Papa from "papaparse";
 
@@ -50,11 +56,16 @@ const profitColors = {
   "Low Margin": "bg-slate-500/20 text-slate-400",
 };
 
+type ProductSort = "order" | "price-asc" | "price-desc";
+
 export default function ProductCatalog() {
   const [showProductForm, setShowProductForm] = useState(false);
+  const [sortBy, setSortBy] = useState<ProductSort>("order");
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [viewingProduct, setViewingProduct] = useState<Product | null>(null);
   const { user } = useAuth();
+  const { getTag } = useTags();
+  const { settings: currencySettings } = useCurrencySettings();
   const queryClient = useQueryClient();
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -87,6 +98,10 @@ export default function ProductCatalog() {
     const csv = Papa.unparse(
       products.map(product => ({
         name: product.name,
+        priceAmount: product.priceAmount ?? '',
+        currency: product.currency,
+        pricingModel: product.pricingModel,
+        setupFee: product.setupFee ?? '',
         price: product.price || '',
         pitch: product.pitch || '',
         talkingPoints: product.talkingPoints || '',
@@ -239,6 +254,18 @@ export default function ProductCatalog() {
 
   const isAdmin = ((user as any)?.user?.role || user?.role) === "admin";
 
+  // Prices in other currencies are compared in the base currency; quote-only products sort last
+  const comparablePrice = (product: Product) => product.priceAmount === null || product.pricingModel === "quote"
+    ? null
+    : convertAmount(product.priceAmount, product.currency, currencySettings.baseCurrency, currencySettings);
+  const sortedProducts = [...products].sort((a, b) => {
+    if (sortBy === "order") return (a.displayOrder || 0) - (b.displayOrder || 0);
+    const priceA = comparablePrice(a);
+    const priceB = comparablePrice(b);
+    if (priceA === null || priceB === null) return (priceA === null ? 1 : 0) - (priceB === null ? 1 : 0);
+    return sortBy === "price-asc" ? priceA - priceB : priceB - priceA;
+  });
+
   // Export products to CSV
   const exportProducts = async () => {
     if (products.length === 0) {
@@ -323,6 +350,17 @@ export default function ProductCatalog() {
           <p className="text-slate-400 mt-1 text-sm sm:text-base">AI Service offerings and sales guidance</p>
         </div>
         <div className="flex flex-col sm:flex-row items-stretch sm:items-center space-y-2 sm:space-y-0 sm:space-x-3">
+          <Select value={sortBy} onValueChange={(value) => setSortBy(value as ProductSort)}>
+            <SelectTrigger className="sm:w-44 bg-slate-800/50 border-slate-700" data-testid="select-product-sort">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-700">
+              <SelectItem value="order">Display order</SelectItem>
+              <SelectItem value="price-asc">Price: low to high</SelectItem>
+              <SelectItem value="price-desc">Price: high to low</SelectItem>
+            </SelectContent>
+          </Select>
+
           {/* Export Button - Available to all users */}
           <Button
             variant="outline"
@@ -375,7 +413,7 @@ export default function ProductCatalog() {
 
       {/* Product Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {[...products].sort((a, b) => (a.displayOrder || 0) - (b.displayOrder || 0)).map((product: Product) => {
+        {sortedProducts.map((product: Product) => {
           const Icon = getProductIcon(product.name);
           
           return (
@@ -403,8 +441,9 @@ export default function ProductCatalog() {
                   </div>
                   <div className="text-right">
                     <p className="text-lg font-bold text-emerald-400" data-testid={`text-product-price-${product.id}`}>
-                      {product.price}
+                      {formatProductPrice(product)}
                     </p>
+                    {product.price && <p className="text-xs text-slate-400 mb-1">{product.price}</p>}
                     <Badge className={profitColors[product.profitLevel as keyof typeof profitColors]}>
                       {product.profitLevel}
                     </Badge>
@@ -443,8 +482,7 @@ export default function ProductCatalog() {
                     {product.tags.map((tag, index) => (
                       <Badge
                         key={index}
-                        variant="secondary"
-                        className="text-xs bg-slate-700/50 text-slate-300"
+                        className={`${tagBadgeClass(getTag(tag))} border text-xs`}
                         data-testid={`badge-tag-${product.id}-${index}`}
                       >
                         {tag}
@@ -502,7 +540,7 @@ export default function ProductCatalog() {
                           e.stopPropagation();
                           handleReorder(product.id, 'up');
                         }}
-                        disabled={reorderMutation.isPending}
+                        disabled={reorderMutation.isPending || sortBy !== "order"}
                         className="p-1 h-6 w-6 text-xs text-slate-400 hover:text-slate-300"
                         data-testid={`button-reorder-up-${product.id}`}
                         title="Move up"
@@ -516,7 +554,7 @@ export default function ProductCatalog() {
                           e.stopPropagation();
                           handleReorder(product.id, 'down');
                         }}
-                        disabled={reorderMutation.isPending}
+                        disabled={reorderMutation.isPending || sortBy !== "order"}
                         className="p-1 h-6 w-6 text-xs text-slate-400 hover:text-slate-300"
                         data-testid={`button-reorder-down-${product.id}`}
                         title="Move down"
@@ -601,9 +639,12 @@ export default function ProductCatalog() {
                       </div>
                     </div>
                     <div className="text-left sm:text-right flex-shrink-0">
-                      <div className="text-2xl sm:text-3xl font-bold text-emerald-400 mb-2">
-                        {viewingProduct.price}
+                      <div className="text-2xl sm:text-3xl font-bold text-emerald-400 mb-1">
+                        {formatProductPrice(viewingProduct)}
                       </div>
+                      <p className="text-xs sm:text-sm text-slate-400 mb-2">
+                        {[pricingModelLabels[viewingProduct.pricingModel], viewingProduct.price].filter(Boolean).join(" · ")}
+                      </p>
                       <Badge className={`${profitColors[viewingProduct.profitLevel as keyof typeof profitColors] || 'bg-slate-500/20 text-slate-400'} text-xs sm:text-sm px-2 sm:px-3 py-1 font-medium`}>
                         {viewingProduct.profitLevel}
                       </Badge>
@@ -668,7 +709,7 @@ export default function ProductCatalog() {
                       {viewingProduct.tags.map((tag, index) => (
                         <Badge
                           key={index}
-                          className="bg-slate-700/50 text-slate-300 border border-slate-600/50 px-2 sm:px-3 py-1 sm:py-1.5 text-xs sm:text-sm"
+                          className={`${tagBadgeClass(getTag(tag))} border px-2 sm:px-3 py-1 sm:py-1.5 text-xs sm:text-sm`}
                         >
                           {tag}
                         </Badge>
@@ -7,8 +7,13 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import type { Product, InsertProduct } from "@shared/schema";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { usePipelines } from "@/hooks/usePipelineStages";
+import { useCurrencySettings } from "@/hooks/useCurrencySettings";
+import { pricingModelLabels } from "@/lib/currency";
+import TagInput from "./TagInput";
+import { COMMON_CURRENCIES, PRICING_MODELS } from "@shared/schema";
+import type { Product, InsertProduct, PricingModel } from "@shared/schema";
 
 interface ProductFormProps {
   product?: Product | null;
@@ -16,8 +21,12 @@ interface ProductFormProps {
 }
 
 export default function ProductForm({ product, onClose }: ProductFormProps) {
-  const [formData, setFormData] = useState<Partial<InsertProduct> & { tagsInput?: string }>({
+  const [formData, setFormData] = useState<Partial<InsertProduct>>({
     name: product?.name || "",
+    priceAmount: product?.priceAmount ?? null,
+    currency: product?.currency,
+    pricingModel: product?.pricingModel || "fixed",
+    setupFee: product?.setupFee ?? null,
     price: product?.price || "",
     pitch: product?.pitch || "",
     talkingPoints: product?.talkingPoints || "",
@@ -25,10 +34,15 @@ export default function ProductForm({ product, onClose }: ProductFormProps) {
     priority: product?.priority || "Medium",
     profitLevel: product?.profitLevel || "Standard",
     tags: product?.tags || [],
-    tagsInput: product?.tags?.join(", ") || "",
     displayOrder: product?.displayOrder || 0,
     isActive: product?.isActive ?? true,
+    defaultPipelineId: product?.defaultPipelineId ?? null,
   });
+  const { pipelines } = usePipelines();
+  const { baseCurrency } = useCurrencySettings();
+  // New products are priced in the base currency until another is picked
+  const currency = formData.currency ?? baseCurrency;
+  const currencyOptions = COMMON_CURRENCIES.includes(currency) ? COMMON_CURRENCIES : [currency, ...COMMON_CURRENCIES];
 
   const queryClient = useQueryClient();
   const { toast } = useToast();
@@ -43,49 +57,39 @@ export default function ProductForm({ product, onClose }: ProductFormProps) {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
       toast({
         title: "Success",
         description: product ? "Product updated successfully" : "Product created successfully",
       });
       onClose();
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         variant: "destructive",
         title: "Error",
-        description: `Failed to ${product ? "update" : "create"} product`,
+        description: apiErrorMessage(error, `Failed to ${product ? "update" : "create"} product`),
       });
     },
   });
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    // Remove tagsInput from the data sent to the server
-    const { tagsInput, ...submitData } = formData;
-    mutation.mutate(submitData);
+    mutation.mutate({
+      ...formData,
+      currency,
+      priceAmount: formData.pricingModel === "quote" ? null : formData.priceAmount,
+      price: formData.price?.trim() || null,
+    });
   };
 
   const handleChange = (field: keyof InsertProduct, value: any) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
-  const handleTagsChange = (value: string) => {
-    // Store the raw input value to allow proper editing
-    const processedTags = value
-      .split(',')
-      .map(tag => tag.trim())
-      .filter(tag => tag.length > 0);
-    
-    setFormData(prev => ({ 
-      ...prev, 
-      tagsInput: value,
-      tags: processedTags
-    }));
-  };
-
   return (
     <Dialog open onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-[600px] bg-slate-800 border-slate-700">
+      <DialogContent className="sm:max-w-[600px] bg-slate-800 border-slate-700 max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="text-slate-100">
             {product ? "Edit Product" : "Add New Product"}
@@ -107,16 +111,17 @@ export default function ProductForm({ product, onClose }: ProductFormProps) {
             </div>
 
             <div>
-              <Label htmlFor="price" className="text-slate-300">Price *</Label>
-              <Input
-                id="price"
-                value={formData.price}
-                onChange={(e) => handleChange("price", e.target.value)}
-                placeholder="e.g., $5,000 - $15,000"
-                className="mt-1 bg-slate-800/50 border-slate-700"
-                required
-                data-testid="input-price"
-              />
+              <Label htmlFor="pricingModel" className="text-slate-300">Pricing Model</Label>
+              <Select value={formData.pricingModel} onValueChange={(value) => handleChange("pricingModel", value as PricingModel)}>
+                <SelectTrigger className="mt-1 bg-slate-800/50 border-slate-700" data-testid="select-pricing-model">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {PRICING_MODELS.map(model => (
+                    <SelectItem key={model} value={model}>{pricingModelLabels[model]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
 
             <div>
@@ -148,6 +153,89 @@ export default function ProductForm({ product, onClose }: ProductFormProps) {
             </div>
           </div>
 
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="priceAmount" className="text-slate-300">
+                Price{formData.pricingModel === "quote" ? "" : " *"}
+              </Label>
+              <Input
+                id="priceAmount"
+                type="number"
+                min={0}
+                step="0.01"
+                value={formData.pricingModel === "quote" ? "" : formData.priceAmount ?? ""}
+                onChange={(e) => handleChange("priceAmount", e.target.value === "" ? null : parseFloat(e.target.value))}
+                disabled={formData.pricingModel === "quote"}
+                placeholder={formData.pricingModel === "quote" ? "Priced per quote" : "0.00"}
+                className="mt-1 bg-slate-800/50 border-slate-700"
+                required={formData.pricingModel !== "quote"}
+                data-testid="input-price-amount"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="currency" className="text-slate-300">Currency</Label>
+              <Select value={currency} onValueChange={(value) => handleChange("currency", value)}>
+                <SelectTrigger className="mt-1 bg-slate-800/50 border-slate-700" data-testid="select-currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {currencyOptions.map(code => (
+                    <SelectItem key={code} value={code}>{code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="setupFee" className="text-slate-300">Setup Fee</Label>
+              <Input
+                id="setupFee"
+                type="number"
+                min={0}
+                step="0.01"
+                value={formData.setupFee ?? ""}
+                onChange={(e) => handleChange("setupFee", e.target.value === "" ? null : parseFloat(e.target.value))}
+                placeholder="None"
+                className="mt-1 bg-slate-800/50 border-slate-700"
+                data-testid="input-setup-fee"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="price" className="text-slate-300">Price Note</Label>
+            <Input
+              id="price"
+              value={formData.price || ""}
+              onChange={(e) => handleChange("price", e.target.value)}
+              placeholder="e.g., Volume discounts from 50 seats"
+              className="mt-1 bg-slate-800/50 border-slate-700"
+              data-testid="input-price"
+            />
+          </div>
+
+          {pipelines.length > 1 && (
+            <div>
+              <Label htmlFor="defaultPipeline" className="text-slate-300">Default Pipeline</Label>
+              <Select
+                value={formData.defaultPipelineId ? String(formData.defaultPipelineId) : "none"}
+                onValueChange={(value) => handleChange("defaultPipelineId", value === "none" ? null : parseInt(value))}
+              >
+                <SelectTrigger className="mt-1 bg-slate-800/50 border-slate-700" data-testid="select-default-pipeline">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  <SelectItem value="none">No preference</SelectItem>
+                  {pipelines.map((pipeline) => (
+                    <SelectItem key={pipeline.id} value={String(pipeline.id)}>{pipeline.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-slate-500 mt-1">New leads interested in this product start in this pipeline</p>
+            </div>
+          )}
+
           <div>
             <Label htmlFor="pitch" className="text-slate-300">Product Pitch</Label>
             <Textarea
@@ -188,15 +276,15 @@ export default function ProductForm({ product, onClose }: ProductFormProps) {
           </div>
 
           <div>
-            <Label htmlFor="tags" className="text-slate-300">Tags</Label>
-            <Input
-              id="tags"
-              value={formData.tagsInput || ""}
-              onChange={(e) => handleTagsChange(e.target.value)}
-              className="mt-1 bg-slate-800/50 border-slate-700"
-              placeholder="AI, Automation, Chatbot (comma separated)"
-              data-testid="input-tags"
-            />
+            <Label className="text-slate-300">Tags</Label>
+            <div className="mt-1">
+              <TagInput
+                value={formData.tags || []}
+                onChange={(tags) => handleChange("tags", tags)}
+                className="bg-slate-800/50 border-slate-700"
+                data-testid="input-tags"
+              />
+            </div>
           </div>
 
           <div className="flex items-center justify-end space-x-3 pt-4">
@@ -0,0 +1,239 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { Plus, Edit, Trash2, Star, Eye, Code } from "lucide-react";
+import { QUOTE_MERGE_FIELDS } from "@shared/schema";
+import type { QuoteTemplate } from "@shared/schema";
+
+// The template being edited; id is null for a new one
+type TemplateDraft = { id: number | null; name: string; body: string };
+
+export default function QuoteTemplateSettings() {
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: templates = [], isLoading } = useQuery<QuoteTemplate[]>({
+    queryKey: ["/api/quote-templates"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, name, body }: TemplateDraft) => {
+      return id === null
+        ? await apiRequest("POST", "/api/quote-templates", { name, body })
+        : await apiRequest("PUT", `/api/quote-templates/${id}`, { name, body });
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quote-templates"] });
+      setDraft(null);
+      toast({ title: "Success", description: id === null ? "Template added" : "Template saved" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to save template") });
+    },
+  });
+
+  const defaultMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest("PUT", `/api/quote-templates/${id}`, { isDefault: true });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quote-templates"] });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to change the default template") });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/quote-templates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quote-templates"] });
+      toast({ title: "Success", description: "Template deleted" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to delete template") });
+    },
+  });
+
+  const openEditor = (template: TemplateDraft) => {
+    setShowPreview(false);
+    setDraft(template);
+  };
+
+  // New templates start as a copy of the default so there is something to edit
+  const defaultTemplate = templates.find(template => template.isDefault) ?? templates[0];
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+        <div>
+          <h3 className="text-lg sm:text-xl font-semibold text-white">Quote Templates</h3>
+          <p className="text-slate-400 text-sm sm:text-base">
+            HTML documents with merge fields, rendered to PDF when an agent creates a quote from a lead. Quotes already made keep the document they were generated with.
+          </p>
+        </div>
+        <Button
+          onClick={() => openEditor({ id: null, name: "", body: defaultTemplate?.body ?? "" })}
+          className="bg-indigo-600 hover:bg-indigo-700 w-full sm:w-auto"
+          data-testid="button-add-quote-template"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          New Template
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500 mx-auto mb-4"></div>
+          <p className="text-slate-400">Loading templates...</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {templates.map(template => (
+            <div
+              key={template.id}
+              className="flex flex-wrap items-center gap-2 p-3 bg-slate-800/50 border border-slate-700/30 rounded-lg"
+              data-testid={`quote-template-${template.id}`}
+            >
+              <span className="text-white font-medium flex-1">{template.name}</span>
+              {template.isDefault ? (
+                <Badge className="bg-indigo-500/20 text-indigo-300 border-indigo-400/30 border text-xs px-2 py-0.5">Default</Badge>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => defaultMutation.mutate(template.id)}
+                  disabled={defaultMutation.isPending}
+                  className="border-slate-600 text-slate-300 hover:bg-slate-700/50"
+                  title="Make default"
+                >
+                  <Star className="h-4 w-4" />
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => openEditor({ id: template.id, name: template.name, body: template.body })}
+                className="border-slate-600 text-slate-300 hover:bg-slate-700/50"
+                title="Edit"
+                data-testid={`button-edit-quote-template-${template.id}`}
+              >
+                <Edit className="h-4 w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  if (confirm(`Delete the "${template.name}" template?`)) deleteMutation.mutate(template.id);
+                }}
+                disabled={templates.length === 1 || deleteMutation.isPending}
+                className="border-red-600/50 text-red-400 hover:bg-red-600/20"
+                title="Delete"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {draft && (
+        <Dialog open={true} onOpenChange={(open) => { if (!open) setDraft(null); }}>
+          <DialogContent className="bg-slate-900 border-slate-700 text-white max-w-4xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{draft.id === null ? "New Quote Template" : `Edit ${draft.name || "Template"}`}</DialogTitle>
+              <DialogDescription className="text-slate-400">
+                Headings, paragraphs, lists, tables, bold and italic text, rules and line breaks carry over to the PDF.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div>
+                <Label className="text-slate-300">Name *</Label>
+                <Input
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  className="mt-1 bg-slate-800 border-slate-700 text-white"
+                  data-testid="input-quote-template-name"
+                />
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between">
+                  <Label className="text-slate-300">Template *</Label>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setShowPreview(!showPreview)}
+                    className="text-slate-300 hover:bg-slate-700"
+                  >
+                    {showPreview ? <Code className="h-4 w-4 mr-1" /> : <Eye className="h-4 w-4 mr-1" />}
+                    {showPreview ? "HTML" : "Preview"}
+                  </Button>
+                </div>
+                {showPreview ? (
+                  <iframe
+                    srcDoc={draft.body}
+                    sandbox=""
+                    title="Template preview"
+                    className="mt-1 w-full h-[50vh] bg-white rounded"
+                  />
+                ) : (
+                  <Textarea
+                    value={draft.body}
+                    onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                    rows={18}
+                    spellCheck={false}
+                    className="mt-1 font-mono text-xs bg-slate-800 border-slate-700 text-slate-100"
+                    data-testid="input-quote-template-body"
+                  />
+                )}
+              </div>
+
+              <div>
+                <p className="text-sm text-slate-300 font-medium">Merge fields</p>
+                <p className="text-xs text-slate-400 mb-2">
+                  {"Write {{field}}. {{#items}}...{{/items}} repeats for each line item; any other {{#field}}...{{/field}} is left out when the field is empty."}
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                  {QUOTE_MERGE_FIELDS.map(({ field, description }) => (
+                    <div key={field} className="flex gap-2">
+                      <code className="text-indigo-300">{`{{${field}}}`}</code>
+                      <span className="text-slate-400">{description}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setDraft(null)} className="border-slate-600 text-slate-300">
+                Cancel
+              </Button>
+              <Button
+                onClick={() => saveMutation.mutate({ ...draft, name: draft.name.trim() })}
+                disabled={!draft.name.trim() || !draft.body.trim() || saveMutation.isPending}
+                className="bg-indigo-600 hover:bg-indigo-700"
+                data-testid="button-save-quote-template"
+              >
+                {saveMutation.isPending ? "Saving..." : "Save Template"}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,319 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useSavedViews } from "@/hooks/useSavedViews";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { Bookmark, Pin, PinOff, Save, Trash2, Users } from "lucide-react";
+import { USER_ROLES } from "@shared/schema";
+import type { InsertSavedView, SavedView, SavedViewWithState, UserRole } from "@shared/schema";
+
+// Everything a view captures about the leads table
+export type LeadTableState = Pick<InsertSavedView, "filters" | "sortOrder" | "columns"> & { sortBy: string };
+
+const roleLabels: Record<UserRole, string> = {
+  admin: "Admins",
+  agent: "Agents",
+  engineer: "Engineers",
+};
+
+interface SaveViewDialogProps {
+  current: LeadTableState;
+  onSaved: (view: SavedView) => void;
+  onClose: () => void;
+}
+
+function SaveViewDialog({ current, onSaved, onClose }: SaveViewDialogProps) {
+  const { user } = useAuth();
+  const isAdmin = user?.role === "admin";
+  const [name, setName] = useState("");
+  const [sharedWithRole, setSharedWithRole] = useState<UserRole | "private">("private");
+  const [isDefault, setIsDefault] = useState(false);
+  const [pin, setPin] = useState(true);
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  // Admins publish to any role; everyone else shares with colleagues in their own role
+  const shareOptions = isAdmin ? [...USER_ROLES] : user ? [user.role as UserRole] : [];
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/saved-views", {
+        ...current,
+        name: name.trim(),
+        sharedWithRole: sharedWithRole === "private" ? null : sharedWithRole,
+        isDefault: isAdmin && sharedWithRole !== "private" && isDefault,
+        pin,
+      });
+      return await response.json() as SavedView;
+    },
+    onSuccess: (view) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-views"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads", "view-counts"] });
+      toast({ title: "Success", description: "View saved" });
+      onSaved(view);
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to save view") });
+    },
+  });
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="bg-slate-900 border-slate-700 text-white">
+        <DialogHeader>
+          <DialogTitle>Save view</DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Saves the current filters, sort order and columns of the leads table.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="saved-view-name" className="text-slate-300">Name</Label>
+            <Input
+              id="saved-view-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Hot leads not contacted this week"
+              maxLength={80}
+              className="bg-slate-800 border-slate-700 text-white"
+              data-testid="input-saved-view-name"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-slate-300">Visible to</Label>
+            <Select value={sharedWithRole} onValueChange={(value) => setSharedWithRole(value as UserRole | "private")}>
+              <SelectTrigger className="bg-slate-800 border-slate-700 text-white" data-testid="select-saved-view-sharing">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-800 border-slate-700">
+                <SelectItem value="private">Only me</SelectItem>
+                {shareOptions.map(role => (
+                  <SelectItem key={role} value={role}>All {roleLabels[role].toLowerCase()}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isAdmin && sharedWithRole !== "private" && (
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="saved-view-default" className="text-slate-300">
+                Default view for {roleLabels[sharedWithRole].toLowerCase()}
+                <span className="block text-xs text-slate-500 font-normal">Shown as a tab for everyone in the role</span>
+              </Label>
+              <Switch id="saved-view-default" checked={isDefault} onCheckedChange={setIsDefault} />
+            </div>
+          )}
+
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="saved-view-pin" className="text-slate-300">Pin as a tab</Label>
+            <Switch id="saved-view-pin" checked={pin} onCheckedChange={setPin} />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose} className="border-slate-600 text-slate-300">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!name.trim() || createMutation.isPending}
+            className="bg-indigo-600 hover:bg-indigo-700"
+            data-testid="button-confirm-save-view"
+          >
+            {createMutation.isPending ? "Saving..." : "Save view"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface SavedViewBarProps {
+  activeViewId: number | null;
+  current: LeadTableState;
+  onApply: (view: SavedView | null) => void;
+}
+
+// Tabs for the role's default views and the user's pinned views, plus a menu for managing views
+export default function SavedViewBar({ activeViewId, current, onApply }: SavedViewBarProps) {
+  const { user } = useAuth();
+  const { views, tabs, counts, getView } = useSavedViews();
+  const [showSaveDialog, setShowSaveDialog] = useState(false);
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const activeView = getView(activeViewId);
+
+  const invalidateViews = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/saved-views"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/leads", "view-counts"] });
+  };
+
+  const pinMutation = useMutation({
+    mutationFn: async ({ id, pinned }: { id: number; pinned: boolean }) => {
+      await apiRequest("PUT", `/api/saved-views/${id}/pin`, { pinned });
+    },
+    onSuccess: invalidateViews,
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to pin view") });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("PUT", `/api/saved-views/${id}`, current);
+    },
+    onSuccess: () => {
+      invalidateViews();
+      toast({ title: "Success", description: "View updated" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to update view") });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/saved-views/${id}`);
+    },
+    onSuccess: (_, id) => {
+      invalidateViews();
+      if (id === activeViewId) onApply(null);
+      toast({ title: "Success", description: "View deleted" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to delete view") });
+    },
+  });
+
+  const canEdit = (view: SavedViewWithState) => view.createdById === user?.id || user?.role === "admin";
+
+  const renderTab = (id: number | null, label: string, count?: number) => (
+    <Button
+      key={id ?? "all"}
+      variant={activeViewId === id ? "default" : "outline"}
+      size="sm"
+      onClick={() => onApply(id === null ? null : getView(id) ?? null)}
+      className={activeViewId === id
+        ? "bg-indigo-600 hover:bg-indigo-700 whitespace-nowrap"
+        : "border-slate-600 text-slate-300 hover:bg-slate-700/50 whitespace-nowrap"}
+      data-testid={id === null ? "tab-view-all" : `tab-view-${id}`}
+    >
+      {label}
+      {count !== undefined && (
+        <span className="ml-2 rounded-full bg-slate-900/40 px-2 text-xs">{count}</span>
+      )}
+    </Button>
+  );
+
+  return (
+    <div className="flex items-center gap-2 overflow-x-auto pb-1" data-testid="saved-view-bar">
+      {renderTab(null, "All leads")}
+      {tabs.map(view => renderTab(view.id, view.name, counts[view.id]))}
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-slate-400 hover:text-slate-200 hover:bg-slate-700/50 whitespace-nowrap"
+            data-testid="button-saved-views-menu"
+          >
+            <Bookmark className="h-4 w-4 mr-1" />
+            Views
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-72 bg-slate-800 border-slate-700 text-slate-200">
+          <DropdownMenuItem onSelect={() => setShowSaveDialog(true)} data-testid="menu-save-view">
+            <Save className="h-4 w-4 mr-2" />
+            Save current view…
+          </DropdownMenuItem>
+          {activeView && canEdit(activeView) && (
+            <DropdownMenuItem onSelect={() => updateMutation.mutate(activeView.id)} data-testid="menu-update-view">
+              <Save className="h-4 w-4 mr-2" />
+              Update "{activeView.name}"
+            </DropdownMenuItem>
+          )}
+          {views.length > 0 && (
+            <>
+              <DropdownMenuSeparator className="bg-slate-700" />
+              <DropdownMenuLabel className="text-xs text-slate-400">Saved views</DropdownMenuLabel>
+            </>
+          )}
+          {views.map(view => (
+            <div key={view.id} className="flex items-center gap-1 px-1" data-testid={`saved-view-${view.id}`}>
+              <DropdownMenuItem className="flex-1 min-w-0" onSelect={() => onApply(view)}>
+                <span className="truncate">{view.name}</span>
+                {view.sharedWithRole && (
+                  <span
+                    className="ml-auto flex items-center gap-1 text-xs text-slate-500"
+                    title={`Shared with ${roleLabels[view.sharedWithRole].toLowerCase()}${view.createdByName ? ` by ${view.createdByName}` : ""}`}
+                  >
+                    <Users className="h-3 w-3" />
+                    {view.isDefault ? "Default" : roleLabels[view.sharedWithRole]}
+                  </span>
+                )}
+              </DropdownMenuItem>
+              {!view.isDefault && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => pinMutation.mutate({ id: view.id, pinned: !view.isPinned })}
+                  className="p-1 h-7 w-7 text-slate-400 hover:text-slate-200"
+                  title={view.isPinned ? "Unpin" : "Pin as a tab"}
+                  data-testid={`button-pin-view-${view.id}`}
+                >
+                  {view.isPinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                </Button>
+              )}
+              {canEdit(view) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    if (confirm(`Delete the "${view.name}" view${view.sharedWithRole ? ` for all ${roleLabels[view.sharedWithRole].toLowerCase()}` : ""}?`)) {
+                      deleteMutation.mutate(view.id);
+                    }
+                  }}
+                  className="p-1 h-7 w-7 text-red-400 hover:bg-red-500/20"
+                  title="Delete view"
+                  data-testid={`button-delete-view-${view.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {showSaveDialog && (
+        <SaveViewDialog
+          current={current}
+          onSaved={(view) => {
+            setShowSaveDialog(false);
+            onApply(view);
+          }}
+          onClose={() => setShowSaveDialog(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,372 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { Plus, Trash2, Save, Edit, Gauge, RotateCcw } from "lucide-react";
+import { SCORING_RULE_TYPES, INTERACTION_TYPES } from "@shared/schema";
+import type { ScoringRule, ScoringRuleType, Product } from "@shared/schema";
+
+const ruleTypeLabels: Record<ScoringRuleType, string> = {
+  value: "Deal value",
+  source: "Source",
+  product: "Interested product",
+  priority: "Priority",
+  interaction: "Recent interactions",
+  contact_decay: "Days since contact",
+};
+
+const SOURCES = ["Website", "Referral", "Cold Call", "Social Media", "Email Campaign", "Event", "Other"];
+
+// Config values are kept as strings while editing and converted on save
+interface RuleDraft {
+  name: string;
+  type: ScoringRuleType;
+  points: string;
+  config: Record<string, string>;
+}
+
+const emptyDraft: RuleDraft = { name: "", type: "value", points: "10", config: {} };
+
+function toPayload(draft: RuleDraft) {
+  const number = (key: string) => (draft.config[key] ? Number(draft.config[key]) : undefined);
+  const config: Record<string, unknown> = {
+    value: { minValue: number("minValue") },
+    source: { source: draft.config.source },
+    product: { productId: number("productId") },
+    priority: { priority: draft.config.priority },
+    interaction: { interactionType: draft.config.interactionType, withinDays: number("withinDays"), maxCount: number("maxCount") },
+    contact_decay: { graceDays: number("graceDays"), maxDays: number("maxDays") },
+  }[draft.type] as Record<string, unknown>;
+  return { name: draft.name.trim(), type: draft.type, points: parseInt(draft.points) || 0, config };
+}
+
+function toDraft(rule: ScoringRule): RuleDraft {
+  return {
+    name: rule.name,
+    type: rule.type,
+    points: String(rule.points),
+    config: Object.fromEntries(Object.entries(rule.config).map(([key, value]) => [key, String(value ?? "")])),
+  };
+}
+
+function describeRule(rule: ScoringRule, products: Product[]): string {
+  const config = rule.config as Record<string, any>;
+  const per = (unit: string) => `${rule.points > 0 ? "+" : ""}${rule.points} per ${unit}`;
+  switch (rule.type) {
+    case "value":
+      return `Value ≥ ${Number(config.minValue).toLocaleString()}`;
+    case "source":
+      return `Source is ${config.source}`;
+    case "product":
+      return `Interested in ${products.find(p => p.id === config.productId)?.name ?? "a deleted product"}`;
+    case "priority":
+      return `Priority is ${config.priority}`;
+    case "interaction":
+      return `${per(`${config.interactionType} interaction`)} in the last ${config.withinDays} day(s)${config.maxCount ? `, up to ${config.maxCount}` : ""}`;
+    case "contact_decay":
+      return `${per("day")} without contact after ${config.graceDays} day(s)${config.maxDays ? `, for up to ${config.maxDays} day(s)` : ""}`;
+  }
+}
+
+function NumberSetting({ label, value, onChange, placeholder }: { label: string; value?: string; onChange: (value: string) => void; placeholder?: string }) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-slate-400 text-xs">{label}</Label>
+      <Input
+        type="number"
+        min={0}
+        value={value ?? ""}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        className="w-32 bg-slate-900 border-slate-700 text-white"
+      />
+    </div>
+  );
+}
+
+function OptionSetting({ label, value, options, onChange }: { label: string; value?: string; options: { value: string; label: string }[]; onChange: (value: string) => void }) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-slate-400 text-xs">{label}</Label>
+      <Select value={value || undefined} onValueChange={onChange}>
+        <SelectTrigger className="w-44 bg-slate-900 border-slate-700 text-white">
+          <SelectValue placeholder="Select..." />
+        </SelectTrigger>
+        <SelectContent className="bg-slate-800 border-slate-700">
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+function RuleSettings({ draft, onChange, products }: { draft: RuleDraft; onChange: (draft: RuleDraft) => void; products: Product[] }) {
+  const set = (key: string) => (value: string) => onChange({ ...draft, config: { ...draft.config, [key]: value } });
+
+  switch (draft.type) {
+    case "value":
+      return <NumberSetting label="Minimum value" value={draft.config.minValue} onChange={set("minValue")} />;
+    case "source":
+      return <OptionSetting label="Source" value={draft.config.source} options={SOURCES.map(s => ({ value: s, label: s }))} onChange={set("source")} />;
+    case "product":
+      return <OptionSetting label="Product" value={draft.config.productId} options={products.map(p => ({ value: String(p.id), label: p.name }))} onChange={set("productId")} />;
+    case "priority":
+      return (
+        <OptionSetting
+          label="Priority"
+          value={draft.config.priority}
+          options={[{ value: "high", label: "High" }, { value: "medium", label: "Medium" }, { value: "low", label: "Low" }]}
+          onChange={set("priority")}
+        />
+      );
+    case "interaction":
+      return (
+        <>
+          <OptionSetting
+            label="Interaction type"
+            value={draft.config.interactionType}
+            options={INTERACTION_TYPES.map(t => ({ value: t, label: t.charAt(0).toUpperCase() + t.slice(1) }))}
+            onChange={set("interactionType")}
+          />
+          <NumberSetting label="Within days" value={draft.config.withinDays} onChange={set("withinDays")} />
+          <NumberSetting label="Count at most" value={draft.config.maxCount} onChange={set("maxCount")} placeholder="No limit" />
+        </>
+      );
+    case "contact_decay":
+      return (
+        <>
+          <NumberSetting label="Grace days" value={draft.config.graceDays} onChange={set("graceDays")} />
+          <NumberSetting label="Count at most (days)" value={draft.config.maxDays} onChange={set("maxDays")} placeholder="No limit" />
+        </>
+      );
+  }
+}
+
+export default function ScoringRuleSettings() {
+  const [draft, setDraft] = useState<RuleDraft>(emptyDraft);
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: rules = [], isLoading } = useQuery<ScoringRule[]>({
+    queryKey: ["/api/scoring-rules"],
+  });
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+
+  // Rule changes rescore every lead on the server
+  const invalidateRules = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/scoring-rules"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+  };
+
+  const resetForm = () => {
+    setDraft(emptyDraft);
+    setEditingId(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = toPayload(draft);
+      return editingId
+        ? await apiRequest("PUT", `/api/scoring-rules/${editingId}`, payload)
+        : await apiRequest("POST", "/api/scoring-rules", payload);
+    },
+    onSuccess: () => {
+      invalidateRules();
+      toast({ title: "Success", description: editingId ? "Rule updated and leads rescored" : "Rule added and leads rescored" });
+      resetForm();
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to save rule") });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      return await apiRequest("PUT", `/api/scoring-rules/${id}`, { isActive });
+    },
+    onSuccess: invalidateRules,
+    onError: () => {
+      toast({ variant: "destructive", title: "Error", description: "Failed to update rule" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/scoring-rules/${id}`);
+    },
+    onSuccess: () => {
+      invalidateRules();
+      toast({ title: "Success", description: "Rule deleted" });
+    },
+    onError: () => {
+      toast({ variant: "destructive", title: "Error", description: "Failed to delete rule" });
+    },
+  });
+
+  const recomputeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/scoring-rules/recompute");
+      return await response.json() as { updated: number };
+    },
+    onSuccess: ({ updated }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      toast({ title: "Success", description: `${updated} lead score(s) changed` });
+    },
+    onError: () => {
+      toast({ variant: "destructive", title: "Error", description: "Failed to recompute scores" });
+    },
+  });
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+        <div>
+          <h3 className="text-lg sm:text-xl font-semibold text-white">Lead Scoring</h3>
+          <p className="text-slate-400 text-sm sm:text-base">
+            Each active rule adds or removes points; a lead's score is the total, kept between 0 and 100. Scores update when leads or their interactions change. While no rule is active, scores are left as entered.
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => recomputeMutation.mutate()}
+          disabled={recomputeMutation.isPending || rules.length === 0}
+          className="border-slate-600 text-slate-300 hover:bg-slate-700"
+          data-testid="button-recompute-scores"
+        >
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Recompute
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500 mx-auto mb-4"></div>
+          <p className="text-slate-400">Loading rules...</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {rules.map((rule) => (
+            <div
+              key={rule.id}
+              className="flex flex-wrap items-center gap-3 p-3 bg-slate-800/50 border border-slate-700/30 rounded-lg"
+              data-testid={`scoring-rule-${rule.id}`}
+            >
+              <Switch
+                checked={rule.isActive}
+                onCheckedChange={(isActive) => toggleMutation.mutate({ id: rule.id, isActive })}
+                title={rule.isActive ? "Active" : "Inactive"}
+              />
+              <div className="flex-1 min-w-[180px]">
+                <p className={`font-medium ${rule.isActive ? "text-white" : "text-slate-500"}`}>{rule.name}</p>
+                <p className="text-slate-400 text-sm">{ruleTypeLabels[rule.type]} · {describeRule(rule, products)}</p>
+              </div>
+              <Badge className={rule.points < 0 ? "bg-red-500/20 text-red-400 border-red-500/30" : "bg-green-500/20 text-green-400 border-green-500/30"}>
+                {rule.points > 0 ? "+" : ""}{rule.points}
+              </Badge>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => { setEditingId(rule.id); setDraft(toDraft(rule)); }}
+                className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                data-testid={`button-edit-rule-${rule.id}`}
+              >
+                <Edit className="h-4 w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  if (confirm(`Delete the "${rule.name}" rule?`)) deleteMutation.mutate(rule.id);
+                }}
+                className="border-red-600/50 text-red-400 hover:bg-red-600/20"
+                data-testid={`button-delete-rule-${rule.id}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          <div className="space-y-3 p-3 border border-dashed border-slate-700 rounded-lg">
+            <div className="flex items-center gap-2 text-slate-300 text-sm font-medium">
+              <Gauge className="h-4 w-4 text-slate-400" />
+              {editingId ? "Edit rule" : "New rule"}
+            </div>
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1 flex-1 min-w-[160px]">
+                <Label className="text-slate-400 text-xs">Name</Label>
+                <Input
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g. Enterprise budget"
+                  className="bg-slate-900 border-slate-700 text-white"
+                  data-testid="input-rule-name"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-slate-400 text-xs">Rule</Label>
+                <Select
+                  value={draft.type}
+                  onValueChange={(value) => setDraft({ ...draft, type: value as ScoringRuleType, config: {} })}
+                  disabled={editingId !== null}
+                >
+                  <SelectTrigger className="w-48 bg-slate-900 border-slate-700 text-white" data-testid="select-rule-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-800 border-slate-700">
+                    {SCORING_RULE_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>{ruleTypeLabels[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <RuleSettings draft={draft} onChange={setDraft} products={products} />
+              <div className="space-y-1">
+                <Label className="text-slate-400 text-xs">
+                  {draft.type === "interaction" ? "Points each" : draft.type === "contact_decay" ? "Points per day" : "Points"}
+                </Label>
+                <Input
+                  type="number"
+                  min={-100}
+                  max={100}
+                  value={draft.points}
+                  onChange={(e) => setDraft({ ...draft, points: e.target.value })}
+                  className="w-24 bg-slate-900 border-slate-700 text-white"
+                  data-testid="input-rule-points"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              {editingId !== null && (
+                <Button variant="outline" onClick={resetForm} className="border-slate-600 text-slate-300">
+                  Cancel
+                </Button>
+              )}
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={!draft.name.trim() || saveMutation.isPending}
+                className="bg-indigo-600 hover:bg-indigo-700"
+                data-testid="button-save-rule"
+              >
+                {editingId ? <Save className="h-4 w-4 mr-1" /> : <Plus className="h-4 w-4 mr-1" />}
+                {editingId ? "Save Rule" : "Add Rule"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
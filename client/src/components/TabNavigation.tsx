@@ -5,7 +5,12 @@ import {
   Columns, 
   Package, 
   Settings, 
-  ShieldCheck 
+  ShieldCheck,
+  Copy,
+  Trash2,
+  Building2,
+  Receipt,
+  ListTodo
 } from "lucide-react";
 
 interface TabNavigationProps {
@@ -17,9 +22,14 @@ interface TabNavigationProps {
 const tabs = [
   { id: "dashboard", label: "Dashboard", icon: BarChart3, roles: ["admin", "agent", "engineer"] },
   { id: "leads-table", label: "Leads", icon: Table, roles: ["admin", "agent", "engineer"] },
+  { id: "tasks", label: "My Tasks", icon: ListTodo, roles: ["admin", "agent", "engineer"] },
+  { id: "accounts", label: "Accounts", icon: Building2, roles: ["admin", "agent", "engineer"] },
+  { id: "duplicates", label: "Duplicates", icon: Copy, roles: ["admin", "agent"] },
   { id: "kanban", label: "Pipeline", icon: Columns, roles: ["admin", "agent", "engineer"] },
   { id: "products", label: "Products", icon: Package, roles: ["admin", "agent", "engineer"] },
+  { id: "invoices", label: "Invoices", icon: Receipt, roles: ["admin", "agent"] },
   { id: "engineering", label: "Engineering", icon: Settings, roles: ["engineer"] },
+  { id: "trash", label: "Trash", icon: Trash2, roles: ["admin", "agent"] },
   { id: "admin", label: "Admin", icon: ShieldCheck, roles: ["admin"] },
 ];
 
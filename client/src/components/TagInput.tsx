@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { useTags } from "@/hooks/useTags";
+import { useAuth } from "@/hooks/useAuth";
+import { tagBadgeClass } from "@/lib/tags";
+import { X } from "lucide-react";
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  className?: string;
+  "data-testid"?: string;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Tags as removable chips, with registry suggestions while typing. Enter or a comma adds the typed
+// tag; when an admin has restricted tag creation, everyone else can only pick existing tags.
+export default function TagInput({ value, onChange, className = "", "data-testid": testId }: TagInputProps) {
+  const [text, setText] = useState("");
+  const [focused, setFocused] = useState(false);
+  const { tags, settings, getTag } = useTags();
+  const { user } = useAuth();
+  const canCreate = !settings.restrictCreation || user?.role === "admin";
+
+  const has = (name: string) => value.some(tag => tag.toLowerCase() === name.toLowerCase());
+  const query = text.trim().toLowerCase();
+  const suggestions = tags
+    .filter(tag => !has(tag.name) && tag.name.toLowerCase().includes(query))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const add = (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    // Typed tags take the registry's spelling
+    const registered = getTag(trimmed);
+    if (!registered && !canCreate) return;
+    const tag = registered?.name ?? trimmed;
+    if (!has(tag)) onChange([...value, tag]);
+    setText("");
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      add(canCreate ? text : suggestions[0]?.name ?? "");
+    } else if (e.key === "Backspace" && !text && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className={`flex flex-wrap items-center gap-1 rounded-md border px-2 py-1.5 min-h-10 ${className}`}>
+        {value.map(name => (
+          <Badge key={name} className={`${tagBadgeClass(getTag(name))} border text-xs px-2 py-0.5`}>
+            {name}
+            <button type="button" onClick={() => onChange(value.filter(tag => tag !== name))} className="ml-1 hover:text-white">
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value.replace(",", ""))}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          // Delayed so a click on a suggestion lands before the list closes
+          onBlur={() => setTimeout(() => setFocused(false), 150)}
+          placeholder={value.length === 0 ? (canCreate ? "Type a tag and press Enter" : "Pick from the existing tags") : ""}
+          className="flex-1 min-w-[120px] bg-transparent text-sm text-slate-100 placeholder:text-slate-400 outline-none"
+          data-testid={testId}
+        />
+      </div>
+      {focused && (suggestions.length > 0 || (query && !canCreate)) && (
+        <div className="absolute z-50 mt-1 w-full rounded-md border border-slate-700 bg-slate-800 py-1 shadow-lg">
+          {suggestions.map(tag => (
+            <button
+              key={tag.id}
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => add(tag.name)}
+              className="flex w-full items-center justify-between px-3 py-1.5 text-left text-sm text-slate-200 hover:bg-slate-700"
+            >
+              <Badge className={`${tagBadgeClass(tag)} border text-xs px-2 py-0.5`}>{tag.name}</Badge>
+              <span className="text-xs text-slate-500">{tag.leadCount} leads</span>
+            </button>
+          ))}
+          {suggestions.length === 0 && (
+            <p className="px-3 py-1.5 text-xs text-slate-400">No matching tag. New tags can only be added by an admin.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,347 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { useTags } from "@/hooks/useTags";
+import { stageDotClass } from "@/lib/stages";
+import { tagBadgeClass } from "@/lib/tags";
+import { Plus, Trash2, Save, Tag as TagIcon, GitMerge } from "lucide-react";
+import { STAGE_COLORS } from "@shared/schema";
+import type { StageColor, TagWithUsage, UnregisteredTag } from "@shared/schema";
+
+type TagDraft = { name: string; color: StageColor; description: string };
+
+const emptyDraft: TagDraft = { name: "", color: "indigo", description: "" };
+
+function ColorSelect({ value, onChange }: { value: StageColor; onChange: (color: StageColor) => void }) {
+  return (
+    <Select value={value} onValueChange={(color) => onChange(color as StageColor)}>
+      <SelectTrigger className="w-32 bg-slate-900 border-slate-700 text-white" data-testid="select-tag-color">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="bg-slate-800 border-slate-700">
+        {STAGE_COLORS.map((color) => (
+          <SelectItem key={color} value={color}>
+            <span className="flex items-center gap-2 capitalize">
+              <span className={`w-3 h-3 rounded-full ${stageDotClass({ color })}`}></span>
+              {color}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+const usageLabel = (tag: { leadCount: number; productCount: number }) =>
+  `${tag.leadCount} lead${tag.leadCount === 1 ? "" : "s"} · ${tag.productCount} product${tag.productCount === 1 ? "" : "s"}`;
+
+export default function TagSettings() {
+  const { tags, settings, isLoading } = useTags();
+  const { data: unregistered = [] } = useQuery<UnregisteredTag[]>({
+    queryKey: ["/api/tags/unregistered"],
+  });
+  const [drafts, setDrafts] = useState<Record<number, TagDraft>>({});
+  const [newTag, setNewTag] = useState<TagDraft>(emptyDraft);
+  const [mergeTarget, setMergeTarget] = useState<TagWithUsage | null>(null);
+  const [mergeSources, setMergeSources] = useState<string[]>([]);
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // Renames, merges and deletes rewrite tags on leads and products
+  const invalidateTags = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tags/unregistered"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+  };
+
+  const draftFor = (tag: TagWithUsage): TagDraft =>
+    drafts[tag.id] ?? { name: tag.name, color: tag.color, description: tag.description ?? "" };
+
+  const settingsMutation = useMutation({
+    mutationFn: async (restrictCreation: boolean) => {
+      return await apiRequest("PUT", "/api/tags/settings", { restrictCreation });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tags/settings"] });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to update tag settings") });
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (tag: TagDraft) => {
+      return await apiRequest("POST", "/api/tags", { ...tag, description: tag.description.trim() || null });
+    },
+    onSuccess: () => {
+      invalidateTags();
+      setNewTag(emptyDraft);
+      toast({ title: "Success", description: "Tag added" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to add tag") });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, tag }: { id: number; tag: TagDraft }) => {
+      return await apiRequest("PUT", `/api/tags/${id}`, { ...tag, description: tag.description.trim() || null });
+    },
+    onSuccess: (_, { id }) => {
+      invalidateTags();
+      setDrafts(prev => {
+        const { [id]: _saved, ...rest } = prev;
+        return rest;
+      });
+      toast({ title: "Success", description: "Tag updated" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to update tag") });
+    },
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ targetId, sourceNames }: { targetId: number; sourceNames: string[] }) => {
+      return await apiRequest("POST", `/api/tags/${targetId}/merge`, { sourceNames });
+    },
+    onSuccess: () => {
+      invalidateTags();
+      setMergeTarget(null);
+      setMergeSources([]);
+      toast({ title: "Success", description: "Tags merged" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to merge tags") });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/tags/${id}`);
+    },
+    onSuccess: () => {
+      invalidateTags();
+      toast({ title: "Success", description: "Tag deleted" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to delete tag") });
+    },
+  });
+
+  // Everything that can be folded into the merge target, registered or not
+  const mergeCandidates = mergeTarget
+    ? [...tags.filter(tag => tag.id !== mergeTarget.id), ...unregistered].map(tag => ({ name: tag.name, usage: usageLabel(tag) }))
+    : [];
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+        <div>
+          <h3 className="text-lg sm:text-xl font-semibold text-white">Tags</h3>
+          <p className="text-slate-400 text-sm sm:text-base">
+            The tags offered on leads and products. Renaming or merging a tag changes it on every lead and product that uses it.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            checked={settings.restrictCreation}
+            onCheckedChange={(checked) => settingsMutation.mutate(checked)}
+            disabled={settingsMutation.isPending}
+            data-testid="switch-restrict-tags"
+          />
+          <Label className="text-slate-300 text-sm">Only admins create new tags</Label>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500 mx-auto mb-4"></div>
+          <p className="text-slate-400">Loading tags...</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {tags.map((tag) => {
+            const draft = draftFor(tag);
+            const isDirty = drafts[tag.id] !== undefined;
+            return (
+              <div
+                key={tag.id}
+                className="flex flex-wrap items-center gap-2 p-3 bg-slate-800/50 border border-slate-700/30 rounded-lg"
+                data-testid={`tag-${tag.id}`}
+              >
+                <Input
+                  value={draft.name}
+                  onChange={(e) => setDrafts(prev => ({ ...prev, [tag.id]: { ...draft, name: e.target.value } }))}
+                  className="bg-slate-900 border-slate-700 text-white w-40"
+                  data-testid={`input-tag-name-${tag.id}`}
+                />
+                <ColorSelect value={draft.color} onChange={(color) => setDrafts(prev => ({ ...prev, [tag.id]: { ...draft, color } }))} />
+                <Input
+                  value={draft.description}
+                  onChange={(e) => setDrafts(prev => ({ ...prev, [tag.id]: { ...draft, description: e.target.value } }))}
+                  placeholder="Description"
+                  className="bg-slate-900 border-slate-700 text-white flex-1 min-w-[160px]"
+                />
+                <span className="text-xs text-slate-400 w-36 text-right">{usageLabel(tag)}</span>
+                <Button
+                  size="sm"
+                  onClick={() => updateMutation.mutate({ id: tag.id, tag: { ...draft, name: draft.name.trim() } })}
+                  disabled={!isDirty || !draft.name.trim() || updateMutation.isPending}
+                  className="bg-indigo-600 hover:bg-indigo-700"
+                  title="Save"
+                >
+                  <Save className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    setMergeTarget(tag);
+                    setMergeSources([]);
+                  }}
+                  className="border-slate-600 text-slate-300 hover:bg-slate-700/50"
+                  title="Merge other tags into this one"
+                  data-testid={`button-merge-tag-${tag.id}`}
+                >
+                  <GitMerge className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    if (confirm(`Delete the "${tag.name}" tag? It will be removed from ${usageLabel(tag)}.`)) deleteMutation.mutate(tag.id);
+                  }}
+                  disabled={deleteMutation.isPending}
+                  className="border-red-600/50 text-red-400 hover:bg-red-600/20"
+                  title="Delete"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+
+          <div className="flex flex-wrap items-center gap-2 p-3 border border-dashed border-slate-700 rounded-lg">
+            <TagIcon className="h-4 w-4 text-slate-400" />
+            <Input
+              value={newTag.name}
+              onChange={(e) => setNewTag({ ...newTag, name: e.target.value })}
+              placeholder="e.g. voice-ai"
+              className="bg-slate-900 border-slate-700 text-white w-40"
+              data-testid="input-new-tag-name"
+            />
+            <ColorSelect value={newTag.color} onChange={(color) => setNewTag({ ...newTag, color })} />
+            <Input
+              value={newTag.description}
+              onChange={(e) => setNewTag({ ...newTag, description: e.target.value })}
+              placeholder="Description (optional)"
+              className="bg-slate-900 border-slate-700 text-white flex-1 min-w-[160px]"
+            />
+            <Button
+              size="sm"
+              onClick={() => createMutation.mutate({ ...newTag, name: newTag.name.trim() })}
+              disabled={!newTag.name.trim() || createMutation.isPending}
+              className="bg-indigo-600 hover:bg-indigo-700"
+              data-testid="button-add-tag"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {unregistered.length > 0 && (
+        <div className="space-y-3">
+          <div>
+            <h4 className="text-slate-300 font-medium">Tags in use but not in the list</h4>
+            <p className="text-slate-400 text-sm">Add them as they are, or merge them into one of the tags above.</p>
+          </div>
+          {unregistered.map((tag) => (
+            <div key={tag.name} className="flex flex-wrap items-center gap-2 p-3 bg-slate-800/30 border border-slate-700/30 rounded-lg">
+              <Badge className={`${tagBadgeClass()} border text-xs px-2 py-0.5`}>{tag.name}</Badge>
+              <span className="text-xs text-slate-400 flex-1">{usageLabel(tag)}</span>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => createMutation.mutate({ ...emptyDraft, color: "slate", name: tag.name })}
+                disabled={createMutation.isPending}
+                className="border-slate-600 text-slate-300 hover:bg-slate-700/50"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add to list
+              </Button>
+              {tags.length > 0 && (
+                <Select
+                  value=""
+                  onValueChange={(targetId) => mergeMutation.mutate({ targetId: parseInt(targetId), sourceNames: [tag.name] })}
+                >
+                  <SelectTrigger className="w-44 h-9 bg-slate-900 border-slate-700 text-slate-300 text-sm">
+                    <SelectValue placeholder="Merge into..." />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-800 border-slate-700">
+                    {tags.map(target => (
+                      <SelectItem key={target.id} value={String(target.id)}>{target.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {mergeTarget && (
+        <Dialog open={true} onOpenChange={(open) => { if (!open) setMergeTarget(null); }}>
+          <DialogContent className="bg-slate-900 border-slate-700 text-white">
+            <DialogHeader>
+              <DialogTitle>Merge into "{mergeTarget.name}"</DialogTitle>
+              <DialogDescription className="text-slate-400">
+                Leads and products tagged with any of the selected tags will be tagged "{mergeTarget.name}" instead. The selected tags are removed from the list.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="max-h-72 overflow-y-auto space-y-2">
+              {mergeCandidates.map(candidate => (
+                <label key={candidate.name} className="flex items-center gap-3 text-sm text-slate-200">
+                  <Checkbox
+                    checked={mergeSources.includes(candidate.name)}
+                    onCheckedChange={(checked) => setMergeSources(prev => checked
+                      ? [...prev, candidate.name]
+                      : prev.filter(name => name !== candidate.name))}
+                  />
+                  <span className="flex-1">{candidate.name}</span>
+                  <span className="text-xs text-slate-500">{candidate.usage}</span>
+                </label>
+              ))}
+              {mergeCandidates.length === 0 && <p className="text-sm text-slate-400">There are no other tags to merge.</p>}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setMergeTarget(null)} className="border-slate-600 text-slate-300">
+                Cancel
+              </Button>
+              <Button
+                onClick={() => mergeMutation.mutate({ targetId: mergeTarget.id, sourceNames: mergeSources })}
+                disabled={mergeSources.length === 0 || mergeMutation.isPending}
+                className="bg-indigo-600 hover:bg-indigo-700"
+                data-testid="button-confirm-merge-tags"
+              >
+                {mergeMutation.isPending ? "Merging..." : `Merge ${mergeSources.length || ""} tag${mergeSources.length === 1 ? "" : "s"}`}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { TASK_PRIORITIES } from "@shared/schema";
+import type { Task, TaskPriority } from "@shared/schema";
+
+interface TaskFormProps {
+  task?: Task;
+  // New tasks are linked to this lead
+  leadId?: number;
+  onClose: () => void;
+}
+
+// "2026-10-19T14:30" in local time, as a datetime-local input expects
+function toLocalInput(date: Date | string | null | undefined): string {
+  if (!date) return "";
+  const value = new Date(date);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}T${pad(value.getHours())}:${pad(value.getMinutes())}`;
+}
+
+export default function TaskForm({ task, leadId, onClose }: TaskFormProps) {
+  const [formData, setFormData] = useState({
+    title: task?.title ?? "",
+    description: task?.description ?? "",
+    dueAt: toLocalInput(task?.dueAt),
+    priority: (task?.priority ?? "medium") as TaskPriority,
+    assignedTo: task?.assignedTo ?? null as number | null,
+  });
+
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // Only admins can list users; everyone else's new tasks go to themselves
+  const isAdmin = user?.role === "admin";
+  const { data: users = [] } = useQuery<any[]>({
+    queryKey: ["/api/users"],
+    enabled: isAdmin,
+  });
+  const assignees = users.filter((assignee: any) => assignee.isActive && assignee.id !== user?.id);
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        title: formData.title.trim(),
+        description: formData.description.trim() || null,
+        dueAt: formData.dueAt ? new Date(formData.dueAt).toISOString() : null,
+        priority: formData.priority,
+        ...(isAdmin && { assignedTo: formData.assignedTo ?? user!.id }),
+      };
+      return task
+        ? await apiRequest("PUT", `/api/tasks/${task.id}`, data)
+        : await apiRequest("POST", "/api/tasks", { ...data, leadId: leadId ?? null });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      toast({ title: "Success", description: task ? "Task updated" : "Task created" });
+      onClose();
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, `Failed to ${task ? "update" : "create"} task`) });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    mutation.mutate();
+  };
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px] bg-slate-800 border-slate-700 max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-slate-100">{task ? "Edit Task" : "New Task"}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="task-title" className="text-slate-300 text-sm">Title *</Label>
+            <Input
+              id="task-title"
+              value={formData.title}
+              onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+              className="mt-1 bg-slate-700 border-slate-600 text-slate-100"
+              required
+              data-testid="input-task-title"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="task-description" className="text-slate-300 text-sm">Description</Label>
+            <Textarea
+              id="task-description"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              rows={3}
+              className="mt-1 bg-slate-700 border-slate-600 text-slate-100"
+              data-testid="input-task-description"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="task-due" className="text-slate-300 text-sm">Due</Label>
+              <Input
+                id="task-due"
+                type="datetime-local"
+                value={formData.dueAt}
+                onChange={(e) => setFormData({ ...formData, dueAt: e.target.value })}
+                className="mt-1 bg-slate-700 border-slate-600 text-slate-100"
+                data-testid="input-task-due"
+              />
+            </div>
+            <div>
+              <Label className="text-slate-300 text-sm">Priority</Label>
+              <Select value={formData.priority} onValueChange={(value) => setFormData({ ...formData, priority: value as TaskPriority })}>
+                <SelectTrigger className="mt-1 bg-slate-700 border-slate-600 text-slate-100 capitalize" data-testid="select-task-priority">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {TASK_PRIORITIES.map(priority => (
+                    <SelectItem key={priority} value={priority} className="capitalize">{priority}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {isAdmin && (
+            <div>
+              <Label className="text-slate-300 text-sm">Assignee</Label>
+              <Select
+                value={formData.assignedTo && formData.assignedTo !== user?.id ? String(formData.assignedTo) : "me"}
+                onValueChange={(value) => setFormData({ ...formData, assignedTo: value === "me" ? null : parseInt(value) })}
+              >
+                <SelectTrigger className="mt-1 bg-slate-700 border-slate-600 text-slate-100" data-testid="select-task-assignee">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  <SelectItem value="me">Me</SelectItem>
+                  {assignees.map((assignee: any) => (
+                    <SelectItem key={assignee.id} value={String(assignee.id)}>{assignee.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={onClose} className="border-slate-600 text-slate-300">
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={mutation.isPending || !formData.title.trim()}
+              className="bg-indigo-600 hover:bg-indigo-700"
+              data-testid="button-save-task"
+            >
+              {mutation.isPending ? "Saving..." : task ? "Save Task" : "Create Task"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
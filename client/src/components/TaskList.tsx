@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import TaskForm from "./TaskForm";
+import { Edit, Trash2, Clock, CalendarPlus } from "lucide-react";
+import type { TaskWithDetails } from "@shared/schema";
+
+const priorityClass = {
+  low: "bg-slate-500/20 text-slate-400 border-slate-500/30",
+  medium: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
+  high: "bg-red-500/20 text-red-400 border-red-500/30",
+};
+
+interface TaskListProps {
+  tasks: TaskWithDetails[];
+  // Shown on lists that span leads, like My Tasks
+  showLead?: boolean;
+  emptyMessage: string;
+}
+
+export default function TaskList({ tasks, showLead = false, emptyMessage }: TaskListProps) {
+  const [editingTask, setEditingTask] = useState<TaskWithDetails | null>(null);
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const invalidateTasks = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+  };
+
+  const completeMutation = useMutation({
+    mutationFn: async ({ id, completed }: { id: number; completed: boolean }) => {
+      return await apiRequest("PUT", `/api/tasks/${id}`, { completed });
+    },
+    onSuccess: invalidateTasks,
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to update task") });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest("DELETE", `/api/tasks/${id}`);
+    },
+    onSuccess: () => {
+      invalidateTasks();
+      toast({ title: "Success", description: "Task deleted" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error, "Failed to delete task") });
+    },
+  });
+
+  if (tasks.length === 0) {
+    return <p className="text-sm text-slate-400">{emptyMessage}</p>;
+  }
+
+  const now = Date.now();
+
+  return (
+    <div className="space-y-2">
+      {tasks.map(task => {
+        const overdue = !task.completedAt && task.dueAt && new Date(task.dueAt).getTime() < now;
+        return (
+          <div
+            key={task.id}
+            className="flex items-start gap-3 p-2 bg-slate-700/30 rounded-lg border border-slate-600/50"
+            data-testid={`task-${task.id}`}
+          >
+            <Checkbox
+              checked={!!task.completedAt}
+              onCheckedChange={(checked) => completeMutation.mutate({ id: task.id, completed: checked === true })}
+              disabled={completeMutation.isPending}
+              className="mt-0.5 border-slate-500"
+              data-testid={`checkbox-complete-task-${task.id}`}
+            />
+            <div className="min-w-0 flex-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className={`text-sm font-medium ${task.completedAt ? "text-slate-500 line-through" : "text-white"}`}>{task.title}</span>
+                <Badge className={`${priorityClass[task.priority]} border text-xs capitalize`}>{task.priority}</Badge>
+              </div>
+              {task.description && <p className="text-xs text-slate-400 mt-1 whitespace-pre-wrap">{task.description}</p>}
+              <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-slate-400 mt-1">
+                {task.dueAt && (
+                  <span className={`flex items-center gap-1 ${overdue ? "text-red-400" : ""}`}>
+                    <Clock className="h-3 w-3" />
+                    {new Date(task.dueAt).toLocaleString([], { dateStyle: "medium", timeStyle: "short" })}
+                  </span>
+                )}
+                {showLead && task.leadName && <span>{task.leadName}</span>}
+                {task.assigneeName && <span>For {task.assigneeName}</span>}
+              </div>
+            </div>
+            {task.dueAt && !task.completedAt && (
+              <Button
+                asChild
+                size="sm"
+                variant="ghost"
+                className="h-7 w-7 p-0 text-slate-400 hover:text-white"
+                title="Add to calendar"
+              >
+                <a href={`/api/tasks/${task.id}/task.ics`} data-testid={`link-task-ics-${task.id}`}>
+                  <CalendarPlus className="h-3.5 w-3.5" />
+                </a>
+              </Button>
+            )}
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setEditingTask(task)}
+              className="h-7 w-7 p-0 text-slate-400 hover:text-white"
+              data-testid={`button-edit-task-${task.id}`}
+            >
+              <Edit className="h-3.5 w-3.5" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => {
+                if (confirm(`Delete the task "${task.title}"?`)) deleteMutation.mutate(task.id);
+              }}
+              className="h-7 w-7 p-0 text-slate-400 hover:text-red-400"
+              data-testid={`button-delete-task-${task.id}`}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        );
+      })}
+
+      {editingTask && <TaskForm task={editingTask} onClose={() => setEditingTask(null)} />}
+    </div>
+  );
+}
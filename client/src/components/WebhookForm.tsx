@@ -30,9 +30,24 @@ const availableEvents = [
   { id: "lead.deleted", label: "Lead Deleted" },
   { id: "lead.status_changed", label: "Lead Status Changed" },
   { id: "lead.assigned", label: "Lead Assigned" },
+  { id: "lead.merged", label: "Lead Merged" },
+  { id: "lead.restored", label: "Lead Restored" },
+  { id: "lead.purged", label: "Lead Purged" },
+  { id: "lead.follow_up_due", label: "Lead Follow-up Due" },
   { id: "interaction.created", label: "Interaction Created" },
   { id: "interaction.updated", label: "Interaction Updated" },
   { id: "interaction.deleted", label: "Interaction Deleted" },
+  { id: "quote.created", label: "Quote Created" },
+  { id: "quote.status_changed", label: "Quote Status Changed" },
+  { id: "invoice.created", label: "Invoice Created" },
+  { id: "invoice.updated", label: "Invoice Updated" },
+  { id: "invoice.issued", label: "Invoice Issued" },
+  { id: "invoice.payment_recorded", label: "Invoice Payment Recorded" },
+  { id: "invoice.paid", label: "Invoice Paid" },
+  { id: "invoice.overdue", label: "Invoice Overdue" },
+  { id: "invoice.deleted", label: "Invoice Deleted" },
+  { id: "task.created", label: "Task Created" },
+  { id: "task.completed", label: "Task Completed" },
   { id: "product.created", label: "Product Created" },
   { id: "product.updated", label: "Product Updated" },
   { id: "product.deleted", label: "Product Deleted" },
@@ -42,6 +57,9 @@ const availableEvents = [
   { id: "project.completed", label: "Project Completed" },
 ];
 
+// Product, user and project events aren't offered in the form
+const selectableEvents = availableEvents.slice(0, availableEvents.findIndex(event => event.id === "product.created"));
+
 interface WebhookFormProps {
   webhook?: Webhook | null;
   onClose: () => void;
@@ -196,7 +214,7 @@ export default function WebhookForm({ webhook, onClose }: WebhookFormProps) {
           <div className="space-y-3">
             <Label className="text-slate-200 font-medium">Events</Label>
             <div className="grid grid-cols-2 gap-2">
-              {availableEvents.slice(0, 8).map((event) => (
+              {selectableEvents.map((event) => (
                 <div key={event.id} className="flex items-center space-x-2">
                   <input
                     type="checkbox"
@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+import type { CloseReason, CloseReasonType } from "@shared/schema";
+
+// Won and lost reasons in display order. Pass a type for just the active reasons a lead can be closed with.
+export function useCloseReasons(type?: CloseReasonType) {
+  const { data: allReasons = [], isLoading } = useQuery<CloseReason[]>({
+    queryKey: ["/api/close-reasons"],
+  });
+
+  const closeReasons = type ? allReasons.filter(reason => reason.type === type && reason.isActive) : allReasons;
+
+  return {
+    closeReasons,
+    allReasons,
+    isLoading,
+    getReason: (id: number | null | undefined) => allReasons.find(reason => reason.id === id),
+  };
+}
@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_CURRENCY_SETTINGS } from "@shared/schema";
+import type { CurrencySettings } from "@shared/schema";
+
+// The workspace base currency and the exchange rates into it
+export function useCurrencySettings() {
+  const { data: settings = DEFAULT_CURRENCY_SETTINGS, isLoading } = useQuery<CurrencySettings>({
+    queryKey: ["/api/currency/settings"],
+  });
+
+  return {
+    settings,
+    baseCurrency: settings.baseCurrency,
+    isLoading,
+  };
+}
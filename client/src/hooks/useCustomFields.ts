@@ -0,0 +1,11 @@
+import { useQuery } from "@tanstack/react-query";
+import type { CustomField } from "@shared/schema";
+
+// Admin-defined lead fields, in display order
+export function useCustomFields() {
+  const { data: customFields = [], isLoading } = useQuery<CustomField[]>({
+    queryKey: ["/api/custom-fields"],
+  });
+
+  return { customFields, isLoading };
+}
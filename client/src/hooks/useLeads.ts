@@ -0,0 +1,119 @@
+import { useQuery, useQueries, useInfiniteQuery, keepPreviousData } from "@tanstack/react-query";
+import type { FollowUpState, LeadFilterGroup, LeadPage, LeadSearchPage } from "@shared/schema";
+
+export interface LeadQueryParams {
+  search?: string;
+  pipelineId?: number | string;
+  status?: string;
+  priority?: string;
+  source?: string;
+  assignedTo?: number;
+  assignedEngineer?: number;
+  // Only leads the current user is the agent or engineer on
+  mine?: boolean;
+  // Only leads not contacted within this many days
+  noContactDays?: number;
+  // Only leads whose follow-up is due (overdue included) or overdue
+  followUp?: FollowUpState;
+  // Custom field key -> value, sent as cf.<key>=<value>
+  customFields?: Record<string, string>;
+  // Advanced AND/OR conditions, sent as JSON in filter=
+  filter?: LeadFilterGroup;
+  sortBy?: string;
+  sortOrder?: "asc" | "desc";
+  limit?: number;
+  offset?: number;
+}
+
+export function buildLeadSearchParams(params: LeadQueryParams): URLSearchParams {
+  const searchParams = new URLSearchParams();
+  const { customFields, filter, ...rest } = params;
+  Object.entries(rest).forEach(([key, value]) => {
+    // "all" is the select placeholder used by the filter dropdowns
+    if (value !== undefined && value !== null && value !== "" && value !== "all") {
+      searchParams.set(key, String(value));
+    }
+  });
+  Object.entries(customFields ?? {}).forEach(([key, value]) => {
+    if (value) searchParams.set(`cf.${key}`, value);
+  });
+  if (filter) {
+    searchParams.set("filter", JSON.stringify(filter));
+  }
+  return searchParams;
+}
+
+async function fetchLeadPage(params: LeadQueryParams): Promise<LeadPage> {
+  const searchParams = buildLeadSearchParams(params);
+  const url = `/api/leads${searchParams.toString() ? `?${searchParams.toString()}` : ""}`;
+  const response = await fetch(url, { credentials: "include" });
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch leads");
+  }
+
+  return response.json();
+}
+
+async function fetchLeadSearchPage(query: string, params: LeadQueryParams): Promise<LeadSearchPage> {
+  const searchParams = buildLeadSearchParams({ ...params, search: undefined });
+  searchParams.set("q", query);
+  const response = await fetch(`/api/leads/search?${searchParams.toString()}`, { credentials: "include" });
+
+  if (!response.ok) {
+    throw new Error("Failed to search leads");
+  }
+
+  return response.json();
+}
+
+// A single page of leads, keeping the previous page on screen while the next one loads
+export function useLeadsPage(params: LeadQueryParams, enabled = true) {
+  return useQuery<LeadPage>({
+    queryKey: ["/api/leads", params],
+    queryFn: () => fetchLeadPage(params),
+    placeholderData: keepPreviousData,
+    enabled,
+  });
+}
+
+// How many leads match each set of filters, read from the totals of one-lead pages
+export function useLeadCounts(paramsList: LeadQueryParams[]): number[] {
+  return useQueries({
+    queries: paramsList.map(params => ({
+      queryKey: ["/api/leads", { ...params, limit: 1 }],
+      queryFn: () => fetchLeadPage({ ...params, limit: 1 }),
+    })),
+    combine: results => results.map(result => result.data?.total ?? 0),
+  });
+}
+
+// Leads loaded page by page for views that scroll through the whole list
+export function useInfiniteLeads(params: Omit<LeadQueryParams, "offset">, enabled = true) {
+  const query = useInfiniteQuery({
+    queryKey: ["/api/leads", "infinite", params],
+    queryFn: ({ pageParam }) => fetchLeadPage({ ...params, offset: pageParam }),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage: LeadPage) => {
+      const nextOffset = lastPage.offset + lastPage.leads.length;
+      return nextOffset < lastPage.total ? nextOffset : undefined;
+    },
+    enabled,
+  });
+
+  const leads = query.data?.pages.flatMap(page => page.leads) ?? [];
+  const total = query.data?.pages[0]?.total ?? 0;
+
+  return { ...query, leads, total };
+}
+
+// Ranked full-text search results with highlighted snippets; disabled while the query is blank
+export function useLeadSearch(query: string, params: Omit<LeadQueryParams, "search" | "sortBy" | "sortOrder">) {
+  const trimmed = query.trim();
+  return useQuery<LeadSearchPage>({
+    queryKey: ["/api/leads/search", trimmed, params],
+    queryFn: () => fetchLeadSearchPage(trimmed, params),
+    placeholderData: keepPreviousData,
+    enabled: trimmed.length > 0,
+  });
+}
@@ -0,0 +1,43 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Pipeline, PipelineStage } from "@shared/schema";
+import { findStage } from "@/lib/stages";
+
+export function usePipelines() {
+  const { data: pipelines = [], isLoading } = useQuery<Pipeline[]>({
+    queryKey: ["/api/pipelines"],
+  });
+
+  return { pipelines, isLoading };
+}
+
+// Stages of every pipeline, ordered; pass a pipeline id to get just that pipeline's stages.
+// Shared by the Kanban board, lead forms, filters and badges.
+export function usePipelineStages(pipelineId?: number | null) {
+  const { data: allStages = [], isLoading } = useQuery<PipelineStage[]>({
+    queryKey: ["/api/pipeline-stages"],
+  });
+
+  const stages = pipelineId ? allStages.filter(stage => stage.pipelineId === pipelineId) : allStages;
+
+  return {
+    stages,
+    allStages,
+    isLoading,
+    getStage: (key: string, leadPipelineId?: number | null) => findStage(allStages, key, leadPipelineId ?? pipelineId),
+  };
+}
+
+// Analytics for one pipeline
+export function usePipelineAnalytics(pipelineId?: number | null) {
+  return useQuery<{ leadsByStatus: { status: string; count: number }[] }>({
+    queryKey: ["/api/analytics", "pipeline", pipelineId],
+    queryFn: async () => {
+      const response = await fetch(`/api/analytics?pipelineId=${pipelineId}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("Failed to fetch analytics");
+      }
+      return response.json();
+    },
+    enabled: !!pipelineId,
+  });
+}
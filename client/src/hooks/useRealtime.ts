@@ -0,0 +1,35 @@
+import { useEffect, useState } from "react";
+import { holdRealtime, subscribeRealtime, viewLead } from "@/lib/realtime";
+import { useAuth } from "@/hooks/useAuth";
+import type { LeadPresence } from "@shared/schema";
+
+// Keeps this tab's queries in sync with changes made elsewhere while the user is logged in
+export function useRealtimeSync() {
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (userId === undefined) return;
+    return holdRealtime();
+  }, [userId]);
+}
+
+// The other users who have this lead open right now
+export function useLeadViewers(leadId: number): LeadPresence["viewers"] {
+  const { user } = useAuth();
+  const [viewers, setViewers] = useState<LeadPresence["viewers"]>([]);
+
+  useEffect(() => {
+    setViewers([]);
+    const unsubscribe = subscribeRealtime(message => {
+      if (message.type === "presence" && message.leadId === leadId) setViewers(message.viewers);
+    });
+    viewLead(leadId);
+    return () => {
+      unsubscribe();
+      viewLead(null);
+    };
+  }, [leadId]);
+
+  return viewers.filter(viewer => viewer.id !== user?.id);
+}
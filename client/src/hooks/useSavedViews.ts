@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query";
+import type { SavedViewWithState } from "@shared/schema";
+
+// Saved lead-table views the current user can open. Tabs are the role defaults plus the user's pins.
+export function useSavedViews() {
+  const { data: views = [], isLoading } = useQuery<SavedViewWithState[]>({
+    queryKey: ["/api/saved-views"],
+  });
+
+  const { data: counts = {} } = useQuery<Record<number, number>>({
+    queryKey: ["/api/leads", "view-counts"],
+    enabled: views.some(view => view.isDefault || view.isPinned),
+  });
+
+  return {
+    views,
+    tabs: views.filter(view => view.isDefault || view.isPinned),
+    counts,
+    isLoading,
+    getView: (id: number | null | undefined) => views.find(view => view.id === id),
+  };
+}
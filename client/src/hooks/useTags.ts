@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_TAG_SETTINGS } from "@shared/schema";
+import type { TagSettings, TagWithUsage } from "@shared/schema";
+
+// The tag registry, alphabetically, and whether tags outside it may be created
+export function useTags() {
+  const { data: tags = [], isLoading } = useQuery<TagWithUsage[]>({
+    queryKey: ["/api/tags"],
+  });
+  const { data: settings = DEFAULT_TAG_SETTINGS } = useQuery<TagSettings>({
+    queryKey: ["/api/tags/settings"],
+  });
+
+  return {
+    tags,
+    settings,
+    isLoading,
+    // Tag names match ignoring case
+    getTag: (name: string) => tags.find(tag => tag.name.toLowerCase() === name.toLowerCase()),
+  };
+}
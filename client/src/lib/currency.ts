@@ -0,0 +1,31 @@
+import type { Product, PricingModel } from "@shared/schema";
+
+export const pricingModelLabels: Record<PricingModel, string> = {
+  fixed: "Fixed price",
+  monthly: "Per month",
+  per_seat: "Per seat",
+  usage: "Usage-based",
+  quote: "Quote only",
+};
+
+const pricingModelUnits: Partial<Record<PricingModel, string>> = {
+  monthly: "/mo",
+  per_seat: "/seat",
+  usage: "/unit",
+};
+
+// Codes the browser doesn't know are shown in front of the plain number
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency, minimumFractionDigits: 0, maximumFractionDigits: 2 }).format(amount);
+  } catch {
+    return `${currency} ${amount.toLocaleString()}`;
+  }
+}
+
+// "$99/mo + $500 setup", or "Quote only" for products without a price
+export function formatProductPrice(product: Pick<Product, "priceAmount" | "currency" | "pricingModel" | "setupFee">): string {
+  if (product.pricingModel === "quote" || product.priceAmount === null) return pricingModelLabels.quote;
+  const price = `${formatMoney(product.priceAmount, product.currency)}${pricingModelUnits[product.pricingModel] ?? ""}`;
+  return product.setupFee ? `${price} + ${formatMoney(product.setupFee, product.currency)} setup` : price;
+}
@@ -0,0 +1,24 @@
+import type { CustomField, CustomFieldValue } from "@shared/schema";
+
+export const customFieldTypeLabels: Record<CustomField["type"], string> = {
+  text: "Text",
+  number: "Number",
+  date: "Date",
+  select: "Select",
+  multiselect: "Multi-select",
+  boolean: "Yes / No",
+  url: "URL",
+};
+
+export function isBlankCustomFieldValue(value: CustomFieldValue | undefined): boolean {
+  return value === null || value === undefined || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+export function formatCustomFieldValue(field: CustomField, value: CustomFieldValue | undefined): string {
+  if (isBlankCustomFieldValue(value)) return "";
+  if (Array.isArray(value)) return value.join(", ");
+  if (field.type === "boolean") return value ? "Yes" : "No";
+  if (field.type === "date") return new Date(`${value}T00:00:00`).toLocaleDateString();
+  if (field.type === "number") return Number(value).toLocaleString();
+  return String(value);
+}
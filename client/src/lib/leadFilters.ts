@@ -0,0 +1,81 @@
+import { isLeadFilterGroup } from "@shared/schema";
+import type { LeadFilterCondition, LeadFilterGroup } from "@shared/schema";
+
+// What a condition filters on, as offered in the filter builder
+export type LeadFilterKind =
+  | "value" | "engineeringProgress" | "score"
+  | "createdAt" | "followUpDate" | "lastContactedAt"
+  | "tags" | "products"
+  | "assignedTo" | "assignedEngineer"
+  | "status" | "source" | "priority"
+  | "noInteractionsSince";
+
+export const leadFilterKinds: { kind: LeadFilterKind; label: string; create: () => LeadFilterCondition }[] = [
+  { kind: "value", label: "Deal value", create: () => ({ type: "range", field: "value" }) },
+  { kind: "engineeringProgress", label: "Engineering progress", create: () => ({ type: "range", field: "engineeringProgress" }) },
+  { kind: "score", label: "Score", create: () => ({ type: "range", field: "score" }) },
+  { kind: "createdAt", label: "Created", create: () => ({ type: "dateRange", field: "createdAt" }) },
+  { kind: "followUpDate", label: "Follow-up date", create: () => ({ type: "dateRange", field: "followUpDate" }) },
+  { kind: "lastContactedAt", label: "Last contacted", create: () => ({ type: "dateRange", field: "lastContactedAt" }) },
+  { kind: "tags", label: "Tags", create: () => ({ type: "tags", match: "any", tags: [] }) },
+  { kind: "products", label: "Interested product", create: () => ({ type: "products", match: "any", productIds: [] }) },
+  { kind: "assignedTo", label: "Assigned agent", create: () => ({ type: "user", field: "assignedTo", userIds: [] }) },
+  { kind: "assignedEngineer", label: "Assigned engineer", create: () => ({ type: "user", field: "assignedEngineer", userIds: [] }) },
+  { kind: "status", label: "Status", create: () => ({ type: "choice", field: "status", values: [] }) },
+  { kind: "source", label: "Source", create: () => ({ type: "choice", field: "source", values: [] }) },
+  { kind: "priority", label: "Priority", create: () => ({ type: "choice", field: "priority", values: [] }) },
+  { kind: "noInteractionsSince", label: "No interactions since", create: () => ({ type: "noInteractionsSince", since: "" }) },
+];
+
+export function conditionKind(condition: LeadFilterCondition): LeadFilterKind {
+  switch (condition.type) {
+    case "tags":
+    case "products":
+    case "noInteractionsSince":
+      return condition.type;
+    default:
+      return condition.field;
+  }
+}
+
+export function emptyLeadFilterGroup(): LeadFilterGroup {
+  return { combinator: "and", conditions: [] };
+}
+
+function isComplete(condition: LeadFilterCondition): boolean {
+  switch (condition.type) {
+    case "range":
+      return condition.min !== undefined || condition.max !== undefined;
+    case "dateRange":
+      return !!condition.from || !!condition.to;
+    case "tags":
+      return condition.tags.length > 0;
+    case "products":
+      return condition.productIds.length > 0;
+    case "user":
+      return condition.userIds.length > 0;
+    case "choice":
+      return condition.values.length > 0;
+    case "noInteractionsSince":
+      return !!condition.since;
+  }
+}
+
+// Conditions still being filled in and empty groups are left out, so only complete filters are sent
+export function compactLeadFilterGroup(group: LeadFilterGroup): LeadFilterGroup | undefined {
+  const conditions = group.conditions.flatMap((entry): LeadFilterGroup["conditions"] => {
+    if (isLeadFilterGroup(entry)) {
+      const nested = compactLeadFilterGroup(entry);
+      return nested ? [nested] : [];
+    }
+    return isComplete(entry) ? [entry] : [];
+  });
+  return conditions.length > 0 ? { combinator: group.combinator, conditions } : undefined;
+}
+
+export function countLeadFilterConditions(group: LeadFilterGroup | undefined): number {
+  return (group?.conditions ?? []).reduce(
+    (count, entry) => count + (isLeadFilterGroup(entry) ? countLeadFilterConditions(entry) : 1),
+    0
+  );
+}
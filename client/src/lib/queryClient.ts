@@ -14,7 +14,8 @@ export async function apiRequest(
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    // Lets the server attribute lead changes to the app rather than an API integration
+    headers: data ? { "Content-Type": "application/json", "X-Siwaht-Client": "web" } : { "X-Siwaht-Client": "web" },
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -23,6 +24,16 @@ export async function apiRequest(
   return res;
 }
 
+// apiRequest errors read "<status>: <body>"; show the server's message when there is one
+export function apiErrorMessage(error: unknown, fallback: string): string {
+  if (!(error instanceof Error)) return fallback;
+  try {
+    return JSON.parse(error.message.replace(/^\d+: /, "")).message || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -0,0 +1,118 @@
+import type { QueryKey } from "@tanstack/react-query";
+import { queryClient } from "./queryClient";
+import { REALTIME_PATH, type RealtimeChange, type RealtimeServerMessage, type RealtimeClientMessage } from "@shared/schema";
+
+// The browser's connection to the server's sync socket. Change messages refresh the cached queries
+// they affect; presence messages go to whoever subscribed. The socket reconnects on its own and,
+// having missed changes meanwhile, refreshes everything when it does.
+
+const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000, 30000];
+// Bulk edits and other tabs' saves arrive in bursts; their refetches are batched
+const INVALIDATE_DELAY_MS = 200;
+
+type Listener = (message: RealtimeServerMessage) => void;
+
+const listeners = new Set<Listener>();
+let socket: WebSocket | null = null;
+let holders = 0;
+let attempts = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+let viewingLeadId: number | null = null;
+
+const pendingKeys = new Map<string, QueryKey>();
+let invalidateTimer: ReturnType<typeof setTimeout> | undefined;
+
+function changedKeys(change: RealtimeChange): QueryKey[] {
+  switch (change.entity) {
+    case "lead":
+      return [["/api/leads"], ["/api/leads/trash"], ["/api/analytics"], ["/api/follow-ups"], ["/api/accounts"], ["/api/tasks"], ["/api/notifications"]];
+    case "interaction":
+      return [
+        ["/api/leads"],
+        ["/api/interactions"],
+        ["/api/notifications"],
+        ...change.leadIds.map(id => [`/api/leads/${id}/interactions`]),
+      ];
+    case "attachment":
+      return [
+        ...change.leadIds.map(id => ["/api/leads", id]),
+        ...change.leadIds.map(id => [`/api/leads/${id}/attachments`]),
+        ["/api/user/storage"],
+      ];
+    case "product":
+      return [["/api/products"]];
+  }
+}
+
+function invalidateLater(keys: QueryKey[]) {
+  for (const key of keys) pendingKeys.set(JSON.stringify(key), key);
+  if (invalidateTimer) return;
+  invalidateTimer = setTimeout(() => {
+    invalidateTimer = undefined;
+    const keys = Array.from(pendingKeys.values());
+    pendingKeys.clear();
+    for (const queryKey of keys) queryClient.invalidateQueries({ queryKey });
+  }, INVALIDATE_DELAY_MS);
+}
+
+function send(message: RealtimeClientMessage) {
+  if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+}
+
+function connect() {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const ws = new WebSocket(`${protocol}//${window.location.host}${REALTIME_PATH}`);
+  socket = ws;
+
+  ws.onopen = () => {
+    if (attempts > 0) queryClient.invalidateQueries();
+    attempts = 0;
+    if (viewingLeadId !== null) send({ type: "view", leadId: viewingLeadId });
+  };
+  ws.onmessage = (event) => {
+    let message: RealtimeServerMessage;
+    try {
+      message = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+    if (message.type === "change") invalidateLater(changedKeys(message));
+    listeners.forEach(listener => listener(message));
+  };
+  ws.onclose = () => {
+    if (socket !== ws) return;
+    socket = null;
+    if (holders === 0) return;
+    const delay = RECONNECT_DELAYS_MS[Math.min(attempts, RECONNECT_DELAYS_MS.length - 1)];
+    attempts++;
+    reconnectTimer = setTimeout(connect, delay);
+  };
+}
+
+// Keeps the socket open until the returned function is called; the last caller to let go closes it
+export function holdRealtime(): () => void {
+  holders++;
+  if (holders === 1 && !socket) connect();
+  return () => {
+    holders--;
+    if (holders > 0) return;
+    clearTimeout(reconnectTimer);
+    attempts = 0;
+    const ws = socket;
+    socket = null;
+    ws?.close();
+  };
+}
+
+export function subscribeRealtime(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Tells the server which lead this tab has open (null when none), for presence
+export function viewLead(leadId: number | null) {
+  viewingLeadId = leadId;
+  send({ type: "view", leadId });
+}
@@ -0,0 +1,38 @@
+import type { PipelineStage, StageColor } from "@shared/schema";
+
+// Full class names so Tailwind picks them up; stage colours are stored by name
+const stageColorClasses: Record<StageColor, { dot: string; badge: string }> = {
+  slate: { dot: "bg-slate-500", badge: "bg-slate-500/20 text-slate-400 border-slate-500/30" },
+  blue: { dot: "bg-blue-500", badge: "bg-blue-500/20 text-blue-400 border-blue-500/30" },
+  indigo: { dot: "bg-indigo-500", badge: "bg-indigo-500/20 text-indigo-400 border-indigo-500/30" },
+  purple: { dot: "bg-purple-500", badge: "bg-purple-500/20 text-purple-400 border-purple-500/30" },
+  pink: { dot: "bg-pink-500", badge: "bg-pink-500/20 text-pink-400 border-pink-500/30" },
+  red: { dot: "bg-red-500", badge: "bg-red-500/20 text-red-400 border-red-500/30" },
+  orange: { dot: "bg-orange-500", badge: "bg-orange-500/20 text-orange-400 border-orange-500/30" },
+  amber: { dot: "bg-amber-500", badge: "bg-amber-500/20 text-amber-400 border-amber-500/30" },
+  emerald: { dot: "bg-emerald-500", badge: "bg-emerald-500/20 text-emerald-400 border-emerald-500/30" },
+  green: { dot: "bg-green-500", badge: "bg-green-500/20 text-green-400 border-green-500/30" },
+  cyan: { dot: "bg-cyan-500", badge: "bg-cyan-500/20 text-cyan-400 border-cyan-500/30" },
+};
+
+export function stageDotClass(stage?: Pick<PipelineStage, "color">): string {
+  return stageColorClasses[stage?.color ?? "slate"]?.dot ?? stageColorClasses.slate.dot;
+}
+
+export function stageBadgeClass(stage?: Pick<PipelineStage, "color">): string {
+  return stageColorClasses[stage?.color ?? "slate"]?.badge ?? stageColorClasses.slate.badge;
+}
+
+// Stage keys are unique within a pipeline; without a pipeline the first stage with the key wins
+export function findStage(stages: PipelineStage[], status: string, pipelineId?: number | null): PipelineStage | undefined {
+  return stages.find(stage => stage.key === status && (!pipelineId || stage.pipelineId === pipelineId));
+}
+
+// Leads can still carry the key of a stage that has since been deleted
+export function stageLabel(stages: PipelineStage[], status: string, pipelineId?: number | null): string {
+  return findStage(stages, status, pipelineId)?.name ?? status;
+}
+
+export function isWonStatus(stages: PipelineStage[], status: string, pipelineId?: number | null): boolean {
+  return findStage(stages, status, pipelineId)?.type === "won";
+}
@@ -0,0 +1,7 @@
+import { stageBadgeClass } from "@/lib/stages";
+import type { Tag } from "@shared/schema";
+
+// Tags use the pipeline stage palette; tags missing from the registry show in slate
+export function tagBadgeClass(tag?: Pick<Tag, "color">): string {
+  return stageBadgeClass(tag);
+}
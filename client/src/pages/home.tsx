@@ -1,19 +1,39 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation, useRoute } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
+import { useRealtimeSync } from "@/hooks/useRealtime";
 import Header from "@/components/Header";
 import TabNavigation from "@/components/TabNavigation";
 import Dashboard from "@/components/Dashboard";
 import LeadsTable from "@/components/LeadsTable";
+import AccountsTable from "@/components/AccountsTable";
 import KanbanBoard from "@/components/KanbanBoard";
 import ProductCatalog from "@/components/ProductCatalog";
 import EngineeringDashboard from "@/components/EngineeringDashboard";
 import AdminPanel from "@/components/AdminPanel";
+import DuplicateQueue from "@/components/DuplicateQueue";
+import LeadTrash from "@/components/LeadTrash";
+import InvoicesTable from "@/components/InvoicesTable";
+import MyTasks from "@/components/MyTasks";
+import LeadDetails from "@/components/LeadDetails";
+import type { Lead } from "@shared/schema";
 
-type TabType = "dashboard" | "leads-table" | "kanban" | "products" | "engineering" | "admin";
+type TabType = "dashboard" | "leads-table" | "tasks" | "accounts" | "duplicates" | "kanban" | "products" | "invoices" | "engineering" | "trash" | "admin";
 
 export default function Home() {
   const [activeTab, setActiveTab] = useState<TabType>("dashboard");
   const { user } = useAuth();
+  const [, setLocation] = useLocation();
+  useRealtimeSync();
+
+  // /leads/:id (linked from calendar events) opens that lead over the current tab
+  const [, params] = useRoute("/leads/:id");
+  const linkedLeadId = params ? parseInt(params.id) : NaN;
+  const { data: linkedLead } = useQuery<Lead>({
+    queryKey: ["/api/leads", linkedLeadId],
+    enabled: !!user && !isNaN(linkedLeadId),
+  });
 
   if (!user) return null;
 
@@ -24,12 +44,22 @@ export default function Home() {
         return <Dashboard />;
       case "leads-table":
         return <LeadsTable />;
+      case "tasks":
+        return <MyTasks />;
+      case "accounts":
+        return <AccountsTable />;
+      case "duplicates":
+        return <DuplicateQueue />;
       case "kanban":
         return <KanbanBoard />;
       case "products":
         return <ProductCatalog />;
+      case "invoices":
+        return <InvoicesTable />;
       case "engineering":
         return <EngineeringDashboard />;
+      case "trash":
+        return <LeadTrash />;
       case "admin":
         return <AdminPanel />;
       default:
@@ -48,6 +78,9 @@ export default function Home() {
       <main className="max-w-7xl mx-auto px-2 sm:px-6 lg:px-8 py-4 sm:py-8">
         {renderTabContent()}
       </main>
+      {linkedLead && !isNaN(linkedLeadId) && (
+        <LeadDetails lead={linkedLead} onClose={() => setLocation("/")} />
+      )}
     </div>
   );
 }
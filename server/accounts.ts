@@ -0,0 +1,42 @@
+import type { Account, Contact, InsertLead } from '@shared/schema';
+import { normalizeCompany, normalizeEmail, normalizeName } from './duplicates';
+
+// Personal mailboxes say nothing about which company a lead works for
+const PERSONAL_EMAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'yahoo.co.uk', 'hotmail.com', 'hotmail.co.uk', 'outlook.com',
+  'live.com', 'msn.com', 'icloud.com', 'me.com', 'mac.com', 'aol.com', 'proton.me', 'protonmail.com',
+  'gmx.com', 'gmx.de', 'web.de', 'mail.com', 'yandex.com', 'yandex.ru', 'zoho.com', 'qq.com', '163.com',
+]);
+
+export type AccountFields = Pick<InsertLead, 'name' | 'email' | 'phone' | 'company'>;
+
+// The company domain of an email address, or null for personal mailboxes
+export function companyDomain(email: string | null | undefined): string | null {
+  const normalized = normalizeEmail(email);
+  if (!normalized) return null;
+  const domain = normalized.split('@')[1];
+  return PERSONAL_EMAIL_DOMAINS.has(domain) ? null : domain;
+}
+
+// The account a lead belongs to: one with the same company name, else one at its email domain
+export function matchAccount<T extends Pick<Account, 'name' | 'domain'>>(lead: AccountFields, accounts: T[]): T | undefined {
+  const company = normalizeCompany(lead.company);
+  const domain = companyDomain(lead.email);
+  return (company ? accounts.find(account => normalizeCompany(account.name) === company) : undefined)
+    ?? (domain ? accounts.find(account => account.domain === domain) : undefined);
+}
+
+// What a new account for the lead looks like, or null when the lead has neither a company nor a company email
+export function accountFromLead(lead: AccountFields): { name: string; domain: string | null } | null {
+  const domain = companyDomain(lead.email);
+  const name = lead.company?.trim() || domain;
+  return name ? { name, domain } : null;
+}
+
+// The account's contact for the lead's person, matched by email, or by name when either has no email
+export function matchContact<T extends Pick<Contact, 'name' | 'email'>>(lead: AccountFields, contacts: T[]): T | undefined {
+  const email = normalizeEmail(lead.email);
+  const name = normalizeName(lead.name);
+  return (email ? contacts.find(contact => normalizeEmail(contact.email) === email) : undefined)
+    ?? (name ? contacts.find(contact => (!email || !contact.email) && normalizeName(contact.name) === name) : undefined);
+}
@@ -20,9 +20,12 @@ interface McpResponse {
 }
 
 export function setupMcpServer(httpServer: Server) {
-  const wss = new WebSocketServer({ 
-    server: httpServer,
-    path: '/mcp'
+  // The HTTP server is shared with the browser sync socket and Vite, so only /mcp upgrades are taken;
+  // a WebSocketServer bound to the server would reject every other path
+  const wss = new WebSocketServer({ noServer: true });
+  httpServer.on('upgrade', (req, socket, head) => {
+    if (new URL(req.url || '/', 'http://localhost').pathname !== '/mcp') return;
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req));
   });
 
   const connectedClients = new Set();
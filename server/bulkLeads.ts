@@ -0,0 +1,38 @@
+import type { BulkLeadAction, InsertLead, Lead } from '@shared/schema';
+
+export type BulkLeadUpdate = Exclude<BulkLeadAction, { action: 'delete' | 'export' }>;
+
+export interface BulkLeadChanges {
+  data: Partial<InsertLead>;
+  productIds?: number[];
+}
+
+// What a bulk action changes on one lead. Tag and product actions add to or take away from what
+// the lead already has; productIds is only set when the lead's product list changes.
+export function bulkLeadChanges(update: BulkLeadUpdate, lead: Lead, currentProductIds: number[]): BulkLeadChanges {
+  switch (update.action) {
+    case 'status':
+      return {
+        data: {
+          status: update.status,
+          ...(update.closeReasonId !== undefined && { closeReasonId: update.closeReasonId }),
+          ...(update.closeCompetitor !== undefined && { closeCompetitor: update.closeCompetitor?.trim() || null }),
+          ...(update.closeNote !== undefined && { closeNote: update.closeNote?.trim() || null }),
+        },
+      };
+    case 'priority':
+      return { data: { priority: update.priority } };
+    case 'addTags': {
+      const tags = lead.tags ?? [];
+      return { data: { tags: [...tags, ...update.tags.filter(tag => !tags.includes(tag))] } };
+    }
+    case 'removeTags':
+      return { data: { tags: (lead.tags ?? []).filter(tag => !update.tags.includes(tag)) } };
+    case 'addProducts':
+      return { data: {}, productIds: Array.from(new Set([...currentProductIds, ...update.productIds])) };
+    case 'removeProducts':
+      return { data: {}, productIds: currentProductIds.filter(id => !update.productIds.includes(id)) };
+    case 'followUpDate':
+      return { data: { followUpDate: update.followUpDate } };
+  }
+}
@@ -0,0 +1,140 @@
+import crypto from 'crypto';
+import type { Interaction, Lead, TaskWithDetails } from '@shared/schema';
+import type { CalendarItems } from './storage';
+
+// Meetings and tasks have no end time of their own
+const MEETING_DURATION_MS = 60 * 60 * 1000;
+const TASK_DURATION_MS = 30 * 60 * 1000;
+const UID_DOMAIN = 'siwaht-crm';
+
+// Follow-ups are whole days; meetings and tasks start at their time
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  url: string;
+  start: Date;
+  end?: Date;
+  allDay?: boolean;
+}
+
+export function newCalendarToken(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+// Opens the lead in the app
+export function leadUrl(appUrl: string, leadId: number): string {
+  return `${appUrl}/leads/${leadId}`;
+}
+
+// follow-up-12.ics; names stay ASCII so they are safe in a header
+export function calendarFileName(event: CalendarEvent): string {
+  return `${event.uid.split('@')[0]}.ics`;
+}
+
+const leadTitle = (lead: Pick<Lead, 'name' | 'company'>) => lead.company ? `${lead.name} (${lead.company})` : lead.name;
+
+export function followUpEvent(lead: Lead, appUrl: string): CalendarEvent {
+  const url = leadUrl(appUrl, lead.id);
+  return {
+    // One event per lead, so snoozing moves it rather than adding another
+    uid: `follow-up-${lead.id}@${UID_DOMAIN}`,
+    summary: `Follow up: ${leadTitle(lead)}`,
+    description: [lead.email, lead.phone, url].filter(Boolean).join('\n'),
+    url,
+    start: lead.followUpDate!,
+    allDay: true,
+  };
+}
+
+export function meetingEvent(interaction: Interaction, lead: Lead, appUrl: string): CalendarEvent {
+  const url = leadUrl(appUrl, lead.id);
+  return {
+    uid: `meeting-${interaction.id}@${UID_DOMAIN}`,
+    summary: `Meeting: ${leadTitle(lead)}`,
+    description: `${interaction.text}\n\n${url}`,
+    url,
+    start: interaction.scheduledAt!,
+    end: new Date(interaction.scheduledAt!.getTime() + MEETING_DURATION_MS),
+  };
+}
+
+export function taskEvent(task: Pick<TaskWithDetails, 'id' | 'title' | 'description' | 'dueAt' | 'leadId' | 'leadName'>, appUrl: string): CalendarEvent {
+  const url = task.leadId !== null ? leadUrl(appUrl, task.leadId) : appUrl;
+  return {
+    uid: `task-${task.id}@${UID_DOMAIN}`,
+    summary: task.leadName ? `Task: ${task.title} (${task.leadName})` : `Task: ${task.title}`,
+    description: [task.description, url].filter(Boolean).join('\n\n'),
+    url,
+    start: task.dueAt!,
+    end: new Date(task.dueAt!.getTime() + TASK_DURATION_MS),
+  };
+}
+
+export function calendarItemEvents(items: CalendarItems, appUrl: string): CalendarEvent[] {
+  return [
+    ...items.followUps.map(lead => followUpEvent(lead, appUrl)),
+    ...items.meetings.map(({ interaction, lead }) => meetingEvent(interaction, lead, appUrl)),
+    ...items.tasks.map(task => taskEvent(task, appUrl)),
+  ];
+}
+
+// RFC 5545 text: backslashes, commas, semicolons and line breaks are escaped
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 bytes continue on the next line after a space, without splitting a character
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let bytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (bytes + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+// 20261019T143000Z
+const formatDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+// 20261019, by the UTC date follow-up dates are stored on
+const formatDay = (date: Date) => date.toISOString().slice(0, 10).replace(/-/g, '');
+
+function eventLines(event: CalendarEvent, stamp: Date): string[] {
+  const nextDay = new Date(event.start.getTime() + 24 * 60 * 60 * 1000);
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatDateTime(stamp)}`,
+    ...(event.allDay
+      ? [`DTSTART;VALUE=DATE:${formatDay(event.start)}`, `DTEND;VALUE=DATE:${formatDay(nextDay)}`]
+      : [`DTSTART:${formatDateTime(event.start)}`, `DTEND:${formatDateTime(event.end ?? event.start)}`]),
+    `SUMMARY:${escapeText(event.summary)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+    `URL:${event.url}`,
+    'END:VEVENT',
+  ];
+}
+
+export function calendarIcs(events: CalendarEvent[], name?: string): string {
+  const stamp = new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Siwaht//CRM//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(name ? [`X-WR-CALNAME:${escapeText(name)}`] : []),
+    ...events.flatMap(event => eventLines(event, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,54 @@
+import type { Request } from 'express';
+import type { CustomField, CustomFieldValue } from '@shared/schema';
+import type { CustomFieldFilter } from './storage';
+
+// Lead list filters on custom fields arrive as ?cf.<field key>=<value>
+export function customFieldFilters(query: Request['query'], fields: CustomField[]): CustomFieldFilter[] {
+  return fields.flatMap(field => {
+    const value = query[`cf.${field.key}`];
+    return typeof value === 'string' && value.trim() ? [{ key: field.key, type: field.type, value: value.trim() }] : [];
+  });
+}
+
+// CSV columns for custom fields are named after the key so relabelling a field doesn't break re-imports
+export function customFieldColumn(field: CustomField): string {
+  return `cf.${field.key}`;
+}
+
+export function formatCustomFieldCell(value: CustomFieldValue | undefined): string {
+  if (value === null || value === undefined) return '';
+  return Array.isArray(value) ? value.join('; ') : String(value);
+}
+
+function matchOption(field: CustomField, value: string): string {
+  return field.options?.find(option => option.toLowerCase() === value.toLowerCase()) ?? value;
+}
+
+// Converts a CSV cell to the field's type. Cells that can't be converted are returned as-is
+// so customFieldValuesSchema reports them with the field's label.
+export function parseCustomFieldCell(field: CustomField, cell: string | undefined): CustomFieldValue {
+  const value = cell?.trim() ?? '';
+  if (!value) return null;
+
+  switch (field.type) {
+    case 'number': {
+      const number = Number(value.replace(/,/g, ''));
+      return isNaN(number) ? value : number;
+    }
+    case 'boolean':
+      if (/^(true|yes|y|1)$/i.test(value)) return true;
+      if (/^(false|no|n|0)$/i.test(value)) return false;
+      return value;
+    case 'date': {
+      if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? value : date.toISOString().split('T')[0];
+    }
+    case 'select':
+      return matchOption(field, value);
+    case 'multiselect':
+      return value.split(';').map(option => option.trim()).filter(Boolean).map(option => matchOption(field, option));
+    default:
+      return value;
+  }
+}
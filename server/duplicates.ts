@@ -0,0 +1,221 @@
+import type { Lead, DuplicateReason, LeadMergeSelections, InsertLead } from '@shared/schema';
+import { MERGEABLE_LEAD_FIELDS } from '@shared/schema';
+
+export type DuplicateFields = Pick<Lead, 'name' | 'email' | 'phone' | 'company'>;
+
+export interface DuplicateMatch {
+  reasons: DuplicateReason[];
+  score: number;
+}
+
+// Name/company similarity (Sørensen–Dice over character bigrams) needed to count as a match
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+const COMPANY_SIMILARITY_THRESHOLD = 0.8;
+
+// Phone numbers shorter than this are too ambiguous to compare
+const MIN_PHONE_DIGITS = 7;
+
+const COMPANY_SUFFIXES = new Set([
+  'inc', 'incorporated', 'llc', 'ltd', 'limited', 'co', 'corp', 'corporation', 'company',
+  'gmbh', 'plc', 'pty', 'sa', 'ag', 'bv', 'srl', 'group', 'the',
+]);
+
+export function normalizeEmail(email: string | null | undefined): string | null {
+  if (!email) return null;
+  const [local, domain] = email.trim().toLowerCase().split('@');
+  if (!local || !domain) return null;
+  // "jane+crm@acme.com" and "jane@acme.com" reach the same inbox
+  return `${local.split('+')[0]}@${domain}`;
+}
+
+export function normalizePhone(phone: string | null | undefined): string | null {
+  if (!phone) return null;
+  const digits = phone.replace(/\D/g, '');
+  if (digits.length < MIN_PHONE_DIGITS) return null;
+  // Compare national numbers so "+1 (555) 010-2030" matches "555-010-2030"
+  return digits.slice(-10);
+}
+
+function tokenize(value: string | null | undefined): string[] {
+  if (!value) return [];
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+// Token order is ignored so "Smith, John" matches "John Smith"
+export function normalizeName(name: string | null | undefined): string | null {
+  const tokens = tokenize(name).sort();
+  return tokens.length ? tokens.join(' ') : null;
+}
+
+export function normalizeCompany(company: string | null | undefined): string | null {
+  const tokens = tokenize(company).filter(token => !COMPANY_SUFFIXES.has(token));
+  return tokens.length ? tokens.join(' ') : null;
+}
+
+function bigrams(value: string): Map<string, number> {
+  const compact = value.replace(/\s/g, '');
+  const counts = new Map<string, number>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    const gram = compact.slice(i, i + 2);
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+  return counts;
+}
+
+export function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  let sizeA = 0;
+  let sizeB = 0;
+  let overlap = 0;
+  gramsA.forEach(count => { sizeA += count; });
+  gramsB.forEach(count => { sizeB += count; });
+  gramsA.forEach((count, gram) => { overlap += Math.min(count, gramsB.get(gram) || 0); });
+  return sizeA + sizeB === 0 ? 0 : (2 * overlap) / (sizeA + sizeB);
+}
+
+interface NormalizedLead {
+  email: string | null;
+  phone: string | null;
+  name: string | null;
+  company: string | null;
+}
+
+function normalizeLead(lead: DuplicateFields): NormalizedLead {
+  return {
+    email: normalizeEmail(lead.email),
+    phone: normalizePhone(lead.phone),
+    name: normalizeName(lead.name),
+    company: normalizeCompany(lead.company),
+  };
+}
+
+function compareNormalized(a: NormalizedLead, b: NormalizedLead): DuplicateMatch | null {
+  const reasons: DuplicateReason[] = [];
+  const weights: number[] = [];
+
+  if (a.email && a.email === b.email) {
+    reasons.push('email');
+    weights.push(0.9);
+  }
+  if (a.phone && a.phone === b.phone) {
+    reasons.push('phone');
+    weights.push(0.8);
+  }
+
+  const nameScore = a.name && b.name ? similarity(a.name, b.name) : 0;
+  const companyScore = a.company && b.company ? similarity(a.company, b.company) : 0;
+  const nameMatches = nameScore >= NAME_SIMILARITY_THRESHOLD;
+  const companyMatches = companyScore >= COMPANY_SIMILARITY_THRESHOLD;
+
+  // A shared company alone is a colleague, not a duplicate; a similar name needs the company to agree
+  // unless one side has no company recorded
+  if (nameMatches && (companyMatches || !a.company || !b.company)) {
+    reasons.push('name');
+    weights.push(0.6 * nameScore);
+  }
+  if (companyMatches && reasons.length > 0) {
+    reasons.push('company');
+    weights.push(0.3 * companyScore);
+  }
+
+  if (reasons.length === 0) return null;
+
+  // Combine the independent signals: 1 - Π(1 - w)
+  const score = 1 - weights.reduce((remaining, weight) => remaining * (1 - weight), 1);
+  return { reasons, score: Math.round(score * 100) / 100 };
+}
+
+export function compareLeads(a: DuplicateFields, b: DuplicateFields): DuplicateMatch | null {
+  return compareNormalized(normalizeLead(a), normalizeLead(b));
+}
+
+// Finds every likely duplicate pair in a set of leads. Leads are only compared when they share
+// an email, a phone number or a name token, which keeps this well below O(n²) on real data.
+export function findDuplicatePairs<T extends DuplicateFields & { id: number }>(records: T[]) {
+  const normalized = records.map(normalizeLead);
+  const blocks = new Map<string, number[]>();
+  const addToBlock = (key: string, index: number) => {
+    const block = blocks.get(key) || [];
+    block.push(index);
+    blocks.set(key, block);
+  };
+
+  normalized.forEach((lead, index) => {
+    if (lead.email) addToBlock(`email:${lead.email}`, index);
+    if (lead.phone) addToBlock(`phone:${lead.phone}`, index);
+    lead.name?.split(' ').forEach(token => {
+      if (token.length >= 3) addToBlock(`name:${token}`, index);
+    });
+  });
+
+  const seen = new Set<string>();
+  const pairs: { a: T; b: T; match: DuplicateMatch }[] = [];
+
+  blocks.forEach(indexes => {
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        const key = `${indexes[i]}:${indexes[j]}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const match = compareNormalized(normalized[indexes[i]], normalized[indexes[j]]);
+        if (match) {
+          pairs.push({ a: records[indexes[i]], b: records[indexes[j]], match });
+        }
+      }
+    }
+  });
+
+  return pairs.sort((x, y) => y.match.score - x.match.score);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+// Builds the column values for the surviving lead of a merge
+export function resolveMergedLeadValues(survivor: Lead, merged: Lead, selections: LeadMergeSelections): Partial<InsertLead> & { createdAt: Date; closedAt: Date | null } {
+  const values: Record<string, unknown> = {};
+
+  for (const field of MERGEABLE_LEAD_FIELDS) {
+    const selection = selections[field];
+    if (selection) {
+      values[field] = selection === 'merged' ? merged[field] : survivor[field];
+    } else if (field === 'tags') {
+      values[field] = Array.from(new Set([...(survivor.tags || []), ...(merged.tags || [])]));
+    } else if ((field === 'notes' || field === 'engineeringNotes') && !isEmpty(survivor[field]) && !isEmpty(merged[field]) && survivor[field] !== merged[field]) {
+      values[field] = `${survivor[field]}\n\n${merged[field]}`;
+    } else {
+      values[field] = isEmpty(survivor[field]) ? merged[field] : survivor[field];
+    }
+  }
+
+  // Custom field values are combined like tags, the survivor's winning where both have one
+  values.customFields = { ...merged.customFields };
+  for (const [key, value] of Object.entries(survivor.customFields || {})) {
+    if (!isEmpty(value)) (values.customFields as Record<string, unknown>)[key] = value;
+  }
+
+  // Stage keys only mean something within a pipeline, so the pipeline follows the chosen status,
+  // and so does why and when the lead was closed
+  const statusLead = selections.status === 'merged' ? merged : survivor;
+  values.pipelineId = statusLead.pipelineId;
+  values.closeReasonId = statusLead.closeReasonId;
+  values.closeCompetitor = statusLead.closeCompetitor;
+  values.closeNote = statusLead.closeNote;
+
+  return {
+    ...(values as Partial<InsertLead>),
+    closedAt: statusLead.closedAt,
+    // The combined record has existed since the older of the two was created
+    createdAt: survivor.createdAt < merged.createdAt ? survivor.createdAt : merged.createdAt,
+  };
+}
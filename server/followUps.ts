@@ -0,0 +1,19 @@
+import { storage } from './storage';
+import { triggerWebhooks } from './webhooks';
+import { followUpOverdueNotification } from './notifications';
+
+// Reminds agents of follow-ups that have come due or gone overdue, with an in-app notification once
+// they are overdue, and returns how many reminders went out
+export async function remindDueFollowUps(now = new Date()): Promise<number> {
+  const reminders = await storage.createFollowUpReminders(now);
+  for (const { reminder, lead } of reminders) {
+    await triggerWebhooks('lead.follow_up_due', {
+      ...lead,
+      followUp: { date: reminder.followUpDate, state: reminder.state, agentId: reminder.userId },
+    });
+    if (reminder.state === 'overdue' && reminder.userId !== null) {
+      await storage.createNotifications([followUpOverdueNotification(lead, reminder.userId)]);
+    }
+  }
+  return reminders.length;
+}
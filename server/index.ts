@@ -1,7 +1,17 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+import { purgeExpiredLeads } from "./trash";
+import { flagOverdueInvoices } from "./invoices";
+import { remindDueFollowUps } from "./followUps";
 import { setupVite, serveStatic, log } from "./vite";
 
+// Interaction windows and contact decay change lead scores with no lead change, so they are refreshed periodically
+const SCORE_REFRESH_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const TRASH_PURGE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const OVERDUE_INVOICE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const FOLLOW_UP_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
 const app = express();
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
@@ -68,4 +78,31 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Leads from before accounts existed are grouped into accounts on the first start after upgrading
+  storage.linkLeadsToAccounts().catch(error => console.error('Account backfill error:', error));
+  // Products from before structured pricing get their free-text price parsed on the first start after upgrading
+  storage.migrateProductPrices().catch(error => console.error('Product price migration error:', error));
+
+  setInterval(() => {
+    storage.refreshLeadScores().catch(error => console.error('Scheduled lead score refresh error:', error));
+  }, SCORE_REFRESH_INTERVAL_MS);
+
+  const purgeTrash = () => {
+    purgeExpiredLeads().catch(error => console.error('Scheduled trash purge error:', error));
+  };
+  purgeTrash();
+  setInterval(purgeTrash, TRASH_PURGE_INTERVAL_MS);
+
+  const checkOverdueInvoices = () => {
+    flagOverdueInvoices().catch(error => console.error('Scheduled overdue invoice check error:', error));
+  };
+  checkOverdueInvoices();
+  setInterval(checkOverdueInvoices, OVERDUE_INVOICE_CHECK_INTERVAL_MS);
+
+  const checkFollowUps = () => {
+    remindDueFollowUps().catch(error => console.error('Scheduled follow-up reminder error:', error));
+  };
+  checkFollowUps();
+  setInterval(checkFollowUps, FOLLOW_UP_CHECK_INTERVAL_MS);
 })();
@@ -0,0 +1,90 @@
+import Papa from 'papaparse';
+import { storage } from './storage';
+import { triggerWebhooks } from './webhooks';
+import { htmlToPdf } from './pdf';
+import { escapeHtml, formatAmount, formatDate } from './quotes';
+import { invoiceBalance, type Invoice, type InvoiceDetail } from '@shared/schema';
+
+export function invoiceFileName(invoice: Pick<Invoice, 'reference'>): string {
+  return `Invoice ${invoice.reference}.pdf`;
+}
+
+const STATUS_LABELS: Record<Invoice['status'], string> = {
+  draft: 'Draft',
+  issued: 'Issued',
+  paid: 'Paid',
+  overdue: 'Overdue',
+};
+
+// The invoice as the HTML subset the PDF renderer understands
+export function invoiceHtml(invoice: InvoiceDetail): string {
+  const money = (amount: number) => escapeHtml(formatAmount(amount, invoice.currency));
+  const text = (value: string) => escapeHtml(value).replace(/\r?\n/g, '<br>');
+
+  const dates = [
+    invoice.issuedAt ? `Issued ${formatDate(invoice.issuedAt)}` : 'Draft',
+    invoice.dueDate ? `Due ${formatDate(invoice.dueDate)}` : null,
+    invoice.paidAt ? `Paid ${formatDate(invoice.paidAt)}` : null,
+  ].filter(Boolean).join(' · ');
+  const customer = [invoice.customerName, invoice.customerCompany, invoice.customerEmail]
+    .filter((line): line is string => !!line)
+    .map(text)
+    .join('<br>');
+  const lines = invoice.lines.map(line => `<tr><td>${text(line.description)}</td>`
+    + `<td align="right">${line.quantity}</td>`
+    + `<td align="right">${money(line.unitPrice)}</td>`
+    + `<td align="right">${line.discount ? money(line.discount) : ''}</td>`
+    + `<td align="right">${money(line.amount)}</td></tr>`).join('\n');
+  const payments = invoice.payments.map(payment => `<li>${formatDate(payment.paidAt)}: ${money(payment.amount)}`
+    + `${payment.method ? ` by ${text(payment.method)}` : ''}${payment.reference ? ` (${text(payment.reference)})` : ''}</li>`).join('\n');
+
+  return `<title>Invoice ${escapeHtml(invoice.reference)}</title>
+<h1>Invoice ${escapeHtml(invoice.reference)}</h1>
+<p>${dates}</p>
+<p><strong>Bill to</strong><br>${customer}</p>
+<hr>
+<table>
+  <tr><th>Description</th><th align="right">Qty</th><th align="right">Unit price</th><th align="right">Discount</th><th align="right">Amount</th></tr>
+${lines}
+</table>
+<p align="right">Subtotal: ${money(invoice.subtotal)}<br>Tax (${invoice.taxRate}%): ${money(invoice.taxAmount)}<br><strong>Total: ${money(invoice.total)}</strong></p>
+${payments ? `<h3>Payments received</h3>\n<ul>\n${payments}\n</ul>` : ''}
+<p align="right"><strong>Balance due: ${money(invoiceBalance(invoice))}</strong></p>
+${invoice.notes ? `<hr>\n<p>${text(invoice.notes)}</p>` : ''}`;
+}
+
+export function invoicePdf(invoice: InvoiceDetail): Buffer {
+  return htmlToPdf(invoiceHtml(invoice), { title: `Invoice ${invoice.reference}`, footer: `Invoice ${invoice.reference}` });
+}
+
+// One row per invoice; amounts are plain numbers in the invoice's currency
+export function invoicesToCsv(invoices: Invoice[]): string {
+  return Papa.unparse(invoices.map(invoice => ({
+    reference: invoice.reference,
+    status: STATUS_LABELS[invoice.status],
+    leadId: invoice.leadId ?? '',
+    customerName: invoice.customerName,
+    customerCompany: invoice.customerCompany || '',
+    customerEmail: invoice.customerEmail || '',
+    currency: invoice.currency,
+    subtotal: invoice.subtotal,
+    taxRate: invoice.taxRate,
+    taxAmount: invoice.taxAmount,
+    total: invoice.total,
+    amountPaid: invoice.amountPaid,
+    balance: invoiceBalance(invoice),
+    issuedAt: invoice.issuedAt ? invoice.issuedAt.toISOString() : '',
+    dueDate: invoice.dueDate ? invoice.dueDate.toISOString() : '',
+    paidAt: invoice.paidAt ? invoice.paidAt.toISOString() : '',
+    createdAt: invoice.createdAt.toISOString(),
+  })));
+}
+
+// Marks issued invoices that have passed their due date unpaid as overdue and returns how many changed
+export async function flagOverdueInvoices(now = new Date()): Promise<number> {
+  const overdue = await storage.markOverdueInvoices(now);
+  for (const invoice of overdue) {
+    await triggerWebhooks('invoice.overdue', invoice);
+  }
+  return overdue.length;
+}
@@ -0,0 +1,66 @@
+import type { Lead, LeadProduct } from '@shared/schema';
+
+// Written by the system rather than edited, so they stay out of the change log. Custom fields are
+// compared key by key instead of as one column.
+const UNTRACKED_FIELDS = new Set<string>(['id', 'createdAt', 'scoreBreakdown', 'closedAt', 'deletedAt', 'deletedById', 'customFields']);
+
+export const ASSIGNMENT_FIELDS = ['assignedTo', 'assignedEngineer'];
+
+export interface LeadFieldDiff {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+// Empty strings and lists count as unset, and dates are logged the way the API returns them
+function normalizeValue(value: unknown): unknown {
+  if (value === undefined || value === '') return null;
+  if (Array.isArray(value) && value.length === 0) return null;
+  if (value instanceof Date) return value.toISOString();
+  return value;
+}
+
+function pushIfChanged(diffs: LeadFieldDiff[], field: string, before: unknown, after: unknown) {
+  const oldValue = normalizeValue(before);
+  const newValue = normalizeValue(after);
+  if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+    diffs.push({ field, oldValue, newValue });
+  }
+}
+
+// Fields that differ between two versions of a lead; without a previous version every set field is listed
+export function diffLeadFields(before: Partial<Lead> | null, after: Partial<Lead>): LeadFieldDiff[] {
+  const diffs: LeadFieldDiff[] = [];
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after)]);
+  for (const field of Array.from(fields)) {
+    if (UNTRACKED_FIELDS.has(field)) continue;
+    pushIfChanged(diffs, field, before?.[field as keyof Lead], after[field as keyof Lead]);
+  }
+
+  const beforeCustom = before?.customFields ?? {};
+  const afterCustom = after.customFields ?? {};
+  const keys = new Set([...Object.keys(beforeCustom), ...Object.keys(afterCustom)]);
+  for (const key of Array.from(keys)) {
+    pushIfChanged(diffs, `customFields.${key}`, beforeCustom[key], afterCustom[key]);
+  }
+
+  return diffs;
+}
+
+export function diffProductIds(before: number[], after: number[]): LeadFieldDiff[] {
+  const diffs: LeadFieldDiff[] = [];
+  pushIfChanged(diffs, 'products', [...before].sort((a, b) => a - b), Array.from(new Set(after)).sort((a, b) => a - b));
+  return diffs;
+}
+
+type LineItemFields = Pick<LeadProduct, 'productId' | 'quantity' | 'unitPrice' | 'discount' | 'discountType' | 'billingType'>;
+
+// Line items are logged as one list, ordered by product, holding only what can be edited
+export function diffLineItems(before: LineItemFields[], after: LineItemFields[]): LeadFieldDiff[] {
+  const snapshot = (items: LineItemFields[]) => [...items]
+    .sort((a, b) => a.productId - b.productId)
+    .map(({ productId, quantity, unitPrice, discount, discountType, billingType }) => ({ productId, quantity, unitPrice, discount, discountType, billingType }));
+  const diffs: LeadFieldDiff[] = [];
+  pushIfChanged(diffs, 'lineItems', snapshot(before), snapshot(after));
+  return diffs;
+}
@@ -0,0 +1,103 @@
+import { and, or, not, gte, lte, inArray, isNull, sql, type SQL } from 'drizzle-orm';
+import {
+  leads,
+  leadProducts,
+  interactions,
+  leadFilterGroupSchema,
+  isLeadFilterGroup,
+  LEAD_FILTER_MAX_DEPTH,
+  type LeadFilterCondition,
+  type LeadFilterGroup,
+} from '@shared/schema';
+
+// Raised for a ?filter= that isn't a valid filter query; routes answer it with a 400
+export class LeadFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LeadFilterError';
+    Object.setPrototypeOf(this, LeadFilterError.prototype);
+  }
+}
+
+function groupDepth(group: LeadFilterGroup): number {
+  const nested = group.conditions.filter(isLeadFilterGroup).map(groupDepth);
+  return 1 + (nested.length > 0 ? Math.max(...nested) : 0);
+}
+
+// Accepts the JSON text of a ?filter= parameter or an already parsed query
+export function parseLeadFilterQuery(value: unknown): LeadFilterGroup | undefined {
+  if (value === undefined || value === '') return undefined;
+
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      throw new LeadFilterError('Filter must be valid JSON');
+    }
+  }
+
+  const result = leadFilterGroupSchema.safeParse(parsed);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new LeadFilterError(`Invalid filter at ${issue.path.join('.') || 'root'}: ${issue.message}`);
+  }
+  if (groupDepth(result.data) > LEAD_FILTER_MAX_DEPTH) {
+    throw new LeadFilterError(`Filter groups can be nested at most ${LEAD_FILTER_MAX_DEPTH} deep`);
+  }
+  return result.data;
+}
+
+function conditionSql(condition: LeadFilterCondition): SQL | undefined {
+  switch (condition.type) {
+    case 'range': {
+      const column = leads[condition.field];
+      return and(
+        condition.min !== undefined ? gte(column, condition.min) : undefined,
+        condition.max !== undefined ? lte(column, condition.max) : undefined
+      );
+    }
+    case 'dateRange': {
+      // `to` is inclusive, so the range runs up to the start of the following day
+      const column = leads[condition.field];
+      return and(
+        condition.from ? sql`${column} >= ${condition.from}::date` : undefined,
+        condition.to ? sql`${column} < ${condition.to}::date + 1` : undefined
+      );
+    }
+    case 'tags': {
+      const tags = sql`ARRAY[${sql.join(condition.tags.map(tag => sql`${tag}`), sql`, `)}]::text[]`;
+      return condition.match === 'all' ? sql`${leads.tags} @> ${tags}` : sql`${leads.tags} && ${tags}`;
+    }
+    case 'products': {
+      const productIds = Array.from(new Set(condition.productIds));
+      const matching = sql`select count(distinct ${leadProducts.productId}) from ${leadProducts}
+        where ${leadProducts.leadId} = ${leads.id} and ${inArray(leadProducts.productId, productIds)}`;
+      return condition.match === 'all' ? sql`(${matching}) = ${productIds.length}` : sql`(${matching}) > 0`;
+    }
+    case 'user': {
+      const column = leads[condition.field];
+      const userIds = condition.userIds.filter((id): id is number => id !== null);
+      return or(
+        userIds.length > 0 ? inArray(column, userIds) : undefined,
+        condition.userIds.includes(null) ? isNull(column) : undefined
+      );
+    }
+    case 'choice':
+      return inArray(leads[condition.field], condition.values);
+    case 'noInteractionsSince':
+      return not(sql`exists (select 1 from ${interactions}
+        where ${interactions.leadId} = ${leads.id} and ${interactions.createdAt} >= ${condition.since}::date)`);
+  }
+}
+
+// SQL for a filter query; empty groups and conditions without bounds match every lead, so one of
+// them makes a whole OR group match every lead
+export function leadQueryCondition(group: LeadFilterGroup): SQL | undefined {
+  const parts = group.conditions
+    .map(entry => isLeadFilterGroup(entry) ? leadQueryCondition(entry) : conditionSql(entry));
+  if (group.combinator === 'or' && parts.includes(undefined)) return undefined;
+  const bounded = parts.filter((part): part is SQL => part !== undefined);
+  if (bounded.length === 0) return undefined;
+  return group.combinator === 'or' ? or(...bounded) : and(...bounded);
+}
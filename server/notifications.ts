@@ -0,0 +1,55 @@
+import type { InsertNotification, Interaction, Lead } from '@shared/schema';
+
+// The in-app notifications the CRM sends. Each one goes to a single user; storage drops those
+// for events the user has turned off.
+
+const leadTitle = (lead: Pick<Lead, 'name' | 'company'>) => lead.company ? `${lead.name} (${lead.company})` : lead.name;
+
+export function leadAssignedNotification(lead: Lead, agentId: number, assignedByName?: string): InsertNotification {
+  return {
+    userId: agentId,
+    event: 'lead_assigned',
+    title: 'Lead assigned to you',
+    message: assignedByName ? `${assignedByName} assigned you ${leadTitle(lead)}` : `You were assigned ${leadTitle(lead)}`,
+    leadId: lead.id,
+  };
+}
+
+// assignedByName is left out when the engineer was picked automatically
+export function engineerAssignedNotification(lead: Lead, engineerId: number, assignedByName?: string): InsertNotification {
+  return {
+    userId: engineerId,
+    event: 'engineer_assigned',
+    title: 'New lead to engineer',
+    message: assignedByName
+      ? `${assignedByName} made you the engineer on ${leadTitle(lead)}`
+      : `You were picked as the engineer on ${leadTitle(lead)}`,
+    leadId: lead.id,
+  };
+}
+
+// Goes to the lead's agent and engineer, except whoever logged it
+export function urgentInteractionNotifications(interaction: Interaction, lead: Lead, authorName?: string): InsertNotification[] {
+  const recipients = new Set([lead.assignedTo, lead.assignedEngineer]);
+  recipients.delete(interaction.userId);
+  const text = interaction.text.length > 140 ? `${interaction.text.slice(0, 140)}…` : interaction.text;
+  return Array.from(recipients)
+    .filter((userId): userId is number => userId !== null)
+    .map(userId => ({
+      userId,
+      event: 'urgent_interaction' as const,
+      title: `Urgent: ${leadTitle(lead)}`,
+      message: authorName ? `${authorName}: ${text}` : text,
+      leadId: lead.id,
+    }));
+}
+
+export function followUpOverdueNotification(lead: Lead, agentId: number): InsertNotification {
+  return {
+    userId: agentId,
+    event: 'follow_up_overdue',
+    title: 'Follow-up overdue',
+    message: `The follow-up with ${leadTitle(lead)} is overdue`,
+    leadId: lead.id,
+  };
+}
@@ -0,0 +1,538 @@
+import { deflateSync } from 'zlib';
+
+// A small HTML-to-PDF renderer for generated documents such as quotes. It lays out the subset of
+// HTML that document templates use (headings, paragraphs, lists, tables, bold and italic text,
+// rules and line breaks) with the PDF standard Helvetica fonts, so nothing needs a browser, font
+// files or network access. Other tags are rendered as their text; styles other than text-align
+// are ignored.
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BODY_SIZE = 10;
+const CELL_PADDING = 4;
+
+// Advance widths (per 1000 units of font size) of the printable ASCII characters, from the
+// Helvetica and Helvetica-Bold AFM files; the oblique faces share them
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding has a code for, with their Helvetica widths
+const WIN_ANSI_EXTRAS: Record<string, { code: number; width: number }> = {
+  '€': { code: 0x80, width: 556 },
+  '‚': { code: 0x82, width: 222 },
+  '„': { code: 0x84, width: 333 },
+  '…': { code: 0x85, width: 1000 },
+  '‘': { code: 0x91, width: 222 },
+  '’': { code: 0x92, width: 222 },
+  '“': { code: 0x93, width: 333 },
+  '”': { code: 0x94, width: 333 },
+  '•': { code: 0x95, width: 350 },
+  '–': { code: 0x96, width: 556 },
+  '—': { code: 0x97, width: 1000 },
+  '™': { code: 0x99, width: 1000 },
+};
+
+// Fallbacks for common characters the standard fonts can't show
+const REPLACEMENTS: Record<string, string> = { '₹': 'Rs', '→': '->', '←': '<-', '✓': 'v', '​': '' };
+
+type FontKey = 'F1' | 'F2' | 'F3' | 'F4';
+const FONTS: Record<FontKey, string> = { F1: 'Helvetica', F2: 'Helvetica-Bold', F3: 'Helvetica-Oblique', F4: 'Helvetica-BoldOblique' };
+
+interface Style { bold: boolean; italic: boolean }
+interface Run extends Style { text: string }
+type Align = 'left' | 'center' | 'right';
+
+type Block =
+  | { type: 'text'; runs: Run[]; size: number; align: Align; spaceBefore: number; spaceAfter: number; indent: number; marker?: string }
+  | { type: 'rule' }
+  | { type: 'table'; rows: TableRow[] };
+
+interface TableCell { runs: Run[]; align: Align; header: boolean }
+interface TableRow { cells: TableCell[] }
+
+const HEADING_SIZES: Record<string, number> = { h1: 20, h2: 15, h3: 12.5, h4: 11, h5: 10, h6: 10 };
+const BLOCK_TAGS = new Set(['p', 'div', 'section', 'header', 'footer', 'article', 'address', 'blockquote', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'table', 'thead', 'tbody', 'tfoot', 'tr', 'td', 'th', 'hr', 'br']);
+const SKIPPED_TAGS = new Set(['style', 'script', 'title']);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', euro: '€', pound: '£', yen: '¥', copy: '©',
+  reg: '®', trade: '™', mdash: '—', ndash: '–', hellip: '…', bull: '•', times: '×', middot: '·',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function attributeAlign(attributes: string): Align | undefined {
+  const match = attributes.match(/\balign\s*=\s*["']?(left|center|right)/i)
+    ?? attributes.match(/text-align\s*:\s*(left|center|right)/i);
+  return match ? match[1].toLowerCase() as Align : undefined;
+}
+
+// Turns the HTML into a list of blocks to lay out, plus the document title if it has one
+function parseHtml(html: string): { blocks: Block[]; title: string | null } {
+  const blocks: Block[] = [];
+  const styles: Style[] = [{ bold: false, italic: false }];
+  const lists: { ordered: boolean; count: number }[] = [];
+  let title: string | null = null;
+  let runs: Run[] = [];
+  let block: { tag: string; align: Align; marker?: string } = { tag: 'p', align: 'left' };
+  let table: { rows: TableRow[]; row: TableRow | null; cell: TableCell | null } | null = null;
+  let skipping: string | null = null;
+
+  const style = () => styles[styles.length - 1];
+  // Stray closing tags never remove the base style
+  const popStyle = () => {
+    if (styles.length > 1) styles.pop();
+  };
+
+  const addText = (raw: string) => {
+    const text = decodeEntities(raw.replace(/\s+/g, ' '));
+    if (!text) return;
+    const target = table?.cell ? table.cell.runs : runs;
+    target.push({ text, ...style() });
+  };
+
+  // Ends the current paragraph-like block, dropping it if it has no text
+  const flush = () => {
+    const trimmed = trimRuns(runs);
+    runs = [];
+    if (trimmed.length === 0) return;
+    const heading = HEADING_SIZES[block.tag];
+    blocks.push({
+      type: 'text',
+      runs: heading ? trimmed.map(run => ({ ...run, bold: true })) : trimmed,
+      size: heading ?? BODY_SIZE,
+      align: block.align,
+      spaceBefore: heading ? heading * 0.6 : 0,
+      spaceAfter: block.tag === 'li' ? 2 : heading ? 4 : 6,
+      indent: block.tag === 'li' ? 14 * lists.length : 0,
+      marker: block.marker,
+    });
+  };
+
+  const tokens = html.replace(/<!--[\s\S]*?-->/g, '').split(/(<\/?[a-zA-Z][a-zA-Z0-9]*(?:\s[^>]*)?\/?>)/);
+  for (const token of tokens) {
+    const tag = token.match(/^<(\/?)([a-zA-Z][a-zA-Z0-9]*)([^>]*)>$/);
+    if (!tag) {
+      if (skipping) {
+        if (skipping === 'title' && title === null) title = decodeEntities(token.replace(/\s+/g, ' ').trim()) || null;
+        continue;
+      }
+      addText(token);
+      continue;
+    }
+
+    const [, closing, rawName, attributes] = tag;
+    const name = rawName.toLowerCase();
+    if (skipping) {
+      if (closing && name === skipping) skipping = null;
+      continue;
+    }
+    if (!closing && SKIPPED_TAGS.has(name)) {
+      skipping = name;
+      continue;
+    }
+
+    if (name === 'b' || name === 'strong') {
+      if (closing) popStyle(); else styles.push({ ...style(), bold: true });
+      continue;
+    }
+    if (name === 'i' || name === 'em') {
+      if (closing) popStyle(); else styles.push({ ...style(), italic: true });
+      continue;
+    }
+    if (!BLOCK_TAGS.has(name)) continue;
+
+    if (name === 'br') {
+      (table?.cell ? table.cell.runs : runs).push({ text: '\n', ...style() });
+      continue;
+    }
+    if (name === 'hr') {
+      flush();
+      blocks.push({ type: 'rule' });
+      continue;
+    }
+
+    if (table && (name === 'tr' || name === 'td' || name === 'th' || name === 'thead' || name === 'tbody' || name === 'tfoot')) {
+      if (name === 'tr') {
+        if (!closing) {
+          table.row = { cells: [] };
+        } else if (table.row) {
+          if (table.row.cells.length > 0) table.rows.push(table.row);
+          table.row = null;
+        }
+      } else if (name === 'td' || name === 'th') {
+        if (!closing) {
+          if (!table.row) table.row = { cells: [] };
+          table.cell = { runs: [], align: attributeAlign(attributes) ?? 'left', header: name === 'th' };
+          styles.push({ ...style(), bold: style().bold || name === 'th' });
+        } else if (table.cell && table.row) {
+          table.row.cells.push({ ...table.cell, runs: trimRuns(table.cell.runs) });
+          table.cell = null;
+          popStyle();
+        }
+      }
+      continue;
+    }
+    if (name === 'table') {
+      flush();
+      if (!closing) {
+        table = { rows: [], row: null, cell: null };
+      } else if (table) {
+        if (table.row && table.row.cells.length > 0) table.rows.push(table.row);
+        if (table.rows.length > 0) blocks.push({ type: 'table', rows: table.rows });
+        table = null;
+      }
+      continue;
+    }
+    if (table) continue; // block tags inside a cell only separate text
+
+    flush();
+    if (name === 'ul' || name === 'ol') {
+      if (closing) lists.pop(); else lists.push({ ordered: name === 'ol', count: 0 });
+      block = { tag: 'p', align: 'left' };
+      continue;
+    }
+    if (closing) {
+      block = { tag: 'p', align: 'left' };
+      continue;
+    }
+    const list = lists[lists.length - 1];
+    const marker = name === 'li' ? (list?.ordered ? `${++list.count}.` : '•') : undefined;
+    block = { tag: name, align: attributeAlign(attributes) ?? 'left', marker };
+  }
+  flush();
+
+  return { blocks, title };
+}
+
+// Drops leading and trailing spaces and empty runs, keeping deliberate line breaks inside
+function trimRuns(runs: Run[]): Run[] {
+  const result = runs.filter(run => run.text !== '');
+  while (result.length > 0 && result[0].text.trim() === '' && result[0].text !== '\n') result.shift();
+  while (result.length > 0 && /^[ \n]*$/.test(result[result.length - 1].text)) result.pop();
+  if (result.length > 0) {
+    result[0] = { ...result[0], text: result[0].text.replace(/^ +/, '') };
+    const last = result.length - 1;
+    result[last] = { ...result[last], text: result[last].text.replace(/ +$/, '') };
+  }
+  return result;
+}
+
+function normalizeText(text: string): string {
+  return Array.from(text).map(char => REPLACEMENTS[char] ?? char).join('');
+}
+
+function charWidth(char: string, bold: boolean): number {
+  const code = char.charCodeAt(0);
+  if (code >= 32 && code <= 126) return (bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[code - 32];
+  return WIN_ANSI_EXTRAS[char]?.width ?? 556;
+}
+
+function textWidth(text: string, style: Style, size: number): number {
+  let width = 0;
+  for (const char of text) width += charWidth(char, style.bold);
+  return width * size / 1000;
+}
+
+function fontFor(style: Style): FontKey {
+  return style.bold ? (style.italic ? 'F4' : 'F2') : (style.italic ? 'F3' : 'F1');
+}
+
+// Encodes text as a PDF string literal in WinAnsiEncoding
+function pdfString(text: string): string {
+  let out = '';
+  for (const char of text) {
+    const extra = WIN_ANSI_EXTRAS[char];
+    const code = extra ? extra.code : char.charCodeAt(0);
+    if (code > 255 || (code < 32 && !extra)) {
+      out += '?';
+    } else if (char === '(' || char === ')' || char === '\\') {
+      out += '\\' + char;
+    } else {
+      out += String.fromCharCode(code);
+    }
+  }
+  return `(${out})`;
+}
+
+interface Line { runs: Run[]; width: number }
+
+// Wraps styled runs into lines no wider than maxWidth, breaking between words
+function wrapRuns(runs: Run[], size: number, maxWidth: number): Line[] {
+  const lines: Line[] = [];
+  let line: Line = { runs: [], width: 0 };
+  const pushLine = () => {
+    const last = line.runs[line.runs.length - 1];
+    if (last && last.text.endsWith(' ')) {
+      line.width -= textWidth(' ', last, size);
+      line.runs[line.runs.length - 1] = { ...last, text: last.text.slice(0, -1) };
+    }
+    lines.push(line);
+    line = { runs: [], width: 0 };
+  };
+  const append = (text: string, style: Style, width: number) => {
+    const last = line.runs[line.runs.length - 1];
+    if (last && last.bold === style.bold && last.italic === style.italic) {
+      line.runs[line.runs.length - 1] = { ...last, text: last.text + text };
+    } else {
+      line.runs.push({ text, bold: style.bold, italic: style.italic });
+    }
+    line.width += width;
+  };
+
+  for (const run of runs) {
+    const parts = normalizeText(run.text).split(/(\n| )/);
+    for (const part of parts) {
+      if (part === '') continue;
+      if (part === '\n') {
+        pushLine();
+        continue;
+      }
+      if (part === ' ') {
+        if (line.runs.length > 0) append(' ', run, textWidth(' ', run, size));
+        continue;
+      }
+      let word = part;
+      let width = textWidth(word, run, size);
+      if (line.width + width > maxWidth && line.runs.length > 0) pushLine();
+      // A word longer than a whole line is split wherever it has to be
+      while (width > maxWidth) {
+        let fit = word.length - 1;
+        while (fit > 1 && textWidth(word.slice(0, fit), run, size) > maxWidth) fit--;
+        append(word.slice(0, fit), run, textWidth(word.slice(0, fit), run, size));
+        pushLine();
+        word = word.slice(fit);
+        width = textWidth(word, run, size);
+      }
+      append(word, run, width);
+    }
+  }
+  if (line.runs.length > 0 || lines.length === 0) pushLine();
+  return lines;
+}
+
+// Page content streams, built top to bottom
+class PageWriter {
+  pages: string[][] = [];
+  y = 0;
+
+  constructor() {
+    this.newPage();
+  }
+
+  newPage() {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y - height < MARGIN && this.y < PAGE_HEIGHT - MARGIN) this.newPage();
+  }
+
+  get ops() {
+    return this.pages[this.pages.length - 1];
+  }
+
+  // Draws one wrapped line with its baseline `size` below the current position
+  drawLine(line: Line, x: number, top: number, size: number, width: number, align: Align) {
+    let cursor = align === 'right' ? x + width - line.width : align === 'center' ? x + (width - line.width) / 2 : x;
+    const baseline = top - size;
+    for (const run of line.runs) {
+      this.ops.push(`BT /${fontFor(run)} ${size} Tf ${cursor.toFixed(2)} ${baseline.toFixed(2)} Td ${pdfString(run.text)} Tj ET`);
+      cursor += textWidth(run.text, run, size);
+    }
+  }
+
+  rule(x1: number, x2: number, y: number, gray = 0.75) {
+    this.ops.push(`${gray} G 0.5 w ${x1.toFixed(2)} ${y.toFixed(2)} m ${x2.toFixed(2)} ${y.toFixed(2)} l S`);
+  }
+
+  fill(x: number, y: number, width: number, height: number, gray: number) {
+    this.ops.push(`${gray} g ${x.toFixed(2)} ${y.toFixed(2)} ${width.toFixed(2)} ${height.toFixed(2)} re f 0 g`);
+  }
+}
+
+function layoutText(writer: PageWriter, block: Extract<Block, { type: 'text' }>) {
+  const lineHeight = block.size * 1.35;
+  const markerWidth = block.marker ? 14 : 0;
+  const x = MARGIN + block.indent + markerWidth;
+  const width = CONTENT_WIDTH - block.indent - markerWidth;
+  const lines = wrapRuns(block.runs, block.size, width);
+
+  writer.y -= block.spaceBefore;
+  lines.forEach((line, index) => {
+    writer.ensureSpace(lineHeight);
+    if (index === 0 && block.marker) {
+      writer.drawLine(wrapRuns([{ text: block.marker, bold: false, italic: false }], block.size, markerWidth)[0], MARGIN + block.indent, writer.y, block.size, markerWidth, 'left');
+    }
+    writer.drawLine(line, x, writer.y, block.size, width, block.align);
+    writer.y -= lineHeight;
+  });
+  writer.y -= block.spaceAfter;
+}
+
+// Columns get their natural width when the table fits, otherwise share the page in proportion
+function columnWidths(rows: TableRow[], columns: number): number[] {
+  const natural = new Array(columns).fill(20);
+  for (const row of rows) {
+    row.cells.forEach((cell, index) => {
+      const width = cell.runs.reduce((sum, run) => sum + textWidth(normalizeText(run.text), run, BODY_SIZE), 0) + CELL_PADDING * 2;
+      natural[index] = Math.max(natural[index], width);
+    });
+  }
+  const total = natural.reduce((sum, width) => sum + width, 0);
+  if (total <= CONTENT_WIDTH) {
+    // Spare room goes to the first column, which usually holds the description
+    natural[0] += CONTENT_WIDTH - total;
+    return natural;
+  }
+  const minimum = Math.min(60, CONTENT_WIDTH / columns);
+  const capped = natural.map(width => Math.max(minimum, width * CONTENT_WIDTH / total));
+  const scale = CONTENT_WIDTH / capped.reduce((sum, width) => sum + width, 0);
+  return capped.map(width => width * scale);
+}
+
+function layoutTable(writer: PageWriter, rows: TableRow[]) {
+  const columns = Math.max(...rows.map(row => row.cells.length));
+  const widths = columnWidths(rows, columns);
+  const lineHeight = BODY_SIZE * 1.35;
+
+  writer.y -= 4;
+  for (const row of rows) {
+    const cellLines = row.cells.map((cell, index) => wrapRuns(cell.runs, BODY_SIZE, widths[index] - CELL_PADDING * 2));
+    const height = Math.max(...cellLines.map(lines => lines.length)) * lineHeight + CELL_PADDING * 2;
+    writer.ensureSpace(height);
+    const isHeader = row.cells.every(cell => cell.header);
+    if (isHeader) writer.fill(MARGIN, writer.y - height, CONTENT_WIDTH, height, 0.93);
+
+    let x = MARGIN;
+    row.cells.forEach((cell, index) => {
+      // A short row's last cell spans the remaining columns
+      const width = index === row.cells.length - 1 ? MARGIN + CONTENT_WIDTH - x : widths[index];
+      cellLines[index].forEach((line, lineIndex) => {
+        writer.drawLine(line, x + CELL_PADDING, writer.y - CELL_PADDING - lineIndex * lineHeight, BODY_SIZE, width - CELL_PADDING * 2, cell.align);
+      });
+      x += width;
+    });
+    writer.y -= height;
+    writer.rule(MARGIN, MARGIN + CONTENT_WIDTH, writer.y, 0.85);
+  }
+  writer.y -= 10;
+}
+
+export interface PdfOptions {
+  title?: string;
+  // Printed at the bottom of every page next to the page number
+  footer?: string;
+}
+
+// Renders the HTML to a PDF file's bytes
+export function htmlToPdf(html: string, options: PdfOptions = {}): Buffer {
+  const { blocks, title } = parseHtml(html);
+  const writer = new PageWriter();
+
+  for (const block of blocks) {
+    if (block.type === 'text') {
+      layoutText(writer, block);
+    } else if (block.type === 'rule') {
+      writer.ensureSpace(12);
+      writer.y -= 4;
+      writer.rule(MARGIN, MARGIN + CONTENT_WIDTH, writer.y);
+      writer.y -= 8;
+    } else {
+      layoutTable(writer, block.rows);
+    }
+  }
+
+  const pageCount = writer.pages.length;
+  writer.pages.forEach((ops, index) => {
+    const footerStyle = { bold: false, italic: false };
+    const pageLabel = `Page ${index + 1} of ${pageCount}`;
+    ops.push(`0.45 g BT /F1 8 Tf ${(MARGIN + CONTENT_WIDTH - textWidth(pageLabel, footerStyle, 8)).toFixed(2)} 30 Td ${pdfString(pageLabel)} Tj ET`);
+    if (options.footer) {
+      ops.push(`BT /F1 8 Tf ${MARGIN} 30 Td ${pdfString(normalizeText(options.footer))} Tj ET`);
+    }
+    ops.push('0 g');
+  });
+
+  return writePdf(writer.pages, options.title ?? title ?? 'Document');
+}
+
+// Serializes the pages into a PDF 1.4 file with a cross-reference table
+function writePdf(pages: string[][], title: string): Buffer {
+  const objects: Buffer[] = [];
+  const add = (body: string | Buffer) => {
+    objects.push(typeof body === 'string' ? Buffer.from(body, 'latin1') : body);
+    return objects.length;
+  };
+
+  const catalogId = add(''); // filled in once the page tree exists
+  const pagesId = add('');
+  const fontIds = Object.fromEntries(Object.entries(FONTS).map(([key, name]) => [
+    key,
+    add(`<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding /WinAnsiEncoding >>`),
+  ])) as Record<FontKey, number>;
+  const fontResources = Object.entries(fontIds).map(([key, id]) => `/${key} ${id} 0 R`).join(' ');
+
+  const pageIds = pages.map(ops => {
+    const content = deflateSync(Buffer.from(ops.join('\n'), 'latin1'));
+    const contentId = add(Buffer.concat([
+      Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+      content,
+      Buffer.from('\nendstream', 'latin1'),
+    ]));
+    return add(`<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << ${fontResources} >> >> /Contents ${contentId} 0 R >>`);
+  });
+  objects[catalogId - 1] = Buffer.from(`<< /Type /Catalog /Pages ${pagesId} 0 R >>`, 'latin1');
+  objects[pagesId - 1] = Buffer.from(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`, 'latin1');
+  const infoId = add(`<< /Title ${pdfString(normalizeText(title))} /Producer (SiwahtCRM) >>`);
+
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(offset);
+    const chunk = Buffer.concat([Buffer.from(`${index + 1} 0 obj\n`, 'latin1'), body, Buffer.from('\nendobj\n', 'latin1')]);
+    chunks.push(chunk);
+    offset += chunk.length;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(value => `${String(value).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+  ].join('\n');
+  chunks.push(Buffer.from(xref + '\n', 'latin1'));
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,60 @@
+import { COMMON_CURRENCIES, type PricingModel } from '@shared/schema';
+
+const CURRENCY_SYMBOLS: Record<string, string> = { '$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY', '₹': 'INR' };
+
+const AMOUNT = String.raw`(\d[\d,]*(?:\.\d+)?)\s*(k\b)?`;
+const SETUP_FEE_PATTERNS = [
+  new RegExp(String.raw`[$€£¥₹]?\s*${AMOUNT}\s*(?:one[- ]?time\s+)?(?:setup|set-up|onboarding)`, 'i'),
+  new RegExp(String.raw`(?:setup|set-up|onboarding)(?:\s+fee)?\s*(?:of|:|-)?\s*[$€£¥₹]?\s*${AMOUNT}`, 'i'),
+];
+
+const MODEL_PATTERNS: [PricingModel, RegExp][] = [
+  ['per_seat', /\b(?:per|\/|a)\s*(?:seat|user|agent|licen[cs]e)s?\b/i],
+  ['usage', /\b(?:per|\/)\s*(?:minute|min|call|message|request|conversation|token|1,?000)\b|\busage\b/i],
+  ['monthly', /\/\s*mo(?:nth)?\b|\bper\s+month\b|\bmonthly\b|\ba\s+month\b|\bpm\b/i],
+];
+
+// A price that is nothing but an amount needs no note once it is stored as a number
+const BARE_PRICE_PATTERN = /^\s*[$€£¥₹]?\s*\d[\d,]*(?:\.\d+)?\s*k?\s*(?:[A-Z]{3})?\s*$/i;
+
+function parseAmount(digits: string, thousands?: string): number {
+  return parseFloat(digits.replace(/,/g, '')) * (thousands ? 1000 : 1);
+}
+
+export interface ParsedProductPrice {
+  priceAmount: number | null;
+  currency: string;
+  pricingModel: PricingModel;
+  setupFee: number | null;
+  note: string | null;
+}
+
+// Reads a free-text catalog price ("$1,500 + $500 setup", "From €99/month", "Contact us") into
+// the structured price. Prices without a currency are taken to be in the fallback currency.
+export function parseProductPrice(text: string | null, fallbackCurrency: string): ParsedProductPrice {
+  const price = text?.trim() ?? '';
+
+  let rest = price;
+  let setupFee: number | null = null;
+  for (const pattern of SETUP_FEE_PATTERNS) {
+    const match = rest.match(pattern);
+    if (match) {
+      setupFee = parseAmount(match[1], match[2]);
+      rest = rest.replace(match[0], ' ');
+      break;
+    }
+  }
+
+  const amount = rest.match(new RegExp(AMOUNT, 'i'));
+  const code = price.toUpperCase().match(/\b[A-Z]{3}\b/g)?.find(word => COMMON_CURRENCIES.includes(word));
+  const symbol = Object.keys(CURRENCY_SYMBOLS).find(sign => price.includes(sign));
+  const pricingModel = amount ? MODEL_PATTERNS.find(([, pattern]) => pattern.test(price))?.[0] ?? 'fixed' : 'quote';
+
+  return {
+    priceAmount: amount ? parseAmount(amount[1], amount[2]) : null,
+    currency: code ?? (symbol ? CURRENCY_SYMBOLS[symbol] : fallbackCurrency),
+    pricingModel,
+    setupFee,
+    note: price && !BARE_PRICE_PATTERN.test(price) ? price : null,
+  };
+}
@@ -0,0 +1,107 @@
+import { lineItemTotals, quoteReference, QUOTE_VALIDITY_DAYS, type Lead, type LeadLineItem, type User } from '@shared/schema';
+
+// Seeded on first use so quotes can be generated before an admin has written a template
+export const DEFAULT_QUOTE_TEMPLATE = {
+  name: 'Standard quote',
+  body: `<title>Quote {{quote.number}}</title>
+<h1>Quote {{quote.number}}</h1>
+<p>Version {{quote.version}} · {{quote.date}} · Valid until {{quote.validUntil}}</p>
+<p><strong>Prepared for</strong><br>{{lead.name}}{{#lead.company}}<br>{{lead.company}}{{/lead.company}}{{#lead.email}}<br>{{lead.email}}{{/lead.email}}</p>
+<hr>
+<table>
+  <tr><th>Product</th><th align="right">Qty</th><th align="right">Unit price</th><th align="right">Discount</th><th>Billing</th><th align="right">Total</th></tr>
+  {{#items}}<tr><td>{{name}}</td><td align="right">{{quantity}}</td><td align="right">{{unitPrice}}</td><td align="right">{{discount}}</td><td>{{billing}}</td><td align="right">{{total}}</td></tr>{{/items}}
+</table>
+<p align="right">One-time: <strong>{{quote.oneTimeTotal}}</strong><br>Monthly: <strong>{{quote.monthlyTotal}}</strong></p>
+<h2>What's included</h2>
+{{#items}}<h3>{{name}}</h3>{{#pitch}}<p>{{pitch}}</p>{{/pitch}}{{#talkingPoints}}<p>{{talkingPoints}}</p>{{/talkingPoints}}{{/items}}
+<hr>
+{{#agent.name}}<p>Prepared by {{agent.name}}{{#agent.email}} · {{agent.email}}{{/agent.email}}</p>{{/agent.name}}`,
+};
+
+export function quoteFileName(number: number, version: number): string {
+  return `Quote ${quoteReference(number)} v${version}.pdf`;
+}
+
+export function formatAmount(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${currency} ${amount.toLocaleString('en-US')}`;
+  }
+}
+
+export function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+type MergeValue = string | number | null | undefined | MergeData | MergeData[];
+export interface MergeData { [key: string]: MergeValue }
+
+// The merge data for one quote version: amounts are formatted in the lead's currency
+export function quoteMergeData(lead: Lead, items: LeadLineItem[], agent: User | undefined, number: number, version: number, date = new Date()): MergeData {
+  const totals = lineItemTotals(items);
+  const money = (amount: number) => formatAmount(amount, lead.currency);
+  const validUntil = new Date(date.getTime() + QUOTE_VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+
+  return {
+    quote: {
+      number: quoteReference(number),
+      version,
+      date: formatDate(date),
+      validUntil: formatDate(validUntil),
+      oneTimeTotal: money(totals.oneTime),
+      monthlyTotal: money(totals.monthly),
+      total: money(totals.value),
+    },
+    lead: { name: lead.name, company: lead.company, email: lead.email, phone: lead.phone },
+    agent: { name: agent?.name, email: agent?.email },
+    items: items.map(item => ({
+      name: item.product.name,
+      pitch: item.product.pitch,
+      talkingPoints: item.product.talkingPoints,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice === null ? 'On request' : money(item.unitPrice),
+      discount: !item.discount ? '' : item.discountType === 'percent' ? `${item.discount}%` : money(item.discount),
+      billing: item.billingType === 'monthly' ? 'Monthly' : 'One-time',
+      total: money(item.total),
+    })),
+  };
+}
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Looks a dotted field up in the innermost section first, then outwards
+function lookup(contexts: MergeData[], field: string): MergeValue {
+  for (let i = contexts.length - 1; i >= 0; i--) {
+    let value: MergeValue = contexts[i];
+    for (const key of field.split('.')) {
+      value = value && typeof value === 'object' && !Array.isArray(value) ? value[key] : undefined;
+    }
+    if (value !== undefined) return value;
+  }
+  return undefined;
+}
+
+const SECTION_PATTERN = /\{\{#\s*([\w.]+)\s*\}\}([\s\S]*?)\{\{\/\s*\1\s*\}\}/g;
+const FIELD_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+// Fills a template's merge fields. Values are HTML-escaped with line breaks kept; unknown fields
+// render as nothing. Sections over lists repeat, other sections show only when their field has a value.
+export function renderQuoteTemplate(template: string, data: MergeData, contexts: MergeData[] = [data]): string {
+  const withSections = template.replace(SECTION_PATTERN, (_, field: string, inner: string) => {
+    const value = lookup(contexts, field);
+    if (Array.isArray(value)) {
+      return value.map(item => renderQuoteTemplate(inner, data, [...contexts, item])).join('');
+    }
+    if (value === null || value === undefined || value === '' || value === 0) return '';
+    return renderQuoteTemplate(inner, data, typeof value === 'object' ? [...contexts, value] : contexts);
+  });
+  return withSections.replace(FIELD_PATTERN, (_, field: string) => {
+    const value = lookup(contexts, field);
+    if (value === null || value === undefined || typeof value === 'object') return '';
+    return escapeHtml(String(value)).replace(/\r?\n/g, '<br>');
+  });
+}
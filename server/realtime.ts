@@ -0,0 +1,158 @@
+import type { IncomingMessage, Server } from 'http';
+import type { Request, Response, RequestHandler } from 'express';
+import { WebSocketServer, type WebSocket } from 'ws';
+import { storage } from './storage';
+import {
+  REALTIME_PATH,
+  type Lead,
+  type User,
+  type RealtimeEntity,
+  type RealtimeAction,
+  type RealtimeServerMessage,
+  type RealtimeClientMessage,
+} from '@shared/schema';
+
+// Connections that stop answering pings are dropped after this long
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+interface RealtimeClient {
+  user: Pick<User, 'id' | 'name' | 'role'>;
+  viewingLeadId: number | null;
+  alive: boolean;
+}
+
+// A changed lead and the agents who can see it. previousAssignedTo is the agent a reassigned lead
+// was taken from, so their board drops it too.
+export type ChangedLead = Pick<Lead, 'id' | 'assignedTo'> & { previousAssignedTo?: number | null };
+
+const clients = new Map<WebSocket, RealtimeClient>();
+
+// Agents see their own leads; everyone else sees them all, as in the lead list
+function canSeeLead(user: RealtimeClient['user'], assignees: (number | null | undefined)[]): boolean {
+  return user.role !== 'agent' || assignees.includes(user.id);
+}
+
+function send(ws: WebSocket, message: RealtimeServerMessage) {
+  if (ws.readyState === ws.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+}
+
+function publishPresence(leadId: number) {
+  const viewers = new Map<number, { id: number; name: string }>();
+  clients.forEach(client => {
+    if (client.viewingLeadId === leadId) viewers.set(client.user.id, { id: client.user.id, name: client.user.name });
+  });
+  clients.forEach((client, ws) => {
+    if (client.viewingLeadId === leadId) send(ws, { type: 'presence', leadId, viewers: Array.from(viewers.values()) });
+  });
+}
+
+async function handleMessage(ws: WebSocket, client: RealtimeClient, message: RealtimeClientMessage | null) {
+  if (message?.type !== 'view') return;
+  const previous = client.viewingLeadId;
+  let leadId: number | null = null;
+  if (Number.isInteger(message.leadId)) {
+    const lead = await storage.getLead(message.leadId!);
+    if (lead && canSeeLead(client.user, [lead.assignedTo])) leadId = lead.id;
+  }
+  if (leadId === previous || !clients.has(ws)) return;
+  client.viewingLeadId = leadId;
+  if (previous !== null) publishPresence(previous);
+  if (leadId !== null) publishPresence(leadId);
+}
+
+// Blocks other sites from opening the socket with the user's cookie; clients that send no Origin are let through
+function isSameOrigin(req: IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+// Browsers authenticate with their session cookie, so the socket is only opened for a logged-in,
+// active user on the app's own origin. The HTTP server is shared with the /mcp socket and Vite, so
+// other upgrade paths are left alone.
+export function setupRealtimeServer(httpServer: Server, sessionMiddleware: RequestHandler) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on('upgrade', (req, socket, head) => {
+    if (new URL(req.url || '/', 'http://localhost').pathname !== REALTIME_PATH) return;
+
+    const reject = (status: string) => {
+      socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+      socket.destroy();
+    };
+    if (!isSameOrigin(req)) {
+      return reject('403 Forbidden');
+    }
+
+    sessionMiddleware(req as Request, {} as Response, async () => {
+      try {
+        const userId = (req as Request).session?.userId;
+        const user = userId ? await storage.getUser(userId) : undefined;
+        if (!user || !user.isActive) {
+          return reject('401 Unauthorized');
+        }
+        wss.handleUpgrade(req, socket, head, (ws) => {
+          const client: RealtimeClient = { user: { id: user.id, name: user.name, role: user.role }, viewingLeadId: null, alive: true };
+          clients.set(ws, client);
+
+          ws.on('pong', () => {
+            client.alive = true;
+          });
+          ws.on('message', (data) => {
+            try {
+              handleMessage(ws, client, JSON.parse(data.toString())).catch(error => console.error('Realtime message error:', error));
+            } catch {
+              // Not JSON; ignored
+            }
+          });
+          ws.on('close', () => {
+            clients.delete(ws);
+            if (client.viewingLeadId !== null) publishPresence(client.viewingLeadId);
+          });
+          ws.on('error', (error) => console.error('Realtime socket error:', error));
+        });
+      } catch (error) {
+        console.error('Realtime connection error:', error);
+        reject('500 Internal Server Error');
+      }
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    clients.forEach((client, ws) => {
+      if (!client.alive) {
+        ws.terminate();
+        return;
+      }
+      client.alive = false;
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  wss.on('close', () => clearInterval(heartbeat));
+
+  return wss;
+}
+
+// Tells each connected user about the changed leads they can see
+export function publishLeadChanges(entity: Exclude<RealtimeEntity, 'product'>, action: RealtimeAction, leads: ChangedLead[]) {
+  if (leads.length === 0) return;
+  clients.forEach((client, ws) => {
+    const leadIds = leads
+      .filter(lead => canSeeLead(client.user, [lead.assignedTo, lead.previousAssignedTo]))
+      .map(lead => lead.id);
+    if (leadIds.length > 0) send(ws, { type: 'change', entity, action, leadIds });
+  });
+}
+
+// The catalog is the same for everyone
+export function publishProductChange(action: RealtimeAction) {
+  clients.forEach((_client, ws) => {
+    send(ws, { type: 'change', entity: 'product', action, leadIds: [] });
+  });
+}
@@ -1,19 +1,33 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import session from 'express-session';
 import connectPgSimple from 'connect-pg-simple';
 import { pool } from './db';
-import { storage } from "./storage";
+import { storage, LEAD_PAGE_SIZE } from "./storage";
 import { login, logout, getCurrentUser, requireAuth, requireRole, hashPassword } from './auth-simple';
-import { insertUserSchema, insertLeadSchema, insertProductSchema, insertInteractionSchema, insertWebhookSchema } from '@shared/schema';
-import type { DatabaseExport } from './storage';
+import { insertUserSchema, insertLeadSchema, insertProductSchema, insertInteractionSchema, insertWebhookSchema, insertPipelineSchema, insertPipelineStageSchema, insertCustomFieldSchema, customFieldValuesSchema, insertScoringRuleSchema, scoringRuleConfigSchemas, insertCloseReasonSchema, insertSavedViewSchema, insertTagSchema, tagMergeSchema, tagSettingsSchema, currencySettingsSchema, currencyCodeSchema, insertAccountSchema, insertContactSchema, leadLineItemsSchema, lineItemTotals, movePipelineSchema, leadMergeSchema, bulkLeadActionSchema, insertQuoteTemplateSchema, generateQuoteSchema, quoteStatusSchema, quoteReference, snoozeFollowUpSchema, FOLLOW_UP_STATES, insertTaskSchema, updateTaskSchema, notificationPreferencesSchema, invoiceSettingsSchema, updateInvoiceSchema, issueInvoiceSchema, invoicePaymentSchema, lineItemTotal, INVOICE_STATUSES, PRICING_MODELS, type LeadChangeSource, type Lead, type InsertLead, type InsertNotification, type RealtimeAction, type LeadLineItem, type Pipeline, type BulkLeadResult, type PipelineStage, type Quote, type QuoteTemplate, type Invoice, type InvoiceLineInput, type Task, type CloseReason, type CustomField, type CustomFieldType, type ScoringRuleType } from '@shared/schema';
+import type { DatabaseExport, LeadFilters, DuplicateScope, LeadChangeContext, AccountScope } from './storage';
 import { triggerWebhooks } from './webhooks';
+import { LEAD_TRASH_RETENTION_DAYS } from './trash';
+import { customFieldFilters, customFieldColumn, formatCustomFieldCell, parseCustomFieldCell } from './customFields';
+import { parseLeadFilterQuery, LeadFilterError } from './leadQuery';
+import { bulkLeadChanges } from './bulkLeads';
+import { parseProductPrice } from './pricing';
+import { resolveTagNames } from './tags';
+import { quoteMergeData, renderQuoteTemplate, quoteFileName } from './quotes';
+import { htmlToPdf } from './pdf';
+import { invoicePdf, invoiceFileName, invoicesToCsv } from './invoices';
+import { newCalendarToken, calendarIcs, calendarItemEvents, calendarFileName, followUpEvent, meetingEvent, taskEvent, type CalendarEvent } from './calendar';
+import { leadAssignedNotification, engineerAssignedNotification, urgentInteractionNotifications } from './notifications';
+import { canSeeSavedView, canEditSavedView, savedViewSharingError, savedViewLeadFilters } from './savedViews';
 import { setupMcpServer } from './ai-agent-integration';
+import { setupRealtimeServer, publishLeadChanges, publishProductChange, type ChangedLead } from './realtime';
 import { ObjectStorageService, ObjectNotFoundError } from './objectStorage';
 import { ObjectPermission } from './objectAcl';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
+import crypto from 'crypto';
 import Papa from 'papaparse';
 import express from 'express';
 
@@ -30,6 +44,360 @@ const upload = multer({
   },
 });
 
+// The web client tags its requests so lead changes made in the app can be told apart from API calls
+function changeContext(req: Request, source?: LeadChangeSource): LeadChangeContext {
+  return {
+    userId: req.user?.id ?? null,
+    source: source ?? (req.get('X-Siwaht-Client') === 'web' ? 'ui' : 'api'),
+  };
+}
+
+// Filters shared by the lead list, search, CSV export and analytics, so all of them cover the same
+// leads. Custom fields arrive as ?cf.<key>=, nested AND/OR conditions as JSON in ?filter=, and
+// ?mine=true keeps the leads the current user is the agent or engineer on. Agents only get their own leads.
+function leadFiltersFromQuery(req: Request, fields: CustomField[]): LeadFilters {
+  const { pipelineId, accountId, status, assignedTo, assignedEngineer, source, priority, mine, noContactDays, followUp, filter } = req.query;
+  const filters: LeadFilters = {
+    ...(pipelineId && { pipelineId: parseInt(pipelineId as string) }),
+    ...(accountId && { accountId: parseInt(accountId as string) }),
+    ...(status && { status: status as string }),
+    ...(assignedTo && { assignedTo: parseInt(assignedTo as string) }),
+    ...(assignedEngineer && { assignedEngineer: parseInt(assignedEngineer as string) }),
+    ...(source && { source: source as string }),
+    ...(priority && { priority: priority as string }),
+    ...(mine === 'true' && { involving: req.user!.id }),
+    ...(noContactDays && { noContactDays: parseInt(noContactDays as string) || undefined }),
+    followUp: FOLLOW_UP_STATES.find(state => state === followUp),
+    query: parseLeadFilterQuery(filter),
+    customFields: customFieldFilters(req.query, fields),
+  };
+
+  if (req.user!.role === 'agent') {
+    filters.assignedTo = req.user!.id;
+  }
+  return filters;
+}
+
+// ?limit=&offset= for the lead lists
+function leadPageFromQuery(req: Request): Pick<LeadFilters, 'limit' | 'offset'> {
+  const limit = parseInt(req.query.limit as string);
+  const offset = parseInt(req.query.offset as string);
+  return {
+    limit: limit > 0 ? Math.min(limit, LEAD_PAGE_SIZE.max) : LEAD_PAGE_SIZE.default,
+    offset: offset > 0 ? offset : 0,
+  };
+}
+
+// "2 x Voice Bot @ 500 -10% monthly = 900"
+function describeLineItem(item: LeadLineItem): string {
+  const discount = item.discount ? ` -${item.discountType === 'percent' ? `${item.discount}%` : item.discount}` : '';
+  const billing = item.billingType === 'monthly' ? ' monthly' : '';
+  return `${item.quantity} x ${item.product.name} @ ${item.unitPrice ?? 'no price'}${discount}${billing} = ${item.total}`;
+}
+
+// One row per lead, with a column per custom field; used by the filtered and the bulk export
+function leadsCsv(leads: Lead[], fields: CustomField[], pipelines: Pipeline[], lineItems: Map<number, LeadLineItem[]>): string {
+  const pipelineNames = new Map(pipelines.map(pipeline => [pipeline.id, pipeline.name]));
+  const rows = leads.map(lead => {
+    const items = lineItems.get(lead.id) || [];
+    const totals = lineItemTotals(items);
+    return {
+      name: lead.name,
+      email: lead.email || '',
+      phone: lead.phone || '',
+      company: lead.company || '',
+      pipeline: lead.pipelineId ? pipelineNames.get(lead.pipelineId) || '' : '',
+      status: lead.status,
+      source: lead.source || '',
+      value: lead.value || '',
+      currency: lead.currency,
+      lineItems: items.map(describeLineItem).join('; '),
+      oneTimeTotal: items.length > 0 ? totals.oneTime : '',
+      monthlyTotal: items.length > 0 ? totals.monthly : '',
+      assignedTo: lead.assignedTo || '',
+      assignedEngineer: lead.assignedEngineer || '',
+      notes: lead.notes || '',
+      priority: lead.priority,
+      score: lead.score,
+      engineeringProgress: lead.engineeringProgress,
+      engineeringNotes: lead.engineeringNotes || '',
+      lastContactedAt: lead.lastContactedAt ? lead.lastContactedAt.toISOString() : '',
+      createdAt: lead.createdAt.toISOString(),
+      ...Object.fromEntries(fields.map(field => [customFieldColumn(field), formatCustomFieldCell(lead.customFields?.[field.key])]))
+    };
+  });
+  return Papa.unparse(rows);
+}
+
+// Lead webhook payloads carry the deal's line items and their totals
+async function withLineItems<T extends Lead>(lead: T) {
+  const items = await storage.getLeadLineItems(lead.id);
+  return {
+    ...lead,
+    lineItems: items.map(({ productId, product, quantity, unitPrice, discount, discountType, billingType, total }) => ({
+      productId,
+      productName: product.name,
+      quantity,
+      unitPrice,
+      discount,
+      discountType,
+      billingType,
+      total
+    })),
+    lineItemTotals: lineItemTotals(items)
+  };
+}
+
+// The chosen quote template, or the default one
+async function quoteTemplateFor(templateId?: number): Promise<QuoteTemplate | undefined> {
+  if (templateId !== undefined) return await storage.getQuoteTemplate(templateId);
+  const templates = await storage.getQuoteTemplates();
+  return templates.find(template => template.isDefault) ?? templates[0];
+}
+
+// Renders a quote version from the lead's current line items, saves the PDF as a lead attachment
+// and records the quote. Revisions pass the number of the quote they revise.
+async function generateQuote(req: Request, lead: Lead, template: QuoteTemplate, number?: number): Promise<Quote> {
+  const items = await storage.getLeadLineItems(lead.id);
+  const agent = await storage.getUser(lead.assignedTo ?? req.user!.id);
+  const totals = lineItemTotals(items);
+
+  // The PDF is written while the quote's number is reserved and removed again if the quote isn't saved
+  const written: { filePath: string; fileSize: number }[] = [];
+  let quote: Quote;
+  try {
+    quote = await storage.createQuote(number, async (next) => {
+      const reference = quoteReference(next.number);
+      const html = renderQuoteTemplate(template.body, quoteMergeData(lead, items, agent, next.number, next.version));
+      const pdf = htmlToPdf(html, { title: `Quote ${reference}`, footer: `${reference} v${next.version}` });
+      // /uploads is public, so stored files get unguessable names like multer's; the readable name is on the attachment
+      const filePath = path.join(uploadsDir, crypto.randomBytes(16).toString('hex'));
+      await fs.promises.writeFile(filePath, pdf);
+      written.push({ filePath, fileSize: pdf.length });
+
+      return {
+        quote: {
+          leadId: lead.id,
+          templateId: template.id,
+          currency: lead.currency,
+          oneTimeTotal: totals.oneTime,
+          monthlyTotal: totals.monthly,
+          total: totals.value,
+          html,
+          createdById: req.user!.id,
+        },
+        attachment: {
+          leadId: lead.id,
+          fileName: quoteFileName(next.number, next.version),
+          filePath,
+          fileSize: pdf.length,
+          description: `Quote ${reference}, version ${next.version}`,
+          uploadedById: req.user!.id,
+        },
+      };
+    });
+  } catch (error) {
+    await Promise.all(written.map(file => fs.promises.unlink(file.filePath).catch(() => {})));
+    throw error;
+  }
+
+  const user = await storage.getUser(req.user!.id);
+  if (user) {
+    await storage.updateUserStorage(req.user!.id, (user.storageUsed || 0) + written[0].fileSize);
+  }
+  return quote;
+}
+
+// Invoices are for admins and the agent on the deal; an invoice whose lead was deleted is admin-only
+async function canManageInvoice(req: Request, invoice: Invoice): Promise<boolean> {
+  if (req.user!.role === 'admin') return true;
+  if (req.user!.role !== 'agent' || invoice.leadId === null) return false;
+  const lead = await storage.getLead(invoice.leadId);
+  return lead?.assignedTo === req.user!.id;
+}
+
+// Absolute URL of the app, for links that leave it such as calendar events
+function appUrl(req: Request): string {
+  return `${req.protocol}://${req.get('host')}`;
+}
+
+// Calendar feeds cover the leads the user works on; agents are held to their own leads as in the lead list
+function calendarLeadFilters(user: { id: number; role: string }): LeadFilters {
+  return user.role === 'agent' ? { assignedTo: user.id } : { involving: user.id };
+}
+
+function sendCalendar(res: Response, events: CalendarEvent[], fileName?: string, name?: string) {
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  if (fileName) {
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  }
+  res.send(calendarIcs(events, name));
+}
+
+// Tells the agent and engineer a lead was just given to, unless they gave it to themselves. Only
+// assignees named in updates count; storage tells engineers it picks automatically.
+async function notifyNewAssignees(req: Request, before: Pick<Lead, 'assignedTo' | 'assignedEngineer'>, lead: Lead, updates: Partial<InsertLead>) {
+  const items: InsertNotification[] = [];
+  if (updates.assignedTo && lead.assignedTo && lead.assignedTo !== before.assignedTo && lead.assignedTo !== req.user!.id) {
+    items.push(leadAssignedNotification(lead, lead.assignedTo, req.user!.name));
+  }
+  if (updates.assignedEngineer && lead.assignedEngineer && lead.assignedEngineer !== before.assignedEngineer && lead.assignedEngineer !== req.user!.id) {
+    items.push(engineerAssignedNotification(lead, lead.assignedEngineer, req.user!.name));
+  }
+  await storage.createNotifications(items);
+}
+
+// Attachment routes only have the lead's id; the lead decides who hears about the change
+async function publishAttachmentChange(action: RealtimeAction, leadId: number) {
+  const lead = await storage.getLead(leadId);
+  if (lead) publishLeadChanges('attachment', action, [lead]);
+}
+
+// Tasks follow the lead rules: admins and engineers can edit any task, agents the tasks they are
+// assigned or created and those on their own leads
+async function canEditTask(req: Request, task: Task): Promise<boolean> {
+  if (req.user!.role === 'admin' || req.user!.role === 'engineer') return true;
+  if (task.assignedTo === req.user!.id || task.createdById === req.user!.id) return true;
+  if (task.leadId === null) return false;
+  const lead = await storage.getLead(task.leadId);
+  return lead?.assignedTo === req.user!.id;
+}
+
+// Why a task can't be linked to this lead or given to this user, if it can't
+async function taskLinkError(req: Request, leadId: number | null | undefined, assignedTo: number | null | undefined): Promise<{ status: number; message: string } | null> {
+  if (leadId != null) {
+    const lead = await storage.getLead(leadId);
+    if (!lead) return { status: 400, message: 'Lead not found' };
+    if (req.user!.role === 'agent' && lead.assignedTo !== req.user!.id) {
+      return { status: 403, message: 'You can only add tasks to leads you created' };
+    }
+  }
+  if (assignedTo != null && !(await storage.getUser(assignedTo))) return { status: 400, message: 'Assignee not found' };
+  return null;
+}
+
+// Webhook payload: the task with the lead and assignee it belongs to
+async function taskWebhookPayload(task: Task) {
+  const [lead, assignee] = await Promise.all([
+    task.leadId !== null ? storage.getLead(task.leadId) : undefined,
+    task.assignedTo !== null ? storage.getUser(task.assignedTo) : undefined,
+  ]);
+  return {
+    ...task,
+    lead: lead ? { id: lead.id, name: lead.name, company: lead.company, status: lead.status } : null,
+    assignee: assignee ? { id: assignee.id, name: assignee.name, email: assignee.email, role: assignee.role } : null,
+  };
+}
+
+// A new invoice bills the lead's line items, with monthly products charged for their first month and
+// percentage discounts turned into amounts. A lead without line items is billed its value as one line.
+async function invoiceLinesFor(lead: Lead): Promise<InvoiceLineInput[]> {
+  const items = await storage.getLeadLineItems(lead.id);
+  if (items.length === 0) {
+    return [{ description: lead.company ? `${lead.company}: ${lead.name}` : lead.name, quantity: 1, unitPrice: lead.value ?? 0, discount: 0 }];
+  }
+  return items.map(item => {
+    const unitPrice = item.unitPrice ?? 0;
+    return {
+      productId: item.productId,
+      description: item.billingType === 'monthly' ? `${item.product.name} (monthly)` : item.product.name,
+      quantity: item.quantity,
+      unitPrice,
+      discount: Math.round((item.quantity * unitPrice - lineItemTotal(item)) * 100) / 100,
+    };
+  });
+}
+
+// Tags on leads and products are spelled the way the registry has them. Tags it doesn't have yet are
+// added to it, unless an admin has restricted tag creation; then only admins can introduce new ones.
+// Unregistered tags the record already carries are let through so older records stay editable.
+async function registeredTags(names: string[], req: Request, existing: string[] = []): Promise<{ tags: string[] } | { error: string }> {
+  const { tags, unknown } = resolveTagNames(names, await storage.getTags());
+  const added = unknown.filter(name => !existing.some(tag => tag.toLowerCase() === name.toLowerCase()));
+  if (added.length > 0 && req.user!.role !== 'admin' && (await storage.getTagSettings()).restrictCreation) {
+    return { error: `"${added[0]}" isn't one of the available tags; ask an admin to add it` };
+  }
+  await storage.registerTags(added);
+  return { tags };
+}
+
+// A lead's primary contact has to work at the lead's account
+async function leadAccountError(accountId: number | null | undefined, primaryContactId: number | null | undefined): Promise<string | null> {
+  if (accountId && !(await storage.getAccount(accountId))) {
+    return 'Account not found';
+  }
+  if (!primaryContactId) return null;
+  const contact = await storage.getContact(primaryContactId);
+  if (!contact) {
+    return 'Contact not found';
+  }
+  return contact.accountId === accountId ? null : `${contact.name} is not a contact of the lead's account`;
+}
+
+// Leads store the stage key, but CSV files written by hand often use the display name
+function findPipelineStage(stages: PipelineStage[], value: string): PipelineStage | undefined {
+  const normalized = value.trim().toLowerCase();
+  return stages.find(stage => stage.key === normalized || stage.name.toLowerCase() === normalized);
+}
+
+// Leads without a pipeline are held to the default pipeline's stages
+async function leadPipelineId(lead: Lead): Promise<number> {
+  return lead.pipelineId ?? (await storage.getDefaultPipeline()).id;
+}
+
+async function isPipelineStage(pipelineId: number, status: string): Promise<boolean> {
+  const stages = await storage.getPipelineStages(pipelineId);
+  return stages.some(stage => stage.key === status);
+}
+
+// A lead entering a won or lost stage must say why, with an active reason of that stage's type.
+// Leads that stay closed are only checked when their reason changes.
+async function closeReasonError(pipelineId: number, status: string, closeReasonId: number | null | undefined, original?: Lead): Promise<string | null> {
+  const stage = (await storage.getPipelineStages(pipelineId)).find(s => s.key === status);
+  const entering = !original || original.status !== status;
+  if (!stage || stage.type === 'open') {
+    return closeReasonId != null ? 'Only won or lost leads have a close reason' : null;
+  }
+  if (!entering && closeReasonId === undefined) return null;
+
+  const reasonId = closeReasonId === undefined ? original?.closeReasonId : closeReasonId;
+  const reason = reasonId ? await storage.getCloseReason(reasonId) : undefined;
+  if (!reason || reason.type !== stage.type) {
+    return `Choose why this lead was ${stage.type}`;
+  }
+  if (!reason.isActive && reason.id !== original?.closeReasonId) {
+    return `"${reason.label}" is no longer offered as a ${stage.type} reason`;
+  }
+  return null;
+}
+
+// Closing leads needs at least one active reason of each type
+function isLastActiveReason(reasons: CloseReason[], reason: CloseReason): boolean {
+  return reason.isActive && !reasons.some(r => r.type === reason.type && r.isActive && r.id !== reason.id);
+}
+
+// Validates lead custom field values against the current field definitions
+async function parseCustomFieldValues(values: unknown) {
+  return customFieldValuesSchema(await storage.getCustomFields()).safeParse(values ?? {});
+}
+
+function hasOptions(type: CustomFieldType): boolean {
+  return type === 'select' || type === 'multiselect';
+}
+
+// Rule settings are checked against the schema for the rule's type
+async function validateScoringRuleConfig(type: ScoringRuleType, config: unknown): Promise<string | null> {
+  const result = scoringRuleConfigSchemas[type].safeParse(config);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return `Invalid ${issue.path.join('.') || 'rule'} setting: ${issue.message}`;
+  }
+  if (type === 'product' && !(await storage.getProduct((result.data as { productId: number }).productId))) {
+    return 'Product not found';
+  }
+  return null;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Serve static files from uploads directory
   app.use('/uploads', express.static(uploadsDir));
@@ -37,8 +405,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Setup PostgreSQL session store
   const PostgreSqlStore = connectPgSimple(session);
   
-  // Session middleware with PostgreSQL store
-  app.use(session({
+  // Session middleware with PostgreSQL store; the browser sync socket reads the session with it too
+  const sessionMiddleware = session({
     store: new PostgreSqlStore({
       pool: pool as any,
       tableName: 'session',
@@ -55,7 +423,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       sameSite: 'lax',
       path: '/'
     }
-  }));
+  });
+  app.use(sessionMiddleware);
 
   // Auth routes
   app.post('/api/login', login);
@@ -173,11 +542,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post('/api/products', requireRole('admin'), async (req, res) => {
     try {
-      const productData = insertProductSchema.parse(req.body);
+      const parsed = insertProductSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0].message });
+      }
+      const productData = parsed.data;
+      if (productData.tags) {
+        const resolved = await registeredTags(productData.tags, req);
+        if ('error' in resolved) {
+          return res.status(400).json({ message: resolved.error });
+        }
+        productData.tags = resolved.tags;
+      }
       const product = await storage.createProduct(productData);
       
       // Trigger webhooks
       await triggerWebhooks('product.created', product);
+      publishProductChange('created');
       
       res.status(201).json(product);
     } catch (error) {
@@ -189,7 +570,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put('/api/products/:id', requireRole('admin'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const productData = req.body;
+      const parsed = insertProductSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0].message });
+      }
+      const productData = parsed.data;
+      if (Array.isArray(productData.tags)) {
+        const resolved = await registeredTags(productData.tags, req);
+        if ('error' in resolved) {
+          return res.status(400).json({ message: resolved.error });
+        }
+        productData.tags = resolved.tags;
+      }
       const product = await storage.updateProduct(id, productData);
       if (!product) {
         return res.status(404).json({ message: 'Product not found' });
@@ -197,6 +589,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Trigger webhooks
       await triggerWebhooks('product.updated', product);
+      publishProductChange('updated');
       
       res.json(product);
     } catch (error) {
@@ -215,6 +608,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Trigger webhooks
       await triggerWebhooks('product.deleted', { id });
+      publishProductChange('deleted');
       
       res.status(204).send();
     } catch (error) {
@@ -231,6 +625,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Convert products to CSV format
       const csvData = products.map(product => ({
         name: product.name,
+        priceAmount: product.priceAmount ?? '',
+        currency: product.currency,
+        pricingModel: product.pricingModel,
+        setupFee: product.setupFee ?? '',
         price: product.price || '',
         pitch: product.pitch || '',
         talkingPoints: product.talkingPoints || '',
@@ -282,6 +680,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         failed: 0,
         errors: [] as string[]
       };
+      const { baseCurrency } = await storage.getCurrencySettings();
 
       // Process each row
       for (let i = 0; i < parseResult.data.length; i++) {
@@ -295,15 +694,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
             continue;
           }
 
+          const currency = row.currency?.trim() ? currencyCodeSchema.safeParse(row.currency) : null;
+          if (currency && !currency.success) {
+            importResults.failed++;
+            importResults.errors.push(`Row ${i + 2}: ${currency.error.issues[0].message}`);
+            continue;
+          }
+
+          // Imported tags are matched to, and added to, the registry like tags typed in the form
+          const rowTags = await registeredTags(row.tags ? row.tags.split(',') : [], req);
+
+          // Files without the structured price columns have their price text parsed, like older products
+          const structured = row.priceAmount !== undefined || row.pricingModel !== undefined;
+          const { note, ...parsedPrice } = parseProductPrice(row.price ?? null, baseCurrency);
+          const price = structured ? {
+            priceAmount: row.priceAmount?.trim() ? parseFloat(row.priceAmount) : null,
+            currency: currency?.data ?? baseCurrency,
+            pricingModel: PRICING_MODELS.find(model => model === row.pricingModel?.trim()) ?? 'fixed',
+            setupFee: row.setupFee?.trim() ? parseFloat(row.setupFee) : null,
+            price: row.price?.trim() || null,
+          } : { ...parsedPrice, ...(currency && { currency: currency.data }), price: note };
+
           const productData = {
             name: row.name.trim(),
-            price: row.price?.trim() || null,
+            ...price,
             pitch: row.pitch?.trim() || null,
             talkingPoints: row.talkingPoints?.trim() || null,
             agentNotes: row.agentNotes?.trim() || null,
             priority: (row.priority?.trim() || 'Medium') as any,
             profitLevel: (row.profitLevel?.trim() || 'Standard') as any,
-            tags: row.tags ? row.tags.split(',').map((tag: string) => tag.trim()).filter((tag: string) => tag.length > 0) : [],
+            tags: 'tags' in rowTags ? rowTags.tags : [],
             displayOrder: row.displayOrder ? parseInt(row.displayOrder) : 0,
             isActive: row.isActive === 'false' ? false : true
           };
@@ -319,6 +739,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Clean up uploaded file
       fs.unlinkSync(req.file.path);
+      if (importResults.successful > 0) publishProductChange('created');
 
       res.json({
         message: 'CSV import completed',
@@ -355,6 +776,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Trigger webhooks
       await triggerWebhooks('product.deleted', product);
+      publishProductChange('deleted');
       
       res.status(204).send();
     } catch (error) {
@@ -370,6 +792,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!success) {
         return res.status(400).json({ message: 'Failed to reorder products' });
       }
+      publishProductChange('updated');
       res.json({ message: 'Products reordered successfully' });
     } catch (error) {
       console.error('Reorder products error:', error);
@@ -377,357 +800,2401 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Leads
-  app.get('/api/leads', requireAuth, async (req, res) => {
+  // Pipelines (Admin only for CUD, everyone can read)
+  app.get('/api/pipelines', requireAuth, async (req, res) => {
     try {
-      const { status, assignedTo, source, search, priority } = req.query;
-      const filters = {
-        ...(status && { status: status as string }),
-        ...(assignedTo && { assignedTo: parseInt(assignedTo as string) }),
-        ...(source && { source: source as string }),
-        ...(search && { search: search as string }),
-        ...(priority && { priority: priority as string }),
-      };
-      
-      // Role-based filtering: agents can only see leads they created
-      if (req.user!.role === 'agent') {
-        filters.assignedTo = req.user!.id;
-      }
-      // Admin and engineer can see all leads (existing behavior)
-      
-      const leads = await storage.getAllLeads(filters);
-      res.json(leads);
+      const pipelines = await storage.getPipelines();
+      res.json(pipelines);
     } catch (error) {
-      console.error('Get leads error:', error);
+      console.error('Get pipelines error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  app.post('/api/leads', requireAuth, async (req, res) => {
+  app.post('/api/pipelines', requireRole('admin'), async (req, res) => {
     try {
-      // Extract productIds from request body before validation
-      const { productIds, ...leadDataRaw } = req.body;
-      
-      // Convert followUpDate string to Date object if present, or null if empty string
-      if (leadDataRaw.followUpDate) {
-        if (typeof leadDataRaw.followUpDate === 'string') {
-          if (leadDataRaw.followUpDate.trim() === '') {
-            leadDataRaw.followUpDate = null;
-          } else {
-            leadDataRaw.followUpDate = new Date(leadDataRaw.followUpDate);
-          }
-        }
-      } else {
-        leadDataRaw.followUpDate = null;
-      }
-      
-      // Validate lead data (without productIds)
-      const leadData = insertLeadSchema.parse(leadDataRaw);
-      
-      // For role-based access control: ensure the creator is assigned to the lead they create
-      if (!leadData.assignedTo && req.user!.role === 'agent') {
-        leadData.assignedTo = req.user!.id;
-      }
-      
-      // Create lead with productIds
-      const lead = await storage.createLead(leadData, productIds);
-      // Get creator information and lead products for comprehensive webhook payload
-      const creator = req.session.userId ? await storage.getUser(req.session.userId) : null;
-      const leadWithProducts = await storage.getLeadWithProducts(lead.id);
-      
-      // Create enhanced payload with comprehensive lead details and creator information
-      const webhookPayload = {
-        ...lead,
-        interestedProductNames: leadWithProducts?.products?.map(p => p.name) || [],
-        dealValue: lead.value ?? 0, // Alias for value field, default to 0 if null
-        agent: creator ? {
-          id: creator.id,
-          name: creator.name,
-          email: creator.email,
-          role: creator.role
-        } : null
-      };
-      
-      // Trigger webhooks
-      await triggerWebhooks('lead.created', webhookPayload);
-      
-      res.status(201).json(lead);
+      const pipelineData = insertPipelineSchema.parse(req.body);
+      const pipeline = await storage.createPipeline(pipelineData);
+      res.status(201).json(pipeline);
     } catch (error) {
-      console.error('Create lead error:', error);
-      res.status(400).json({ message: 'Invalid lead data' });
+      console.error('Create pipeline error:', error);
+      res.status(400).json({ message: 'Invalid pipeline data' });
     }
   });
 
-  app.put('/api/leads/:id', requireAuth, async (req, res) => {
+  app.put('/api/pipelines/:id', requireRole('admin'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      // Extract productIds from request body before validation
-      const { productIds, ...leadDataRaw } = req.body;
-      
-      // Convert followUpDate string to Date object if present
-      if (leadDataRaw.followUpDate && typeof leadDataRaw.followUpDate === 'string') {
-        leadDataRaw.followUpDate = new Date(leadDataRaw.followUpDate);
-      }
-      
-      const originalLead = await storage.getLead(id);
-      if (!originalLead) {
-        return res.status(404).json({ message: 'Lead not found' });
+      const pipelineData = insertPipelineSchema.partial().parse(req.body);
+      const pipeline = await storage.updatePipeline(id, pipelineData);
+      if (!pipeline) {
+        return res.status(404).json({ message: 'Pipeline not found' });
       }
+      res.json(pipeline);
+    } catch (error) {
+      console.error('Update pipeline error:', error);
+      res.status(400).json({ message: 'Invalid pipeline data' });
+    }
+  });
 
-      // Permission check: Admin can update any lead, others can only update their own leads
-      if (req.user!.role !== 'admin' && req.user!.role !== 'engineer' && originalLead.assignedTo !== req.user!.id) {
-        return res.status(403).json({ message: 'You can only update leads you created' });
+  // Leads must be moved out first (POST /api/leads/move-pipeline)
+  app.delete('/api/pipelines/:id', requireRole('admin'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const pipelines = await storage.getPipelines();
+      if (!pipelines.some(p => p.id === id)) {
+        return res.status(404).json({ message: 'Pipeline not found' });
       }
-      
-      const lead = await storage.updateLead(id, leadDataRaw, productIds);
-      if (!lead) {
-        return res.status(404).json({ message: 'Lead not found' });
+      if (pipelines.length === 1) {
+        return res.status(400).json({ message: 'At least one pipeline is required' });
       }
 
-      // Trigger webhooks
-      await triggerWebhooks('lead.updated', lead);
-      if (originalLead && originalLead.status !== lead.status) {
-        await triggerWebhooks('lead.status_changed', lead);
+      const total = await storage.countPipelineLeads(id);
+      if (total > 0) {
+        return res.status(409).json({
+          message: `${total} lead(s) are in this pipeline, counting the trash; move them to another pipeline or purge them first`,
+          leadCount: total
+        });
       }
-      
-      res.json(lead);
+
+      await storage.deletePipeline(id);
+      res.status(204).send();
     } catch (error) {
-      console.error('Update lead error:', error);
-      res.status(400).json({ message: 'Invalid lead data' });
+      console.error('Delete pipeline error:', error);
+      res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  app.delete('/api/leads/:id', requireAuth, async (req, res) => {
+  // Pipeline Stages (Admin only for CUD, everyone can read); ?pipelineId= limits to one pipeline
+  app.get('/api/pipeline-stages', requireAuth, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      
-      // Get the lead before deleting for webhook and permission check
-      const lead = await storage.getLead(id);
-      if (!lead) {
-        return res.status(404).json({ message: 'Lead not found' });
+      const pipelineId = req.query.pipelineId ? parseInt(req.query.pipelineId as string) : undefined;
+      const stages = await storage.getPipelineStages(pipelineId);
+      res.json(stages);
+    } catch (error) {
+      console.error('Get pipeline stages error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/pipeline-stages', requireRole('admin'), async (req, res) => {
+    try {
+      const stageData = insertPipelineStageSchema.parse(req.body);
+      if (stageData.pipelineId && !(await storage.getPipeline(stageData.pipelineId))) {
+        return res.status(400).json({ message: 'Pipeline not found' });
       }
-      
-      // Permission check: Admin can delete any lead, others can only delete their own leads
-      if (req.user!.role !== 'admin' && lead.assignedTo !== req.user!.id) {
-        return res.status(403).json({ message: 'You can only delete leads you created' });
+      const stage = await storage.createPipelineStage(stageData);
+      res.status(201).json(stage);
+    } catch (error) {
+      console.error('Create pipeline stage error:', error);
+      res.status(400).json({ message: 'Invalid pipeline stage data' });
+    }
+  });
+
+  app.post('/api/pipeline-stages/reorder', requireRole('admin'), async (req, res) => {
+    try {
+      const { stageIds } = req.body;
+      if (!Array.isArray(stageIds)) {
+        return res.status(400).json({ message: 'stageIds must be an array' });
       }
-      
-      const success = await storage.deleteLead(id);
+      const success = await storage.reorderPipelineStages(stageIds);
       if (!success) {
-        return res.status(404).json({ message: 'Lead not found' });
+        return res.status(400).json({ message: 'Failed to reorder pipeline stages' });
       }
-
-      // Trigger webhooks
-      await triggerWebhooks('lead.deleted', lead);
-      
-      res.status(204).send();
+      res.json({ message: 'Pipeline stages reordered successfully' });
     } catch (error) {
-      console.error('Delete lead error:', error);
+      console.error('Reorder pipeline stages error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  // Lead Assignment (Admin only)
-  app.put('/api/leads/:id/assign-agent', requireRole('admin'), async (req, res) => {
+  app.put('/api/pipeline-stages/:id', requireRole('admin'), async (req, res) => {
     try {
-      const leadId = parseInt(req.params.id);
-      const { agentId } = req.body;
-      
-      // Validate agent exists and has correct role
-      if (agentId) {
-        const agent = await storage.getUser(agentId);
-        if (!agent) {
-          return res.status(404).json({ message: 'Agent not found' });
-        }
-        if (agent.role !== 'agent') {
-          return res.status(400).json({ message: 'User is not an agent' });
+      const id = parseInt(req.params.id);
+      // Stages stay in the pipeline they were created in
+      const { pipelineId, ...stageData } = insertPipelineStageSchema.partial().parse(req.body);
+      const existing = await storage.getPipelineStage(id);
+      if (!existing) {
+        return res.status(404).json({ message: 'Pipeline stage not found' });
+      }
+
+      // New leads are created in the first open stage, so at least one must remain
+      if (stageData.type && stageData.type !== 'open') {
+        const stages = await storage.getPipelineStages(existing.pipelineId ?? undefined);
+        if (!stages.some(stage => stage.type === 'open' && stage.id !== id)) {
+          return res.status(400).json({ message: 'The pipeline needs at least one open stage' });
         }
       }
-      
-      const lead = await storage.updateLead(leadId, { assignedTo: agentId || null }, undefined, true);
-      if (!lead) {
-        return res.status(404).json({ message: 'Lead not found' });
+
+      const stage = await storage.updatePipelineStage(id, stageData);
+      if (!stage) {
+        return res.status(404).json({ message: 'Pipeline stage not found' });
       }
-      
-      // Get assigned agent info for response
-      const assignedAgent = agentId ? await storage.getUser(agentId) : null;
-      
-      // Trigger webhooks
-      await triggerWebhooks('lead.assigned', {
-        ...lead,
-        assignedAgent: assignedAgent ? {
-          id: assignedAgent.id,
-          name: assignedAgent.name,
-          email: assignedAgent.email
-        } : null
-      });
-      
-      res.json({
-        message: agentId ? 'Lead assigned to agent successfully' : 'Lead unassigned from agent',
-        lead,
-        assignedAgent: assignedAgent ? {
-          id: assignedAgent.id,
-          name: assignedAgent.name,
-          email: assignedAgent.email
-        } : null
-      });
+      res.json(stage);
     } catch (error) {
-      console.error('Assign agent error:', error);
-      res.status(500).json({ message: 'Internal server error' });
+      console.error('Update pipeline stage error:', error);
+      res.status(400).json({ message: 'Invalid pipeline stage data' });
     }
   });
 
-  app.put('/api/leads/:id/assign-engineer', requireRole('admin'), async (req, res) => {
+  // Leads still in the stage must be moved elsewhere with ?moveTo=<stage key>
+  app.delete('/api/pipeline-stages/:id', requireRole('admin'), async (req, res) => {
     try {
-      const leadId = parseInt(req.params.id);
-      const { engineerId } = req.body;
-      
-      // Validate engineer exists and has correct role
-      if (engineerId) {
-        const engineer = await storage.getUser(engineerId);
-        if (!engineer) {
-          return res.status(404).json({ message: 'Engineer not found' });
+      const id = parseInt(req.params.id);
+      const moveTo = typeof req.query.moveTo === 'string' && req.query.moveTo ? req.query.moveTo : undefined;
+      const stage = await storage.getPipelineStage(id);
+      if (!stage) {
+        return res.status(404).json({ message: 'Pipeline stage not found' });
+      }
+      const stages = await storage.getPipelineStages(stage.pipelineId ?? undefined);
+      if (stage.type === 'open' && !stages.some(s => s.type === 'open' && s.id !== id)) {
+        return res.status(400).json({ message: 'The pipeline needs at least one open stage' });
+      }
+      const moveToStage = moveTo ? stages.find(s => s.key === moveTo) : undefined;
+      if (moveTo && (moveTo === stage.key || !moveToStage)) {
+        return res.status(400).json({ message: 'Unknown pipeline stage to move leads to' });
+      }
+      if (moveToStage && moveToStage.type !== 'open' && moveToStage.type !== stage.type) {
+        return res.status(400).json({ message: `Leads can only be moved into a ${moveToStage.type} stage with a close reason; choose an open or ${stage.type} stage` });
+      }
+
+      const total = await storage.countPipelineLeads(stage.pipelineId ?? undefined, stage.key);
+      if (total > 0 && !moveTo) {
+        return res.status(409).json({
+          message: `${total} lead(s) are in this stage; choose a stage to move them to`,
+          leadCount: total
+        });
+      }
+
+      await storage.deletePipelineStage(id, moveTo, changeContext(req));
+      res.status(204).send();
+    } catch (error) {
+      console.error('Delete pipeline stage error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Close Reasons (Admin only for CUD, everyone can read)
+  app.get('/api/close-reasons', requireAuth, async (req, res) => {
+    try {
+      const reasons = await storage.getCloseReasons();
+      res.json(reasons);
+    } catch (error) {
+      console.error('Get close reasons error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/close-reasons', requireRole('admin'), async (req, res) => {
+    try {
+      const reasonData = insertCloseReasonSchema.parse(req.body);
+      const reasons = await storage.getCloseReasons();
+      if (reasons.some(r => r.type === reasonData.type && r.label.toLowerCase() === reasonData.label.toLowerCase())) {
+        return res.status(400).json({ message: 'That reason already exists' });
+      }
+      const reason = await storage.createCloseReason(reasonData);
+      res.status(201).json(reason);
+    } catch (error) {
+      console.error('Create close reason error:', error);
+      res.status(400).json({ message: 'Invalid close reason data' });
+    }
+  });
+
+  app.post('/api/close-reasons/reorder', requireRole('admin'), async (req, res) => {
+    try {
+      const { reasonIds } = req.body;
+      if (!Array.isArray(reasonIds)) {
+        return res.status(400).json({ message: 'reasonIds must be an array' });
+      }
+      const success = await storage.reorderCloseReasons(reasonIds);
+      if (!success) {
+        return res.status(400).json({ message: 'Failed to reorder close reasons' });
+      }
+      res.json({ message: 'Close reasons reordered successfully' });
+    } catch (error) {
+      console.error('Reorder close reasons error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.put('/api/close-reasons/:id', requireRole('admin'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      // A won reason can't become a lost one; leads closed with it would no longer match their stage
+      const { type, ...reasonData } = insertCloseReasonSchema.partial().parse(req.body);
+      const reasons = await storage.getCloseReasons();
+      const existing = reasons.find(r => r.id === id);
+      if (!existing) {
+        return res.status(404).json({ message: 'Close reason not found' });
+      }
+      if (reasonData.label && reasons.some(r => r.id !== id && r.type === existing.type && r.label.toLowerCase() === reasonData.label!.toLowerCase())) {
+        return res.status(400).json({ message: 'That reason already exists' });
+      }
+      if (reasonData.isActive === false && isLastActiveReason(reasons, existing)) {
+        return res.status(400).json({ message: `At least one ${existing.type} reason must stay active` });
+      }
+
+      const reason = await storage.updateCloseReason(id, reasonData);
+      if (!reason) {
+        return res.status(404).json({ message: 'Close reason not found' });
+      }
+      res.json(reason);
+    } catch (error) {
+      console.error('Update close reason error:', error);
+      res.status(400).json({ message: 'Invalid close reason data' });
+    }
+  });
+
+  // Reasons recorded on leads are kept for reporting; they can only be deactivated
+  app.delete('/api/close-reasons/:id', requireRole('admin'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const reasons = await storage.getCloseReasons();
+      const existing = reasons.find(r => r.id === id);
+      if (!existing) {
+        return res.status(404).json({ message: 'Close reason not found' });
+      }
+      if (isLastActiveReason(reasons, existing)) {
+        return res.status(400).json({ message: `At least one ${existing.type} reason must stay active` });
+      }
+
+      const leadCount = await storage.countLeadsWithCloseReason(id);
+      if (leadCount > 0) {
+        return res.status(409).json({
+          message: `${leadCount} lead(s) were closed with this reason; deactivate it instead`,
+          leadCount
+        });
+      }
+
+      await storage.deleteCloseReason(id);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Delete close reason error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Tag registry (everyone can read it for autocomplete; admins manage it)
+  app.get('/api/tags', requireAuth, async (req, res) => {
+    try {
+      const tags = await storage.getTags();
+      res.json(tags);
+    } catch (error) {
+      console.error('Get tags error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Tag names in use on leads or products that were never added to the registry
+  app.get('/api/tags/unregistered', requireRole('admin'), async (req, res) => {
+    try {
+      const tags = await storage.getUnregisteredTags();
+      res.json(tags);
+    } catch (error) {
+      console.error('Get unregistered tags error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.get('/api/tags/settings', requireAuth, async (req, res) => {
+    try {
+      const settings = await storage.getTagSettings();
+      res.json(settings);
+    } catch (error) {
+      console.error('Get tag settings error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.put('/api/tags/settings', requireRole('admin'), async (req, res) => {
+    try {
+      const parsed = tagSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid tag settings' });
+      }
+      const settings = await storage.updateTagSettings(parsed.data);
+      res.json(settings);
+    } catch (error) {
+      console.error('Update tag settings error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Base currency and exchange rates used to report amounts across currencies
+  app.get('/api/currency/settings', requireAuth, async (req, res) => {
+    try {
+      const settings = await storage.getCurrencySettings();
+      res.json(settings);
+    } catch (error) {
+      console.error('Get currency settings error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.put('/api/currency/settings', requireRole('admin'), async (req, res) => {
+    try {
+      const parsed = currencySettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0].message });
+      }
+      const settings = await storage.updateCurrencySettings(parsed.data);
+      res.json(settings);
+    } catch (error) {
+      console.error('Update currency settings error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/tags', requireRole('admin'), async (req, res) => {
+    try {
+      const tagData = insertTagSchema.parse(req.body);
+      if (await storage.getTagByName(tagData.name)) {
+        return res.status(400).json({ message: 'That tag already exists' });
+      }
+      const tag = await storage.createTag(tagData);
+      res.status(201).json(tag);
+    } catch (error) {
+      console.error('Create tag error:', error);
+      res.status(400).json({ message: 'Invalid tag data' });
+    }
+  });
+
+  // Renaming rewrites the tag on every lead and product; to fold it into another tag, merge instead
+  app.put('/api/tags/:id', requireRole('admin'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const tagData = insertTagSchema.partial().parse(req.body);
+      if (tagData.name !== undefined) {
+        const existing = await storage.getTagByName(tagData.name);
+        if (existing && existing.id !== id) {
+          return res.status(400).json({ message: `"${existing.name}" already exists; merge the tags instead` });
+        }
+      }
+      const tag = await storage.updateTag(id, tagData, changeContext(req));
+      if (!tag) {
+        return res.status(404).json({ message: 'Tag not found' });
+      }
+      res.json(tag);
+    } catch (error) {
+      console.error('Update tag error:', error);
+      res.status(400).json({ message: 'Invalid tag data' });
+    }
+  });
+
+  // Replaces the source tags with this one everywhere and drops them from the registry
+  app.post('/api/tags/:id/merge', requireRole('admin'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const parsed = tagMergeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Choose the tags to merge' });
+      }
+      const tag = await storage.mergeTags(parsed.data.sourceNames, id, changeContext(req));
+      if (!tag) {
+        return res.status(404).json({ message: 'Tag not found' });
+      }
+      res.json(tag);
+    } catch (error) {
+      console.error('Merge tags error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Also removes the tag from every lead and product using it
+  app.delete('/api/tags/:id', requireRole('admin'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteTag(id, changeContext(req));
+      if (!success) {
+        return res.status(404).json({ message: 'Tag not found' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error('Delete tag error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Accounts (everyone can read; admins and agents add and edit, admins delete).
+  // Agents' deal counts, values and deal lists only cover their own leads.
+  const accountScope = (req: Request): AccountScope => ({
+    ...(typeof req.query.search === 'string' && req.query.search.trim() && { search: req.query.search.trim() }),
+    ...(req.user!.role === 'agent' && { assignedTo: req.user!.id }),
+  });
+
+  app.get('/api/accounts', requireAuth, async (req, res) => {
+    try {
+      const accounts = await storage.getAccounts(accountScope(req));
+      res.json(accounts);
+    } catch (error) {
+      console.error('Get accounts error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // With its contacts, deals, latest interactions and won value
+  app.get('/api/accounts/:id', requireAuth, async (req, res) => {
+    try {
+      const account = await storage.getAccountDetail(parseInt(req.params.id), accountScope(req));
+      if (!account) {
+        return res.status(404).json({ message: 'Account not found' });
+      }
+      res.json(account);
+    } catch (error) {
+      console.error('Get account error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/accounts', requireRole('admin', 'agent'), async (req, res) => {
+    try {
+      const accountData = insertAccountSchema.parse(req.body);
+      if (accountData.ownerId && !(await storage.getUser(accountData.ownerId))) {
+        return res.status(400).json({ message: 'Owner not found' });
+      }
+      const account = await storage.createAccount(accountData);
+      res.status(201).json(account);
+    } catch (error) {
+      console.error('Create account error:', error);
+      res.status(400).json({ message: 'Invalid account data' });
+    }
+  });
+
+  app.put('/api/accounts/:id', requireRole('admin', 'agent'), async (req, res) => {
+    try {
+      const accountData = insertAccountSchema.partial().parse(req.body);
+      if (accountData.ownerId && !(await storage.getUser(accountData.ownerId))) {
+        return res.status(400).json({ message: 'Owner not found' });
+      }
+      const account = await storage.updateAccount(parseInt(req.params.id), accountData);
+      if (!account) {
+        return res.status(404).json({ message: 'Account not found' });
+      }
+      res.json(account);
+    } catch (error) {
+      console.error('Update account error:', error);
+      res.status(400).json({ message: 'Invalid account data' });
+    }
+  });
+
+  // Removes its contacts; its leads are kept without an account
+  app.delete('/api/accounts/:id', requireRole('admin'), async (req, res) => {
+    try {
+      const success = await storage.deleteAccount(parseInt(req.params.id));
+      if (!success) {
+        return res.status(404).json({ message: 'Account not found' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error('Delete account error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Contacts belong to one account
+  app.get('/api/accounts/:id/contacts', requireAuth, async (req, res) => {
+    try {
+      const contacts = await storage.getContacts(parseInt(req.params.id));
+      res.json(contacts);
+    } catch (error) {
+      console.error('Get contacts error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/accounts/:id/contacts', requireRole('admin', 'agent'), async (req, res) => {
+    try {
+      const accountId = parseInt(req.params.id);
+      if (!(await storage.getAccount(accountId))) {
+        return res.status(404).json({ message: 'Account not found' });
+      }
+      const contactData = insertContactSchema.parse(req.body);
+      const contact = await storage.createContact(accountId, contactData);
+      res.status(201).json(contact);
+    } catch (error) {
+      console.error('Create contact error:', error);
+      res.status(400).json({ message: 'Invalid contact data' });
+    }
+  });
+
+  app.put('/api/contacts/:id', requireRole('admin', 'agent'), async (req, res) => {
+    try {
+      const contactData = insertContactSchema.partial().parse(req.body);
+      const contact = await storage.updateContact(parseInt(req.params.id), contactData);
+      if (!contact) {
+        return res.status(404).json({ message: 'Contact not found' });
+      }
+      res.json(contact);
+    } catch (error) {
+      console.error('Update contact error:', error);
+      res.status(400).json({ message: 'Invalid contact data' });
+    }
+  });
+
+  // Leads with this primary contact keep their account but lose the contact
+  app.delete('/api/contacts/:id', requireRole('admin', 'agent'), async (req, res) => {
+    try {
+      const success = await storage.deleteContact(parseInt(req.params.id));
+      if (!success) {
+        return res.status(404).json({ message: 'Contact not found' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error('Delete contact error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Custom Fields (Admin only for CUD, everyone can read)
+  app.get('/api/custom-fields', requireAuth, async (req, res) => {
+    try {
+      const fields = await storage.getCustomFields();
+      res.json(fields);
+    } catch (error) {
+      console.error('Get custom fields error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/custom-fields', requireRole('admin'), async (req, res) => {
+    try {
+      const fieldData = insertCustomFieldSchema.parse(req.body);
+      if (hasOptions(fieldData.type) && !fieldData.options?.length) {
+        return res.status(400).json({ message: 'Select fields need at least one option' });
+      }
+      const field = await storage.createCustomField({
+        ...fieldData,
+        options: hasOptions(fieldData.type) ? Array.from(new Set(fieldData.options)) : null
+      });
+      res.status(201).json(field);
+    } catch (error) {
+      console.error('Create custom field error:', error);
+      res.status(400).json({ message: 'Invalid custom field data' });
+    }
+  });
+
+  app.post('/api/custom-fields/reorder', requireRole('admin'), async (req, res) => {
+    try {
+      const { fieldIds } = req.body;
+      if (!Array.isArray(fieldIds)) {
+        return res.status(400).json({ message: 'fieldIds must be an array' });
+      }
+      const success = await storage.reorderCustomFields(fieldIds);
+      if (!success) {
+        return res.status(400).json({ message: 'Failed to reorder custom fields' });
+      }
+      res.json({ message: 'Custom fields reordered successfully' });
+    } catch (error) {
+      console.error('Reorder custom fields error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.put('/api/custom-fields/:id', requireRole('admin'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      // The type is fixed once created; values already stored on leads would no longer match it
+      const { type, ...fieldData } = insertCustomFieldSchema.partial().parse(req.body);
+      const existing = await storage.getCustomField(id);
+      if (!existing) {
+        return res.status(404).json({ message: 'Custom field not found' });
+      }
+
+      if (fieldData.options !== undefined) {
+        if (!hasOptions(existing.type)) {
+          fieldData.options = null;
+        } else if (!fieldData.options?.length) {
+          return res.status(400).json({ message: 'Select fields need at least one option' });
+        } else {
+          fieldData.options = Array.from(new Set(fieldData.options));
+        }
+      }
+
+      const field = await storage.updateCustomField(id, fieldData);
+      if (!field) {
+        return res.status(404).json({ message: 'Custom field not found' });
+      }
+      res.json(field);
+    } catch (error) {
+      console.error('Update custom field error:', error);
+      res.status(400).json({ message: 'Invalid custom field data' });
+    }
+  });
+
+  // Deleting a field also removes its values from every lead
+  app.delete('/api/custom-fields/:id', requireRole('admin'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteCustomField(id);
+      if (!success) {
+        return res.status(404).json({ message: 'Custom field not found' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error('Delete custom field error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Lead Scoring Rules (Admin only); every change rescores all leads
+  app.get('/api/scoring-rules', requireRole('admin'), async (req, res) => {
+    try {
+      const rules = await storage.getScoringRules();
+      res.json(rules);
+    } catch (error) {
+      console.error('Get scoring rules error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/scoring-rules', requireRole('admin'), async (req, res) => {
+    try {
+      const ruleData = insertScoringRuleSchema.parse(req.body);
+      const configError = await validateScoringRuleConfig(ruleData.type, ruleData.config);
+      if (configError) {
+        return res.status(400).json({ message: configError });
+      }
+      const rule = await storage.createScoringRule(ruleData);
+      await storage.refreshLeadScores();
+      res.status(201).json(rule);
+    } catch (error) {
+      console.error('Create scoring rule error:', error);
+      res.status(400).json({ message: 'Invalid scoring rule data' });
+    }
+  });
+
+  // Recompute every lead's score, e.g. after importing leads with hand-set scores
+  app.post('/api/scoring-rules/recompute', requireRole('admin'), async (req, res) => {
+    try {
+      const updated = await storage.refreshLeadScores();
+      res.json({ updated });
+    } catch (error) {
+      console.error('Recompute lead scores error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.put('/api/scoring-rules/:id', requireRole('admin'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      // A rule's settings only make sense for its type, so the type is fixed once created
+      const { type, ...ruleData } = insertScoringRuleSchema.partial().parse(req.body);
+      const existing = await storage.getScoringRule(id);
+      if (!existing) {
+        return res.status(404).json({ message: 'Scoring rule not found' });
+      }
+      if (ruleData.config !== undefined) {
+        const configError = await validateScoringRuleConfig(existing.type, ruleData.config);
+        if (configError) {
+          return res.status(400).json({ message: configError });
+        }
+      }
+
+      const rule = await storage.updateScoringRule(id, ruleData);
+      if (!rule) {
+        return res.status(404).json({ message: 'Scoring rule not found' });
+      }
+      await storage.refreshLeadScores();
+      res.json(rule);
+    } catch (error) {
+      console.error('Update scoring rule error:', error);
+      res.status(400).json({ message: 'Invalid scoring rule data' });
+    }
+  });
+
+  app.delete('/api/scoring-rules/:id', requireRole('admin'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteScoringRule(id);
+      if (!success) {
+        return res.status(404).json({ message: 'Scoring rule not found' });
+      }
+      await storage.refreshLeadScores();
+      res.status(204).send();
+    } catch (error) {
+      console.error('Delete scoring rule error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Saved Views; listed with whether the current user pinned each one
+  app.get('/api/saved-views', requireAuth, async (req, res) => {
+    try {
+      const views = await storage.getSavedViewsForUser(req.user!);
+      res.json(views);
+    } catch (error) {
+      console.error('Get saved views error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/saved-views', requireAuth, async (req, res) => {
+    try {
+      const viewData = insertSavedViewSchema.parse(req.body);
+      const sharingError = savedViewSharingError(viewData, req.user!);
+      if (sharingError) {
+        return res.status(400).json({ message: sharingError });
+      }
+      const view = await storage.createSavedView(viewData, req.user!.id);
+      if (req.body.pin) {
+        await storage.setSavedViewPinned(view.id, req.user!.id, true);
+      }
+      res.status(201).json(view);
+    } catch (error) {
+      console.error('Create saved view error:', error);
+      res.status(400).json({ message: 'Invalid saved view data' });
+    }
+  });
+
+  app.put('/api/saved-views/:id', requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const viewData = insertSavedViewSchema.partial().parse(req.body);
+      const existing = await storage.getSavedView(id);
+      if (!existing || !canSeeSavedView(existing, req.user!)) {
+        return res.status(404).json({ message: 'Saved view not found' });
+      }
+      if (!canEditSavedView(existing, req.user!)) {
+        return res.status(403).json({ message: 'Only the creator of a view can change it' });
+      }
+      const sharingError = savedViewSharingError({ ...existing, ...viewData }, req.user!);
+      if (sharingError) {
+        return res.status(400).json({ message: sharingError });
+      }
+
+      const view = await storage.updateSavedView(id, viewData);
+      res.json(view);
+    } catch (error) {
+      console.error('Update saved view error:', error);
+      res.status(400).json({ message: 'Invalid saved view data' });
+    }
+  });
+
+  app.delete('/api/saved-views/:id', requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getSavedView(id);
+      if (!existing || !canSeeSavedView(existing, req.user!)) {
+        return res.status(404).json({ message: 'Saved view not found' });
+      }
+      if (!canEditSavedView(existing, req.user!)) {
+        return res.status(403).json({ message: 'Only the creator of a view can delete it' });
+      }
+      await storage.deleteSavedView(id);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Delete saved view error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Pinned views show as tabs above the leads table for the user who pinned them
+  app.put('/api/saved-views/:id/pin', requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const view = await storage.getSavedView(id);
+      if (!view || !canSeeSavedView(view, req.user!)) {
+        return res.status(404).json({ message: 'Saved view not found' });
+      }
+      await storage.setSavedViewPinned(id, req.user!.id, req.body.pinned !== false);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Pin saved view error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Leads, filtered as described at leadFiltersFromQuery
+  app.get('/api/leads', requireAuth, async (req, res) => {
+    try {
+      const { search, sortBy, sortOrder } = req.query;
+      const filters: LeadFilters = {
+        ...leadFiltersFromQuery(req, await storage.getCustomFields()),
+        ...(search && { search: search as string }),
+        ...(sortBy && { sortBy: sortBy as string }),
+        ...(sortOrder && { sortOrder: sortOrder === 'asc' ? 'asc' as const : 'desc' as const }),
+        ...leadPageFromQuery(req),
+      };
+
+      const page = await storage.getLeadsPage(filters);
+      res.json(page);
+    } catch (error) {
+      if (error instanceof LeadFilterError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Get leads error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Full-text search across lead fields, tags, interactions and attachment descriptions
+  app.get('/api/leads/search', requireAuth, async (req, res) => {
+    try {
+      const { q } = req.query;
+      if (!q || !(q as string).trim()) {
+        return res.status(400).json({ message: 'Search query is required' });
+      }
+
+      const filters: LeadFilters = {
+        ...leadFiltersFromQuery(req, await storage.getCustomFields()),
+        ...leadPageFromQuery(req),
+      };
+
+      const results = await storage.searchLeads((q as string).trim(), filters);
+      res.json(results);
+    } catch (error) {
+      if (error instanceof LeadFilterError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Search leads error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Live lead counts for the view tabs the current user sees (defaults and pinned views), by view id
+  app.get('/api/leads/view-counts', requireAuth, async (req, res) => {
+    try {
+      const [views, fields] = await Promise.all([storage.getSavedViewsForUser(req.user!), storage.getCustomFields()]);
+      const counts: Record<number, number> = {};
+      for (const view of views.filter(view => view.isDefault || view.isPinned)) {
+        const filters = savedViewLeadFilters(view.filters, req.user!, fields);
+        counts[view.id] = view.filters.search
+          ? (await storage.searchLeads(view.filters.search, { ...filters, limit: 1 })).total
+          : await storage.countLeads(filters);
+      }
+      res.json(counts);
+    } catch (error) {
+      console.error('Get view counts error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Duplicate Detection
+  app.post('/api/leads/duplicates/check', requireAuth, async (req, res) => {
+    try {
+      const { name, email, phone, company, excludeId } = req.body;
+      // Agents are only warned about leads they can see
+      const scope: DuplicateScope = req.user!.role === 'agent' ? { assignedTo: req.user!.id } : {};
+
+      const candidates = await storage.findDuplicateCandidates(
+        { name: name || '', email: email || null, phone: phone || null, company: company || null },
+        { ...scope, excludeId: excludeId ? parseInt(excludeId) : undefined }
+      );
+      res.json(candidates);
+    } catch (error) {
+      console.error('Check duplicates error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.get('/api/leads/duplicates', requireAuth, async (req, res) => {
+    try {
+      const scope: DuplicateScope = req.user!.role === 'agent' ? { assignedTo: req.user!.id } : {};
+      const limit = req.query.limit ? parseInt(req.query.limit as string) || undefined : undefined;
+
+      const pairs = await storage.getDuplicatePairs({ ...scope, limit });
+      res.json(pairs);
+    } catch (error) {
+      console.error('Get duplicates error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/leads/duplicates/dismiss', requireAuth, async (req, res) => {
+    try {
+      const leadId = parseInt(req.body.leadId);
+      const otherLeadId = parseInt(req.body.otherLeadId);
+      if (!leadId || !otherLeadId || leadId === otherLeadId) {
+        return res.status(400).json({ message: 'Two different lead IDs are required' });
+      }
+
+      const [lead, otherLead] = await Promise.all([storage.getLead(leadId), storage.getLead(otherLeadId)]);
+      if (!lead || !otherLead) {
+        return res.status(404).json({ message: 'Lead not found' });
+      }
+
+      if (req.user!.role === 'agent' && (lead.assignedTo !== req.user!.id || otherLead.assignedTo !== req.user!.id)) {
+        return res.status(403).json({ message: 'You can only review leads you created' });
+      }
+
+      await storage.dismissDuplicatePair(leadId, otherLeadId, req.user!.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Dismiss duplicate error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/leads/merge', requireAuth, async (req, res) => {
+    try {
+      const parsed = leadMergeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid merge request', errors: parsed.error.errors });
+      }
+      const { survivorId, mergedId, fields } = parsed.data;
+
+      const [survivor, merged] = await Promise.all([storage.getLead(survivorId), storage.getLead(mergedId)]);
+      if (!survivor || !merged) {
+        return res.status(404).json({ message: 'Lead not found' });
+      }
+
+      // Merging trashes a lead, so both records follow the same rule as DELETE /api/leads/:id
+      if (req.user!.role !== 'admin' && (survivor.assignedTo !== req.user!.id || merged.assignedTo !== req.user!.id)) {
+        return res.status(403).json({ message: 'You can only merge leads you created' });
+      }
+
+      const result = await storage.mergeLeads(survivorId, mergedId, fields, changeContext(req));
+      if (!result) {
+        return res.status(404).json({ message: 'Lead not found' });
+      }
+
+      publishLeadChanges('lead', 'updated', [result.lead]);
+      publishLeadChanges('lead', 'deleted', [result.mergedLead]);
+      await triggerWebhooks('lead.merged', {
+        ...result.lead,
+        mergedLead: result.mergedLead,
+        mergedBy: {
+          id: req.user!.id,
+          name: req.user!.name,
+          email: req.user!.email
+        }
+      });
+
+      res.json({
+        message: 'Leads merged successfully',
+        lead: result.lead,
+        mergedLeadId: mergedId
+      });
+    } catch (error) {
+      console.error('Merge leads error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Moves leads into another pipeline, mapping each current stage onto one of the target's stages
+  app.post('/api/leads/move-pipeline', requireAuth, async (req, res) => {
+    try {
+      const { leadIds, pipelineId, stageMapping } = movePipelineSchema.parse(req.body);
+      const pipeline = await storage.getPipeline(pipelineId);
+      if (!pipeline) {
+        return res.status(404).json({ message: 'Pipeline not found' });
+      }
+
+      const targetStages = await storage.getPipelineStages(pipelineId);
+      const unknownStage = Object.values(stageMapping).find(key => !targetStages.some(stage => stage.key === key));
+      if (unknownStage) {
+        return res.status(400).json({ message: `Unknown stage "${unknownStage}" in ${pipeline.name}` });
+      }
+
+      const originalLeads = await Promise.all(leadIds.map(id => storage.getLead(id)));
+      if (originalLeads.some(lead => !lead)) {
+        return res.status(404).json({ message: 'Lead not found' });
+      }
+      if (req.user!.role === 'agent' && originalLeads.some(lead => lead!.assignedTo !== req.user!.id)) {
+        return res.status(403).json({ message: 'You can only move leads you created' });
+      }
+
+      // Mapping open leads into a won or lost stage would close them without a reason
+      const allStages = await storage.getPipelineStages();
+      const closesWithoutReason = originalLeads.some(lead => {
+        const targetStage = targetStages.find(stage => stage.key === stageMapping[lead!.status]);
+        const currentStage = allStages.find(stage => stage.pipelineId === lead!.pipelineId && stage.key === lead!.status);
+        return targetStage && targetStage.type !== 'open' && targetStage.type !== currentStage?.type;
+      });
+      if (closesWithoutReason) {
+        return res.status(400).json({ message: 'Leads can only be mapped to a won or lost stage they are already in; close them from the board instead' });
+      }
+
+      const moved = await storage.moveLeadsToPipeline(leadIds, pipelineId, stageMapping, changeContext(req));
+      publishLeadChanges('lead', 'updated', moved);
+      for (const lead of moved) {
+        await triggerWebhooks('lead.updated', lead);
+        if (originalLeads.find(original => original!.id === lead.id)?.status !== lead.status) {
+          await triggerWebhooks('lead.status_changed', lead);
+        }
+      }
+
+      res.json({ leads: moved });
+    } catch (error) {
+      console.error('Move leads to pipeline error:', error);
+      res.status(400).json({ message: 'Invalid pipeline move' });
+    }
+  });
+
+  app.post('/api/leads', requireAuth, async (req, res) => {
+    try {
+      // Extract productIds from request body before validation
+      const { productIds, ...leadDataRaw } = req.body;
+      
+      // Convert followUpDate string to Date object if present, or null if empty string
+      if (leadDataRaw.followUpDate) {
+        if (typeof leadDataRaw.followUpDate === 'string') {
+          if (leadDataRaw.followUpDate.trim() === '') {
+            leadDataRaw.followUpDate = null;
+          } else {
+            leadDataRaw.followUpDate = new Date(leadDataRaw.followUpDate);
+          }
+        }
+      } else {
+        leadDataRaw.followUpDate = null;
+      }
+      
+      // Validate lead data (without productIds)
+      const leadData = insertLeadSchema.parse(leadDataRaw);
+      if (leadData.pipelineId && !(await storage.getPipeline(leadData.pipelineId))) {
+        return res.status(400).json({ message: 'Pipeline not found' });
+      }
+      leadData.pipelineId = leadData.pipelineId ?? await storage.resolveLeadPipelineId(productIds);
+      if (leadData.status && !(await isPipelineStage(leadData.pipelineId, leadData.status))) {
+        return res.status(400).json({ message: 'Unknown pipeline stage' });
+      }
+      const closeError = leadData.status ? await closeReasonError(leadData.pipelineId, leadData.status, leadData.closeReasonId) : null;
+      if (closeError) {
+        return res.status(400).json({ message: closeError });
+      }
+      const customFieldValues = await parseCustomFieldValues(leadData.customFields);
+      if (!customFieldValues.success) {
+        return res.status(400).json({ message: customFieldValues.error.issues[0].message });
+      }
+      leadData.customFields = customFieldValues.data;
+      // Without an account the lead is matched to one by company and email domain
+      if (leadData.accountId !== undefined || leadData.primaryContactId != null) {
+        const accountError = await leadAccountError(leadData.accountId, leadData.primaryContactId);
+        if (accountError) {
+          return res.status(400).json({ message: accountError });
+        }
+      }
+      if (leadData.tags) {
+        const resolvedTags = await registeredTags(leadData.tags, req);
+        if ('error' in resolvedTags) {
+          return res.status(400).json({ message: resolvedTags.error });
+        }
+        leadData.tags = resolvedTags.tags;
+      }
+      
+      // For role-based access control: ensure the creator is assigned to the lead they create
+      if (!leadData.assignedTo && req.user!.role === 'agent') {
+        leadData.assignedTo = req.user!.id;
+      }
+      
+      // Create lead with productIds
+      const lead = await storage.createLead(leadData, productIds, changeContext(req));
+      await notifyNewAssignees(req, { assignedTo: null, assignedEngineer: null }, lead, leadData);
+      publishLeadChanges('lead', 'created', [lead]);
+      // Get creator information and lead products for comprehensive webhook payload
+      const creator = req.session.userId ? await storage.getUser(req.session.userId) : null;
+      const leadWithProducts = await storage.getLeadWithProducts(lead.id);
+      
+      // Create enhanced payload with comprehensive lead details and creator information
+      const webhookPayload = {
+        ...(await withLineItems(lead)),
+        interestedProductNames: leadWithProducts?.products?.map(p => p.name) || [],
+        dealValue: lead.value ?? 0, // Alias for value field, default to 0 if null
+        agent: creator ? {
+          id: creator.id,
+          name: creator.name,
+          email: creator.email,
+          role: creator.role
+        } : null
+      };
+      
+      // Trigger webhooks
+      await triggerWebhooks('lead.created', webhookPayload);
+
+      // The lead is still created; the caller decides whether to merge suspected duplicates
+      const possibleDuplicates = await storage.findDuplicateCandidates(lead, {
+        excludeId: lead.id,
+        ...(req.user!.role === 'agent' && { assignedTo: req.user!.id })
+      });
+      
+      res.status(201).json({
+        ...lead,
+        possibleDuplicates: possibleDuplicates.map(({ lead: duplicate, reasons, score }) => ({
+          id: duplicate.id,
+          name: duplicate.name,
+          email: duplicate.email,
+          company: duplicate.company,
+          reasons,
+          score
+        }))
+      });
+    } catch (error) {
+      console.error('Create lead error:', error);
+      res.status(400).json({ message: 'Invalid lead data' });
+    }
+  });
+
+  // Only numeric ids, so /api/leads/trash and the like still reach their own routes
+  app.get('/api/leads/:id(\\d+)', requireAuth, async (req, res) => {
+    try {
+      const lead = await storage.getLead(parseInt(req.params.id));
+      if (!lead) {
+        return res.status(404).json({ message: 'Lead not found' });
+      }
+
+      // Permission check: agents can only open leads they created
+      if (req.user!.role === 'agent' && lead.assignedTo !== req.user!.id) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      res.json(lead);
+    } catch (error) {
+      console.error('Get lead error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.put('/api/leads/:id', requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      // Extract productIds from request body before validation
+      const { productIds, ...leadDataRaw } = req.body;
+      
+      // Convert followUpDate string to Date object if present
+      if (leadDataRaw.followUpDate && typeof leadDataRaw.followUpDate === 'string') {
+        leadDataRaw.followUpDate = new Date(leadDataRaw.followUpDate);
+      }
+
+      // Changing pipeline needs a stage mapping, so it goes through POST /api/leads/move-pipeline
+      delete leadDataRaw.pipelineId;
+      
+      const originalLead = await storage.getLead(id);
+      if (!originalLead) {
+        return res.status(404).json({ message: 'Lead not found' });
+      }
+
+      // Permission check: Admin can update any lead, others can only update their own leads
+      if (req.user!.role !== 'admin' && req.user!.role !== 'engineer' && originalLead.assignedTo !== req.user!.id) {
+        return res.status(403).json({ message: 'You can only update leads you created' });
+      }
+
+      const pipelineId = await leadPipelineId(originalLead);
+      if (leadDataRaw.status !== undefined && !(await isPipelineStage(pipelineId, leadDataRaw.status))) {
+        return res.status(400).json({ message: 'Unknown pipeline stage' });
+      }
+      const closeError = await closeReasonError(pipelineId, leadDataRaw.status ?? originalLead.status, leadDataRaw.closeReasonId, originalLead);
+      if (closeError) {
+        return res.status(400).json({ message: closeError });
+      }
+
+      // Custom field updates may be partial; values not sent are kept
+      if (leadDataRaw.customFields !== undefined) {
+        const customFieldValues = await parseCustomFieldValues({ ...originalLead.customFields, ...leadDataRaw.customFields });
+        if (!customFieldValues.success) {
+          return res.status(400).json({ message: customFieldValues.error.issues[0].message });
+        }
+        leadDataRaw.customFields = customFieldValues.data;
+      }
+
+      if (Array.isArray(leadDataRaw.tags)) {
+        const resolvedTags = await registeredTags(leadDataRaw.tags, req, originalLead.tags ?? []);
+        if ('error' in resolvedTags) {
+          return res.status(400).json({ message: resolvedTags.error });
+        }
+        leadDataRaw.tags = resolvedTags.tags;
+      }
+
+      if (leadDataRaw.currency !== undefined) {
+        const currency = currencyCodeSchema.safeParse(leadDataRaw.currency);
+        if (!currency.success) {
+          return res.status(400).json({ message: currency.error.issues[0].message });
+        }
+        leadDataRaw.currency = currency.data;
+      }
+
+      if (leadDataRaw.accountId !== undefined || leadDataRaw.primaryContactId !== undefined) {
+        const accountId = leadDataRaw.accountId !== undefined ? leadDataRaw.accountId : originalLead.accountId;
+        // Moving the lead to another account drops a primary contact who works elsewhere
+        if (leadDataRaw.primaryContactId === undefined && accountId !== originalLead.accountId) {
+          leadDataRaw.primaryContactId = null;
+        }
+        const accountError = await leadAccountError(accountId, leadDataRaw.primaryContactId !== undefined ? leadDataRaw.primaryContactId : originalLead.primaryContactId);
+        if (accountError) {
+          return res.status(400).json({ message: accountError });
+        }
+      }
+      
+      const lead = await storage.updateLead(id, leadDataRaw, productIds, undefined, changeContext(req));
+      if (!lead) {
+        return res.status(404).json({ message: 'Lead not found' });
+      }
+      await notifyNewAssignees(req, originalLead, lead, leadDataRaw);
+      publishLeadChanges('lead', 'updated', [{ ...lead, previousAssignedTo: originalLead.assignedTo }]);
+
+      // Trigger webhooks
+      await triggerWebhooks('lead.updated', await withLineItems(lead));
+      if (originalLead && originalLead.status !== lead.status) {
+        await triggerWebhooks('lead.status_changed', lead);
+      }
+      
+      res.json(lead);
+    } catch (error) {
+      console.error('Update lead error:', error);
+      res.status(400).json({ message: 'Invalid lead data' });
+    }
+  });
+
+  app.delete('/api/leads/:id', requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      // Get the lead before deleting for webhook and permission check
+      const lead = await storage.getLead(id);
+      if (!lead) {
+        return res.status(404).json({ message: 'Lead not found' });
+      }
+      
+      // Permission check: Admin can delete any lead, others can only delete their own leads
+      if (req.user!.role !== 'admin' && lead.assignedTo !== req.user!.id) {
+        return res.status(403).json({ message: 'You can only delete leads you created' });
+      }
+      
+      // Deleted leads go to the trash and can be restored until the retention period runs out
+      const success = await storage.deleteLead(id, changeContext(req));
+      if (!success) {
+        return res.status(404).json({ message: 'Lead not found' });
+      }
+
+      // Trigger webhooks
+      await triggerWebhooks('lead.deleted', lead);
+      publishLeadChanges('lead', 'deleted', [lead]);
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error('Delete lead error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Follow-ups
+  // The current user's leads (as agent or engineer) whose follow-up has come due, overdue ones included
+  app.get('/api/follow-ups', requireAuth, async (req, res) => {
+    try {
+      const followUps = await storage.getDueFollowUps({ involving: req.user!.id });
+      res.json(followUps);
+    } catch (error) {
+      console.error('Get follow-ups error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Snoozing moves the follow-up date and completing clears it; either way the lead's change history
+  // records it and the scheduler reminds again only for a new date
+  const updateFollowUp = async (req: Request, res: Response, followUpDate: Date | null, action: string) => {
+    const original = await storage.getLead(parseInt(req.params.id));
+    if (!original) {
+      return res.status(404).json({ message: 'Lead not found' });
+    }
+
+    // Same rule as editing the lead itself
+    if (req.user!.role !== 'admin' && req.user!.role !== 'engineer' && original.assignedTo !== req.user!.id) {
+      return res.status(403).json({ message: `You can only ${action} follow-ups on leads you created` });
+    }
+    if (!original.followUpDate) {
+      return res.status(400).json({ message: 'This lead has no follow-up' });
+    }
+
+    const lead = await storage.updateLead(original.id, { followUpDate }, undefined, undefined, changeContext(req));
+    if (!lead) {
+      return res.status(404).json({ message: 'Lead not found' });
+    }
+    await triggerWebhooks('lead.updated', await withLineItems(lead));
+    publishLeadChanges('lead', 'updated', [lead]);
+    res.json(lead);
+  };
+
+  app.post('/api/leads/:id/follow-up/snooze', requireAuth, async (req, res) => {
+    const parsed = snoozeFollowUpSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0].message });
+    }
+
+    try {
+      await updateFollowUp(req, res, parsed.data.until, 'snooze');
+    } catch (error) {
+      console.error('Snooze follow-up error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/leads/:id/follow-up/complete', requireAuth, async (req, res) => {
+    try {
+      await updateFollowUp(req, res, null, 'complete');
+    } catch (error) {
+      console.error('Complete follow-up error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Tasks
+  // Agents see the tasks they are assigned or created and those on their own leads; ?mine=true is
+  // just the current user's
+  app.get('/api/tasks', requireAuth, async (req, res) => {
+    try {
+      const { assignedTo, leadId, completed, mine } = req.query;
+      const taskList = await storage.getTasks({
+        ...(assignedTo && { assignedTo: parseInt(assignedTo as string) }),
+        ...(mine === 'true' && { assignedTo: req.user!.id }),
+        ...(leadId && { leadId: parseInt(leadId as string) }),
+        ...(completed !== undefined && { completed: completed === 'true' }),
+        ...(req.user!.role === 'agent' && { visibleTo: req.user!.id }),
+      });
+      res.json(taskList);
+    } catch (error) {
+      console.error('Get tasks error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.get('/api/leads/:id/tasks', requireAuth, async (req, res) => {
+    try {
+      const lead = await storage.getLead(parseInt(req.params.id));
+      if (!lead) {
+        return res.status(404).json({ message: 'Lead not found' });
+      }
+
+      // Permission check: agents can only see tasks on leads they created
+      if (req.user!.role === 'agent' && lead.assignedTo !== req.user!.id) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const taskList = await storage.getTasks({ leadId: lead.id });
+      res.json(taskList);
+    } catch (error) {
+      console.error('Get lead tasks error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Tasks without an assignee go to whoever creates them
+  app.post('/api/tasks', requireAuth, async (req, res) => {
+    const parsed = insertTaskSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0].message });
+    }
+
+    try {
+      const linkError = await taskLinkError(req, parsed.data.leadId, parsed.data.assignedTo);
+      if (linkError) {
+        return res.status(linkError.status).json({ message: linkError.message });
+      }
+
+      const task = await storage.createTask({ ...parsed.data, assignedTo: parsed.data.assignedTo ?? req.user!.id }, req.user!.id);
+      await triggerWebhooks('task.created', await taskWebhookPayload(task));
+      res.status(201).json(task);
+    } catch (error) {
+      console.error('Create task error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.put('/api/tasks/:id', requireAuth, async (req, res) => {
+    const parsed = updateTaskSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0].message });
+    }
+
+    try {
+      const original = await storage.getTask(parseInt(req.params.id));
+      if (!original) {
+        return res.status(404).json({ message: 'Task not found' });
+      }
+      if (!(await canEditTask(req, original))) {
+        return res.status(403).json({ message: 'You can only update your own tasks' });
+      }
+
+      const linkError = await taskLinkError(req, parsed.data.leadId, parsed.data.assignedTo);
+      if (linkError) {
+        return res.status(linkError.status).json({ message: linkError.message });
+      }
+
+      const task = await storage.updateTask(original.id, parsed.data, req.user!.id);
+      if (!task) {
+        return res.status(404).json({ message: 'Task not found' });
+      }
+
+      if (!original.completedAt && task.completedAt) {
+        await triggerWebhooks('task.completed', await taskWebhookPayload(task));
+      }
+      res.json(task);
+    } catch (error) {
+      console.error('Update task error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.delete('/api/tasks/:id', requireAuth, async (req, res) => {
+    try {
+      const task = await storage.getTask(parseInt(req.params.id));
+      if (!task) {
+        return res.status(404).json({ message: 'Task not found' });
+      }
+      if (!(await canEditTask(req, task))) {
+        return res.status(403).json({ message: 'You can only delete your own tasks' });
+      }
+
+      await storage.deleteTask(task.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Delete task error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Calendar
+  // The current user's feed URL, null until one is created
+  app.get('/api/calendar/feed', requireAuth, async (req, res) => {
+    try {
+      const feed = await storage.getCalendarFeed(req.user!.id);
+      res.json({ url: feed ? `${appUrl(req)}/api/calendar/${feed.token}/feed.ics` : null });
+    } catch (error) {
+      console.error('Get calendar feed error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Creates the feed, or replaces its URL so the old one stops working
+  app.post('/api/calendar/feed', requireAuth, async (req, res) => {
+    try {
+      const feed = await storage.setCalendarFeedToken(req.user!.id, newCalendarToken());
+      res.json({ url: `${appUrl(req)}/api/calendar/${feed.token}/feed.ics` });
+    } catch (error) {
+      console.error('Reset calendar feed error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Calendar apps can't log in, so the token in the URL stands in for the session. Meetings from the
+  // last 30 days are kept so the recent past still shows.
+  app.get('/api/calendar/:token/feed.ics', async (req, res) => {
+    try {
+      const feed = await storage.getCalendarFeedByToken(req.params.token);
+      const user = feed ? await storage.getUser(feed.userId) : undefined;
+      if (!user || !user.isActive) {
+        return res.status(404).json({ message: 'Calendar not found' });
+      }
+
+      const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+      const items = await storage.getCalendarItems(user.id, calendarLeadFilters(user), since);
+      sendCalendar(res, calendarItemEvents(items, appUrl(req)), undefined, `Siwaht CRM: ${user.name}`);
+    } catch (error) {
+      console.error('Calendar feed error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.get('/api/leads/:id/follow-up.ics', requireAuth, async (req, res) => {
+    try {
+      const lead = await storage.getLead(parseInt(req.params.id));
+      if (!lead) {
+        return res.status(404).json({ message: 'Lead not found' });
+      }
+      if (req.user!.role === 'agent' && lead.assignedTo !== req.user!.id) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+      if (!lead.followUpDate) {
+        return res.status(400).json({ message: 'This lead has no follow-up' });
+      }
+
+      const event = followUpEvent(lead, appUrl(req));
+      sendCalendar(res, [event], calendarFileName(event));
+    } catch (error) {
+      console.error('Follow-up calendar error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.get('/api/interactions/:id/meeting.ics', requireAuth, async (req, res) => {
+    try {
+      const interaction = await storage.getInteraction(parseInt(req.params.id));
+      const lead = interaction ? await storage.getLead(interaction.leadId) : undefined;
+      if (!interaction || !lead) {
+        return res.status(404).json({ message: 'Interaction not found' });
+      }
+      if (req.user!.role === 'agent' && lead.assignedTo !== req.user!.id) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+      if (interaction.type !== 'meeting' || !interaction.scheduledAt) {
+        return res.status(400).json({ message: 'This interaction is not a scheduled meeting' });
+      }
+
+      const event = meetingEvent(interaction, lead, appUrl(req));
+      sendCalendar(res, [event], calendarFileName(event));
+    } catch (error) {
+      console.error('Meeting calendar error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.get('/api/tasks/:id/task.ics', requireAuth, async (req, res) => {
+    try {
+      const task = await storage.getTask(parseInt(req.params.id));
+      if (!task) {
+        return res.status(404).json({ message: 'Task not found' });
+      }
+      if (!(await canEditTask(req, task))) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+      if (!task.dueAt) {
+        return res.status(400).json({ message: 'This task has no due date' });
+      }
+
+      const lead = task.leadId !== null ? await storage.getLead(task.leadId) : undefined;
+      const event = taskEvent({ ...task, leadName: lead?.name ?? null }, appUrl(req));
+      sendCalendar(res, [event], calendarFileName(event));
+    } catch (error) {
+      console.error('Task calendar error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Notifications: always the current user's own
+  app.get('/api/notifications', requireAuth, async (req, res) => {
+    try {
+      const [notifications, unreadCount] = await Promise.all([
+        storage.getNotifications(req.user!.id),
+        storage.getUnreadNotificationCount(req.user!.id),
+      ]);
+      res.json({ notifications, unreadCount });
+    } catch (error) {
+      console.error('Get notifications error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/notifications/read-all', requireAuth, async (req, res) => {
+    try {
+      const updated = await storage.markAllNotificationsRead(req.user!.id);
+      res.json({ updated });
+    } catch (error) {
+      console.error('Mark all notifications read error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  for (const [action, read] of [['read', true], ['unread', false]] as const) {
+    app.post(`/api/notifications/:id/${action}`, requireAuth, async (req, res) => {
+      try {
+        const notification = await storage.setNotificationRead(parseInt(req.params.id), req.user!.id, read);
+        if (!notification) {
+          return res.status(404).json({ message: 'Notification not found' });
+        }
+        res.json(notification);
+      } catch (error) {
+        console.error(`Mark notification ${action} error:`, error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    });
+  }
+
+  app.get('/api/notifications/preferences', requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getNotificationPreferences(req.user!.id));
+    } catch (error) {
+      console.error('Get notification preferences error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.put('/api/notifications/preferences', requireAuth, async (req, res) => {
+    try {
+      const parsed = notificationPreferencesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0].message });
+      }
+      res.json(await storage.updateNotificationPreferences(req.user!.id, parsed.data));
+    } catch (error) {
+      console.error('Update notification preferences error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Trash: agents see the leads they deleted from their own list, everyone else sees all of it
+  app.get('/api/leads/trash', requireAuth, async (req, res) => {
+    try {
+      const page = await storage.getLeadsPage({
+        trashed: true,
+        sortBy: 'deletedAt',
+        ...(req.user!.role === 'agent' && { assignedTo: req.user!.id }),
+        ...leadPageFromQuery(req),
+      });
+      res.json({ ...page, retentionDays: LEAD_TRASH_RETENTION_DAYS });
+    } catch (error) {
+      console.error('Get trash error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/leads/:id/restore', requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const trashed = await storage.getTrashedLead(id);
+      if (!trashed) {
+        return res.status(404).json({ message: 'Lead not found in the trash' });
+      }
+
+      // Same rule as deleting: admins restore any lead, others only their own
+      if (req.user!.role !== 'admin' && trashed.assignedTo !== req.user!.id) {
+        return res.status(403).json({ message: 'You can only restore leads you created' });
+      }
+
+      const lead = await storage.restoreLead(id);
+      if (!lead) {
+        return res.status(404).json({ message: 'Lead not found in the trash' });
+      }
+
+      await triggerWebhooks('lead.restored', lead);
+      publishLeadChanges('lead', 'created', [lead]);
+      res.json(lead);
+    } catch (error) {
+      console.error('Restore lead error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.delete('/api/leads/trash/:id', requireRole('admin'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const lead = await storage.getTrashedLead(id);
+      if (!lead || !(await storage.purgeLead(id))) {
+        return res.status(404).json({ message: 'Lead not found in the trash' });
+      }
+
+      await triggerWebhooks('lead.purged', lead);
+      publishLeadChanges('lead', 'deleted', [lead]);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Purge lead error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Lead Assignment (Admin only)
+  app.put('/api/leads/:id/assign-agent', requireRole('admin'), async (req, res) => {
+    try {
+      const leadId = parseInt(req.params.id);
+      const { agentId } = req.body;
+      
+      // Validate agent exists and has correct role
+      if (agentId) {
+        const agent = await storage.getUser(agentId);
+        if (!agent) {
+          return res.status(404).json({ message: 'Agent not found' });
+        }
+        if (agent.role !== 'agent') {
+          return res.status(400).json({ message: 'User is not an agent' });
+        }
+      }
+      
+      const before = await storage.getLead(leadId);
+      const lead = await storage.updateLead(leadId, { assignedTo: agentId || null }, undefined, true, changeContext(req));
+      if (!before || !lead) {
+        return res.status(404).json({ message: 'Lead not found' });
+      }
+      await notifyNewAssignees(req, before, lead, { assignedTo: agentId });
+      publishLeadChanges('lead', 'updated', [{ ...lead, previousAssignedTo: before.assignedTo }]);
+      
+      // Get assigned agent info for response
+      const assignedAgent = agentId ? await storage.getUser(agentId) : null;
+      
+      // Trigger webhooks
+      await triggerWebhooks('lead.assigned', {
+        ...lead,
+        assignedAgent: assignedAgent ? {
+          id: assignedAgent.id,
+          name: assignedAgent.name,
+          email: assignedAgent.email
+        } : null
+      });
+      
+      res.json({
+        message: agentId ? 'Lead assigned to agent successfully' : 'Lead unassigned from agent',
+        lead,
+        assignedAgent: assignedAgent ? {
+          id: assignedAgent.id,
+          name: assignedAgent.name,
+          email: assignedAgent.email
+        } : null
+      });
+    } catch (error) {
+      console.error('Assign agent error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.put('/api/leads/:id/assign-engineer', requireRole('admin'), async (req, res) => {
+    try {
+      const leadId = parseInt(req.params.id);
+      const { engineerId } = req.body;
+      
+      // Validate engineer exists and has correct role
+      if (engineerId) {
+        const engineer = await storage.getUser(engineerId);
+        if (!engineer) {
+          return res.status(404).json({ message: 'Engineer not found' });
+        }
+        if (engineer.role !== 'engineer') {
+          return res.status(400).json({ message: 'User is not an engineer' });
+        }
+      }
+      
+      const before = await storage.getLead(leadId);
+      const lead = await storage.updateLead(leadId, { assignedEngineer: engineerId || null }, undefined, true, changeContext(req));
+      if (!before || !lead) {
+        return res.status(404).json({ message: 'Lead not found' });
+      }
+      await notifyNewAssignees(req, before, lead, { assignedEngineer: engineerId });
+      publishLeadChanges('lead', 'updated', [lead]);
+      
+      // Get assigned engineer info for response
+      const assignedEngineer = engineerId ? await storage.getUser(engineerId) : null;
+      
+      // Trigger webhooks
+      await triggerWebhooks('lead.assigned', {
+        ...lead,
+        assignedEngineer: assignedEngineer ? {
+          id: assignedEngineer.id,
+          name: assignedEngineer.name,
+          email: assignedEngineer.email
+        } : null
+      });
+      
+      res.json({
+        message: engineerId ? 'Lead assigned to engineer successfully' : 'Lead unassigned from engineer',
+        lead,
+        assignedEngineer: assignedEngineer ? {
+          id: assignedEngineer.id,
+          name: assignedEngineer.name,
+          email: assignedEngineer.email
+        } : null
+      });
+    } catch (error) {
+      console.error('Assign engineer error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Bulk lead assignment (Admin only)
+  app.put('/api/leads/bulk-assign', requireRole('admin'), async (req, res) => {
+    try {
+      const { leadIds, agentId, engineerId } = req.body;
+      
+      if (!leadIds || !Array.isArray(leadIds) || leadIds.length === 0) {
+        return res.status(400).json({ message: 'Lead IDs array is required' });
+      }
+      
+      if (!agentId && !engineerId) {
+        return res.status(400).json({ message: 'Either agentId or engineerId must be provided' });
+      }
+      
+      // Validate users exist and have correct roles
+      let agent = null;
+      let engineer = null;
+      
+      if (agentId) {
+        agent = await storage.getUser(agentId);
+        if (!agent || agent.role !== 'agent') {
+          return res.status(400).json({ message: 'Invalid agent ID' });
+        }
+      }
+      
+      if (engineerId) {
+        engineer = await storage.getUser(engineerId);
+        if (!engineer || engineer.role !== 'engineer') {
+          return res.status(400).json({ message: 'Invalid engineer ID' });
         }
-        if (engineer.role !== 'engineer') {
-          return res.status(400).json({ message: 'User is not an engineer' });
+      }
+      
+      const results = [];
+      const changed: ChangedLead[] = [];
+      const updateData: any = {};
+      if (agentId !== undefined) updateData.assignedTo = agentId;
+      if (engineerId !== undefined) updateData.assignedEngineer = engineerId;
+      
+      for (const leadId of leadIds) {
+        try {
+          const parsedLeadId = parseInt(String(leadId));
+          if (isNaN(parsedLeadId)) {
+            results.push({ leadId, success: false, error: 'Invalid lead ID' });
+            continue;
+          }
+          
+          const before = await storage.getLead(parsedLeadId);
+          const lead = await storage.updateLead(parsedLeadId, updateData, undefined, true, changeContext(req));
+          if (before && lead) {
+            results.push({ leadId: parsedLeadId, success: true, lead });
+            await notifyNewAssignees(req, before, lead, updateData);
+            changed.push({ ...lead, previousAssignedTo: before.assignedTo });
+            
+            // Trigger webhook for each assignment
+            await triggerWebhooks('lead.assigned', {
+              ...lead,
+              ...(agent && { assignedAgent: { id: agent.id, name: agent.name, email: agent.email } }),
+              ...(engineer && { assignedEngineer: { id: engineer.id, name: engineer.name, email: engineer.email } })
+            });
+          } else {
+            results.push({ leadId: parsedLeadId, success: false, error: 'Lead not found' });
+          }
+        } catch (error) {
+          console.error('Bulk assignment error for lead', leadId, ':', error);
+          results.push({ leadId, success: false, error: 'Update failed' });
+        }
+      }
+      
+      publishLeadChanges('lead', 'updated', changed);
+      const successCount = results.filter(r => r.success).length;
+      
+      res.json({
+        message: `Successfully assigned ${successCount} of ${leadIds.length} leads`,
+        results,
+        assignedAgent: agent ? { id: agent.id, name: agent.name, email: agent.email } : null,
+        assignedEngineer: engineer ? { id: engineer.id, name: engineer.name, email: engineer.email } : null
+      });
+    } catch (error) {
+      console.error('Bulk assign error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Applies one action to many leads. Every lead gets the same permission and stage checks as
+  // PUT /api/leads/:id (or DELETE for deletes) and its own webhooks; one lead failing doesn't stop the rest.
+  app.post('/api/leads/bulk', requireAuth, async (req, res) => {
+    const parsed = bulkLeadActionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0].message });
+    }
+    const bulk = parsed.data;
+    const leadIds = Array.from(new Set(bulk.leadIds));
+
+    try {
+      if (bulk.action === 'export') {
+        // Agents only see their own leads, so the rest of a selection is left out of the file
+        const selected = (await Promise.all(leadIds.map(id => storage.getLead(id))))
+          .filter((lead): lead is Lead => !!lead && (req.user!.role !== 'agent' || lead.assignedTo === req.user!.id));
+        const lineItems = await storage.getLineItemsForLeads(selected.map(lead => lead.id));
+        const csv = leadsCsv(selected, await storage.getCustomFields(), await storage.getPipelines(), lineItems);
+
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', `attachment; filename="leads-selected-${new Date().toISOString().split('T')[0]}.csv"`);
+        return res.send(csv);
+      }
+
+      if (bulk.action === 'addTags') {
+        const resolvedTags = await registeredTags(bulk.tags, req);
+        if ('error' in resolvedTags) {
+          return res.status(400).json({ message: resolvedTags.error });
+        }
+        bulk.tags = resolvedTags.tags;
+      }
+      if (bulk.action === 'addProducts') {
+        const found = await Promise.all(bulk.productIds.map(id => storage.getProduct(id)));
+        if (found.some(product => !product)) {
+          return res.status(400).json({ message: 'Product not found' });
+        }
+      }
+
+      const results: BulkLeadResult[] = [];
+      const changed: ChangedLead[] = [];
+      for (const leadId of leadIds) {
+        try {
+          const original = await storage.getLead(leadId);
+          if (!original) {
+            results.push({ leadId, success: false, error: 'Lead not found' });
+            continue;
+          }
+
+          if (bulk.action === 'delete') {
+            if (req.user!.role !== 'admin' && original.assignedTo !== req.user!.id) {
+              results.push({ leadId, success: false, error: 'You can only delete leads you created' });
+              continue;
+            }
+            if (!(await storage.deleteLead(leadId, changeContext(req)))) {
+              results.push({ leadId, success: false, error: 'Lead not found' });
+              continue;
+            }
+            await triggerWebhooks('lead.deleted', original);
+            changed.push(original);
+            results.push({ leadId, success: true });
+            continue;
+          }
+
+          if (req.user!.role !== 'admin' && req.user!.role !== 'engineer' && original.assignedTo !== req.user!.id) {
+            results.push({ leadId, success: false, error: 'You can only update leads you created' });
+            continue;
+          }
+          if (bulk.action === 'status') {
+            const pipelineId = await leadPipelineId(original);
+            if (!(await isPipelineStage(pipelineId, bulk.status))) {
+              results.push({ leadId, success: false, error: 'Unknown pipeline stage' });
+              continue;
+            }
+            const closeError = await closeReasonError(pipelineId, bulk.status, bulk.closeReasonId, original);
+            if (closeError) {
+              results.push({ leadId, success: false, error: closeError });
+              continue;
+            }
+          }
+
+          const currentProductIds = bulk.action === 'addProducts' || bulk.action === 'removeProducts'
+            ? (await storage.getLeadWithProducts(leadId))?.products.map(product => product.id) ?? []
+            : [];
+          const { data, productIds } = bulkLeadChanges(bulk, original, currentProductIds);
+          const lead = await storage.updateLead(leadId, data, productIds, undefined, changeContext(req));
+          if (!lead) {
+            results.push({ leadId, success: false, error: 'Lead not found' });
+            continue;
+          }
+
+          await triggerWebhooks('lead.updated', await withLineItems(lead));
+          if (original.status !== lead.status) {
+            await triggerWebhooks('lead.status_changed', lead);
+          }
+          changed.push({ ...lead, previousAssignedTo: original.assignedTo });
+          results.push({ leadId, success: true });
+        } catch (error) {
+          console.error('Bulk action error for lead', leadId, ':', error);
+          results.push({ leadId, success: false, error: 'Update failed' });
+        }
+      }
+
+      publishLeadChanges('lead', bulk.action === 'delete' ? 'deleted' : 'updated', changed);
+
+      const successCount = results.filter(r => r.success).length;
+      res.json({
+        message: `${bulk.action === 'delete' ? 'Deleted' : 'Updated'} ${successCount} of ${leadIds.length} leads`,
+        results
+      });
+    } catch (error) {
+      console.error('Bulk lead action error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Get available agents and engineers for assignment (Admin only)
+  app.get('/api/assignment-options', requireRole('admin'), async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      const agents = users.filter(user => user.role === 'agent' && user.isActive)
+        .map(({ password, ...user }) => user);
+      const engineers = users.filter(user => user.role === 'engineer' && user.isActive)
+        .map(({ password, ...user }) => user);
+      
+      res.json({
+        agents,
+        engineers
+      });
+    } catch (error) {
+      console.error('Get assignment options error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Interactions
+  app.get('/api/leads/:id/interactions', requireAuth, async (req, res) => {
+    try {
+      const leadId = parseInt(req.params.id);
+
+      // Permission check: agents can only access interactions for leads they created
+      if (req.user!.role === 'agent') {
+        const lead = await storage.getLead(leadId);
+        if (!lead || lead.assignedTo !== req.user!.id) {
+          return res.status(403).json({ message: 'Access denied' });
+        }
+      }
+
+      const interactions = await storage.getInteractionsByLead(leadId);
+      res.json(interactions);
+    } catch (error) {
+      console.error('Get interactions error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Current score and the rules that contributed to it; breakdown is null when no rules are active
+  app.get('/api/leads/:id/score', requireAuth, async (req, res) => {
+    try {
+      const leadId = parseInt(req.params.id);
+      const lead = await storage.getLead(leadId);
+      if (!lead) {
+        return res.status(404).json({ message: 'Lead not found' });
+      }
+
+      // Permission check: agents can only see scores of leads they created
+      if (req.user!.role === 'agent' && lead.assignedTo !== req.user!.id) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      res.json({ score: lead.score, breakdown: lead.scoreBreakdown });
+    } catch (error) {
+      console.error('Get lead score error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.get('/api/leads/:id/status-history', requireAuth, async (req, res) => {
+    try {
+      const leadId = parseInt(req.params.id);
+
+      // Permission check: agents can only see the timeline of leads they created
+      if (req.user!.role === 'agent') {
+        const lead = await storage.getLead(leadId);
+        if (!lead || lead.assignedTo !== req.user!.id) {
+          return res.status(403).json({ message: 'Access denied' });
+        }
+      }
+
+      const history = await storage.getLeadStatusHistory(leadId);
+      res.json(history);
+    } catch (error) {
+      console.error('Get status history error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.get('/api/leads/:id/line-items', requireAuth, async (req, res) => {
+    try {
+      const leadId = parseInt(req.params.id);
+      const lead = await storage.getLead(leadId);
+      if (!lead) {
+        return res.status(404).json({ message: 'Lead not found' });
+      }
+
+      // Permission check: agents can only see the line items of leads they created
+      if (req.user!.role === 'agent' && lead.assignedTo !== req.user!.id) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const items = await storage.getLeadLineItems(leadId);
+      res.json({ items, ...lineItemTotals(items), valueFromLineItems: lead.valueFromLineItems });
+    } catch (error) {
+      console.error('Get line items error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Replaces the deal's line items; products left out are removed from the lead
+  app.put('/api/leads/:id/line-items', requireAuth, async (req, res) => {
+    const parsed = leadLineItemsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0].message });
+    }
+
+    try {
+      const leadId = parseInt(req.params.id);
+      const originalLead = await storage.getLead(leadId);
+      if (!originalLead) {
+        return res.status(404).json({ message: 'Lead not found' });
+      }
+
+      // Same rule as editing the lead itself
+      if (req.user!.role !== 'admin' && req.user!.role !== 'engineer' && originalLead.assignedTo !== req.user!.id) {
+        return res.status(403).json({ message: 'You can only update leads you created' });
+      }
+
+      const products = await storage.getAllProducts();
+      if (parsed.data.items.some(item => !products.some(product => product.id === item.productId))) {
+        return res.status(400).json({ message: 'Product not found' });
+      }
+
+      const lead = await storage.setLeadLineItems(leadId, parsed.data.items, parsed.data.valueFromLineItems, changeContext(req));
+      if (!lead) {
+        return res.status(404).json({ message: 'Lead not found' });
+      }
+
+      await triggerWebhooks('lead.updated', await withLineItems(lead));
+      publishLeadChanges('lead', 'updated', [lead]);
+
+      const items = await storage.getLeadLineItems(leadId);
+      res.json({ items, ...lineItemTotals(items), valueFromLineItems: lead.valueFromLineItems });
+    } catch (error) {
+      console.error('Update line items error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Field-level audit trail: who changed what on the lead, newest first
+  app.get('/api/leads/:id/changes', requireAuth, async (req, res) => {
+    try {
+      const leadId = parseInt(req.params.id);
+      const lead = await storage.getLead(leadId);
+      if (!lead) {
+        return res.status(404).json({ message: 'Lead not found' });
+      }
+
+      // Permission check: agents can only see the changes of leads they created
+      if (req.user!.role === 'agent' && lead.assignedTo !== req.user!.id) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const changes = await storage.getLeadFieldChanges(leadId);
+      res.json(changes);
+    } catch (error) {
+      console.error('Get lead changes error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/leads/:id/interactions', requireAuth, async (req, res) => {
+    try {
+      const leadId = parseInt(req.params.id);
+      console.log('Creating interaction for lead:', leadId);
+      console.log('Request body:', req.body);
+      console.log('User ID from session:', req.session.userId);
+      
+      if (!req.session.userId) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      // Permission check: agents can only create interactions for leads they created
+      if (req.user!.role === 'agent') {
+        const lead = await storage.getLead(leadId);
+        if (!lead || lead.assignedTo !== req.user!.id) {
+          return res.status(403).json({ message: 'Access denied' });
         }
       }
       
-      const lead = await storage.updateLead(leadId, { assignedEngineer: engineerId || null }, undefined, true);
-      if (!lead) {
-        return res.status(404).json({ message: 'Lead not found' });
+      const interactionData = insertInteractionSchema.parse({
+        ...req.body,
+        leadId,
+        userId: req.session.userId
+      });
+      
+      console.log('Parsed interaction data:', interactionData);
+      
+      const interaction = await storage.createInteraction(interactionData);
+      
+      // Get lead and agent information for enhanced webhook payload
+      const lead = await storage.getLead(leadId);
+      const agent = await storage.getUser(req.session.userId);
+
+      // Create enhanced payload with lead and agent information
+      const webhookPayload = {
+        ...interaction,
+        lead: lead ? {
+          id: lead.id,
+          name: lead.name,
+          email: lead.email,
+          company: lead.company,
+          status: lead.status,
+          value: lead.value
+        } : null,
+        agent: agent ? {
+          id: agent.id,
+          name: agent.name,
+          email: agent.email,
+          role: agent.role
+        } : null
+      };
+      
+      // Trigger webhooks with enhanced payload
+      await triggerWebhooks('interaction.created', webhookPayload);
+      if (lead) {
+        publishLeadChanges('interaction', 'created', [lead]);
+      }
+      if (interaction.type === 'urgent' && lead) {
+        await storage.createNotifications(urgentInteractionNotifications(interaction, lead, agent?.name));
       }
       
-      // Get assigned engineer info for response
-      const assignedEngineer = engineerId ? await storage.getUser(engineerId) : null;
-      
-      // Trigger webhooks
-      await triggerWebhooks('lead.assigned', {
-        ...lead,
-        assignedEngineer: assignedEngineer ? {
-          id: assignedEngineer.id,
-          name: assignedEngineer.name,
-          email: assignedEngineer.email
-        } : null
-      });
-      
-      res.json({
-        message: engineerId ? 'Lead assigned to engineer successfully' : 'Lead unassigned from engineer',
-        lead,
-        assignedEngineer: assignedEngineer ? {
-          id: assignedEngineer.id,
-          name: assignedEngineer.name,
-          email: assignedEngineer.email
-        } : null
-      });
+      res.status(201).json(interaction);
     } catch (error) {
-      console.error('Assign engineer error:', error);
-      res.status(500).json({ message: 'Internal server error' });
+      console.error('Create interaction error:', error);
+      if (error instanceof Error) {
+        console.error('Error message:', error.message);
+        console.error('Error stack:', error.stack);
+      }
+      res.status(400).json({ 
+        message: 'Invalid interaction data',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
     }
   });
 
-  // Bulk lead assignment (Admin only)
-  app.put('/api/leads/bulk-assign', requireRole('admin'), async (req, res) => {
+  app.put('/api/interactions/:id', requireAuth, async (req, res) => {
     try {
-      const { leadIds, agentId, engineerId } = req.body;
+      const interactionId = parseInt(req.params.id);
+      const updateData = insertInteractionSchema.partial().parse(req.body);
       
-      if (!leadIds || !Array.isArray(leadIds) || leadIds.length === 0) {
-        return res.status(400).json({ message: 'Lead IDs array is required' });
+      // Get the interaction first to check permissions
+      const existingInteraction = await storage.getInteraction(interactionId);
+      if (!existingInteraction) {
+        return res.status(404).json({ message: 'Interaction not found' });
       }
-      
-      if (!agentId && !engineerId) {
-        return res.status(400).json({ message: 'Either agentId or engineerId must be provided' });
+
+      // Permission check: agents can only update interactions for leads they created
+      if (req.user!.role === 'agent') {
+        const lead = await storage.getLead(existingInteraction.leadId);
+        if (!lead || lead.assignedTo !== req.user!.id) {
+          return res.status(403).json({ message: 'Access denied' });
+        }
       }
       
-      // Validate users exist and have correct roles
-      let agent = null;
-      let engineer = null;
+      const interaction = await storage.updateInteraction(interactionId, updateData);
       
-      if (agentId) {
-        agent = await storage.getUser(agentId);
-        if (!agent || agent.role !== 'agent') {
-          return res.status(400).json({ message: 'Invalid agent ID' });
-        }
+      if (!interaction) {
+        return res.status(404).json({ message: 'Interaction not found' });
       }
-      
-      if (engineerId) {
-        engineer = await storage.getUser(engineerId);
-        if (!engineer || engineer.role !== 'engineer') {
-          return res.status(400).json({ message: 'Invalid engineer ID' });
-        }
+
+      // Get lead and agent information for enhanced webhook payload
+      const lead = await storage.getLead(interaction.leadId);
+      const agent = await storage.getUser(interaction.userId);
+
+      // Create enhanced payload with lead and agent information
+      const webhookPayload = {
+        ...interaction,
+        lead: lead ? {
+          id: lead.id,
+          name: lead.name,
+          email: lead.email,
+          company: lead.company,
+          status: lead.status,
+          value: lead.value
+        } : null,
+        agent: agent ? {
+          id: agent.id,
+          name: agent.name,
+          email: agent.email,
+          role: agent.role
+        } : null
+      };
+
+      // Trigger webhooks with enhanced payload
+      await triggerWebhooks('interaction.updated', webhookPayload);
+      if (lead) {
+        publishLeadChanges('interaction', 'updated', [lead]);
       }
       
-      const results = [];
-      const updateData: any = {};
-      if (agentId !== undefined) updateData.assignedTo = agentId;
-      if (engineerId !== undefined) updateData.assignedEngineer = engineerId;
+      res.json(interaction);
+    } catch (error) {
+      console.error('Update interaction error:', error);
+      res.status(400).json({ message: 'Invalid interaction data' });
+    }
+  });
+
+  // Get all interactions for admin panel MCP section
+  app.get('/api/interactions/all', requireAuth, async (req, res) => {
+    try {
+      const interactions = await storage.getAllInteractions();
+      res.json(interactions);
+    } catch (error) {
+      console.error('Get all interactions error:', error);
+      res.status(500).json({ message: 'Failed to get interactions' });
+    }
+  });
+
+  app.delete('/api/interactions/:id', requireAuth, async (req, res) => {
+    try {
+      const interactionId = parseInt(req.params.id);
       
-      for (const leadId of leadIds) {
-        try {
-          const parsedLeadId = parseInt(String(leadId));
-          if (isNaN(parsedLeadId)) {
-            results.push({ leadId, success: false, error: 'Invalid lead ID' });
-            continue;
-          }
-          
-          const lead = await storage.updateLead(parsedLeadId, updateData, undefined, true);
-          if (lead) {
-            results.push({ leadId: parsedLeadId, success: true, lead });
-            
-            // Trigger webhook for each assignment
-            await triggerWebhooks('lead.assigned', {
-              ...lead,
-              ...(agent && { assignedAgent: { id: agent.id, name: agent.name, email: agent.email } }),
-              ...(engineer && { assignedEngineer: { id: engineer.id, name: engineer.name, email: engineer.email } })
-            });
-          } else {
-            results.push({ leadId: parsedLeadId, success: false, error: 'Lead not found' });
-          }
-        } catch (error) {
-          console.error('Bulk assignment error for lead', leadId, ':', error);
-          results.push({ leadId, success: false, error: 'Update failed' });
+      // Get the interaction before deleting for webhook and permission check
+      const interaction = await storage.getInteraction(interactionId);
+      if (!interaction) {
+        return res.status(404).json({ message: 'Interaction not found' });
+      }
+
+      // Permission check: agents can only delete interactions for leads they created
+      if (req.user!.role === 'agent') {
+        const lead = await storage.getLead(interaction.leadId);
+        if (!lead || lead.assignedTo !== req.user!.id) {
+          return res.status(403).json({ message: 'Access denied' });
         }
       }
       
-      const successCount = results.filter(r => r.success).length;
+      // Get lead and agent information for enhanced webhook payload
+      const lead = await storage.getLead(interaction.leadId);
+      const agent = await storage.getUser(interaction.userId);
+
+      // Create enhanced payload with lead and agent information
+      const webhookPayload = {
+        ...interaction,
+        lead: lead ? {
+          id: lead.id,
+          name: lead.name,
+          email: lead.email,
+          company: lead.company,
+          status: lead.status,
+          value: lead.value
+        } : null,
+        agent: agent ? {
+          id: agent.id,
+          name: agent.name,
+          email: agent.email,
+          role: agent.role
+        } : null
+      };
       
-      res.json({
-        message: `Successfully assigned ${successCount} of ${leadIds.length} leads`,
-        results,
-        assignedAgent: agent ? { id: agent.id, name: agent.name, email: agent.email } : null,
-        assignedEngineer: engineer ? { id: engineer.id, name: engineer.name, email: engineer.email } : null
-      });
+      const success = await storage.deleteInteraction(interactionId);
+      if (!success) {
+        return res.status(404).json({ message: 'Interaction not found' });
+      }
+
+      // Trigger webhooks with enhanced payload
+      await triggerWebhooks('interaction.deleted', webhookPayload);
+      if (lead) {
+        publishLeadChanges('interaction', 'deleted', [lead]);
+      }
+      
+      res.json({ message: 'Interaction deleted successfully' });
     } catch (error) {
-      console.error('Bulk assign error:', error);
+      console.error('Delete interaction error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  // Get available agents and engineers for assignment (Admin only)
-  app.get('/api/assignment-options', requireRole('admin'), async (req, res) => {
+  // Lead Attachments
+  app.post('/api/leads/:id/attachments', requireAuth, upload.single('file'), async (req, res) => {
     try {
-      const users = await storage.getAllUsers();
-      const agents = users.filter(user => user.role === 'agent' && user.isActive)
-        .map(({ password, ...user }) => user);
-      const engineers = users.filter(user => user.role === 'engineer' && user.isActive)
-        .map(({ password, ...user }) => user);
+      const leadId = parseInt(req.params.id);
+
+      // Permission check: agents can only add attachments to leads they created
+      if (req.user!.role === 'agent') {
+        const lead = await storage.getLead(leadId);
+        if (!lead || lead.assignedTo !== req.user!.id) {
+          return res.status(403).json({ message: 'Access denied' });
+        }
+      }
       
-      res.json({
-        agents,
-        engineers
+      if (!req.file) {
+        return res.status(400).json({ message: 'No file uploaded' });
+      }
+
+      await storage.addLeadAttachment({
+        leadId,
+        fileName: req.file.originalname,
+        filePath: req.file.path,
+        fileSize: req.file.size,
+        description: req.body.description || null,
+        uploadedById: req.user!.id
       });
+
+      const attachment = {
+        leadId,
+        fileName: req.file.originalname,
+        filePath: req.file.path,
+        fileSize: req.file.size,
+        description: req.body.description || null,
+        uploadedById: req.user!.id
+      };
+
+      // Update user's storage usage
+      const user = await storage.getUser(req.user!.id);
+      if (user) {
+        const newStorageUsed = (user.storageUsed || 0) + req.file.size;
+        await storage.updateUserStorage(req.user!.id, newStorageUsed);
+      }
+      await publishAttachmentChange('created', leadId);
+
+      res.status(201).json(attachment);
     } catch (error) {
-      console.error('Get assignment options error:', error);
+      console.error('Upload attachment error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  // Interactions
-  app.get('/api/leads/:id/interactions', requireAuth, async (req, res) => {
+  app.get('/api/leads/:id/attachments', requireAuth, async (req, res) => {
     try {
       const leadId = parseInt(req.params.id);
 
-      // Permission check: agents can only access interactions for leads they created
+      // Permission check: agents can only access attachments for leads they created
       if (req.user!.role === 'agent') {
         const lead = await storage.getLead(leadId);
         if (!lead || lead.assignedTo !== req.user!.id) {
@@ -735,333 +3202,585 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      const interactions = await storage.getInteractionsByLead(leadId);
-      res.json(interactions);
+      const attachments = await storage.getAttachmentsByLead(leadId);
+      res.json(attachments);
     } catch (error) {
-      console.error('Get interactions error:', error);
+      console.error('Get attachments error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  app.post('/api/leads/:id/interactions', requireAuth, async (req, res) => {
+  // Add download endpoint for attachments with proper permission checks
+  app.get('/api/attachments/:id/download', requireAuth, async (req, res) => {
     try {
-      const leadId = parseInt(req.params.id);
-      console.log('Creating interaction for lead:', leadId);
-      console.log('Request body:', req.body);
-      console.log('User ID from session:', req.session.userId);
+      const attachmentId = parseInt(req.params.id);
+      const attachment = await storage.getLeadAttachment(attachmentId);
       
-      if (!req.session.userId) {
-        return res.status(401).json({ message: 'User not authenticated' });
+      if (!attachment) {
+        return res.status(404).json({ message: 'Attachment not found' });
       }
 
-      // Permission check: agents can only create interactions for leads they created
+      // Permission check: agents can only download attachments for leads they created
       if (req.user!.role === 'agent') {
-        const lead = await storage.getLead(leadId);
+        const lead = await storage.getLead(attachment.leadId);
         if (!lead || lead.assignedTo !== req.user!.id) {
           return res.status(403).json({ message: 'Access denied' });
         }
       }
+      // Engineers and admins can download any attachment
+
+      // Check if file exists
+      if (!fs.existsSync(attachment.filePath)) {
+        return res.status(404).json({ message: 'File not found' });
+      }
+
+      // Set proper headers for file download
+      res.setHeader('Content-Disposition', `attachment; filename="${attachment.fileName}"`);
+      res.setHeader('Content-Type', 'application/octet-stream');
       
-      const interactionData = insertInteractionSchema.parse({
-        ...req.body,
-        leadId,
-        userId: req.session.userId
-      });
-      
-      console.log('Parsed interaction data:', interactionData);
-      
-      const interaction = await storage.createInteraction(interactionData);
+      // Send the file
+      res.sendFile(path.resolve(attachment.filePath));
+    } catch (error) {
+      console.error('Download attachment error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.delete('/api/lead-attachments/:id', requireAuth, async (req, res) => {
+    try {
+      const attachmentId = parseInt(req.params.id);
+      const attachment = await storage.getLeadAttachment(attachmentId);
+      const result = await storage.deleteLeadAttachment(attachmentId);
+      if (result.success && attachment) {
+        await publishAttachmentChange('deleted', attachment.leadId);
+      }
       
-      // Get lead and agent information for enhanced webhook payload
+      if (result.success && result.fileSize && result.uploadedById) {
+        // Update user's storage usage
+        const user = await storage.getUser(result.uploadedById);
+        if (user) {
+          const newStorageUsed = Math.max(0, (user.storageUsed || 0) - result.fileSize);
+          await storage.updateUserStorage(result.uploadedById, newStorageUsed);
+        }
+        res.json({ success: true });
+      } else if (result.success) {
+        res.json({ success: true });
+      } else {
+        res.status(404).json({ message: 'Attachment not found' });
+      }
+    } catch (error) {
+      console.error('Delete attachment error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Quote templates: everyone picks from them, admins edit them
+  app.get('/api/quote-templates', requireAuth, async (req, res) => {
+    try {
+      const templates = await storage.getQuoteTemplates();
+      res.json(templates);
+    } catch (error) {
+      console.error('Get quote templates error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/quote-templates', requireRole('admin'), async (req, res) => {
+    const parsed = insertQuoteTemplateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0].message });
+    }
+
+    try {
+      const template = await storage.createQuoteTemplate(parsed.data);
+      res.status(201).json(template);
+    } catch (error) {
+      console.error('Create quote template error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.put('/api/quote-templates/:id', requireRole('admin'), async (req, res) => {
+    const parsed = insertQuoteTemplateSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0].message });
+    }
+    // The default moves by making another template the default
+    if (parsed.data.isDefault === false) {
+      return res.status(400).json({ message: 'Make another template the default instead' });
+    }
+
+    try {
+      const template = await storage.updateQuoteTemplate(parseInt(req.params.id), parsed.data);
+      if (!template) {
+        return res.status(404).json({ message: 'Quote template not found' });
+      }
+      res.json(template);
+    } catch (error) {
+      console.error('Update quote template error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.delete('/api/quote-templates/:id', requireRole('admin'), async (req, res) => {
+    try {
+      const templates = await storage.getQuoteTemplates();
+      if (templates.length === 1 && templates[0].id === parseInt(req.params.id)) {
+        return res.status(400).json({ message: 'Keep at least one quote template' });
+      }
+      const success = await storage.deleteQuoteTemplate(parseInt(req.params.id));
+      if (!success) {
+        return res.status(404).json({ message: 'Quote template not found' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error('Delete quote template error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Quotes
+  app.get('/api/leads/:id/quotes', requireAuth, async (req, res) => {
+    try {
+      const leadId = parseInt(req.params.id);
       const lead = await storage.getLead(leadId);
-      const agent = await storage.getUser(req.session.userId);
+      if (!lead) {
+        return res.status(404).json({ message: 'Lead not found' });
+      }
 
-      // Create enhanced payload with lead and agent information
-      const webhookPayload = {
-        ...interaction,
-        lead: lead ? {
-          id: lead.id,
-          name: lead.name,
-          email: lead.email,
-          company: lead.company,
-          status: lead.status,
-          value: lead.value
-        } : null,
-        agent: agent ? {
-          id: agent.id,
-          name: agent.name,
-          email: agent.email,
-          role: agent.role
-        } : null
-      };
-      
-      // Trigger webhooks with enhanced payload
-      await triggerWebhooks('interaction.created', webhookPayload);
-      
-      res.status(201).json(interaction);
+      // Permission check: agents can only see the quotes of leads they created
+      if (req.user!.role === 'agent' && lead.assignedTo !== req.user!.id) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const quotes = await storage.getQuotesByLead(leadId);
+      res.json(quotes);
     } catch (error) {
-      console.error('Create interaction error:', error);
-      if (error instanceof Error) {
-        console.error('Error message:', error.message);
-        console.error('Error stack:', error.stack);
+      console.error('Get quotes error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Generates version 1 of a new quote from the lead's line items
+  app.post('/api/leads/:id/quotes', requireAuth, async (req, res) => {
+    const parsed = generateQuoteSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0].message });
+    }
+
+    try {
+      const lead = await storage.getLead(parseInt(req.params.id));
+      if (!lead) {
+        return res.status(404).json({ message: 'Lead not found' });
       }
-      res.status(400).json({ 
-        message: 'Invalid interaction data',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
+
+      // Same rule as editing the lead itself
+      if (req.user!.role !== 'admin' && req.user!.role !== 'engineer' && lead.assignedTo !== req.user!.id) {
+        return res.status(403).json({ message: 'You can only create quotes for leads you created' });
+      }
+
+      if ((await storage.getLeadLineItems(lead.id)).length === 0) {
+        return res.status(400).json({ message: 'Add products to the lead before creating a quote' });
+      }
+      const template = await quoteTemplateFor(parsed.data.templateId);
+      if (!template) {
+        return res.status(400).json({ message: 'Quote template not found' });
+      }
+
+      const quote = await generateQuote(req, lead, template);
+      await triggerWebhooks('quote.created', { ...quote, reference: quoteReference(quote.number), lead });
+      publishLeadChanges('attachment', 'created', [lead]);
+      res.status(201).json(quote);
+    } catch (error) {
+      console.error('Create quote error:', error);
+      res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  app.put('/api/interactions/:id', requireAuth, async (req, res) => {
+  // Generates the next version of a quote from the lead's current line items
+  app.post('/api/quotes/:id/revise', requireAuth, async (req, res) => {
+    const parsed = generateQuoteSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0].message });
+    }
+
     try {
-      const interactionId = parseInt(req.params.id);
-      const updateData = insertInteractionSchema.partial().parse(req.body);
-      
-      // Get the interaction first to check permissions
-      const existingInteraction = await storage.getInteraction(interactionId);
-      if (!existingInteraction) {
-        return res.status(404).json({ message: 'Interaction not found' });
+      const original = await storage.getQuote(parseInt(req.params.id));
+      if (!original) {
+        return res.status(404).json({ message: 'Quote not found' });
+      }
+      const lead = await storage.getLead(original.leadId);
+      if (!lead) {
+        return res.status(404).json({ message: 'Lead not found' });
       }
 
-      // Permission check: agents can only update interactions for leads they created
-      if (req.user!.role === 'agent') {
-        const lead = await storage.getLead(existingInteraction.leadId);
-        if (!lead || lead.assignedTo !== req.user!.id) {
-          return res.status(403).json({ message: 'Access denied' });
+      if (req.user!.role !== 'admin' && req.user!.role !== 'engineer' && lead.assignedTo !== req.user!.id) {
+        return res.status(403).json({ message: 'You can only revise quotes for leads you created' });
+      }
+
+      if ((await storage.getLeadLineItems(lead.id)).length === 0) {
+        return res.status(400).json({ message: 'Add products to the lead before revising the quote' });
+      }
+      const template = await quoteTemplateFor(parsed.data.templateId ?? original.templateId ?? undefined);
+      if (!template) {
+        return res.status(400).json({ message: 'Quote template not found' });
+      }
+
+      const quote = await generateQuote(req, lead, template, original.number);
+      await triggerWebhooks('quote.created', { ...quote, reference: quoteReference(quote.number), lead });
+      publishLeadChanges('attachment', 'created', [lead]);
+      res.status(201).json(quote);
+    } catch (error) {
+      console.error('Revise quote error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Marks a quote sent, accepted or rejected. Accepting with markWon also moves the lead into its
+  // pipeline's won stage, with the won reason given.
+  app.put('/api/quotes/:id/status', requireAuth, async (req, res) => {
+    const parsed = quoteStatusSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0].message });
+    }
+
+    try {
+      const original = await storage.getQuote(parseInt(req.params.id));
+      if (!original) {
+        return res.status(404).json({ message: 'Quote not found' });
+      }
+      const lead = await storage.getLead(original.leadId);
+      if (!lead) {
+        return res.status(404).json({ message: 'Lead not found' });
+      }
+
+      if (req.user!.role !== 'admin' && req.user!.role !== 'engineer' && lead.assignedTo !== req.user!.id) {
+        return res.status(403).json({ message: 'You can only update quotes for leads you created' });
+      }
+
+      const { status, markWon, closeReasonId, closeNote } = parsed.data;
+      let wonStage: PipelineStage | undefined;
+      if (markWon) {
+        if (status !== 'accepted') {
+          return res.status(400).json({ message: 'Only accepting a quote can mark the lead as won' });
+        }
+        if (!lead.pipelineId) {
+          return res.status(400).json({ message: 'This lead is not in a pipeline' });
+        }
+        wonStage = (await storage.getPipelineStages(lead.pipelineId)).find(stage => stage.type === 'won');
+        if (!wonStage) {
+          return res.status(400).json({ message: "The lead's pipeline has no won stage" });
+        }
+        const closeError = await closeReasonError(lead.pipelineId, wonStage.key, closeReasonId, lead);
+        if (closeError) {
+          return res.status(400).json({ message: closeError });
         }
       }
-      
-      const interaction = await storage.updateInteraction(interactionId, updateData);
-      
-      if (!interaction) {
-        return res.status(404).json({ message: 'Interaction not found' });
+
+      const quote = await storage.updateQuoteStatus(original.id, status);
+      if (!quote) {
+        return res.status(404).json({ message: 'Quote not found' });
+      }
+      if (quote.status !== original.status) {
+        await triggerWebhooks('quote.status_changed', { ...quote, reference: quoteReference(quote.number), previousStatus: original.status, lead });
       }
 
-      // Get lead and agent information for enhanced webhook payload
-      const lead = await storage.getLead(interaction.leadId);
-      const agent = await storage.getUser(interaction.userId);
+      if (wonStage && lead.status !== wonStage.key) {
+        const wonLead = await storage.updateLead(lead.id, { status: wonStage.key, closeReasonId, closeNote: closeNote || null }, undefined, undefined, changeContext(req));
+        if (wonLead) {
+          publishLeadChanges('lead', 'updated', [wonLead]);
+          await triggerWebhooks('lead.updated', await withLineItems(wonLead));
+          await triggerWebhooks('lead.status_changed', wonLead);
+        }
+      }
 
-      // Create enhanced payload with lead and agent information
-      const webhookPayload = {
-        ...interaction,
-        lead: lead ? {
-          id: lead.id,
-          name: lead.name,
-          email: lead.email,
-          company: lead.company,
-          status: lead.status,
-          value: lead.value
-        } : null,
-        agent: agent ? {
-          id: agent.id,
-          name: agent.name,
-          email: agent.email,
-          role: agent.role
-        } : null
-      };
+      res.json(quote);
+    } catch (error) {
+      console.error('Update quote status error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Invoices
+  app.get('/api/invoices/settings', requireAuth, async (req, res) => {
+    try {
+      const settings = await storage.getInvoiceSettings();
+      res.json(settings);
+    } catch (error) {
+      console.error('Get invoice settings error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
 
-      // Trigger webhooks with enhanced payload
-      await triggerWebhooks('interaction.updated', webhookPayload);
-      
-      res.json(interaction);
+  app.put('/api/invoices/settings', requireRole('admin'), async (req, res) => {
+    try {
+      const parsed = invoiceSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0].message });
+      }
+      const settings = await storage.updateInvoiceSettings(parsed.data);
+      res.json(settings);
     } catch (error) {
-      console.error('Update interaction error:', error);
-      res.status(400).json({ message: 'Invalid interaction data' });
+      console.error('Update invoice settings error:', error);
+      res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  // Get all interactions for admin panel MCP section
-  app.get('/api/interactions/all', requireAuth, async (req, res) => {
+  // Admins see every invoice, agents those for their own leads
+  const invoiceFilters = (req: Request) => {
+    const status = INVOICE_STATUSES.find(value => value === req.query.status);
+    return { status, assignedTo: req.user!.role === 'admin' ? undefined : req.user!.id };
+  };
+
+  app.get('/api/invoices', requireRole('admin', 'agent'), async (req, res) => {
     try {
-      const interactions = await storage.getAllInteractions();
-      res.json(interactions);
+      const invoices = await storage.getInvoices(invoiceFilters(req));
+      res.json(invoices);
     } catch (error) {
-      console.error('Get all interactions error:', error);
-      res.status(500).json({ message: 'Failed to get interactions' });
+      console.error('Get invoices error:', error);
+      res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  app.delete('/api/interactions/:id', requireAuth, async (req, res) => {
+  app.get('/api/invoices/export', requireRole('admin', 'agent'), async (req, res) => {
     try {
-      const interactionId = parseInt(req.params.id);
-      
-      // Get the interaction before deleting for webhook and permission check
-      const interaction = await storage.getInteraction(interactionId);
-      if (!interaction) {
-        return res.status(404).json({ message: 'Interaction not found' });
-      }
+      const invoices = await storage.getInvoices(invoiceFilters(req));
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="invoices-export-${new Date().toISOString().split('T')[0]}.csv"`);
+      res.send(invoicesToCsv(invoices));
+    } catch (error) {
+      console.error('Export invoices error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
 
-      // Permission check: agents can only delete interactions for leads they created
-      if (req.user!.role === 'agent') {
-        const lead = await storage.getLead(interaction.leadId);
-        if (!lead || lead.assignedTo !== req.user!.id) {
-          return res.status(403).json({ message: 'Access denied' });
-        }
+  app.get('/api/leads/:id/invoices', requireRole('admin', 'agent'), async (req, res) => {
+    try {
+      const leadId = parseInt(req.params.id);
+      const lead = await storage.getLead(leadId);
+      if (!lead) {
+        return res.status(404).json({ message: 'Lead not found' });
       }
-      
-      // Get lead and agent information for enhanced webhook payload
-      const lead = await storage.getLead(interaction.leadId);
-      const agent = await storage.getUser(interaction.userId);
 
-      // Create enhanced payload with lead and agent information
-      const webhookPayload = {
-        ...interaction,
-        lead: lead ? {
-          id: lead.id,
-          name: lead.name,
-          email: lead.email,
-          company: lead.company,
-          status: lead.status,
-          value: lead.value
-        } : null,
-        agent: agent ? {
-          id: agent.id,
-          name: agent.name,
-          email: agent.email,
-          role: agent.role
-        } : null
-      };
-      
-      const success = await storage.deleteInteraction(interactionId);
-      if (!success) {
-        return res.status(404).json({ message: 'Interaction not found' });
+      if (req.user!.role === 'agent' && lead.assignedTo !== req.user!.id) {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
-      // Trigger webhooks with enhanced payload
-      await triggerWebhooks('interaction.deleted', webhookPayload);
-      
-      res.json({ message: 'Interaction deleted successfully' });
+      const invoices = await storage.getInvoices({ leadId });
+      res.json(invoices);
     } catch (error) {
-      console.error('Delete interaction error:', error);
+      console.error('Get lead invoices error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  // Lead Attachments
-  app.post('/api/leads/:id/attachments', requireAuth, upload.single('file'), async (req, res) => {
+  // Creates a draft invoice for a won lead from its line items, or its value when it has none
+  app.post('/api/leads/:id/invoices', requireRole('admin', 'agent'), async (req, res) => {
     try {
-      const leadId = parseInt(req.params.id);
+      const lead = await storage.getLead(parseInt(req.params.id));
+      if (!lead) {
+        return res.status(404).json({ message: 'Lead not found' });
+      }
 
-      // Permission check: agents can only add attachments to leads they created
-      if (req.user!.role === 'agent') {
-        const lead = await storage.getLead(leadId);
-        if (!lead || lead.assignedTo !== req.user!.id) {
-          return res.status(403).json({ message: 'Access denied' });
-        }
+      if (req.user!.role === 'agent' && lead.assignedTo !== req.user!.id) {
+        return res.status(403).json({ message: 'You can only invoice leads you created' });
       }
-      
-      if (!req.file) {
-        return res.status(400).json({ message: 'No file uploaded' });
+
+      const stage = lead.pipelineId
+        ? (await storage.getPipelineStages(lead.pipelineId)).find(stage => stage.key === lead.status)
+        : undefined;
+      if (stage?.type !== 'won') {
+        return res.status(400).json({ message: 'Only won deals can be invoiced' });
       }
 
-      await storage.addLeadAttachment({
-        leadId,
-        fileName: req.file.originalname,
-        filePath: req.file.path,
-        fileSize: req.file.size,
-        description: req.body.description || null,
-        uploadedById: req.user!.id
-      });
+      const invoice = await storage.createInvoice({
+        leadId: lead.id,
+        customerName: lead.name,
+        customerCompany: lead.company,
+        customerEmail: lead.email,
+        currency: lead.currency,
+        createdById: req.user!.id,
+      }, await invoiceLinesFor(lead));
+      await triggerWebhooks('invoice.created', { ...invoice, lead });
+      res.status(201).json(invoice);
+    } catch (error) {
+      console.error('Create invoice error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
 
-      const attachment = {
-        leadId,
-        fileName: req.file.originalname,
-        filePath: req.file.path,
-        fileSize: req.file.size,
-        description: req.body.description || null,
-        uploadedById: req.user!.id
-      };
+  app.get('/api/invoices/:id', requireRole('admin', 'agent'), async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(parseInt(req.params.id));
+      if (!invoice) {
+        return res.status(404).json({ message: 'Invoice not found' });
+      }
+      if (!await canManageInvoice(req, invoice)) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+      res.json(invoice);
+    } catch (error) {
+      console.error('Get invoice error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
 
-      // Update user's storage usage
-      const user = await storage.getUser(req.user!.id);
-      if (user) {
-        const newStorageUsed = (user.storageUsed || 0) + req.file.size;
-        await storage.updateUserStorage(req.user!.id, newStorageUsed);
+  // Only drafts can be edited; once issued an invoice changes only through its payments
+  app.put('/api/invoices/:id', requireRole('admin', 'agent'), async (req, res) => {
+    const parsed = updateInvoiceSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0].message });
+    }
+
+    try {
+      const original = await storage.getInvoice(parseInt(req.params.id));
+      if (!original) {
+        return res.status(404).json({ message: 'Invoice not found' });
+      }
+      if (!await canManageInvoice(req, original)) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+      if (original.status !== 'draft') {
+        return res.status(400).json({ message: 'Only draft invoices can be edited' });
       }
 
-      res.status(201).json(attachment);
+      const invoice = await storage.updateInvoice(original.id, parsed.data);
+      if (!invoice) {
+        return res.status(404).json({ message: 'Invoice not found' });
+      }
+      await triggerWebhooks('invoice.updated', invoice);
+      res.json(invoice);
     } catch (error) {
-      console.error('Upload attachment error:', error);
+      console.error('Update invoice error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  app.get('/api/leads/:id/attachments', requireAuth, async (req, res) => {
-    try {
-      const leadId = parseInt(req.params.id);
+  app.post('/api/invoices/:id/issue', requireRole('admin', 'agent'), async (req, res) => {
+    const parsed = issueInvoiceSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0].message });
+    }
 
-      // Permission check: agents can only access attachments for leads they created
-      if (req.user!.role === 'agent') {
-        const lead = await storage.getLead(leadId);
-        if (!lead || lead.assignedTo !== req.user!.id) {
-          return res.status(403).json({ message: 'Access denied' });
-        }
+    try {
+      const original = await storage.getInvoice(parseInt(req.params.id));
+      if (!original) {
+        return res.status(404).json({ message: 'Invoice not found' });
+      }
+      if (!await canManageInvoice(req, original)) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+      if (original.status !== 'draft') {
+        return res.status(400).json({ message: 'This invoice has already been issued' });
       }
 
-      const attachments = await storage.getAttachmentsByLead(leadId);
-      res.json(attachments);
+      const invoice = await storage.issueInvoice(original.id, parsed.data.dueDate ?? original.dueDate ?? undefined);
+      if (!invoice) {
+        return res.status(404).json({ message: 'Invoice not found' });
+      }
+      await triggerWebhooks('invoice.issued', invoice);
+      res.json(invoice);
     } catch (error) {
-      console.error('Get attachments error:', error);
+      console.error('Issue invoice error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  // Add download endpoint for attachments with proper permission checks
-  app.get('/api/attachments/:id/download', requireAuth, async (req, res) => {
+  // Issued invoices keep their number, so only drafts can be deleted
+  app.delete('/api/invoices/:id', requireRole('admin', 'agent'), async (req, res) => {
     try {
-      const attachmentId = parseInt(req.params.id);
-      const attachment = await storage.getLeadAttachment(attachmentId);
-      
-      if (!attachment) {
-        return res.status(404).json({ message: 'Attachment not found' });
+      const invoice = await storage.getInvoice(parseInt(req.params.id));
+      if (!invoice) {
+        return res.status(404).json({ message: 'Invoice not found' });
+      }
+      if (!await canManageInvoice(req, invoice)) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+      if (invoice.status !== 'draft') {
+        return res.status(400).json({ message: 'Only draft invoices can be deleted' });
       }
 
-      // Permission check: agents can only download attachments for leads they created
-      if (req.user!.role === 'agent') {
-        const lead = await storage.getLead(attachment.leadId);
-        if (!lead || lead.assignedTo !== req.user!.id) {
-          return res.status(403).json({ message: 'Access denied' });
-        }
+      await storage.deleteInvoice(invoice.id);
+      await triggerWebhooks('invoice.deleted', invoice);
+      res.json({ message: 'Invoice deleted' });
+    } catch (error) {
+      console.error('Delete invoice error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.get('/api/invoices/:id/pdf', requireRole('admin', 'agent'), async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(parseInt(req.params.id));
+      if (!invoice) {
+        return res.status(404).json({ message: 'Invoice not found' });
+      }
+      if (!await canManageInvoice(req, invoice)) {
+        return res.status(403).json({ message: 'Access denied' });
       }
-      // Engineers and admins can download any attachment
 
-      // Check if file exists
-      if (!fs.existsSync(attachment.filePath)) {
-        return res.status(404).json({ message: 'File not found' });
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${invoiceFileName(invoice)}"`);
+      res.send(invoicePdf(invoice));
+    } catch (error) {
+      console.error('Invoice PDF error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Payments can be partial but not more than what is still owed
+  app.post('/api/invoices/:id/payments', requireRole('admin', 'agent'), async (req, res) => {
+    const parsed = invoicePaymentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0].message });
+    }
+
+    try {
+      const original = await storage.getInvoice(parseInt(req.params.id));
+      if (!original) {
+        return res.status(404).json({ message: 'Invoice not found' });
+      }
+      if (!await canManageInvoice(req, original)) {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
-      // Set proper headers for file download
-      res.setHeader('Content-Disposition', `attachment; filename="${attachment.fileName}"`);
-      res.setHeader('Content-Type', 'application/octet-stream');
-      
-      // Send the file
-      res.sendFile(path.resolve(attachment.filePath));
+      const invoice = await storage.addInvoicePayment(original.id, parsed.data, req.user!.id);
+      if (!invoice) {
+        return res.status(404).json({ message: 'Invoice not found' });
+      }
+      if ('error' in invoice) {
+        return res.status(400).json({ message: invoice.error });
+      }
+      await triggerWebhooks('invoice.payment_recorded', { ...invoice, payment: invoice.payments.reduce((latest, payment) => payment.id > latest.id ? payment : latest) });
+      if (invoice.status === 'paid') {
+        await triggerWebhooks('invoice.paid', invoice);
+      }
+      res.status(201).json(invoice);
     } catch (error) {
-      console.error('Download attachment error:', error);
+      console.error('Record invoice payment error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  app.delete('/api/lead-attachments/:id', requireAuth, async (req, res) => {
+  // Removing a payment recorded by mistake reopens the invoice if it was paid
+  app.delete('/api/invoice-payments/:id', requireRole('admin', 'agent'), async (req, res) => {
     try {
-      const attachmentId = parseInt(req.params.id);
-      const result = await storage.deleteLeadAttachment(attachmentId);
-      
-      if (result.success && result.fileSize && result.uploadedById) {
-        // Update user's storage usage
-        const user = await storage.getUser(result.uploadedById);
-        if (user) {
-          const newStorageUsed = Math.max(0, (user.storageUsed || 0) - result.fileSize);
-          await storage.updateUserStorage(result.uploadedById, newStorageUsed);
-        }
-        res.json({ success: true });
-      } else if (result.success) {
-        res.json({ success: true });
-      } else {
-        res.status(404).json({ message: 'Attachment not found' });
+      const payment = await storage.getInvoicePayment(parseInt(req.params.id));
+      if (!payment) {
+        return res.status(404).json({ message: 'Payment not found' });
       }
+      const original = await storage.getInvoice(payment.invoiceId);
+      if (!original || !await canManageInvoice(req, original)) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const invoice = await storage.deleteInvoicePayment(payment.id);
+      if (invoice && invoice.status !== original.status) {
+        await triggerWebhooks('invoice.updated', { ...invoice, previousStatus: original.status });
+      }
+      res.json(invoice);
     } catch (error) {
-      console.error('Delete attachment error:', error);
+      console.error('Delete invoice payment error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
@@ -1139,20 +3858,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Analytics
   app.get('/api/analytics', requireAuth, async (req, res) => {
     try {
-      // Role-based analytics: agents only see analytics for leads they created
-      let userId = undefined;
-      if (req.user!.role === 'agent') {
-        userId = req.user!.id;
+      // ?from=&to= limit the loss-reason breakdown to leads closed in that range
+      const from = req.query.from ? new Date(req.query.from as string) : undefined;
+      const to = req.query.to ? new Date(req.query.to as string) : undefined;
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        return res.status(400).json({ message: 'Invalid date range' });
       }
-      
-      const analytics = await storage.getAnalytics(userId);
+
+      // Takes the lead list filters, so the figures can cover exactly the leads on screen
+      const filters = leadFiltersFromQuery(req, await storage.getCustomFields());
+      const analytics = await storage.getAnalytics(filters, { from, to });
       res.json(analytics);
     } catch (error) {
+      if (error instanceof LeadFilterError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error('Get analytics error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
+  // Stage dwell times and transitions, optionally limited to stays that started within ?from=&to=
+  app.get('/api/analytics/stages', requireAuth, async (req, res) => {
+    try {
+      const from = req.query.from ? new Date(req.query.from as string) : undefined;
+      const to = req.query.to ? new Date(req.query.to as string) : undefined;
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        return res.status(400).json({ message: 'Invalid date range' });
+      }
+
+      const filters = leadFiltersFromQuery(req, await storage.getCustomFields());
+      const analytics = await storage.getStageAnalytics(filters, { from, to });
+      res.json(analytics);
+    } catch (error) {
+      if (error instanceof LeadFilterError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Get stage analytics error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
   // Database Management (Admin only)
   app.get('/api/database/export', requireRole('admin'), async (req, res) => {
     try {
@@ -1244,48 +3990,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Lead CSV Import/Export (Accessible to all authenticated users)
   app.get('/api/leads/export/csv', requireAuth, async (req, res) => {
     try {
-      const { status, assignedTo, source, priority } = req.query;
-      const filters = {
-        ...(status && { status: status as string }),
-        ...(assignedTo && { assignedTo: parseInt(assignedTo as string) }),
-        ...(source && { source: source as string }),
-        ...(priority && { priority: priority as string }),
-      };
-      
-      // Role-based filtering: agents can only export leads they created
-      if (req.user!.role === 'agent') {
-        filters.assignedTo = req.user!.id;
-      }
+      const fields = await storage.getCustomFields();
+      const filters = leadFiltersFromQuery(req, fields);
       
       const leads = await storage.getAllLeads(filters);
-      
-      // Convert leads to CSV format
-      const csvData = leads.map(lead => ({
-        name: lead.name,
-        email: lead.email || '',
-        phone: lead.phone || '',
-        company: lead.company || '',
-        status: lead.status,
-        source: lead.source || '',
-        value: lead.value || '',
-        assignedTo: lead.assignedTo || '',
-        assignedEngineer: lead.assignedEngineer || '',
-        // Products handled separately in new many-to-many relationship
-        notes: lead.notes || '',
-        priority: lead.priority,
-        score: lead.score,
-        engineeringProgress: lead.engineeringProgress,
-        engineeringNotes: lead.engineeringNotes || '',
-        lastContactedAt: lead.lastContactedAt ? lead.lastContactedAt.toISOString() : '',
-        createdAt: lead.createdAt.toISOString()
-      }));
-      
-      const csv = Papa.unparse(csvData);
+      const lineItems = await storage.getLineItemsForLeads(leads.map(lead => lead.id));
+      const csv = leadsCsv(leads, fields, await storage.getPipelines(), lineItems);
       
       res.setHeader('Content-Type', 'text/csv');
       res.setHeader('Content-Disposition', `attachment; filename="leads-export-${new Date().toISOString().split('T')[0]}.csv"`);
       res.send(csv);
     } catch (error) {
+      if (error instanceof LeadFilterError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error('CSV export error:', error);
       res.status(500).json({ message: 'Failed to export leads' });
     }
@@ -1318,8 +4036,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const importResults = {
         successful: 0,
         failed: 0,
-        errors: [] as string[]
+        errors: [] as string[],
+        duplicates: [] as string[]
       };
+      const imported: Lead[] = [];
+
+      const [pipelines, stages, fields] = await Promise.all([storage.getPipelines(), storage.getPipelineStages(), storage.getCustomFields()]);
 
       // Process each row
       for (let i = 0; i < parseResult.data.length; i++) {
@@ -1333,14 +4055,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
             continue;
           }
 
+          // The optional pipeline column takes a pipeline name or id; blank means the default pipeline
+          const pipelineValue = row.pipeline?.trim().toLowerCase();
+          const pipeline = pipelineValue
+            ? pipelines.find(p => p.name.toLowerCase() === pipelineValue || String(p.id) === pipelineValue)
+            : pipelines[0];
+          if (!pipeline) {
+            importResults.failed++;
+            importResults.errors.push(`Row ${i + 2}: Unknown pipeline "${row.pipeline.trim()}"`);
+            continue;
+          }
+
+          // Blank statuses start in the pipeline's first open stage; unknown ones are rejected
+          const pipelineStages = stages.filter(s => s.pipelineId === pipeline.id);
+          const stage = row.status?.trim()
+            ? findPipelineStage(pipelineStages, row.status)
+            : pipelineStages.find(s => s.type === 'open');
+          if (!stage) {
+            importResults.failed++;
+            importResults.errors.push(`Row ${i + 2}: Unknown status "${row.status?.trim() || ''}"`);
+            continue;
+          }
+
+          const currency = row.currency?.trim() ? currencyCodeSchema.safeParse(row.currency) : null;
+          if (currency && !currency.success) {
+            importResults.failed++;
+            importResults.errors.push(`Row ${i + 2}: ${currency.error.issues[0].message}`);
+            continue;
+          }
+
+          // Custom field columns are named cf.<field key>, or after the field's label in hand-written files
+          const customFieldValues = customFieldValuesSchema(fields).safeParse(Object.fromEntries(
+            fields.map(field => [field.key, parseCustomFieldCell(field, row[customFieldColumn(field)] ?? row[field.label])])
+          ));
+          if (!customFieldValues.success) {
+            importResults.failed++;
+            importResults.errors.push(`Row ${i + 2}: ${customFieldValues.error.issues[0].message}`);
+            continue;
+          }
+
           const leadData = {
             name: row.name.trim(),
             email: row.email?.trim() || null,
             phone: row.phone?.trim() || null,
             company: row.company?.trim() || null,
-            status: (row.status?.trim() || 'new') as any,
+            pipelineId: pipeline.id,
+            status: stage.key,
             source: row.source?.trim() || null,
             value: row.value ? parseFloat(row.value) : null,
+            ...(currency && { currency: currency.data }),
             assignedTo: row.assignedTo ? parseInt(row.assignedTo) : null,
             assignedEngineer: row.assignedEngineer ? parseInt(row.assignedEngineer) : null,
             // Products handled separately in new many-to-many relationship
@@ -1349,14 +4112,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
             score: row.score ? parseInt(row.score) : 0,
             engineeringProgress: row.engineeringProgress ? parseInt(row.engineeringProgress) : 0,
             engineeringNotes: row.engineeringNotes?.trim() || null,
-            lastContactedAt: row.lastContactedAt ? new Date(row.lastContactedAt) : null
+            lastContactedAt: row.lastContactedAt ? new Date(row.lastContactedAt) : null,
+            customFields: customFieldValues.data
           };
 
           // Create the lead
-          const lead = await storage.createLead(leadData);
+          const lead = await storage.createLead(leadData, undefined, changeContext(req, 'import'));
           
           // Trigger webhooks
           await triggerWebhooks('lead.created', lead);
+          imported.push(lead);
+
+          // Suspected duplicates are still imported, reported here and queued for review
+          const [duplicate] = await storage.findDuplicateCandidates(lead, {
+            excludeId: lead.id,
+            ...(req.user!.role === 'agent' && { assignedTo: req.user!.id })
+          });
+          if (duplicate) {
+            importResults.duplicates.push(`Row ${i + 2}: possible duplicate of lead #${duplicate.lead.id} (${duplicate.lead.name}) by ${duplicate.reasons.join(', ')}`);
+          }
           
           importResults.successful++;
         } catch (error) {
@@ -1364,6 +4138,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           importResults.errors.push(`Row ${i + 2}: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
       }
+      publishLeadChanges('lead', 'created', imported);
 
       // Clean up uploaded file
       fs.unlinkSync(req.file.path);
@@ -1510,6 +4285,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         fileSize: fileSize,
         description: req.body.description || null
       });
+      await publishAttachmentChange('created', parseInt(req.body.leadId));
 
       res.json({
         success: true,
@@ -1527,6 +4303,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Setup MCP WebSocket server
   setupMcpServer(httpServer);
+  setupRealtimeServer(httpServer, sessionMiddleware);
 
   return httpServer;
 }
@@ -0,0 +1,51 @@
+import type { CustomField, InsertSavedView, SavedView, SavedViewFilters, User } from '@shared/schema';
+import type { LeadFilters } from './storage';
+import { customFieldFilters } from './customFields';
+
+type Viewer = Pick<User, 'id' | 'role'>;
+
+export function canSeeSavedView(view: SavedView, user: Viewer): boolean {
+  return view.createdById === user.id
+    || view.sharedWithRole === user.role
+    || (user.role === 'admin' && view.sharedWithRole !== null);
+}
+
+// Only the creator changes a view, except that admins manage every view they can see
+export function canEditSavedView(view: SavedView, user: Viewer): boolean {
+  return view.createdById === user.id || user.role === 'admin';
+}
+
+// Defaults are published by admins for a whole role; everyone else can only share with their own role
+export function savedViewSharingError(view: Partial<InsertSavedView>, user: Viewer): string | null {
+  if (view.isDefault && !view.sharedWithRole) {
+    return 'Default views must be shared with a role';
+  }
+  if (user.role === 'admin') return null;
+  if (view.isDefault) {
+    return 'Only admins can publish default views';
+  }
+  if (view.sharedWithRole && view.sharedWithRole !== user.role) {
+    return 'Views can only be shared with your own role';
+  }
+  return null;
+}
+
+// The lead list filters a view stands for when the given user opens it. The search term is left to
+// the caller, since views search like the search box (ranked full text) rather than by substring.
+export function savedViewLeadFilters(filters: SavedViewFilters, user: Viewer, fields: CustomField[]): LeadFilters {
+  const customFieldQuery = Object.fromEntries(
+    Object.entries(filters.customFields ?? {}).map(([key, value]) => [`cf.${key}`, value])
+  );
+
+  return {
+    pipelineId: filters.pipelineId,
+    status: filters.status,
+    priority: filters.priority,
+    noContactDays: filters.noContactDays,
+    followUp: filters.followUp,
+    query: filters.query,
+    ...(filters.mine && { involving: user.id }),
+    ...(user.role === 'agent' && { assignedTo: user.id }),
+    customFields: customFieldFilters(customFieldQuery, fields),
+  };
+}
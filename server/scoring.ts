@@ -0,0 +1,107 @@
+import type { Lead, Interaction, ScoringRule, ScoreContribution } from '@shared/schema';
+import { scoringRuleConfigSchemas, MIN_LEAD_SCORE, MAX_LEAD_SCORE } from '@shared/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LeadScoringInput {
+  lead: Pick<Lead, 'value' | 'source' | 'priority' | 'lastContactedAt' | 'createdAt'>;
+  productIds: number[];
+  // Interactions recent enough for the interaction rules to look at
+  interactions: Pick<Interaction, 'type' | 'createdAt'>[];
+}
+
+export interface LeadScore {
+  score: number;
+  breakdown: ScoreContribution[];
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.floor((to.getTime() - from.getTime()) / DAY_MS);
+}
+
+// Longest interaction window any active rule looks back over, so callers only load what matters
+export function interactionLookbackDays(rules: ScoringRule[]): number {
+  return Math.max(0, ...rules.map(rule => {
+    const config = scoringRuleConfigSchemas.interaction.safeParse(rule.config);
+    return rule.type === 'interaction' && config.success ? config.data.withinDays : 0;
+  }));
+}
+
+// Points one rule gives a lead and why, or null when it doesn't apply
+function applyRule(rule: ScoringRule, input: LeadScoringInput, now: Date): { points: number; detail: string } | null {
+  const { lead } = input;
+
+  switch (rule.type) {
+    case 'value': {
+      const config = scoringRuleConfigSchemas.value.safeParse(rule.config);
+      if (!config.success || lead.value === null || lead.value < config.data.minValue) return null;
+      return { points: rule.points, detail: `Value ${lead.value.toLocaleString()} ≥ ${config.data.minValue.toLocaleString()}` };
+    }
+    case 'source': {
+      const config = scoringRuleConfigSchemas.source.safeParse(rule.config);
+      if (!config.success || lead.source?.trim().toLowerCase() !== config.data.source.toLowerCase()) return null;
+      return { points: rule.points, detail: `Source is ${lead.source}` };
+    }
+    case 'priority': {
+      const config = scoringRuleConfigSchemas.priority.safeParse(rule.config);
+      if (!config.success || lead.priority !== config.data.priority) return null;
+      return { points: rule.points, detail: `Priority is ${lead.priority}` };
+    }
+    case 'product': {
+      const config = scoringRuleConfigSchemas.product.safeParse(rule.config);
+      if (!config.success || !input.productIds.includes(config.data.productId)) return null;
+      return { points: rule.points, detail: 'Interested in the product' };
+    }
+    case 'interaction': {
+      const config = scoringRuleConfigSchemas.interaction.safeParse(rule.config);
+      if (!config.success) return null;
+      const { interactionType, withinDays, maxCount } = config.data;
+      const since = now.getTime() - withinDays * DAY_MS;
+      const count = input.interactions.filter(i => i.type === interactionType && new Date(i.createdAt).getTime() >= since).length;
+      const counted = maxCount ? Math.min(count, maxCount) : count;
+      if (counted === 0) return null;
+      return { points: rule.points * counted, detail: `${count} ${interactionType} interaction(s) in the last ${withinDays} day(s)` };
+    }
+    case 'contact_decay': {
+      const config = scoringRuleConfigSchemas.contact_decay.safeParse(rule.config);
+      if (!config.success) return null;
+      const lastContact = new Date(lead.lastContactedAt ?? lead.createdAt);
+      const days = daysBetween(lastContact, now);
+      const overdueDays = Math.max(0, days - config.data.graceDays);
+      const counted = config.data.maxDays ? Math.min(overdueDays, config.data.maxDays) : overdueDays;
+      if (counted === 0) return null;
+      return {
+        points: rule.points * counted,
+        detail: `${days} day(s) since ${lead.lastContactedAt ? 'last contact' : 'created, never contacted'}`,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+// jsonb doesn't keep key order, so breakdowns are compared field by field
+export function isSameScore(a: LeadScore, score: number | null, breakdown: ScoreContribution[] | null): boolean {
+  const flatten = (contributions: ScoreContribution[] | null) =>
+    JSON.stringify(contributions?.map(c => [c.ruleId, c.name, c.points, c.detail]) ?? null);
+  return a.score === score && flatten(a.breakdown) === flatten(breakdown);
+}
+
+// Sums the active rules that apply to a lead; the total is clamped to the score range
+export function scoreLead(rules: ScoringRule[], input: LeadScoringInput, now = new Date()): LeadScore {
+  const breakdown: ScoreContribution[] = [];
+
+  for (const rule of rules) {
+    if (!rule.isActive) continue;
+    const result = applyRule(rule, input, now);
+    if (result && result.points !== 0) {
+      breakdown.push({ ruleId: rule.id, name: rule.name, ...result });
+    }
+  }
+
+  const total = breakdown.reduce((sum, contribution) => sum + contribution.points, 0);
+  return {
+    score: Math.min(MAX_LEAD_SCORE, Math.max(MIN_LEAD_SCORE, total)),
+    breakdown,
+  };
+}
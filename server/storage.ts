@@ -7,7 +7,48 @@ import {
   webhooks, 
   leadAttachments, 
   leadProducts,
+  leadDuplicateDismissals,
+  leadStatusHistory,
+  leadFieldChanges,
   mcpServers,
+  pipelines,
+  pipelineStages,
+  customFields,
+  scoringRules,
+  closeReasons,
+  savedViews,
+  savedViewPins,
+  tags,
+  appSettings,
+  quoteTemplates,
+  quotes,
+  followUpReminders,
+  tasks,
+  calendarFeeds,
+  notifications,
+  notificationPreferences,
+  NOTIFICATION_EVENTS,
+  invoices,
+  invoiceLines,
+  invoicePayments,
+  accounts,
+  contacts,
+  DEFAULT_PIPELINE_NAME,
+  DEFAULT_PIPELINE_STAGES,
+  DEFAULT_CLOSE_REASONS,
+  DEFAULT_TAG_SETTINGS,
+  tagSettingsSchema,
+  currencySettingsSchema,
+  DEFAULT_CURRENCY_SETTINGS,
+  FOLLOW_UP_OVERDUE_AFTER_MS,
+  followUpState,
+  invoiceSettingsSchema,
+  DEFAULT_INVOICE_SETTINGS,
+  invoiceReference,
+  invoiceLineAmount,
+  invoiceTotals,
+  issuedInvoiceStatus,
+  invoiceBalance,
   type User, 
   type InsertUser, 
   type Product, 
@@ -23,9 +64,113 @@ import {
   type LeadProduct,
   type InsertLeadProduct,
   type McpServer, 
-  type InsertMcpServer 
+  type InsertMcpServer,
+  type LeadWithProducts,
+  type LeadPage,
+  type LeadSearchMatch,
+  type LeadSearchPage,
+  type DuplicateCandidate,
+  type DuplicatePair,
+  type LeadMergeSelections,
+  type LeadChangeSource,
+  type LeadStatusChange,
+  type LeadStatusChangeWithUser,
+  type LeadFieldChange,
+  type LeadFieldChangeWithUser,
+  type LeadChangeAction,
+  type StageAnalytics,
+  type Pipeline,
+  type InsertPipeline,
+  type PipelineStage,
+  type InsertPipelineStage,
+  type CustomField,
+  type InsertCustomField,
+  type CustomFieldType,
+  type ScoringRule,
+  type InsertScoringRule,
+  type CloseReason,
+  type InsertCloseReason,
+  type LossReasonCount,
+  type LossReasonAnalytics,
+  type SavedView,
+  type InsertSavedView,
+  type SavedViewWithState,
+  type SavedViewPin,
+  type AppSetting,
+  type LeadFilterGroup,
+  type Tag,
+  type InsertTag,
+  type TagWithUsage,
+  type UnregisteredTag,
+  type TagSettings,
+  type CurrencySettings,
+  type Account,
+  type InsertAccount,
+  type AccountWithStats,
+  type AccountDetail,
+  type AccountInteraction,
+  type Contact,
+  type InsertContact,
+  type LeadLineItem,
+  type LeadDuplicateDismissal,
+  type LineItemInput,
+  type QuoteTemplate,
+  type InsertQuoteTemplate,
+  type Quote,
+  type InsertQuote,
+  type QuoteStatus,
+  type QuoteWithDetails,
+  type FollowUpState,
+  type FollowUpReminder,
+  type DueFollowUp,
+  type Task,
+  type InsertTask,
+  type TaskUpdate,
+  type TaskWithDetails,
+  type CalendarFeed,
+  type Notification,
+  type InsertNotification,
+  type NotificationPreference,
+  type NotificationPreferences,
+  type InvoiceSettings,
+  type Invoice,
+  type InsertInvoice,
+  type InvoiceStatus,
+  type InvoiceLine,
+  type InvoiceLineInput,
+  type InvoicePayment,
+  type InvoiceUpdate,
+  type InvoicePaymentInput,
+  type InvoiceDetail,
+  lineItemTotal,
+  lineItemTotals,
+  productPriceDefaults,
+  leadSearchVector,
+  interactionSearchVector,
+  attachmentSearchVector,
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_END
 } from "@shared/schema";
-import { eq, desc, and, or, like, sql, asc } from "drizzle-orm";
+import { eq, ne, desc, and, or, ilike, sql, asc, gt, gte, lt, lte, inArray, notInArray, isNull, isNotNull, getTableColumns, type SQL } from "drizzle-orm";
+import { scoreLead, isSameScore, interactionLookbackDays } from './scoring';
+import { leadQueryCondition } from './leadQuery';
+import { replaceTagNames, tagKey } from './tags';
+import { matchAccount, matchContact, accountFromLead, companyDomain, type AccountFields } from './accounts';
+import { parseProductPrice } from './pricing';
+import { DEFAULT_QUOTE_TEMPLATE } from './quotes';
+import { diffLeadFields, diffProductIds, diffLineItems, ASSIGNMENT_FIELDS, type LeadFieldDiff } from './leadChanges';
+import { engineerAssignedNotification } from './notifications';
+import { compareLeads, findDuplicatePairs, normalizeEmail, normalizePhone, normalizeName, resolveMergedLeadValues, type DuplicateFields } from './duplicates';
+
+// Lead lists are paged; pages default to this many leads and are capped at max
+export const LEAD_PAGE_SIZE = { default: 50, max: 200 } as const;
+const SCORE_REFRESH_BATCH_SIZE = 500;
+const FOLLOW_UP_REMINDER_BATCH_SIZE = 1000;
+const ACCOUNT_INTERACTION_LIMIT = 100;
+// Set once leads from before accounts existed have been grouped into accounts
+const ACCOUNTS_BACKFILL_SETTING = 'accountsBackfill';
+// Set once the free-text prices of products from before structured pricing have been parsed
+const PRODUCT_PRICES_MIGRATION_SETTING = 'productPricesMigration';
 
 export interface IStorage {
   // Users
@@ -47,22 +192,157 @@ export interface IStorage {
   updateProduct(id: number, product: Partial<InsertProduct>): Promise<Product | undefined>;
   deleteProduct(id: number): Promise<boolean>;
   reorderProducts(productIds: number[]): Promise<boolean>;
+  migrateProductPrices(): Promise<number>;
 
   // Leads
   getLead(id: number): Promise<Lead | undefined>;
   getLeadWithProducts(id: number): Promise<Lead & { products: Product[] } | undefined>;
-  getAllLeads(filters?: LeadFilters): Promise<Lead[]>;
-  createLead(lead: InsertLead, productIds?: number[]): Promise<Lead>;
-  updateLead(id: number, lead: Partial<InsertLead>, productIds?: number[]): Promise<Lead | undefined>;
-  deleteLead(id: number): Promise<boolean>;
+  getAllLeads(filters?: LeadFilters): Promise<LeadWithProducts[]>;
+  getLeadsPage(filters?: LeadFilters): Promise<LeadPage>;
+  countLeads(filters?: LeadFilters): Promise<number>;
+  searchLeads(term: string, filters?: LeadFilters): Promise<LeadSearchPage>;
+  createLead(lead: InsertLead, productIds?: number[], context?: LeadChangeContext): Promise<Lead>;
+  updateLead(id: number, lead: Partial<InsertLead>, productIds?: number[], skipAutoAssignment?: boolean, context?: LeadChangeContext): Promise<Lead | undefined>;
+  deleteLead(id: number, context?: LeadChangeContext): Promise<boolean>;
+  getTrashedLead(id: number): Promise<Lead | undefined>;
+  restoreLead(id: number): Promise<Lead | undefined>;
+  purgeLead(id: number): Promise<boolean>;
+  purgeTrashedLeads(deletedBefore: Date): Promise<Lead[]>;
   getLeadsByStatus(status: string): Promise<Lead[]>;
   getLeadsByAssignee(userId: number): Promise<Lead[]>;
+
+  // Follow-ups
+  getDueFollowUps(filters?: LeadFilters): Promise<DueFollowUp[]>;
+  createFollowUpReminders(now?: Date): Promise<{ reminder: FollowUpReminder; lead: Lead }[]>;
+
+  // Tasks
+  getTasks(filters?: TaskFilters): Promise<TaskWithDetails[]>;
+  getTask(id: number): Promise<Task | undefined>;
+  createTask(task: InsertTask, createdById?: number): Promise<Task>;
+  updateTask(id: number, updates: TaskUpdate, userId?: number): Promise<Task | undefined>;
+  deleteTask(id: number): Promise<boolean>;
+
+  // Calendar
+  getCalendarFeed(userId: number): Promise<CalendarFeed | undefined>;
+  getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined>;
+  setCalendarFeedToken(userId: number, token: string): Promise<CalendarFeed>;
+  getCalendarItems(userId: number, filters: LeadFilters, since: Date): Promise<CalendarItems>;
+
+  // Notifications
+  getNotifications(userId: number, limit?: number): Promise<Notification[]>;
+  getUnreadNotificationCount(userId: number): Promise<number>;
+  createNotifications(items: InsertNotification[]): Promise<Notification[]>;
+  setNotificationRead(id: number, userId: number, read: boolean): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: number): Promise<number>;
+  getNotificationPreferences(userId: number): Promise<NotificationPreferences>;
+  updateNotificationPreferences(userId: number, preferences: Partial<NotificationPreferences>): Promise<NotificationPreferences>;
+
+  // Duplicates
+  findDuplicateCandidates(fields: DuplicateFields, options?: DuplicateScope & { excludeId?: number }): Promise<DuplicateCandidate[]>;
+  getDuplicatePairs(options?: DuplicateScope & { limit?: number }): Promise<DuplicatePair[]>;
+  dismissDuplicatePair(leadId: number, otherLeadId: number, userId: number): Promise<void>;
+  mergeLeads(survivorId: number, mergedId: number, selections: LeadMergeSelections, context?: LeadChangeContext): Promise<{ lead: Lead; mergedLead: Lead } | undefined>;
+
+  // Lead Status History
+  getLeadStatusHistory(leadId: number): Promise<LeadStatusChangeWithUser[]>;
+  getStageAnalytics(filters?: LeadFilters, range?: DateRange): Promise<StageAnalytics>;
+
+  // Lead Field Changes
+  getLeadFieldChanges(leadId: number): Promise<LeadFieldChangeWithUser[]>;
   
   // Lead Products
   getLeadProducts(leadId: number): Promise<Product[]>;
   addLeadProducts(leadId: number, productIds: number[]): Promise<void>;
   removeLeadProducts(leadId: number): Promise<void>;
   updateLeadProducts(leadId: number, productIds: number[]): Promise<void>;
+  getLeadLineItems(leadId: number): Promise<LeadLineItem[]>;
+  getLineItemsForLeads(leadIds: number[]): Promise<Map<number, LeadLineItem[]>>;
+  setLeadLineItems(leadId: number, items: LineItemInput[], valueFromLineItems?: boolean, context?: LeadChangeContext): Promise<Lead | undefined>;
+
+  // Pipelines
+  getPipelines(): Promise<Pipeline[]>;
+  getPipeline(id: number): Promise<Pipeline | undefined>;
+  getDefaultPipeline(): Promise<Pipeline>;
+  resolveLeadPipelineId(productIds?: number[]): Promise<number>;
+  createPipeline(pipeline: InsertPipeline): Promise<Pipeline>;
+  updatePipeline(id: number, pipeline: Partial<InsertPipeline>): Promise<Pipeline | undefined>;
+  deletePipeline(id: number): Promise<boolean>;
+  countPipelineLeads(pipelineId?: number, status?: string): Promise<number>;
+  moveLeadsToPipeline(leadIds: number[], pipelineId: number, stageMapping: Record<string, string>, context?: LeadChangeContext): Promise<Lead[]>;
+
+  // Pipeline Stages
+  getPipelineStages(pipelineId?: number): Promise<PipelineStage[]>;
+  getPipelineStage(id: number): Promise<PipelineStage | undefined>;
+  createPipelineStage(stage: InsertPipelineStage): Promise<PipelineStage>;
+  updatePipelineStage(id: number, stage: Partial<InsertPipelineStage>): Promise<PipelineStage | undefined>;
+  deletePipelineStage(id: number, moveLeadsTo?: string, context?: LeadChangeContext): Promise<boolean>;
+  reorderPipelineStages(stageIds: number[]): Promise<boolean>;
+
+  // Close Reasons
+  getCloseReasons(): Promise<CloseReason[]>;
+  getCloseReason(id: number): Promise<CloseReason | undefined>;
+  createCloseReason(reason: InsertCloseReason): Promise<CloseReason>;
+  updateCloseReason(id: number, reason: Partial<InsertCloseReason>): Promise<CloseReason | undefined>;
+  deleteCloseReason(id: number): Promise<boolean>;
+  reorderCloseReasons(reasonIds: number[]): Promise<boolean>;
+  countLeadsWithCloseReason(id: number): Promise<number>;
+
+  // Custom Fields
+  getCustomFields(): Promise<CustomField[]>;
+  getCustomField(id: number): Promise<CustomField | undefined>;
+  createCustomField(field: InsertCustomField): Promise<CustomField>;
+  updateCustomField(id: number, field: Partial<InsertCustomField>): Promise<CustomField | undefined>;
+  deleteCustomField(id: number): Promise<boolean>;
+  reorderCustomFields(fieldIds: number[]): Promise<boolean>;
+
+  // Lead Scoring
+  getScoringRules(): Promise<ScoringRule[]>;
+  getScoringRule(id: number): Promise<ScoringRule | undefined>;
+  createScoringRule(rule: InsertScoringRule): Promise<ScoringRule>;
+  updateScoringRule(id: number, rule: Partial<InsertScoringRule>): Promise<ScoringRule | undefined>;
+  deleteScoringRule(id: number): Promise<boolean>;
+  refreshLeadScores(leadIds?: number[]): Promise<number>;
+
+  // Saved Views
+  getSavedViewsForUser(user: Pick<User, 'id' | 'role'>): Promise<SavedViewWithState[]>;
+  getSavedView(id: number): Promise<SavedView | undefined>;
+  createSavedView(view: InsertSavedView, createdById: number): Promise<SavedView>;
+  updateSavedView(id: number, view: Partial<InsertSavedView>): Promise<SavedView | undefined>;
+  deleteSavedView(id: number): Promise<boolean>;
+  setSavedViewPinned(viewId: number, userId: number, pinned: boolean): Promise<void>;
+
+  // Tags
+  getTags(): Promise<TagWithUsage[]>;
+  getUnregisteredTags(): Promise<UnregisteredTag[]>;
+  getTag(id: number): Promise<Tag | undefined>;
+  getTagByName(name: string): Promise<Tag | undefined>;
+  createTag(tag: InsertTag): Promise<Tag>;
+  registerTags(names: string[]): Promise<void>;
+  updateTag(id: number, tag: Partial<InsertTag>, context?: LeadChangeContext): Promise<Tag | undefined>;
+  mergeTags(sourceNames: string[], targetId: number, context?: LeadChangeContext): Promise<Tag | undefined>;
+  deleteTag(id: number, context?: LeadChangeContext): Promise<boolean>;
+  getTagSettings(): Promise<TagSettings>;
+  updateTagSettings(settings: TagSettings): Promise<TagSettings>;
+
+  // Currency
+  getCurrencySettings(): Promise<CurrencySettings>;
+  updateCurrencySettings(settings: CurrencySettings): Promise<CurrencySettings>;
+
+  // Accounts
+  getAccounts(scope?: AccountScope): Promise<AccountWithStats[]>;
+  getAccount(id: number): Promise<Account | undefined>;
+  getAccountDetail(id: number, scope?: AccountScope): Promise<AccountDetail | undefined>;
+  createAccount(account: InsertAccount): Promise<Account>;
+  updateAccount(id: number, account: Partial<InsertAccount>): Promise<Account | undefined>;
+  deleteAccount(id: number): Promise<boolean>;
+  linkLeadsToAccounts(): Promise<number>;
+
+  // Contacts
+  getContacts(accountId: number): Promise<Contact[]>;
+  getContact(id: number): Promise<Contact | undefined>;
+  createContact(accountId: number, contact: InsertContact): Promise<Contact>;
+  updateContact(id: number, contact: Partial<InsertContact>): Promise<Contact | undefined>;
+  deleteContact(id: number): Promise<boolean>;
 
   // Interactions
   getInteraction(id: number): Promise<Interaction | undefined>;
@@ -86,6 +366,31 @@ export interface IStorage {
   createLeadAttachment(attachment: InsertLeadAttachment): Promise<LeadAttachment>;
   deleteLeadAttachment(id: number): Promise<{ success: boolean; fileSize?: number; uploadedById?: number }>;
 
+  // Quotes
+  getQuoteTemplates(): Promise<QuoteTemplate[]>;
+  getQuoteTemplate(id: number): Promise<QuoteTemplate | undefined>;
+  createQuoteTemplate(template: InsertQuoteTemplate): Promise<QuoteTemplate>;
+  updateQuoteTemplate(id: number, template: Partial<InsertQuoteTemplate>): Promise<QuoteTemplate | undefined>;
+  deleteQuoteTemplate(id: number): Promise<boolean>;
+  getQuote(id: number): Promise<Quote | undefined>;
+  getQuotesByLead(leadId: number): Promise<QuoteWithDetails[]>;
+  createQuote(number: number | undefined, render: (version: QuoteVersion) => Promise<QuoteDraft>): Promise<Quote>;
+  updateQuoteStatus(id: number, status: QuoteStatus): Promise<Quote | undefined>;
+
+  // Invoices
+  getInvoiceSettings(): Promise<InvoiceSettings>;
+  updateInvoiceSettings(settings: InvoiceSettings): Promise<InvoiceSettings>;
+  getInvoices(filters?: InvoiceFilters): Promise<Invoice[]>;
+  getInvoice(id: number): Promise<InvoiceDetail | undefined>;
+  createInvoice(invoice: InsertInvoice, lines: InvoiceLineInput[]): Promise<InvoiceDetail>;
+  updateInvoice(id: number, update: InvoiceUpdate): Promise<InvoiceDetail | undefined>;
+  issueInvoice(id: number, dueDate?: Date): Promise<InvoiceDetail | undefined>;
+  deleteInvoice(id: number): Promise<boolean>;
+  getInvoicePayment(id: number): Promise<InvoicePayment | undefined>;
+  addInvoicePayment(invoiceId: number, payment: InvoicePaymentInput, recordedById?: number): Promise<InvoiceDetail | { error: string } | undefined>;
+  deleteInvoicePayment(id: number): Promise<InvoiceDetail | undefined>;
+  markOverdueInvoices(now?: Date): Promise<Invoice[]>;
+
   // MCP Servers
   getMcpServer(id: number): Promise<McpServer | undefined>;
   getAllMcpServers(): Promise<McpServer[]>;
@@ -94,7 +399,7 @@ export interface IStorage {
   deleteMcpServer(id: number): Promise<boolean>;
 
   // Analytics
-  getAnalytics(userId?: number): Promise<AnalyticsData>;
+  getAnalytics(filters?: LeadFilters, range?: DateRange): Promise<AnalyticsData>;
 
   // Database Management
   exportDatabase(): Promise<DatabaseExport>;
@@ -104,20 +409,109 @@ export interface IStorage {
 }
 
 export interface LeadFilters {
+  pipelineId?: number;
+  accountId?: number;
   status?: string;
   assignedTo?: number;
+  assignedEngineer?: number;
+  // Leads this user is either the agent or the engineer on
+  involving?: number;
   source?: string;
   search?: string;
   priority?: string;
+  // Not contacted (or, never contacted, not created) within this many days
+  noContactDays?: number;
+  // Follow-up due (overdue included) or overdue
+  followUp?: FollowUpState;
+  customFields?: CustomFieldFilter[];
+  // Advanced conditions in AND/OR groups, combined with the filters above
+  query?: LeadFilterGroup;
+  // Lists the leads in the trash instead of the live ones
+  trashed?: boolean;
+  // Any column of the leads table; unknown columns fall back to createdAt
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  limit?: number;
+  offset?: number;
+}
+
+// Which accounts are listed, and which of their leads count towards deal totals
+export interface AccountScope {
+  search?: string;
+  // Only this agent's leads are counted and listed
+  assignedTo?: number;
+}
+
+// Text and URL fields match on a substring, multiselect fields on one of the chosen options,
+// everything else on the exact value
+export interface CustomFieldFilter {
+  key: string;
+  type: CustomFieldType;
+  value: string;
+}
+
+// Who made a lead change and through which channel
+export interface LeadChangeContext {
+  userId?: number | null;
+  source: LeadChangeSource;
+}
+
+export interface DateRange {
+  from?: Date;
+  to?: Date;
+}
+
+export interface TaskFilters {
+  assignedTo?: number;
+  leadId?: number;
+  completed?: boolean;
+  // Only tasks this agent is assigned, created or has the lead of
+  visibleTo?: number;
+}
+
+// What a calendar feed lists: follow-ups and meetings on the leads in scope, and the user's open tasks
+export interface CalendarItems {
+  followUps: Lead[];
+  meetings: { interaction: Interaction; lead: Lead }[];
+  tasks: TaskWithDetails[];
+}
+
+export interface QuoteVersion {
+  number: number;
+  version: number;
+}
+
+// A quote rendered for its reserved number and version, and the PDF attachment it is saved as
+export interface QuoteDraft {
+  quote: Omit<InsertQuote, 'number' | 'version' | 'attachmentId'>;
+  attachment: InsertLeadAttachment;
+}
+
+export interface InvoiceFilters {
+  status?: InvoiceStatus;
+  leadId?: number;
+  // Only invoices for this agent's leads
+  assignedTo?: number;
 }
 
+// Restricts duplicate detection to the leads a user can see (agents: their own)
+export interface DuplicateScope {
+  assignedTo?: number;
+}
+
+// Money amounts are in the base currency; leads in currencies without an exchange rate count at face value
 export interface AnalyticsData {
+  currency: string;
+  unconvertedCurrencies: string[];
   totalLeads: number;
   conversionRate: number;
   pipelineValue: number;
+  weightedPipelineValue: number; // open pipeline value scaled by each stage's win probability
   activeProjects: number;
+  overdueFollowUps: number;
   leadsByStatus: { status: string; count: number }[];
   revenueByMonth: { month: string; revenue: number }[];
+  lossReasons: LossReasonAnalytics; // leads lost within the requested date range
 }
 
 export interface DatabaseExport {
@@ -132,9 +526,86 @@ export interface DatabaseExport {
     leadAttachments: LeadAttachment[];
     leadProducts: LeadProduct[];
     mcpServers: McpServer[];
+    pipelines?: Pipeline[]; // absent in exports made before multiple pipelines existed
+    pipelineStages?: PipelineStage[]; // absent in exports made before stages were configurable
+    leadStatusHistory?: LeadStatusChange[]; // absent in exports made before status history existed
+    leadFieldChanges?: LeadFieldChange[]; // absent in exports made before field changes were logged
+    customFields?: CustomField[]; // absent in exports made before custom fields existed
+    scoringRules?: ScoringRule[]; // absent in exports made before lead scoring existed
+    closeReasons?: CloseReason[]; // absent in exports made before close reasons existed
+    savedViews?: SavedView[]; // absent in exports made before saved views existed
+    savedViewPins?: SavedViewPin[];
+    tags?: Tag[]; // absent in exports made before the tag registry existed
+    appSettings?: AppSetting[];
+    accounts?: Account[]; // absent in exports made before accounts existed
+    contacts?: Contact[];
+    leadDuplicateDismissals?: LeadDuplicateDismissal[]; // absent in exports made before duplicate detection existed
+    quoteTemplates?: QuoteTemplate[]; // absent in exports made before quotes existed
+    quotes?: Quote[];
+    invoices?: Invoice[]; // absent in exports made before invoices existed
+    invoiceLines?: InvoiceLine[];
+    invoicePayments?: InvoicePayment[];
+    tasks?: Task[]; // absent in exports made before tasks existed
+    followUpReminders?: FollowUpReminder[]; // absent in exports made before follow-up reminders existed
+    calendarFeeds?: CalendarFeed[]; // absent in exports made before calendar feeds existed
+    notifications?: Notification[]; // absent in exports made before notifications existed
+    notificationPreferences?: NotificationPreference[];
   };
 }
 
+// Position of a status in the pipeline; statuses of deleted stages sort last
+function stageRank(stageOrder: string[], status: string): number {
+  const index = stageOrder.indexOf(status);
+  return index === -1 ? stageOrder.length : index;
+}
+
+// Stage keys are only unique within a pipeline, so a lead's stage type is looked up by both
+function inStageOfType(type: PipelineStage['type']): SQL {
+  return sql`exists (
+    select 1 from ${pipelineStages}
+    where ${pipelineStages.pipelineId} = ${leads.pipelineId} and ${pipelineStages.key} = ${leads.status} and ${pipelineStages.type} = ${type}
+  )`;
+}
+
+// Open leads whose follow-up date has arrived, or for overdue, whose follow-up day has passed. Won
+// and lost leads need no more follow-ups.
+function followUpCondition(state: FollowUpState, now = new Date()): SQL {
+  return and(
+    state === 'overdue'
+      ? lt(leads.followUpDate, new Date(now.getTime() - FOLLOW_UP_OVERDUE_AFTER_MS))
+      : lte(leads.followUpDate, now),
+    inStageOfType('open')
+  )!;
+}
+
+// A lead's value in the base currency; currencies without a rate count at face value
+function valueInBaseCurrency(settings: CurrencySettings): SQL {
+  const rates = Object.entries(settings.rates).filter(([code]) => code !== settings.baseCurrency);
+  if (rates.length === 0) return sql`coalesce(${leads.value}, 0)`;
+  const cases = sql.join(rates.map(([code, rate]) => sql`when ${code} then ${rate}::float8`), sql` `);
+  return sql`coalesce(${leads.value}, 0) * (case ${leads.currency} ${cases} else 1 end)`;
+}
+
+// Entering a won or lost stage stamps when the lead closed; any other stage clears why it was closed
+function closeDetailsFor(stage: PipelineStage | undefined) {
+  return stage && stage.type !== 'open'
+    ? { closedAt: new Date() }
+    : { closeReasonId: null, closeCompetitor: null, closeNote: null, closedAt: null };
+}
+
+// Groups lost leads by reason and one other dimension, most frequent first
+function tallyLosses<K extends object>(entries: { key: K; reasonId: number | null; reason: string | null; value: number | null }[]): (LossReasonCount & K)[] {
+  const groups = new Map<string, LossReasonCount & K>();
+  for (const entry of entries) {
+    const groupKey = JSON.stringify([entry.key, entry.reasonId]);
+    const group = groups.get(groupKey) ?? { ...entry.key, reasonId: entry.reasonId, reason: entry.reason, count: 0, value: 0 };
+    group.count += 1;
+    group.value += entry.value ?? 0;
+    groups.set(groupKey, group);
+  }
+  return Array.from(groups.values()).sort((a, b) => b.count - a.count || b.value - a.value);
+}
+
 export class DatabaseStorage implements IStorage {
   // Users
   async getUser(id: number): Promise<User | undefined> {
@@ -238,6 +709,25 @@ export class DatabaseStorage implements IStorage {
     return product || undefined;
   }
 
+  // Products from before structured pricing only have their free-text price; it is parsed once, and
+  // prices without a currency are taken to be in the base currency
+  async migrateProductPrices(): Promise<number> {
+    const [done] = await db.select().from(appSettings).where(eq(appSettings.key, PRODUCT_PRICES_MIGRATION_SETTING));
+    if (done) return 0;
+
+    const { baseCurrency } = await this.getCurrencySettings();
+    const unpriced = await db.select().from(products).where(and(isNull(products.priceAmount), isNotNull(products.price)));
+    for (const product of unpriced) {
+      const { note, ...price } = parseProductPrice(product.price, baseCurrency);
+      await db.update(products).set({ ...price, price: note }).where(eq(products.id, product.id));
+    }
+
+    await db.insert(appSettings)
+      .values({ key: PRODUCT_PRICES_MIGRATION_SETTING, value: { migratedProducts: unpriced.length, completedAt: new Date().toISOString() } })
+      .onConflictDoNothing();
+    return unpriced.length;
+  }
+
   async deleteProduct(id: number): Promise<boolean> {
     const result = await db.delete(products).where(eq(products.id, id));
     return (result.rowCount || 0) > 0;
@@ -256,12 +746,12 @@ export class DatabaseStorage implements IStorage {
 
   // Leads
   async getLead(id: number): Promise<Lead | undefined> {
-    const [lead] = await db.select().from(leads).where(eq(leads.id, id));
+    const [lead] = await db.select().from(leads).where(and(eq(leads.id, id), isNull(leads.deletedAt)));
     return lead || undefined;
   }
 
   async getLeadWithProducts(id: number): Promise<Lead & { products: Product[] } | undefined> {
-    const [lead] = await db.select().from(leads).where(eq(leads.id, id));
+    const [lead] = await db.select().from(leads).where(and(eq(leads.id, id), isNull(leads.deletedAt)));
     if (!lead) return undefined;
     
     const leadProductsData = await db
@@ -275,58 +765,210 @@ export class DatabaseStorage implements IStorage {
     return { ...lead, products: productsList };
   }
 
-  async getAllLeads(filters?: LeadFilters): Promise<(Lead & { products?: Product[] })[]> {
-    let query = db.select().from(leads);
-    const conditions = [];
+  async getAllLeads(filters?: LeadFilters): Promise<LeadWithProducts[]> {
+    let query = db.select().from(leads)
+      .where(this.buildLeadConditions(filters))
+      .orderBy(...this.buildLeadOrder(filters))
+      .$dynamic();
+
+    if (filters?.limit !== undefined) {
+      query = query.limit(filters.limit);
+    }
+    if (filters?.offset !== undefined) {
+      query = query.offset(filters.offset);
+    }
+
+    return await this.attachLeadProducts(await query);
+  }
+
+  private leadPageBounds(filters?: LeadFilters): { limit: number; offset: number } {
+    return {
+      limit: Math.min(Math.max(filters?.limit || LEAD_PAGE_SIZE.default, 1), LEAD_PAGE_SIZE.max),
+      offset: Math.max(filters?.offset || 0, 0),
+    };
+  }
+
+  async getLeadsPage(filters?: LeadFilters): Promise<LeadPage> {
+    const { limit, offset } = this.leadPageBounds(filters);
+
+    const [leadsResult, total] = await Promise.all([
+      this.getAllLeads({ ...filters, limit, offset }),
+      this.countLeads(filters)
+    ]);
+
+    return {
+      leads: leadsResult,
+      total,
+      limit,
+      offset
+    };
+  }
+
+  async countLeads(filters?: LeadFilters): Promise<number> {
+    const [result] = await db.select({ count: sql<number>`count(*)` }).from(leads).where(this.buildLeadConditions(filters));
+    return Number(result?.count) || 0;
+  }
+
+  async searchLeads(term: string, filters?: LeadFilters): Promise<LeadSearchPage> {
+    const { limit, offset } = this.leadPageBounds(filters);
+
+    const query = sql`websearch_to_tsquery('english', ${term})`;
+    const headlineOptions = `StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_END}, MaxFragments=2, MaxWords=20, MinWords=5`;
+    const leadConditions = this.buildLeadConditions({ ...filters, search: undefined });
+
+    // Each branch finds hits in one source; lead field matches weigh more than log entries
+    const result = await db.execute<{ lead_id: number; rank: number; total: number; matches: LeadSearchMatch[] }>(sql`
+      WITH hits AS (
+        SELECT ${leads.id} AS lead_id, ts_rank(${leadSearchVector(leads)}, ${query}) * 2 AS rank,
+          'lead' AS source, NULL::integer AS source_id,
+          ts_headline('english', concat_ws(' · ', ${leads.name}, ${leads.company}, ${leads.email}, ${leads.notes}, ${leads.engineeringNotes}), ${query}, ${headlineOptions}) AS snippet
+        FROM ${leads}
+        WHERE ${leadSearchVector(leads)} @@ ${query} AND ${leadConditions}
+        UNION ALL
+        SELECT ${leads.id}, ts_rank(to_tsvector('english', array_to_string(${leads.tags}, ' ')), ${query}) * 2,
+          'tags', NULL::integer,
+          ts_headline('english', array_to_string(${leads.tags}, ', '), ${query}, ${headlineOptions})
+        FROM ${leads}
+        WHERE to_tsvector('english', coalesce(array_to_string(${leads.tags}, ' '), '')) @@ ${query} AND ${leadConditions}
+        UNION ALL
+        SELECT ${leads.id}, ts_rank(${interactionSearchVector(interactions)}, ${query}),
+          'interaction', ${interactions.id},
+          ts_headline('english', ${interactions.text}, ${query}, ${headlineOptions})
+        FROM ${interactions} INNER JOIN ${leads} ON ${leads.id} = ${interactions.leadId}
+        WHERE ${interactionSearchVector(interactions)} @@ ${query} AND ${leadConditions}
+        UNION ALL
+        SELECT ${leads.id}, ts_rank(${attachmentSearchVector(leadAttachments)}, ${query}),
+          'attachment', ${leadAttachments.id},
+          ts_headline('english', ${leadAttachments.fileName} || ' ' || coalesce(${leadAttachments.description}, ''), ${query}, ${headlineOptions})
+        FROM ${leadAttachments} INNER JOIN ${leads} ON ${leads.id} = ${leadAttachments.leadId}
+        WHERE ${attachmentSearchVector(leadAttachments)} @@ ${query} AND ${leadConditions}
+      )
+      SELECT lead_id, sum(rank)::real AS rank, count(*) OVER ()::integer AS total,
+        json_agg(json_build_object('source', source, 'sourceId', source_id, 'snippet', snippet) ORDER BY rank DESC) AS matches
+      FROM hits
+      GROUP BY lead_id
+      ORDER BY rank DESC, lead_id DESC
+      LIMIT ${limit} OFFSET ${offset}
+    `);
+
+    const rows = result.rows;
+    if (rows.length === 0) {
+      return { results: [], total: 0, limit, offset };
+    }
+
+    const leadsResult = await this.attachLeadProducts(
+      await db.select().from(leads).where(inArray(leads.id, rows.map(row => row.lead_id)))
+    );
+    const leadsById = new Map(leadsResult.map(lead => [lead.id, lead]));
+
+    return {
+      results: rows
+        .filter(row => leadsById.has(row.lead_id))
+        .map(row => ({
+          lead: leadsById.get(row.lead_id)!,
+          rank: Number(row.rank),
+          matches: row.matches
+        })),
+      total: Number(rows[0].total),
+      limit,
+      offset
+    };
+  }
+
+  private buildLeadConditions(filters?: LeadFilters) {
+    const conditions: (SQL | undefined)[] = [filters?.trashed ? isNotNull(leads.deletedAt) : isNull(leads.deletedAt)];
 
+    if (filters?.pipelineId) {
+      conditions.push(eq(leads.pipelineId, filters.pipelineId));
+    }
+    if (filters?.accountId) {
+      conditions.push(eq(leads.accountId, filters.accountId));
+    }
     if (filters?.status) {
-      conditions.push(eq(leads.status, filters.status as any));
+      conditions.push(eq(leads.status, filters.status));
     }
     if (filters?.assignedTo) {
       conditions.push(eq(leads.assignedTo, filters.assignedTo));
     }
+    if (filters?.assignedEngineer) {
+      conditions.push(eq(leads.assignedEngineer, filters.assignedEngineer));
+    }
+    if (filters?.involving) {
+      conditions.push(or(eq(leads.assignedTo, filters.involving), eq(leads.assignedEngineer, filters.involving)));
+    }
     if (filters?.source) {
       conditions.push(eq(leads.source, filters.source));
     }
     if (filters?.priority) {
       conditions.push(eq(leads.priority, filters.priority as any));
     }
+    if (filters?.noContactDays) {
+      conditions.push(sql`coalesce(${leads.lastContactedAt}, ${leads.createdAt}) < now() - make_interval(days => ${filters.noContactDays})`);
+    }
+    if (filters?.followUp) {
+      conditions.push(followUpCondition(filters.followUp));
+    }
+    for (const filter of filters?.customFields ?? []) {
+      const value = sql`${leads.customFields}->>${filter.key}::text`;
+      if (filter.type === 'text' || filter.type === 'url') {
+        conditions.push(ilike(value, `%${filter.value}%`));
+      } else if (filter.type === 'multiselect') {
+        conditions.push(sql`${leads.customFields} @> ${JSON.stringify({ [filter.key]: [filter.value] })}::jsonb`);
+      } else {
+        conditions.push(sql`${value} = ${filter.value}`);
+      }
+    }
+    if (filters?.query) {
+      conditions.push(leadQueryCondition(filters.query));
+    }
     if (filters?.search) {
       conditions.push(
         or(
-          like(leads.name, `%${filters.search}%`),
-          like(leads.email, `%${filters.search}%`),
-          like(leads.company, `%${filters.search}%`)
+          ilike(leads.name, `%${filters.search}%`),
+          ilike(leads.email, `%${filters.search}%`),
+          ilike(leads.company, `%${filters.search}%`)
         )
       );
     }
 
-    let leadsResult;
-    if (conditions.length > 0) {
-      leadsResult = await db.select().from(leads).where(and(...conditions)).orderBy(desc(leads.createdAt));
-    } else {
-      leadsResult = await db.select().from(leads).orderBy(desc(leads.createdAt));
-    }
+    return and(...conditions)!;
+  }
 
-    // Fetch products for each lead
-    const leadsWithProducts = await Promise.all(
-      leadsResult.map(async (lead) => {
-        const leadProductsData = await db
-          .select({ product: products })
-          .from(leadProducts)
-          .innerJoin(products, eq(leadProducts.productId, products.id))
-          .where(eq(leadProducts.leadId, lead.id));
-        
-        const productsList = leadProductsData.map(item => item.product);
-        return { ...lead, products: productsList };
-      })
-    );
+  private buildLeadOrder(filters?: LeadFilters) {
+    const columns = getTableColumns(leads);
+    const sortColumn = filters?.sortBy && Object.hasOwn(columns, filters.sortBy)
+      ? columns[filters.sortBy as keyof typeof columns]
+      : leads.createdAt;
+    const direction = filters?.sortOrder === 'asc' ? asc : desc;
+
+    // Tie-break on id so offset pagination stays stable across pages
+    return [direction(sortColumn), direction(leads.id)];
+  }
+
+  // Load products for a batch of leads in a single joined query
+  private async attachLeadProducts(leadsResult: Lead[]): Promise<LeadWithProducts[]> {
+    if (leadsResult.length === 0) return [];
+
+    const leadProductsData = await db
+      .select({ leadId: leadProducts.leadId, product: products })
+      .from(leadProducts)
+      .innerJoin(products, eq(leadProducts.productId, products.id))
+      .where(inArray(leadProducts.leadId, leadsResult.map(lead => lead.id)))
+      .orderBy(asc(products.displayOrder), asc(products.name));
 
-    return leadsWithProducts;
+    const productsByLead = new Map<number, Product[]>();
+    for (const { leadId, product } of leadProductsData) {
+      const list = productsByLead.get(leadId) || [];
+      list.push(product);
+      productsByLead.set(leadId, list);
+    }
+
+    return leadsResult.map(lead => ({ ...lead, products: productsByLead.get(lead.id) || [] }));
   }
 
-  async createLead(insertLead: InsertLead, productIds?: number[]): Promise<Lead> {
+  async createLead(insertLead: InsertLead, productIds?: number[], context?: LeadChangeContext): Promise<Lead> {
     // Auto-assign engineer if not already assigned
+    let autoAssignedEngineer = false;
     if (!insertLead.assignedEngineer) {
       console.log('Auto-assigning engineer...');
       const engineers = await this.getAvailableEngineers();
@@ -338,7 +980,7 @@ export class DatabaseStorage implements IStorage {
           engineers.map(async (engineer) => {
             const [result] = await db.select({ count: sql<number>`count(*)` })
               .from(leads)
-              .where(eq(leads.assignedEngineer, engineer.id));
+              .where(and(eq(leads.assignedEngineer, engineer.id), isNull(leads.deletedAt)));
             return {
               engineerId: engineer.id,
               count: Number(result?.count) || 0
@@ -356,27 +998,74 @@ export class DatabaseStorage implements IStorage {
         
         if (availableEngineer) {
           insertLead.assignedEngineer = availableEngineer.engineerId;
+          autoAssignedEngineer = true;
           console.log('Assigned engineer ID:', insertLead.assignedEngineer);
         }
       }
     }
     
-    const [lead] = await db.insert(leads).values(insertLead).returning();
+    if (!insertLead.currency) {
+      insertLead.currency = (await this.getCurrencySettings()).baseCurrency;
+    }
+
+    // Leads join the account of their company or email domain unless one was chosen
+    if (insertLead.accountId === undefined) {
+      Object.assign(insertLead, await this.resolveLeadAccount(insertLead));
+    }
+
+    // Leads go into the pipeline of the first product that names one, else the default pipeline
+    if (!insertLead.pipelineId) {
+      insertLead.pipelineId = await this.resolveLeadPipelineId(productIds);
+    }
+
+    // New leads start in the first open stage unless told otherwise
+    const stages = await this.getPipelineStages(insertLead.pipelineId);
+    if (!insertLead.status) {
+      const firstOpen = stages.find(stage => stage.type === 'open');
+      if (firstOpen) insertLead.status = firstOpen.key;
+    }
+    const closeDetails = closeDetailsFor(stages.find(stage => stage.key === insertLead.status));
+
+    let [lead] = await db.insert(leads).values({ ...insertLead, ...closeDetails }).returning();
+    await this.recordStatusChange(lead.id, null, lead.status, context);
     
     // Add products if provided
     if (productIds && productIds.length > 0) {
       await this.addLeadProducts(lead.id, productIds);
     }
-    
+    if (lead.valueFromLineItems) {
+      lead = await this.syncLeadValue(lead);
+    }
+    await this.recordFieldChanges(lead.id, 'create', [...diffLeadFields(null, lead), ...diffProductIds([], productIds ?? [])], context);
+    if (autoAssignedEngineer && lead.assignedEngineer) {
+      await this.createNotifications([engineerAssignedNotification(lead, lead.assignedEngineer)]);
+    }
+
+    if (await this.refreshLeadScores([lead.id])) {
+      return (await this.getLead(lead.id))!;
+    }
     return lead;
   }
 
-  async updateLead(id: number, updateData: Partial<InsertLead>, productIds?: number[], skipAutoAssignment?: boolean): Promise<Lead | undefined> {
+  async resolveLeadPipelineId(productIds?: number[]): Promise<number> {
+    if (productIds && productIds.length > 0) {
+      const [product] = await db.select({ defaultPipelineId: products.defaultPipelineId })
+        .from(products)
+        .where(and(inArray(products.id, productIds), sql`${products.defaultPipelineId} IS NOT NULL`))
+        .orderBy(asc(products.displayOrder), asc(products.id))
+        .limit(1);
+      if (product?.defaultPipelineId) return product.defaultPipelineId;
+    }
+    return (await this.getDefaultPipeline()).id;
+  }
+
+  async updateLead(id: number, updateData: Partial<InsertLead>, productIds?: number[], skipAutoAssignment?: boolean, context?: LeadChangeContext): Promise<Lead | undefined> {
     // Get current lead data to check if engineer assignment is needed
-    const currentLead = await db.select().from(leads).where(eq(leads.id, id)).limit(1);
+    const currentLead = await db.select().from(leads).where(and(eq(leads.id, id), isNull(leads.deletedAt))).limit(1);
     if (!currentLead.length) return undefined;
     
     // Auto-assign engineer if not already assigned and not being explicitly set
+    let autoAssignedEngineer = false;
     if (!skipAutoAssignment && !currentLead[0].assignedEngineer && !updateData.assignedEngineer) {
       console.log('Auto-assigning engineer during update...');
       const engineers = await this.getAvailableEngineers();
@@ -388,7 +1077,7 @@ export class DatabaseStorage implements IStorage {
           engineers.map(async (engineer) => {
             const [result] = await db.select({ count: sql<number>`count(*)` })
               .from(leads)
-              .where(eq(leads.assignedEngineer, engineer.id));
+              .where(and(eq(leads.assignedEngineer, engineer.id), isNull(leads.deletedAt)));
             return {
               engineerId: engineer.id,
               count: Number(result?.count) || 0
@@ -406,222 +1095,1870 @@ export class DatabaseStorage implements IStorage {
         
         if (availableEngineer) {
           updateData.assignedEngineer = availableEngineer.engineerId;
+          autoAssignedEngineer = true;
           console.log('Assigned engineer ID during update:', updateData.assignedEngineer);
         }
       }
     }
     
-    const [lead] = await db.update(leads).set(updateData).where(eq(leads.id, id)).returning();
+    let closeDetails = {};
+    if (updateData.status !== undefined && updateData.status !== currentLead[0].status) {
+      const stages = await this.getPipelineStages(currentLead[0].pipelineId ?? undefined);
+      closeDetails = closeDetailsFor(stages.find(stage => stage.key === updateData.status));
+    }
+    
+    // Updates that only change the interested products leave the lead row as it is
+    const changes = { ...updateData, ...closeDetails };
+    // A value computed from line items can't be typed over
+    if (updateData.valueFromLineItems ?? currentLead[0].valueFromLineItems) {
+      delete changes.value;
+    }
+    let [lead] = Object.values(changes).some(value => value !== undefined)
+      ? await db.update(leads).set(changes).where(eq(leads.id, id)).returning()
+      : currentLead;
+    if (lead && lead.status !== currentLead[0].status) {
+      await this.recordStatusChange(id, currentLead[0].status, lead.status, context);
+    }
     
     // Update products if provided
+    let productDiffs: LeadFieldDiff[] = [];
     if (productIds !== undefined) {
+      const previous = await db.select({ productId: leadProducts.productId }).from(leadProducts).where(eq(leadProducts.leadId, id));
       await this.updateLeadProducts(id, productIds);
+      productDiffs = diffProductIds(previous.map(row => row.productId), productIds);
+    }
+    if (lead?.valueFromLineItems) {
+      lead = await this.syncLeadValue(lead);
+    }
+
+    if (lead) {
+      const diffs = [...diffLeadFields(currentLead[0], lead), ...productDiffs];
+      // The automatic engineer pick is logged apart from the change that triggered it
+      const autoAssigned = autoAssignedEngineer ? diffs.filter(diff => diff.field === 'assignedEngineer') : [];
+      const edited = diffs.filter(diff => !autoAssigned.includes(diff));
+      const action = edited.every(diff => ASSIGNMENT_FIELDS.includes(diff.field)) ? 'assign' : 'update';
+      await this.recordFieldChanges(id, action, edited, context);
+      await this.recordFieldChanges(id, 'assign', autoAssigned, { userId: null, source: 'automation' });
+      if (autoAssigned.length > 0 && lead.assignedEngineer) {
+        await this.createNotifications([engineerAssignedNotification(lead, lead.assignedEngineer)]);
+      }
+    }
+
+    if (lead && await this.refreshLeadScores([id])) {
+      return await this.getLead(id);
     }
-    
     return lead || undefined;
   }
 
-  async deleteLead(id: number): Promise<boolean> {
-    const result = await db.delete(leads).where(eq(leads.id, id));
+  // Moves the lead to the trash; its products, interactions, attachments and history stay with it
+  async deleteLead(id: number, context?: LeadChangeContext): Promise<boolean> {
+    const result = await db.update(leads)
+      .set({ deletedAt: new Date(), deletedById: context?.userId ?? null })
+      .where(and(eq(leads.id, id), isNull(leads.deletedAt)));
     return (result.rowCount || 0) > 0;
   }
 
-  async getLeadsByStatus(status: string): Promise<Lead[]> {
-    return await db.select().from(leads).where(eq(leads.status, status as any)).orderBy(desc(leads.createdAt));
+  async getTrashedLead(id: number): Promise<Lead | undefined> {
+    const [lead] = await db.select().from(leads).where(and(eq(leads.id, id), isNotNull(leads.deletedAt)));
+    return lead || undefined;
   }
 
-  async getLeadsByAssignee(userId: number): Promise<Lead[]> {
-    return await db.select().from(leads).where(
-      or(eq(leads.assignedTo, userId), eq(leads.assignedEngineer, userId))
-    ).orderBy(desc(leads.createdAt));
+  // Scores may have drifted while the lead was in the trash, so it is rescored on the way out
+  async restoreLead(id: number): Promise<Lead | undefined> {
+    const [lead] = await db.update(leads)
+      .set({ deletedAt: null, deletedById: null })
+      .where(and(eq(leads.id, id), isNotNull(leads.deletedAt)))
+      .returning();
+    if (lead && await this.refreshLeadScores([id])) {
+      return await this.getLead(id);
+    }
+    return lead || undefined;
   }
 
-  // Interactions
-  async getInteraction(id: number): Promise<Interaction | undefined> {
-    const [interaction] = await db.select().from(interactions).where(eq(interactions.id, id));
-    return interaction || undefined;
+  // Permanent: the lead's children go with it through the cascading foreign keys
+  async purgeLead(id: number): Promise<boolean> {
+    const result = await db.delete(leads).where(and(eq(leads.id, id), isNotNull(leads.deletedAt)));
+    return (result.rowCount || 0) > 0;
   }
 
-  async getInteractionsByLead(leadId: number): Promise<Interaction[]> {
-    return await db.select().from(interactions).where(eq(interactions.leadId, leadId)).orderBy(desc(interactions.createdAt));
+  async purgeTrashedLeads(deletedBefore: Date): Promise<Lead[]> {
+    return await db.delete(leads).where(lt(leads.deletedAt, deletedBefore)).returning();
   }
 
-  async getAllInteractions(): Promise<Interaction[]> {
-    return await db.select().from(interactions).orderBy(desc(interactions.createdAt));
+  async getLeadsByStatus(status: string): Promise<Lead[]> {
+    return await db.select().from(leads).where(and(eq(leads.status, status), isNull(leads.deletedAt))).orderBy(desc(leads.createdAt));
   }
 
-  async createInteraction(insertInteraction: InsertInteraction): Promise<Interaction> {
-    const [interaction] = await db.insert(interactions).values(insertInteraction).returning();
-    return interaction;
+  async getLeadsByAssignee(userId: number): Promise<Lead[]> {
+    return await db.select().from(leads).where(and(
+      or(eq(leads.assignedTo, userId), eq(leads.assignedEngineer, userId)),
+      isNull(leads.deletedAt)
+    )).orderBy(desc(leads.createdAt));
   }
 
-  async updateInteraction(id: number, updateData: Partial<InsertInteraction>): Promise<Interaction | undefined> {
-    const [interaction] = await db.update(interactions).set(updateData).where(eq(interactions.id, id)).returning();
-    return interaction || undefined;
+  // Follow-ups
+  // Oldest first, so the most overdue are at the top
+  async getDueFollowUps(filters?: LeadFilters): Promise<DueFollowUp[]> {
+    const rows = await db
+      .select({
+        id: leads.id,
+        name: leads.name,
+        company: leads.company,
+        status: leads.status,
+        pipelineId: leads.pipelineId,
+        priority: leads.priority,
+        assignedTo: leads.assignedTo,
+        followUpDate: leads.followUpDate,
+      })
+      .from(leads)
+      .where(this.buildLeadConditions({ ...filters, followUp: 'due' }))
+      .orderBy(asc(leads.followUpDate))
+      .limit(100);
+    const now = new Date();
+    return rows.map(row => ({ ...row, followUpDate: row.followUpDate!, state: followUpState(row.followUpDate, now)! }));
   }
 
-  async deleteInteraction(id: number): Promise<boolean> {
-    const result = await db.delete(interactions).where(eq(interactions.id, id));
-    return (result.rowCount || 0) > 0;
+  // Records a reminder for each live, open lead whose follow-up has come due or gone overdue since the last
+  // run, addressed to the lead's agent, and returns the new ones. A follow-up already overdue when first
+  // found only gets the overdue reminder.
+  async createFollowUpReminders(now = new Date()): Promise<{ reminder: FollowUpReminder; lead: Lead }[]> {
+    const results: { reminder: FollowUpReminder; lead: Lead }[] = [];
+
+    // Batched by id, since the first run can find every follow-up ever missed
+    for (let lastId = 0; ;) {
+      const dueLeads = await db.select().from(leads)
+        .where(and(isNull(leads.deletedAt), followUpCondition('due', now), gt(leads.id, lastId)))
+        .orderBy(asc(leads.id))
+        .limit(FOLLOW_UP_REMINDER_BATCH_SIZE);
+      if (dueLeads.length === 0) break;
+      lastId = dueLeads[dueLeads.length - 1].id;
+
+      const created = await db.insert(followUpReminders)
+        .values(dueLeads.map(lead => ({
+          leadId: lead.id,
+          followUpDate: lead.followUpDate!,
+          state: followUpState(lead.followUpDate, now)!,
+          userId: lead.assignedTo,
+        })))
+        .onConflictDoNothing()
+        .returning();
+      const leadsById = new Map(dueLeads.map(lead => [lead.id, lead]));
+      results.push(...created.map(reminder => ({ reminder, lead: leadsById.get(reminder.leadId)! })));
+    }
+    return results;
   }
 
-  // Webhooks
-  async getWebhook(id: number): Promise<Webhook | undefined> {
-    const [webhook] = await db.select().from(webhooks).where(eq(webhooks.id, id));
-    return webhook || undefined;
+  // Tasks
+  // Open tasks first, soonest due first; tasks on leads in the trash are hidden
+  async getTasks(filters: TaskFilters = {}): Promise<TaskWithDetails[]> {
+    const conditions: (SQL | undefined)[] = [or(isNull(tasks.leadId), isNull(leads.deletedAt))];
+    if (filters.assignedTo !== undefined) conditions.push(eq(tasks.assignedTo, filters.assignedTo));
+    if (filters.leadId !== undefined) conditions.push(eq(tasks.leadId, filters.leadId));
+    if (filters.completed !== undefined) {
+      conditions.push(filters.completed ? isNotNull(tasks.completedAt) : isNull(tasks.completedAt));
+    }
+    if (filters.visibleTo !== undefined) {
+      conditions.push(or(
+        eq(tasks.assignedTo, filters.visibleTo),
+        eq(tasks.createdById, filters.visibleTo),
+        eq(leads.assignedTo, filters.visibleTo),
+      ));
+    }
+    return await db
+      .select({ ...getTableColumns(tasks), leadName: leads.name, assigneeName: users.name })
+      .from(tasks)
+      .leftJoin(leads, eq(tasks.leadId, leads.id))
+      .leftJoin(users, eq(tasks.assignedTo, users.id))
+      .where(and(...conditions))
+      .orderBy(sql`${tasks.completedAt} IS NOT NULL`, sql`${tasks.dueAt} ASC NULLS LAST`, desc(tasks.createdAt));
   }
 
-  async getAllWebhooks(): Promise<Webhook[]> {
-    return await db.select().from(webhooks).orderBy(desc(webhooks.createdAt));
+  async getTask(id: number): Promise<Task | undefined> {
+    const [task] = await db.select().from(tasks).where(eq(tasks.id, id));
+    return task || undefined;
   }
 
-  async createWebhook(insertWebhook: InsertWebhook): Promise<Webhook> {
-    const [webhook] = await db.insert(webhooks).values(insertWebhook).returning();
-    return webhook;
+  async createTask(task: InsertTask, createdById?: number): Promise<Task> {
+    const [created] = await db.insert(tasks).values({ ...task, createdById }).returning();
+    return created;
   }
 
-  async updateWebhook(id: number, updateData: Partial<InsertWebhook>): Promise<Webhook | undefined> {
-    const [webhook] = await db.update(webhooks).set(updateData).where(eq(webhooks.id, id)).returning();
-    return webhook || undefined;
+  // completed: true stamps who completed the task and when; false reopens it
+  async updateTask(id: number, updates: TaskUpdate, userId?: number): Promise<Task | undefined> {
+    const { completed, ...fields } = updates;
+    const [task] = await db.update(tasks)
+      .set({
+        ...fields,
+        ...(completed === true && { completedAt: new Date(), completedById: userId ?? null }),
+        ...(completed === false && { completedAt: null, completedById: null }),
+        updatedAt: new Date(),
+      })
+      .where(eq(tasks.id, id))
+      .returning();
+    return task || undefined;
   }
 
-  async deleteWebhook(id: number): Promise<boolean> {
-    const result = await db.delete(webhooks).where(eq(webhooks.id, id));
+  async deleteTask(id: number): Promise<boolean> {
+    const result = await db.delete(tasks).where(eq(tasks.id, id));
     return (result.rowCount || 0) > 0;
   }
 
-  async getActiveWebhooks(): Promise<Webhook[]> {
-    return await db.select().from(webhooks).where(eq(webhooks.isActive, true));
+  // Calendar
+  async getCalendarFeed(userId: number): Promise<CalendarFeed | undefined> {
+    const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.userId, userId));
+    return feed || undefined;
   }
 
-  // Lead Attachments
-  async getLeadAttachment(id: number): Promise<LeadAttachment | undefined> {
-    const [attachment] = await db.select().from(leadAttachments).where(eq(leadAttachments.id, id));
-    return attachment || undefined;
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.token, token));
+    return feed || undefined;
   }
 
-  async getAttachmentsByLead(leadId: number): Promise<LeadAttachment[]> {
-    return await db.select().from(leadAttachments).where(eq(leadAttachments.leadId, leadId)).orderBy(desc(leadAttachments.createdAt));
+  // Replaces the user's token, so the old subscription URL stops working
+  async setCalendarFeedToken(userId: number, token: string): Promise<CalendarFeed> {
+    const [feed] = await db.insert(calendarFeeds)
+      .values({ userId, token })
+      .onConflictDoUpdate({ target: calendarFeeds.userId, set: { token, createdAt: new Date() } })
+      .returning();
+    return feed;
   }
 
-  async createLeadAttachment(insertAttachment: InsertLeadAttachment): Promise<LeadAttachment> {
-    const [attachment] = await db.insert(leadAttachments).values(insertAttachment).returning();
-    return attachment;
+  // Follow-ups and meetings come from the leads matching the filters; tasks are the user's own open
+  // ones with a due date, leaving out those on leads outside filters.assignedTo when it is set.
+  // Meetings before since are left out.
+  async getCalendarItems(userId: number, filters: LeadFilters, since: Date): Promise<CalendarItems> {
+    const leadConditions = this.buildLeadConditions(filters);
+    const [followUps, meetings, taskRows] = await Promise.all([
+      db.select().from(leads)
+        .where(and(leadConditions, isNotNull(leads.followUpDate)))
+        .orderBy(asc(leads.followUpDate)),
+      db.select({ interaction: interactions, lead: leads })
+        .from(interactions)
+        .innerJoin(leads, eq(interactions.leadId, leads.id))
+        .where(and(leadConditions, eq(interactions.type, 'meeting'), gte(interactions.scheduledAt, since)))
+        .orderBy(asc(interactions.scheduledAt)),
+      db.select({ ...getTableColumns(tasks), leadName: leads.name, assigneeName: users.name })
+        .from(tasks)
+        .leftJoin(leads, eq(tasks.leadId, leads.id))
+        .leftJoin(users, eq(tasks.assignedTo, users.id))
+        .where(and(
+          eq(tasks.assignedTo, userId),
+          isNull(tasks.completedAt),
+          isNotNull(tasks.dueAt),
+          or(
+            isNull(tasks.leadId),
+            and(isNull(leads.deletedAt), filters.assignedTo !== undefined ? eq(leads.assignedTo, filters.assignedTo) : undefined),
+          ),
+        ))
+        .orderBy(asc(tasks.dueAt)),
+    ]);
+    return { followUps, meetings, tasks: taskRows };
   }
 
-  async deleteLeadAttachment(id: number): Promise<{ success: boolean; fileSize?: number; uploadedById?: number }> {
-    // Get attachment info before deleting
-    const [attachment] = await db.select().from(leadAttachments).where(eq(leadAttachments.id, id));
-    if (!attachment) {
-      return { success: false };
-    }
-    
-    // Delete the attachment
-    const result = await db.delete(leadAttachments).where(eq(leadAttachments.id, id));
-    const success = (result.rowCount || 0) > 0;
-    
-    return {
-      success,
-      fileSize: success ? (attachment.fileSize || 0) : undefined,
-      uploadedById: success ? (attachment.uploadedById || 0) : undefined
-    };
+  // Notifications
+  // Newest first
+  async getNotifications(userId: number, limit = 50): Promise<Notification[]> {
+    return await db.select().from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(limit);
   }
 
-  // MCP Servers
-  async getMcpServer(id: number): Promise<McpServer | undefined> {
-    const [server] = await db.select().from(mcpServers).where(eq(mcpServers.id, id));
-    return server || undefined;
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    const [result] = await db.select({ count: sql<number>`count(*)` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return Number(result?.count) || 0;
   }
 
-  async getAllMcpServers(): Promise<McpServer[]> {
-    return await db.select().from(mcpServers).orderBy(desc(mcpServers.createdAt));
+  // Skips the notifications whose recipient has turned their event off
+  async createNotifications(items: InsertNotification[]): Promise<Notification[]> {
+    if (items.length === 0) return [];
+    const disabled = await db.select({ userId: notificationPreferences.userId, event: notificationPreferences.event })
+      .from(notificationPreferences)
+      .where(and(
+        inArray(notificationPreferences.userId, Array.from(new Set(items.map(item => item.userId)))),
+        eq(notificationPreferences.enabled, false),
+      ));
+    const wanted = items.filter(item => !disabled.some(pref => pref.userId === item.userId && pref.event === item.event));
+    if (wanted.length === 0) return [];
+    return await db.insert(notifications).values(wanted).returning();
   }
 
-  async createMcpServer(insertServer: InsertMcpServer): Promise<McpServer> {
-    const [server] = await db.insert(mcpServers).values(insertServer).returning();
-    return server;
+  // Only the recipient's own notifications can be marked
+  async setNotificationRead(id: number, userId: number, read: boolean): Promise<Notification | undefined> {
+    const [notification] = await db.update(notifications)
+      .set({ readAt: read ? new Date() : null })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return notification || undefined;
   }
 
-  async updateMcpServer(id: number, updateData: Partial<InsertMcpServer>): Promise<McpServer | undefined> {
-    const [server] = await db.update(mcpServers).set(updateData).where(eq(mcpServers.id, id)).returning();
-    return server || undefined;
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    const result = await db.update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return result.rowCount || 0;
   }
 
-  async deleteMcpServer(id: number): Promise<boolean> {
-    const result = await db.delete(mcpServers).where(eq(mcpServers.id, id));
-    return (result.rowCount || 0) > 0;
+  async getNotificationPreferences(userId: number): Promise<NotificationPreferences> {
+    const rows = await db.select().from(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+    const preferences = Object.fromEntries(NOTIFICATION_EVENTS.map(event => [event, true])) as NotificationPreferences;
+    for (const row of rows) {
+      preferences[row.event] = row.enabled;
+    }
+    return preferences;
   }
 
-  // Analytics
-  async getAnalytics(userId?: number): Promise<AnalyticsData> {
-    // Apply role-based filtering if userId is provided (for agents)
-    const baseFilter = userId ? eq(leads.assignedTo, userId) : undefined;
-
-    const totalLeadsQuery = await db.select({ count: sql<number>`count(*)` }).from(leads).where(baseFilter);
-    const totalLeads = totalLeadsQuery[0]?.count || 0;
+  async updateNotificationPreferences(userId: number, preferences: Partial<NotificationPreferences>): Promise<NotificationPreferences> {
+    for (const [event, enabled] of Object.entries(preferences) as [keyof NotificationPreferences, boolean][]) {
+      await db.insert(notificationPreferences)
+        .values({ userId, event, enabled })
+        .onConflictDoUpdate({ target: [notificationPreferences.userId, notificationPreferences.event], set: { enabled } });
+    }
+    return await this.getNotificationPreferences(userId);
+  }
 
-    const wonLeadsQuery = await db.select({ count: sql<number>`count(*)` }).from(leads).where(
-      userId ? sql`${eq(leads.assignedTo, userId)} AND ${eq(leads.status, 'won')}` : eq(leads.status, 'won')
-    );
-    const wonLeads = wonLeadsQuery[0]?.count || 0;
+  // Duplicates
+  async findDuplicateCandidates(fields: DuplicateFields, options?: DuplicateScope & { excludeId?: number }): Promise<DuplicateCandidate[]> {
+    // Narrow the table down in SQL with cheap matches, then score what is left precisely
+    const prefilters = [];
+    const email = normalizeEmail(fields.email);
+    if (email) {
+      const [local, domain] = email.split('@');
+      prefilters.push(ilike(leads.email, `${local}%@${domain}`));
+    }
+    const phone = normalizePhone(fields.phone);
+    if (phone) {
+      prefilters.push(sql`right(regexp_replace(${leads.phone}, '[^0-9]', '', 'g'), 10) = ${phone}`);
+    }
+    for (const token of normalizeName(fields.name)?.split(' ') || []) {
+      if (token.length >= 3) prefilters.push(ilike(leads.name, `%${token}%`));
+    }
+    if (prefilters.length === 0) return [];
 
-    const conversionRate = totalLeads > 0 ? (wonLeads / totalLeads) * 100 : 0;
+    const conditions = [or(...prefilters), this.buildLeadConditions({ assignedTo: options?.assignedTo })];
+    if (options?.excludeId) {
+      conditions.push(ne(leads.id, options.excludeId));
+    }
 
-    const pipelineValueQuery = await db.select({ 
-      sum: sql<number>`coalesce(sum(value), 0)` 
-    }).from(leads).where(
-      userId ? sql`${eq(leads.assignedTo, userId)} AND status NOT IN ('won', 'lost')` : sql`status NOT IN ('won', 'lost')`
-    );
-    const pipelineValue = pipelineValueQuery[0]?.sum || 0;
+    const possibleMatches = await db.select().from(leads)
+      .where(and(...conditions))
+      .orderBy(desc(leads.createdAt))
+      .limit(200);
 
-    const activeProjectsQuery = await db.select({ count: sql<number>`count(*)` }).from(leads).where(
-      userId ? sql`${eq(leads.assignedTo, userId)} AND ${eq(leads.status, 'won')}` : eq(leads.status, 'won')
-    );
-    const activeProjects = activeProjectsQuery[0]?.count || 0;
+    const candidates: DuplicateCandidate[] = [];
+    for (const lead of possibleMatches) {
+      const match = compareLeads(fields, lead);
+      if (match) candidates.push({ lead, ...match });
+    }
+    return candidates.sort((a, b) => b.score - a.score).slice(0, 10);
+  }
 
-    const leadsByStatusQuery = await db.select({
-      status: leads.status,
-      count: sql<number>`count(*)`
-    }).from(leads).where(baseFilter).groupBy(leads.status);
+  async getDuplicatePairs(options?: DuplicateScope & { limit?: number }): Promise<DuplicatePair[]> {
+    const [records, dismissals] = await Promise.all([
+      db.select({ id: leads.id, name: leads.name, email: leads.email, phone: leads.phone, company: leads.company })
+        .from(leads)
+        .where(this.buildLeadConditions({ assignedTo: options?.assignedTo })),
+      db.select({ leadId: leadDuplicateDismissals.leadId, otherLeadId: leadDuplicateDismissals.otherLeadId })
+        .from(leadDuplicateDismissals),
+    ]);
 
-    const leadsByStatus = leadsByStatusQuery.map(row => ({
-      status: row.status,
-      count: Number(row.count)
-    }));
+    const dismissed = new Set(dismissals.map(d => `${d.leadId}:${d.otherLeadId}`));
+    const pairs = findDuplicatePairs(records)
+      .map(({ a, b, match }) => ({ ids: a.id < b.id ? [a.id, b.id] : [b.id, a.id], match }))
+      .filter(({ ids }) => !dismissed.has(`${ids[0]}:${ids[1]}`))
+      .slice(0, options?.limit ?? 100);
+    if (pairs.length === 0) return [];
 
-    // Revenue by month (simplified - using won leads created date)
-    const revenueByMonthQuery = await db.select({
-      month: sql<string>`to_char(created_at, 'YYYY-MM')`,
-      revenue: sql<number>`coalesce(sum(value), 0)`
-    }).from(leads).where(
-      userId ? sql`${eq(leads.assignedTo, userId)} AND ${eq(leads.status, 'won')}` : eq(leads.status, 'won')
-    ).groupBy(sql`to_char(created_at, 'YYYY-MM')`).orderBy(sql`to_char(created_at, 'YYYY-MM')`);
+    const pairLeads = await this.attachLeadProducts(
+      await db.select().from(leads).where(inArray(leads.id, Array.from(new Set(pairs.flatMap(({ ids }) => ids)))))
+    );
+    const leadsById = new Map(pairLeads.map(lead => [lead.id, lead]));
 
-    const revenueByMonth = revenueByMonthQuery.map(row => ({
-      month: row.month,
-      revenue: Number(row.revenue)
+    // The older lead comes first as the suggested survivor
+    return pairs.map(({ ids, match }) => ({
+      leads: [leadsById.get(ids[0])!, leadsById.get(ids[1])!],
+      ...match,
     }));
+  }
 
-    return {
-      totalLeads,
-      conversionRate: Math.round(conversionRate * 100) / 100,
-      pipelineValue,
-      activeProjects,
-      leadsByStatus,
-      revenueByMonth
-    };
+  async dismissDuplicatePair(leadId: number, otherLeadId: number, userId: number): Promise<void> {
+    await db.insert(leadDuplicateDismissals).values({
+      leadId: Math.min(leadId, otherLeadId),
+      otherLeadId: Math.max(leadId, otherLeadId),
+      dismissedById: userId,
+    }).onConflictDoNothing();
+  }
+
+  async mergeLeads(survivorId: number, mergedId: number, selections: LeadMergeSelections, context?: LeadChangeContext): Promise<{ lead: Lead; mergedLead: Lead } | undefined> {
+    const result = await db.transaction(async (tx) => {
+      const [survivor] = await tx.select().from(leads).where(eq(leads.id, survivorId));
+      const [current] = await tx.select().from(leads).where(eq(leads.id, mergedId));
+      if (!survivor || !current) return undefined;
+
+      // Re-point the merged lead's records to the survivor before it goes to the trash
+      await tx.update(interactions).set({ leadId: survivorId }).where(eq(interactions.leadId, mergedId));
+      await tx.update(leadAttachments).set({ leadId: survivorId }).where(eq(leadAttachments.leadId, mergedId));
+      await tx.update(quotes).set({ leadId: survivorId }).where(eq(quotes.leadId, mergedId));
+      await tx.update(invoices).set({ leadId: survivorId }).where(eq(invoices.leadId, mergedId));
+      await tx.update(tasks).set({ leadId: survivorId }).where(eq(tasks.leadId, mergedId));
+
+      // Move interested products the survivor doesn't already have; the rest stay with the merged lead
+      await tx.update(leadProducts).set({ leadId: survivorId }).where(and(
+        eq(leadProducts.leadId, mergedId),
+        notInArray(
+          leadProducts.productId,
+          tx.select({ productId: leadProducts.productId }).from(leadProducts).where(eq(leadProducts.leadId, survivorId))
+        )
+      ));
+
+      // Trashed rather than deleted, so its own stage and field history survive. Its records now belong to
+      // the survivor, so restoring it from the trash brings back the bare lead, not the merge.
+      const [mergedLead] = await tx.update(leads)
+        .set({ deletedAt: new Date(), deletedById: context?.userId ?? null })
+        .where(eq(leads.id, mergedId))
+        .returning();
+      const [lead] = await tx.update(leads)
+        .set(resolveMergedLeadValues(survivor, current, selections))
+        .where(eq(leads.id, survivorId))
+        .returning();
+
+      if (lead.status !== survivor.status) {
+        await tx.insert(leadStatusHistory).values({
+          leadId: survivorId,
+          fromStatus: survivor.status,
+          toStatus: lead.status,
+          changedById: context?.userId ?? null,
+          source: context?.source ?? 'api',
+        });
+      }
+      await this.recordFieldChanges(survivorId, 'merge', diffLeadFields(survivor, lead), context, tx);
+
+      return { lead, mergedLead };
+    });
+
+    // A survivor valued from its line items is worth what the combined lines come to
+    if (result?.lead.valueFromLineItems) {
+      result.lead = await this.syncLeadValue(result.lead);
+    }
+    // The survivor gained interactions and products, so its score is recomputed
+    if (result && await this.refreshLeadScores([survivorId])) {
+      result.lead = (await this.getLead(survivorId)) ?? result.lead;
+    }
+    return result;
+  }
+
+  // Lead Field Changes
+  // Takes the open transaction when the lead write is part of one
+  private async recordFieldChanges(leadId: number, action: LeadChangeAction, diffs: LeadFieldDiff[], context?: LeadChangeContext, executor: Pick<typeof db, 'insert'> = db): Promise<LeadFieldChange[]> {
+    if (diffs.length === 0) return [];
+    const changedAt = new Date();
+    return await executor.insert(leadFieldChanges).values(diffs.map(diff => ({
+      leadId,
+      action,
+      field: diff.field,
+      oldValue: diff.oldValue,
+      newValue: diff.newValue,
+      changedById: context?.userId ?? null,
+      source: context?.source ?? 'api',
+      changedAt,
+    }))).returning();
+  }
+
+  // Newest first; rows from one write are kept in the order they were logged
+  async getLeadFieldChanges(leadId: number): Promise<LeadFieldChangeWithUser[]> {
+    const rows = await db
+      .select({ change: leadFieldChanges, changedByName: users.name })
+      .from(leadFieldChanges)
+      .leftJoin(users, eq(leadFieldChanges.changedById, users.id))
+      .where(eq(leadFieldChanges.leadId, leadId))
+      .orderBy(desc(leadFieldChanges.changedAt), asc(leadFieldChanges.id));
+
+    return rows.map(({ change, changedByName }) => ({ ...change, changedByName }));
+  }
+
+  // Lead Status History
+  private async recordStatusChange(leadId: number, fromStatus: string | null, toStatus: string, context?: LeadChangeContext): Promise<LeadStatusChange> {
+    const [change] = await db.insert(leadStatusHistory).values({
+      leadId,
+      fromStatus,
+      toStatus,
+      changedById: context?.userId ?? null,
+      source: context?.source ?? 'api',
+    }).returning();
+    return change;
+  }
+
+  async getLeadStatusHistory(leadId: number): Promise<LeadStatusChangeWithUser[]> {
+    const rows = await db
+      .select({ change: leadStatusHistory, changedByName: users.name })
+      .from(leadStatusHistory)
+      .leftJoin(users, eq(leadStatusHistory.changedById, users.id))
+      .where(eq(leadStatusHistory.leadId, leadId))
+      .orderBy(asc(leadStatusHistory.changedAt), asc(leadStatusHistory.id));
+
+    return rows.map(({ change, changedByName }) => ({ ...change, changedByName }));
+  }
+
+  // Only the lead filters apply; sorting and paging are ignored
+  async getStageAnalytics(filters?: LeadFilters, range?: DateRange): Promise<StageAnalytics> {
+    const leadFilter = this.buildLeadConditions(filters);
+    // Stays are cut out of each lead's full timeline first, so a range only decides which stays count
+    const rangeFilter = sql.join([
+      sql`true`,
+      ...(range?.from ? [sql`entered_at >= ${range.from}`] : []),
+      ...(range?.to ? [sql`entered_at < ${range.to}`] : []),
+    ], sql` AND `);
+
+    const stays = sql`
+      SELECT ${leadStatusHistory.toStatus} AS status, ${leadStatusHistory.changedAt} AS entered_at,
+        lead(${leadStatusHistory.changedAt}) OVER timeline AS exited_at,
+        lead(${leadStatusHistory.toStatus}) OVER timeline AS next_status
+      FROM ${leadStatusHistory} INNER JOIN ${leads} ON ${leads.id} = ${leadStatusHistory.leadId}
+      WHERE ${leadFilter}
+      WINDOW timeline AS (PARTITION BY ${leadStatusHistory.leadId} ORDER BY ${leadStatusHistory.changedAt}, ${leadStatusHistory.id})
+    `;
+
+    const [stageResult, transitionResult] = await Promise.all([
+      db.execute<{ status: string; entered: number; exited: number; current: number; avg_dwell_seconds: number | null }>(sql`
+        WITH stays AS (${stays})
+        SELECT status, count(*)::integer AS entered, count(exited_at)::integer AS exited,
+          (count(*) - count(exited_at))::integer AS current,
+          avg(extract(epoch FROM exited_at - entered_at))::double precision AS avg_dwell_seconds
+        FROM stays
+        WHERE ${rangeFilter}
+        GROUP BY status
+      `),
+      db.execute<{ from_status: string; to_status: string; count: number }>(sql`
+        WITH stays AS (${stays})
+        SELECT status AS from_status, next_status AS to_status, count(*)::integer AS count
+        FROM stays
+        WHERE next_status IS NOT NULL AND ${rangeFilter}
+        GROUP BY status, next_status
+      `),
+    ]);
+
+    const stageOrder = (await this.getPipelineStages(filters?.pipelineId)).map(stage => stage.key);
+    const stages = stageResult.rows.map(row => ({
+      status: row.status,
+      entered: Number(row.entered),
+      exited: Number(row.exited),
+      current: Number(row.current),
+      avgDwellDays: row.avg_dwell_seconds === null ? null : Math.round((Number(row.avg_dwell_seconds) / 86400) * 10) / 10,
+    })).sort((a, b) => stageRank(stageOrder, a.status) - stageRank(stageOrder, b.status));
+    const exitsByStatus = new Map(stages.map(stage => [stage.status, stage.exited]));
+
+    const transitions = transitionResult.rows
+      .map(row => ({
+        fromStatus: row.from_status,
+        toStatus: row.to_status,
+        count: Number(row.count),
+        rate: Math.round((Number(row.count) / (exitsByStatus.get(row.from_status) || 1)) * 1000) / 1000,
+      }))
+      .sort((a, b) => b.count - a.count);
+
+    return { stages, transitions };
+  }
+
+  // Pipelines
+  async getPipelines(): Promise<Pipeline[]> {
+    const rows = await db.select().from(pipelines).orderBy(asc(pipelines.displayOrder), asc(pipelines.id));
+    if (rows.length > 0) return rows;
+
+    // First run, or upgrading from a single pipeline: existing stages and leads join a default pipeline
+    await db.insert(pipelines).values({ name: DEFAULT_PIPELINE_NAME }).onConflictDoNothing();
+    const [pipeline] = await db.select().from(pipelines).where(eq(pipelines.name, DEFAULT_PIPELINE_NAME));
+    await db.update(pipelineStages).set({ pipelineId: pipeline.id }).where(isNull(pipelineStages.pipelineId));
+    await db.update(leads).set({ pipelineId: pipeline.id }).where(isNull(leads.pipelineId));
+    return [pipeline];
+  }
+
+  async getPipeline(id: number): Promise<Pipeline | undefined> {
+    const [pipeline] = await db.select().from(pipelines).where(eq(pipelines.id, id));
+    return pipeline || undefined;
+  }
+
+  async getDefaultPipeline(): Promise<Pipeline> {
+    const [pipeline] = await this.getPipelines();
+    return pipeline;
+  }
+
+  async createPipeline(insertPipeline: InsertPipeline): Promise<Pipeline> {
+    const existing = await this.getPipelines();
+    const displayOrder = insertPipeline.displayOrder ?? Math.max(-1, ...existing.map(p => p.displayOrder)) + 1;
+    const [pipeline] = await db.insert(pipelines).values({ ...insertPipeline, displayOrder }).returning();
+
+    // New pipelines start from the standard stages for admins to adapt
+    await db.insert(pipelineStages)
+      .values(DEFAULT_PIPELINE_STAGES.map((stage, index) => ({ ...stage, pipelineId: pipeline.id, displayOrder: index })));
+    return pipeline;
+  }
+
+  async updatePipeline(id: number, updateData: Partial<InsertPipeline>): Promise<Pipeline | undefined> {
+    const [pipeline] = await db.update(pipelines).set(updateData).where(eq(pipelines.id, id)).returning();
+    return pipeline || undefined;
+  }
+
+  async deletePipeline(id: number): Promise<boolean> {
+    // Stages cascade; products fall back to the default pipeline
+    const result = await db.delete(pipelines).where(eq(pipelines.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Trashed leads count too: they still reference the pipeline and return to their stage when restored
+  async countPipelineLeads(pipelineId?: number, status?: string): Promise<number> {
+    const [result] = await db.select({ count: sql<number>`count(*)` }).from(leads).where(and(
+      pipelineId !== undefined ? eq(leads.pipelineId, pipelineId) : undefined,
+      status !== undefined ? eq(leads.status, status) : undefined
+    ));
+    return Number(result?.count) || 0;
+  }
+
+  async moveLeadsToPipeline(leadIds: number[], pipelineId: number, stageMapping: Record<string, string>, context?: LeadChangeContext): Promise<Lead[]> {
+    const targetStages = await this.getPipelineStages(pipelineId);
+    const targetKeys = new Set(targetStages.map(stage => stage.key));
+    const firstOpen = targetStages.find(stage => stage.type === 'open') || targetStages[0];
+
+    return await db.transaction(async (tx) => {
+      const currentLeads = await tx.select().from(leads).where(and(inArray(leads.id, leadIds), isNull(leads.deletedAt)));
+      const moved: Lead[] = [];
+
+      for (const current of currentLeads) {
+        // Unmapped stages keep their key when the target pipeline has it, otherwise start over
+        const status = stageMapping[current.status] ?? (targetKeys.has(current.status) ? current.status : firstOpen.key);
+        const targetStage = targetStages.find(stage => stage.key === status);
+        // Leads that stay closed keep their close date and reason
+        const closeDetails = targetStage && targetStage.type !== 'open' && current.closedAt ? {} : closeDetailsFor(targetStage);
+        const [lead] = await tx.update(leads).set({ pipelineId, status, ...closeDetails }).where(eq(leads.id, current.id)).returning();
+        if (status !== current.status) {
+          await tx.insert(leadStatusHistory).values({
+            leadId: current.id,
+            fromStatus: current.status,
+            toStatus: status,
+            changedById: context?.userId ?? null,
+            source: context?.source ?? 'api',
+          });
+        }
+        await this.recordFieldChanges(current.id, 'update', diffLeadFields(current, lead), context, tx);
+        moved.push(lead);
+      }
+
+      return moved;
+    });
+  }
+
+  // Pipeline Stages
+  async getPipelineStages(pipelineId?: number): Promise<PipelineStage[]> {
+    const defaultPipeline = await this.getDefaultPipeline();
+    const query = () => db.select().from(pipelineStages)
+      .where(pipelineId ? eq(pipelineStages.pipelineId, pipelineId) : undefined)
+      .orderBy(asc(pipelineStages.pipelineId), asc(pipelineStages.displayOrder), asc(pipelineStages.id));
+
+    const stages = await query();
+    if (stages.length > 0 || (pipelineId && pipelineId !== defaultPipeline.id)) return stages;
+
+    // First run: seed the stages leads have always used
+    const [anyStage] = await db.select({ id: pipelineStages.id }).from(pipelineStages).limit(1);
+    if (anyStage) return stages;
+    await db.insert(pipelineStages)
+      .values(DEFAULT_PIPELINE_STAGES.map((stage, index) => ({ ...stage, pipelineId: defaultPipeline.id, displayOrder: index })))
+      .onConflictDoNothing();
+    return await query();
+  }
+
+  async getPipelineStage(id: number): Promise<PipelineStage | undefined> {
+    const [stage] = await db.select().from(pipelineStages).where(eq(pipelineStages.id, id));
+    return stage || undefined;
+  }
+
+  async createPipelineStage(insertStage: InsertPipelineStage): Promise<PipelineStage> {
+    const pipelineId = insertStage.pipelineId ?? (await this.getDefaultPipeline()).id;
+    const existing = await this.getPipelineStages(pipelineId);
+    const existingKeys = new Set(existing.map(stage => stage.key));
+
+    // The key is derived once from the name and never changes, so renames don't orphan leads
+    const baseKey = insertStage.name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'stage';
+    let key = baseKey;
+    for (let suffix = 2; existingKeys.has(key); suffix++) {
+      key = `${baseKey}_${suffix}`;
+    }
+
+    const displayOrder = insertStage.displayOrder ?? Math.max(-1, ...existing.map(stage => stage.displayOrder)) + 1;
+    const [stage] = await db.insert(pipelineStages).values({ ...insertStage, pipelineId, key, displayOrder }).returning();
+    return stage;
+  }
+
+  async updatePipelineStage(id: number, updateData: Partial<InsertPipelineStage>): Promise<PipelineStage | undefined> {
+    const [stage] = await db.update(pipelineStages).set(updateData).where(eq(pipelineStages.id, id)).returning();
+    return stage || undefined;
+  }
+
+  async deletePipelineStage(id: number, moveLeadsTo?: string, context?: LeadChangeContext): Promise<boolean> {
+    const stage = await this.getPipelineStage(id);
+    if (!stage) return false;
+    const targetStage = moveLeadsTo ? (await this.getPipelineStages(stage.pipelineId ?? undefined)).find(s => s.key === moveLeadsTo) : undefined;
+
+    return await db.transaction(async (tx) => {
+      if (moveLeadsTo) {
+        // Moved leads get a history row like any other stage change
+        await tx.execute(sql`
+          INSERT INTO ${leadStatusHistory} (lead_id, from_status, to_status, changed_by_id, source)
+          SELECT ${leads.id}, ${leads.status}, ${moveLeadsTo}, ${context?.userId ?? null}, ${context?.source ?? 'api'}
+          FROM ${leads} WHERE ${leads.status} = ${stage.key} AND ${leads.pipelineId} = ${stage.pipelineId}
+        `);
+        await tx.execute(sql`
+          INSERT INTO ${leadFieldChanges} (lead_id, action, field, old_value, new_value, changed_by_id, source)
+          SELECT ${leads.id}, 'update', 'status', to_jsonb(${leads.status}), to_jsonb(${moveLeadsTo}::text), ${context?.userId ?? null}, ${context?.source ?? 'api'}
+          FROM ${leads} WHERE ${leads.status} = ${stage.key} AND ${leads.pipelineId} = ${stage.pipelineId}
+        `);
+        await tx.update(leads).set({ status: moveLeadsTo, ...(targetStage?.type === 'open' && closeDetailsFor(targetStage)) })
+          .where(and(eq(leads.status, stage.key), eq(leads.pipelineId, stage.pipelineId!)));
+      }
+
+      const result = await tx.delete(pipelineStages).where(eq(pipelineStages.id, id));
+      return (result.rowCount || 0) > 0;
+    });
+  }
+
+  async reorderPipelineStages(stageIds: number[]): Promise<boolean> {
+    try {
+      for (let i = 0; i < stageIds.length; i++) {
+        await db.update(pipelineStages).set({ displayOrder: i }).where(eq(pipelineStages.id, stageIds[i]));
+      }
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Close Reasons
+  async getCloseReasons(): Promise<CloseReason[]> {
+    const query = () => db.select().from(closeReasons).orderBy(asc(closeReasons.type), asc(closeReasons.displayOrder), asc(closeReasons.id));
+
+    const reasons = await query();
+    if (reasons.length > 0) return reasons;
+
+    // First run: seed common reasons so leads can be closed straight away
+    await db.insert(closeReasons)
+      .values(DEFAULT_CLOSE_REASONS.map((reason, index) => ({ ...reason, displayOrder: index })))
+      .onConflictDoNothing();
+    return await query();
+  }
+
+  async getCloseReason(id: number): Promise<CloseReason | undefined> {
+    const [reason] = await db.select().from(closeReasons).where(eq(closeReasons.id, id));
+    return reason || undefined;
+  }
+
+  async createCloseReason(insertReason: InsertCloseReason): Promise<CloseReason> {
+    const existing = (await this.getCloseReasons()).filter(reason => reason.type === insertReason.type);
+    const displayOrder = insertReason.displayOrder ?? Math.max(-1, ...existing.map(reason => reason.displayOrder)) + 1;
+    const [reason] = await db.insert(closeReasons).values({ ...insertReason, displayOrder }).returning();
+    return reason;
+  }
+
+  async updateCloseReason(id: number, updateData: Partial<InsertCloseReason>): Promise<CloseReason | undefined> {
+    const [reason] = await db.update(closeReasons).set(updateData).where(eq(closeReasons.id, id)).returning();
+    return reason || undefined;
+  }
+
+  async deleteCloseReason(id: number): Promise<boolean> {
+    const result = await db.delete(closeReasons).where(eq(closeReasons.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async reorderCloseReasons(reasonIds: number[]): Promise<boolean> {
+    try {
+      for (let i = 0; i < reasonIds.length; i++) {
+        await db.update(closeReasons).set({ displayOrder: i }).where(eq(closeReasons.id, reasonIds[i]));
+      }
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async countLeadsWithCloseReason(id: number): Promise<number> {
+    const [result] = await db.select({ count: sql<number>`count(*)` }).from(leads).where(eq(leads.closeReasonId, id));
+    return Number(result?.count) || 0;
+  }
+
+  // Custom Fields
+  async getCustomFields(): Promise<CustomField[]> {
+    return await db.select().from(customFields).orderBy(asc(customFields.displayOrder), asc(customFields.id));
+  }
+
+  async getCustomField(id: number): Promise<CustomField | undefined> {
+    const [field] = await db.select().from(customFields).where(eq(customFields.id, id));
+    return field || undefined;
+  }
+
+  async createCustomField(insertField: InsertCustomField): Promise<CustomField> {
+    const existing = await this.getCustomFields();
+    const existingKeys = new Set(existing.map(field => field.key));
+
+    // Like stage keys, the key is derived once from the label so relabelling keeps lead values
+    const baseKey = insertField.label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'field';
+    let key = baseKey;
+    for (let suffix = 2; existingKeys.has(key); suffix++) {
+      key = `${baseKey}_${suffix}`;
+    }
+
+    const displayOrder = insertField.displayOrder ?? Math.max(-1, ...existing.map(field => field.displayOrder)) + 1;
+    const [field] = await db.insert(customFields).values({ ...insertField, key, displayOrder }).returning();
+    return field;
+  }
+
+  async updateCustomField(id: number, updateData: Partial<InsertCustomField>): Promise<CustomField | undefined> {
+    const [field] = await db.update(customFields).set(updateData).where(eq(customFields.id, id)).returning();
+    return field || undefined;
+  }
+
+  async deleteCustomField(id: number): Promise<boolean> {
+    const field = await this.getCustomField(id);
+    if (!field) return false;
+
+    return await db.transaction(async (tx) => {
+      // Drop the field's values so they don't resurface if a field with the same label is added later
+      await tx.update(leads)
+        .set({ customFields: sql`${leads.customFields} - ${field.key}::text` })
+        .where(sql`${leads.customFields} ? ${field.key}`);
+      const result = await tx.delete(customFields).where(eq(customFields.id, id));
+      return (result.rowCount || 0) > 0;
+    });
+  }
+
+  async reorderCustomFields(fieldIds: number[]): Promise<boolean> {
+    try {
+      for (let i = 0; i < fieldIds.length; i++) {
+        await db.update(customFields).set({ displayOrder: i }).where(eq(customFields.id, fieldIds[i]));
+      }
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Lead Scoring
+  async getScoringRules(): Promise<ScoringRule[]> {
+    return await db.select().from(scoringRules).orderBy(asc(scoringRules.id));
+  }
+
+  async getScoringRule(id: number): Promise<ScoringRule | undefined> {
+    const [rule] = await db.select().from(scoringRules).where(eq(scoringRules.id, id));
+    return rule || undefined;
+  }
+
+  async createScoringRule(insertRule: InsertScoringRule): Promise<ScoringRule> {
+    const [rule] = await db.insert(scoringRules).values(insertRule).returning();
+    return rule;
+  }
+
+  async updateScoringRule(id: number, updateData: Partial<InsertScoringRule>): Promise<ScoringRule | undefined> {
+    const [rule] = await db.update(scoringRules).set(updateData).where(eq(scoringRules.id, id)).returning();
+    return rule || undefined;
+  }
+
+  async deleteScoringRule(id: number): Promise<boolean> {
+    const result = await db.delete(scoringRules).where(eq(scoringRules.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Recomputes scores from the active rules for the given leads, or every lead, and returns how many
+  // changed. Without active rules, scores set by hand or by import are left alone.
+  async refreshLeadScores(leadIds?: number[]): Promise<number> {
+    if (leadIds && leadIds.length === 0) return 0;
+    const scope = and(isNull(leads.deletedAt), leadIds ? inArray(leads.id, leadIds) : undefined);
+    const rules = (await this.getScoringRules()).filter(rule => rule.isActive);
+
+    if (rules.length === 0) {
+      await db.update(leads).set({ scoreBreakdown: null }).where(and(scope, isNotNull(leads.scoreBreakdown)));
+      return 0;
+    }
+
+    const lookbackDays = interactionLookbackDays(rules);
+    const since = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000);
+    let changed = 0;
+
+    // Batched by id so refreshing every lead never loads the whole table at once
+    for (let lastId = 0; ;) {
+      const batch = await db.select().from(leads)
+        .where(and(scope, gt(leads.id, lastId)))
+        .orderBy(asc(leads.id))
+        .limit(SCORE_REFRESH_BATCH_SIZE);
+      if (batch.length === 0) break;
+      lastId = batch[batch.length - 1].id;
+
+      const ids = batch.map(lead => lead.id);
+      const [productRows, interactionRows] = await Promise.all([
+        db.select({ leadId: leadProducts.leadId, productId: leadProducts.productId })
+          .from(leadProducts)
+          .where(inArray(leadProducts.leadId, ids)),
+        lookbackDays > 0
+          ? db.select({ leadId: interactions.leadId, type: interactions.type, createdAt: interactions.createdAt })
+            .from(interactions)
+            .where(and(inArray(interactions.leadId, ids), gte(interactions.createdAt, since)))
+          : Promise.resolve([]),
+      ]);
+
+      for (const lead of batch) {
+        const result = scoreLead(rules, {
+          lead,
+          productIds: productRows.filter(row => row.leadId === lead.id).map(row => row.productId),
+          interactions: interactionRows.filter(row => row.leadId === lead.id),
+        });
+        if (!isSameScore(result, lead.score, lead.scoreBreakdown)) {
+          await db.update(leads).set({ score: result.score, scoreBreakdown: result.breakdown }).where(eq(leads.id, lead.id));
+          changed++;
+        }
+      }
+    }
+
+    return changed;
+  }
+
+  // Saved Views
+  // A user sees their own views and those shared with their role; admins see every shared view
+  async getSavedViewsForUser(user: Pick<User, 'id' | 'role'>): Promise<SavedViewWithState[]> {
+    const visible = user.role === 'admin'
+      ? or(eq(savedViews.createdById, user.id), isNotNull(savedViews.sharedWithRole))
+      : or(eq(savedViews.createdById, user.id), eq(savedViews.sharedWithRole, user.role));
+
+    const rows = await db
+      .select({ view: savedViews, pinId: savedViewPins.id, createdByName: users.name })
+      .from(savedViews)
+      .leftJoin(savedViewPins, and(eq(savedViewPins.viewId, savedViews.id), eq(savedViewPins.userId, user.id)))
+      .leftJoin(users, eq(savedViews.createdById, users.id))
+      .where(visible)
+      .orderBy(desc(savedViews.isDefault), asc(savedViews.name), asc(savedViews.id));
+
+    return rows.map(row => ({ ...row.view, isPinned: row.pinId !== null, createdByName: row.createdByName }));
+  }
+
+  async getSavedView(id: number): Promise<SavedView | undefined> {
+    const [view] = await db.select().from(savedViews).where(eq(savedViews.id, id));
+    return view || undefined;
+  }
+
+  async createSavedView(insertView: InsertSavedView, createdById: number): Promise<SavedView> {
+    const [view] = await db.insert(savedViews).values({ ...insertView, createdById }).returning();
+    return view;
+  }
+
+  async updateSavedView(id: number, updateData: Partial<InsertSavedView>): Promise<SavedView | undefined> {
+    const [view] = await db.update(savedViews).set(updateData).where(eq(savedViews.id, id)).returning();
+    return view || undefined;
+  }
+
+  async deleteSavedView(id: number): Promise<boolean> {
+    const result = await db.delete(savedViews).where(eq(savedViews.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async setSavedViewPinned(viewId: number, userId: number, pinned: boolean): Promise<void> {
+    if (pinned) {
+      await db.insert(savedViewPins).values({ viewId, userId }).onConflictDoNothing();
+    } else {
+      await db.delete(savedViewPins).where(and(eq(savedViewPins.viewId, viewId), eq(savedViewPins.userId, userId)));
+    }
+  }
+
+  // Tags
+  // How many live leads and products use each tag name, keyed by tagKey
+  private async getTagUsage(): Promise<Map<string, UnregisteredTag>> {
+    const result = await db.execute<{ name: string; lead_count: number; product_count: number }>(sql`
+      SELECT min(name) AS name, sum(lead_count)::int AS lead_count, sum(product_count)::int AS product_count
+      FROM (
+        SELECT unnest(${leads.tags}) AS name, 1 AS lead_count, 0 AS product_count FROM ${leads} WHERE ${leads.deletedAt} IS NULL
+        UNION ALL
+        SELECT unnest(${products.tags}), 0, 1 FROM ${products}
+      ) usage
+      GROUP BY lower(name)
+    `);
+    return new Map(result.rows.map(row => [
+      tagKey(row.name),
+      { name: row.name, leadCount: Number(row.lead_count), productCount: Number(row.product_count) },
+    ]));
+  }
+
+  async getTags(): Promise<TagWithUsage[]> {
+    const [registry, usage] = await Promise.all([
+      db.select().from(tags).orderBy(asc(sql`lower(${tags.name})`)),
+      this.getTagUsage(),
+    ]);
+    return registry.map(tag => ({
+      ...tag,
+      leadCount: usage.get(tagKey(tag.name))?.leadCount ?? 0,
+      productCount: usage.get(tagKey(tag.name))?.productCount ?? 0,
+    }));
+  }
+
+  // Free-form tags from before the registry, or typed while tag creation was open, that were never registered
+  async getUnregisteredTags(): Promise<UnregisteredTag[]> {
+    const [registry, usage] = await Promise.all([db.select().from(tags), this.getTagUsage()]);
+    const registered = new Set(registry.map(tag => tagKey(tag.name)));
+    return Array.from(usage.entries())
+      .filter(([key]) => !registered.has(key))
+      .map(([, tag]) => tag)
+      .sort((a, b) => (b.leadCount + b.productCount) - (a.leadCount + a.productCount) || a.name.localeCompare(b.name));
+  }
+
+  async getTag(id: number): Promise<Tag | undefined> {
+    const [tag] = await db.select().from(tags).where(eq(tags.id, id));
+    return tag || undefined;
+  }
+
+  async getTagByName(name: string): Promise<Tag | undefined> {
+    const [tag] = await db.select().from(tags).where(sql`lower(${tags.name}) = ${tagKey(name)}`);
+    return tag || undefined;
+  }
+
+  async createTag(insertTag: InsertTag): Promise<Tag> {
+    const [tag] = await db.insert(tags).values(insertTag).returning();
+    return tag;
+  }
+
+  // Adds tags typed on a lead or product to the registry with the default colour
+  async registerTags(names: string[]): Promise<void> {
+    if (names.length === 0) return;
+    await db.insert(tags).values(names.map(name => ({ name }))).onConflictDoNothing();
+  }
+
+  // Renaming rewrites the tag on every lead and product that uses it
+  async updateTag(id: number, updateData: Partial<InsertTag>, context?: LeadChangeContext): Promise<Tag | undefined> {
+    const current = await this.getTag(id);
+    if (!current) return undefined;
+
+    return await db.transaction(async (tx) => {
+      const [tag] = await tx.update(tags).set(updateData).where(eq(tags.id, id)).returning();
+      if (updateData.name !== undefined && updateData.name !== current.name) {
+        await this.rewriteTagNames(tx, [current.name], tag.name, context);
+      }
+      return tag;
+    });
+  }
+
+  // The source names need not be registered, so stray spellings can be folded into a managed tag
+  async mergeTags(sourceNames: string[], targetId: number, context?: LeadChangeContext): Promise<Tag | undefined> {
+    const target = await this.getTag(targetId);
+    if (!target) return undefined;
+    const sources = sourceNames.filter(name => tagKey(name) !== tagKey(target.name));
+
+    await db.transaction(async (tx) => {
+      await this.rewriteTagNames(tx, sources, target.name, context);
+      if (sources.length > 0) {
+        await tx.delete(tags).where(and(
+          ne(tags.id, targetId),
+          sql`lower(${tags.name}) IN (${sql.join(sources.map(name => sql`${tagKey(name)}`), sql`, `)})`
+        ));
+      }
+    });
+    return target;
+  }
+
+  // Removes the tag from the registry and from every lead and product
+  async deleteTag(id: number, context?: LeadChangeContext): Promise<boolean> {
+    const tag = await this.getTag(id);
+    if (!tag) return false;
+
+    return await db.transaction(async (tx) => {
+      await this.rewriteTagNames(tx, [tag.name], null, context);
+      const result = await tx.delete(tags).where(eq(tags.id, id));
+      return (result.rowCount || 0) > 0;
+    });
+  }
+
+  // Trashed leads are rewritten too, so they come back with current tags if restored
+  private async rewriteTagNames(tx: Pick<typeof db, 'select' | 'update' | 'insert'>, fromNames: string[], to: string | null, context?: LeadChangeContext): Promise<void> {
+    if (fromNames.length === 0) return;
+    const keys = sql.join(fromNames.map(name => sql`${tagKey(name)}`), sql`, `);
+
+    const affectedLeads = await tx.select().from(leads)
+      .where(sql`EXISTS (SELECT 1 FROM unnest(${leads.tags}) AS tag(name) WHERE lower(tag.name) IN (${keys}))`);
+    for (const current of affectedLeads) {
+      const [lead] = await tx.update(leads)
+        .set({ tags: replaceTagNames(current.tags ?? [], fromNames, to) })
+        .where(eq(leads.id, current.id))
+        .returning();
+      await this.recordFieldChanges(current.id, 'update', diffLeadFields(current, lead), context, tx);
+    }
+
+    const affectedProducts = await tx.select().from(products)
+      .where(sql`EXISTS (SELECT 1 FROM unnest(${products.tags}) AS tag(name) WHERE lower(tag.name) IN (${keys}))`);
+    for (const product of affectedProducts) {
+      await tx.update(products)
+        .set({ tags: replaceTagNames(product.tags ?? [], fromNames, to) })
+        .where(eq(products.id, product.id));
+    }
+  }
+
+  async getTagSettings(): Promise<TagSettings> {
+    const [setting] = await db.select().from(appSettings).where(eq(appSettings.key, 'tags'));
+    const parsed = tagSettingsSchema.safeParse(setting?.value);
+    return parsed.success ? parsed.data : DEFAULT_TAG_SETTINGS;
+  }
+
+  async updateTagSettings(settings: TagSettings): Promise<TagSettings> {
+    await db.insert(appSettings)
+      .values({ key: 'tags', value: settings })
+      .onConflictDoUpdate({ target: appSettings.key, set: { value: settings, updatedAt: new Date() } });
+    return settings;
+  }
+
+  // Currency
+  async getCurrencySettings(): Promise<CurrencySettings> {
+    const [setting] = await db.select().from(appSettings).where(eq(appSettings.key, 'currency'));
+    const parsed = currencySettingsSchema.safeParse(setting?.value);
+    return parsed.success ? parsed.data : DEFAULT_CURRENCY_SETTINGS;
+  }
+
+  // The base currency needs no rate to itself
+  async updateCurrencySettings(settings: CurrencySettings): Promise<CurrencySettings> {
+    const { [settings.baseCurrency]: _base, ...rates } = settings.rates;
+    const value = { ...settings, rates };
+    await db.insert(appSettings)
+      .values({ key: 'currency', value })
+      .onConflictDoUpdate({ target: appSettings.key, set: { value, updatedAt: new Date() } });
+    return value;
+  }
+
+  // Accounts
+  // Owner name, contact count and deal totals in the base currency, over the account's live leads in scope
+  private accountStatsColumns(settings: CurrencySettings, scope?: AccountScope) {
+    const accountLeads = and(
+      eq(leads.accountId, accounts.id),
+      isNull(leads.deletedAt),
+      scope?.assignedTo ? eq(leads.assignedTo, scope.assignedTo) : undefined,
+    );
+    return {
+      ownerName: users.name,
+      contactCount: sql<number>`(select count(*) from ${contacts} where ${contacts.accountId} = ${accounts.id})`.mapWith(Number),
+      leadCount: sql<number>`(select count(*) from ${leads} where ${accountLeads})`.mapWith(Number),
+      openValue: sql<number>`(select coalesce(sum(${valueInBaseCurrency(settings)}), 0) from ${leads} where ${and(accountLeads, inStageOfType('open'))})`.mapWith(Number),
+      wonValue: sql<number>`(select coalesce(sum(${valueInBaseCurrency(settings)}), 0) from ${leads} where ${and(accountLeads, inStageOfType('won'))})`.mapWith(Number),
+    };
+  }
+
+  async getAccounts(scope?: AccountScope): Promise<AccountWithStats[]> {
+    const rows = await db
+      .select({ account: accounts, ...this.accountStatsColumns(await this.getCurrencySettings(), scope) })
+      .from(accounts)
+      .leftJoin(users, eq(accounts.ownerId, users.id))
+      .where(scope?.search ? or(ilike(accounts.name, `%${scope.search}%`), ilike(accounts.domain, `%${scope.search}%`)) : undefined)
+      .orderBy(asc(sql`lower(${accounts.name})`), asc(accounts.id));
+
+    return rows.map(({ account, ...stats }) => ({ ...account, ...stats }));
+  }
+
+  async getAccount(id: number): Promise<Account | undefined> {
+    const [account] = await db.select().from(accounts).where(eq(accounts.id, id));
+    return account || undefined;
+  }
+
+  // The account with its contacts, deals and the latest interactions on them
+  async getAccountDetail(id: number, scope?: AccountScope): Promise<AccountDetail | undefined> {
+    const [row] = await db
+      .select({ account: accounts, ...this.accountStatsColumns(await this.getCurrencySettings(), scope) })
+      .from(accounts)
+      .leftJoin(users, eq(accounts.ownerId, users.id))
+      .where(eq(accounts.id, id));
+    if (!row) return undefined;
+
+    const [accountContacts, accountLeads, interactionRows] = await Promise.all([
+      this.getContacts(id),
+      this.getAllLeads({ accountId: id, assignedTo: scope?.assignedTo, sortBy: 'createdAt', sortOrder: 'desc' }),
+      db.select({ interaction: interactions, leadName: leads.name, userName: users.name })
+        .from(interactions)
+        .innerJoin(leads, eq(interactions.leadId, leads.id))
+        .leftJoin(users, eq(interactions.userId, users.id))
+        .where(and(
+          eq(leads.accountId, id),
+          isNull(leads.deletedAt),
+          scope?.assignedTo ? eq(leads.assignedTo, scope.assignedTo) : undefined,
+        ))
+        .orderBy(desc(interactions.createdAt))
+        .limit(ACCOUNT_INTERACTION_LIMIT),
+    ]);
+
+    const { account, ...stats } = row;
+    return {
+      ...account,
+      ...stats,
+      contacts: accountContacts,
+      leads: accountLeads,
+      interactions: interactionRows.map(({ interaction, leadName, userName }): AccountInteraction => ({ ...interaction, leadName, userName })),
+    };
+  }
+
+  async createAccount(insertAccount: InsertAccount): Promise<Account> {
+    const [account] = await db.insert(accounts).values(insertAccount).returning();
+    return account;
+  }
+
+  async updateAccount(id: number, updateData: Partial<InsertAccount>): Promise<Account | undefined> {
+    const [account] = await db.update(accounts).set(updateData).where(eq(accounts.id, id)).returning();
+    return account || undefined;
+  }
+
+  // Contacts go with the account; its leads stay, without an account
+  async deleteAccount(id: number): Promise<boolean> {
+    const result = await db.delete(accounts).where(eq(accounts.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // The account a lead belongs to, created from its company or email domain when none matches, and
+  // the account's contact for the lead's person, added when missing. `accountList` is the cached
+  // list of accounts to match against, kept up to date with any account created here.
+  private async resolveLeadAccount(lead: AccountFields, accountList?: Account[]): Promise<{ accountId: number | null; primaryContactId: number | null }> {
+    let account = matchAccount(lead, accountList ?? await db.select().from(accounts));
+    if (!account) {
+      const fields = accountFromLead(lead);
+      if (!fields) return { accountId: null, primaryContactId: null };
+      account = await this.createAccount(fields);
+      accountList?.push(account);
+    } else if (!account.domain && companyDomain(lead.email)) {
+      // Accounts made from a company name learn their domain from the first lead with a company email
+      const [updated] = await db.update(accounts).set({ domain: companyDomain(lead.email) }).where(eq(accounts.id, account.id)).returning();
+      accountList?.splice(accountList.indexOf(account), 1, updated);
+      account = updated;
+    }
+
+    const contact = matchContact(lead, await this.getContacts(account.id))
+      ?? await this.createContact(account.id, { name: lead.name, email: lead.email ?? null, phone: lead.phone ?? null });
+    return { accountId: account.id, primaryContactId: contact.id };
+  }
+
+  // Groups leads from before accounts existed into accounts by company and email domain, once per
+  // database. Leads that were linked since, or deliberately left without an account, are not touched.
+  async linkLeadsToAccounts(): Promise<number> {
+    const [done] = await db.select().from(appSettings).where(eq(appSettings.key, ACCOUNTS_BACKFILL_SETTING));
+    if (done) return 0;
+
+    const accountList = await db.select().from(accounts);
+    const unlinked = await db.select().from(leads).where(isNull(leads.accountId)).orderBy(asc(leads.createdAt), asc(leads.id));
+    let linked = 0;
+    for (const lead of unlinked) {
+      const link = await this.resolveLeadAccount(lead, accountList);
+      if (!link.accountId) continue;
+      await db.update(leads).set(link).where(eq(leads.id, lead.id));
+      linked++;
+    }
+
+    await db.insert(appSettings)
+      .values({ key: ACCOUNTS_BACKFILL_SETTING, value: { linkedLeads: linked, completedAt: new Date().toISOString() } })
+      .onConflictDoNothing();
+    return linked;
+  }
+
+  // Contacts
+  async getContacts(accountId: number): Promise<Contact[]> {
+    return await db.select().from(contacts).where(eq(contacts.accountId, accountId)).orderBy(asc(contacts.name), asc(contacts.id));
+  }
+
+  async getContact(id: number): Promise<Contact | undefined> {
+    const [contact] = await db.select().from(contacts).where(eq(contacts.id, id));
+    return contact || undefined;
+  }
+
+  async createContact(accountId: number, insertContact: InsertContact): Promise<Contact> {
+    const [contact] = await db.insert(contacts).values({ ...insertContact, accountId }).returning();
+    return contact;
+  }
+
+  async updateContact(id: number, updateData: Partial<InsertContact>): Promise<Contact | undefined> {
+    const [contact] = await db.update(contacts).set(updateData).where(eq(contacts.id, id)).returning();
+    return contact || undefined;
+  }
+
+  // Leads with this as their primary contact keep their account
+  async deleteContact(id: number): Promise<boolean> {
+    const result = await db.delete(contacts).where(eq(contacts.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Interactions
+  async getInteraction(id: number): Promise<Interaction | undefined> {
+    const [interaction] = await db.select().from(interactions).where(eq(interactions.id, id));
+    return interaction || undefined;
+  }
+
+  async getInteractionsByLead(leadId: number): Promise<Interaction[]> {
+    return await db.select().from(interactions).where(eq(interactions.leadId, leadId)).orderBy(desc(interactions.createdAt));
+  }
+
+  async getAllInteractions(): Promise<Interaction[]> {
+    const rows = await db.select({ interaction: interactions })
+      .from(interactions)
+      .innerJoin(leads, eq(interactions.leadId, leads.id))
+      .where(isNull(leads.deletedAt))
+      .orderBy(desc(interactions.createdAt));
+    return rows.map(row => row.interaction);
+  }
+
+  // Interaction rules count recent interactions, so each change rescores the lead
+  async createInteraction(insertInteraction: InsertInteraction): Promise<Interaction> {
+    const [interaction] = await db.insert(interactions).values(insertInteraction).returning();
+    await this.refreshLeadScores([interaction.leadId]);
+    return interaction;
+  }
+
+  async updateInteraction(id: number, updateData: Partial<InsertInteraction>): Promise<Interaction | undefined> {
+    const [interaction] = await db.update(interactions).set(updateData).where(eq(interactions.id, id)).returning();
+    if (interaction) await this.refreshLeadScores([interaction.leadId]);
+    return interaction || undefined;
+  }
+
+  async deleteInteraction(id: number): Promise<boolean> {
+    const [deleted] = await db.delete(interactions).where(eq(interactions.id, id)).returning({ leadId: interactions.leadId });
+    if (deleted) await this.refreshLeadScores([deleted.leadId]);
+    return !!deleted;
+  }
+
+  // Webhooks
+  async getWebhook(id: number): Promise<Webhook | undefined> {
+    const [webhook] = await db.select().from(webhooks).where(eq(webhooks.id, id));
+    return webhook || undefined;
+  }
+
+  async getAllWebhooks(): Promise<Webhook[]> {
+    return await db.select().from(webhooks).orderBy(desc(webhooks.createdAt));
+  }
+
+  async createWebhook(insertWebhook: InsertWebhook): Promise<Webhook> {
+    const [webhook] = await db.insert(webhooks).values(insertWebhook).returning();
+    return webhook;
+  }
+
+  async updateWebhook(id: number, updateData: Partial<InsertWebhook>): Promise<Webhook | undefined> {
+    const [webhook] = await db.update(webhooks).set(updateData).where(eq(webhooks.id, id)).returning();
+    return webhook || undefined;
+  }
+
+  async deleteWebhook(id: number): Promise<boolean> {
+    const result = await db.delete(webhooks).where(eq(webhooks.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getActiveWebhooks(): Promise<Webhook[]> {
+    return await db.select().from(webhooks).where(eq(webhooks.isActive, true));
+  }
+
+  // Lead Attachments
+  async getLeadAttachment(id: number): Promise<LeadAttachment | undefined> {
+    const [attachment] = await db.select().from(leadAttachments).where(eq(leadAttachments.id, id));
+    return attachment || undefined;
+  }
+
+  async getAttachmentsByLead(leadId: number): Promise<LeadAttachment[]> {
+    return await db.select().from(leadAttachments).where(eq(leadAttachments.leadId, leadId)).orderBy(desc(leadAttachments.createdAt));
+  }
+
+  async createLeadAttachment(insertAttachment: InsertLeadAttachment): Promise<LeadAttachment> {
+    const [attachment] = await db.insert(leadAttachments).values(insertAttachment).returning();
+    return attachment;
+  }
+
+  async deleteLeadAttachment(id: number): Promise<{ success: boolean; fileSize?: number; uploadedById?: number }> {
+    // Get attachment info before deleting
+    const [attachment] = await db.select().from(leadAttachments).where(eq(leadAttachments.id, id));
+    if (!attachment) {
+      return { success: false };
+    }
+    
+    // Delete the attachment
+    const result = await db.delete(leadAttachments).where(eq(leadAttachments.id, id));
+    const success = (result.rowCount || 0) > 0;
+    
+    return {
+      success,
+      fileSize: success ? (attachment.fileSize || 0) : undefined,
+      uploadedById: success ? (attachment.uploadedById || 0) : undefined
+    };
+  }
+
+  // Quotes
+  async getQuoteTemplates(): Promise<QuoteTemplate[]> {
+    const query = () => db.select().from(quoteTemplates).orderBy(desc(quoteTemplates.isDefault), asc(quoteTemplates.name));
+    const templates = await query();
+    if (templates.length > 0) return templates;
+
+    // First run: seed a standard template so quotes can be generated straight away
+    await db.insert(quoteTemplates).values({ ...DEFAULT_QUOTE_TEMPLATE, isDefault: true });
+    return await query();
+  }
+
+  async getQuoteTemplate(id: number): Promise<QuoteTemplate | undefined> {
+    const [template] = await db.select().from(quoteTemplates).where(eq(quoteTemplates.id, id));
+    return template || undefined;
+  }
+
+  // Making a template the default takes the flag from the previous default
+  async createQuoteTemplate(insertTemplate: InsertQuoteTemplate): Promise<QuoteTemplate> {
+    return await db.transaction(async (tx) => {
+      if (insertTemplate.isDefault) {
+        await tx.update(quoteTemplates).set({ isDefault: false }).where(eq(quoteTemplates.isDefault, true));
+      }
+      const [template] = await tx.insert(quoteTemplates).values(insertTemplate).returning();
+      return template;
+    });
+  }
+
+  async updateQuoteTemplate(id: number, updateData: Partial<InsertQuoteTemplate>): Promise<QuoteTemplate | undefined> {
+    return await db.transaction(async (tx) => {
+      if (updateData.isDefault) {
+        await tx.update(quoteTemplates).set({ isDefault: false }).where(and(eq(quoteTemplates.isDefault, true), ne(quoteTemplates.id, id)));
+      }
+      const [template] = await tx.update(quoteTemplates)
+        .set({ ...updateData, updatedAt: new Date() })
+        .where(eq(quoteTemplates.id, id))
+        .returning();
+      return template || undefined;
+    });
+  }
+
+  // Quotes made from the template keep their rendered document; deleting the default passes the
+  // flag to the oldest remaining template
+  async deleteQuoteTemplate(id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(quoteTemplates).where(eq(quoteTemplates.id, id)).returning();
+      if (!deleted) return false;
+      if (deleted.isDefault) {
+        const [next] = await tx.select({ id: quoteTemplates.id }).from(quoteTemplates).orderBy(asc(quoteTemplates.createdAt)).limit(1);
+        if (next) await tx.update(quoteTemplates).set({ isDefault: true }).where(eq(quoteTemplates.id, next.id));
+      }
+      return true;
+    });
+  }
+
+  async getQuote(id: number): Promise<Quote | undefined> {
+    const [quote] = await db.select().from(quotes).where(eq(quotes.id, id));
+    return quote || undefined;
+  }
+
+  // Newest quote first, with each quote's versions newest first
+  async getQuotesByLead(leadId: number): Promise<QuoteWithDetails[]> {
+    return await db
+      .select({
+        ...getTableColumns(quotes),
+        createdByName: users.name,
+        fileName: leadAttachments.fileName,
+      })
+      .from(quotes)
+      .leftJoin(users, eq(quotes.createdById, users.id))
+      .leftJoin(leadAttachments, eq(quotes.attachmentId, leadAttachments.id))
+      .where(eq(quotes.leadId, leadId))
+      .orderBy(desc(quotes.number), desc(quotes.version));
+  }
+
+  // A new quote takes the next number; a revision the next version of its quote's number. Numbers
+  // are handed out under a lock held until the quote is saved, so quotes created at the same time
+  // can't be given the same one. Nothing is saved if render throws.
+  async createQuote(number: number | undefined, render: (version: QuoteVersion) => Promise<QuoteDraft>): Promise<Quote> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('quote_numbers'))`);
+      let next: QuoteVersion;
+      if (number === undefined) {
+        const [{ last }] = await tx.select({ last: sql<number>`coalesce(max(${quotes.number}), 0)`.mapWith(Number) }).from(quotes);
+        next = { number: last + 1, version: 1 };
+      } else {
+        const [{ last }] = await tx
+          .select({ last: sql<number>`coalesce(max(${quotes.version}), 0)`.mapWith(Number) })
+          .from(quotes)
+          .where(eq(quotes.number, number));
+        next = { number, version: last + 1 };
+      }
+
+      const draft = await render(next);
+      const [attachment] = await tx.insert(leadAttachments).values(draft.attachment).returning();
+      const [quote] = await tx.insert(quotes).values({ ...draft.quote, ...next, attachmentId: attachment.id }).returning();
+      return quote;
+    });
+  }
+
+  async updateQuoteStatus(id: number, status: QuoteStatus): Promise<Quote | undefined> {
+    const [quote] = await db.update(quotes)
+      .set({ status, statusChangedAt: new Date() })
+      .where(eq(quotes.id, id))
+      .returning();
+    return quote || undefined;
+  }
+
+  // Invoices
+  async getInvoiceSettings(): Promise<InvoiceSettings> {
+    const [setting] = await db.select().from(appSettings).where(eq(appSettings.key, 'invoices'));
+    const parsed = invoiceSettingsSchema.safeParse(setting?.value);
+    return parsed.success ? parsed.data : DEFAULT_INVOICE_SETTINGS;
+  }
+
+  async updateInvoiceSettings(settings: InvoiceSettings): Promise<InvoiceSettings> {
+    await db.insert(appSettings)
+      .values({ key: 'invoices', value: settings })
+      .onConflictDoUpdate({ target: appSettings.key, set: { value: settings, updatedAt: new Date() } });
+    return settings;
+  }
+
+  // Newest first
+  async getInvoices(filters: InvoiceFilters = {}): Promise<Invoice[]> {
+    const conditions: SQL[] = [];
+    if (filters.status) conditions.push(eq(invoices.status, filters.status));
+    if (filters.leadId !== undefined) conditions.push(eq(invoices.leadId, filters.leadId));
+    if (filters.assignedTo !== undefined) {
+      conditions.push(inArray(invoices.leadId, db.select({ id: leads.id }).from(leads).where(eq(leads.assignedTo, filters.assignedTo))));
+    }
+    return await db.select().from(invoices)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(invoices.number));
+  }
+
+  async getInvoice(id: number): Promise<InvoiceDetail | undefined> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id));
+    if (!invoice) return undefined;
+
+    const [lines, payments] = await Promise.all([
+      db.select().from(invoiceLines).where(eq(invoiceLines.invoiceId, id)).orderBy(asc(invoiceLines.displayOrder)),
+      db.select({ ...getTableColumns(invoicePayments), recordedByName: users.name })
+        .from(invoicePayments)
+        .leftJoin(users, eq(invoicePayments.recordedById, users.id))
+        .where(eq(invoicePayments.invoiceId, id))
+        .orderBy(asc(invoicePayments.paidAt), asc(invoicePayments.id)),
+    ]);
+    return { ...invoice, lines, payments };
+  }
+
+  private async replaceInvoiceLines(tx: Pick<typeof db, 'delete' | 'insert'>, invoiceId: number, lines: InvoiceLineInput[]): Promise<void> {
+    await tx.delete(invoiceLines).where(eq(invoiceLines.invoiceId, invoiceId));
+    await tx.insert(invoiceLines).values(lines.map((line, index) => ({
+      invoiceId,
+      productId: line.productId ?? null,
+      description: line.description,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      discount: line.discount,
+      amount: invoiceLineAmount(line),
+      displayOrder: index,
+    })));
+  }
+
+  // New invoices start as drafts, numbered after the highest number used so far and never below
+  // the configured starting number
+  async createInvoice(insertInvoice: InsertInvoice, lines: InvoiceLineInput[]): Promise<InvoiceDetail> {
+    const settings = await this.getInvoiceSettings();
+    // Numbers are handed out under a lock held until the invoice is saved, as for quotes
+    const id = await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('invoice_numbers'))`);
+      const [{ last }] = await tx.select({ last: sql<number>`coalesce(max(${invoices.number}), 0)`.mapWith(Number) }).from(invoices);
+      const number = Math.max(last + 1, settings.startingNumber);
+      const taxRate = insertInvoice.taxRate ?? settings.defaultTaxRate;
+      const [invoice] = await tx.insert(invoices).values({
+        ...insertInvoice,
+        taxRate,
+        number,
+        reference: invoiceReference(settings.prefix, number),
+        ...invoiceTotals(lines, taxRate),
+      }).returning();
+      await this.replaceInvoiceLines(tx, invoice.id, lines);
+      return invoice.id;
+    });
+    return (await this.getInvoice(id))!;
+  }
+
+  // Totals follow the lines and tax rate
+  async updateInvoice(id: number, update: InvoiceUpdate): Promise<InvoiceDetail | undefined> {
+    const { lines, ...fields } = update;
+    const updated = await db.transaction(async (tx) => {
+      const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, id));
+      if (!invoice) return false;
+      if (lines) await this.replaceInvoiceLines(tx, id, lines);
+      const currentLines = lines ?? await tx.select().from(invoiceLines).where(eq(invoiceLines.invoiceId, id));
+      await tx.update(invoices)
+        .set({ ...fields, ...invoiceTotals(currentLines, fields.taxRate ?? invoice.taxRate), updatedAt: new Date() })
+        .where(eq(invoices.id, id));
+      return true;
+    });
+    return updated ? await this.getInvoice(id) : undefined;
+  }
+
+  // Without a due date, payment is due the configured number of days after issue
+  async issueInvoice(id: number, dueDate?: Date): Promise<InvoiceDetail | undefined> {
+    const issuedAt = new Date();
+    if (!dueDate) {
+      const { paymentTermsDays } = await this.getInvoiceSettings();
+      dueDate = new Date(issuedAt.getTime() + paymentTermsDays * 24 * 60 * 60 * 1000);
+    }
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id));
+    if (!invoice) return undefined;
+
+    // An invoice for nothing is settled as soon as it is issued
+    const status = issuedInvoiceStatus({ ...invoice, dueDate }, issuedAt);
+    await db.update(invoices)
+      .set({ status, issuedAt, dueDate, paidAt: status === 'paid' ? issuedAt : null, updatedAt: issuedAt })
+      .where(eq(invoices.id, id));
+    return await this.getInvoice(id);
+  }
+
+  async deleteInvoice(id: number): Promise<boolean> {
+    const result = await db.delete(invoices).where(eq(invoices.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getInvoicePayment(id: number): Promise<InvoicePayment | undefined> {
+    const [payment] = await db.select().from(invoicePayments).where(eq(invoicePayments.id, id));
+    return payment || undefined;
+  }
+
+  // Recounts what has been paid and moves the invoice between issued, overdue and paid. A paid
+  // invoice is dated by the payment that settled it.
+  private async refreshInvoicePayments(tx: Pick<typeof db, 'select' | 'update'>, invoiceId: number): Promise<void> {
+    const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, invoiceId));
+    if (!invoice) return;
+    const [{ amountPaid, lastPaidAt }] = await tx
+      .select({
+        amountPaid: sql<number>`coalesce(sum(${invoicePayments.amount}), 0)`.mapWith(Number),
+        lastPaidAt: sql<Date | null>`max(${invoicePayments.paidAt})`.mapWith(invoicePayments.paidAt),
+      })
+      .from(invoicePayments)
+      .where(eq(invoicePayments.invoiceId, invoiceId));
+    const status = issuedInvoiceStatus({ ...invoice, amountPaid });
+    await tx.update(invoices)
+      .set({ amountPaid, status, paidAt: status === 'paid' ? lastPaidAt : null, updatedAt: new Date() })
+      .where(eq(invoices.id, invoiceId));
+  }
+
+  // The invoice row stays locked from the balance check until the payment is counted, so payments
+  // recorded at the same time can't overpay it between them
+  async addInvoicePayment(invoiceId: number, payment: InvoicePaymentInput, recordedById?: number): Promise<InvoiceDetail | { error: string } | undefined> {
+    const added = await db.transaction(async (tx) => {
+      const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, invoiceId)).for('update');
+      if (!invoice) return false;
+      if (invoice.status === 'draft') {
+        return { error: 'Issue the invoice before recording payments' };
+      }
+      if (payment.amount > invoiceBalance(invoice)) {
+        return { error: 'The payment is more than the balance due' };
+      }
+      await tx.insert(invoicePayments).values({
+        invoiceId,
+        amount: payment.amount,
+        paidAt: payment.paidAt ?? new Date(),
+        method: payment.method || null,
+        reference: payment.reference || null,
+        recordedById,
+      });
+      await this.refreshInvoicePayments(tx, invoiceId);
+      return true;
+    });
+    if (added !== true) return added || undefined;
+    return await this.getInvoice(invoiceId);
+  }
+
+  // Returns the invoice the payment was taken off
+  async deleteInvoicePayment(id: number): Promise<InvoiceDetail | undefined> {
+    const invoiceId = await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(invoicePayments).where(eq(invoicePayments.id, id)).returning();
+      if (!deleted) return undefined;
+      await this.refreshInvoicePayments(tx, deleted.invoiceId);
+      return deleted.invoiceId;
+    });
+    return invoiceId === undefined ? undefined : await this.getInvoice(invoiceId);
+  }
+
+  // Issued invoices past their due date with money still owed; returns the ones that just became overdue
+  async markOverdueInvoices(now = new Date()): Promise<Invoice[]> {
+    return await db.update(invoices)
+      .set({ status: 'overdue', updatedAt: now })
+      .where(and(eq(invoices.status, 'issued'), lt(invoices.dueDate, now), lt(invoices.amountPaid, invoices.total)))
+      .returning();
+  }
+
+  // MCP Servers
+  async getMcpServer(id: number): Promise<McpServer | undefined> {
+    const [server] = await db.select().from(mcpServers).where(eq(mcpServers.id, id));
+    return server || undefined;
+  }
+
+  async getAllMcpServers(): Promise<McpServer[]> {
+    return await db.select().from(mcpServers).orderBy(desc(mcpServers.createdAt));
+  }
+
+  async createMcpServer(insertServer: InsertMcpServer): Promise<McpServer> {
+    const [server] = await db.insert(mcpServers).values(insertServer).returning();
+    return server;
+  }
+
+  async updateMcpServer(id: number, updateData: Partial<InsertMcpServer>): Promise<McpServer | undefined> {
+    const [server] = await db.update(mcpServers).set(updateData).where(eq(mcpServers.id, id)).returning();
+    return server || undefined;
+  }
+
+  async deleteMcpServer(id: number): Promise<boolean> {
+    const result = await db.delete(mcpServers).where(eq(mcpServers.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Analytics
+  // Covers the leads matching the same filters as the lead list; sorting and paging are ignored
+  async getAnalytics(filters?: LeadFilters, range?: DateRange): Promise<AnalyticsData> {
+    const baseFilter = this.buildLeadConditions(filters);
+    const currency = await this.getCurrencySettings();
+    const convertedValue = valueInBaseCurrency(currency);
+
+    const totalLeadsQuery = await db.select({ count: sql<number>`count(*)` }).from(leads).where(baseFilter);
+    const totalLeads = totalLeadsQuery[0]?.count || 0;
+
+    const wonFilter = and(baseFilter, inStageOfType('won'));
+    const openFilter = and(baseFilter, inStageOfType('open'));
+
+    const wonLeadsQuery = await db.select({ count: sql<number>`count(*)` }).from(leads).where(wonFilter);
+    const wonLeads = wonLeadsQuery[0]?.count || 0;
+
+    const conversionRate = totalLeads > 0 ? (wonLeads / totalLeads) * 100 : 0;
+
+    const pipelineValueByStageQuery = await db.select({
+      pipelineId: leads.pipelineId,
+      status: leads.status,
+      sum: sql<number>`coalesce(sum(${convertedValue}), 0)`
+    }).from(leads).where(openFilter).groupBy(leads.pipelineId, leads.status);
+
+    const stages = await this.getPipelineStages();
+    const probabilityByStage = new Map(stages.map(stage => [`${stage.pipelineId}:${stage.key}`, stage.winProbability]));
+    let pipelineValue = 0;
+    let weightedPipelineValue = 0;
+    for (const row of pipelineValueByStageQuery) {
+      const value = Number(row.sum);
+      pipelineValue += value;
+      weightedPipelineValue += value * (probabilityByStage.get(`${row.pipelineId}:${row.status}`) || 0) / 100;
+    }
+
+    const activeProjectsQuery = await db.select({ count: sql<number>`count(*)` }).from(leads).where(wonFilter);
+    const activeProjects = activeProjectsQuery[0]?.count || 0;
+
+    const [{ overdueFollowUps }] = await db
+      .select({ overdueFollowUps: sql<number>`count(*)`.mapWith(Number) })
+      .from(leads)
+      .where(and(baseFilter, followUpCondition('overdue')));
+
+    const leadsByStatusQuery = await db.select({
+      status: leads.status,
+      count: sql<number>`count(*)`
+    }).from(leads).where(baseFilter).groupBy(leads.status);
+
+    const leadsByStatus = leadsByStatusQuery.map(row => ({
+      status: row.status,
+      count: Number(row.count)
+    }));
+
+    // Revenue by month (simplified - using won leads created date)
+    const revenueByMonthQuery = await db.select({
+      month: sql<string>`to_char(created_at, 'YYYY-MM')`,
+      revenue: sql<number>`coalesce(sum(${convertedValue}), 0)`
+    }).from(leads).where(wonFilter).groupBy(sql`to_char(created_at, 'YYYY-MM')`).orderBy(sql`to_char(created_at, 'YYYY-MM')`);
+
+    const revenueByMonth = revenueByMonthQuery.map(row => ({
+      month: row.month,
+      revenue: Number(row.revenue)
+    }));
+
+    const lossReasons = await this.getLossReasonAnalytics(and(baseFilter, inStageOfType('lost')), currency, range);
+
+    const currenciesQuery = await db.selectDistinct({ currency: leads.currency }).from(leads).where(baseFilter);
+    const unconvertedCurrencies = currenciesQuery
+      .map(row => row.currency)
+      .filter(code => code !== currency.baseCurrency && !currency.rates[code])
+      .sort();
+
+    return {
+      currency: currency.baseCurrency,
+      unconvertedCurrencies,
+      totalLeads,
+      conversionRate: Math.round(conversionRate * 100) / 100,
+      pipelineValue,
+      weightedPipelineValue: Math.round(weightedPipelineValue * 100) / 100,
+      activeProjects,
+      overdueFollowUps,
+      leadsByStatus,
+      revenueByMonth,
+      lossReasons
+    };
+  }
+
+  private async getLossReasonAnalytics(lostFilter: SQL | undefined, currency: CurrencySettings, range?: DateRange): Promise<LossReasonAnalytics> {
+    // Leads lost before close dates were recorded count from when they were created
+    const closedAt = sql`coalesce(${leads.closedAt}, ${leads.createdAt})`;
+    const lostLeads = await db.select({
+      id: leads.id,
+      value: sql<number>`${valueInBaseCurrency(currency)}`.mapWith(Number),
+      source: leads.source,
+      competitor: leads.closeCompetitor,
+      reasonId: leads.closeReasonId,
+      reason: closeReasons.label,
+      agentId: leads.assignedTo,
+      agent: users.name,
+    })
+      .from(leads)
+      .leftJoin(closeReasons, eq(leads.closeReasonId, closeReasons.id))
+      .leftJoin(users, eq(leads.assignedTo, users.id))
+      .where(and(
+        lostFilter,
+        range?.from ? sql`${closedAt} >= ${range.from}` : undefined,
+        range?.to ? sql`${closedAt} < ${range.to}` : undefined
+      ));
+
+    const lostProducts = lostLeads.length === 0 ? [] : await db
+      .select({ leadId: leadProducts.leadId, productId: products.id, product: products.name })
+      .from(leadProducts)
+      .innerJoin(products, eq(leadProducts.productId, products.id))
+      .where(inArray(leadProducts.leadId, lostLeads.map(lead => lead.id)));
+    const leadsById = new Map(lostLeads.map(lead => [lead.id, lead]));
+
+    // Competitors are typed in by hand, so they are grouped case-insensitively under the first spelling seen
+    const competitors = new Map<string, { competitor: string; count: number; value: number }>();
+    for (const lead of lostLeads) {
+      const competitor = lead.competitor?.trim();
+      if (!competitor) continue;
+      const entry = competitors.get(competitor.toLowerCase()) ?? { competitor, count: 0, value: 0 };
+      entry.count += 1;
+      entry.value += lead.value ?? 0;
+      competitors.set(competitor.toLowerCase(), entry);
+    }
+
+    return {
+      total: lostLeads.length,
+      value: lostLeads.reduce((sum, lead) => sum + (lead.value ?? 0), 0),
+      byReason: tallyLosses(lostLeads.map(lead => ({ ...lead, key: {} }))),
+      byProduct: tallyLosses(lostProducts.map(({ leadId, productId, product }) => ({
+        ...leadsById.get(leadId)!,
+        key: { productId, product },
+      }))),
+      bySource: tallyLosses(lostLeads.map(lead => ({ ...lead, key: { source: lead.source } }))),
+      byAgent: tallyLosses(lostLeads.map(lead => ({ ...lead, key: { agentId: lead.agentId, agent: lead.agent } }))),
+      byCompetitor: Array.from(competitors.values()).sort((a, b) => b.count - a.count || b.value - a.value),
+    };
   }
 
   // Database Management
   async exportDatabase(): Promise<DatabaseExport> {
-    const [usersData, productsData, leadsData, interactionsData, webhooksData, attachmentsData, mcpServersData] = await Promise.all([
+    const [usersData, productsData, leadsData, interactionsData, webhooksData, attachmentsData, mcpServersData, statusHistoryData, fieldChangesData, stagesData, pipelinesData, customFieldsData, scoringRulesData, closeReasonsData, savedViewsData, savedViewPinsData, tagsData, appSettingsData, accountsData, contactsData] = await Promise.all([
       db.select().from(users),
       db.select().from(products),
       db.select().from(leads),
       db.select().from(interactions),
       db.select().from(webhooks),
       db.select().from(leadAttachments),
-      db.select().from(mcpServers)
+      db.select().from(mcpServers),
+      db.select().from(leadStatusHistory),
+      db.select().from(leadFieldChanges),
+      db.select().from(pipelineStages),
+      db.select().from(pipelines),
+      db.select().from(customFields),
+      db.select().from(scoringRules),
+      db.select().from(closeReasons),
+      db.select().from(savedViews),
+      db.select().from(savedViewPins),
+      db.select().from(tags),
+      db.select().from(appSettings),
+      db.select().from(accounts),
+      db.select().from(contacts)
     ]);
 
     return {
@@ -635,7 +2972,31 @@ export class DatabaseStorage implements IStorage {
         webhooks: webhooksData,
         leadAttachments: attachmentsData,
         leadProducts: await db.select().from(leadProducts),
-        mcpServers: mcpServersData
+        mcpServers: mcpServersData,
+        pipelines: pipelinesData,
+        pipelineStages: stagesData,
+        leadStatusHistory: statusHistoryData,
+        leadFieldChanges: fieldChangesData,
+        customFields: customFieldsData,
+        scoringRules: scoringRulesData,
+        closeReasons: closeReasonsData,
+        savedViews: savedViewsData,
+        savedViewPins: savedViewPinsData,
+        tags: tagsData,
+        appSettings: appSettingsData,
+        accounts: accountsData,
+        contacts: contactsData,
+        leadDuplicateDismissals: await db.select().from(leadDuplicateDismissals),
+        quoteTemplates: await db.select().from(quoteTemplates),
+        quotes: await db.select().from(quotes),
+        invoices: await db.select().from(invoices),
+        invoiceLines: await db.select().from(invoiceLines),
+        invoicePayments: await db.select().from(invoicePayments),
+        tasks: await db.select().from(tasks),
+        followUpReminders: await db.select().from(followUpReminders),
+        calendarFeeds: await db.select().from(calendarFeeds),
+        notifications: await db.select().from(notifications),
+        notificationPreferences: await db.select().from(notificationPreferences)
       }
     };
   }
@@ -649,6 +3010,11 @@ export class DatabaseStorage implements IStorage {
       const userIdMap = new Map<number, number>();
       const leadIdMap = new Map<number, number>();
       const productIdMap = new Map<number, number>();
+      const pipelineIdMap = new Map<number, number>();
+      const closeReasonIdMap = new Map<number, number>();
+      const accountIdMap = new Map<number, number>();
+      const contactIdMap = new Map<number, number>();
+      const attachmentIdMap = new Map<number, number>();
 
       // Map existing admin users to preserve references
       const existingAdmins = await db.select().from(users).where(eq(users.role, 'admin'));
@@ -675,10 +3041,19 @@ export class DatabaseStorage implements IStorage {
         }
       }
 
+      if (data.data.pipelines?.length) {
+        for (const pipeline of data.data.pipelines) {
+          const { id, createdAt, ...insertData } = pipeline as any;
+          const [newPipeline] = await db.insert(pipelines).values(insertData).returning({ id: pipelines.id });
+          pipelineIdMap.set(pipeline.id, newPipeline.id);
+        }
+      }
+
       if (data.data.products?.length > 0) {
         for (const product of data.data.products) {
           const oldId = product.id;
           const { id, createdAt, updatedAt, ...insertData } = product as any;
+          insertData.defaultPipelineId = product.defaultPipelineId ? (pipelineIdMap.get(product.defaultPipelineId) || null) : null;
           const [newProduct] = await db.insert(products).values(insertData).returning({ id: products.id });
           if (oldId && newProduct) {
             productIdMap.set(oldId, newProduct.id);
@@ -686,6 +3061,19 @@ export class DatabaseStorage implements IStorage {
         }
       }
 
+      if (data.data.scoringRules?.length) {
+        for (const rule of data.data.scoringRules) {
+          const { id, createdAt, ...insertData } = rule as any;
+          // Product rules point at the re-imported product; rules for products that weren't exported are dropped
+          if (rule.type === 'product') {
+            const productId = productIdMap.get((rule.config as { productId?: number }).productId ?? -1);
+            if (!productId) continue;
+            insertData.config = { ...rule.config, productId };
+          }
+          await db.insert(scoringRules).values(insertData);
+        }
+      }
+
       if (data.data.webhooks?.length > 0) {
         for (const webhook of data.data.webhooks) {
           const { id, createdAt, updatedAt, lastTriggered, ...insertData } = webhook as any;
@@ -704,6 +3092,48 @@ export class DatabaseStorage implements IStorage {
         }
       }
 
+      if (data.data.pipelineStages?.length) {
+        for (const stage of data.data.pipelineStages) {
+          const { id, createdAt, ...insertData } = stage as any;
+          // Stages from single-pipeline exports have no pipeline and join the default one
+          await db.insert(pipelineStages).values({
+            ...insertData,
+            pipelineId: stage.pipelineId ? (pipelineIdMap.get(stage.pipelineId) || null) : null
+          });
+        }
+      }
+
+      if (data.data.customFields?.length) {
+        for (const field of data.data.customFields) {
+          const { id, createdAt, ...insertData } = field as any;
+          await db.insert(customFields).values(insertData);
+        }
+      }
+
+      if (data.data.closeReasons?.length) {
+        for (const reason of data.data.closeReasons) {
+          const { id, createdAt, ...insertData } = reason as any;
+          const [newReason] = await db.insert(closeReasons).values(insertData).returning({ id: closeReasons.id });
+          closeReasonIdMap.set(reason.id, newReason.id);
+        }
+      }
+
+      for (const account of data.data.accounts ?? []) {
+        const { id, createdAt, ...insertData } = account as any;
+        const [newAccount] = await db.insert(accounts)
+          .values({ ...insertData, ownerId: account.ownerId ? (userIdMap.get(account.ownerId) || null) : null })
+          .returning({ id: accounts.id });
+        accountIdMap.set(account.id, newAccount.id);
+      }
+
+      for (const contact of data.data.contacts ?? []) {
+        const { id, createdAt, ...insertData } = contact as any;
+        const accountId = accountIdMap.get(contact.accountId);
+        if (!accountId) continue;
+        const [newContact] = await db.insert(contacts).values({ ...insertData, accountId }).returning({ id: contacts.id });
+        contactIdMap.set(contact.id, newContact.id);
+      }
+
       // Then import dependent tables with mapped IDs
       if (data.data.leads?.length > 0) {
         for (const lead of data.data.leads) {
@@ -715,6 +3145,13 @@ export class DatabaseStorage implements IStorage {
             ...insertData,
             followUpDate: lead.followUpDate ? new Date(lead.followUpDate) : null,
             lastContactedAt: lead.lastContactedAt ? new Date(lead.lastContactedAt) : null,
+            closedAt: lead.closedAt ? new Date(lead.closedAt) : null,
+            closeReasonId: lead.closeReasonId ? (closeReasonIdMap.get(lead.closeReasonId) || null) : null,
+            deletedAt: lead.deletedAt ? new Date(lead.deletedAt) : null,
+            deletedById: lead.deletedById ? (userIdMap.get(lead.deletedById) || null) : null,
+            pipelineId: lead.pipelineId ? (pipelineIdMap.get(lead.pipelineId) || null) : null,
+            accountId: lead.accountId ? (accountIdMap.get(lead.accountId) || null) : null,
+            primaryContactId: lead.primaryContactId ? (contactIdMap.get(lead.primaryContactId) || null) : null,
             // Map assignedTo and assignedEngineer to new user IDs
             assignedTo: lead.assignedTo ? (userIdMap.get(lead.assignedTo) || null) : null,
             assignedEngineer: lead.assignedEngineer ? (userIdMap.get(lead.assignedEngineer) || null) : null
@@ -758,9 +3195,11 @@ export class DatabaseStorage implements IStorage {
           if (mappedLeadId) {
             const attachmentData = {
               ...insertData,
-              leadId: mappedLeadId
+              leadId: mappedLeadId,
+              uploadedById: attachment.uploadedById ? (userIdMap.get(attachment.uploadedById) || null) : null
             };
-            await db.insert(leadAttachments).values(attachmentData);
+            const [newAttachment] = await db.insert(leadAttachments).values(attachmentData).returning({ id: leadAttachments.id });
+            attachmentIdMap.set(attachment.id, newAttachment.id);
           }
         }
       }
@@ -785,6 +3224,215 @@ export class DatabaseStorage implements IStorage {
         }
       }
 
+      if (data.data.leadStatusHistory?.length) {
+        for (const change of data.data.leadStatusHistory) {
+          const { id, ...insertData } = change as any;
+
+          // Map leadId and changedById to new IDs
+          const mappedLeadId = leadIdMap.get(change.leadId);
+
+          // Only insert if the lead exists
+          if (mappedLeadId) {
+            await db.insert(leadStatusHistory).values({
+              ...insertData,
+              leadId: mappedLeadId,
+              changedById: change.changedById ? (userIdMap.get(change.changedById) || null) : null,
+              changedAt: new Date(change.changedAt)
+            });
+          }
+        }
+      }
+
+      // Logged values are kept as they were, including ids of users and products from the old database
+      if (data.data.leadFieldChanges?.length) {
+        for (const change of data.data.leadFieldChanges) {
+          const { id, ...insertData } = change as any;
+          const mappedLeadId = leadIdMap.get(change.leadId);
+
+          if (mappedLeadId) {
+            await db.insert(leadFieldChanges).values({
+              ...insertData,
+              leadId: mappedLeadId,
+              changedById: change.changedById ? (userIdMap.get(change.changedById) || null) : null,
+              changedAt: new Date(change.changedAt)
+            });
+          }
+        }
+      }
+
+      // Pairs are stored lower id first, which the new ids may not keep
+      for (const dismissal of data.data.leadDuplicateDismissals ?? []) {
+        const leadId = leadIdMap.get(dismissal.leadId);
+        const otherLeadId = leadIdMap.get(dismissal.otherLeadId);
+        if (!leadId || !otherLeadId) continue;
+        await db.insert(leadDuplicateDismissals).values({
+          leadId: Math.min(leadId, otherLeadId),
+          otherLeadId: Math.max(leadId, otherLeadId),
+          dismissedById: dismissal.dismissedById ? (userIdMap.get(dismissal.dismissedById) || null) : null,
+          createdAt: new Date(dismissal.createdAt)
+        }).onConflictDoNothing();
+      }
+
+      // Quotes keep their numbers, versions and dates; quotes of leads that weren't imported are dropped
+      const quoteTemplateIdMap = new Map<number, number>();
+      for (const template of data.data.quoteTemplates ?? []) {
+        const { id, createdAt, updatedAt, ...insertData } = template as any;
+        const [newTemplate] = await db.insert(quoteTemplates).values(insertData).returning({ id: quoteTemplates.id });
+        quoteTemplateIdMap.set(template.id, newTemplate.id);
+      }
+      for (const quote of data.data.quotes ?? []) {
+        const { id, ...insertData } = quote as any;
+        const leadId = leadIdMap.get(quote.leadId);
+        if (!leadId) continue;
+        await db.insert(quotes).values({
+          ...insertData,
+          leadId,
+          templateId: quote.templateId ? (quoteTemplateIdMap.get(quote.templateId) || null) : null,
+          attachmentId: quote.attachmentId ? (attachmentIdMap.get(quote.attachmentId) || null) : null,
+          createdById: quote.createdById ? (userIdMap.get(quote.createdById) || null) : null,
+          createdAt: new Date(quote.createdAt),
+          statusChangedAt: quote.statusChangedAt ? new Date(quote.statusChangedAt) : null
+        });
+      }
+
+      // Invoices keep their numbers and dates, and outlive leads that weren't imported like deleted ones
+      const invoiceIdMap = new Map<number, number>();
+      for (const invoice of data.data.invoices ?? []) {
+        const { id, ...insertData } = invoice as any;
+        const [newInvoice] = await db.insert(invoices).values({
+          ...insertData,
+          leadId: invoice.leadId ? (leadIdMap.get(invoice.leadId) || null) : null,
+          createdById: invoice.createdById ? (userIdMap.get(invoice.createdById) || null) : null,
+          issuedAt: invoice.issuedAt ? new Date(invoice.issuedAt) : null,
+          dueDate: invoice.dueDate ? new Date(invoice.dueDate) : null,
+          paidAt: invoice.paidAt ? new Date(invoice.paidAt) : null,
+          createdAt: new Date(invoice.createdAt),
+          updatedAt: new Date(invoice.updatedAt)
+        }).returning({ id: invoices.id });
+        invoiceIdMap.set(invoice.id, newInvoice.id);
+      }
+      for (const line of data.data.invoiceLines ?? []) {
+        const { id, ...insertData } = line as any;
+        const invoiceId = invoiceIdMap.get(line.invoiceId);
+        if (!invoiceId) continue;
+        await db.insert(invoiceLines).values({
+          ...insertData,
+          invoiceId,
+          productId: line.productId ? (productIdMap.get(line.productId) || null) : null
+        });
+      }
+      for (const payment of data.data.invoicePayments ?? []) {
+        const { id, ...insertData } = payment as any;
+        const invoiceId = invoiceIdMap.get(payment.invoiceId);
+        if (!invoiceId) continue;
+        await db.insert(invoicePayments).values({
+          ...insertData,
+          invoiceId,
+          recordedById: payment.recordedById ? (userIdMap.get(payment.recordedById) || null) : null,
+          paidAt: new Date(payment.paidAt),
+          createdAt: new Date(payment.createdAt)
+        });
+      }
+
+      // Tasks about leads that weren't imported are dropped; tasks without a lead are kept
+      for (const task of data.data.tasks ?? []) {
+        const { id, createdAt, updatedAt, ...insertData } = task as any;
+        const leadId = task.leadId ? leadIdMap.get(task.leadId) : null;
+        if (leadId === undefined) continue;
+        await db.insert(tasks).values({
+          ...insertData,
+          leadId,
+          assignedTo: task.assignedTo ? (userIdMap.get(task.assignedTo) || null) : null,
+          createdById: task.createdById ? (userIdMap.get(task.createdById) || null) : null,
+          completedById: task.completedById ? (userIdMap.get(task.completedById) || null) : null,
+          dueAt: task.dueAt ? new Date(task.dueAt) : null,
+          completedAt: task.completedAt ? new Date(task.completedAt) : null
+        });
+      }
+
+      // Follow-ups already reminded about aren't reminded about again after a restore
+      for (const reminder of data.data.followUpReminders ?? []) {
+        const { id, ...insertData } = reminder as any;
+        const leadId = leadIdMap.get(reminder.leadId);
+        if (!leadId) continue;
+        await db.insert(followUpReminders).values({
+          ...insertData,
+          leadId,
+          userId: reminder.userId ? (userIdMap.get(reminder.userId) || null) : null,
+          followUpDate: new Date(reminder.followUpDate),
+          createdAt: new Date(reminder.createdAt)
+        }).onConflictDoNothing();
+      }
+
+      // Feeds keep their tokens so subscribed calendars carry on working
+      for (const feed of data.data.calendarFeeds ?? []) {
+        const userId = userIdMap.get(feed.userId);
+        if (!userId) continue;
+        await db.insert(calendarFeeds).values({ userId, token: feed.token, createdAt: new Date(feed.createdAt) }).onConflictDoNothing();
+      }
+
+      for (const notification of data.data.notifications ?? []) {
+        const { id, ...insertData } = notification as any;
+        const userId = userIdMap.get(notification.userId);
+        const leadId = notification.leadId ? leadIdMap.get(notification.leadId) : null;
+        if (!userId || leadId === undefined) continue;
+        await db.insert(notifications).values({
+          ...insertData,
+          userId,
+          leadId,
+          readAt: notification.readAt ? new Date(notification.readAt) : null,
+          createdAt: new Date(notification.createdAt)
+        });
+      }
+      for (const preference of data.data.notificationPreferences ?? []) {
+        const userId = userIdMap.get(preference.userId);
+        if (!userId) continue;
+        await db.insert(notificationPreferences)
+          .values({ userId, event: preference.event, enabled: preference.enabled })
+          .onConflictDoNothing();
+      }
+
+      // Views of users that weren't imported are dropped along with their pins
+      if (data.data.savedViews?.length) {
+        const viewIdMap = new Map<number, number>();
+        for (const view of data.data.savedViews) {
+          const { id, createdAt, ...insertData } = view as any;
+          const createdById = userIdMap.get(view.createdById);
+          if (!createdById) continue;
+
+          const filters = { ...view.filters };
+          if (filters.pipelineId) {
+            filters.pipelineId = pipelineIdMap.get(filters.pipelineId);
+          }
+          const [newView] = await db.insert(savedViews)
+            .values({ ...insertData, createdById, filters })
+            .returning({ id: savedViews.id });
+          viewIdMap.set(view.id, newView.id);
+        }
+
+        for (const pin of data.data.savedViewPins ?? []) {
+          const viewId = viewIdMap.get(pin.viewId);
+          const userId = userIdMap.get(pin.userId);
+          if (viewId && userId) {
+            await db.insert(savedViewPins).values({ viewId, userId }).onConflictDoNothing();
+          }
+        }
+      }
+
+      for (const tag of data.data.tags ?? []) {
+        const { id, createdAt, ...insertData } = tag as any;
+        await db.insert(tags).values(insertData).onConflictDoNothing();
+      }
+      for (const setting of data.data.appSettings ?? []) {
+        await db.insert(appSettings).values({ key: setting.key, value: setting.value }).onConflictDoNothing();
+      }
+
+      // Exports from before accounts existed get their leads grouped the way an upgraded database does
+      await this.linkLeadsToAccounts();
+
+      // Interaction windows and contact decay have moved on since the export was taken
+      await this.refreshLeadScores();
+
       return true;
     } catch (error) {
       console.error('Database import failed:', error);
@@ -796,13 +3444,37 @@ export class DatabaseStorage implements IStorage {
   async deleteDatabase(): Promise<boolean> {
     try {
       // Delete in reverse order of dependencies
+      await db.delete(savedViewPins);
+      await db.delete(savedViews);
+      await db.delete(tags);
+      await db.delete(appSettings);
+      await db.delete(leadDuplicateDismissals);
+      await db.delete(leadStatusHistory);
+      await db.delete(leadFieldChanges);
+      await db.delete(followUpReminders);
+      await db.delete(tasks);
+      await db.delete(calendarFeeds);
+      await db.delete(notifications);
+      await db.delete(notificationPreferences);
+      await db.delete(quotes);
+      await db.delete(quoteTemplates);
+      await db.delete(invoicePayments);
+      await db.delete(invoiceLines);
+      await db.delete(invoices);
       await db.delete(leadAttachments);
       await db.delete(interactions);
       await db.delete(leadProducts);
       await db.delete(leads);
+      await db.delete(contacts);
+      await db.delete(accounts);
+      await db.delete(closeReasons);
       await db.delete(webhooks);
       await db.delete(mcpServers);
       await db.delete(products);
+      await db.delete(pipelineStages);
+      await db.delete(pipelines);
+      await db.delete(customFields);
+      await db.delete(scoringRules);
       
       // Preserve admin users during database reset
       await db.delete(users).where(eq(users.role, 'agent'));
@@ -827,29 +3499,111 @@ export class DatabaseStorage implements IStorage {
     return leadProductsData.map(item => item.product);
   }
 
+  // New line items start at one unit of the product's price, in the lead's currency
   async addLeadProducts(leadId: number, productIds: number[]): Promise<void> {
     if (productIds.length === 0) return;
-    
-    const insertData = productIds.map(productId => ({
-      leadId,
-      productId
-    }));
-    
-    await db.insert(leadProducts).values(insertData);
+
+    const [lead] = await db.select({ currency: leads.currency }).from(leads).where(eq(leads.id, leadId));
+    if (!lead) return;
+    const settings = await this.getCurrencySettings();
+    const pitched = await db.select().from(products).where(inArray(products.id, productIds));
+    const insertData = Array.from(new Set(productIds)).flatMap(productId => {
+      const product = pitched.find(p => p.id === productId);
+      return product ? [{ leadId, productId, ...productPriceDefaults(product, lead.currency, settings) }] : [];
+    });
+    if (insertData.length > 0) {
+      await db.insert(leadProducts).values(insertData);
+    }
   }
 
   async removeLeadProducts(leadId: number): Promise<void> {
     await db.delete(leadProducts).where(eq(leadProducts.leadId, leadId));
   }
 
+  // Products the lead keeps keep their line item details; only removed ones are dropped
   async updateLeadProducts(leadId: number, productIds: number[]): Promise<void> {
-    // Remove existing products
-    await this.removeLeadProducts(leadId);
-    
-    // Add new products
-    if (productIds.length > 0) {
-      await this.addLeadProducts(leadId, productIds);
+    const existing = (await db.select({ productId: leadProducts.productId }).from(leadProducts).where(eq(leadProducts.leadId, leadId)))
+      .map(row => row.productId);
+    const removed = existing.filter(productId => !productIds.includes(productId));
+    if (removed.length > 0) {
+      await db.delete(leadProducts).where(and(eq(leadProducts.leadId, leadId), inArray(leadProducts.productId, removed)));
     }
+    await this.addLeadProducts(leadId, productIds.filter(productId => !existing.includes(productId)));
+  }
+
+  async getLeadLineItems(leadId: number): Promise<LeadLineItem[]> {
+    return (await this.getLineItemsForLeads([leadId])).get(leadId) ?? [];
+  }
+
+  async getLineItemsForLeads(leadIds: number[]): Promise<Map<number, LeadLineItem[]>> {
+    const itemsByLead = new Map<number, LeadLineItem[]>();
+    if (leadIds.length === 0) return itemsByLead;
+
+    const rows = await db
+      .select({ item: leadProducts, product: products })
+      .from(leadProducts)
+      .innerJoin(products, eq(leadProducts.productId, products.id))
+      .where(inArray(leadProducts.leadId, leadIds))
+      .orderBy(asc(products.displayOrder), asc(products.name));
+    for (const { item, product } of rows) {
+      const list = itemsByLead.get(item.leadId) || [];
+      list.push({ ...item, product, total: lineItemTotal(item) });
+      itemsByLead.set(item.leadId, list);
+    }
+    return itemsByLead;
+  }
+
+  // Replaces the lead's line items. Details left out keep the current line's value, or for new
+  // lines the product's price; a lead valued from its line items gets the new total as its value.
+  async setLeadLineItems(leadId: number, items: LineItemInput[], valueFromLineItems?: boolean, context?: LeadChangeContext): Promise<Lead | undefined> {
+    const [current] = await db.select().from(leads).where(and(eq(leads.id, leadId), isNull(leads.deletedAt)));
+    if (!current) return undefined;
+
+    const before = await this.getLeadLineItems(leadId);
+    const settings = await this.getCurrencySettings();
+    const pitched = items.length > 0 ? await db.select().from(products).where(inArray(products.id, items.map(item => item.productId))) : [];
+    const rows = items.flatMap(item => {
+      const product = pitched.find(p => p.id === item.productId);
+      if (!product) return [];
+      const existing = before.find(line => line.productId === item.productId);
+      const defaults = existing ?? productPriceDefaults(product, current.currency, settings);
+      return [{
+        leadId,
+        productId: item.productId,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice !== undefined ? item.unitPrice : defaults.unitPrice,
+        discount: item.discount,
+        discountType: item.discountType,
+        billingType: item.billingType ?? defaults.billingType,
+      }];
+    });
+
+    const fromLineItems = valueFromLineItems ?? current.valueFromLineItems;
+    const lead = await db.transaction(async (tx) => {
+      await tx.delete(leadProducts).where(eq(leadProducts.leadId, leadId));
+      if (rows.length > 0) {
+        await tx.insert(leadProducts).values(rows);
+      }
+      const [updated] = await tx.update(leads)
+        .set({ valueFromLineItems: fromLineItems, ...(fromLineItems && { value: lineItemTotals(rows).value }) })
+        .where(eq(leads.id, leadId))
+        .returning();
+      await this.recordFieldChanges(leadId, 'update', [...diffLeadFields(current, updated), ...diffLineItems(before, rows)], context, tx);
+      return updated;
+    });
+
+    if (await this.refreshLeadScores([leadId])) {
+      return await this.getLead(leadId);
+    }
+    return lead;
+  }
+
+  // Brings the value of a lead valued from its line items up to date with them
+  private async syncLeadValue(lead: Lead): Promise<Lead> {
+    const { value } = lineItemTotals(await this.getLeadLineItems(lead.id));
+    if (lead.value === value) return lead;
+    const [updated] = await db.update(leads).set({ value }).where(eq(leads.id, lead.id)).returning();
+    return updated;
   }
 }
 
@@ -0,0 +1,35 @@
+import type { Tag } from '@shared/schema';
+
+// Tag names are compared ignoring case, so "Voice AI" and "voice ai" are one tag
+export function tagKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+// Replaces any of the given names in a tag list (or drops them when `to` is null), keeping the
+// list's order and leaving no duplicates behind
+export function replaceTagNames(list: string[], fromNames: string[], to: string | null): string[] {
+  const from = new Set(fromNames.map(tagKey));
+  const result: string[] = [];
+  for (const name of list) {
+    const next = from.has(tagKey(name)) ? to : name;
+    if (next !== null && !result.some(existing => tagKey(existing) === tagKey(next))) {
+      result.push(next);
+    }
+  }
+  return result;
+}
+
+// Spells each tag the way the registry does; names the registry doesn't have are returned as unknown
+export function resolveTagNames(names: string[], registry: Pick<Tag, 'name'>[]): { tags: string[]; unknown: string[] } {
+  const registered = new Map(registry.map(tag => [tagKey(tag.name), tag.name]));
+  const tags: string[] = [];
+  const unknown: string[] = [];
+  for (const raw of names) {
+    const name = raw.trim();
+    if (!name || tags.some(existing => tagKey(existing) === tagKey(name))) continue;
+    const match = registered.get(tagKey(name));
+    tags.push(match ?? name);
+    if (!match) unknown.push(name);
+  }
+  return { tags, unknown };
+}
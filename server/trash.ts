@@ -0,0 +1,20 @@
+import { storage } from './storage';
+import { triggerWebhooks } from './webhooks';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RETENTION_DAYS = 30;
+
+// How long a deleted lead stays restorable, set with LEAD_TRASH_RETENTION_DAYS
+export const LEAD_TRASH_RETENTION_DAYS = (() => {
+  const days = parseInt(process.env.LEAD_TRASH_RETENTION_DAYS || '', 10);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+})();
+
+// Permanently deletes leads that have outlived the retention period and returns how many went
+export async function purgeExpiredLeads(now = new Date()): Promise<number> {
+  const purged = await storage.purgeTrashedLeads(new Date(now.getTime() - LEAD_TRASH_RETENTION_DAYS * DAY_MS));
+  for (const lead of purged) {
+    await triggerWebhooks('lead.purged', lead);
+  }
+  return purged.length;
+}
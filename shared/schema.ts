@@ -1,5 +1,5 @@
-import { pgTable, serial, text, timestamp, integer, real, boolean, jsonb, varchar } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { pgTable, serial, text, timestamp, integer, real, boolean, jsonb, varchar, index, uniqueIndex, customType } from 'drizzle-orm/pg-core';
+import { relations, sql, type SQLWrapper } from 'drizzle-orm';
 import { createInsertSchema, createSelectSchema } from 'drizzle-zod';
 import { z } from 'zod';
 
@@ -25,10 +25,16 @@ export const users = pgTable('users', {
 });
 
 // AI Product Catalog
+export const PRICING_MODELS = ['fixed', 'monthly', 'per_seat', 'usage', 'quote'] as const;
+
 export const products = pgTable('products', {
   id: serial('id').primaryKey(),
   name: text('name').notNull(),
-  price: text('price').notNull(),
+  price: text('price'), // free-text price note ("volume discounts available"); priceAmount is the price itself
+  priceAmount: real('price_amount'), // per unit of the pricing model; null for quote-only products
+  currency: text('currency').default('USD').notNull(), // ISO 4217 code
+  pricingModel: text('pricing_model', { enum: PRICING_MODELS }).default('fixed').notNull(),
+  setupFee: real('setup_fee'), // one-off fee on top of the price
   pitch: text('pitch'),
   talkingPoints: text('talking_points'),
   agentNotes: text('agent_notes'),
@@ -37,9 +43,190 @@ export const products = pgTable('products', {
   tags: text('tags').array(),
   displayOrder: integer('display_order').default(0),
   isActive: boolean('is_active').default(true),
+  defaultPipelineId: integer('default_pipeline_id').references(() => pipelines.id, { onDelete: 'set null' }), // pipeline for new leads interested in this product
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Full-text search documents. The GIN indexes below and DatabaseStorage.searchLeads
+// must build these with identical expressions for Postgres to use the indexes.
+export const leadSearchVector = (t: { name: SQLWrapper; company: SQLWrapper; email: SQLWrapper; notes: SQLWrapper; engineeringNotes: SQLWrapper }) => sql`(
+  setweight(to_tsvector('english', coalesce(${t.name}, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(${t.company}, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(${t.email}, '')), 'B') ||
+  setweight(to_tsvector('english', coalesce(${t.notes}, '') || ' ' || coalesce(${t.engineeringNotes}, '')), 'C')
+)`;
+
+export const interactionSearchVector = (t: { text: SQLWrapper }) => sql`to_tsvector('english', ${t.text})`;
+
+export const attachmentSearchVector = (t: { fileName: SQLWrapper; description: SQLWrapper }) =>
+  sql`to_tsvector('english', ${t.fileName} || ' ' || coalesce(${t.description}, ''))`;
+
+// Sales pipelines, e.g. one per product line, each with its own ordered stages
+export const pipelines = pgTable('pipelines', {
+  id: serial('id').primaryKey(),
+  name: text('name').unique().notNull(),
+  description: text('description'),
+  displayOrder: integer('display_order').default(0).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Pipeline stages, managed by admins. Leads store the stage key in leads.status;
+// renaming a stage only changes its name, so existing leads keep pointing at it.
+export const STAGE_TYPES = ['open', 'won', 'lost'] as const;
+export const STAGE_COLORS = ['slate', 'blue', 'indigo', 'purple', 'pink', 'red', 'orange', 'amber', 'emerald', 'green', 'cyan'] as const;
+
+export const pipelineStages = pgTable('pipeline_stages', {
+  id: serial('id').primaryKey(),
+  // Only null for stages created before pipelines existed; backfilled to the default pipeline
+  pipelineId: integer('pipeline_id').references(() => pipelines.id, { onDelete: 'cascade' }),
+  key: text('key').notNull(), // unique within its pipeline
+  name: text('name').notNull(),
+  color: text('color', { enum: STAGE_COLORS }).default('slate').notNull(),
+  type: text('type', { enum: STAGE_TYPES }).default('open').notNull(),
+  winProbability: integer('win_probability').default(0).notNull(), // percent, used for weighted pipeline value
+  displayOrder: integer('display_order').default(0).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('pipeline_stages_pipeline_key_idx').on(table.pipelineId, table.key),
+]);
+
+export const DEFAULT_PIPELINE_NAME = 'Sales Pipeline';
+
+// Seeded on first use and copied into every new pipeline so existing leads keep their statuses
+export const DEFAULT_PIPELINE_STAGES = [
+  { key: 'new', name: 'New', color: 'slate', type: 'open', winProbability: 10 },
+  { key: 'contacted', name: 'Contacted', color: 'blue', type: 'open', winProbability: 20 },
+  { key: 'qualified', name: 'Qualified', color: 'emerald', type: 'open', winProbability: 40 },
+  { key: 'proposal', name: 'Proposal', color: 'amber', type: 'open', winProbability: 60 },
+  { key: 'negotiation', name: 'Negotiation', color: 'orange', type: 'open', winProbability: 80 },
+  { key: 'won', name: 'Won', color: 'green', type: 'won', winProbability: 100 },
+  { key: 'lost', name: 'Lost', color: 'red', type: 'lost', winProbability: 0 },
+] as const;
+
+// Why deals are won or lost. Moving a lead into a won or lost stage requires a reason of that
+// type; reasons in use are deactivated rather than deleted so past closes keep their reason.
+export const CLOSE_REASON_TYPES = ['won', 'lost'] as const;
+
+export const closeReasons = pgTable('close_reasons', {
+  id: serial('id').primaryKey(),
+  type: text('type', { enum: CLOSE_REASON_TYPES }).notNull(),
+  label: text('label').notNull(),
+  isActive: boolean('is_active').default(true).notNull(),
+  displayOrder: integer('display_order').default(0).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('close_reasons_type_label_idx').on(table.type, table.label),
+]);
+
+// Seeded on first use so leads can be closed before an admin has set up reasons
+export const DEFAULT_CLOSE_REASONS = [
+  { type: 'won', label: 'Best fit for their needs' },
+  { type: 'won', label: 'Price' },
+  { type: 'won', label: 'Relationship' },
+  { type: 'won', label: 'Other' },
+  { type: 'lost', label: 'Price too high' },
+  { type: 'lost', label: 'Chose a competitor' },
+  { type: 'lost', label: 'No budget' },
+  { type: 'lost', label: 'Missing features' },
+  { type: 'lost', label: 'No decision / went quiet' },
+  { type: 'lost', label: 'Other' },
+] as const;
+
+// Admin-defined lead fields. Leads keep their values in leads.custom_fields keyed by the
+// field key, which is derived from the label once and never changes.
+export const CUSTOM_FIELD_TYPES = ['text', 'number', 'date', 'select', 'multiselect', 'boolean', 'url'] as const;
+
+export const customFields = pgTable('custom_fields', {
+  id: serial('id').primaryKey(),
+  key: text('key').unique().notNull(),
+  label: text('label').notNull(),
+  type: text('type', { enum: CUSTOM_FIELD_TYPES }).notNull(),
+  options: text('options').array(), // choices for select and multiselect fields
+  required: boolean('required').default(false).notNull(),
+  displayOrder: integer('display_order').default(0).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// text, url and date (YYYY-MM-DD) values are strings; multiselect values are arrays of options
+export type CustomFieldValue = string | number | boolean | string[] | null;
+
+// Lead scoring. Each active rule adds (or, with negative points, removes) points; a lead's score
+// is the clamped sum and is recomputed whenever the lead, its products or its interactions change.
+export const SCORING_RULE_TYPES = ['value', 'source', 'product', 'priority', 'interaction', 'contact_decay'] as const;
+export const INTERACTION_TYPES = ['note', 'email', 'call', 'meeting', 'urgent', 'team'] as const;
+export const MIN_LEAD_SCORE = 0;
+export const MAX_LEAD_SCORE = 100;
+
+export const scoringRules = pgTable('scoring_rules', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  type: text('type', { enum: SCORING_RULE_TYPES }).notNull(),
+  config: jsonb('config').$type<Record<string, unknown>>().default({}).notNull(), // shape depends on type, see scoringRuleConfigSchemas
+  points: integer('points').notNull(),
+  isActive: boolean('is_active').default(true).notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Per-type rule settings:
+// value: the lead's value is at least minValue
+// source / priority / product: the lead has that source, priority or interested product
+// interaction: points for each interaction of that type in the last withinDays days, up to maxCount
+// contact_decay: points (usually negative) for each day past graceDays since the lead was last
+//   contacted (or created, if never contacted), up to maxDays
+export const scoringRuleConfigSchemas = {
+  value: z.object({ minValue: z.number().min(0) }),
+  source: z.object({ source: z.string().trim().min(1, 'Source is required') }),
+  product: z.object({ productId: z.number().int() }),
+  priority: z.object({ priority: z.enum(['low', 'medium', 'high']) }),
+  interaction: z.object({
+    interactionType: z.enum(INTERACTION_TYPES),
+    withinDays: z.number().int().min(1),
+    maxCount: z.number().int().min(1).optional(),
+  }),
+  contact_decay: z.object({
+    graceDays: z.number().int().min(0),
+    maxDays: z.number().int().min(1).optional(),
+  }),
+} as const;
+
+export type ScoringRuleType = typeof SCORING_RULE_TYPES[number];
+
+// One line of a lead's score breakdown
+export interface ScoreContribution {
+  ruleId: number;
+  name: string;
+  points: number;
+  detail: string;
+}
+
+export const ACCOUNT_SIZES = ['1-10', '11-50', '51-200', '201-1000', '1000+'] as const;
+
+// Customer companies. Leads are the deals with an account; contacts are the people who work there.
+export const accounts = pgTable('accounts', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  domain: text('domain'), // lowercase, e.g. "acme.com"; leads with an email at it join the account
+  industry: text('industry'),
+  size: text('size', { enum: ACCOUNT_SIZES }),
+  address: text('address'),
+  ownerId: integer('owner_id').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('accounts_domain_idx').on(table.domain),
+]);
+
+export const contacts = pgTable('contacts', {
+  id: serial('id').primaryKey(),
+  accountId: integer('account_id').references(() => accounts.id, { onDelete: 'cascade' }).notNull(),
+  name: text('name').notNull(),
+  email: text('email'),
+  phone: text('phone'),
+  title: text('title'), // job title
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('contacts_account_id_idx').on(table.accountId),
+]);
+
 // Lead Management
 export const leads = pgTable('leads', {
   id: serial('id').primaryKey(),
@@ -47,29 +234,91 @@ export const leads = pgTable('leads', {
   email: text('email'),
   phone: text('phone'),
   company: text('company'),
-  status: text('status', {
-    enum: ['new', 'contacted', 'qualified', 'proposal', 'negotiation', 'won', 'lost']
-  }).default('new').notNull(),
+  accountId: integer('account_id').references(() => accounts.id, { onDelete: 'set null' }),
+  primaryContactId: integer('primary_contact_id').references(() => contacts.id, { onDelete: 'set null' }), // a contact of the lead's account
+  pipelineId: integer('pipeline_id').references(() => pipelines.id), // null only for leads created before pipelines existed
+  status: text('status').default('new').notNull(), // pipeline_stages.key within the lead's pipeline
   source: text('source'),
   value: real('value'),
+  currency: text('currency').default('USD').notNull(), // ISO 4217 code of value and the line item prices
+  valueFromLineItems: boolean('value_from_line_items').default(false).notNull(), // value is kept equal to the line items' total
   assignedTo: integer('assigned_to').references(() => users.id),
   assignedEngineer: integer('assigned_engineer').references(() => users.id),
   notes: text('notes'),
   priority: text('priority', { enum: ['low', 'medium', 'high'] }).default('medium'),
-  score: integer('score').default(0),
+  score: integer('score').default(0), // maintained by the scoring rules when any are active
+  scoreBreakdown: jsonb('score_breakdown').$type<ScoreContribution[]>(), // null until scored by rules
   engineeringProgress: integer('engineering_progress').default(0),
   engineeringNotes: text('engineering_notes'),
   tags: text('tags').array(),
+  customFields: jsonb('custom_fields').$type<Record<string, CustomFieldValue>>().default({}).notNull(),
   followUpDate: timestamp('follow_up_date'),
   lastContactedAt: timestamp('last_contacted_at'),
+  // Set when the lead enters a won or lost stage and cleared when it is reopened
+  closeReasonId: integer('close_reason_id').references(() => closeReasons.id),
+  closeCompetitor: text('close_competitor'), // who the deal was lost to
+  closeNote: text('close_note'),
+  closedAt: timestamp('closed_at'),
+  // Deleted leads stay in the trash, hidden everywhere else, until restored or purged
+  deletedAt: timestamp('deleted_at'),
+  deletedById: integer('deleted_by_id').references(() => users.id, { onDelete: 'set null' }),
   createdAt: timestamp('created_at').defaultNow().notNull(),
-});
+}, (table) => [
+  index('leads_search_idx').using('gin', leadSearchVector(table)),
+  index('leads_deleted_at_idx').on(table.deletedAt),
+]);
+
+// Where a lead change came from
+export const LEAD_CHANGE_SOURCES = ['ui', 'api', 'mcp', 'import', 'automation'] as const;
+export type LeadChangeSource = typeof LEAD_CHANGE_SOURCES[number];
+
+// One row per stage a lead has entered; the next row for the same lead marks when it left
+export const leadStatusHistory = pgTable('lead_status_history', {
+  id: serial('id').primaryKey(),
+  leadId: integer('lead_id').references(() => leads.id, { onDelete: 'cascade' }).notNull(),
+  fromStatus: text('from_status'), // null for the status a lead was created with
+  toStatus: text('to_status').notNull(),
+  changedById: integer('changed_by_id').references(() => users.id, { onDelete: 'set null' }),
+  source: text('source', { enum: LEAD_CHANGE_SOURCES }).default('api').notNull(),
+  changedAt: timestamp('changed_at').defaultNow().notNull(),
+}, (table) => [
+  index('lead_status_history_lead_idx').on(table.leadId, table.changedAt),
+]);
+
+// What kind of write produced a field change
+export const LEAD_CHANGE_ACTIONS = ['create', 'update', 'assign', 'merge'] as const;
+export type LeadChangeAction = typeof LEAD_CHANGE_ACTIONS[number];
+
+// One row per lead field a write changed; rows written together share changedAt. Custom fields are
+// logged as "customFields.<key>" and interested products as "products" (a list of product ids).
+export const leadFieldChanges = pgTable('lead_field_changes', {
+  id: serial('id').primaryKey(),
+  leadId: integer('lead_id').references(() => leads.id, { onDelete: 'cascade' }).notNull(),
+  action: text('action', { enum: LEAD_CHANGE_ACTIONS }).notNull(),
+  field: text('field').notNull(),
+  oldValue: jsonb('old_value').$type<unknown>(), // null when the field was empty
+  newValue: jsonb('new_value').$type<unknown>(),
+  changedById: integer('changed_by_id').references(() => users.id, { onDelete: 'set null' }),
+  source: text('source', { enum: LEAD_CHANGE_SOURCES }).default('api').notNull(),
+  changedAt: timestamp('changed_at').defaultNow().notNull(),
+}, (table) => [
+  index('lead_field_changes_lead_idx').on(table.leadId, table.changedAt),
+]);
 
 // Lead-Product Junction Table (Many-to-Many)
+export const LINE_ITEM_BILLING_TYPES = ['one_time', 'monthly'] as const;
+export const LINE_ITEM_DISCOUNT_TYPES = ['percent', 'amount'] as const;
+
+// A product pitched on a lead, as a line item of the deal
 export const leadProducts = pgTable('lead_products', {
   id: serial('id').primaryKey(),
   leadId: integer('lead_id').references(() => leads.id, { onDelete: 'cascade' }).notNull(),
   productId: integer('product_id').references(() => products.id, { onDelete: 'cascade' }).notNull(),
+  quantity: real('quantity').default(1).notNull(),
+  unitPrice: real('unit_price'), // taken from the product when added; null when its price isn't a number
+  discount: real('discount').default(0).notNull(), // a percentage or an amount off the line, per discountType
+  discountType: text('discount_type', { enum: LINE_ITEM_DISCOUNT_TYPES }).default('percent').notNull(),
+  billingType: text('billing_type', { enum: LINE_ITEM_BILLING_TYPES }).default('one_time').notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
@@ -78,10 +327,13 @@ export const interactions = pgTable('interactions', {
   id: serial('id').primaryKey(),
   leadId: integer('lead_id').references(() => leads.id, { onDelete: 'cascade' }).notNull(),
   userId: integer('user_id').references(() => users.id).notNull(),
-  type: text('type', { enum: ['note', 'email', 'call', 'meeting', 'urgent', 'team'] }).default('note').notNull(),
+  type: text('type', { enum: INTERACTION_TYPES }).default('note').notNull(),
   text: text('text').notNull(),
+  scheduledAt: timestamp('scheduled_at'), // when a meeting takes place; it shows in the calendar feed
   createdAt: timestamp('created_at').defaultNow().notNull(),
-});
+}, (table) => [
+  index('interactions_search_idx').using('gin', interactionSearchVector(table)),
+]);
 
 // External Integrations (Webhooks)
 export const webhooks = pgTable('webhooks', {
@@ -106,7 +358,383 @@ export const leadAttachments = pgTable('lead_attachments', {
   description: text('description'), // Optional description/comment for the file
   uploadedById: integer('uploaded_by_id').references(() => users.id),
   createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('lead_attachments_search_idx').using('gin', attachmentSearchVector(table)),
+]);
+
+// Lead pairs a user has reviewed and marked as "not a duplicate". Stored with leadId < otherLeadId.
+export const leadDuplicateDismissals = pgTable('lead_duplicate_dismissals', {
+  id: serial('id').primaryKey(),
+  leadId: integer('lead_id').references(() => leads.id, { onDelete: 'cascade' }).notNull(),
+  otherLeadId: integer('other_lead_id').references(() => leads.id, { onDelete: 'cascade' }).notNull(),
+  dismissedById: integer('dismissed_by_id').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('lead_duplicate_dismissals_pair_idx').on(table.leadId, table.otherLeadId),
+]);
+
+// Follow-ups: a lead's follow-up is due from its follow-up date and overdue once that whole day has
+// passed. Snoozing moves the date, completing clears it. The scheduler records a reminder the first
+// time it finds a follow-up due and again when it becomes overdue, for the lead's agent at the time.
+export const FOLLOW_UP_STATES = ['due', 'overdue'] as const;
+export const FOLLOW_UP_OVERDUE_AFTER_MS = 24 * 60 * 60 * 1000;
+
+export const followUpReminders = pgTable('follow_up_reminders', {
+  id: serial('id').primaryKey(),
+  leadId: integer('lead_id').references(() => leads.id, { onDelete: 'cascade' }).notNull(),
+  followUpDate: timestamp('follow_up_date').notNull(), // the follow-up this reminder is for
+  state: text('state', { enum: FOLLOW_UP_STATES }).notNull(),
+  userId: integer('user_id').references(() => users.id, { onDelete: 'set null' }), // null when the lead had no agent
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('follow_up_reminders_lead_date_state_idx').on(table.leadId, table.followUpDate, table.state),
+  index('follow_up_reminders_user_idx').on(table.userId),
+]);
+
+// Lead filter queries: conditions on lead columns combined in nested AND/OR groups. One query drives
+// the lead list, search, CSV export and analytics, sent as JSON in ?filter=. Dates are whole days.
+export const LEAD_FILTER_RANGE_FIELDS = ['value', 'engineeringProgress', 'score'] as const;
+export const LEAD_FILTER_DATE_FIELDS = ['createdAt', 'followUpDate', 'lastContactedAt'] as const;
+export const LEAD_FILTER_USER_FIELDS = ['assignedTo', 'assignedEngineer'] as const;
+export const LEAD_FILTER_CHOICE_FIELDS = ['status', 'source', 'priority'] as const;
+export const LEAD_FILTER_MAX_DEPTH = 4;
+
+const filterDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+export const leadFilterConditionSchema = z.discriminatedUnion('type', [
+  // Inclusive bounds; either may be left out
+  z.object({ type: z.literal('range'), field: z.enum(LEAD_FILTER_RANGE_FIELDS), min: z.number().optional(), max: z.number().optional() }),
+  z.object({ type: z.literal('dateRange'), field: z.enum(LEAD_FILTER_DATE_FIELDS), from: filterDate.optional(), to: filterDate.optional() }),
+  z.object({ type: z.literal('tags'), match: z.enum(['any', 'all']), tags: z.array(z.string().trim().min(1)).min(1) }),
+  z.object({ type: z.literal('products'), match: z.enum(['any', 'all']), productIds: z.array(z.number().int()).min(1) }),
+  // null matches leads nobody is assigned to
+  z.object({ type: z.literal('user'), field: z.enum(LEAD_FILTER_USER_FIELDS), userIds: z.array(z.number().int().nullable()).min(1) }),
+  z.object({ type: z.literal('choice'), field: z.enum(LEAD_FILTER_CHOICE_FIELDS), values: z.array(z.string()).min(1) }),
+  z.object({ type: z.literal('noInteractionsSince'), since: filterDate }),
+]);
+export type LeadFilterCondition = z.infer<typeof leadFilterConditionSchema>;
+
+export interface LeadFilterGroup {
+  combinator: 'and' | 'or';
+  conditions: (LeadFilterCondition | LeadFilterGroup)[];
+}
+
+export const leadFilterGroupSchema: z.ZodType<LeadFilterGroup> = z.lazy(() => z.object({
+  combinator: z.enum(['and', 'or']),
+  conditions: z.array(z.union([leadFilterConditionSchema, leadFilterGroupSchema])).max(50),
+}));
+
+export function isLeadFilterGroup(entry: LeadFilterCondition | LeadFilterGroup): entry is LeadFilterGroup {
+  return 'combinator' in entry;
+}
+
+// Saved lead-table views. A view is private to its creator unless shared with a role; views an
+// admin publishes as defaults show as tabs for everyone with that role, other views are pinned per user.
+export const USER_ROLES = ['admin', 'agent', 'engineer'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+// Optional columns of the leads table; the lead name and actions are always shown
+export const LEAD_TABLE_COLUMNS = ['contact', 'status', 'priority', 'products', 'value', 'followUpDate', 'lastContactedAt', 'score', 'assignedTo'] as const;
+export type LeadTableColumn = typeof LEAD_TABLE_COLUMNS[number];
+export const DEFAULT_LEAD_TABLE_COLUMNS: LeadTableColumn[] = ['contact', 'status', 'priority', 'products', 'value', 'followUpDate', 'assignedTo'];
+
+// mine: leads the viewer is the agent or engineer on
+// noContactDays: not contacted (or, if never contacted, created) within this many days
+// followUp: leads whose follow-up is due (overdue ones included) or overdue
+// customFields: custom field key -> value, matched like the ?cf.<key>= list filter
+// query: advanced filter conditions, as sent in ?filter=
+export const savedViewFiltersSchema = z.object({
+  search: z.string().trim().max(200).optional(),
+  pipelineId: z.number().int().positive().optional(),
+  status: z.string().min(1).optional(),
+  priority: z.enum(['low', 'medium', 'high']).optional(),
+  mine: z.boolean().optional(),
+  noContactDays: z.number().int().min(1).max(3650).optional(),
+  followUp: z.enum(FOLLOW_UP_STATES).optional(),
+  customFields: z.record(z.string(), z.string()).optional(),
+  query: leadFilterGroupSchema.optional(),
 });
+export type SavedViewFilters = z.infer<typeof savedViewFiltersSchema>;
+
+export const savedViews = pgTable('saved_views', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  createdById: integer('created_by_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  sharedWithRole: text('shared_with_role', { enum: USER_ROLES }), // null keeps the view private
+  isDefault: boolean('is_default').default(false).notNull(), // admin-published; requires sharedWithRole
+  filters: jsonb('filters').$type<SavedViewFilters>().default({}).notNull(),
+  sortBy: text('sort_by').default('createdAt').notNull(),
+  sortOrder: text('sort_order', { enum: ['asc', 'desc'] }).default('desc').notNull(),
+  columns: text('columns').array().$type<LeadTableColumn[]>().notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Views a user has pinned as tabs above the leads table
+export const savedViewPins = pgTable('saved_view_pins', {
+  id: serial('id').primaryKey(),
+  viewId: integer('view_id').references(() => savedViews.id, { onDelete: 'cascade' }).notNull(),
+  userId: integer('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('saved_view_pins_view_user_idx').on(table.viewId, table.userId),
+]);
+
+// Managed tags for leads and products. Leads and products keep storing tag names in their tags
+// arrays; renaming or merging a tag rewrites every array that uses it. Names are unique ignoring case.
+export const tags = pgTable('tags', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  color: text('color', { enum: STAGE_COLORS }).default('slate').notNull(), // same palette as pipeline stages
+  description: text('description'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('tags_name_idx').on(sql`lower(${table.name})`),
+]);
+
+// Workspace-wide settings changed by admins, one JSON value per key
+export const appSettings = pgTable('app_settings', {
+  key: text('key').primaryKey(),
+  value: jsonb('value').$type<Record<string, unknown>>().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// With restrictCreation on, only admins can use tags that aren't in the registry yet
+export const tagSettingsSchema = z.object({
+  restrictCreation: z.boolean(),
+});
+export type TagSettings = z.infer<typeof tagSettingsSchema>;
+export const DEFAULT_TAG_SETTINGS: TagSettings = { restrictCreation: false };
+
+export const currencyCodeSchema = z.string().trim().toUpperCase().regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code like USD');
+
+// Amounts in other currencies are reported in the base currency: rates[code] is what one unit of
+// that currency is worth in the base currency
+export const currencySettingsSchema = z.object({
+  baseCurrency: currencyCodeSchema,
+  rates: z.record(currencyCodeSchema, z.number().positive('Exchange rates must be more than 0')),
+});
+export type CurrencySettings = z.infer<typeof currencySettingsSchema>;
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = { baseCurrency: 'USD', rates: {} };
+
+// Offered in currency pickers; other ISO codes can still be typed in
+export const COMMON_CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'NZD', 'CHF', 'JPY', 'CNY', 'INR', 'SGD', 'HKD', 'AED', 'SAR', 'ZAR', 'BRL', 'MXN', 'SEK', 'NOK', 'DKK', 'PLN'];
+
+// An amount in another currency, converted through the base currency; null when a rate is missing
+export function convertAmount(amount: number, from: string, to: string, settings: CurrencySettings): number | null {
+  if (from === to) return amount;
+  const rate = (code: string) => code === settings.baseCurrency ? 1 : settings.rates[code];
+  const fromRate = rate(from);
+  const toRate = rate(to);
+  if (!fromRate || !toRate) return null;
+  return Math.round(amount * fromRate / toRate * 100) / 100;
+}
+
+// Quote documents. Admins keep HTML templates with {{merge fields}}; generating a quote renders the
+// lead's line items into a template and saves the PDF as a lead attachment. Revising a quote keeps
+// its number and adds a version.
+export const quoteTemplates = pgTable('quote_templates', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  body: text('body').notNull(), // HTML with merge fields
+  isDefault: boolean('is_default').default(false).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export const QUOTE_STATUSES = ['draft', 'sent', 'accepted', 'rejected'] as const;
+
+export const quotes = pgTable('quotes', {
+  id: serial('id').primaryKey(),
+  leadId: integer('lead_id').references(() => leads.id, { onDelete: 'cascade' }).notNull(),
+  number: integer('number').notNull(),
+  version: integer('version').default(1).notNull(),
+  templateId: integer('template_id').references(() => quoteTemplates.id, { onDelete: 'set null' }),
+  status: text('status', { enum: QUOTE_STATUSES }).default('draft').notNull(),
+  // Totals and the rendered document as they were when this version was generated
+  currency: text('currency').notNull(),
+  oneTimeTotal: real('one_time_total').default(0).notNull(),
+  monthlyTotal: real('monthly_total').default(0).notNull(),
+  total: real('total').default(0).notNull(),
+  html: text('html').notNull(),
+  attachmentId: integer('attachment_id').references(() => leadAttachments.id, { onDelete: 'set null' }), // the PDF
+  createdById: integer('created_by_id').references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  statusChangedAt: timestamp('status_changed_at'),
+}, (table) => [
+  uniqueIndex('quotes_number_version_idx').on(table.number, table.version),
+  index('quotes_lead_idx').on(table.leadId),
+]);
+
+// Quotes are valid for this many days from the date they are generated
+export const QUOTE_VALIDITY_DAYS = 30;
+
+// Quotes are numbered Q-00001, Q-00002, ...; versions share their quote's number
+export function quoteReference(number: number): string {
+  return `Q-${String(number).padStart(5, '0')}`;
+}
+
+// Merge fields quote templates can use. {{#items}}...{{/items}} repeats its contents for each line
+// item; any other {{#field}}...{{/field}} section is left out when the field is empty.
+export const QUOTE_MERGE_FIELDS = [
+  { field: 'quote.number', description: 'Quote number, e.g. Q-00012' },
+  { field: 'quote.version', description: 'Version of the quote, starting at 1' },
+  { field: 'quote.date', description: 'Date this version was generated' },
+  { field: 'quote.validUntil', description: `${QUOTE_VALIDITY_DAYS} days after the quote date` },
+  { field: 'quote.oneTimeTotal', description: 'One-time charges' },
+  { field: 'quote.monthlyTotal', description: 'Monthly charges' },
+  { field: 'quote.total', description: 'Deal value: one-time charges plus a year of monthly charges' },
+  { field: 'lead.name', description: 'Lead name' },
+  { field: 'lead.company', description: 'Lead company' },
+  { field: 'lead.email', description: 'Lead email' },
+  { field: 'lead.phone', description: 'Lead phone' },
+  { field: 'agent.name', description: "Name of the lead's agent" },
+  { field: 'agent.email', description: "Email of the lead's agent" },
+  { field: 'items', description: 'Section repeated for each line item' },
+  { field: 'name', description: 'In items: product name' },
+  { field: 'pitch', description: 'In items: product pitch' },
+  { field: 'talkingPoints', description: 'In items: product talking points' },
+  { field: 'quantity', description: 'In items: quantity' },
+  { field: 'unitPrice', description: 'In items: unit price' },
+  { field: 'discount', description: 'In items: discount, as a percentage or amount' },
+  { field: 'billing', description: 'In items: "One-time" or "Monthly"' },
+  { field: 'total', description: 'In items: line total after discount' },
+] as const;
+
+// Invoices for won deals. Lines start out as the lead's line items and can be edited while the
+// invoice is a draft. Issuing sets the due date; payments may be partial, and an invoice is paid once
+// they cover its total or overdue once its due date passes first. The customer is copied onto the
+// invoice so it outlives the lead.
+export const INVOICE_STATUSES = ['draft', 'issued', 'paid', 'overdue'] as const;
+
+// Invoice amounts are stored exactly to the cent; a real column loses the cents of totals in the millions
+const money = customType<{ data: number; driverData: string }>({
+  dataType: () => 'numeric(12, 2)',
+  fromDriver: value => Number(value),
+});
+
+export const invoices = pgTable('invoices', {
+  id: serial('id').primaryKey(),
+  leadId: integer('lead_id').references(() => leads.id, { onDelete: 'set null' }),
+  number: integer('number').notNull(),
+  reference: text('reference').notNull(), // the number with the prefix in use when it was created, e.g. INV-00042
+  status: text('status', { enum: INVOICE_STATUSES }).default('draft').notNull(),
+  customerName: text('customer_name').notNull(),
+  customerCompany: text('customer_company'),
+  customerEmail: text('customer_email'),
+  currency: text('currency').notNull(),
+  taxRate: real('tax_rate').default(0).notNull(), // percent
+  subtotal: money('subtotal').default(0).notNull(),
+  taxAmount: money('tax_amount').default(0).notNull(),
+  total: money('total').default(0).notNull(),
+  amountPaid: money('amount_paid').default(0).notNull(),
+  notes: text('notes'),
+  issuedAt: timestamp('issued_at'),
+  dueDate: timestamp('due_date'),
+  paidAt: timestamp('paid_at'),
+  createdById: integer('created_by_id').references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('invoices_number_idx').on(table.number),
+  index('invoices_lead_idx').on(table.leadId),
+]);
+
+export const invoiceLines = pgTable('invoice_lines', {
+  id: serial('id').primaryKey(),
+  invoiceId: integer('invoice_id').references(() => invoices.id, { onDelete: 'cascade' }).notNull(),
+  productId: integer('product_id').references(() => products.id, { onDelete: 'set null' }),
+  description: text('description').notNull(),
+  quantity: real('quantity').default(1).notNull(),
+  unitPrice: money('unit_price').default(0).notNull(),
+  discount: money('discount').default(0).notNull(), // an amount off the line
+  amount: money('amount').notNull(),
+  displayOrder: integer('display_order').default(0).notNull(),
+});
+
+export const invoicePayments = pgTable('invoice_payments', {
+  id: serial('id').primaryKey(),
+  invoiceId: integer('invoice_id').references(() => invoices.id, { onDelete: 'cascade' }).notNull(),
+  amount: money('amount').notNull(),
+  paidAt: timestamp('paid_at').notNull(),
+  method: text('method'), // e.g. bank transfer, card
+  reference: text('reference'),
+  recordedById: integer('recorded_by_id').references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Numbering and defaults for new invoices. Numbers continue from the highest one used, starting at
+// startingNumber; the prefix is stored on each invoice when it is created.
+export const invoiceSettingsSchema = z.object({
+  prefix: z.string().trim().max(20),
+  startingNumber: z.number().int().min(1),
+  paymentTermsDays: z.number().int().min(0).max(365),
+  defaultTaxRate: z.number().min(0).max(100),
+});
+export type InvoiceSettings = z.infer<typeof invoiceSettingsSchema>;
+export const DEFAULT_INVOICE_SETTINGS: InvoiceSettings = { prefix: 'INV-', startingNumber: 1, paymentTermsDays: 30, defaultTaxRate: 0 };
+
+export function invoiceReference(prefix: string, number: number): string {
+  return `${prefix}${String(number).padStart(5, '0')}`;
+}
+
+// Tasks: to-dos for a user, optionally about a lead. A task is open until it is completed.
+export const TASK_PRIORITIES = ['low', 'medium', 'high'] as const;
+
+export const tasks = pgTable('tasks', {
+  id: serial('id').primaryKey(),
+  title: text('title').notNull(),
+  description: text('description'),
+  dueAt: timestamp('due_at'),
+  priority: text('priority', { enum: TASK_PRIORITIES }).default('medium').notNull(),
+  assignedTo: integer('assigned_to').references(() => users.id, { onDelete: 'set null' }),
+  leadId: integer('lead_id').references(() => leads.id, { onDelete: 'cascade' }),
+  createdById: integer('created_by_id').references(() => users.id, { onDelete: 'set null' }),
+  completedAt: timestamp('completed_at'),
+  completedById: integer('completed_by_id').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('tasks_assigned_to_idx').on(table.assignedTo),
+  index('tasks_lead_idx').on(table.leadId),
+]);
+
+// Calendar feeds: each user's secret subscription URL for their follow-ups, meetings and tasks.
+// Resetting the token replaces the URL.
+export const calendarFeeds = pgTable('calendar_feeds', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  token: text('token').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('calendar_feeds_user_idx').on(table.userId),
+  uniqueIndex('calendar_feeds_token_idx').on(table.token),
+]);
+
+// Notifications: in-app messages to one user, shown under the header bell until read
+export const NOTIFICATION_EVENTS = ['lead_assigned', 'engineer_assigned', 'urgent_interaction', 'follow_up_overdue'] as const;
+
+export const notifications = pgTable('notifications', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  event: text('event', { enum: NOTIFICATION_EVENTS }).notNull(),
+  title: text('title').notNull(),
+  message: text('message').notNull(),
+  leadId: integer('lead_id').references(() => leads.id, { onDelete: 'cascade' }),
+  readAt: timestamp('read_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('notifications_user_idx').on(table.userId, table.createdAt),
+]);
+
+// Every event is on until a user turns it off; only the user's choices are stored
+export const notificationPreferences = pgTable('notification_preferences', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  event: text('event', { enum: NOTIFICATION_EVENTS }).notNull(),
+  enabled: boolean('enabled').notNull(),
+}, (table) => [
+  uniqueIndex('notification_preferences_user_event_idx').on(table.userId, table.event),
+]);
 
 // MCP (Model Context Protocol) Server Management
 export const mcpServers = pgTable('mcp_servers', {
@@ -125,8 +753,24 @@ export const usersRelations = relations(users, ({ many }) => ({
   attachments: many(leadAttachments),
 }));
 
-export const productsRelations = relations(products, ({ many }) => ({
+export const productsRelations = relations(products, ({ one, many }) => ({
   leadProducts: many(leadProducts),
+  defaultPipeline: one(pipelines, {
+    fields: [products.defaultPipelineId],
+    references: [pipelines.id],
+  }),
+}));
+
+export const pipelinesRelations = relations(pipelines, ({ many }) => ({
+  stages: many(pipelineStages),
+  leads: many(leads),
+}));
+
+export const pipelineStagesRelations = relations(pipelineStages, ({ one }) => ({
+  pipeline: one(pipelines, {
+    fields: [pipelineStages.pipelineId],
+    references: [pipelines.id],
+  }),
 }));
 
 export const leadsRelations = relations(leads, ({ one, many }) => ({
@@ -140,9 +784,65 @@ export const leadsRelations = relations(leads, ({ one, many }) => ({
     references: [users.id],
     relationName: 'assignedEngineer',
   }),
+  pipeline: one(pipelines, {
+    fields: [leads.pipelineId],
+    references: [pipelines.id],
+  }),
+  closeReason: one(closeReasons, {
+    fields: [leads.closeReasonId],
+    references: [closeReasons.id],
+  }),
+  account: one(accounts, {
+    fields: [leads.accountId],
+    references: [accounts.id],
+  }),
+  primaryContact: one(contacts, {
+    fields: [leads.primaryContactId],
+    references: [contacts.id],
+  }),
   leadProducts: many(leadProducts),
   interactions: many(interactions),
   attachments: many(leadAttachments),
+  statusHistory: many(leadStatusHistory),
+  fieldChanges: many(leadFieldChanges),
+}));
+
+export const accountsRelations = relations(accounts, ({ one, many }) => ({
+  owner: one(users, {
+    fields: [accounts.ownerId],
+    references: [users.id],
+  }),
+  contacts: many(contacts),
+  leads: many(leads),
+}));
+
+export const contactsRelations = relations(contacts, ({ one }) => ({
+  account: one(accounts, {
+    fields: [contacts.accountId],
+    references: [accounts.id],
+  }),
+}));
+
+export const leadStatusHistoryRelations = relations(leadStatusHistory, ({ one }) => ({
+  lead: one(leads, {
+    fields: [leadStatusHistory.leadId],
+    references: [leads.id],
+  }),
+  changedBy: one(users, {
+    fields: [leadStatusHistory.changedById],
+    references: [users.id],
+  }),
+}));
+
+export const leadFieldChangesRelations = relations(leadFieldChanges, ({ one }) => ({
+  lead: one(leads, {
+    fields: [leadFieldChanges.leadId],
+    references: [leads.id],
+  }),
+  changedBy: one(users, {
+    fields: [leadFieldChanges.changedById],
+    references: [users.id],
+  }),
 }));
 
 export const leadProductsRelations = relations(leadProducts, ({ one }) => ({
@@ -190,16 +890,92 @@ export const insertUserSchema = createInsertSchema(users).omit({
 export const insertProductSchema = createInsertSchema(products).omit({
   id: true,
   createdAt: true,
+}).extend({
+  priceAmount: z.number().min(0, 'Price cannot be negative').nullish(),
+  currency: currencyCodeSchema.optional(),
+  setupFee: z.number().min(0, 'Setup fee cannot be negative').nullish(),
 });
 
 export const insertLeadSchema = createInsertSchema(leads).omit({
   id: true,
   createdAt: true,
+  scoreBreakdown: true, // written only by the scoring rules
+  closedAt: true, // set when the lead enters a won or lost stage
+  deletedAt: true, // set by moving the lead to the trash
+  deletedById: true,
+}).extend({
+  // Checked against the field definitions with customFieldValuesSchema
+  customFields: z.record(z.string(), z.any()).optional(),
+  currency: currencyCodeSchema.optional(),
 });
 
+function customFieldValueSchema(field: Pick<CustomField, 'label' | 'type' | 'options'>): z.ZodTypeAny {
+  const options = field.options ?? [];
+  switch (field.type) {
+    case 'number':
+      return z.number({ invalid_type_error: `${field.label} must be a number` }).finite();
+    case 'boolean':
+      return z.boolean({ invalid_type_error: `${field.label} must be true or false` });
+    case 'date':
+      return z.string().regex(/^\d{4}-\d{2}-\d{2}$/, `${field.label} must be a date (YYYY-MM-DD)`)
+        .refine(value => !isNaN(Date.parse(value)), `${field.label} must be a valid date`);
+    case 'url':
+      return z.string().trim().url(`${field.label} must be a URL`);
+    case 'select':
+      return z.string().refine(value => options.includes(value), `${field.label} must be one of: ${options.join(', ')}`);
+    case 'multiselect':
+      return z.array(z.string().refine(value => options.includes(value), `${field.label} must only use: ${options.join(', ')}`));
+    default:
+      return z.string().trim();
+  }
+}
+
+function isBlankCustomFieldValue(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+// Validates a lead's custom field values against the admin-defined fields. Blank values are
+// stored as null; unknown keys and missing required fields are rejected.
+export function customFieldValuesSchema(fields: CustomField[]) {
+  const byKey = new Map(fields.map(field => [field.key, field]));
+
+  return z.record(z.string(), z.unknown()).superRefine((values, ctx) => {
+    for (const key of Object.keys(values)) {
+      if (!byKey.has(key)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `Unknown custom field "${key}"` });
+      }
+    }
+    for (const field of fields) {
+      const value = values[field.key];
+      if (isBlankCustomFieldValue(value)) {
+        if (field.required) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field.key], message: `${field.label} is required` });
+        }
+        continue;
+      }
+      const result = customFieldValueSchema(field).safeParse(value);
+      if (!result.success) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field.key], message: result.error.issues[0].message });
+      }
+    }
+  }).transform(values => {
+    const cleaned: Record<string, CustomFieldValue> = {};
+    for (const field of fields) {
+      const value = values[field.key];
+      if (value === undefined) continue;
+      cleaned[field.key] = isBlankCustomFieldValue(value)
+        ? null
+        : typeof value === 'string' ? value.trim() : value as CustomFieldValue;
+    }
+    return cleaned;
+  });
+}
+
 export const insertInteractionSchema = createInsertSchema(interactions).omit({
   id: true,
   createdAt: true,
+}).extend({
+  scheduledAt: z.coerce.date().nullish(),
 });
 
 export const insertWebhookSchema = createInsertSchema(webhooks).omit({
@@ -218,6 +994,251 @@ export const insertLeadProductSchema = createInsertSchema(leadProducts).omit({
   createdAt: true,
 });
 
+// One line of PUT /api/leads/:id/line-items; a missing unit price is taken from the product
+export const lineItemInputSchema = z.object({
+  productId: z.number().int(),
+  quantity: z.number().positive('Quantity must be more than 0').default(1),
+  unitPrice: z.number().min(0, 'Unit price cannot be negative').nullish(),
+  discount: z.number().min(0, 'Discount cannot be negative').default(0),
+  discountType: z.enum(LINE_ITEM_DISCOUNT_TYPES).default('percent'),
+  billingType: z.enum(LINE_ITEM_BILLING_TYPES).optional(),
+}).refine(item => item.discountType !== 'percent' || item.discount <= 100, { message: 'A discount cannot be more than 100%', path: ['discount'] });
+
+// Replaces the lead's line items (and with them its interested products)
+export const leadLineItemsSchema = z.object({
+  items: z.array(lineItemInputSchema).refine(
+    items => new Set(items.map(item => item.productId)).size === items.length,
+    'Each product can only be on the lead once',
+  ),
+  valueFromLineItems: z.boolean().optional(),
+});
+
+export const insertPipelineSchema = createInsertSchema(pipelines).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, 'Pipeline name is required'),
+});
+
+// Moves leads into another pipeline; stageMapping maps each current stage key to a target stage key
+export const movePipelineSchema = z.object({
+  leadIds: z.array(z.number().int()).min(1),
+  pipelineId: z.number().int(),
+  stageMapping: z.record(z.string(), z.string()).default({}),
+});
+
+export const BULK_LEAD_LIMIT = 500;
+
+const bulkLeadIds = z.array(z.number().int()).min(1).max(BULK_LEAD_LIMIT, `At most ${BULK_LEAD_LIMIT} leads can be changed at once`);
+
+// One action applied to many selected leads; each lead is checked and changed on its own
+export const bulkLeadActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('status'),
+    leadIds: bulkLeadIds,
+    status: z.string().min(1),
+    closeReasonId: z.number().int().nullish(),
+    closeCompetitor: z.string().nullish(),
+    closeNote: z.string().nullish(),
+  }),
+  z.object({ action: z.literal('priority'), leadIds: bulkLeadIds, priority: z.enum(['low', 'medium', 'high']) }),
+  z.object({ action: z.literal('addTags'), leadIds: bulkLeadIds, tags: z.array(z.string().trim().min(1)).min(1) }),
+  z.object({ action: z.literal('removeTags'), leadIds: bulkLeadIds, tags: z.array(z.string().trim().min(1)).min(1) }),
+  z.object({ action: z.literal('addProducts'), leadIds: bulkLeadIds, productIds: z.array(z.number().int()).min(1) }),
+  z.object({ action: z.literal('removeProducts'), leadIds: bulkLeadIds, productIds: z.array(z.number().int()).min(1) }),
+  z.object({ action: z.literal('followUpDate'), leadIds: bulkLeadIds, followUpDate: z.coerce.date().nullable() }),
+  z.object({ action: z.literal('delete'), leadIds: bulkLeadIds }),
+  z.object({ action: z.literal('export'), leadIds: bulkLeadIds }),
+]);
+
+export type BulkLeadAction = z.infer<typeof bulkLeadActionSchema>;
+
+export interface BulkLeadResult {
+  leadId: number;
+  success: boolean;
+  error?: string;
+}
+
+export const insertPipelineStageSchema = createInsertSchema(pipelineStages).omit({
+  id: true,
+  key: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, 'Stage name is required'),
+  winProbability: z.number().int().min(0).max(100).optional(),
+});
+
+export const insertCustomFieldSchema = createInsertSchema(customFields).omit({
+  id: true,
+  key: true,
+  createdAt: true,
+}).extend({
+  label: z.string().trim().min(1, 'Field label is required'),
+  options: z.array(z.string().trim().min(1)).nullish(),
+});
+
+export const insertCloseReasonSchema = createInsertSchema(closeReasons).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  label: z.string().trim().min(1, 'Reason is required'),
+});
+
+export const insertScoringRuleSchema = createInsertSchema(scoringRules).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, 'Rule name is required'),
+  points: z.number().int().min(-100).max(100),
+  // Checked against scoringRuleConfigSchemas for the rule's type
+  config: z.record(z.string(), z.any()),
+});
+
+// Written out rather than derived with createInsertSchema, which can't map the recursive filter query type
+export const insertSavedViewSchema = z.object({
+  name: z.string().trim().min(1, 'View name is required').max(80),
+  sharedWithRole: z.enum(USER_ROLES).nullable().optional(),
+  isDefault: z.boolean().optional(),
+  filters: savedViewFiltersSchema,
+  sortBy: z.string().min(1).optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
+  columns: z.array(z.enum(LEAD_TABLE_COLUMNS)),
+});
+
+export const insertAccountSchema = createInsertSchema(accounts).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, 'Account name is required'),
+  domain: z.string().trim().toLowerCase()
+    .regex(/^[a-z0-9.-]+\.[a-z]{2,}$/, 'Domain must look like example.com')
+    .nullish()
+    .or(z.literal('').transform(() => null)),
+});
+
+export const insertContactSchema = createInsertSchema(contacts).omit({
+  id: true,
+  accountId: true, // taken from the account the contact is added to
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, 'Contact name is required'),
+  email: z.string().trim().email('Invalid email').nullish().or(z.literal('').transform(() => null)),
+});
+
+export const insertTagSchema = createInsertSchema(tags).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, 'Tag name is required').max(50),
+  description: z.string().trim().nullish(),
+});
+
+// Folds the source tags into the target tag on every lead and product that uses them
+export const tagMergeSchema = z.object({
+  sourceNames: z.array(z.string().trim().min(1)).min(1),
+});
+
+export const insertQuoteTemplateSchema = createInsertSchema(quoteTemplates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, 'Template name is required'),
+  body: z.string().trim().min(1, 'Template body is required'),
+});
+
+export const insertQuoteSchema = createInsertSchema(quotes).omit({
+  id: true,
+  createdAt: true,
+  statusChangedAt: true,
+});
+
+// POST /api/leads/:id/quotes and POST /api/quotes/:id/revise; without a template the default is used
+export const generateQuoteSchema = z.object({
+  templateId: z.number().int().optional(),
+});
+
+// Accepting a quote can also close the lead as won, which needs a won reason like any other close
+export const quoteStatusSchema = z.object({
+  status: z.enum(QUOTE_STATUSES),
+  markWon: z.boolean().optional(),
+  closeReasonId: z.number().int().nullish(),
+  closeNote: z.string().trim().nullish(),
+});
+
+// Numbers, totals, payments and status are kept by storage
+export const insertInvoiceSchema = createInsertSchema(invoices).omit({
+  id: true,
+  number: true,
+  reference: true,
+  status: true,
+  subtotal: true,
+  taxAmount: true,
+  total: true,
+  amountPaid: true,
+  issuedAt: true,
+  paidAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Snoozing moves the follow-up to a later date
+export const snoozeFollowUpSchema = z.object({
+  until: z.coerce.date().refine(date => date.getTime() > Date.now(), 'Snooze until a time in the future'),
+});
+
+export const invoiceLineInputSchema = z.object({
+  productId: z.number().int().nullish(),
+  description: z.string().trim().min(1, 'Each line needs a description'),
+  quantity: z.number().positive('Quantity must be more than 0'),
+  unitPrice: z.number().min(0, 'Unit price cannot be negative'),
+  discount: z.number().min(0, 'Discount cannot be negative').default(0),
+});
+
+// Draft invoices can be edited; lines, when sent, replace the invoice's lines
+export const updateInvoiceSchema = z.object({
+  customerName: z.string().trim().min(1, 'Customer name is required').optional(),
+  customerCompany: z.string().trim().nullish(),
+  customerEmail: z.string().trim().email('Invalid email').nullish().or(z.literal('').transform(() => null)),
+  taxRate: z.number().min(0, 'Tax rate cannot be negative').max(100, 'Tax rate cannot be more than 100%').optional(),
+  dueDate: z.coerce.date().nullish(),
+  notes: z.string().trim().nullish(),
+  lines: z.array(invoiceLineInputSchema).min(1, 'An invoice needs at least one line').optional(),
+});
+
+// Issuing without a due date uses the payment terms from the invoice settings
+export const issueInvoiceSchema = z.object({
+  dueDate: z.coerce.date().optional(),
+});
+
+export const invoicePaymentSchema = z.object({
+  amount: z.number().positive('Payment must be more than 0'),
+  paidAt: z.coerce.date().optional(),
+  method: z.string().trim().nullish(),
+  reference: z.string().trim().nullish(),
+});
+
+export const insertTaskSchema = createInsertSchema(tasks).omit({
+  id: true,
+  createdById: true,
+  completedAt: true,
+  completedById: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  title: z.string().trim().min(1, 'Task title is required'),
+  description: z.string().trim().nullish(),
+  dueAt: z.coerce.date().nullish(),
+});
+
+// Completing a task is an update with completed: true; false reopens it
+export const updateTaskSchema = insertTaskSchema.partial().extend({
+  completed: z.boolean().optional(),
+});
+
+// PUT /api/notifications/preferences: the events to change, others are left as they are
+export const notificationPreferencesSchema = z.record(z.enum(NOTIFICATION_EVENTS), z.boolean());
+
 export const insertMcpServerSchema = createInsertSchema(mcpServers).omit({
   id: true,
   createdAt: true,
@@ -228,8 +1249,10 @@ export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Product = typeof products.$inferSelect;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
+export type PricingModel = typeof PRICING_MODELS[number];
 export type Lead = typeof leads.$inferSelect;
 export type InsertLead = z.infer<typeof insertLeadSchema>;
+export type LeadWithProducts = Lead & { products: Product[] };
 export type Interaction = typeof interactions.$inferSelect;
 export type InsertInteraction = z.infer<typeof insertInteractionSchema>;
 export type Webhook = typeof webhooks.$inferSelect;
@@ -238,5 +1261,308 @@ export type LeadAttachment = typeof leadAttachments.$inferSelect;
 export type InsertLeadAttachment = z.infer<typeof insertLeadAttachmentSchema>;
 export type LeadProduct = typeof leadProducts.$inferSelect;
 export type InsertLeadProduct = z.infer<typeof insertLeadProductSchema>;
+export type LineItemBillingType = typeof LINE_ITEM_BILLING_TYPES[number];
+export type LineItemDiscountType = typeof LINE_ITEM_DISCOUNT_TYPES[number];
+export type LineItemInput = z.infer<typeof lineItemInputSchema>;
+// A lead-product link with its product and what the line comes to after discount
+export type LeadLineItem = LeadProduct & { product: Product; total: number };
+export type LeadDuplicateDismissal = typeof leadDuplicateDismissals.$inferSelect;
+export type LeadStatusChange = typeof leadStatusHistory.$inferSelect;
+export type LeadFieldChange = typeof leadFieldChanges.$inferSelect;
+export type Pipeline = typeof pipelines.$inferSelect;
+export type InsertPipeline = z.infer<typeof insertPipelineSchema>;
+export type PipelineMove = z.infer<typeof movePipelineSchema>;
+export type PipelineStage = typeof pipelineStages.$inferSelect;
+export type InsertPipelineStage = z.infer<typeof insertPipelineStageSchema>;
+export type StageType = typeof STAGE_TYPES[number];
+export type StageColor = typeof STAGE_COLORS[number];
+export type CustomField = typeof customFields.$inferSelect;
+export type InsertCustomField = z.infer<typeof insertCustomFieldSchema>;
+export type CustomFieldType = typeof CUSTOM_FIELD_TYPES[number];
+export type CloseReason = typeof closeReasons.$inferSelect;
+export type InsertCloseReason = z.infer<typeof insertCloseReasonSchema>;
+export type CloseReasonType = typeof CLOSE_REASON_TYPES[number];
+export type ScoringRule = typeof scoringRules.$inferSelect;
+export type InsertScoringRule = z.infer<typeof insertScoringRuleSchema>;
+export type SavedView = typeof savedViews.$inferSelect;
+export type SavedViewPin = typeof savedViewPins.$inferSelect;
+export type InsertSavedView = z.infer<typeof insertSavedViewSchema>;
+// As listed for one user: whether they pinned it and who created it
+export type SavedViewWithState = SavedView & { isPinned: boolean; createdByName: string | null };
+export type Tag = typeof tags.$inferSelect;
+export type InsertTag = z.infer<typeof insertTagSchema>;
+// Usage counts cover live leads and all products
+export type TagWithUsage = Tag & { leadCount: number; productCount: number };
+// Tag names found on leads or products that aren't in the registry
+export interface UnregisteredTag {
+  name: string;
+  leadCount: number;
+  productCount: number;
+}
+export type AppSetting = typeof appSettings.$inferSelect;
+export type Account = typeof accounts.$inferSelect;
+export type InsertAccount = z.infer<typeof insertAccountSchema>;
+export type AccountSize = typeof ACCOUNT_SIZES[number];
+export type Contact = typeof contacts.$inferSelect;
+export type InsertContact = z.infer<typeof insertContactSchema>;
+// Deal counts and values cover the account's live leads that the requesting user can see
+export type AccountWithStats = Account & {
+  ownerName: string | null;
+  contactCount: number;
+  leadCount: number;
+  openValue: number;
+  wonValue: number;
+};
+export type AccountInteraction = Interaction & { leadName: string; userName: string | null };
+// Returned by GET /api/accounts/:id
+export type AccountDetail = AccountWithStats & {
+  contacts: Contact[];
+  leads: LeadWithProducts[];
+  interactions: AccountInteraction[];
+};
+export type QuoteTemplate = typeof quoteTemplates.$inferSelect;
+export type InsertQuoteTemplate = z.infer<typeof insertQuoteTemplateSchema>;
+export type Quote = typeof quotes.$inferSelect;
+export type InsertQuote = z.infer<typeof insertQuoteSchema>;
+export type QuoteStatus = typeof QUOTE_STATUSES[number];
+// As listed on a lead, with the PDF's file name
+export type QuoteWithDetails = Quote & { createdByName: string | null; fileName: string | null };
+export type FollowUpState = typeof FOLLOW_UP_STATES[number];
+export type FollowUpReminder = typeof followUpReminders.$inferSelect;
+// Returned by GET /api/follow-ups: the user's leads with a follow-up that has come due
+export type DueFollowUp = Pick<Lead, 'id' | 'name' | 'company' | 'status' | 'pipelineId' | 'priority' | 'assignedTo'> & { followUpDate: Date; state: FollowUpState };
+export type Task = typeof tasks.$inferSelect;
+export type InsertTask = z.infer<typeof insertTaskSchema>;
+export type TaskUpdate = z.infer<typeof updateTaskSchema>;
+export type TaskPriority = typeof TASK_PRIORITIES[number];
+export type TaskWithDetails = Task & { leadName: string | null; assigneeName: string | null };
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+export type NotificationEvent = typeof NOTIFICATION_EVENTS[number];
+export type NotificationPreference = typeof notificationPreferences.$inferSelect;
+export type NotificationPreferences = Record<NotificationEvent, boolean>;
+export type Invoice = typeof invoices.$inferSelect;
+export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
+export type InvoiceStatus = typeof INVOICE_STATUSES[number];
+export type InvoiceLine = typeof invoiceLines.$inferSelect;
+export type InvoiceLineInput = z.infer<typeof invoiceLineInputSchema>;
+export type InvoicePayment = typeof invoicePayments.$inferSelect;
+export type InvoiceUpdate = z.infer<typeof updateInvoiceSchema>;
+export type InvoicePaymentInput = z.infer<typeof invoicePaymentSchema>;
+// Returned by GET /api/invoices/:id
+export type InvoiceDetail = Invoice & { lines: InvoiceLine[]; payments: (InvoicePayment & { recordedByName: string | null })[] };
 export type McpServer = typeof mcpServers.$inferSelect;
 export type InsertMcpServer = z.infer<typeof insertMcpServerSchema>;
+
+
+// Line items
+// Months of a monthly line item counted in a lead value computed from its line items
+export const MONTHLY_LINE_ITEM_TERM_MONTHS = 12;
+
+type PricedLine = Pick<LeadProduct, 'quantity' | 'unitPrice' | 'discount' | 'discountType'>;
+
+// A new line item is priced at the product's price in the lead's currency and bills monthly for
+// per-month products. It has no price for quote-only products or when an exchange rate is missing.
+export function productPriceDefaults(product: Pick<Product, 'priceAmount' | 'currency' | 'pricingModel'>, currency: string, settings: CurrencySettings): { unitPrice: number | null; billingType: LineItemBillingType } {
+  return {
+    unitPrice: product.priceAmount === null ? null : convertAmount(product.priceAmount, product.currency, currency, settings),
+    billingType: product.pricingModel === 'monthly' ? 'monthly' : 'one_time',
+  };
+}
+
+// What one line comes to after its discount, never below zero; unpriced lines come to nothing
+export function lineItemTotal(item: PricedLine): number {
+  const gross = item.quantity * (item.unitPrice ?? 0);
+  const discount = item.discountType === 'amount' ? item.discount : gross * item.discount / 100;
+  return Math.round(Math.max(gross - discount, 0) * 100) / 100;
+}
+
+// One-time and monthly totals, and the lead value they make: one-time plus a year of monthly charges
+export function lineItemTotals(items: (PricedLine & Pick<LeadProduct, 'billingType'>)[]): { oneTime: number; monthly: number; value: number } {
+  let oneTime = 0;
+  let monthly = 0;
+  for (const item of items) {
+    if (item.billingType === 'monthly') {
+      monthly += lineItemTotal(item);
+    } else {
+      oneTime += lineItemTotal(item);
+    }
+  }
+  const round = (amount: number) => Math.round(amount * 100) / 100;
+  return { oneTime: round(oneTime), monthly: round(monthly), value: round(oneTime + monthly * MONTHLY_LINE_ITEM_TERM_MONTHS) };
+}
+
+// Follow-ups
+// Whether a follow-up has come due, and whether it is overdue; null for none or one still to come
+export function followUpState(followUpDate: Date | string | null, now = new Date()): FollowUpState | null {
+  if (!followUpDate) return null;
+  const time = new Date(followUpDate).getTime();
+  if (time > now.getTime()) return null;
+  return time < now.getTime() - FOLLOW_UP_OVERDUE_AFTER_MS ? 'overdue' : 'due';
+}
+
+// Invoices
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+// What an invoice line comes to after its discount, never below zero
+export function invoiceLineAmount(line: Pick<InvoiceLineInput, 'quantity' | 'unitPrice' | 'discount'>): number {
+  return roundCents(Math.max(line.quantity * line.unitPrice - line.discount, 0));
+}
+
+// Tax is charged on the subtotal of the lines
+export function invoiceTotals(lines: Pick<InvoiceLineInput, 'quantity' | 'unitPrice' | 'discount'>[], taxRate: number): { subtotal: number; taxAmount: number; total: number } {
+  const subtotal = roundCents(lines.reduce((sum, line) => sum + invoiceLineAmount(line), 0));
+  const taxAmount = roundCents(subtotal * taxRate / 100);
+  return { subtotal, taxAmount, total: roundCents(subtotal + taxAmount) };
+}
+
+export function invoiceBalance(invoice: Pick<Invoice, 'total' | 'amountPaid'>): number {
+  return roundCents(Math.max(invoice.total - invoice.amountPaid, 0));
+}
+
+// The status of an issued invoice after its payments change or time passes
+export function issuedInvoiceStatus(invoice: Pick<Invoice, 'total' | 'amountPaid' | 'dueDate'>, now = new Date()): InvoiceStatus {
+  if (invoiceBalance(invoice) === 0) return 'paid';
+  return invoice.dueDate && invoice.dueDate < now ? 'overdue' : 'issued';
+}
+
+// Paginated lead listing returned by GET /api/leads
+export interface LeadPage {
+  leads: LeadWithProducts[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+// Trashed leads are purged for good once they have been deleted for longer than retentionDays
+export interface LeadTrashPage extends LeadPage {
+  retentionDays: number;
+}
+
+// Full-text search results returned by GET /api/leads/search.
+// Snippets wrap matched terms in these markers so clients can highlight them without rendering HTML.
+export const SEARCH_HIGHLIGHT_START = '\u0002';
+export const SEARCH_HIGHLIGHT_END = '\u0003';
+
+export interface LeadSearchMatch {
+  source: 'lead' | 'tags' | 'interaction' | 'attachment';
+  sourceId: number | null;
+  snippet: string;
+}
+
+export interface LeadSearchResult {
+  lead: LeadWithProducts;
+  rank: number;
+  matches: LeadSearchMatch[];
+}
+
+export interface LeadSearchPage {
+  results: LeadSearchResult[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+// Duplicate detection and merging
+export type DuplicateReason = 'email' | 'phone' | 'name' | 'company';
+
+export interface DuplicateCandidate {
+  lead: Lead;
+  reasons: DuplicateReason[];
+  score: number; // 0..1, higher means more likely the same person
+}
+
+export interface DuplicatePair {
+  leads: [LeadWithProducts, LeadWithProducts];
+  reasons: DuplicateReason[];
+  score: number;
+}
+
+// Lead columns a merge can take from either record
+export const MERGEABLE_LEAD_FIELDS = [
+  'name', 'email', 'phone', 'company', 'status', 'source', 'value', 'assignedTo', 'assignedEngineer',
+  'notes', 'priority', 'score', 'engineeringProgress', 'engineeringNotes', 'tags', 'followUpDate', 'lastContactedAt',
+] as const;
+
+export type MergeableLeadField = typeof MERGEABLE_LEAD_FIELDS[number];
+
+// Which lead each column is taken from. Columns left out keep the survivor's value, falling back
+// to the merged lead's when the survivor's is empty; tags are combined and notes concatenated.
+export type LeadMergeSelections = Partial<Record<MergeableLeadField, 'survivor' | 'merged'>>;
+
+export const leadMergeSchema = z.object({
+  survivorId: z.number().int().positive(),
+  mergedId: z.number().int().positive(),
+  fields: z.record(z.enum(MERGEABLE_LEAD_FIELDS), z.enum(['survivor', 'merged'])).default({}),
+}).refine(data => data.survivorId !== data.mergedId, { message: 'Cannot merge a lead into itself' });
+
+// Stage timeline returned by GET /api/leads/:id/status-history
+export type LeadStatusChangeWithUser = LeadStatusChange & { changedByName: string | null };
+export type LeadFieldChangeWithUser = LeadFieldChange & { changedByName: string | null };
+
+// Stage-duration analytics returned by GET /api/analytics/stages
+export interface StageDwell {
+  status: string;
+  entered: number; // stays that started in the date range
+  exited: number;
+  current: number; // leads still in this stage
+  avgDwellDays: number | null; // over completed stays only
+}
+
+export interface StageTransition {
+  fromStatus: string;
+  toStatus: string;
+  count: number;
+  rate: number; // share of exits from fromStatus that went to toStatus, 0..1
+}
+
+export interface StageAnalytics {
+  stages: StageDwell[];
+  transitions: StageTransition[];
+}
+
+// Lost-deal analytics returned in GET /api/analytics, over leads closed within ?from=&to=.
+// Leads closed before reasons were recorded count under a null reason.
+export interface LossReasonCount {
+  reasonId: number | null;
+  reason: string | null;
+  count: number;
+  value: number;
+}
+
+export interface LossReasonAnalytics {
+  total: number;
+  value: number;
+  byReason: LossReasonCount[];
+  byProduct: (LossReasonCount & { productId: number; product: string })[];
+  bySource: (LossReasonCount & { source: string | null })[];
+  byAgent: (LossReasonCount & { agentId: number | null; agent: string | null })[];
+  byCompetitor: { competitor: string; count: number; value: number }[];
+}
+
+// Real-time sync: messages on the browser WebSocket at /api/ws. Changes name the leads they
+// touched (for interactions and attachments, the lead they belong to) and carry no data; the
+// browser refetches what it shows. Product changes go to everyone and name no leads.
+export const REALTIME_PATH = '/api/ws';
+
+export type RealtimeEntity = 'lead' | 'interaction' | 'attachment' | 'product';
+export type RealtimeAction = 'created' | 'updated' | 'deleted';
+
+export interface RealtimeChange {
+  type: 'change';
+  entity: RealtimeEntity;
+  action: RealtimeAction;
+  leadIds: number[];
+}
+
+// Who has a lead open, one entry per user however many tabs they have
+export interface LeadPresence {
+  type: 'presence';
+  leadId: number;
+  viewers: { id: number; name: string }[];
+}
+
+export type RealtimeServerMessage = RealtimeChange | LeadPresence;
+// Sent when the browser opens a lead (leadId) or closes it (null)
+export type RealtimeClientMessage = { type: 'view'; leadId: number | null };